@@ -0,0 +1,67 @@
+-- ============================================================================
+-- AADHAAR OTP VERIFICATION
+-- ============================================================================
+-- Run after search.sql and add_aadhaar_checks_table.sql.
+--
+-- Verifying an Aadhaar number takes two steps, both through server
+-- functions: request-aadhaar-otp asks the provider to send an OTP to the
+-- number's registered mobile and records an `aadhaar_checks` row;
+-- submit-aadhaar-otp checks the code and, on success, sets
+-- users.aadhaar_verified.
+--
+-- A check expires at otp_expires_at and allows a few wrong codes before
+-- it is marked failed; the limits are in mobile/utils/aadhaar.util.ts.
+-- The number is stored encrypted with a key only the server functions
+-- hold, so the app only ever sees aadhaar_last4.
+
+-- 1. CHECK COLUMNS
+-- ============================================================================
+ALTER TABLE public.aadhaar_checks
+  ALTER COLUMN id SET DEFAULT gen_random_uuid(),
+  ADD COLUMN IF NOT EXISTS user_id uuid REFERENCES public.users(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS provider text NOT NULL DEFAULT 'fake',
+  ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'otp_sent'
+    CHECK (status IN ('otp_sent', 'verified', 'failed', 'expired')),
+  ADD COLUMN IF NOT EXISTS attempts integer NOT NULL DEFAULT 0 CHECK (attempts >= 0),
+  ADD COLUMN IF NOT EXISTS verified_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_aadhaar_checks_user ON public.aadhaar_checks (user_id, created_at DESC);
+
+-- 2. ROW LEVEL SECURITY
+-- ============================================================================
+-- Users may read their own checks to show progress; only the server
+-- functions (service role) write them.
+ALTER TABLE public.aadhaar_checks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users read own Aadhaar checks" ON public.aadhaar_checks;
+CREATE POLICY "Users read own Aadhaar checks" ON public.aadhaar_checks
+  FOR SELECT USING (user_id = auth.uid());
+
+-- 3. PROTECT THE VERIFIED FLAG
+-- ============================================================================
+-- users_insert_own and users_update_own_or_admin let people write their
+-- own row, so without this anyone could mark themselves verified. Only
+-- the service role (auth.uid() is null) may set the Aadhaar columns.
+CREATE OR REPLACE FUNCTION public.protect_aadhaar_verification()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF (TG_OP = 'INSERT' AND (coalesce(NEW.aadhaar_verified, false) OR NEW.aadhaar_check_id IS NOT NULL)) OR
+     (TG_OP = 'UPDATE' AND (
+       NEW.aadhaar_verified IS DISTINCT FROM OLD.aadhaar_verified OR
+       NEW.aadhaar_check_id IS DISTINCT FROM OLD.aadhaar_check_id
+     )) THEN
+    RAISE EXCEPTION 'Aadhaar verification can only change through OTP verification'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_aadhaar_verification ON public.users;
+CREATE TRIGGER protect_aadhaar_verification
+  BEFORE INSERT OR UPDATE ON public.users
+  FOR EACH ROW EXECUTE FUNCTION public.protect_aadhaar_verification();
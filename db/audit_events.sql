@@ -0,0 +1,59 @@
+-- ============================================================================
+-- AUDIT EVENTS
+-- ============================================================================
+-- Run after campaign_funding.sql.
+--
+-- One row per privileged admin action: verifying, disabling or deleting a
+-- startup, disabling an investor, and changing a user's role. Each row
+-- records who acted (and the role they held at the time), what they did,
+-- which record it was done to, and that record before and after the change.
+-- Rows are append-only; the admin Audit Log screen filters and exports them.
+--
+-- Campaign moderation keeps its own trail in campaign_reviews and
+-- campaign_status_history.
+
+CREATE TABLE IF NOT EXISTS public.audit_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- SET NULL keeps the event if the admin's account is later removed.
+  actor_id uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  actor_role text,
+  -- e.g. 'startup.verify', 'user.promote' (see AuditAction in database.types.ts)
+  action text NOT NULL,
+  target_type text NOT NULL CHECK (target_type IN ('startup', 'investor', 'user')),
+  -- Not a foreign key: the target may since have been deleted.
+  target_id text NOT NULL,
+  -- Snapshots of the target row; `before` is null for creations, `after`
+  -- for deletions.
+  before jsonb,
+  after jsonb,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_events_created_at
+  ON public.audit_events (created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_events_actor
+  ON public.audit_events (actor_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_events_target
+  ON public.audit_events (target_type, target_id, created_at DESC);
+
+ALTER TABLE public.audit_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins view audit events" ON public.audit_events;
+CREATE POLICY "Admins view audit events" ON public.audit_events
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.users u WHERE u.id = auth.uid() AND u.role IN ('admin', 'super_admin'))
+  );
+
+-- Admins record events in their own name and with the role they actually
+-- hold. There are no UPDATE or DELETE policies, so the log cannot be edited.
+DROP POLICY IF EXISTS "Admins record audit events" ON public.audit_events;
+CREATE POLICY "Admins record audit events" ON public.audit_events
+  FOR INSERT WITH CHECK (
+    actor_id = auth.uid() AND
+    EXISTS (
+      SELECT 1 FROM public.users u
+      WHERE u.id = auth.uid()
+        AND u.role IN ('admin', 'super_admin')
+        AND u.role = audit_events.actor_role
+    )
+  );
@@ -0,0 +1,137 @@
+-- ============================================================================
+-- CAMPAIGN DATA ROOM
+-- ============================================================================
+-- Run after campaign_updates.sql.
+--
+-- Startups upload a campaign's documents to the private
+-- `campaign-documents` storage bucket; `campaign_documents` rows describe
+-- them. Nobody reads the bucket directly: the open-campaign-document
+-- server function checks who may see a document, logs the access in
+-- `document_access_logs`, stamps the viewer's identity on PDFs and hands
+-- back a signed link that expires after a few minutes.
+--
+-- Who may open a document is the "Campaign documents access" policy from
+-- fundraising_system.sql: public documents for everyone, the rest for the
+-- startup and for investors whose interest is contacted,
+-- meeting_scheduled or invested (admins through campaign_reviews.sql).
+--
+-- Uploading a new version adds a row pointing at the one it replaces and
+-- marks the old one superseded; old versions stay for the startup's
+-- records.
+
+-- 1. DOCUMENT COLUMNS
+-- ============================================================================
+-- Uploaded documents have a storage path; older rows only have the link
+-- that was typed in, so file_url becomes optional.
+ALTER TABLE public.campaign_documents
+  ADD COLUMN IF NOT EXISTS storage_path text,
+  ADD COLUMN IF NOT EXISTS content_type text,
+  ADD COLUMN IF NOT EXISTS version integer NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS previous_version_id uuid REFERENCES public.campaign_documents(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS superseded_at timestamptz;
+
+ALTER TABLE public.campaign_documents ALTER COLUMN file_url DROP NOT NULL;
+
+ALTER TABLE public.campaign_documents
+  DROP CONSTRAINT IF EXISTS campaign_documents_source_check;
+ALTER TABLE public.campaign_documents
+  ADD CONSTRAINT campaign_documents_source_check
+  CHECK (file_url IS NOT NULL OR storage_path IS NOT NULL);
+
+ALTER TABLE public.campaign_documents
+  DROP CONSTRAINT IF EXISTS campaign_documents_document_type_check;
+ALTER TABLE public.campaign_documents
+  ADD CONSTRAINT campaign_documents_document_type_check
+  CHECK (document_type IN ('pitch_deck', 'business_plan', 'financials', 'legal', 'other'));
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_campaign_documents_storage_path
+  ON public.campaign_documents (storage_path) WHERE storage_path IS NOT NULL;
+
+-- 2. STARTUPS MANAGE THEIR DOCUMENTS
+-- ============================================================================
+-- Reading stays with the policies above; this adds writing for the
+-- campaign's owner.
+DROP POLICY IF EXISTS "Startups manage their campaign documents" ON public.campaign_documents;
+CREATE POLICY "Startups manage their campaign documents" ON public.campaign_documents
+  FOR ALL USING (
+    auth.uid() IN (
+      SELECT s.owner_id FROM public.startups s
+      JOIN public.fundraising_campaigns fc ON fc.startup_id = s.id
+      WHERE fc.id = campaign_documents.campaign_id
+    )
+  ) WITH CHECK (
+    uploaded_by = auth.uid() AND
+    auth.uid() IN (
+      SELECT s.owner_id FROM public.startups s
+      JOIN public.fundraising_campaigns fc ON fc.startup_id = s.id
+      WHERE fc.id = campaign_documents.campaign_id
+    )
+  );
+
+-- 3. ACCESS LOG
+-- ============================================================================
+-- One row per link handed out, written by the server function with the
+-- service role. The startup and admins can read a campaign's log; no one
+-- can change it.
+CREATE TABLE IF NOT EXISTS public.document_access_logs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id uuid NOT NULL REFERENCES public.campaign_documents(id) ON DELETE CASCADE,
+  campaign_id uuid NOT NULL REFERENCES public.fundraising_campaigns(id) ON DELETE CASCADE,
+  viewer_id uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  -- Who the viewer was shown as, e.g. the name and email stamped on
+  -- their copy.
+  viewer_label text NOT NULL,
+  action text NOT NULL CHECK (action IN ('view', 'download')),
+  -- Whether the copy handed out carries the viewer's identity.
+  watermarked boolean NOT NULL DEFAULT false,
+  -- When the signed link stops working; null for external links.
+  expires_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_access_logs_document
+  ON public.document_access_logs (document_id, created_at DESC);
+
+ALTER TABLE public.document_access_logs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Startups and admins read document access" ON public.document_access_logs;
+CREATE POLICY "Startups and admins read document access" ON public.document_access_logs
+  FOR SELECT USING (
+    auth.uid() IN (
+      SELECT s.owner_id FROM public.startups s
+      JOIN public.fundraising_campaigns fc ON fc.startup_id = s.id
+      WHERE fc.id = document_access_logs.campaign_id
+    ) OR
+    EXISTS (SELECT 1 FROM public.users u WHERE u.id = auth.uid() AND u.role IN ('admin', 'super_admin'))
+  );
+
+-- 4. STORAGE
+-- ============================================================================
+-- Object paths start with the campaign id: <campaign_id>/<document_id>/<file>.
+-- Owners upload and delete under their campaigns; there is no read policy,
+-- so files are only reachable through signed links.
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('campaign-documents', 'campaign-documents', false, 26214400)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Startups upload campaign documents" ON storage.objects;
+CREATE POLICY "Startups upload campaign documents" ON storage.objects
+  FOR INSERT WITH CHECK (
+    bucket_id = 'campaign-documents' AND
+    (storage.foldername(name))[1] IN (
+      SELECT fc.id::text FROM public.fundraising_campaigns fc
+      JOIN public.startups s ON s.id = fc.startup_id
+      WHERE s.owner_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Startups delete campaign documents" ON storage.objects;
+CREATE POLICY "Startups delete campaign documents" ON storage.objects
+  FOR DELETE USING (
+    bucket_id = 'campaign-documents' AND
+    (storage.foldername(name))[1] IN (
+      SELECT fc.id::text FROM public.fundraising_campaigns fc
+      JOIN public.startups s ON s.id = fc.startup_id
+      WHERE s.owner_id = auth.uid()
+    )
+  );
@@ -0,0 +1,79 @@
+-- ============================================================================
+-- CAMPAIGN FUNDING ROLL-UP
+-- ============================================================================
+-- Run after investment_commitments.sql.
+--
+-- A campaign's `funding_raised` is the sum of its committed investments.
+-- Investments now record which campaign they belong to, and a trigger keeps
+-- the total current on every insert, update and delete. Pending and
+-- rejected investments do not count.
+--
+-- This replaces the earlier update_campaign_funding() from
+-- fundraising_system.sql, which summed every investment of the startup into
+-- all of its campaigns and failed on DELETE.
+--
+-- Tests: db/tests/campaign_funding.test.sql (run with db/tests/run.sh).
+
+-- 1. LINK INVESTMENTS TO A CAMPAIGN
+-- ============================================================================
+-- SET NULL keeps the investment record if a campaign is ever deleted.
+ALTER TABLE public.investments
+  ADD COLUMN IF NOT EXISTS campaign_id uuid REFERENCES public.fundraising_campaigns(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_investments_campaign_id
+  ON public.investments (campaign_id, status);
+
+-- Investments confirmed from an interest belong to that interest's campaign.
+UPDATE public.investments i
+SET campaign_id = ci.campaign_id
+FROM public.campaign_interests ci
+WHERE i.interest_id = ci.id AND i.campaign_id IS NULL;
+
+-- 2. ROLL-UP
+-- ============================================================================
+-- Recompute one campaign's total. SECURITY DEFINER so the total is written
+-- whoever changed the investment; RLS on campaigns does not apply.
+CREATE OR REPLACE FUNCTION public.refresh_campaign_funding(target_campaign uuid)
+RETURNS void AS $$
+  UPDATE public.fundraising_campaigns
+  SET funding_raised = (
+    SELECT COALESCE(SUM(i.amount), 0)
+    FROM public.investments i
+    WHERE i.campaign_id = target_campaign AND i.status = 'committed'
+  )
+  WHERE id = target_campaign;
+$$ LANGUAGE sql SECURITY DEFINER;
+
+-- Refresh the campaign the row was in before and the one it is in now;
+-- they differ when an investment is moved between campaigns.
+CREATE OR REPLACE FUNCTION public.update_campaign_funding()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.campaign_id IS NOT NULL THEN
+    PERFORM public.refresh_campaign_funding(OLD.campaign_id);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.campaign_id IS NOT NULL AND
+     (TG_OP = 'INSERT' OR NEW.campaign_id IS DISTINCT FROM OLD.campaign_id) THEN
+    PERFORM public.refresh_campaign_funding(NEW.campaign_id);
+  END IF;
+
+  -- AFTER trigger: the return value is ignored.
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS update_campaign_funding_trigger ON public.investments;
+CREATE TRIGGER update_campaign_funding_trigger
+  AFTER INSERT OR DELETE OR UPDATE OF amount, status, campaign_id ON public.investments
+  FOR EACH ROW EXECUTE FUNCTION public.update_campaign_funding();
+
+-- 3. BACKFILL
+-- ============================================================================
+-- The old trigger left startup-wide sums in every campaign; recompute all.
+UPDATE public.fundraising_campaigns fc
+SET funding_raised = (
+  SELECT COALESCE(SUM(i.amount), 0)
+  FROM public.investments i
+  WHERE i.campaign_id = fc.id AND i.status = 'committed'
+);
@@ -0,0 +1,184 @@
+-- ============================================================================
+-- CAMPAIGN LIFECYCLE
+-- ============================================================================
+-- Run after fundraising_system.sql.
+--
+-- Campaign status follows a fixed set of transitions. The app applies them
+-- through mobile/services/campaign/lifecycle.service.ts; the trigger below
+-- rejects anything else, so a raw `.update({ status })` cannot skip review.
+--
+--   draft          -> pending_review (owner, required fields), cancelled (owner)
+--   pending_review -> active (admin, required fields), draft (owner, admin),
+--                     cancelled (owner), rejected (admin)
+--   active         -> paused (owner, admin), completed (owner),
+--                     cancelled (owner, admin)
+--   paused         -> active (owner, admin, required fields), completed (owner),
+--                     cancelled (owner, admin)
+--   completed, cancelled, rejected: final
+--
+-- Required fields: title, description, funding_goal > 0, pitch_deck_url,
+-- and equity_offered > 0 unless the campaign is debt.
+--
+-- Keep this table in sync with CAMPAIGN_TRANSITIONS in lifecycle.service.ts.
+
+-- 1. STATUS VALUES AND TIMESTAMPS
+-- ============================================================================
+ALTER TABLE public.fundraising_campaigns
+  DROP CONSTRAINT IF EXISTS fundraising_campaigns_status_check;
+ALTER TABLE public.fundraising_campaigns
+  ADD CONSTRAINT fundraising_campaigns_status_check
+  CHECK (status IN ('draft', 'pending_review', 'active', 'paused', 'completed', 'cancelled', 'rejected'));
+
+-- When the campaign last changed status, and when it last entered each
+-- state. The full sequence is in campaign_status_history.
+ALTER TABLE public.fundraising_campaigns
+  ADD COLUMN IF NOT EXISTS status_changed_at timestamptz,
+  ADD COLUMN IF NOT EXISTS submitted_at timestamptz,
+  ADD COLUMN IF NOT EXISTS activated_at timestamptz,
+  ADD COLUMN IF NOT EXISTS paused_at timestamptz,
+  ADD COLUMN IF NOT EXISTS completed_at timestamptz,
+  ADD COLUMN IF NOT EXISTS cancelled_at timestamptz,
+  ADD COLUMN IF NOT EXISTS rejected_at timestamptz;
+
+-- 2. STATUS HISTORY TABLE
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.campaign_status_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  campaign_id uuid NOT NULL REFERENCES public.fundraising_campaigns(id) ON DELETE CASCADE,
+  from_status text,
+  to_status text NOT NULL,
+  changed_by uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  note text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_campaign_status_history_campaign_id
+  ON public.campaign_status_history (campaign_id, created_at);
+
+ALTER TABLE public.campaign_status_history ENABLE ROW LEVEL SECURITY;
+
+-- Campaign owners and admins can read the history and append to it.
+-- Rows are never edited or deleted by the app.
+DROP POLICY IF EXISTS "Owners and admins view campaign history" ON public.campaign_status_history;
+CREATE POLICY "Owners and admins view campaign history" ON public.campaign_status_history
+  FOR SELECT USING (
+    auth.uid() IN (
+      SELECT s.owner_id FROM public.startups s
+      JOIN public.fundraising_campaigns fc ON fc.startup_id = s.id
+      WHERE fc.id = campaign_status_history.campaign_id
+    ) OR
+    EXISTS (SELECT 1 FROM public.users u WHERE u.id = auth.uid() AND u.role IN ('admin', 'super_admin'))
+  );
+
+DROP POLICY IF EXISTS "Owners and admins record campaign history" ON public.campaign_status_history;
+CREATE POLICY "Owners and admins record campaign history" ON public.campaign_status_history
+  FOR INSERT WITH CHECK (
+    changed_by = auth.uid() AND (
+      auth.uid() IN (
+        SELECT s.owner_id FROM public.startups s
+        JOIN public.fundraising_campaigns fc ON fc.startup_id = s.id
+        WHERE fc.id = campaign_status_history.campaign_id
+      ) OR
+      EXISTS (SELECT 1 FROM public.users u WHERE u.id = auth.uid() AND u.role IN ('admin', 'super_admin'))
+    )
+  );
+
+-- Admins review and moderate every campaign, so they need to read and
+-- update campaigns they do not own.
+DROP POLICY IF EXISTS "Admins can view all campaigns" ON public.fundraising_campaigns;
+CREATE POLICY "Admins can view all campaigns" ON public.fundraising_campaigns
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.users u WHERE u.id = auth.uid() AND u.role IN ('admin', 'super_admin'))
+  );
+
+DROP POLICY IF EXISTS "Admins can update campaigns" ON public.fundraising_campaigns;
+CREATE POLICY "Admins can update campaigns" ON public.fundraising_campaigns
+  FOR UPDATE USING (
+    EXISTS (SELECT 1 FROM public.users u WHERE u.id = auth.uid() AND u.role IN ('admin', 'super_admin'))
+  );
+
+-- 3. TRANSITION CHECK
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.enforce_campaign_transition()
+RETURNS TRIGGER AS $$
+DECLARE
+  from_status text := COALESCE(OLD.status, 'draft');
+  is_admin boolean;
+  is_owner boolean;
+  allowed text[];
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  -- Service-role calls (no auth.uid()) act as admin.
+  is_admin := auth.uid() IS NULL OR EXISTS (
+    SELECT 1 FROM public.users u WHERE u.id = auth.uid() AND u.role IN ('admin', 'super_admin')
+  );
+  is_owner := EXISTS (
+    SELECT 1 FROM public.startups s WHERE s.id = NEW.startup_id AND s.owner_id = auth.uid()
+  );
+
+  -- Who may make this move: 'owner', 'admin' or both.
+  allowed := CASE from_status || '>' || NEW.status
+    WHEN 'draft>pending_review' THEN ARRAY['owner']
+    WHEN 'draft>cancelled' THEN ARRAY['owner']
+    WHEN 'pending_review>active' THEN ARRAY['admin']
+    WHEN 'pending_review>draft' THEN ARRAY['owner', 'admin']
+    WHEN 'pending_review>cancelled' THEN ARRAY['owner']
+    WHEN 'pending_review>rejected' THEN ARRAY['admin']
+    WHEN 'active>paused' THEN ARRAY['owner', 'admin']
+    WHEN 'active>completed' THEN ARRAY['owner']
+    WHEN 'active>cancelled' THEN ARRAY['owner', 'admin']
+    WHEN 'paused>active' THEN ARRAY['owner', 'admin']
+    WHEN 'paused>completed' THEN ARRAY['owner']
+    WHEN 'paused>cancelled' THEN ARRAY['owner', 'admin']
+    ELSE NULL
+  END;
+
+  IF allowed IS NULL THEN
+    RAISE EXCEPTION 'Campaign cannot move from % to %', from_status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NOT ((is_owner AND 'owner' = ANY(allowed)) OR (is_admin AND 'admin' = ANY(allowed))) THEN
+    RAISE EXCEPTION 'Not allowed to move this campaign from % to %', from_status, NEW.status
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NEW.status IN ('pending_review', 'active') AND (
+    COALESCE(btrim(NEW.title), '') = '' OR
+    COALESCE(btrim(NEW.description), '') = '' OR
+    COALESCE(NEW.funding_goal, 0) <= 0 OR
+    (COALESCE(NEW.campaign_type, 'equity') <> 'debt' AND COALESCE(NEW.equity_offered, 0) <= 0) OR
+    COALESCE(btrim(NEW.pitch_deck_url), '') = ''
+  ) THEN
+    RAISE EXCEPTION 'Campaign is missing required fields for %', NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS enforce_campaign_transition_trigger ON public.fundraising_campaigns;
+CREATE TRIGGER enforce_campaign_transition_trigger
+  BEFORE UPDATE OF status ON public.fundraising_campaigns
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_campaign_transition();
+
+-- Campaigns created from the app always start as drafts. Service-role
+-- inserts (imports, fixtures) may set any status.
+CREATE OR REPLACE FUNCTION public.enforce_campaign_initial_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    NEW.status := 'draft';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enforce_campaign_initial_status_trigger ON public.fundraising_campaigns;
+CREATE TRIGGER enforce_campaign_initial_status_trigger
+  BEFORE INSERT ON public.fundraising_campaigns
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_campaign_initial_status();
@@ -0,0 +1,55 @@
+-- ============================================================================
+-- CAMPAIGN REVIEWS
+-- ============================================================================
+-- Run after campaign_lifecycle.sql.
+--
+-- Every admin decision on a submitted campaign: approve (-> active),
+-- request changes (-> draft) or reject (-> rejected). Rows are append-only
+-- and are the audit trail for moderation; the startup reads the latest one
+-- to see why its campaign was sent back or rejected.
+
+CREATE TABLE IF NOT EXISTS public.campaign_reviews (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  campaign_id uuid NOT NULL REFERENCES public.fundraising_campaigns(id) ON DELETE CASCADE,
+  reviewer_id uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  decision text NOT NULL CHECK (decision IN ('approved', 'rejected', 'changes_requested')),
+  -- Shown to the startup. Required unless the campaign was approved.
+  reason text,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT campaign_reviews_reason_required
+    CHECK (decision = 'approved' OR COALESCE(btrim(reason), '') <> '')
+);
+
+CREATE INDEX IF NOT EXISTS idx_campaign_reviews_campaign_id
+  ON public.campaign_reviews (campaign_id, created_at);
+
+ALTER TABLE public.campaign_reviews ENABLE ROW LEVEL SECURITY;
+
+-- The owning startup and admins can read reviews.
+DROP POLICY IF EXISTS "Owners and admins view campaign reviews" ON public.campaign_reviews;
+CREATE POLICY "Owners and admins view campaign reviews" ON public.campaign_reviews
+  FOR SELECT USING (
+    auth.uid() IN (
+      SELECT s.owner_id FROM public.startups s
+      JOIN public.fundraising_campaigns fc ON fc.startup_id = s.id
+      WHERE fc.id = campaign_reviews.campaign_id
+    ) OR
+    EXISTS (SELECT 1 FROM public.users u WHERE u.id = auth.uid() AND u.role IN ('admin', 'super_admin'))
+  );
+
+-- Only admins write reviews, and only in their own name. There are no
+-- UPDATE or DELETE policies, so decisions cannot be edited afterwards.
+DROP POLICY IF EXISTS "Admins record campaign reviews" ON public.campaign_reviews;
+CREATE POLICY "Admins record campaign reviews" ON public.campaign_reviews
+  FOR INSERT WITH CHECK (
+    reviewer_id = auth.uid() AND
+    EXISTS (SELECT 1 FROM public.users u WHERE u.id = auth.uid() AND u.role IN ('admin', 'super_admin'))
+  );
+
+-- Reviewers need every document attached to a submitted campaign, not
+-- only the public ones.
+DROP POLICY IF EXISTS "Admins view campaign documents" ON public.campaign_documents;
+CREATE POLICY "Admins view campaign documents" ON public.campaign_documents
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.users u WHERE u.id = auth.uid() AND u.role IN ('admin', 'super_admin'))
+  );
@@ -0,0 +1,43 @@
+-- ============================================================================
+-- CAMPAIGN SWIPES
+-- ============================================================================
+-- Run after audit_events.sql.
+--
+-- An investor's decision on a campaign in the swipe feed: `right`
+-- (interested) or `left` (pass). One row per investor and campaign, so a
+-- campaign is not shown again once decided. The app stores a fingerprint
+-- of the campaign's material terms (title, description, goal, equity,
+-- type, investment range, end date, use of funds) with each swipe; when
+-- the startup changes any of them the fingerprint no longer matches and
+-- the campaign returns to the feed. A new swipe then replaces the row.
+--
+-- A right swipe also records a `pending` campaign_interests row. The swipe
+-- keeps a link to it only when the swipe created it, so undoing the swipe
+-- removes that interest (as long as the startup has not acted on it yet)
+-- and never one the investor expressed some other way.
+
+CREATE TABLE IF NOT EXISTS public.campaign_swipes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  investor_id uuid NOT NULL REFERENCES public.investors(id) ON DELETE CASCADE,
+  campaign_id uuid NOT NULL REFERENCES public.fundraising_campaigns(id) ON DELETE CASCADE,
+  direction text NOT NULL CHECK (direction IN ('left', 'right')),
+  campaign_fingerprint text NOT NULL,
+  interest_id uuid REFERENCES public.campaign_interests(id) ON DELETE SET NULL,
+  swiped_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (investor_id, campaign_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_campaign_swipes_investor
+  ON public.campaign_swipes (investor_id, swiped_at DESC);
+
+ALTER TABLE public.campaign_swipes ENABLE ROW LEVEL SECURITY;
+
+-- Swipes are private to the investor; startups only see the interests
+-- that right swipes create.
+DROP POLICY IF EXISTS "Investors manage their swipes" ON public.campaign_swipes;
+CREATE POLICY "Investors manage their swipes" ON public.campaign_swipes
+  FOR ALL USING (
+    investor_id IN (SELECT id FROM public.investors WHERE owner_id = auth.uid())
+  ) WITH CHECK (
+    investor_id IN (SELECT id FROM public.investors WHERE owner_id = auth.uid())
+  );
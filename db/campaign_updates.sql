@@ -0,0 +1,51 @@
+-- ============================================================================
+-- CAMPAIGN UPDATES
+-- ============================================================================
+-- Run after notifications.sql.
+--
+-- `campaign_updates` (fundraising_system.sql) holds the news a startup
+-- posts on a campaign: milestones, financials, team changes. Public
+-- updates are visible to everyone; private ones only to the startup, to
+-- investors with an interest in the campaign, and to admins. Posting
+-- notifies the campaign's followers through the notify-event server
+-- function: interested investors for every update, and investors who
+-- saved the campaign for public ones.
+
+-- 1. VALUES
+-- ============================================================================
+ALTER TABLE public.campaign_updates
+  DROP CONSTRAINT IF EXISTS campaign_updates_update_type_check;
+ALTER TABLE public.campaign_updates
+  ADD CONSTRAINT campaign_updates_update_type_check
+  CHECK (update_type IN ('general', 'milestone', 'financial', 'team'));
+
+ALTER TABLE public.campaign_updates
+  DROP CONSTRAINT IF EXISTS campaign_updates_length_check;
+ALTER TABLE public.campaign_updates
+  ADD CONSTRAINT campaign_updates_length_check
+  CHECK (char_length(btrim(title)) BETWEEN 1 AND 120 AND char_length(btrim(content)) BETWEEN 1 AND 5000);
+
+-- The timeline reads newest first per campaign.
+CREATE INDEX IF NOT EXISTS idx_campaign_updates_timeline
+  ON public.campaign_updates (campaign_id, created_at DESC);
+
+-- 2. VISIBILITY
+-- ============================================================================
+-- Replaces the policy from fundraising_system.sql, which showed private
+-- updates to the startup only.
+DROP POLICY IF EXISTS "Campaign updates access" ON public.campaign_updates;
+CREATE POLICY "Campaign updates access" ON public.campaign_updates
+  FOR SELECT USING (
+    is_public = true OR
+    auth.uid() IN (
+      SELECT s.owner_id FROM public.startups s
+      JOIN public.fundraising_campaigns fc ON fc.startup_id = s.id
+      WHERE fc.id = campaign_updates.campaign_id
+    ) OR
+    auth.uid() IN (
+      SELECT i.owner_id FROM public.investors i
+      JOIN public.campaign_interests ci ON ci.investor_id = i.id
+      WHERE ci.campaign_id = campaign_updates.campaign_id
+    ) OR
+    EXISTS (SELECT 1 FROM public.users u WHERE u.id = auth.uid() AND u.role IN ('admin', 'super_admin'))
+  );
@@ -172,29 +172,8 @@ CREATE POLICY "Campaign documents access" ON public.campaign_documents
 -- FUNCTIONS AND TRIGGERS
 -- ============================================================================
 
--- Function to update campaign funding_raised when investments are made
-CREATE OR REPLACE FUNCTION update_campaign_funding()
-RETURNS TRIGGER AS $$
-BEGIN
-  -- Update funding_raised in the campaign
-  UPDATE public.fundraising_campaigns
-  SET funding_raised = (
-    SELECT COALESCE(SUM(amount), 0)
-    FROM public.investments i
-    WHERE i.startup_id = (
-      SELECT startup_id FROM public.fundraising_campaigns WHERE id = NEW.startup_id
-    )
-  )
-  WHERE startup_id = NEW.startup_id;
-
-  RETURN NEW;
-END;
-$$ LANGUAGE plpgsql;
-
--- Trigger to update funding when investments change
-CREATE TRIGGER update_campaign_funding_trigger
-  AFTER INSERT OR UPDATE OR DELETE ON public.investments
-  FOR EACH ROW EXECUTE FUNCTION update_campaign_funding();
+-- funding_raised is rolled up from investments by update_campaign_funding(),
+-- defined in campaign_funding.sql once investments carry a campaign_id.
 
 -- Function to update updated_at timestamp
 CREATE OR REPLACE FUNCTION update_updated_at_column()
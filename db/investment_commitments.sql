@@ -0,0 +1,110 @@
+-- ============================================================================
+-- INVESTMENT COMMITMENTS
+-- ============================================================================
+-- Run after fundraising_system.sql and campaign_lifecycle.sql.
+--
+-- An investor's interest in a campaign becomes an investment in stages:
+--
+--   pending -> contacted -> meeting_scheduled   (moved by the startup)
+--   contacted | meeting_scheduled -> invested   (investor confirms)
+--
+-- Confirming goes through the `commit-investment` server function
+-- (mobile/server/commitInvestment.ts). It checks the amount against the
+-- campaign's min/max, marks the interest invested and writes the
+-- `investments` row, so neither side can do those steps directly.
+
+-- 1. LINK INVESTMENTS TO THE INTEREST THEY CAME FROM
+-- ============================================================================
+-- At most one investment per interest; a retried confirmation cannot
+-- create a second row.
+ALTER TABLE public.investments
+  ADD COLUMN IF NOT EXISTS interest_id uuid REFERENCES public.campaign_interests(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_investments_interest_id
+  ON public.investments (interest_id) WHERE interest_id IS NOT NULL;
+
+ALTER TABLE public.campaign_interests
+  DROP CONSTRAINT IF EXISTS campaign_interests_status_check;
+ALTER TABLE public.campaign_interests
+  ADD CONSTRAINT campaign_interests_status_check
+  CHECK (status IN ('pending', 'contacted', 'meeting_scheduled', 'invested'));
+
+-- 2. POLICIES
+-- ============================================================================
+-- Startups move interests in their own campaigns along the pipeline. The
+-- trigger below limits what they can change.
+DROP POLICY IF EXISTS "Startups update interests in their campaigns" ON public.campaign_interests;
+CREATE POLICY "Startups update interests in their campaigns" ON public.campaign_interests
+  FOR UPDATE USING (
+    auth.uid() IN (
+      SELECT s.owner_id FROM public.startups s
+      JOIN public.fundraising_campaigns fc ON fc.startup_id = s.id
+      WHERE fc.id = campaign_interests.campaign_id
+    )
+  );
+
+-- Investments are written only by the server function (service role).
+DROP POLICY IF EXISTS "investments_insert_participant" ON public.investments;
+DROP POLICY IF EXISTS "investments_insert_investor" ON public.investments;
+
+-- 3. STAGE CHECK
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.enforce_interest_stage()
+RETURNS TRIGGER AS $$
+DECLARE
+  from_status text := COALESCE(OLD.status, 'pending');
+  is_investor boolean;
+  is_startup boolean;
+BEGIN
+  -- Service-role calls (the commit-investment function) may set any stage.
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Once invested, the interest is the record of a commitment.
+  IF from_status = 'invested' THEN
+    RAISE EXCEPTION 'This interest has already been converted to an investment'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  is_investor := EXISTS (
+    SELECT 1 FROM public.investors i WHERE i.id = OLD.investor_id AND i.owner_id = auth.uid()
+  );
+  is_startup := EXISTS (
+    SELECT 1 FROM public.startups s
+    JOIN public.fundraising_campaigns fc ON fc.startup_id = s.id
+    WHERE fc.id = OLD.campaign_id AND s.owner_id = auth.uid()
+  );
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NOT is_startup THEN
+      RAISE EXCEPTION 'Only the startup can move an interest to %', NEW.status
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    IF from_status || '>' || NEW.status NOT IN ('pending>contacted', 'contacted>meeting_scheduled') THEN
+      RAISE EXCEPTION 'Interest cannot move from % to %', from_status, NEW.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  -- The startup may only move the stage, not rewrite the investor's offer.
+  IF NOT is_investor AND (
+    NEW.campaign_id IS DISTINCT FROM OLD.campaign_id OR
+    NEW.investor_id IS DISTINCT FROM OLD.investor_id OR
+    NEW.proposed_investment IS DISTINCT FROM OLD.proposed_investment OR
+    NEW.proposed_equity IS DISTINCT FROM OLD.proposed_equity OR
+    NEW.interest_level IS DISTINCT FROM OLD.interest_level OR
+    NEW.notes IS DISTINCT FROM OLD.notes
+  ) THEN
+    RAISE EXCEPTION 'Only the investor can change the terms of an interest'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS enforce_interest_stage_trigger ON public.campaign_interests;
+CREATE TRIGGER enforce_interest_stage_trigger
+  BEFORE UPDATE ON public.campaign_interests
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_interest_stage();
@@ -0,0 +1,148 @@
+-- ============================================================================
+-- KYC RECORDS AND GATING
+-- ============================================================================
+-- Run after startup_identifier_checks.sql.
+--
+-- One kyc_records row per user brings together everything that verifies
+-- them and their startup or investor profile: Aadhaar, the recorded PAN,
+-- CIN/LLPIN and GSTIN checks, the admin review and, for investors,
+-- accreditation. `level` is the highest of
+--   unverified < identity_verified < business_verified < accredited
+-- the user has reached; mobile/utils/kyc.util.ts has the rules. Rows are
+-- written only by the refresh-kyc server function (server/kyc.ts), which
+-- runs after each of those inputs changes.
+--
+-- Campaigns need their startup to be identity verified to go to review
+-- and business verified to go live; the commit-investment server function
+-- checks investors the same way.
+
+-- 1. INVESTOR REVIEW AND ACCREDITATION
+-- ============================================================================
+ALTER TABLE public.investors
+  ADD COLUMN IF NOT EXISTS verification_status text DEFAULT 'pending'
+    CHECK (verification_status IN ('pending', 'verified', 'rejected')),
+  -- Inclusive; null when the investor is not accredited.
+  ADD COLUMN IF NOT EXISTS accredited_until date;
+
+-- 2. KYC RECORDS
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.kyc_records (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL UNIQUE REFERENCES public.users(id) ON DELETE CASCADE,
+  subject_type text CHECK (subject_type IN ('startup', 'investor')),
+  -- The user's startups.id or investors.id; not a foreign key because it
+  -- points at one of two tables.
+  subject_id uuid,
+  level text NOT NULL DEFAULT 'unverified'
+    CHECK (level IN ('unverified', 'identity_verified', 'business_verified', 'accredited')),
+  aadhaar_verified boolean NOT NULL DEFAULT false,
+  pan_status text CHECK (pan_status IN ('passed', 'failed', 'missing', 'not_applicable')),
+  registration_status text CHECK (registration_status IN ('passed', 'failed', 'missing', 'not_applicable')),
+  gstin_status text CHECK (gstin_status IN ('passed', 'failed', 'missing', 'not_applicable')),
+  review_status text CHECK (review_status IN ('pending', 'verified', 'rejected')),
+  accredited_until date,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_kyc_records_level ON public.kyc_records (level);
+
+-- 3. ROW LEVEL SECURITY
+-- ============================================================================
+-- Users read their own record to see what is left to do; admins read all
+-- of them to approve campaigns. Only the service role writes.
+ALTER TABLE public.kyc_records ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users read own KYC record" ON public.kyc_records;
+CREATE POLICY "Users read own KYC record" ON public.kyc_records
+  FOR SELECT USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Admins read KYC records" ON public.kyc_records;
+CREATE POLICY "Admins read KYC records" ON public.kyc_records
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.users u WHERE u.id = auth.uid() AND u.role IN ('admin', 'super_admin'))
+  );
+
+-- 4. PROTECT REVIEW RESULTS
+-- ============================================================================
+-- Owners may update their own startup and investor rows, so without this
+-- they could review themselves. Only admins and the service role may set
+-- the review columns.
+CREATE OR REPLACE FUNCTION public.protect_kyc_review()
+RETURNS TRIGGER AS $$
+DECLARE
+  reviewed_changed boolean;
+BEGIN
+  IF auth.uid() IS NULL OR EXISTS (
+    SELECT 1 FROM public.users u WHERE u.id = auth.uid() AND u.role IN ('admin', 'super_admin')
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    reviewed_changed := COALESCE(NEW.verification_status, 'pending') <> 'pending' OR
+      (TG_TABLE_NAME = 'investors' AND NEW.accredited_until IS NOT NULL);
+  ELSE
+    reviewed_changed := NEW.verification_status IS DISTINCT FROM OLD.verification_status OR
+      (TG_TABLE_NAME = 'investors' AND NEW.accredited_until IS DISTINCT FROM OLD.accredited_until);
+  END IF;
+
+  IF reviewed_changed THEN
+    RAISE EXCEPTION 'Only admins can review % profiles', TG_TABLE_NAME
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS protect_kyc_review ON public.startups;
+CREATE TRIGGER protect_kyc_review
+  BEFORE INSERT OR UPDATE ON public.startups
+  FOR EACH ROW EXECUTE FUNCTION public.protect_kyc_review();
+
+DROP TRIGGER IF EXISTS protect_kyc_review ON public.investors;
+CREATE TRIGGER protect_kyc_review
+  BEFORE INSERT OR UPDATE ON public.investors
+  FOR EACH ROW EXECUTE FUNCTION public.protect_kyc_review();
+
+-- 5. CAMPAIGN GATE
+-- ============================================================================
+-- Runs alongside enforce_campaign_transition (campaign_lifecycle.sql),
+-- for admins as well: approving a campaign needs its startup verified.
+-- The levels match KYC_POLICY in mobile/utils/kyc.util.ts.
+CREATE OR REPLACE FUNCTION public.enforce_campaign_kyc()
+RETURNS TRIGGER AS $$
+DECLARE
+  required text;
+  owner_level text;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  required := CASE NEW.status
+    WHEN 'pending_review' THEN 'identity_verified'
+    WHEN 'active' THEN 'business_verified'
+    ELSE NULL
+  END;
+  IF required IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT k.level INTO owner_level
+  FROM public.startups s
+  JOIN public.kyc_records k ON k.user_id = s.owner_id
+  WHERE s.id = NEW.startup_id;
+
+  IF array_position(ARRAY['unverified', 'identity_verified', 'business_verified', 'accredited'], COALESCE(owner_level, 'unverified')) <
+     array_position(ARRAY['unverified', 'identity_verified', 'business_verified', 'accredited'], required) THEN
+    RAISE EXCEPTION 'The startup must be % before its campaign can move to %', required, NEW.status
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS enforce_campaign_kyc ON public.fundraising_campaigns;
+CREATE TRIGGER enforce_campaign_kyc
+  BEFORE UPDATE OF status ON public.fundraising_campaigns
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_campaign_kyc();
@@ -0,0 +1,375 @@
+-- ============================================================================
+-- MONEY LEDGER
+-- ============================================================================
+-- Run after payments.sql.
+--
+-- A double-entry record of the money behind investments. Accounts belong
+-- to an investor (wallet), a campaign (escrow), a startup (payout) or the
+-- platform (fees, and the payment gateway the money arrives through).
+-- Each journal entry is a commitment, a reversal of one, a payment, a
+-- refund or a disbursement, and its lines move paise between accounts:
+-- positive amounts are debits, negative ones credits, and every entry
+-- adds up to zero. mobile/utils/ledger.util.ts lists what each kind of
+-- entry posts.
+--
+-- Entries and lines are never changed or removed; a correction is a new,
+-- reversing entry. Commitments are posted here whenever an investment
+-- changes, and a campaign's `funding_raised` is now what its escrow holds
+-- from commitments, replacing the investments roll-up in
+-- campaign_funding.sql. Payments, refunds and disbursements are posted by
+-- the server functions (mobile/server/ledger.ts), which also do the
+-- commitments on the local backend. Payments taken before this migration
+-- are posted by running `reconcile-ledger` with `repair`.
+--
+-- Tests: db/tests/campaign_funding.test.sql checks funding_raised through
+-- the ledger.
+
+-- 1. ACCOUNTS
+-- ============================================================================
+-- `key` is `<kind>:<owner id>`, or the kind alone for platform accounts,
+-- so an account is created once however many entries need it.
+CREATE TABLE IF NOT EXISTS public.ledger_accounts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  key text NOT NULL UNIQUE,
+  kind text NOT NULL
+    CHECK (kind IN ('investor_wallet', 'campaign_escrow', 'startup_payout', 'platform_fees', 'payment_gateway')),
+  investor_id uuid REFERENCES public.investors(id) ON DELETE SET NULL,
+  campaign_id uuid REFERENCES public.fundraising_campaigns(id) ON DELETE SET NULL,
+  startup_id uuid REFERENCES public.startups(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ledger_accounts_investor ON public.ledger_accounts (investor_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_accounts_campaign ON public.ledger_accounts (campaign_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_accounts_startup ON public.ledger_accounts (startup_id);
+
+-- 2. JOURNAL
+-- ============================================================================
+-- `reference` makes posting idempotent: the same movement posted twice
+-- finds the first entry. investment_id, payment_id and campaign_id say
+-- what the entry is about; they are not foreign keys, so the history
+-- stays when those rows go.
+CREATE TABLE IF NOT EXISTS public.ledger_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind text NOT NULL
+    CHECK (kind IN ('commitment', 'commitment_reversal', 'payment', 'refund', 'disbursement')),
+  reference text NOT NULL UNIQUE,
+  description text,
+  investment_id uuid,
+  payment_id uuid,
+  campaign_id uuid,
+  created_by uuid,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_investment ON public.ledger_entries (investment_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_payment ON public.ledger_entries (payment_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_campaign ON public.ledger_entries (campaign_id, kind);
+
+CREATE TABLE IF NOT EXISTS public.ledger_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  entry_id uuid NOT NULL REFERENCES public.ledger_entries(id),
+  account_id uuid NOT NULL REFERENCES public.ledger_accounts(id),
+  amount bigint NOT NULL CHECK (amount <> 0),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (entry_id, account_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ledger_lines_account ON public.ledger_lines (account_id);
+
+-- 3. APPEND-ONLY, BALANCED ENTRIES
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.reject_ledger_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'The ledger is append-only; % on % is not allowed', TG_OP, TG_TABLE_NAME
+    USING HINT = 'Post a reversing entry instead.';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS ledger_entries_append_only ON public.ledger_entries;
+CREATE TRIGGER ledger_entries_append_only
+  BEFORE UPDATE OR DELETE ON public.ledger_entries
+  FOR EACH ROW EXECUTE FUNCTION public.reject_ledger_change();
+
+DROP TRIGGER IF EXISTS ledger_entries_no_truncate ON public.ledger_entries;
+CREATE TRIGGER ledger_entries_no_truncate
+  BEFORE TRUNCATE ON public.ledger_entries
+  FOR EACH STATEMENT EXECUTE FUNCTION public.reject_ledger_change();
+
+DROP TRIGGER IF EXISTS ledger_lines_append_only ON public.ledger_lines;
+CREATE TRIGGER ledger_lines_append_only
+  BEFORE UPDATE OR DELETE ON public.ledger_lines
+  FOR EACH ROW EXECUTE FUNCTION public.reject_ledger_change();
+
+DROP TRIGGER IF EXISTS ledger_lines_no_truncate ON public.ledger_lines;
+CREATE TRIGGER ledger_lines_no_truncate
+  BEFORE TRUNCATE ON public.ledger_lines
+  FOR EACH STATEMENT EXECUTE FUNCTION public.reject_ledger_change();
+
+-- Checked at commit, once all of an entry's lines are in. An entry's
+-- lines are inserted in one statement, so one request.
+CREATE OR REPLACE FUNCTION public.check_ledger_entry_balanced()
+RETURNS TRIGGER AS $$
+DECLARE
+  total bigint;
+BEGIN
+  SELECT SUM(amount) INTO total FROM public.ledger_lines WHERE entry_id = NEW.entry_id;
+  IF total <> 0 THEN
+    RAISE EXCEPTION 'Ledger entry % does not balance (off by % paise)', NEW.entry_id, total;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS check_ledger_entry_balanced ON public.ledger_lines;
+CREATE CONSTRAINT TRIGGER check_ledger_entry_balanced
+  AFTER INSERT ON public.ledger_lines
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW EXECUTE FUNCTION public.check_ledger_entry_balanced();
+
+-- 4. COMMITMENTS
+-- ============================================================================
+-- The account for a kind and owner, created on first use.
+CREATE OR REPLACE FUNCTION public.ledger_account_id(account_kind text, owner uuid)
+RETURNS uuid AS $$
+DECLARE
+  account_key text := CASE WHEN owner IS NULL THEN account_kind ELSE account_kind || ':' || owner END;
+  found_id uuid;
+BEGIN
+  INSERT INTO public.ledger_accounts (key, kind, investor_id, campaign_id, startup_id)
+  VALUES (
+    account_key,
+    account_kind,
+    CASE WHEN account_kind = 'investor_wallet' THEN owner END,
+    CASE WHEN account_kind = 'campaign_escrow' THEN owner END,
+    CASE WHEN account_kind = 'startup_payout' THEN owner END
+  )
+  ON CONFLICT (key) DO NOTHING;
+
+  SELECT id INTO found_id FROM public.ledger_accounts WHERE key = account_key;
+  RETURN found_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Bring the ledger in line with one investment: while it is committed to
+-- a campaign its amount is held in that campaign's escrow, otherwise
+-- nothing is. When the ledger holds anything else, that is reversed and
+-- the current commitment posted. Running it again changes nothing.
+-- server/ledger.ts (syncCommitment) does the same on the local backend.
+CREATE OR REPLACE FUNCTION public.sync_ledger_commitment(target uuid)
+RETURNS void AS $$
+DECLARE
+  inv public.investments%ROWTYPE;
+  target_amount bigint;
+  held_count integer;
+  held_key text;
+  held_amount bigint;
+  wallet_id uuid;
+  new_entry uuid;
+  seq integer;
+BEGIN
+  SELECT * INTO inv FROM public.investments WHERE id = target;
+  IF FOUND AND inv.status = 'committed' AND inv.campaign_id IS NOT NULL AND COALESCE(inv.amount, 0) > 0 THEN
+    target_amount := round(inv.amount * 100);
+  END IF;
+
+  -- What escrow holds for the investment now.
+  SELECT count(*), max(h.key), max(h.held) INTO held_count, held_key, held_amount
+  FROM (
+    SELECT a.key, -SUM(l.amount) AS held
+    FROM public.ledger_entries e
+    JOIN public.ledger_lines l ON l.entry_id = e.id
+    JOIN public.ledger_accounts a ON a.id = l.account_id
+    WHERE e.investment_id = target
+      AND e.kind IN ('commitment', 'commitment_reversal')
+      AND a.kind = 'campaign_escrow'
+    GROUP BY a.key
+    HAVING SUM(l.amount) <> 0
+  ) h;
+
+  IF held_count = 0 AND target_amount IS NULL THEN
+    RETURN;
+  END IF;
+  IF held_count = 1 AND held_key = 'campaign_escrow:' || inv.campaign_id AND held_amount = target_amount THEN
+    RETURN;
+  END IF;
+
+  -- The wallet the last commitment was made from, in case the investor
+  -- profile has since gone.
+  SELECT l.account_id INTO wallet_id
+  FROM public.ledger_entries e
+  JOIN public.ledger_lines l ON l.entry_id = e.id
+  JOIN public.ledger_accounts a ON a.id = l.account_id
+  WHERE e.investment_id = target AND e.kind = 'commitment' AND a.kind = 'investor_wallet'
+  ORDER BY e.created_at DESC
+  LIMIT 1;
+
+  IF held_count > 0 THEN
+    SELECT count(*) + 1 INTO seq
+    FROM public.ledger_entries
+    WHERE investment_id = target AND kind = 'commitment_reversal';
+
+    INSERT INTO public.ledger_entries (kind, reference, description, investment_id, campaign_id)
+    VALUES (
+      'commitment_reversal',
+      'commitment_reversal:' || target || ':' || seq,
+      'Investment changed or withdrawn',
+      target,
+      CASE WHEN held_count = 1 THEN substring(held_key FROM length('campaign_escrow:') + 1)::uuid END
+    )
+    RETURNING id INTO new_entry;
+
+    INSERT INTO public.ledger_lines (entry_id, account_id, amount)
+    SELECT new_entry, l.account_id, -SUM(l.amount)
+    FROM public.ledger_entries e
+    JOIN public.ledger_lines l ON l.entry_id = e.id
+    WHERE e.investment_id = target AND e.kind IN ('commitment', 'commitment_reversal') AND e.id <> new_entry
+    GROUP BY l.account_id
+    HAVING SUM(l.amount) <> 0;
+  END IF;
+
+  IF target_amount IS NULL THEN
+    RETURN;
+  END IF;
+  IF inv.investor_id IS NOT NULL THEN
+    wallet_id := public.ledger_account_id('investor_wallet', inv.investor_id);
+  END IF;
+  -- An investment that never had an investor cannot be posted.
+  IF wallet_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT count(*) + 1 INTO seq
+  FROM public.ledger_entries
+  WHERE investment_id = target AND kind = 'commitment';
+
+  INSERT INTO public.ledger_entries (kind, reference, description, investment_id, campaign_id)
+  VALUES ('commitment', 'commitment:' || target || ':' || seq, 'Investment committed', target, inv.campaign_id)
+  RETURNING id INTO new_entry;
+
+  INSERT INTO public.ledger_lines (entry_id, account_id, amount) VALUES
+    (new_entry, wallet_id, target_amount),
+    (new_entry, public.ledger_account_id('campaign_escrow', inv.campaign_id), -target_amount);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.post_investment_commitment()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM public.sync_ledger_commitment(OLD.id);
+  ELSE
+    PERFORM public.sync_ledger_commitment(NEW.id);
+  END IF;
+
+  -- AFTER trigger: the return value is ignored.
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Replaces update_campaign_funding_trigger from campaign_funding.sql.
+DROP TRIGGER IF EXISTS update_campaign_funding_trigger ON public.investments;
+DROP FUNCTION IF EXISTS public.update_campaign_funding();
+
+DROP TRIGGER IF EXISTS post_investment_commitment_trigger ON public.investments;
+CREATE TRIGGER post_investment_commitment_trigger
+  AFTER INSERT OR DELETE OR UPDATE OF amount, status, campaign_id ON public.investments
+  FOR EACH ROW EXECUTE FUNCTION public.post_investment_commitment();
+
+-- 5. FUNDING RAISED FROM THE LEDGER
+-- ============================================================================
+-- A campaign's total is what its escrow holds from commitments, in
+-- rupees. Disbursements leave it alone.
+CREATE OR REPLACE FUNCTION public.refresh_campaign_funding(target_campaign uuid)
+RETURNS void AS $$
+  UPDATE public.fundraising_campaigns
+  SET funding_raised = (
+    SELECT COALESCE(-SUM(l.amount), 0) / 100.0
+    FROM public.ledger_lines l
+    JOIN public.ledger_entries e ON e.id = l.entry_id
+    JOIN public.ledger_accounts a ON a.id = l.account_id
+    WHERE a.key = 'campaign_escrow:' || target_campaign
+      AND e.kind IN ('commitment', 'commitment_reversal')
+  )
+  WHERE id = target_campaign;
+$$ LANGUAGE sql SECURITY DEFINER;
+
+-- Whoever posts a commitment line, the campaign's total follows.
+CREATE OR REPLACE FUNCTION public.refresh_funding_from_ledger()
+RETURNS TRIGGER AS $$
+DECLARE
+  escrow_campaign uuid;
+BEGIN
+  SELECT a.campaign_id INTO escrow_campaign
+  FROM public.ledger_accounts a
+  JOIN public.ledger_entries e ON e.id = NEW.entry_id
+  WHERE a.id = NEW.account_id
+    AND a.kind = 'campaign_escrow'
+    AND e.kind IN ('commitment', 'commitment_reversal');
+
+  IF escrow_campaign IS NOT NULL THEN
+    PERFORM public.refresh_campaign_funding(escrow_campaign);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS refresh_funding_from_ledger_trigger ON public.ledger_lines;
+CREATE TRIGGER refresh_funding_from_ledger_trigger
+  AFTER INSERT ON public.ledger_lines
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_funding_from_ledger();
+
+-- 6. BACKFILL
+-- ============================================================================
+-- Post every existing commitment, then recompute every total from the
+-- ledger. Both are no-ops when run again.
+SELECT public.sync_ledger_commitment(id) FROM public.investments;
+SELECT public.refresh_campaign_funding(id) FROM public.fundraising_campaigns;
+
+-- 7. ROW LEVEL SECURITY
+-- ============================================================================
+-- Admins read the whole ledger. Investors read their wallet, and startup
+-- owners their payout account and their campaigns' escrow, with the
+-- entries that touch them. There are no write policies, so only the
+-- service role posts.
+CREATE OR REPLACE FUNCTION public.ledger_account_visible(target uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.users u WHERE u.id = auth.uid() AND u.role IN ('admin', 'super_admin')
+  ) OR EXISTS (
+    SELECT 1
+    FROM public.ledger_accounts a
+    WHERE a.id = target AND (
+      a.investor_id IN (SELECT i.id FROM public.investors i WHERE i.owner_id = auth.uid())
+      OR a.startup_id IN (SELECT s.id FROM public.startups s WHERE s.owner_id = auth.uid())
+      OR a.campaign_id IN (
+        SELECT fc.id
+        FROM public.fundraising_campaigns fc
+        JOIN public.startups s ON s.id = fc.startup_id
+        WHERE s.owner_id = auth.uid()
+      )
+    )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+ALTER TABLE public.ledger_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ledger_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ledger_lines ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Read visible ledger accounts" ON public.ledger_accounts;
+CREATE POLICY "Read visible ledger accounts" ON public.ledger_accounts
+  FOR SELECT USING (public.ledger_account_visible(id));
+
+DROP POLICY IF EXISTS "Read visible ledger lines" ON public.ledger_lines;
+CREATE POLICY "Read visible ledger lines" ON public.ledger_lines
+  FOR SELECT USING (public.ledger_account_visible(account_id));
+
+DROP POLICY IF EXISTS "Read visible ledger entries" ON public.ledger_entries;
+CREATE POLICY "Read visible ledger entries" ON public.ledger_entries
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.ledger_lines l
+      WHERE l.entry_id = ledger_entries.id AND public.ledger_account_visible(l.account_id)
+    )
+  );
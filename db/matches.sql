@@ -0,0 +1,97 @@
+-- ============================================================================
+-- MATCHES
+-- ============================================================================
+-- Run after campaign_swipes.sql.
+--
+-- A match is a startup and an investor who have both opted in:
+-- * the investor by expressing interest in any of the startup's campaigns
+--   (a campaign_interests row, from the campaign page or a right swipe),
+-- * the startup by liking the investor (startup_likes), either from its
+--   investor pipeline or from the Discover Investors list.
+-- Whichever side opts in second creates the match row. Contact details
+-- (email, phone) are only handed out for matched pairs, by the
+-- match-contacts server function.
+
+-- 1. STARTUP LIKES
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.startup_likes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  startup_id uuid NOT NULL REFERENCES public.startups(id) ON DELETE CASCADE,
+  investor_id uuid NOT NULL REFERENCES public.investors(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (startup_id, investor_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_startup_likes_investor
+  ON public.startup_likes (investor_id);
+
+ALTER TABLE public.startup_likes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Startups manage their likes" ON public.startup_likes;
+CREATE POLICY "Startups manage their likes" ON public.startup_likes
+  FOR ALL USING (
+    startup_id IN (SELECT id FROM public.startups WHERE owner_id = auth.uid())
+  ) WITH CHECK (
+    startup_id IN (SELECT id FROM public.startups WHERE owner_id = auth.uid())
+  );
+
+-- The investor needs to see that a startup liked them to complete the
+-- match when they express interest.
+DROP POLICY IF EXISTS "Investors view likes they received" ON public.startup_likes;
+CREATE POLICY "Investors view likes they received" ON public.startup_likes
+  FOR SELECT USING (
+    investor_id IN (SELECT id FROM public.investors WHERE owner_id = auth.uid())
+  );
+
+-- 2. MATCHES
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.matches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  startup_id uuid NOT NULL REFERENCES public.startups(id) ON DELETE CASCADE,
+  investor_id uuid NOT NULL REFERENCES public.investors(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  -- When each side first opened its Matches list after the match; null
+  -- means the match is still new to them.
+  startup_seen_at timestamptz,
+  investor_seen_at timestamptz,
+  UNIQUE (startup_id, investor_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_matches_investor
+  ON public.matches (investor_id, created_at DESC);
+
+ALTER TABLE public.matches ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Parties view their matches" ON public.matches;
+CREATE POLICY "Parties view their matches" ON public.matches
+  FOR SELECT USING (
+    startup_id IN (SELECT id FROM public.startups WHERE owner_id = auth.uid()) OR
+    investor_id IN (SELECT id FROM public.investors WHERE owner_id = auth.uid())
+  );
+
+-- Either party may record the match, but only once both have opted in.
+DROP POLICY IF EXISTS "Parties record mutual matches" ON public.matches;
+CREATE POLICY "Parties record mutual matches" ON public.matches
+  FOR INSERT WITH CHECK (
+    (
+      startup_id IN (SELECT id FROM public.startups WHERE owner_id = auth.uid()) OR
+      investor_id IN (SELECT id FROM public.investors WHERE owner_id = auth.uid())
+    ) AND
+    EXISTS (
+      SELECT 1 FROM public.startup_likes sl
+      WHERE sl.startup_id = matches.startup_id AND sl.investor_id = matches.investor_id
+    ) AND
+    EXISTS (
+      SELECT 1 FROM public.campaign_interests ci
+      JOIN public.fundraising_campaigns fc ON fc.id = ci.campaign_id
+      WHERE fc.startup_id = matches.startup_id AND ci.investor_id = matches.investor_id
+    )
+  );
+
+-- Used only to mark a match as seen; each side sets its own column.
+DROP POLICY IF EXISTS "Parties mark matches seen" ON public.matches;
+CREATE POLICY "Parties mark matches seen" ON public.matches
+  FOR UPDATE USING (
+    startup_id IN (SELECT id FROM public.startups WHERE owner_id = auth.uid()) OR
+    investor_id IN (SELECT id FROM public.investors WHERE owner_id = auth.uid())
+  );
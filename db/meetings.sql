@@ -0,0 +1,133 @@
+-- ============================================================================
+-- MEETINGS
+-- ============================================================================
+-- Run after messages.sql.
+--
+-- A startup proposes time slots to an investor who expressed interest in
+-- one of its campaigns; the investor accepts one. Accepting goes through
+-- the accept-meeting-slot server function, which also declines the other
+-- proposals and moves the interest to 'meeting_scheduled' (investors
+-- cannot move an interest themselves; see enforce_interest_stage in
+-- investment_commitments.sql).
+--
+-- Times are stored as timestamptz, i.e. an absolute instant. `timezone`
+-- records the IANA zone the proposer picked the time in, so the slot can
+-- be shown "as proposed" next to the viewer's own local time.
+
+-- 1. MEETING SLOTS
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.meeting_slots (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  interest_id uuid NOT NULL REFERENCES public.campaign_interests(id) ON DELETE CASCADE,
+  proposed_by uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  starts_at timestamptz NOT NULL,
+  ends_at timestamptz NOT NULL,
+  timezone text NOT NULL DEFAULT 'UTC',
+  location text NOT NULL DEFAULT '' CHECK (char_length(location) <= 500),
+  status text NOT NULL DEFAULT 'proposed'
+    CHECK (status IN ('proposed', 'accepted', 'declined', 'withdrawn', 'cancelled')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  responded_at timestamptz,
+  CHECK (ends_at > starts_at),
+  CHECK (ends_at - starts_at <= interval '8 hours')
+);
+
+CREATE INDEX IF NOT EXISTS idx_meeting_slots_interest
+  ON public.meeting_slots (interest_id, starts_at);
+
+-- At most one confirmed meeting per interest at a time. Rescheduling
+-- cancels the old one before accepting the new one.
+CREATE UNIQUE INDEX IF NOT EXISTS idx_meeting_slots_one_accepted
+  ON public.meeting_slots (interest_id) WHERE status = 'accepted';
+
+ALTER TABLE public.meeting_slots ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Parties and admins view meeting slots" ON public.meeting_slots;
+CREATE POLICY "Parties and admins view meeting slots" ON public.meeting_slots
+  FOR SELECT USING (
+    auth.uid() IN (SELECT public.interest_party_ids(interest_id)) OR
+    EXISTS (SELECT 1 FROM public.users u WHERE u.id = auth.uid() AND u.role IN ('admin', 'super_admin'))
+  );
+
+-- Only the startup proposes, in its own name.
+DROP POLICY IF EXISTS "Startups propose meeting slots" ON public.meeting_slots;
+CREATE POLICY "Startups propose meeting slots" ON public.meeting_slots
+  FOR INSERT WITH CHECK (
+    proposed_by = auth.uid() AND
+    status = 'proposed' AND
+    EXISTS (
+      SELECT 1 FROM public.campaign_interests ci
+      JOIN public.fundraising_campaigns fc ON fc.id = ci.campaign_id
+      JOIN public.startups s ON s.id = fc.startup_id
+      WHERE ci.id = meeting_slots.interest_id AND s.owner_id = auth.uid()
+    )
+  );
+
+-- Status changes only; which change each party may make is checked by
+-- the trigger below. Accepting is done by the server function.
+DROP POLICY IF EXISTS "Parties respond to meeting slots" ON public.meeting_slots;
+CREATE POLICY "Parties respond to meeting slots" ON public.meeting_slots
+  FOR UPDATE USING (
+    auth.uid() IN (SELECT public.interest_party_ids(interest_id))
+  );
+
+-- 2. STATUS RULES
+-- ============================================================================
+-- A slot's time and place are fixed once proposed; propose a new slot to
+-- change them. Through the API:
+--   startup:  proposed -> withdrawn, accepted -> cancelled
+--   investor: proposed -> declined,  accepted -> cancelled
+-- The service role (auth.uid() is null) accepts, and puts back a meeting
+-- it cancelled for a reschedule that did not go through.
+CREATE OR REPLACE FUNCTION public.enforce_meeting_slot_status()
+RETURNS TRIGGER AS $$
+DECLARE
+  is_startup boolean;
+  transition text := OLD.status || '>' || NEW.status;
+BEGIN
+  IF NEW.interest_id IS DISTINCT FROM OLD.interest_id OR
+     NEW.proposed_by IS DISTINCT FROM OLD.proposed_by OR
+     NEW.starts_at IS DISTINCT FROM OLD.starts_at OR
+     NEW.ends_at IS DISTINCT FROM OLD.ends_at OR
+     NEW.timezone IS DISTINCT FROM OLD.timezone OR
+     NEW.location IS DISTINCT FROM OLD.location OR
+     NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+    RAISE EXCEPTION 'Meeting slots cannot be edited; propose a new time instead'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF auth.uid() IS NULL THEN
+    IF transition NOT IN ('proposed>accepted', 'proposed>declined', 'accepted>cancelled', 'cancelled>accepted') THEN
+      RAISE EXCEPTION 'Meeting slot cannot move from % to %', OLD.status, NEW.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+  ELSE
+    SELECT EXISTS (
+      SELECT 1 FROM public.campaign_interests ci
+      JOIN public.fundraising_campaigns fc ON fc.id = ci.campaign_id
+      JOIN public.startups s ON s.id = fc.startup_id
+      WHERE ci.id = NEW.interest_id AND s.owner_id = auth.uid()
+    ) INTO is_startup;
+
+    IF NOT (
+      (is_startup AND transition IN ('proposed>withdrawn', 'accepted>cancelled')) OR
+      (NOT is_startup AND transition IN ('proposed>declined', 'accepted>cancelled'))
+    ) THEN
+      RAISE EXCEPTION 'Meeting slot cannot move from % to %', OLD.status, NEW.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  NEW.responded_at := now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enforce_meeting_slot_status ON public.meeting_slots;
+CREATE TRIGGER enforce_meeting_slot_status
+  BEFORE UPDATE ON public.meeting_slots
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_meeting_slot_status();
@@ -0,0 +1,126 @@
+-- ============================================================================
+-- MESSAGES
+-- ============================================================================
+-- Run after saved_items.sql.
+--
+-- Each campaign interest is a conversation between the investor who
+-- expressed it and the startup running the campaign. Messages are text,
+-- optionally pointing at one of the campaign's documents. The recipient
+-- marks a message read by setting read_at, which is what the sender sees
+-- as a read receipt. Only the two parties read a conversation; admins can
+-- read any of them for moderation.
+
+-- 1. PARTIES
+-- ============================================================================
+-- The users on each side of an interest: the investor's owner and the
+-- campaign's startup owner. SECURITY DEFINER so the lookup does not
+-- depend on which of those rows the caller can see.
+CREATE OR REPLACE FUNCTION public.interest_party_ids(target_interest uuid)
+RETURNS SETOF uuid AS $$
+  SELECT i.owner_id FROM public.campaign_interests ci
+  JOIN public.investors i ON i.id = ci.investor_id
+  WHERE ci.id = target_interest
+  UNION
+  SELECT s.owner_id FROM public.campaign_interests ci
+  JOIN public.fundraising_campaigns fc ON fc.id = ci.campaign_id
+  JOIN public.startups s ON s.id = fc.startup_id
+  WHERE ci.id = target_interest;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- 2. MESSAGES
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  interest_id uuid NOT NULL REFERENCES public.campaign_interests(id) ON DELETE CASCADE,
+  -- SET NULL keeps the conversation readable if an account is removed.
+  sender_id uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  body text NOT NULL DEFAULT '' CHECK (char_length(body) <= 4000),
+  document_id uuid REFERENCES public.campaign_documents(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  read_at timestamptz,
+  -- A message says something or shares a document (or both).
+  CHECK (btrim(body) <> '' OR document_id IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_messages_interest
+  ON public.messages (interest_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_messages_unread
+  ON public.messages (interest_id) WHERE read_at IS NULL;
+
+ALTER TABLE public.messages ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Parties and admins view messages" ON public.messages;
+CREATE POLICY "Parties and admins view messages" ON public.messages
+  FOR SELECT USING (
+    auth.uid() IN (SELECT public.interest_party_ids(interest_id)) OR
+    EXISTS (SELECT 1 FROM public.users u WHERE u.id = auth.uid() AND u.role IN ('admin', 'super_admin'))
+  );
+
+-- Parties send in their own name. An attached document must belong to
+-- the conversation's campaign.
+DROP POLICY IF EXISTS "Parties send messages" ON public.messages;
+CREATE POLICY "Parties send messages" ON public.messages
+  FOR INSERT WITH CHECK (
+    sender_id = auth.uid() AND
+    auth.uid() IN (SELECT public.interest_party_ids(interest_id)) AND
+    (
+      document_id IS NULL OR
+      EXISTS (
+        SELECT 1 FROM public.campaign_documents d
+        JOIN public.campaign_interests ci ON ci.campaign_id = d.campaign_id
+        WHERE d.id = messages.document_id AND ci.id = messages.interest_id
+      )
+    )
+  );
+
+-- Used only to mark messages read; see the trigger below.
+DROP POLICY IF EXISTS "Recipients mark messages read" ON public.messages;
+CREATE POLICY "Recipients mark messages read" ON public.messages
+  FOR UPDATE USING (
+    sender_id IS DISTINCT FROM auth.uid() AND
+    auth.uid() IN (SELECT public.interest_party_ids(interest_id))
+  );
+
+-- 3. READ RECEIPTS
+-- ============================================================================
+-- A message cannot be edited after sending, and once read it stays read.
+CREATE OR REPLACE FUNCTION public.enforce_message_read_only()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.interest_id IS DISTINCT FROM OLD.interest_id OR
+     NEW.sender_id IS DISTINCT FROM OLD.sender_id OR
+     NEW.body IS DISTINCT FROM OLD.body OR
+     NEW.document_id IS DISTINCT FROM OLD.document_id OR
+     NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+    RAISE EXCEPTION 'Messages cannot be edited'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF OLD.read_at IS NOT NULL THEN
+    NEW.read_at := OLD.read_at;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enforce_message_read_only ON public.messages;
+CREATE TRIGGER enforce_message_read_only
+  BEFORE UPDATE ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_message_read_only();
+
+-- 4. REALTIME
+-- ============================================================================
+-- Stream new messages and read receipts to open conversations. The app
+-- polls instead when the publication is missing (plain Postgres, or the
+-- local backend).
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') AND
+     NOT EXISTS (
+       SELECT 1 FROM pg_publication_tables
+       WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'messages'
+     ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.messages;
+  END IF;
+END;
+$$;
@@ -0,0 +1,172 @@
+-- ============================================================================
+-- NOTIFICATIONS
+-- ============================================================================
+-- Run after meetings.sql.
+--
+-- Things that happen to a user (an investor's interest in their campaign,
+-- a verification decision, a campaign status change, a new role) become
+-- rows in `notifications`, the in-app inbox. Depending on the user's
+-- `notification_preferences` each one is also sent by push (Expo push
+-- tokens in `push_tokens`) and email, immediately or in a daily / weekly
+-- digest; `notification_deliveries` records every send.
+--
+-- Notifications are written only by the notify-event server function
+-- (service role), which works out the recipients itself, so clients
+-- cannot notify arbitrary users. Users read and mark their own.
+
+-- 1. INBOX
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  -- 'interest.submitted', 'startup.verification', 'campaign.status_changed',
+  -- 'campaign.update_posted', 'user.role_changed'
+  type text NOT NULL,
+  title text NOT NULL,
+  body text NOT NULL DEFAULT '',
+  -- Ids the app needs to open the related screen, e.g. {"campaignId": ...}.
+  data jsonb NOT NULL DEFAULT '{}'::jsonb,
+  -- False when the user has turned the in-app channel off; the row is
+  -- still kept for deliveries and digests.
+  in_app boolean NOT NULL DEFAULT true,
+  -- The occurrence reported, e.g. 'interest.submitted:<interest id>'. A
+  -- user gets one notification per key, so repeating an event sends
+  -- nothing new.
+  event_key text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  read_at timestamptz
+);
+
+-- For databases created before event_key existed.
+ALTER TABLE public.notifications ADD COLUMN IF NOT EXISTS event_key text;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_notifications_event_key
+  ON public.notifications (user_id, event_key);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user
+  ON public.notifications (user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_unread
+  ON public.notifications (user_id) WHERE read_at IS NULL AND in_app;
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users view their notifications" ON public.notifications;
+CREATE POLICY "Users view their notifications" ON public.notifications
+  FOR SELECT USING (user_id = auth.uid());
+
+-- Used only to mark notifications read or unread; see the trigger below.
+DROP POLICY IF EXISTS "Users mark their notifications" ON public.notifications;
+CREATE POLICY "Users mark their notifications" ON public.notifications
+  FOR UPDATE USING (user_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION public.enforce_notification_read_only()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.user_id IS DISTINCT FROM OLD.user_id OR
+     NEW.type IS DISTINCT FROM OLD.type OR
+     NEW.title IS DISTINCT FROM OLD.title OR
+     NEW.body IS DISTINCT FROM OLD.body OR
+     NEW.data IS DISTINCT FROM OLD.data OR
+     NEW.in_app IS DISTINCT FROM OLD.in_app OR
+     NEW.event_key IS DISTINCT FROM OLD.event_key OR
+     NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+    RAISE EXCEPTION 'Only read_at can change on a notification'
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enforce_notification_read_only ON public.notifications;
+CREATE TRIGGER enforce_notification_read_only
+  BEFORE UPDATE ON public.notifications
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_notification_read_only();
+
+-- 2. PREFERENCES
+-- ============================================================================
+-- One row per user, created the first time they change a setting. Users
+-- without a row get the column defaults.
+CREATE TABLE IF NOT EXISTS public.notification_preferences (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL UNIQUE REFERENCES public.users(id) ON DELETE CASCADE,
+  in_app boolean NOT NULL DEFAULT true,
+  push boolean NOT NULL DEFAULT true,
+  email boolean NOT NULL DEFAULT true,
+  email_frequency text NOT NULL DEFAULT 'immediate'
+    CHECK (email_frequency IN ('immediate', 'daily', 'weekly')),
+  -- Notification types the user does not want on any channel.
+  muted_types text[] NOT NULL DEFAULT '{}',
+  -- When the last digest email went out.
+  last_digest_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users view their notification preferences" ON public.notification_preferences;
+CREATE POLICY "Users view their notification preferences" ON public.notification_preferences
+  FOR SELECT USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users create their notification preferences" ON public.notification_preferences;
+CREATE POLICY "Users create their notification preferences" ON public.notification_preferences
+  FOR INSERT WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users update their notification preferences" ON public.notification_preferences;
+CREATE POLICY "Users update their notification preferences" ON public.notification_preferences
+  FOR UPDATE USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+DROP TRIGGER IF EXISTS update_notification_preferences_updated_at ON public.notification_preferences;
+CREATE TRIGGER update_notification_preferences_updated_at
+  BEFORE UPDATE ON public.notification_preferences
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- 3. PUSH TOKENS
+-- ============================================================================
+-- Expo push tokens, one per installed app. The server deletes tokens Expo
+-- reports as no longer registered.
+CREATE TABLE IF NOT EXISTS public.push_tokens (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  token text NOT NULL UNIQUE,
+  platform text NOT NULL DEFAULT 'unknown',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_tokens_user ON public.push_tokens (user_id);
+
+ALTER TABLE public.push_tokens ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users manage their push tokens" ON public.push_tokens;
+CREATE POLICY "Users manage their push tokens" ON public.push_tokens
+  FOR ALL USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+-- 4. DELIVERIES
+-- ============================================================================
+-- One row per notification per outbound channel. Email for users on a
+-- digest stays 'pending' with `digest` set until the
+-- send-notification-digests server function sends it.
+CREATE TABLE IF NOT EXISTS public.notification_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  notification_id uuid NOT NULL REFERENCES public.notifications(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  channel text NOT NULL CHECK (channel IN ('push', 'email')),
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'sent', 'failed', 'skipped')),
+  digest text CHECK (digest IN ('daily', 'weekly')),
+  error text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  sent_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_pending
+  ON public.notification_deliveries (user_id) WHERE status = 'pending';
+
+ALTER TABLE public.notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Written by the server only; admins can read it to debug delivery.
+DROP POLICY IF EXISTS "Admins view notification deliveries" ON public.notification_deliveries;
+CREATE POLICY "Admins view notification deliveries" ON public.notification_deliveries
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.users u WHERE u.id = auth.uid() AND u.role IN ('admin', 'super_admin'))
+  );
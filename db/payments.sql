@@ -0,0 +1,86 @@
+-- ============================================================================
+-- PAYMENTS
+-- ============================================================================
+-- Run after kyc.sql.
+--
+-- One payments row per gateway order, created by the create-payment-order
+-- server function (mobile/server/payments.ts) when an investor pays for a
+-- confirmed investment. Amounts are in paise. Its status moves
+--   created -> authorized -> captured -> partially_refunded -> refunded
+-- with `failed` possible before capture; mobile/utils/payment.util.ts has
+-- the allowed moves. payment_events keeps every webhook the gateway sent,
+-- keyed by its event id so a repeat delivery is recognised and ignored.
+--
+-- Only the service role writes either table: payments change because
+-- the gateway says so, never because a client asked.
+
+-- 1. PAYMENTS
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  investment_id uuid REFERENCES public.investments(id) ON DELETE SET NULL,
+  provider text NOT NULL,
+  provider_order_id text NOT NULL UNIQUE,
+  provider_payment_id text UNIQUE,
+  amount bigint NOT NULL CHECK (amount > 0),
+  currency text NOT NULL DEFAULT 'INR',
+  status text NOT NULL DEFAULT 'created'
+    CHECK (status IN ('created', 'authorized', 'captured', 'failed', 'partially_refunded', 'refunded')),
+  amount_refunded bigint NOT NULL DEFAULT 0 CHECK (amount_refunded >= 0 AND amount_refunded <= amount),
+  failure_reason text,
+  captured_at timestamptz,
+  refunded_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payments_user ON public.payments (user_id, created_at DESC);
+
+-- An investment is paid through one payment at a time; a new one may be
+-- started only once the last is fully refunded.
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payments_open_investment
+  ON public.payments (investment_id)
+  WHERE investment_id IS NOT NULL AND status <> 'refunded';
+
+DROP TRIGGER IF EXISTS update_payments_updated_at ON public.payments;
+CREATE TRIGGER update_payments_updated_at
+  BEFORE UPDATE ON public.payments
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- 2. PAYMENT EVENTS
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.payment_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  payment_id uuid REFERENCES public.payments(id) ON DELETE SET NULL,
+  provider text NOT NULL,
+  provider_event_id text NOT NULL UNIQUE,
+  event text NOT NULL,
+  payload jsonb NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_events_payment ON public.payment_events (payment_id, created_at);
+
+-- 3. ROW LEVEL SECURITY
+-- ============================================================================
+-- Payers read their own payments; admins read all payments and events.
+-- There are no write policies, so only the service role writes.
+ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.payment_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users read own payments" ON public.payments;
+CREATE POLICY "Users read own payments" ON public.payments
+  FOR SELECT USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Admins read payments" ON public.payments;
+CREATE POLICY "Admins read payments" ON public.payments
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.users u WHERE u.id = auth.uid() AND u.role IN ('admin', 'super_admin'))
+  );
+
+DROP POLICY IF EXISTS "Admins read payment events" ON public.payment_events;
+CREATE POLICY "Admins read payment events" ON public.payment_events
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.users u WHERE u.id = auth.uid() AND u.role IN ('admin', 'super_admin'))
+  );
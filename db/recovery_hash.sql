@@ -115,24 +115,16 @@ WHERE trigger_name = 'on_auth_user_created';
 -- UTILITY FUNCTIONS
 -- ============================================
 
--- Function to verify recovery hash for password reset
-CREATE OR REPLACE FUNCTION public.verify_recovery_hash(
-  user_email TEXT,
-  provided_hash TEXT
-)
-RETURNS BOOLEAN AS $$
-DECLARE
-  stored_hash TEXT;
-BEGIN
-  -- Get stored hash
-  SELECT recovery_key_hash INTO stored_hash
-  FROM public.users
-  WHERE email = user_email;
-  
-  -- Return true if hashes match
-  RETURN stored_hash IS NOT NULL AND stored_hash = provided_hash;
-END;
-$$ LANGUAGE plpgsql SECURITY DEFINER;
+-- Recovery key hashes are salted (see mobile/utils/recovery.util.ts):
+--   v1$pbkdf2-sha256$<iterations>$<salt hex>$<hash hex>
+-- Rows written before v1 hold an 8-hex-digit legacy hash; they are
+-- replaced the next time the user resets with their key.
+--
+-- A salted hash cannot be recomputed or matched in SQL, so checking a key
+-- happens in the recover-with-key function. The old equality helpers are
+-- dropped: they only worked with the unsalted 32-bit hash.
+DROP FUNCTION IF EXISTS public.verify_recovery_hash(TEXT, TEXT);
+DROP FUNCTION IF EXISTS public.get_user_by_recovery_hash(TEXT);
 
 -- Function to update recovery hash (for password reset flow)
 CREATE OR REPLACE FUNCTION public.update_recovery_hash(
@@ -148,23 +140,6 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql SECURITY DEFINER;
 
--- Function to get user by recovery hash (for password reset)
-CREATE OR REPLACE FUNCTION public.get_user_by_recovery_hash(
-  provided_hash TEXT
-)
-RETURNS TABLE (
-  user_id UUID,
-  user_email TEXT
-) AS $$
-BEGIN
-  RETURN QUERY
-  SELECT id, email
-  FROM public.users
-  WHERE recovery_key_hash = provided_hash
-  LIMIT 1;
-END;
-$$ LANGUAGE plpgsql SECURITY DEFINER;
-
 -- ============================================
 -- TEST THE IMPLEMENTATION
 -- ============================================
@@ -201,7 +176,7 @@ WHERE u.email = 'newuser@example.com';
 SELECT raw_user_meta_data 
 FROM auth.users 
 WHERE email = 'test@example.com';
--- Should show: {"recovery_key_hash": "abc123..."}
+-- Should show: {"recovery_key_hash": "v1$pbkdf2-sha256$..."}
 
 -- 2. Check if trigger fired
 SELECT * FROM information_schema.triggers 
@@ -221,7 +196,5 @@ SELECT public.handle_new_user();
 /*
 -- To remove recovery hash functionality:
 ALTER TABLE public.users DROP COLUMN IF EXISTS recovery_key_hash;
-DROP FUNCTION IF EXISTS public.verify_recovery_hash(TEXT, TEXT);
 DROP FUNCTION IF EXISTS public.update_recovery_hash(UUID, TEXT);
-DROP FUNCTION IF EXISTS public.get_user_by_recovery_hash(TEXT);
 */
\ No newline at end of file
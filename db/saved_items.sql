@@ -0,0 +1,66 @@
+-- ============================================================================
+-- SAVED ITEMS AND SHORTLISTS
+-- ============================================================================
+-- Run after matches.sql.
+--
+-- Any signed-in user can save startups, investors and campaigns to come
+-- back to later, optionally filing them in named shortlists (e.g. "Q3
+-- pipeline") and keeping a private note on each. Everything here is
+-- visible only to its owner.
+
+-- 1. SHORTLISTS
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.shortlists (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 60),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (owner_id, name)
+);
+
+ALTER TABLE public.shortlists ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users manage their shortlists" ON public.shortlists;
+CREATE POLICY "Users manage their shortlists" ON public.shortlists
+  FOR ALL USING (owner_id = auth.uid()) WITH CHECK (owner_id = auth.uid());
+
+-- 2. SAVED ITEMS
+-- ============================================================================
+-- Exactly one of startup_id / investor_id / campaign_id is set. Removing
+-- the saved profile or campaign removes the saved item; deleting a
+-- shortlist only unfiles its items.
+CREATE TABLE IF NOT EXISTS public.saved_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  startup_id uuid REFERENCES public.startups(id) ON DELETE CASCADE,
+  investor_id uuid REFERENCES public.investors(id) ON DELETE CASCADE,
+  campaign_id uuid REFERENCES public.fundraising_campaigns(id) ON DELETE CASCADE,
+  shortlist_id uuid REFERENCES public.shortlists(id) ON DELETE SET NULL,
+  note text CHECK (char_length(note) <= 1000),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (num_nonnulls(startup_id, investor_id, campaign_id) = 1),
+  UNIQUE (owner_id, startup_id),
+  UNIQUE (owner_id, investor_id),
+  UNIQUE (owner_id, campaign_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_items_owner
+  ON public.saved_items (owner_id, created_at DESC);
+
+DROP TRIGGER IF EXISTS update_saved_items_updated_at ON public.saved_items;
+CREATE TRIGGER update_saved_items_updated_at
+  BEFORE UPDATE ON public.saved_items
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.saved_items ENABLE ROW LEVEL SECURITY;
+
+-- A shortlist can only hold its owner's items.
+DROP POLICY IF EXISTS "Users manage their saved items" ON public.saved_items;
+CREATE POLICY "Users manage their saved items" ON public.saved_items
+  FOR ALL USING (owner_id = auth.uid()) WITH CHECK (
+    owner_id = auth.uid() AND (
+      shortlist_id IS NULL OR
+      shortlist_id IN (SELECT id FROM public.shortlists WHERE owner_id = auth.uid())
+    )
+  );
@@ -0,0 +1,111 @@
+-- ============================================================================
+-- SEARCH
+-- ============================================================================
+-- Run after campaign_data_room.sql.
+--
+-- Full-text search for the startup, investor and campaign browse screens.
+-- Each table gets a weighted `search_vector` (names first, then taglines
+-- and industries, then descriptions and bios) with a GIN index. The app
+-- queries it through PostgREST's text search filter with prefix terms
+-- (`cold:* & room:*`), so results narrow as the user types, and combines
+-- it with ordinary filters for the facets.
+--
+-- A campaign is found by its own title and description and by its
+-- startup's name, tagline and industry. Generated columns cannot read
+-- another table, so the campaign vector is kept by triggers instead.
+
+-- 1. STARTUPS
+-- ============================================================================
+ALTER TABLE public.startups
+  ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(company_name, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(tagline, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(industry, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'C')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_startups_search ON public.startups USING gin (search_vector);
+CREATE INDEX IF NOT EXISTS idx_startups_funding_stage ON public.startups (funding_stage);
+CREATE INDEX IF NOT EXISTS idx_startups_location ON public.startups (location);
+
+-- 2. INVESTORS
+-- ============================================================================
+ALTER TABLE public.investors
+  ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(investor_name, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(company_name, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(interested_industries, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(bio, '')), 'C')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_investors_search ON public.investors USING gin (search_vector);
+CREATE INDEX IF NOT EXISTS idx_investors_ticket ON public.investors (min_investment, max_investment);
+
+-- 3. CAMPAIGNS
+-- ============================================================================
+-- `funded_percent` lets the raised-% facet and sort use an index instead
+-- of computing funding_raised / funding_goal per row.
+ALTER TABLE public.fundraising_campaigns
+  ADD COLUMN IF NOT EXISTS search_vector tsvector,
+  ADD COLUMN IF NOT EXISTS funded_percent numeric GENERATED ALWAYS AS (
+    CASE WHEN funding_goal > 0 THEN round(coalesce(funding_raised, 0) * 100 / funding_goal, 2) ELSE 0 END
+  ) STORED;
+
+CREATE OR REPLACE FUNCTION public.campaign_search_vector(p_title text, p_description text, p_startup_id uuid)
+RETURNS tsvector
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    setweight(to_tsvector('english', coalesce(p_title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(s.company_name, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(s.tagline, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(s.industry, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(p_description, '')), 'C')
+  FROM (SELECT 1) AS one
+  LEFT JOIN public.startups s ON s.id = p_startup_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_campaign_search_vector()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.search_vector := public.campaign_search_vector(NEW.title, NEW.description, NEW.startup_id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_campaign_search_vector ON public.fundraising_campaigns;
+CREATE TRIGGER trg_campaign_search_vector
+  BEFORE INSERT OR UPDATE OF title, description, startup_id ON public.fundraising_campaigns
+  FOR EACH ROW EXECUTE FUNCTION public.set_campaign_search_vector();
+
+-- A startup renaming itself or changing its tagline or industry is found
+-- under the new words on all its campaigns.
+CREATE OR REPLACE FUNCTION public.refresh_startup_campaign_search()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.fundraising_campaigns
+  SET search_vector = public.campaign_search_vector(title, description, startup_id)
+  WHERE startup_id = NEW.id;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_startup_campaign_search ON public.startups;
+CREATE TRIGGER trg_startup_campaign_search
+  AFTER UPDATE OF company_name, tagline, industry ON public.startups
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_startup_campaign_search();
+
+UPDATE public.fundraising_campaigns
+SET search_vector = public.campaign_search_vector(title, description, startup_id);
+
+CREATE INDEX IF NOT EXISTS idx_fundraising_campaigns_search ON public.fundraising_campaigns USING gin (search_vector);
+CREATE INDEX IF NOT EXISTS idx_fundraising_campaigns_browse ON public.fundraising_campaigns (status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_fundraising_campaigns_funded ON public.fundraising_campaigns (status, funded_percent);
+CREATE INDEX IF NOT EXISTS idx_fundraising_campaigns_closing ON public.fundraising_campaigns (status, end_date);
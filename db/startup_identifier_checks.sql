@@ -0,0 +1,62 @@
+-- ============================================================================
+-- STARTUP IDENTIFIER CHECKS
+-- ============================================================================
+-- Run after aadhaar_otp.sql.
+--
+-- Records whether a startup's PAN, CIN/LLPIN and GSTIN passed the checks
+-- in mobile/utils/registration.util.ts, so admins can see which
+-- identifiers are sound before verifying the startup. The
+-- check-startup-identifiers server function writes the results after
+-- each profile save. identifier_checks holds one entry per identifier:
+--   { "pan": { "status": "passed" },
+--     "registration": { "status": "failed", "kind": "cin", "error": "..." },
+--     "gstin": { "status": "missing" } }
+-- where status is passed, failed, missing or not_applicable.
+
+-- 1. RESULT COLUMNS
+-- ============================================================================
+ALTER TABLE public.startups
+  ADD COLUMN IF NOT EXISTS identifier_checks jsonb,
+  ADD COLUMN IF NOT EXISTS identifiers_checked_at timestamptz;
+
+-- 2. KEEP RESULTS HONEST
+-- ============================================================================
+-- Owners update their own startup row, so they could otherwise write a
+-- "passed" result themselves. Only the service role (auth.uid() is null)
+-- may set the results; when anyone else changes an identifier, the old
+-- results no longer apply and are cleared until the next check.
+CREATE OR REPLACE FUNCTION public.protect_startup_identifier_checks()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF (TG_OP = 'INSERT' AND (NEW.identifier_checks IS NOT NULL OR NEW.identifiers_checked_at IS NOT NULL)) OR
+     (TG_OP = 'UPDATE' AND (
+       NEW.identifier_checks IS DISTINCT FROM OLD.identifier_checks OR
+       NEW.identifiers_checked_at IS DISTINCT FROM OLD.identifiers_checked_at
+     )) THEN
+    RAISE EXCEPTION 'Identifier checks can only be recorded by check-startup-identifiers'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND (
+    NEW.pan_number IS DISTINCT FROM OLD.pan_number OR
+    NEW.registration_number IS DISTINCT FROM OLD.registration_number OR
+    NEW.gst_number IS DISTINCT FROM OLD.gst_number OR
+    NEW.company_type IS DISTINCT FROM OLD.company_type OR
+    NEW.registered IS DISTINCT FROM OLD.registered OR
+    NEW.founded_year IS DISTINCT FROM OLD.founded_year
+  ) THEN
+    NEW.identifier_checks := NULL;
+    NEW.identifiers_checked_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_startup_identifier_checks ON public.startups;
+CREATE TRIGGER protect_startup_identifier_checks
+  BEFORE INSERT OR UPDATE ON public.startups
+  FOR EACH ROW EXECUTE FUNCTION public.protect_startup_identifier_checks();
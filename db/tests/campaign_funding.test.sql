@@ -0,0 +1,104 @@
+-- ============================================================================
+-- CAMPAIGN FUNDING ROLL-UP TESTS
+-- ============================================================================
+-- Checks that funding_raised follows the committed investments: since
+-- db/ledger.sql through the commitments posted to the ledger, before that
+-- through update_campaign_funding() from db/campaign_funding.sql. Run
+-- with db/tests/run.sh; everything happens in one transaction that is
+-- rolled back at the end.
+--
+-- Startup S1 runs campaigns C1 and C2; startup S2 runs C3. Each check
+-- looks at all three, so a total leaking into a sibling campaign or
+-- another startup fails too.
+
+BEGIN;
+
+INSERT INTO public.users (id, email, role) VALUES
+  ('10000000-0000-4000-8000-000000000001', 'founder1@test.local', 'startup'),
+  ('10000000-0000-4000-8000-000000000002', 'founder2@test.local', 'startup'),
+  ('10000000-0000-4000-8000-000000000003', 'investor@test.local', 'investor');
+
+INSERT INTO public.startups (id, owner_id, company_name) VALUES
+  ('20000000-0000-4000-8000-000000000001', '10000000-0000-4000-8000-000000000001', 'Startup One'),
+  ('20000000-0000-4000-8000-000000000002', '10000000-0000-4000-8000-000000000002', 'Startup Two');
+
+INSERT INTO public.investors (id, owner_id) VALUES
+  ('30000000-0000-4000-8000-000000000001', '10000000-0000-4000-8000-000000000003');
+
+INSERT INTO public.fundraising_campaigns (id, startup_id, title, description, funding_goal, equity_offered, status) VALUES
+  ('40000000-0000-4000-8000-000000000001', '20000000-0000-4000-8000-000000000001', 'C1', 'First round', 1000, 10, 'active'),
+  ('40000000-0000-4000-8000-000000000002', '20000000-0000-4000-8000-000000000001', 'C2', 'Second round', 1000, 10, 'active'),
+  ('40000000-0000-4000-8000-000000000003', '20000000-0000-4000-8000-000000000002', 'C3', 'Other startup', 1000, 10, 'active');
+
+-- Assert the totals of C1, C2 and C3 after a step.
+CREATE FUNCTION pg_temp.expect_totals(c1 numeric, c2 numeric, c3 numeric, label text)
+RETURNS void AS $$
+BEGIN
+  PERFORM tests.expect_equal(
+    (SELECT funding_raised FROM public.fundraising_campaigns WHERE id = '40000000-0000-4000-8000-000000000001'),
+    c1, label || ' (C1)');
+  PERFORM tests.expect_equal(
+    (SELECT funding_raised FROM public.fundraising_campaigns WHERE id = '40000000-0000-4000-8000-000000000002'),
+    c2, label || ' (C2)');
+  PERFORM tests.expect_equal(
+    (SELECT funding_raised FROM public.fundraising_campaigns WHERE id = '40000000-0000-4000-8000-000000000003'),
+    c3, label || ' (C3)');
+END;
+$$ LANGUAGE plpgsql;
+
+SELECT pg_temp.expect_totals(0, 0, 0, 'new campaigns start at zero');
+
+-- Inserts
+INSERT INTO public.investments (id, startup_id, investor_id, campaign_id, amount, status) VALUES
+  ('50000000-0000-4000-8000-000000000001', '20000000-0000-4000-8000-000000000001',
+   '30000000-0000-4000-8000-000000000001', '40000000-0000-4000-8000-000000000001', 100, 'committed');
+SELECT pg_temp.expect_totals(100, 0, 0, 'committed insert counts for its own campaign only');
+
+INSERT INTO public.investments (id, startup_id, investor_id, campaign_id, amount, status) VALUES
+  ('50000000-0000-4000-8000-000000000002', '20000000-0000-4000-8000-000000000001',
+   '30000000-0000-4000-8000-000000000001', '40000000-0000-4000-8000-000000000001', 50, 'pending');
+SELECT pg_temp.expect_totals(100, 0, 0, 'pending insert is not counted');
+
+INSERT INTO public.investments (id, startup_id, investor_id, campaign_id, amount, status) VALUES
+  ('50000000-0000-4000-8000-000000000003', '20000000-0000-4000-8000-000000000001',
+   '30000000-0000-4000-8000-000000000001', '40000000-0000-4000-8000-000000000002', 200, 'committed'),
+  ('50000000-0000-4000-8000-000000000004', '20000000-0000-4000-8000-000000000002',
+   '30000000-0000-4000-8000-000000000001', '40000000-0000-4000-8000-000000000003', 300, 'committed');
+SELECT pg_temp.expect_totals(100, 200, 300, 'multi-row insert updates each campaign');
+
+INSERT INTO public.investments (id, startup_id, investor_id, campaign_id, amount, status) VALUES
+  ('50000000-0000-4000-8000-000000000005', '20000000-0000-4000-8000-000000000001',
+   '30000000-0000-4000-8000-000000000001', NULL, 999, 'committed');
+SELECT pg_temp.expect_totals(100, 200, 300, 'investment without a campaign changes no campaign');
+
+-- Updates
+UPDATE public.investments SET status = 'committed' WHERE id = '50000000-0000-4000-8000-000000000002';
+SELECT pg_temp.expect_totals(150, 200, 300, 'pending -> committed is added');
+
+UPDATE public.investments SET amount = 120 WHERE id = '50000000-0000-4000-8000-000000000001';
+SELECT pg_temp.expect_totals(170, 200, 300, 'amount change is applied');
+
+UPDATE public.investments SET status = 'rejected' WHERE id = '50000000-0000-4000-8000-000000000002';
+SELECT pg_temp.expect_totals(120, 200, 300, 'committed -> rejected is removed');
+
+UPDATE public.investments
+SET campaign_id = '40000000-0000-4000-8000-000000000002'
+WHERE id = '50000000-0000-4000-8000-000000000001';
+SELECT pg_temp.expect_totals(0, 320, 300, 'moving an investment updates both campaigns');
+
+UPDATE public.investments
+SET campaign_id = '40000000-0000-4000-8000-000000000001'
+WHERE id = '50000000-0000-4000-8000-000000000005';
+SELECT pg_temp.expect_totals(999, 320, 300, 'linking an investment to a campaign adds it');
+
+-- Deletes
+DELETE FROM public.investments WHERE id = '50000000-0000-4000-8000-000000000003';
+SELECT pg_temp.expect_totals(999, 120, 300, 'delete removes the amount');
+
+DELETE FROM public.investments WHERE id = '50000000-0000-4000-8000-000000000002';
+SELECT pg_temp.expect_totals(999, 120, 300, 'deleting an uncounted investment changes nothing');
+
+DELETE FROM public.investments WHERE campaign_id = '40000000-0000-4000-8000-000000000002';
+SELECT pg_temp.expect_totals(999, 0, 300, 'deleting the last investment leaves zero, not null');
+
+ROLLBACK;
@@ -0,0 +1,74 @@
+#!/usr/bin/env bash
+#
+# db/tests/run.sh
+#
+# Purpose: run the SQL tests against a local Postgres (13 or newer).
+# It recreates a scratch database, loads a small stand-in for Supabase's
+# `auth` schema, applies the db/*.sql scripts in setup order, then runs
+# every db/tests/*.test.sql. Any failed check stops the run with a
+# non-zero exit code.
+#
+# Usage:
+#   db/tests/run.sh                  # database "incubs_test"
+#   TEST_DB=other db/tests/run.sh    # another scratch database
+#
+# Connection settings come from the usual PGHOST / PGPORT / PGUSER
+# environment variables. The database is dropped and recreated on each run.
+
+set -euo pipefail
+
+DB_DIR="$(cd "$(dirname "$0")/.." && pwd)"
+TEST_DB="${TEST_DB:-incubs_test}"
+
+# Same order as the setup steps in the README.
+SCRIPTS=(
+  create_users_table.sql
+  create_startups_table.sql
+  create_investors_table.sql
+  add_startup_profile_columns.sql
+  add_interested_industries.sql
+  create_investments_table.sql
+  fundraising_system.sql
+  campaign_lifecycle.sql
+  campaign_reviews.sql
+  investment_commitments.sql
+  campaign_funding.sql
+  audit_events.sql
+  campaign_swipes.sql
+  matches.sql
+  saved_items.sql
+  messages.sql
+  meetings.sql
+  notifications.sql
+  campaign_updates.sql
+  campaign_data_room.sql
+  search.sql
+  add_aadhaar_checks_table.sql
+  aadhaar_otp.sql
+  startup_identifier_checks.sql
+  kyc.sql
+  payments.sql
+  ledger.sql
+)
+
+psql_test() {
+  psql --no-psqlrc --quiet -v ON_ERROR_STOP=1 --dbname "$TEST_DB" "$@"
+}
+
+dropdb --if-exists "$TEST_DB"
+createdb "$TEST_DB"
+
+psql_test --file "$DB_DIR/tests/supabase_stub.sql"
+for script in "${SCRIPTS[@]}"; do
+  psql_test --file "$DB_DIR/$script"
+done
+
+status=0
+for test in "$DB_DIR"/tests/*.test.sql; do
+  echo "# $(basename "$test")"
+  if ! psql_test --file "$test"; then
+    status=1
+  fi
+done
+
+exit $status
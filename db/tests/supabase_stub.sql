@@ -0,0 +1,58 @@
+-- ============================================================================
+-- SUPABASE STAND-IN FOR TESTS
+-- ============================================================================
+-- Just enough of Supabase's `auth` and `storage` schemas for the db/*.sql scripts to load
+-- into a plain Postgres. Loaded first by db/tests/run.sh; never run this
+-- against a Supabase project.
+--
+-- auth.uid() reads the `request.jwt.claim.sub` setting, as Supabase does.
+-- It is unset by default, so tests act as the service role; set it with
+-- set_config() to act as a signed-in user.
+
+CREATE SCHEMA IF NOT EXISTS auth;
+
+CREATE OR REPLACE FUNCTION auth.uid()
+RETURNS uuid AS $$
+  SELECT nullif(current_setting('request.jwt.claim.sub', true), '')::uuid;
+$$ LANGUAGE sql STABLE;
+
+-- Storage buckets and objects, with the path helper policies use.
+CREATE SCHEMA IF NOT EXISTS storage;
+
+CREATE TABLE IF NOT EXISTS storage.buckets (
+  id text PRIMARY KEY,
+  name text NOT NULL,
+  public boolean DEFAULT false,
+  file_size_limit bigint,
+  allowed_mime_types text[]
+);
+
+CREATE TABLE IF NOT EXISTS storage.objects (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  bucket_id text REFERENCES storage.buckets(id),
+  name text,
+  owner uuid,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE storage.objects ENABLE ROW LEVEL SECURITY;
+
+-- The folders of an object path: 'a/b/c.pdf' -> {a,b}.
+CREATE OR REPLACE FUNCTION storage.foldername(name text)
+RETURNS text[] AS $$
+  SELECT (string_to_array(name, '/'))[1:array_length(string_to_array(name, '/'), 1) - 1];
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Helpers shared by the *.test.sql files.
+CREATE SCHEMA IF NOT EXISTS tests;
+
+-- Fail the run with `label` unless `actual` equals `expected`.
+CREATE OR REPLACE FUNCTION tests.expect_equal(actual numeric, expected numeric, label text)
+RETURNS void AS $$
+BEGIN
+  IF actual IS DISTINCT FROM expected THEN
+    RAISE EXCEPTION 'not ok - %: expected %, got %', label, expected, actual;
+  END IF;
+  RAISE NOTICE 'ok - %', label;
+END;
+$$ LANGUAGE plpgsql;
@@ -2,6 +2,9 @@
 // If you need a quick local override, set values in `mobile/.env` or
 // configure `app.config.js`/EAS secrets so `expo-constants` exposes them
 // via `Constants.expoConfig.extra`. Do NOT hardcode secrets here.
+// Install crypto.getRandomValues before anything else loads; recovery keys
+// (utils/recovery.util.ts) are generated from it.
+import 'react-native-get-random-values';
 // Import React so we can use JSX and create components.
 // Disable react-native-screens immediately to avoid a native Fabric/RNSScreen
 // prop cast issue during native view registration. Call before loading
@@ -9,9 +12,11 @@
 import { enableScreens } from 'react-native-screens';
 enableScreens(false);
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
 import Constants from 'expo-constants';
 import { LinkingOptions } from '@react-navigation/native';
+import { getApiMode, getFixturePackName, onApiModeChange } from './apiMode';
 // Supabase configuration is provided at build time via `process.env`
 // and exposed to the app via `Constants.expoConfig.extra` (see mobile/app.config.js).
 // Do NOT set values on `globalThis`; configuration is centralized in `app.config.js` or CI/EAS.
@@ -34,18 +39,53 @@ const linking: LinkingOptions<ReactNavigation.RootParamList> = {
 };
 // Define the main App component which is the entry point.
 export default function App() {
+  // Track the API mode and fixture pack so a switch from the dev menu
+  // remounts everything below: auth state, navigation and screen data are
+  // rebuilt against the new client instead of leaking across modes.
+  const [apiMode, setApiModeState] = useState(getApiMode());
+  const [fixturePack, setFixturePack] = useState(getFixturePackName());
+
+  useEffect(() => onApiModeChange((nextMode, nextPack) => {
+    setApiModeState(nextMode);
+    setFixturePack(nextPack);
+  }), []);
+
   // Render the NavigationContainer and wrap it with AuthProvider.
   // AuthProvider gives `user` to all screens via context.
   return (
-    <AuthProvider>
-      <RecoveryKeyProvider>
-      <NavigationContainer linking={linking}>
-        {/* RootNavigator decides which screen to show based on role. */}
-        <RootNavigator />
-      </NavigationContainer>
-      </RecoveryKeyProvider>
-    </AuthProvider>
+    <View style={styles.root}>
+      {apiMode === 'MOCK' && (
+        <View style={styles.mockBanner}>
+          <Text style={styles.mockBannerText}>MOCK DATA · {fixturePack}</Text>
+        </View>
+      )}
+      <AuthProvider key={`${apiMode}:${fixturePack}`}>
+        <RecoveryKeyProvider>
+        <NavigationContainer linking={linking}>
+          {/* RootNavigator decides which screen to show based on role. */}
+          <RootNavigator />
+        </NavigationContainer>
+        </RecoveryKeyProvider>
+      </AuthProvider>
+    </View>
   );
 }
 
+const styles = StyleSheet.create({
+  root: {
+    flex: 1,
+  },
+  mockBanner: {
+    backgroundColor: '#F59E0B',
+    paddingTop: 36,
+    paddingBottom: 4,
+    alignItems: 'center',
+  },
+  mockBannerText: {
+    color: '#FFFFFF',
+    fontSize: 12,
+    fontWeight: '700',
+  },
+});
+
 console.log('expo extras', Constants.expoConfig?.extra);
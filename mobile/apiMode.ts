@@ -1,15 +1,79 @@
+import type { FixturePackName } from './services/local/fixturePacks';
+
 export type ApiMode = 'MOCK' | 'REAL';
 
-// For this project we run in REAL mode by default and remove mock
-// branches. Keep the value fixed to avoid accidental MOCK behavior.
-const mode: ApiMode = 'REAL';
+// Which database/auth backend `supabaseClient.ts` talks to in REAL mode:
+// - 'supabase': the hosted Supabase project (default)
+// - 'local': the in-memory stand-in in services/local, seeded from
+//   services/local/seed.ts. Works offline and resets on reload.
+export type DataBackend = 'supabase' | 'local';
+
+// Read a setting from process.env (Node, tests, CI) or Expo extra
+// (injected by app.config.js). Returns '' when neither has it.
+function readConfig(key: string): string {
+  let value: unknown = (process.env as any)[key];
+  if (!value) {
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const Constants = require('expo-constants');
+      const extra = Constants?.expoConfig?.extra || Constants?.manifest?.extra || null;
+      value = extra?.[key];
+    } catch (e) {
+      // expo-constants is not available outside Expo; keep the default.
+    }
+  }
+  return String(value || '').trim();
+}
+
+// The starting mode comes from API_MODE (REAL unless set to MOCK). The dev
+// menu in SettingsScreen can switch it at runtime with `setApiMode`.
+let mode: ApiMode = readConfig('API_MODE').toUpperCase() === 'MOCK' ? 'MOCK' : 'REAL';
+
+// The fixture pack MOCK mode loads; see services/local/fixturePacks.ts.
+let fixturePack: FixturePackName = (readConfig('FIXTURE_PACK') || 'demo') as FixturePackName;
+
+type ApiModeListener = (mode: ApiMode, fixturePack: FixturePackName) => void;
+const listeners = new Set<ApiModeListener>();
 
 export function getApiMode(): ApiMode {
   return mode;
 }
 
-// `mode` is fixed to 'REAL' in this build, so `IS_MOCK` is always false.
-// Export a plain boolean to avoid a type-level comparison error.
-export const IS_MOCK: boolean = false;
+// True when every service and repository should use fixture data.
+export function isMock(): boolean {
+  return mode === 'MOCK';
+}
+
+export function getFixturePackName(): FixturePackName {
+  return fixturePack;
+}
+
+function notify() {
+  for (const listener of Array.from(listeners)) listener(mode, fixturePack);
+}
+
+/*
+ * setApiMode
+ * - Switch between REAL and MOCK at runtime, optionally choosing a
+ *   fixture pack for MOCK. Listeners (App.tsx) remount the app so no
+ *   screen keeps data from the previous mode.
+ */
+export function setApiMode(next: ApiMode, pack: FixturePackName = fixturePack) {
+  if (next === mode && pack === fixturePack) return;
+  mode = next;
+  fixturePack = pack;
+  notify();
+}
+
+// Subscribe to mode changes. Returns an unsubscribe function.
+export function onApiModeChange(listener: ApiModeListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
 
-export { mode as API_MODE };
+// Read DATA_BACKEND. Unknown values fall back to 'supabase'.
+export function getDataBackend(): DataBackend {
+  return readConfig('DATA_BACKEND').toLowerCase() === 'local' ? 'local' : 'supabase';
+}
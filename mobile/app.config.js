@@ -30,6 +30,11 @@ module.exports = ({ config }) => {
       // Rely on `process.env` populated by dotenv (local) or EAS/CI at build time.
       SUPABASE_URL: process.env.SUPABASE_URL,
       SUPABASE_ANON_KEY: process.env.SUPABASE_ANON_KEY,
+      // 'local' runs against the in-memory backend in services/local.
+      DATA_BACKEND: process.env.DATA_BACKEND,
+      // 'MOCK' starts the app on fixture data; FIXTURE_PACK picks the data set.
+      API_MODE: process.env.API_MODE,
+      FIXTURE_PACK: process.env.FIXTURE_PACK,
       // Preserve any existing extras configured elsewhere.
       ...(config.extra || {})
     }
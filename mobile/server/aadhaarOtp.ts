@@ -0,0 +1,285 @@
+/*
+ * server/aadhaarOtp.ts
+ *
+ * Purpose: the two steps of Aadhaar OTP verification.
+ *
+ * `requestAadhaarOtp`, given an Aadhaar number:
+ * 1. checks its format and checksum, and that the caller is not already
+ *    verified and has not asked for too many OTPs today,
+ * 2. asks the provider (server/aadhaarProviders.ts) to send an OTP,
+ * 3. expires the caller's earlier open checks and records a new one,
+ *    with the number encrypted and only its last four digits in clear.
+ *
+ * `submitAadhaarOtp`, given that check and a code:
+ * 1. refuses checks that are not the caller's, have expired or have used
+ *    up their attempts,
+ * 2. counts the attempt, then asks the provider whether the code is right,
+ * 3. on success marks the check verified, sets users.aadhaar_verified
+ *    and users.aadhaar_check_id, and refreshes the caller's KYC record.
+ *
+ * Only the service role may set the verified flag (db/aadhaar_otp.sql),
+ * so both run in-process on the local backend and as the
+ * `request-aadhaar-otp` and `submit-aadhaar-otp` Supabase Edge Functions.
+ * The number is encrypted with AADHAAR_ENCRYPTION_KEY (64 hex digits);
+ * the fake provider falls back to a fixed development key.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../services/data/database.types';
+import type { ServerCaller } from './index';
+import { AadhaarProvider, aadhaarProvider } from './aadhaarProviders';
+import { refreshKycRecord } from './kyc';
+import { readEnv } from './env';
+import {
+  aadhaarNumberError,
+  encryptAadhaar,
+  isOtp,
+  lastFour,
+  MAX_OTP_ATTEMPTS,
+  MAX_OTP_REQUESTS_PER_DAY,
+  normalizeAadhaar,
+  otpCheckState,
+  otpExpiry,
+  parseEncryptionKey
+} from '../utils/aadhaar.util';
+import { logger } from '../utils/logger';
+
+export type RequestAadhaarOtpRequest = {
+  aadhaarNumber: string;
+};
+
+export type RequestAadhaarOtpResult =
+  | { success: true; checkId: string; last4: string; expiresAt: string }
+  | { success: false; error: string };
+
+export type SubmitAadhaarOtpRequest = {
+  checkId: string;
+  otp: string;
+};
+
+export type SubmitAadhaarOtpResult =
+  | { success: true; last4: string }
+  | { success: false; error: string; attemptsLeft?: number };
+
+type Admin = SupabaseClient<Database>;
+
+// Only for the fake provider, whose "numbers" never leave the machine.
+const DEVELOPMENT_KEY = '6161646861617220646576656c6f706d656e74206b657920646f206e6f742075';
+
+const UNAVAILABLE = 'Aadhaar verification is unavailable right now. Please try again later.';
+const TRY_AGAIN = 'Could not verify your Aadhaar. Please try again.';
+const NOT_FOUND = 'This verification was not found. Request a new OTP.';
+const EXPIRED = 'This OTP has expired. Request a new one.';
+const LOCKED = 'Too many wrong codes. Request a new OTP.';
+
+function encryptionKey(provider: AadhaarProvider): Uint8Array | null {
+  const key = parseEncryptionKey(readEnv('AADHAAR_ENCRYPTION_KEY'));
+  if (key) return key;
+  return provider.name === 'fake' ? parseEncryptionKey(DEVELOPMENT_KEY) : null;
+}
+
+async function isVerified(admin: Admin, userId: string): Promise<boolean> {
+  const { data, error } = await admin.from('users').select('aadhaar_verified').eq('id', userId).maybeSingle();
+  if (error) throw error;
+  return Boolean(data?.aadhaar_verified);
+}
+
+/*
+ * requestAadhaarOtp
+ * - `admin` must be a service-role client.
+ * - Expected failures come back as `{ success: false, error }`; the
+ *   number itself is never logged.
+ */
+export async function requestAadhaarOtp(
+  admin: Admin,
+  request: RequestAadhaarOtpRequest,
+  caller: ServerCaller
+): Promise<RequestAadhaarOtpResult> {
+  if (!caller?.userId) return { success: false, error: 'Sign in to verify your Aadhaar.' };
+
+  const aadhaarNumber = normalizeAadhaar(request?.aadhaarNumber);
+  const invalid = aadhaarNumberError(aadhaarNumber);
+  if (invalid) return { success: false, error: invalid };
+
+  const provider = aadhaarProvider();
+  const key = provider ? encryptionKey(provider) : null;
+  if (!provider || !key) {
+    logger.error('requestAadhaarOtp: no provider or encryption key configured');
+    return { success: false, error: UNAVAILABLE };
+  }
+
+  try {
+    if (await isVerified(admin, caller.userId)) {
+      return { success: false, error: 'Your Aadhaar is already verified.' };
+    }
+
+    const since = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+    const { count, error: countError } = await admin
+      .from('aadhaar_checks')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', caller.userId)
+      .gte('created_at', since);
+    if (countError) throw countError;
+    if ((count ?? 0) >= MAX_OTP_REQUESTS_PER_DAY) {
+      return { success: false, error: 'Too many OTP requests today. Please try again tomorrow.' };
+    }
+
+    const sent = await provider.requestOtp(aadhaarNumber);
+    if (sent.ok === false) {
+      logger.warn('requestAadhaarOtp: provider refused', { provider: provider.name, error: sent.error });
+      return { success: false, error: sent.error || UNAVAILABLE };
+    }
+
+    // A new OTP replaces any the caller was still waiting on.
+    const { error: expireError } = await admin
+      .from('aadhaar_checks')
+      .update({ status: 'expired' })
+      .eq('user_id', caller.userId)
+      .eq('status', 'otp_sent');
+    if (expireError) throw expireError;
+
+    const expiresAt = otpExpiry();
+    const { data: check, error: insertError } = await admin
+      .from('aadhaar_checks')
+      .insert({
+        user_id: caller.userId,
+        provider: provider.name,
+        aadhaar_number_encrypted: encryptAadhaar(aadhaarNumber, key),
+        aadhaar_last4: lastFour(aadhaarNumber),
+        otp_txn_id: sent.txnId,
+        otp_expires_at: expiresAt
+      })
+      .select('id')
+      .single();
+    if (insertError) throw insertError;
+
+    logger.info('requestAadhaarOtp: OTP sent', { userId: caller.userId, checkId: check.id, provider: provider.name });
+    return { success: true, checkId: check.id, last4: lastFour(aadhaarNumber), expiresAt };
+  } catch (err) {
+    logger.error('requestAadhaarOtp failed', err);
+    return { success: false, error: TRY_AGAIN };
+  }
+}
+
+/*
+ * submitAadhaarOtp
+ * - `admin` must be a service-role client; the check must belong to
+ *   `caller`.
+ * - A wrong code reports how many attempts are left; the last one marks
+ *   the check failed.
+ */
+export async function submitAadhaarOtp(
+  admin: Admin,
+  request: SubmitAadhaarOtpRequest,
+  caller: ServerCaller
+): Promise<SubmitAadhaarOtpResult> {
+  if (!caller?.userId) return { success: false, error: 'Sign in to verify your Aadhaar.' };
+
+  const checkId = String(request?.checkId || '');
+  const otp = String(request?.otp || '').trim();
+  if (!checkId) return { success: false, error: NOT_FOUND };
+  if (!isOtp(otp)) return { success: false, error: 'Enter the 6-digit OTP sent to your mobile.' };
+
+  const provider = aadhaarProvider();
+  if (!provider) {
+    logger.error('submitAadhaarOtp: no provider configured');
+    return { success: false, error: UNAVAILABLE };
+  }
+
+  try {
+    const { data: check, error: checkError } = await admin
+      .from('aadhaar_checks')
+      .select('id, user_id, provider, status, attempts, otp_txn_id, otp_expires_at, aadhaar_last4')
+      .eq('id', checkId)
+      .maybeSingle();
+    if (checkError) throw checkError;
+    if (!check || check.user_id !== caller.userId) return { success: false, error: NOT_FOUND };
+    if (check.provider !== provider.name) {
+      logger.warn('submitAadhaarOtp: check came from another provider', { checkId, provider: check.provider });
+      return { success: false, error: EXPIRED };
+    }
+
+    const state = otpCheckState(check);
+    if (state === 'verified') return { success: true, last4: check.aadhaar_last4 };
+    if (state !== 'open') {
+      if (check.status === 'otp_sent') {
+        const { error } = await admin
+          .from('aadhaar_checks')
+          .update({ status: state === 'locked' ? 'failed' : 'expired' })
+          .eq('id', check.id)
+          .eq('status', 'otp_sent');
+        if (error) throw error;
+      }
+      return { success: false, error: state === 'locked' ? LOCKED : EXPIRED };
+    }
+
+    // Count the attempt before asking the provider. Only the count we
+    // read is replaced, so two submissions at once cannot both use it.
+    const attempts = check.attempts + 1;
+    const { data: counted, error: countError } = await admin
+      .from('aadhaar_checks')
+      .update({ attempts })
+      .eq('id', check.id)
+      .eq('attempts', check.attempts)
+      .eq('status', 'otp_sent')
+      .select('id');
+    if (countError) throw countError;
+    if (!counted || counted.length === 0) return { success: false, error: TRY_AGAIN };
+
+    const outcome = await provider.verifyOtp(check.otp_txn_id, otp);
+    if (outcome.ok === false) {
+      logger.warn('submitAadhaarOtp: provider could not check the OTP', { provider: provider.name, error: outcome.error });
+      return { success: false, error: UNAVAILABLE };
+    }
+
+    if (!outcome.verified) {
+      const attemptsLeft = Math.max(0, MAX_OTP_ATTEMPTS - attempts);
+      if (attemptsLeft === 0) {
+        const { error } = await admin
+          .from('aadhaar_checks')
+          .update({ status: 'failed' })
+          .eq('id', check.id)
+          .eq('status', 'otp_sent');
+        if (error) throw error;
+        return { success: false, error: LOCKED, attemptsLeft };
+      }
+      return {
+        success: false,
+        error: `That OTP is not correct. ${attemptsLeft} ${attemptsLeft === 1 ? 'attempt' : 'attempts'} left.`,
+        attemptsLeft
+      };
+    }
+
+    // Only a check still waiting for its OTP is verified; one expired or
+    // failed in the meantime (say, by a newer OTP request) stays closed.
+    const verifiedAt = new Date().toISOString();
+    const { data: verified, error: verifyError } = await admin
+      .from('aadhaar_checks')
+      .update({ status: 'verified', otp_verified: true, verified_at: verifiedAt })
+      .eq('id', check.id)
+      .eq('status', 'otp_sent')
+      .select('id');
+    if (verifyError) throw verifyError;
+    if (!verified || verified.length === 0) return { success: false, error: EXPIRED };
+
+    const { error: userError } = await admin
+      .from('users')
+      .update({ aadhaar_verified: true, aadhaar_check_id: check.id })
+      .eq('id', caller.userId);
+    if (userError) throw userError;
+
+    // The user is verified either way; a stale KYC record is caught up
+    // the next time the app loads it.
+    try {
+      await refreshKycRecord(admin, caller.userId);
+    } catch (err) {
+      logger.error('submitAadhaarOtp: failed to refresh KYC record', err);
+    }
+
+    logger.info('submitAadhaarOtp: Aadhaar verified', { userId: caller.userId, checkId: check.id });
+    return { success: true, last4: check.aadhaar_last4 };
+  } catch (err) {
+    logger.error('submitAadhaarOtp failed', err);
+    return { success: false, error: TRY_AGAIN };
+  }
+}
@@ -0,0 +1,77 @@
+/*
+ * server/aadhaarProviders.ts
+ *
+ * Purpose: who sends and checks Aadhaar OTPs. A provider is an adapter
+ * over a licensed verification service (an AUA/KUA or a reseller of
+ * one); server/aadhaarOtp.ts only talks to this interface.
+ *
+ * - The fake provider sends nothing: every request "sends" FAKE_AADHAAR_OTP,
+ *   which it then accepts. It is used in-process on the local backend and
+ *   in MOCK mode, and on a hosted project only when AADHAAR_PROVIDER=fake
+ *   (e.g. a staging project).
+ * - Anywhere else there is no provider until a real one is added to
+ *   `PROVIDERS` and chosen with AADHAAR_PROVIDER, and verification reports
+ *   itself unavailable. It never falls back to the fake.
+ */
+
+import { uuidv4 } from '../utils/id.util';
+import { logger } from '../utils/logger';
+import { inEdgeFunction, readEnv } from './env';
+
+export type OtpRequestOutcome = { ok: true; txnId: string } | { ok: false; error: string };
+// `verified` false means the code was wrong; `ok` false means the
+// provider could not answer.
+export type OtpVerifyOutcome = { ok: true; verified: boolean } | { ok: false; error: string };
+
+export type AadhaarProvider = {
+  // Stored on each check as `aadhaar_checks.provider`.
+  name: string;
+  // Send an OTP to the mobile number registered with `aadhaarNumber`.
+  requestOtp(aadhaarNumber: string): Promise<OtpRequestOutcome>;
+  // Check `otp` against the transaction `requestOtp` started.
+  verifyOtp(txnId: string, otp: string): Promise<OtpVerifyOutcome>;
+};
+
+export const FAKE_AADHAAR_OTP = '123456';
+
+export const fakeAadhaarProvider: AadhaarProvider = {
+  name: 'fake',
+  async requestOtp() {
+    logger.info('aadhaar: OTP requested (fake provider)', { otp: FAKE_AADHAAR_OTP });
+    return { ok: true, txnId: `fake-${uuidv4()}` };
+  },
+  async verifyOtp(txnId, otp) {
+    if (!txnId.startsWith('fake-')) return { ok: false, error: 'Unknown transaction' };
+    return { ok: true, verified: otp === FAKE_AADHAAR_OTP };
+  }
+};
+
+// Providers AADHAAR_PROVIDER can name.
+const PROVIDERS: Record<string, AadhaarProvider> = {
+  fake: fakeAadhaarProvider
+};
+
+let override: AadhaarProvider | null = null;
+
+// Replace the provider, e.g. with a scripted fake in a test. Pass null to
+// go back to the environment's choice.
+export function setAadhaarProvider(provider: AadhaarProvider | null): void {
+  override = provider;
+}
+
+/*
+ * aadhaarProvider
+ * - The configured provider, or null when none is. Without
+ *   AADHAAR_PROVIDER the fake is used only outside an Edge Function,
+ *   i.e. in-process on the local backend.
+ */
+export function aadhaarProvider(): AadhaarProvider | null {
+  if (override) return override;
+  const name = readEnv('AADHAAR_PROVIDER');
+  if (name) {
+    const provider = PROVIDERS[name];
+    if (!provider) logger.warn('aadhaar: unknown AADHAAR_PROVIDER', { name });
+    return provider ?? null;
+  }
+  return inEdgeFunction() ? null : fakeAadhaarProvider;
+}
@@ -0,0 +1,176 @@
+/*
+ * server/acceptMeetingSlot.ts
+ *
+ * Purpose: confirm one of the meeting times a startup proposed for a
+ * campaign interest. Given the slot, it:
+ *
+ * 1. checks the caller owns the investor profile behind the interest,
+ * 2. checks the slot is still proposed and has not started,
+ * 3. cancels the interest's current meeting, if any (a reschedule),
+ * 4. marks the slot `accepted`,
+ * 5. declines the interest's other proposed slots,
+ * 6. moves the interest to `meeting_scheduled` if it was `pending` or
+ *    `contacted`.
+ *
+ * Investors cannot change an interest's stage themselves
+ * (enforce_interest_stage in db/investment_commitments.sql), so this runs
+ * with the service role: in-process on the local backend and as the
+ * `accept-meeting-slot` Supabase Edge Function on the hosted project.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, InterestStatus, MeetingSlotRow } from '../services/data/database.types';
+import type { ServerCaller } from './index';
+import { logger } from '../utils/logger';
+
+export type AcceptMeetingSlotRequest = {
+  slotId: string;
+};
+
+export type AcceptMeetingSlotResult =
+  | { success: true; slot: MeetingSlotRow; interestStatus: InterestStatus }
+  | { success: false; error: string };
+
+// Stages that accepting a meeting moves forward. A meeting accepted after
+// the investment is confirmed leaves the interest `invested`.
+const SCHEDULABLE: InterestStatus[] = ['pending', 'contacted'];
+
+const NOT_FOUND = 'Meeting time not found';
+const TRY_AGAIN = 'Could not accept the meeting. Please try again.';
+
+/*
+ * acceptMeetingSlot
+ * - `admin` must be a service-role client; ownership is checked here
+ *   against `caller` because RLS does not apply to it.
+ * - Expected failures come back as `{ success: false, error }`.
+ */
+export async function acceptMeetingSlot(
+  admin: SupabaseClient<Database>,
+  request: AcceptMeetingSlotRequest,
+  caller: ServerCaller
+): Promise<AcceptMeetingSlotResult> {
+  if (!caller?.userId) {
+    return { success: false, error: 'Sign in to accept a meeting.' };
+  }
+
+  const slotId = String(request?.slotId || '');
+  if (!slotId) return { success: false, error: NOT_FOUND };
+
+  const { data: slot, error: slotError } = await admin
+    .from('meeting_slots')
+    .select('*')
+    .eq('id', slotId)
+    .maybeSingle();
+  if (slotError) {
+    logger.error('acceptMeetingSlot: slot lookup failed', slotError);
+    return { success: false, error: TRY_AGAIN };
+  }
+  if (!slot) return { success: false, error: NOT_FOUND };
+
+  const { data: interest, error: interestError } = await admin
+    .from('campaign_interests')
+    .select('id, investor_id, status')
+    .eq('id', slot.interest_id)
+    .maybeSingle();
+  if (interestError) {
+    logger.error('acceptMeetingSlot: interest lookup failed', interestError);
+    return { success: false, error: TRY_AGAIN };
+  }
+  if (!interest?.investor_id) return { success: false, error: NOT_FOUND };
+
+  const { data: investor, error: investorError } = await admin
+    .from('investors')
+    .select('owner_id')
+    .eq('id', interest.investor_id)
+    .maybeSingle();
+  if (investorError) {
+    logger.error('acceptMeetingSlot: investor lookup failed', investorError);
+    return { success: false, error: TRY_AGAIN };
+  }
+  // Same answer as a missing slot, so ids cannot be probed.
+  if (investor?.owner_id !== caller.userId) return { success: false, error: NOT_FOUND };
+
+  if (slot.status === 'accepted') {
+    return { success: false, error: 'You have already accepted this time.' };
+  }
+  if (slot.status !== 'proposed') {
+    return { success: false, error: 'This time is no longer available.' };
+  }
+  if (new Date(slot.starts_at).getTime() <= Date.now()) {
+    return { success: false, error: 'This time has already passed. Ask the startup for new times.' };
+  }
+
+  const respondedAt = new Date().toISOString();
+
+  // Only one meeting per interest is accepted at a time (a unique index
+  // in db/meetings.sql), so a reschedule cancels the current one first.
+  const { data: replaced, error: cancelError } = await admin
+    .from('meeting_slots')
+    .update({ status: 'cancelled', responded_at: respondedAt })
+    .eq('interest_id', slot.interest_id)
+    .eq('status', 'accepted')
+    .select('id');
+  if (cancelError) {
+    logger.error('acceptMeetingSlot: failed to cancel previous meeting', cancelError);
+    return { success: false, error: TRY_AGAIN };
+  }
+
+  // Only accept the slot if it is still proposed; a withdrawal or a
+  // second accept in the meantime makes this match no rows.
+  const { data: claimed, error: claimError } = await admin
+    .from('meeting_slots')
+    .update({ status: 'accepted', responded_at: respondedAt })
+    .eq('id', slot.id)
+    .eq('status', 'proposed')
+    .select('*');
+  if (claimError || !claimed || claimed.length === 0) {
+    await restoreMeetings(admin, (replaced ?? []).map(r => r.id));
+    if (claimError) {
+      logger.error('acceptMeetingSlot: failed to accept slot', claimError);
+      return { success: false, error: TRY_AGAIN };
+    }
+    return { success: false, error: 'This time was changed elsewhere. Refresh and try again.' };
+  }
+
+  const { error: declineError } = await admin
+    .from('meeting_slots')
+    .update({ status: 'declined', responded_at: respondedAt })
+    .eq('interest_id', slot.interest_id)
+    .eq('status', 'proposed');
+  // The meeting is confirmed either way; leftover proposals can still be
+  // declined by hand.
+  if (declineError) logger.error('acceptMeetingSlot: failed to decline other slots', declineError);
+
+  let interestStatus: InterestStatus = interest.status || 'pending';
+  if (SCHEDULABLE.includes(interestStatus)) {
+    const { data: moved, error: moveError } = await admin
+      .from('campaign_interests')
+      .update({ status: 'meeting_scheduled' })
+      .eq('id', interest.id)
+      .eq('status', interestStatus)
+      .select('status');
+    if (moveError) {
+      logger.error('acceptMeetingSlot: failed to update interest stage', moveError);
+    } else if (moved && moved.length > 0) {
+      interestStatus = 'meeting_scheduled';
+    }
+  }
+
+  logger.info('acceptMeetingSlot: meeting accepted', {
+    slotId: slot.id,
+    interestId: interest.id,
+    rescheduled: (replaced ?? []).length > 0
+  });
+  return { success: true, slot: claimed[0], interestStatus };
+}
+
+// Put back a meeting cancelled for a reschedule that did not go through.
+async function restoreMeetings(admin: SupabaseClient<Database>, ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  const { error } = await admin
+    .from('meeting_slots')
+    .update({ status: 'accepted' })
+    .in('id', ids)
+    .eq('status', 'cancelled');
+  if (error) logger.error('acceptMeetingSlot: failed to restore previous meeting', error);
+}
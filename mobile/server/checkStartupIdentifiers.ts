@@ -0,0 +1,68 @@
+/*
+ * server/checkStartupIdentifiers.ts
+ *
+ * Purpose: check the caller's startup's PAN, CIN/LLPIN and GSTIN
+ * (utils/registration.util.ts) and record the results on the startup, so
+ * admins see which identifiers passed, then refresh the owner's KYC
+ * record (server/kyc.ts).
+ *
+ * The profile form calls it after every save. Only the service role may
+ * write the results (db/startup_identifier_checks.sql), so it runs
+ * in-process on the local backend and as the `check-startup-identifiers`
+ * Supabase Edge Function.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, StartupIdentifierChecks } from '../services/data/database.types';
+import type { ServerCaller } from './index';
+import { refreshKycRecord } from './kyc';
+import { checkStartupIdentifiers as runChecks } from '../utils/registration.util';
+import { logger } from '../utils/logger';
+
+export type CheckStartupIdentifiersResult =
+  | { success: true; checks: StartupIdentifierChecks; checkedAt: string }
+  | { success: false; error: string };
+
+/*
+ * checkStartupIdentifiers
+ * - `admin` must be a service-role client. The startup is the one the
+ *   caller owns; the body is ignored.
+ */
+export async function checkStartupIdentifiers(
+  admin: SupabaseClient<Database>,
+  _request: unknown,
+  caller: ServerCaller
+): Promise<CheckStartupIdentifiersResult> {
+  if (!caller?.userId) return { success: false, error: 'Sign in to check your startup.' };
+
+  try {
+    const { data: startup, error } = await admin
+      .from('startups')
+      .select('id, company_type, registered, registration_number, pan_number, gst_number, founded_year')
+      .eq('owner_id', caller.userId)
+      .maybeSingle();
+    if (error) throw error;
+    if (!startup) return { success: false, error: 'Save your startup profile first.' };
+
+    const checks = runChecks(startup);
+    const checkedAt = new Date().toISOString();
+    const { error: updateError } = await admin
+      .from('startups')
+      .update({ identifier_checks: checks, identifiers_checked_at: checkedAt })
+      .eq('id', startup.id);
+    if (updateError) throw updateError;
+
+    // The results are recorded either way; a stale KYC record is caught
+    // up the next time the app loads it.
+    try {
+      await refreshKycRecord(admin, caller.userId);
+    } catch (err) {
+      logger.error('checkStartupIdentifiers: failed to refresh KYC record', err);
+    }
+
+    return { success: true, checks, checkedAt };
+  } catch (err) {
+    logger.error('checkStartupIdentifiers failed', err);
+    return { success: false, error: 'Could not check your identifiers. Please try again.' };
+  }
+}
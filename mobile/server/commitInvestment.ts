@@ -0,0 +1,204 @@
+/*
+ * server/commitInvestment.ts
+ *
+ * Purpose: turn an investor's campaign interest into an investment.
+ * Given the interest and the final amount and equity, it:
+ *
+ * 1. checks the caller owns the investor profile behind the interest and
+ *    has the KYC level confirming needs (utils/kyc.util.ts),
+ * 2. checks the startup has taken the interest past `pending` and the
+ *    campaign is still active,
+ * 3. checks the terms against the campaign (utils/investment.util.ts),
+ * 4. marks the interest `invested` (a second confirmation fails here),
+ * 5. writes a `committed` investments row linked to the interest and
+ *    the campaign,
+ * 6. posts the commitment to the ledger and returns the campaign's new
+ *    `funding_raised`, which the ledger now determines.
+ *
+ * Investors cannot insert investments directly (db/investment_commitments.sql),
+ * so this is the only way a commitment is recorded. Like recoverWithKey it
+ * runs in-process on the local backend and as the `commit-investment`
+ * Supabase Edge Function on the hosted project.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, InterestStatus, InvestmentRow } from '../services/data/database.types';
+import type { ServerCaller } from './index';
+import { uuidv4 } from '../utils/id.util';
+import { validateCommitment } from '../utils/investment.util';
+import { KycBlock, kycBlockFor, kycBlockMessage } from '../utils/kyc.util';
+import { refreshKycRecord } from './kyc';
+import { refreshCampaignFunding, syncCommitment } from './ledger';
+import { logger } from '../utils/logger';
+
+export type CommitInvestmentRequest = {
+  interestId: string;
+  amount: number;
+  equity: number;
+};
+
+export type CommitInvestmentResult =
+  | { success: true; investment: InvestmentRow; fundingRaised: number }
+  | { success: false; error: string; kyc?: KycBlock };
+
+// Stages from which the investor may confirm. `pending` means the startup
+// has not responded yet.
+const CONFIRMABLE: InterestStatus[] = ['contacted', 'meeting_scheduled'];
+
+const NOT_FOUND = 'Interest not found';
+const TRY_AGAIN = 'Could not record the investment. Please try again.';
+
+/*
+ * commitInvestment
+ * - `admin` must be a service-role client; ownership is checked here
+ *   against `caller` because RLS does not apply to it.
+ * - Expected failures come back as `{ success: false, error }`.
+ */
+export async function commitInvestment(
+  admin: SupabaseClient<Database>,
+  request: CommitInvestmentRequest,
+  caller: ServerCaller
+): Promise<CommitInvestmentResult> {
+  if (!caller?.userId) {
+    return { success: false, error: 'Sign in to confirm an investment.' };
+  }
+
+  const interestId = String(request?.interestId || '');
+  const terms = { amount: Number(request?.amount), equity: Number(request?.equity ?? 0) };
+  if (!interestId) return { success: false, error: NOT_FOUND };
+
+  const { data: interest, error: interestError } = await admin
+    .from('campaign_interests')
+    .select('*')
+    .eq('id', interestId)
+    .maybeSingle();
+  if (interestError) {
+    logger.error('commitInvestment: interest lookup failed', interestError);
+    return { success: false, error: TRY_AGAIN };
+  }
+  if (!interest?.investor_id || !interest.campaign_id) return { success: false, error: NOT_FOUND };
+
+  const { data: investor, error: investorError } = await admin
+    .from('investors')
+    .select('id, owner_id')
+    .eq('id', interest.investor_id)
+    .maybeSingle();
+  if (investorError) {
+    logger.error('commitInvestment: investor lookup failed', investorError);
+    return { success: false, error: TRY_AGAIN };
+  }
+  // Same answer as a missing interest, so ids cannot be probed.
+  if (investor?.owner_id !== caller.userId) return { success: false, error: NOT_FOUND };
+
+  let kyc: KycBlock | null;
+  try {
+    kyc = kycBlockFor('investment.confirm', await refreshKycRecord(admin, caller.userId));
+  } catch (err) {
+    logger.error('commitInvestment: KYC lookup failed', err);
+    return { success: false, error: TRY_AGAIN };
+  }
+  if (kyc) return { success: false, error: kycBlockMessage(kyc), kyc };
+
+  const fromStatus = interest.status || 'pending';
+  if (fromStatus === 'invested') {
+    return { success: false, error: 'You have already confirmed this investment.' };
+  }
+  if (!CONFIRMABLE.includes(fromStatus)) {
+    return { success: false, error: 'The startup has not responded to your interest yet.' };
+  }
+
+  const { data: campaign, error: campaignError } = await admin
+    .from('fundraising_campaigns')
+    .select('*')
+    .eq('id', interest.campaign_id)
+    .maybeSingle();
+  if (campaignError) {
+    logger.error('commitInvestment: campaign lookup failed', campaignError);
+    return { success: false, error: TRY_AGAIN };
+  }
+  if (!campaign || campaign.status !== 'active') {
+    return { success: false, error: 'This campaign is not accepting investments right now.' };
+  }
+
+  const problem = validateCommitment(campaign, terms);
+  if (problem) return { success: false, error: problem };
+
+  // Only move the interest from the stage we just checked; a concurrent
+  // confirmation or stage change makes this match no rows.
+  const { data: claimed, error: claimError } = await admin
+    .from('campaign_interests')
+    .update({ status: 'invested' })
+    .eq('id', interest.id)
+    .eq('status', fromStatus)
+    .select('id');
+  if (claimError) {
+    logger.error('commitInvestment: failed to update interest', claimError);
+    return { success: false, error: TRY_AGAIN };
+  }
+  if (!claimed || claimed.length === 0) {
+    return { success: false, error: 'This interest was changed elsewhere. Refresh and try again.' };
+  }
+
+  const { data: investment, error: insertError } = await admin
+    .from('investments')
+    .insert({
+      id: uuidv4(),
+      startup_id: campaign.startup_id,
+      investor_id: investor.id,
+      campaign_id: campaign.id,
+      interest_id: interest.id,
+      amount: terms.amount,
+      equity_offered: terms.equity,
+      status: 'committed'
+    })
+    .select('*')
+    .single();
+
+  if (insertError) {
+    // Put the interest back so the investor can try again.
+    const { error: restoreError } = await admin
+      .from('campaign_interests')
+      .update({ status: fromStatus })
+      .eq('id', interest.id)
+      .eq('status', 'invested');
+    if (restoreError) logger.error('commitInvestment: failed to restore interest', restoreError);
+
+    logger.error('commitInvestment: investment insert failed', insertError);
+    return { success: false, error: TRY_AGAIN };
+  }
+
+  const fundingRaised = await refreshFundingRaised(admin, investment.id, campaign.id, Number(campaign.funding_raised) || 0);
+
+  logger.info('commitInvestment: investment committed', {
+    interestId: interest.id,
+    campaignId: campaign.id,
+    investmentId: investment.id,
+    amount: terms.amount
+  });
+  return { success: true, investment, fundingRaised };
+}
+
+/*
+ * refreshFundingRaised
+ * - Post the commitment to the ledger and set the campaign's
+ *   `funding_raised` from its escrow (server/ledger.ts), and return it.
+ *   On the hosted database the triggers in db/ledger.sql have already
+ *   done both, so this posts nothing there; the local backend has no
+ *   triggers.
+ * - The investment is already recorded, so a failure here is logged and
+ *   the previous total is returned; reconcile-ledger repairs it.
+ */
+async function refreshFundingRaised(
+  admin: SupabaseClient<Database>,
+  investmentId: string,
+  campaignId: string,
+  previous: number
+): Promise<number> {
+  try {
+    await syncCommitment(admin, investmentId);
+    return await refreshCampaignFunding(admin, campaignId);
+  } catch (err) {
+    logger.error('commitInvestment: failed to update funding_raised', { campaignId, err });
+    return previous;
+  }
+}
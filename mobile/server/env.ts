@@ -0,0 +1,26 @@
+/*
+ * server/env.ts
+ *
+ * Purpose: read server settings (provider names, API keys, secrets) from
+ * the Edge Function's environment on the hosted project and from
+ * process.env elsewhere. Empty values count as unset.
+ */
+
+// The part of Deno's global this module uses.
+type DenoGlobal = { Deno?: { env: { get(key: string): string | undefined } } };
+
+function denoRuntime(): DenoGlobal['Deno'] {
+  return (globalThis as DenoGlobal).Deno;
+}
+
+// True inside a Supabase Edge Function, where local fakes and stubs must
+// never stand in for a real provider.
+export function inEdgeFunction(): boolean {
+  return Boolean(denoRuntime());
+}
+
+export function readEnv(key: string): string | undefined {
+  const deno = denoRuntime();
+  if (deno) return deno.env.get(key) || undefined;
+  return typeof process !== 'undefined' ? process.env[key] || undefined : undefined;
+}
@@ -0,0 +1,176 @@
+/*
+ * server/fakeRazorpay.ts
+ *
+ * Purpose: an in-memory gateway that behaves like Razorpay for the parts
+ * the app uses, so payments can be taken end to end offline:
+ *
+ * - orders are created, then paid by a simulated checkout that returns a
+ *   properly signed checkout response (or a failed payment),
+ * - payments are captured and refunded, with Razorpay's checks on
+ *   amounts and states,
+ * - every change queues a signed webhook, as Razorpay would send it, for
+ *   the caller to deliver (`drainWebhooks`).
+ *
+ * server/paymentProviders.ts runs one in-process as the `fake` provider;
+ * server/fakeRazorpayServer.ts serves one over HTTP. Nothing here is
+ * persisted.
+ */
+
+import { uuidv4 } from '../utils/id.util';
+import { checkoutSignature, hmacSha256Hex } from '../utils/payment.util';
+import type {
+  CheckoutResponse,
+  GatewayOutcome,
+  RazorpayOrder,
+  RazorpayPayment,
+  RazorpayRefund,
+  RazorpayWebhookEvent
+} from './paymentProviders';
+
+export type FakeRazorpayKeys = { keyId: string; keySecret: string; webhookSecret: string };
+
+export const FAKE_RAZORPAY_KEYS: FakeRazorpayKeys = {
+  keyId: 'rzp_test_fake',
+  keySecret: 'fake_key_secret',
+  webhookSecret: 'fake_webhook_secret'
+};
+
+// A webhook ready to POST: the exact body and the headers to send with it.
+export type FakeWebhook = { eventId: string; rawBody: string; signature: string };
+
+const now = () => Math.floor(Date.now() / 1000);
+const newId = (prefix: string) => `${prefix}_${uuidv4().replace(/-/g, '').slice(0, 14)}`;
+
+export function createFakeRazorpay(keys: FakeRazorpayKeys = FAKE_RAZORPAY_KEYS) {
+  const orders = new Map<string, RazorpayOrder>();
+  const payments = new Map<string, RazorpayPayment>();
+  let outbox: FakeWebhook[] = [];
+
+  function queue(event: string, payload: RazorpayWebhookEvent['payload']): void {
+    const rawBody = JSON.stringify({ entity: 'event', event, payload, created_at: now() });
+    outbox.push({ eventId: newId('evt'), rawBody, signature: hmacSha256Hex(keys.webhookSecret, rawBody) });
+  }
+
+  const refuse = (error: string): { ok: false; error: string } => ({ ok: false, error });
+
+  return {
+    keys,
+
+    createOrder(input: { amount: number; currency: string; receipt: string; notes?: Record<string, string> }): GatewayOutcome<RazorpayOrder> {
+      if (!Number.isInteger(input.amount) || input.amount < 100) return refuse('The amount must be at least INR 1.00');
+      const order: RazorpayOrder = {
+        id: newId('order'),
+        entity: 'order',
+        amount: input.amount,
+        amount_paid: 0,
+        currency: input.currency,
+        receipt: input.receipt ?? null,
+        status: 'created',
+        notes: input.notes ?? {},
+        created_at: now()
+      };
+      orders.set(order.id, order);
+      return { ok: true, value: { ...order } };
+    },
+
+    fetchOrder(orderId: string): GatewayOutcome<RazorpayOrder> {
+      const order = orders.get(orderId);
+      return order ? { ok: true, value: { ...order } } : refuse('The id provided does not exist');
+    },
+
+    fetchPayment(paymentId: string): GatewayOutcome<RazorpayPayment> {
+      const payment = payments.get(paymentId);
+      return payment ? { ok: true, value: { ...payment } } : refuse('The id provided does not exist');
+    },
+
+    /*
+     * checkout(orderId, { fail })
+     * - What the customer does in Razorpay Checkout: one payment attempt
+     *   on the order. Success authorizes it and returns the signed
+     *   response the app passes on; failure returns no response.
+     */
+    checkout(orderId: string, options: { fail?: boolean } = {}): GatewayOutcome<CheckoutResponse | null> {
+      const order = orders.get(orderId);
+      if (!order) return refuse('The id provided does not exist');
+      if (order.status === 'paid') return refuse('Order has already been paid');
+
+      const payment: RazorpayPayment = {
+        id: newId('pay'),
+        entity: 'payment',
+        order_id: order.id,
+        amount: order.amount,
+        currency: order.currency,
+        status: options.fail ? 'failed' : 'authorized',
+        captured: false,
+        amount_refunded: 0,
+        error_description: options.fail ? 'Payment was declined by the bank' : null,
+        created_at: now()
+      };
+      payments.set(payment.id, payment);
+      order.status = 'attempted';
+      queue(options.fail ? 'payment.failed' : 'payment.authorized', { payment: { entity: { ...payment } } });
+
+      if (options.fail) return { ok: true, value: null };
+      return {
+        ok: true,
+        value: {
+          razorpay_payment_id: payment.id,
+          razorpay_order_id: order.id,
+          razorpay_signature: checkoutSignature(order.id, payment.id, keys.keySecret)
+        }
+      };
+    },
+
+    capture(paymentId: string, amount: number, currency: string): GatewayOutcome<RazorpayPayment> {
+      const payment = payments.get(paymentId);
+      if (!payment) return refuse('The id provided does not exist');
+      if (payment.status === 'captured') return refuse('This payment has already been captured');
+      if (payment.status !== 'authorized') return refuse('Only payments which have been authorized and not yet captured can be captured');
+      if (amount !== payment.amount || currency !== payment.currency) {
+        return refuse('Capture amount must be equal to the amount authorized');
+      }
+
+      payment.status = 'captured';
+      payment.captured = true;
+      const order = orders.get(payment.order_id)!;
+      order.status = 'paid';
+      order.amount_paid = payment.amount;
+      queue('payment.captured', { payment: { entity: { ...payment } } });
+      queue('order.paid', { payment: { entity: { ...payment } }, order: { entity: { ...order } } });
+      return { ok: true, value: { ...payment } };
+    },
+
+    refund(paymentId: string, amount: number): GatewayOutcome<RazorpayRefund> {
+      const payment = payments.get(paymentId);
+      if (!payment) return refuse('The id provided does not exist');
+      if (!payment.captured) return refuse('Payment has not been captured');
+      if (!Number.isInteger(amount) || amount < 100) return refuse('The refund amount must be at least INR 1.00');
+      if (amount > payment.amount - payment.amount_refunded) {
+        return refuse('The refund amount provided is greater than amount captured');
+      }
+
+      payment.amount_refunded += amount;
+      if (payment.amount_refunded === payment.amount) payment.status = 'refunded';
+      const refund: RazorpayRefund = {
+        id: newId('rfnd'),
+        entity: 'refund',
+        payment_id: payment.id,
+        amount,
+        currency: payment.currency,
+        status: 'processed',
+        created_at: now()
+      };
+      queue('refund.processed', { refund: { entity: refund }, payment: { entity: { ...payment } } });
+      return { ok: true, value: refund };
+    },
+
+    // Webhooks queued since the last call, oldest first.
+    drainWebhooks(): FakeWebhook[] {
+      const drained = outbox;
+      outbox = [];
+      return drained;
+    }
+  };
+}
+
+export type FakeRazorpay = ReturnType<typeof createFakeRazorpay>;
@@ -0,0 +1,119 @@
+/*
+ * server/fakeRazorpayServer.ts
+ *
+ * Purpose: serve the fake gateway (server/fakeRazorpay.ts) over HTTP with
+ * Razorpay's paths, so the `razorpay` provider and the payment-webhook
+ * Edge Function can be tried end to end without a Razorpay account.
+ *
+ *   npm run fake-razorpay
+ *
+ * then run the functions with
+ *
+ *   PAYMENT_PROVIDER=razorpay
+ *   RAZORPAY_API_URL=http://localhost:4010/v1
+ *   RAZORPAY_KEY_ID=rzp_test_fake
+ *   RAZORPAY_KEY_SECRET=fake_key_secret
+ *   RAZORPAY_WEBHOOK_SECRET=fake_webhook_secret
+ *
+ * POST /v1/_fake/checkout `{ "order_id": ..., "fail": false }` plays the
+ * customer in checkout and returns the signed checkout response. Webhooks
+ * are POSTed to FAKE_RAZORPAY_WEBHOOK_URL (e.g. the local payment-webhook
+ * function) when it is set, and logged otherwise. FAKE_RAZORPAY_PORT
+ * changes the port. State lives in memory and is lost on restart.
+ */
+
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { logger } from '../utils/logger';
+import { createFakeRazorpay, FakeWebhook } from './fakeRazorpay';
+import type { GatewayOutcome } from './paymentProviders';
+
+const gateway = createFakeRazorpay();
+const port = Number(process.env.FAKE_RAZORPAY_PORT) || 4010;
+const webhookUrl = process.env.FAKE_RAZORPAY_WEBHOOK_URL;
+const expectedAuth = `Basic ${Buffer.from(`${gateway.keys.keyId}:${gateway.keys.keySecret}`).toString('base64')}`;
+
+function send(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function sendOutcome(res: ServerResponse, outcome: GatewayOutcome<unknown>): void {
+  if (outcome.ok === false) {
+    send(res, 400, { error: { code: 'BAD_REQUEST_ERROR', description: outcome.error } });
+    return;
+  }
+  send(res, 200, outcome.value);
+}
+
+async function readJson(req: IncomingMessage): Promise<any> {
+  let raw = '';
+  for await (const chunk of req) raw += chunk;
+  return raw ? JSON.parse(raw) : {};
+}
+
+async function deliver(webhook: FakeWebhook): Promise<void> {
+  if (!webhookUrl) {
+    logger.info('fake-razorpay: webhook (no FAKE_RAZORPAY_WEBHOOK_URL)', { eventId: webhook.eventId, body: webhook.rawBody });
+    return;
+  }
+  try {
+    const response = await fetch(webhookUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Razorpay-Signature': webhook.signature,
+        'X-Razorpay-Event-Id': webhook.eventId
+      },
+      body: webhook.rawBody
+    });
+    logger.info('fake-razorpay: webhook delivered', { eventId: webhook.eventId, status: response.status });
+  } catch (err: any) {
+    logger.warn('fake-razorpay: webhook delivery failed', { eventId: webhook.eventId, err: err?.message });
+  }
+}
+
+async function route(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const path = (req.url || '').split('?')[0].replace(/\/+$/, '');
+  const [, version, resource, id, action] = path.split('/');
+
+  if (version !== 'v1') return send(res, 404, { error: { code: 'NOT_FOUND', description: 'Not found' } });
+  if (req.headers.authorization !== expectedAuth) {
+    return send(res, 401, { error: { code: 'BAD_REQUEST_ERROR', description: 'Authentication failed' } });
+  }
+
+  const body = req.method === 'POST' ? await readJson(req) : {};
+
+  if (req.method === 'POST' && resource === 'orders' && !id) {
+    return sendOutcome(res, gateway.createOrder(body));
+  }
+  if (req.method === 'GET' && resource === 'orders' && id) {
+    return sendOutcome(res, gateway.fetchOrder(id));
+  }
+  if (req.method === 'GET' && resource === 'payments' && id && !action) {
+    return sendOutcome(res, gateway.fetchPayment(id));
+  }
+  if (req.method === 'POST' && resource === 'payments' && action === 'capture') {
+    return sendOutcome(res, gateway.capture(id, Number(body.amount), body.currency));
+  }
+  if (req.method === 'POST' && resource === 'payments' && action === 'refund') {
+    return sendOutcome(res, gateway.refund(id, Number(body.amount)));
+  }
+  if (req.method === 'POST' && resource === '_fake' && id === 'checkout') {
+    return sendOutcome(res, gateway.checkout(String(body.order_id || ''), { fail: Boolean(body.fail) }));
+  }
+  send(res, 404, { error: { code: 'NOT_FOUND', description: 'Not found' } });
+}
+
+createServer((req, res) => {
+  route(req, res)
+    .catch(err => {
+      logger.error('fake-razorpay: request failed', { url: req.url, err: err?.message });
+      if (!res.headersSent) send(res, 400, { error: { code: 'BAD_REQUEST_ERROR', description: 'Invalid request' } });
+    })
+    // Webhooks follow the response, as they would from Razorpay.
+    .then(async () => {
+      for (const webhook of gateway.drainWebhooks()) await deliver(webhook);
+    });
+}).listen(port, () => {
+  logger.info(`fake-razorpay: listening on http://localhost:${port}/v1`, { keyId: gateway.keys.keyId });
+});
@@ -0,0 +1,99 @@
+/*
+ * server/gstProviders.ts
+ *
+ * Purpose: who looks up a GSTIN on the GST register. A provider is an
+ * adapter over a GST Suvidha Provider (GSP) or similar taxpayer search
+ * API; server/lookupGstin.ts only talks to this interface.
+ *
+ * - The stub provider answers from STUB_GST_REGISTER and knows no other
+ *   GSTIN. It is used in-process on the local backend and in MOCK mode,
+ *   and on a hosted project only when GST_PROVIDER=stub.
+ * - Anywhere else there is no provider until a real one is added to
+ *   `PROVIDERS` and chosen with GST_PROVIDER, and lookups report
+ *   themselves unavailable.
+ */
+
+import { logger } from '../utils/logger';
+import { inEdgeFunction, readEnv } from './env';
+
+export type GstTaxpayerStatus = 'Active' | 'Suspended' | 'Cancelled' | 'Inactive';
+
+// What the register says about a GSTIN.
+export type GstTaxpayer = {
+  gstin: string;
+  legalName: string;
+  tradeName: string | null;
+  status: GstTaxpayerStatus;
+  registeredOn: string | null;
+};
+
+// `taxpayer` null means the register has no such GSTIN; `ok` false means
+// the provider could not answer.
+export type GstLookupOutcome = { ok: true; taxpayer: GstTaxpayer | null } | { ok: false; error: string };
+
+export type GstProvider = {
+  name: string;
+  lookup(gstin: string): Promise<GstLookupOutcome>;
+};
+
+// Valid GSTINs the stub knows, for trying the form locally.
+export const STUB_GST_REGISTER: Record<string, GstTaxpayer> = {
+  '29AAGCG1234K1ZJ': {
+    gstin: '29AAGCG1234K1ZJ',
+    legalName: 'GREENROOTS AGRITECH PRIVATE LIMITED',
+    tradeName: 'GreenRoots',
+    status: 'Active',
+    registeredOn: '2022-06-15'
+  },
+  '27AAHCP5678M1ZL': {
+    gstin: '27AAHCP5678M1ZL',
+    legalName: 'PAYLANE TECHNOLOGIES PRIVATE LIMITED',
+    tradeName: 'PayLane',
+    status: 'Active',
+    registeredOn: '2023-09-01'
+  },
+  '27AAPFU0939F1ZV': {
+    gstin: '27AAPFU0939F1ZV',
+    legalName: 'UNITED TRADERS',
+    tradeName: null,
+    status: 'Cancelled',
+    registeredOn: '2017-07-01'
+  }
+};
+
+export const stubGstProvider: GstProvider = {
+  name: 'stub',
+  async lookup(gstin) {
+    return { ok: true, taxpayer: STUB_GST_REGISTER[gstin] ?? null };
+  }
+};
+
+// Providers GST_PROVIDER can name.
+const PROVIDERS: Record<string, GstProvider> = {
+  stub: stubGstProvider
+};
+
+let override: GstProvider | null = null;
+
+// Replace the provider, e.g. with a scripted one in a test. Pass null to
+// go back to the environment's choice.
+export function setGstProvider(provider: GstProvider | null): void {
+  override = provider;
+}
+
+/*
+ * gstProvider
+ * - The configured provider, or null when none is. Without GST_PROVIDER
+ *   the stub is used only outside an Edge Function, i.e. in-process on
+ *   the local backend.
+ */
+export function gstProvider(): GstProvider | null {
+  if (override) return override;
+  const name = readEnv('GST_PROVIDER');
+  if (name) {
+    const provider = PROVIDERS[name];
+    if (!provider) logger.warn('gst: unknown GST_PROVIDER', { name });
+    return provider ?? null;
+  }
+  return inEdgeFunction() ? null : stubGstProvider;
+}
@@ -0,0 +1,59 @@
+/*
+ * server/index.ts
+ *
+ * Purpose: the server functions the app can call with
+ * `supabase.functions.invoke(name, { body })`, keyed by function name.
+ *
+ * Each function takes a service-role client, the request body and the
+ * caller. The local backend (services/local/localClient.ts) runs them
+ * in-process; on the hosted project each one is deployed as a Supabase
+ * Edge Function with the same name (see supabase/functions).
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../services/data/database.types';
+import { acceptMeetingSlot } from './acceptMeetingSlot';
+import { requestAadhaarOtp, submitAadhaarOtp } from './aadhaarOtp';
+import { checkStartupIdentifiers } from './checkStartupIdentifiers';
+import { commitInvestment } from './commitInvestment';
+import { refreshKyc } from './kyc';
+import { disburseCampaign, ledgerBalances, reconcileLedger } from './ledger';
+import { lookupGstin } from './lookupGstin';
+import { matchContacts } from './matchContacts';
+import { notifyEvent } from './notifyEvent';
+import { openCampaignDocument } from './openCampaignDocument';
+import { createPaymentOrder, fakePaymentCheckout, refundPayment, verifyPayment } from './payments';
+import { recoverWithKey } from './recoverWithKey';
+import { sendNotificationDigests } from './sendNotificationDigests';
+
+// Who made the request. `userId` comes from the caller's session (the
+// Authorization header on the hosted project) and is null when signed out.
+// The admin client bypasses RLS, so functions that act for a user must
+// check ownership against it themselves.
+export type ServerCaller = {
+  userId: string | null;
+};
+
+export type ServerFunction = (admin: SupabaseClient<Database>, body: any, caller: ServerCaller) => Promise<unknown>;
+
+export const SERVER_FUNCTIONS: Record<string, ServerFunction> = {
+  'recover-with-key': recoverWithKey,
+  'commit-investment': commitInvestment,
+  'match-contacts': matchContacts,
+  'accept-meeting-slot': acceptMeetingSlot,
+  'notify-event': notifyEvent,
+  'send-notification-digests': sendNotificationDigests,
+  'open-campaign-document': openCampaignDocument,
+  'request-aadhaar-otp': requestAadhaarOtp,
+  'submit-aadhaar-otp': submitAadhaarOtp,
+  'lookup-gstin': lookupGstin,
+  'check-startup-identifiers': checkStartupIdentifiers,
+  'refresh-kyc': refreshKyc,
+  'create-payment-order': createPaymentOrder,
+  'verify-payment': verifyPayment,
+  'refund-payment': refundPayment,
+  'fake-payment-checkout': fakePaymentCheckout,
+  'disburse-campaign': disburseCampaign,
+  'ledger-balances': ledgerBalances,
+  'reconcile-ledger': reconcileLedger
+};
@@ -0,0 +1,132 @@
+/*
+ * server/kyc.ts
+ *
+ * Purpose: keep each user's kyc_records row (db/kyc.sql) in step with
+ * what it summarises: users.aadhaar_verified, the startup's recorded
+ * identifier checks and review, or the investor's review and
+ * accreditation. The level comes from utils/kyc.util.ts.
+ *
+ * `refreshKycRecord` is called by the server functions that change those
+ * inputs (submit-aadhaar-otp, check-startup-identifiers); the app calls
+ * `refresh-kyc` to load its own record, and admins call it for the user
+ * they have just reviewed or whose campaign they are approving.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, KycRecordRow, TablesInsert } from '../services/data/database.types';
+import type { ServerCaller } from './index';
+import { kycLevel } from '../utils/kyc.util';
+import { logger } from '../utils/logger';
+
+export type RefreshKycRequest = {
+  // Whose record to refresh; admins only. Defaults to the caller.
+  userId?: string;
+};
+
+export type RefreshKycResult = { success: true; record: KycRecordRow } | { success: false; error: string };
+
+type Admin = SupabaseClient<Database>;
+
+/*
+ * refreshKycRecord
+ * - `admin` must be a service-role client. Rebuilds the user's record
+ *   from its sources and returns it; throws on database errors.
+ */
+export async function refreshKycRecord(admin: Admin, userId: string): Promise<KycRecordRow> {
+  const { data: user, error: userError } = await admin
+    .from('users')
+    .select('id, role, aadhaar_verified')
+    .eq('id', userId)
+    .maybeSingle();
+  if (userError) throw userError;
+  if (!user) throw new Error(`No user ${userId}`);
+
+  const record: TablesInsert<'kyc_records'> = {
+    user_id: userId,
+    subject_type: null,
+    subject_id: null,
+    aadhaar_verified: Boolean(user.aadhaar_verified),
+    pan_status: null,
+    registration_status: null,
+    gstin_status: null,
+    review_status: null,
+    accredited_until: null
+  };
+
+  if (user.role === 'startup') {
+    const { data: startup, error } = await admin
+      .from('startups')
+      .select('id, identifier_checks, verification_status')
+      .eq('owner_id', userId)
+      .maybeSingle();
+    if (error) throw error;
+    record.subject_type = 'startup';
+    if (startup) {
+      const checks = startup.identifier_checks;
+      Object.assign(record, {
+        subject_id: startup.id,
+        pan_status: checks?.pan.status ?? null,
+        registration_status: checks?.registration.status ?? null,
+        gstin_status: checks?.gstin.status ?? null,
+        review_status: startup.verification_status
+      });
+    }
+  } else if (user.role === 'investor') {
+    const { data: investor, error } = await admin
+      .from('investors')
+      .select('id, verification_status, accredited_until')
+      .eq('owner_id', userId)
+      .maybeSingle();
+    if (error) throw error;
+    record.subject_type = 'investor';
+    if (investor) {
+      Object.assign(record, {
+        subject_id: investor.id,
+        review_status: investor.verification_status,
+        accredited_until: investor.accredited_until
+      });
+    }
+  }
+
+  record.level = kycLevel({
+    subject_type: record.subject_type,
+    aadhaar_verified: record.aadhaar_verified,
+    pan_status: record.pan_status,
+    registration_status: record.registration_status,
+    gstin_status: record.gstin_status,
+    review_status: record.review_status,
+    accredited_until: record.accredited_until
+  });
+  record.updated_at = new Date().toISOString();
+
+  const { data: saved, error: saveError } = await admin
+    .from('kyc_records')
+    .upsert(record, { onConflict: 'user_id' })
+    .select('*')
+    .single();
+  if (saveError) throw saveError;
+  return saved;
+}
+
+/*
+ * refreshKyc
+ * - Callers refresh their own record; admins may name another user.
+ */
+export async function refreshKyc(admin: Admin, request: RefreshKycRequest, caller: ServerCaller): Promise<RefreshKycResult> {
+  if (!caller?.userId) return { success: false, error: 'Sign in to see your verification status.' };
+  const userId = request?.userId || caller.userId;
+
+  try {
+    if (userId !== caller.userId) {
+      const { data: me, error } = await admin.from('users').select('role').eq('id', caller.userId).maybeSingle();
+      if (error) throw error;
+      if (me?.role !== 'admin' && me?.role !== 'super_admin') {
+        return { success: false, error: 'Only admins can refresh another user\'s verification.' };
+      }
+    }
+    return { success: true, record: await refreshKycRecord(admin, userId) };
+  } catch (err) {
+    logger.error('refreshKyc failed', { userId, err });
+    return { success: false, error: 'Could not load verification status. Please try again.' };
+  }
+}
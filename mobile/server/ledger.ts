@@ -0,0 +1,557 @@
+/*
+ * server/ledger.ts
+ *
+ * Purpose: post money movements to the double-entry ledger
+ * (db/ledger.sql) and answer questions about it. utils/ledger.util.ts
+ * has which accounts each kind of entry debits and credits.
+ *
+ * - `syncCommitment` posts (or reverses) an investment's commitment. The
+ *   hosted database does this itself from a trigger; commit-investment
+ *   calls it too so the local backend, which has no triggers, matches.
+ * - `syncPayment` posts what a payment has captured and refunded;
+ *   server/payments.ts calls it whenever a payment moves.
+ * - `refreshCampaignFunding` sets `funding_raised` from the campaign's
+ *   escrow, so the total is derived from the ledger and never trusted.
+ * - `disburse-campaign` (admins) moves paid-in money from a campaign's
+ *   escrow to the startup's payout account, less the platform fee.
+ * - `ledger-balances` (admins) lists account balances and what each
+ *   campaign has committed, paid in and disbursed.
+ * - `reconcile-ledger` (admins) compares the ledger with the payments,
+ *   investments and campaign totals; with `repair` it first posts
+ *   whatever is missing and recomputes every total.
+ *
+ * Posting is idempotent: each entry has a `reference`, and posting an
+ * existing one returns the first entry.
+ */
+
+import type { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import type {
+  Database,
+  InvestmentStatus,
+  LedgerAccountKind,
+  LedgerEntryRow,
+  PaymentRow,
+  TablesInsert
+} from '../services/data/database.types';
+import type { ServerCaller } from './index';
+import {
+  accountKey,
+  campaignCommitted,
+  campaignDisbursable,
+  COMMITMENT_KINDS,
+  commitmentHeld,
+  commitmentTarget,
+  disbursementPostings,
+  escrow,
+  findLedgerIssues,
+  isBalanced,
+  LedgerAccountRef,
+  LedgerFact,
+  LedgerIssue,
+  LedgerPosting,
+  netByAccount,
+  paymentPostings,
+  paymentRecorded,
+  paymentTargets,
+  platformFee,
+  refundPostings,
+  sameCommitment,
+  wallet
+} from '../utils/ledger.util';
+import { formatPaise } from '../utils/payment.util';
+import { logger } from '../utils/logger';
+
+type Admin = SupabaseClient<Database>;
+
+export type LedgerBalance = {
+  accountId: string;
+  kind: LedgerAccountKind;
+  // Investor, campaign or startup the account belongs to, by name.
+  owner: string | null;
+  balance: number;
+};
+
+export type CampaignLedgerSummary = {
+  campaignId: string;
+  title: string;
+  committed: number;
+  disbursable: number;
+};
+
+export type DisburseCampaignRequest = { campaignId: string; amount?: number };
+export type DisburseCampaignResult =
+  | { success: true; entry: LedgerEntryRow; amount: number; fee: number }
+  | { success: false; error: string };
+
+export type LedgerBalancesResult =
+  | { success: true; accounts: LedgerBalance[]; campaigns: CampaignLedgerSummary[] }
+  | { success: false; error: string };
+
+export type ReconcileLedgerRequest = { repair?: boolean };
+export type ReconcileLedgerResult =
+  | { success: true; issues: LedgerIssue[]; checked: { payments: number; investments: number; campaigns: number } }
+  | { success: false; error: string };
+
+const PAGE_SIZE = 1000;
+
+// Read every row of a query, a page at a time; PostgREST caps each
+// response. The query must order by a unique column (or end with one),
+// or rows can move between pages and be skipped or read twice.
+async function fetchAll<T>(page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: PostgrestError | null }>): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data ?? []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+function refFromKey(kind: LedgerAccountKind, key: string): LedgerAccountRef {
+  return { kind, ownerId: key.startsWith(`${kind}:`) ? key.slice(kind.length + 1) : null };
+}
+
+// The account's id, creating the account on first use.
+async function accountId(admin: Admin, ref: LedgerAccountRef): Promise<string> {
+  const key = accountKey(ref);
+  const { data: existing, error } = await admin.from('ledger_accounts').select('id').eq('key', key).maybeSingle();
+  if (error) throw error;
+  if (existing) return existing.id;
+
+  const owner = ref.ownerId ?? null;
+  const { data: created, error: insertError } = await admin
+    .from('ledger_accounts')
+    .insert({
+      key,
+      kind: ref.kind,
+      investor_id: ref.kind === 'investor_wallet' ? owner : null,
+      campaign_id: ref.kind === 'campaign_escrow' ? owner : null,
+      startup_id: ref.kind === 'startup_payout' ? owner : null
+    })
+    .select('id')
+    .single();
+  if (insertError?.code === '23505') return accountId(admin, ref);
+  if (insertError) throw insertError;
+  return created.id;
+}
+
+/*
+ * postEntry(admin, entry, postings)
+ * - Write one journal entry and its lines. Throws if the postings do not
+ *   balance or on database errors. `duplicate` is true when an entry
+ *   with the same reference was already posted.
+ * - The entry and its lines are two requests. An entry left without lines
+ *   by a failure in between is completed by the next post of the same
+ *   reference.
+ */
+export async function postEntry(
+  admin: Admin,
+  entry: Omit<TablesInsert<'ledger_entries'>, 'id' | 'created_at'>,
+  postings: LedgerPosting[]
+): Promise<{ entry: LedgerEntryRow; duplicate: boolean }> {
+  if (!isBalanced(postings)) throw new Error(`Ledger entry ${entry.reference} does not balance`);
+
+  const lines: { account_id: string; amount: number }[] = [];
+  for (const posting of postings) lines.push({ account_id: await accountId(admin, posting.account), amount: posting.amount });
+
+  let posted: LedgerEntryRow;
+  const { data: inserted, error: insertError } = await admin.from('ledger_entries').insert(entry).select('*').single();
+  if (insertError?.code === '23505') {
+    const { data: existing, error } = await admin.from('ledger_entries').select('*').eq('reference', entry.reference).single();
+    if (error) throw error;
+    const { data: existingLines, error: linesError } = await admin.from('ledger_lines').select('id').eq('entry_id', existing.id).limit(1);
+    if (linesError) throw linesError;
+    if (existingLines && existingLines.length > 0) return { entry: existing, duplicate: true };
+    posted = existing;
+  } else if (insertError) {
+    throw insertError;
+  } else {
+    posted = inserted;
+  }
+
+  // One insert, so the database checks the entry balances as a whole.
+  const { error: linesError } = await admin.from('ledger_lines').insert(lines.map(line => ({ ...line, entry_id: posted.id })));
+  if (linesError?.code === '23505') return { entry: posted, duplicate: true };
+  if (linesError) throw linesError;
+
+  logger.info('ledger: posted', { reference: posted.reference, kind: posted.kind });
+  return { entry: posted, duplicate: false };
+}
+
+/*
+ * loadJournal(admin, filter)
+ * - Entries (oldest first) and their lines as facts, either for entries
+ *   whose `filter.column` is `filter.value` or, without a filter, the
+ *   whole ledger.
+ */
+async function loadJournal(
+  admin: Admin,
+  filter?: { column: 'investment_id' | 'payment_id' | 'campaign_id'; value: string }
+): Promise<{ entries: LedgerEntryRow[]; facts: LedgerFact[] }> {
+  const entries = await fetchAll<LedgerEntryRow>((from, to) => {
+    const query = admin.from('ledger_entries').select('*');
+    return (filter ? query.eq(filter.column, filter.value) : query).order('created_at', { ascending: true }).order('id').range(from, to);
+  });
+  if (entries.length === 0) return { entries, facts: [] };
+
+  const entryIds = entries.map(e => e.id);
+  const lines = await fetchAll<{ entry_id: string; account_id: string; amount: number }>((from, to) => {
+    const query = admin.from('ledger_lines').select('entry_id, account_id, amount');
+    return (filter ? query.in('entry_id', entryIds) : query).order('created_at', { ascending: true }).order('id').range(from, to);
+  });
+  const accountIds = [...new Set(lines.map(l => l.account_id))];
+  const accounts = await fetchAll<{ id: string; kind: LedgerAccountKind; key: string }>((from, to) => {
+    const query = admin.from('ledger_accounts').select('id, kind, key');
+    return (filter ? query.in('id', accountIds) : query).order('id').range(from, to);
+  });
+
+  const entryById = new Map(entries.map(e => [e.id, e]));
+  const accountById = new Map(accounts.map(a => [a.id, a]));
+  const facts = lines.flatMap(line => {
+    const entry = entryById.get(line.entry_id);
+    const account = accountById.get(line.account_id);
+    if (!entry || !account) return [];
+    return [
+      {
+        entry_id: entry.id,
+        entry_kind: entry.kind,
+        investment_id: entry.investment_id,
+        payment_id: entry.payment_id,
+        campaign_id: entry.campaign_id,
+        account_id: account.id,
+        account_kind: account.kind,
+        account_key: account.key,
+        amount: Number(line.amount)
+      }
+    ];
+  });
+  return { entries, facts };
+}
+
+/*
+ * syncCommitment(admin, investmentId)
+ * - Make the ledger hold the investment's amount in its campaign's
+ *   escrow while it is committed, and nothing otherwise, as
+ *   sync_ledger_commitment() in db/ledger.sql does. Returns whether
+ *   anything was posted.
+ */
+export async function syncCommitment(admin: Admin, investmentId: string): Promise<boolean> {
+  const { data: investment, error } = await admin
+    .from('investments')
+    .select('id, amount, status, campaign_id, investor_id')
+    .eq('id', investmentId)
+    .maybeSingle();
+  if (error) throw error;
+
+  const { entries, facts: allFacts } = await loadJournal(admin, { column: 'investment_id', value: investmentId });
+  const facts = allFacts.filter(f => COMMITMENT_KINDS.includes(f.entry_kind));
+  const target = investment ? commitmentTarget(investment) : null;
+  const held = commitmentHeld(facts, investmentId);
+  const nets = netByAccount(facts);
+
+  if (nets.size === 0 && !target) return false;
+  if (held && sameCommitment(target, held)) return false;
+
+  const count = (kind: string) => entries.filter(e => e.kind === kind).length;
+  const kindOf = new Map(facts.map(f => [f.account_id, f]));
+
+  if (nets.size > 0) {
+    await postEntry(
+      admin,
+      {
+        kind: 'commitment_reversal',
+        reference: `commitment_reversal:${investmentId}:${count('commitment_reversal') + 1}`,
+        description: 'Investment changed or withdrawn',
+        investment_id: investmentId,
+        campaign_id: held?.campaignId ?? null
+      },
+      [...nets].map(([id, amount]) => {
+        const fact = kindOf.get(id)!;
+        return { account: refFromKey(fact.account_kind, fact.account_key), amount: -amount };
+      })
+    );
+  }
+  if (!target) return true;
+
+  // The wallet the last commitment was made from, in case the investor
+  // profile has since gone.
+  const lastWallet = facts.filter(f => f.entry_kind === 'commitment' && f.account_kind === 'investor_wallet').pop();
+  const walletRef = investment.investor_id
+    ? wallet(investment.investor_id)
+    : lastWallet
+      ? refFromKey('investor_wallet', lastWallet.account_key)
+      : null;
+  // An investment that never had an investor cannot be posted.
+  if (!walletRef) return nets.size > 0;
+
+  await postEntry(
+    admin,
+    {
+      kind: 'commitment',
+      reference: `commitment:${investmentId}:${count('commitment') + 1}`,
+      description: 'Investment committed',
+      investment_id: investmentId,
+      campaign_id: target.campaignId
+    },
+    [
+      { account: walletRef, amount: target.amount },
+      { account: escrow(target.campaignId), amount: -target.amount }
+    ]
+  );
+  return true;
+}
+
+/*
+ * syncPayment(admin, payment)
+ * - Post whatever the payment has captured or refunded that the ledger
+ *   has not recorded yet. References carry the running total, so two
+ *   calls for the same state post once.
+ */
+export async function syncPayment(admin: Admin, payment: PaymentRow): Promise<void> {
+  const target = paymentTargets(payment);
+  const { facts } = await loadJournal(admin, { column: 'payment_id', value: payment.id });
+  const recorded = paymentRecorded(facts, payment.id);
+  if (target.paid === recorded.paid && target.refunded === recorded.refunded) return;
+
+  // The payer's wallet, and the campaign the payment is for.
+  const [{ data: investor, error: investorError }, { data: investment, error: investmentError }] = await Promise.all([
+    admin.from('investors').select('id').eq('owner_id', payment.user_id).maybeSingle(),
+    payment.investment_id
+      ? admin.from('investments').select('campaign_id').eq('id', payment.investment_id).maybeSingle()
+      : Promise.resolve({ data: null, error: null })
+  ]);
+  if (investorError) throw investorError;
+  if (investmentError) throw investmentError;
+  if (!investor) {
+    logger.warn('ledger: payment has no investor wallet', { paymentId: payment.id });
+    return;
+  }
+
+  const entry = {
+    investment_id: payment.investment_id,
+    payment_id: payment.id,
+    campaign_id: investment?.campaign_id ?? null
+  };
+  if (target.paid > recorded.paid) {
+    await postEntry(
+      admin,
+      { ...entry, kind: 'payment', reference: `payment:${payment.id}:${target.paid}`, description: 'Payment captured' },
+      paymentPostings(investor.id, target.paid - recorded.paid)
+    );
+  }
+  if (target.refunded > recorded.refunded) {
+    await postEntry(
+      admin,
+      { ...entry, kind: 'refund', reference: `refund:${payment.id}:${target.refunded}`, description: 'Payment refunded' },
+      refundPostings(investor.id, target.refunded - recorded.refunded)
+    );
+  }
+  if (target.paid < recorded.paid || target.refunded < recorded.refunded) {
+    // Payments only move forward, so this needs a person to look at it.
+    logger.warn('ledger: payment recorded above its amounts', { paymentId: payment.id, target, recorded });
+  }
+}
+
+/*
+ * refreshCampaignFunding(admin, campaignId)
+ * - Set `funding_raised` (rupees) to the commitments held in the
+ *   campaign's escrow and return it. On the hosted database a trigger
+ *   already keeps it so; this is for the local backend and repairs.
+ */
+export async function refreshCampaignFunding(admin: Admin, campaignId: string): Promise<number> {
+  const key = accountKey(escrow(campaignId));
+  const { data: account, error } = await admin.from('ledger_accounts').select('id').eq('key', key).maybeSingle();
+  if (error) throw error;
+
+  let committed = 0;
+  if (account) {
+    const lines = await fetchAll<{ entry_id: string; amount: number }>((from, to) =>
+      admin.from('ledger_lines').select('entry_id, amount').eq('account_id', account.id).order('id').range(from, to)
+    );
+    const entryIds = [...new Set(lines.map(l => l.entry_id))];
+    const { data: commitments, error: entriesError } = entryIds.length
+      ? await admin.from('ledger_entries').select('id').in('id', entryIds).in('kind', COMMITMENT_KINDS)
+      : { data: [], error: null };
+    if (entriesError) throw entriesError;
+    const counted = new Set((commitments ?? []).map(e => e.id));
+    committed = -lines.filter(l => counted.has(l.entry_id)).reduce((sum, l) => sum + Number(l.amount), 0);
+  }
+
+  const fundingRaised = committed / 100;
+  const { error: updateError } = await admin.from('fundraising_campaigns').update({ funding_raised: fundingRaised }).eq('id', campaignId);
+  if (updateError) throw updateError;
+  return fundingRaised;
+}
+
+async function isAdmin(admin: Admin, userId: string): Promise<boolean> {
+  const { data, error } = await admin.from('users').select('role').eq('id', userId).maybeSingle();
+  if (error) throw error;
+  return data?.role === 'admin' || data?.role === 'super_admin';
+}
+
+/*
+ * disburseCampaign
+ * - Admins only. Disburses `amount` paise, or everything disbursable,
+ *   from the campaign's escrow to its startup, keeping the platform fee.
+ */
+export async function disburseCampaign(
+  admin: Admin,
+  request: DisburseCampaignRequest,
+  caller: ServerCaller
+): Promise<DisburseCampaignResult> {
+  if (!caller?.userId) return { success: false, error: 'Sign in to disburse funds.' };
+  const campaignId = String(request?.campaignId || '');
+
+  try {
+    if (!(await isAdmin(admin, caller.userId))) return { success: false, error: 'Only admins can disburse funds.' };
+
+    const { data: campaign, error } = await admin
+      .from('fundraising_campaigns')
+      .select('id, startup_id, title')
+      .eq('id', campaignId)
+      .maybeSingle();
+    if (error) throw error;
+    if (!campaign?.startup_id) return { success: false, error: 'Campaign not found' };
+
+    const { entries, facts } = await loadJournal(admin, { column: 'campaign_id', value: campaign.id });
+    const available = campaignDisbursable(facts, campaign.id);
+    const amount = request?.amount === undefined ? available : Math.round(Number(request.amount));
+    if (available <= 0) return { success: false, error: 'Nothing has been paid in to disburse.' };
+    if (!(amount > 0) || amount > available) {
+      return { success: false, error: `Enter an amount up to ${formatPaise(available)}.` };
+    }
+
+    const { entry, duplicate } = await postEntry(
+      admin,
+      {
+        kind: 'disbursement',
+        reference: `disbursement:${campaign.id}:${entries.filter(e => e.kind === 'disbursement').length + 1}`,
+        description: `Disbursed to the startup for ${campaign.title}`,
+        campaign_id: campaign.id,
+        created_by: caller.userId
+      },
+      disbursementPostings(campaign.id, campaign.startup_id, amount)
+    );
+    if (duplicate) return { success: false, error: 'Another disbursement was just made. Refresh and try again.' };
+
+    logger.info('disburseCampaign', { campaignId: campaign.id, amount: formatPaise(amount), actorId: caller.userId });
+    return { success: true, entry, amount, fee: platformFee(amount) };
+  } catch (err) {
+    logger.error('disburseCampaign failed', { campaignId, err });
+    return { success: false, error: 'Could not disburse the funds. Please try again.' };
+  }
+}
+
+/*
+ * ledgerBalances
+ * - Admins only. Every account's balance (debits positive), and per
+ *   campaign what is committed and what can be disbursed.
+ */
+export async function ledgerBalances(admin: Admin, _request: unknown, caller: ServerCaller): Promise<LedgerBalancesResult> {
+  if (!caller?.userId) return { success: false, error: 'Sign in to view the ledger.' };
+
+  try {
+    if (!(await isAdmin(admin, caller.userId))) return { success: false, error: 'Only admins can view the ledger.' };
+
+    const [{ facts }, accounts, investors, campaigns, startups] = await Promise.all([
+      loadJournal(admin),
+      fetchAll<{ id: string; kind: LedgerAccountKind; investor_id: string | null; campaign_id: string | null; startup_id: string | null }>(
+        (from, to) => admin.from('ledger_accounts').select('id, kind, investor_id, campaign_id, startup_id').order('key').range(from, to)
+      ),
+      fetchAll<{ id: string; investor_name: string | null; public_id: string | null }>((from, to) =>
+        admin.from('investors').select('id, investor_name, public_id').order('id').range(from, to)
+      ),
+      fetchAll<{ id: string; title: string }>((from, to) =>
+        admin.from('fundraising_campaigns').select('id, title').order('id').range(from, to)
+      ),
+      fetchAll<{ id: string; company_name: string | null }>((from, to) =>
+        admin.from('startups').select('id, company_name').order('id').range(from, to)
+      )
+    ]);
+
+    const investorName = new Map(investors.map(i => [i.id, i.investor_name || i.public_id]));
+    const campaignTitle = new Map(campaigns.map(c => [c.id, c.title]));
+    const startupName = new Map(startups.map(s => [s.id, s.company_name]));
+    const balance = new Map<string, number>();
+    for (const fact of facts) balance.set(fact.account_id, (balance.get(fact.account_id) ?? 0) + fact.amount);
+
+    const balances: LedgerBalance[] = accounts.map(a => ({
+      accountId: a.id,
+      kind: a.kind,
+      owner:
+        (a.investor_id && investorName.get(a.investor_id)) ||
+        (a.campaign_id && campaignTitle.get(a.campaign_id)) ||
+        (a.startup_id && startupName.get(a.startup_id)) ||
+        null,
+      balance: balance.get(a.id) ?? 0
+    }));
+
+    const summaries: CampaignLedgerSummary[] = accounts
+      .filter(a => a.kind === 'campaign_escrow' && a.campaign_id)
+      .map(a => ({
+        campaignId: a.campaign_id!,
+        title: campaignTitle.get(a.campaign_id!) || 'Campaign',
+        committed: campaignCommitted(facts, a.campaign_id!),
+        disbursable: campaignDisbursable(facts, a.campaign_id!)
+      }));
+
+    return { success: true, accounts: balances, campaigns: summaries };
+  } catch (err) {
+    logger.error('ledgerBalances failed', err);
+    return { success: false, error: 'Could not load the ledger. Please try again.' };
+  }
+}
+
+/*
+ * reconcileLedger
+ * - Admins only. With `repair`, first posts every missing commitment,
+ *   payment and refund and recomputes every `funding_raised`; then
+ *   reports whatever still disagrees (utils/ledger.util.ts,
+ *   findLedgerIssues).
+ */
+export async function reconcileLedger(
+  admin: Admin,
+  request: ReconcileLedgerRequest,
+  caller: ServerCaller
+): Promise<ReconcileLedgerResult> {
+  if (!caller?.userId) return { success: false, error: 'Sign in to reconcile the ledger.' };
+
+  try {
+    if (!(await isAdmin(admin, caller.userId))) return { success: false, error: 'Only admins can reconcile the ledger.' };
+
+    const load = () =>
+      Promise.all([
+        fetchAll<PaymentRow>((from, to) => admin.from('payments').select('*').order('created_at').order('id').range(from, to)),
+        fetchAll<{ id: string; amount: number | null; status: InvestmentStatus | null; campaign_id: string | null }>((from, to) =>
+          admin.from('investments').select('id, amount, status, campaign_id').order('id').range(from, to)
+        ),
+        fetchAll<{ id: string; funding_raised: number | null }>((from, to) =>
+          admin.from('fundraising_campaigns').select('id, funding_raised').order('id').range(from, to)
+        )
+      ]);
+
+    let [payments, investments, campaigns] = await load();
+    if (request?.repair) {
+      // Investments the ledger once held may be gone; sync those too.
+      const { entries } = await loadJournal(admin);
+      const investmentIds = new Set([...investments.map(i => i.id), ...entries.map(e => e.investment_id).filter(Boolean)]);
+      for (const id of investmentIds) await syncCommitment(admin, id as string);
+      for (const payment of payments) await syncPayment(admin, payment);
+      for (const campaign of campaigns) await refreshCampaignFunding(admin, campaign.id);
+      [payments, investments, campaigns] = await load();
+      logger.info('reconcileLedger: repaired', { actorId: caller.userId });
+    }
+
+    const { facts } = await loadJournal(admin);
+    const issues = findLedgerIssues(facts, { payments, investments, campaigns });
+    logger.info('reconcileLedger', { issues: issues.length, actorId: caller.userId });
+    return {
+      success: true,
+      issues,
+      checked: { payments: payments.length, investments: investments.length, campaigns: campaigns.length }
+    };
+  } catch (err) {
+    logger.error('reconcileLedger failed', err);
+    return { success: false, error: 'Could not reconcile the ledger. Please try again.' };
+  }
+}
@@ -0,0 +1,67 @@
+/*
+ * server/lookupGstin.ts
+ *
+ * Purpose: look a GSTIN up on the GST register and return the legal name
+ * and registration status. The GSTIN is checked locally first
+ * (utils/gst.util.ts) so malformed numbers never reach the provider
+ * (server/gstProviders.ts).
+ *
+ * Runs in-process on the local backend and as the `lookup-gstin`
+ * Supabase Edge Function, which keeps the provider's credentials off the
+ * device. Nothing is stored; the profile form shows the answer.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../services/data/database.types';
+import type { ServerCaller } from './index';
+import { GstTaxpayer, gstProvider } from './gstProviders';
+import { checkGstin } from '../utils/gst.util';
+import { logger } from '../utils/logger';
+
+export type LookupGstinRequest = {
+  gstin: string;
+};
+
+export type LookupGstinResult =
+  | { success: true; taxpayer: GstTaxpayer; stateName: string }
+  | { success: false; error: string };
+
+const UNAVAILABLE = 'GST lookup is unavailable right now. Please try again later.';
+
+/*
+ * lookupGstin
+ * - Only for signed-in callers, since each lookup may cost a provider
+ *   call.
+ * - A GSTIN the register does not know is an error, like a malformed one.
+ */
+export async function lookupGstin(
+  _admin: SupabaseClient<Database>,
+  request: LookupGstinRequest,
+  caller: ServerCaller
+): Promise<LookupGstinResult> {
+  if (!caller?.userId) return { success: false, error: 'Sign in to look up a GSTIN.' };
+
+  const check = checkGstin(request?.gstin);
+  if (check.valid === false) return { success: false, error: check.error };
+
+  const provider = gstProvider();
+  if (!provider) {
+    logger.error('lookupGstin: no provider configured');
+    return { success: false, error: UNAVAILABLE };
+  }
+
+  try {
+    const outcome = await provider.lookup(check.gstin);
+    if (outcome.ok === false) {
+      logger.warn('lookupGstin: provider could not answer', { provider: provider.name, error: outcome.error });
+      return { success: false, error: UNAVAILABLE };
+    }
+    if (!outcome.taxpayer) {
+      return { success: false, error: 'No taxpayer is registered with this GSTIN.' };
+    }
+    return { success: true, taxpayer: outcome.taxpayer, stateName: check.stateName };
+  } catch (err) {
+    logger.error('lookupGstin failed', err);
+    return { success: false, error: UNAVAILABLE };
+  }
+}
@@ -0,0 +1,113 @@
+/*
+ * server/matchContacts.ts
+ *
+ * Purpose: hand out contact details once a startup and an investor have
+ * matched (db/matches.sql). Given a match id, it returns the *other*
+ * party's email and phone number, plus their public links.
+ *
+ * Profile screens do not show these details, and an account email is
+ * only readable by its owner, so this is where contact details are
+ * revealed. It runs in-process on the local backend and as the
+ * `match-contacts` Supabase Edge Function on the hosted project.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../services/data/database.types';
+import type { ServerCaller } from './index';
+import { logger } from '../utils/logger';
+
+export type MatchContactsRequest = { matchId: string };
+
+export type MatchContact = {
+  name: string;
+  email: string | null;
+  phone: string | null;
+  website: string | null;
+  linkedinUrl: string | null;
+};
+
+export type MatchContactsResult =
+  | { success: true; contact: MatchContact }
+  | { success: false; error: string };
+
+const NOT_FOUND = 'Match not found';
+const TRY_AGAIN = 'Could not load contact details. Please try again.';
+
+/*
+ * matchContacts
+ * - `admin` must be a service-role client; the caller is checked here
+ *   against both sides of the match.
+ * - Someone who is not part of the match gets the same answer as for a
+ *   missing match.
+ */
+export async function matchContacts(
+  admin: SupabaseClient<Database>,
+  request: MatchContactsRequest,
+  caller: ServerCaller
+): Promise<MatchContactsResult> {
+  if (!caller?.userId) return { success: false, error: 'Sign in to see contact details.' };
+
+  const matchId = String(request?.matchId || '');
+  if (!matchId) return { success: false, error: NOT_FOUND };
+
+  try {
+    const { data: match, error: matchError } = await admin
+      .from('matches')
+      .select('*')
+      .eq('id', matchId)
+      .maybeSingle();
+    if (matchError) throw matchError;
+    if (!match) return { success: false, error: NOT_FOUND };
+
+    const [{ data: startup, error: startupError }, { data: investor, error: investorError }] = await Promise.all([
+      admin.from('startups').select('id, owner_id, company_name, email, website').eq('id', match.startup_id).maybeSingle(),
+      admin
+        .from('investors')
+        .select('id, owner_id, investor_name, company_name, phone_number, website, linkedin_url')
+        .eq('id', match.investor_id)
+        .maybeSingle()
+    ]);
+    if (startupError) throw startupError;
+    if (investorError) throw investorError;
+    if (!startup || !investor) return { success: false, error: NOT_FOUND };
+
+    const callerIsStartup = startup.owner_id === caller.userId;
+    const callerIsInvestor = investor.owner_id === caller.userId;
+    if (!callerIsStartup && !callerIsInvestor) return { success: false, error: NOT_FOUND };
+
+    // The startup sees the investor's details and vice versa.
+    const otherOwnerId = callerIsStartup ? investor.owner_id : startup.owner_id;
+    let accountEmail: string | null = null;
+    if (otherOwnerId) {
+      const { data: owner, error: ownerError } = await admin
+        .from('users')
+        .select('email')
+        .eq('id', otherOwnerId)
+        .maybeSingle();
+      if (ownerError) throw ownerError;
+      accountEmail = owner?.email ?? null;
+    }
+
+    const contact: MatchContact = callerIsStartup
+      ? {
+          name: investor.investor_name || investor.company_name || 'Investor',
+          email: accountEmail,
+          phone: investor.phone_number,
+          website: investor.website,
+          linkedinUrl: investor.linkedin_url
+        }
+      : {
+          name: startup.company_name,
+          // The company's contact address when it has one.
+          email: startup.email || accountEmail,
+          phone: null,
+          website: startup.website,
+          linkedinUrl: null
+        };
+
+    return { success: true, contact };
+  } catch (err) {
+    logger.error('matchContacts: lookup failed', { matchId, err });
+    return { success: false, error: TRY_AGAIN };
+  }
+}
@@ -0,0 +1,165 @@
+/*
+ * server/notificationDelivery.ts
+ *
+ * Purpose: turn rendered notifications into inbox rows and deliveries.
+ * For each recipient it:
+ *
+ * 1. loads their preferences (defaults when they have never saved any),
+ * 2. drops types they muted,
+ * 3. stores the notification, hidden from the inbox if in-app is off,
+ *    unless they already have one with the same `key`,
+ * 4. pushes to every registered device if push is on,
+ * 5. emails now, or leaves the email pending for their digest.
+ *
+ * Only newly stored notifications are pushed or emailed, so reporting
+ * the same event again reaches nobody twice.
+ *
+ * Every push and email is recorded in `notification_deliveries`. Sending
+ * is best effort: a failed send is recorded and logged, never reported
+ * back to whoever triggered the event.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Json, NotificationType, TablesInsert } from '../services/data/database.types';
+import { channelsFor, DEFAULT_PREFERENCES, NotificationPreferences } from '../utils/notification.util';
+import { logger } from '../utils/logger';
+import { notificationTransports, NotificationTransports, PushMessage } from './notificationTransports';
+
+export type NotificationDraft = {
+  userId: string;
+  type: NotificationType;
+  // The occurrence being reported, e.g. `interest.submitted:<interest id>`.
+  key: string;
+  title: string;
+  body: string;
+  // Ids the app needs to open the related screen.
+  data?: Record<string, string>;
+};
+
+/*
+ * deliverNotifications
+ * - Returns how many notifications were stored (muted ones and ones the
+ *   recipient already had are not).
+ * - Throws only when the inbox rows cannot be written.
+ */
+export async function deliverNotifications(
+  admin: SupabaseClient<Database>,
+  drafts: NotificationDraft[],
+  transports: NotificationTransports = notificationTransports()
+): Promise<number> {
+  if (drafts.length === 0) return 0;
+  const userIds = [...new Set(drafts.map(d => d.userId))];
+
+  const [{ data: prefRows, error: prefError }, { data: users, error: userError }] = await Promise.all([
+    admin.from('notification_preferences').select('*').in('user_id', userIds),
+    admin.from('users').select('id, email').in('id', userIds)
+  ]);
+  if (prefError) throw prefError;
+  if (userError) throw userError;
+
+  const preferencesOf = (userId: string): NotificationPreferences =>
+    (prefRows ?? []).find(p => p.user_id === userId) ?? DEFAULT_PREFERENCES;
+  const emailOf = (userId: string) => (users ?? []).find(u => u.id === userId)?.email || null;
+
+  const wanted = drafts
+    .map(draft => ({ draft, plan: channelsFor(preferencesOf(draft.userId), draft.type) }))
+    .filter((p): p is { draft: NotificationDraft; plan: NonNullable<typeof p.plan> } => p.plan !== null);
+  if (wanted.length === 0) return 0;
+
+  // Rows that already exist are skipped, so only new ones come back.
+  const { data: inserted, error: insertError } = await admin
+    .from('notifications')
+    .upsert(
+      wanted.map(({ draft, plan }) => ({
+        user_id: draft.userId,
+        type: draft.type,
+        event_key: draft.key,
+        title: draft.title,
+        body: draft.body,
+        data: (draft.data ?? {}) as Json,
+        in_app: plan.inApp
+      })),
+      { onConflict: 'user_id,event_key', ignoreDuplicates: true }
+    )
+    .select('*');
+  if (insertError) throw insertError;
+
+  const storedFor = (draft: NotificationDraft) =>
+    (inserted ?? []).find(n => n.user_id === draft.userId && n.event_key === draft.key);
+  const planned = wanted.filter(({ draft }) => storedFor(draft));
+  if (planned.length === 0) return 0;
+  const stored = planned.map(({ draft }) => storedFor(draft));
+
+  const deliveries: TablesInsert<'notification_deliveries'>[] = [];
+  const sentAt = new Date().toISOString();
+
+  // Push: one message per device of every recipient who wants push.
+  const pushUsers = [...new Set(planned.filter(p => p.plan.push).map(p => p.draft.userId))];
+  const { data: tokens, error: tokenError } = pushUsers.length
+    ? await admin.from('push_tokens').select('user_id, token').in('user_id', pushUsers)
+    : { data: [], error: null };
+  if (tokenError) logger.error('deliverNotifications: push token lookup failed', tokenError);
+
+  const pushes: { message: PushMessage; notificationId: string; userId: string }[] = [];
+  planned.forEach(({ draft, plan }, i) => {
+    const notification = stored?.[i];
+    if (!notification || !plan.push) return;
+    for (const t of (tokens ?? []).filter(t => t.user_id === draft.userId)) {
+      pushes.push({
+        message: { to: t.token, title: draft.title, body: draft.body, data: { ...draft.data, notificationId: notification.id } },
+        notificationId: notification.id,
+        userId: draft.userId
+      });
+    }
+  });
+
+  if (pushes.length > 0) {
+    const outcomes = await transports.sendPush(pushes.map(p => p.message));
+    const unregistered: string[] = [];
+    pushes.forEach((push, i) => {
+      const outcome = outcomes[i] ?? { ok: false, error: 'No result' };
+      deliveries.push({
+        notification_id: push.notificationId,
+        user_id: push.userId,
+        channel: 'push',
+        status: outcome.ok ? 'sent' : 'failed',
+        error: outcome.ok === false ? outcome.error : null,
+        sent_at: outcome.ok ? sentAt : null
+      });
+      if (outcome.ok === false && outcome.unregistered) unregistered.push(push.message.to);
+    });
+    if (unregistered.length > 0) {
+      const { error } = await admin.from('push_tokens').delete().in('token', unregistered);
+      if (error) logger.error('deliverNotifications: failed to remove stale push tokens', error);
+    }
+  }
+
+  // Email: immediately, or pending until the recipient's digest goes out.
+  for (const [i, { draft, plan }] of planned.entries()) {
+    const notification = stored?.[i];
+    if (!notification || !plan.email) continue;
+    const base = { notification_id: notification.id, user_id: draft.userId, channel: 'email' as const };
+    const to = emailOf(draft.userId);
+
+    if (!to) {
+      deliveries.push({ ...base, status: 'skipped', error: 'No email address' });
+    } else if (plan.email !== 'immediate') {
+      deliveries.push({ ...base, status: 'pending', digest: plan.email });
+    } else {
+      const outcome = await transports.sendEmail({ to, subject: draft.title, text: draft.body });
+      deliveries.push({
+        ...base,
+        status: outcome.ok ? 'sent' : 'failed',
+        error: outcome.ok === false ? outcome.error : null,
+        sent_at: outcome.ok ? new Date().toISOString() : null
+      });
+    }
+  }
+
+  if (deliveries.length > 0) {
+    const { error } = await admin.from('notification_deliveries').insert(deliveries);
+    if (error) logger.error('deliverNotifications: failed to record deliveries', error);
+  }
+
+  return planned.length;
+}
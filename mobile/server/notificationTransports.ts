@@ -0,0 +1,147 @@
+/*
+ * server/notificationTransports.ts
+ *
+ * Purpose: how push and email notifications leave the server.
+ *
+ * - The stub transport (the default) sends nothing: it logs each message
+ *   and keeps it in `stubOutbox`, so the whole pipeline runs on the local
+ *   backend and in tests without external accounts.
+ * - With NOTIFICATION_TRANSPORT=live, push goes to the Expo push service
+ *   (EXPO_ACCESS_TOKEN is sent when set) and email to Resend, which needs
+ *   RESEND_API_KEY and EMAIL_FROM. Live email without those falls back to
+ *   the stub with a warning.
+ *
+ * Settings are read from the Edge Function's environment on the hosted
+ * project and from process.env elsewhere.
+ */
+
+import { chunk } from '../utils/notification.util';
+import { logger } from '../utils/logger';
+import { readEnv } from './env';
+
+export type PushMessage = {
+  to: string;
+  title: string;
+  body: string;
+  data?: Record<string, unknown>;
+};
+
+export type EmailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+};
+
+// One result per message, in the order sent. `unregistered` marks push
+// tokens Expo no longer recognises, which the caller should forget.
+export type SendOutcome = { ok: true } | { ok: false; error: string; unregistered?: boolean };
+
+export type NotificationTransports = {
+  sendPush(messages: PushMessage[]): Promise<SendOutcome[]>;
+  sendEmail(message: EmailMessage): Promise<SendOutcome>;
+};
+
+const EXPO_PUSH_URL = 'https://exp.host/--/api/v2/push/send';
+const EXPO_BATCH_SIZE = 100;
+const RESEND_URL = 'https://api.resend.com/emails';
+
+// Everything the stub transport was asked to send since the last reset.
+export const stubOutbox: { push: PushMessage[]; email: EmailMessage[] } = { push: [], email: [] };
+
+export function resetStubOutbox(): void {
+  stubOutbox.push = [];
+  stubOutbox.email = [];
+}
+
+const stubPush: NotificationTransports['sendPush'] = async messages => {
+  stubOutbox.push.push(...messages);
+  logger.info('notifications: push (stub)', { count: messages.length });
+  return messages.map(() => ({ ok: true }));
+};
+
+const stubEmail: NotificationTransports['sendEmail'] = async message => {
+  stubOutbox.email.push(message);
+  logger.info('notifications: email (stub)', { to: message.to, subject: message.subject });
+  return { ok: true };
+};
+
+export const stubTransports: NotificationTransports = { sendPush: stubPush, sendEmail: stubEmail };
+
+async function sendExpoPush(messages: PushMessage[]): Promise<SendOutcome[]> {
+  const accessToken = readEnv('EXPO_ACCESS_TOKEN');
+  const outcomes: SendOutcome[] = [];
+
+  for (const batch of chunk(messages, EXPO_BATCH_SIZE)) {
+    try {
+      const response = await fetch(EXPO_PUSH_URL, {
+        method: 'POST',
+        headers: {
+          Accept: 'application/json',
+          'Content-Type': 'application/json',
+          ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {})
+        },
+        body: JSON.stringify(batch.map(m => ({ ...m, sound: 'default' })))
+      });
+      if (!response.ok) {
+        const error = `Expo push failed with ${response.status}`;
+        outcomes.push(...batch.map(() => ({ ok: false as const, error })));
+        continue;
+      }
+      // Expo answers with one ticket per message, in order.
+      const { data: tickets = [] } = await response.json();
+      batch.forEach((_, i) => {
+        const ticket = tickets[i];
+        if (ticket?.status === 'ok') {
+          outcomes.push({ ok: true });
+        } else {
+          outcomes.push({
+            ok: false,
+            error: ticket?.message || 'No ticket returned',
+            unregistered: ticket?.details?.error === 'DeviceNotRegistered'
+          });
+        }
+      });
+    } catch (err: any) {
+      const error = err?.message || 'Expo push request failed';
+      outcomes.push(...batch.map(() => ({ ok: false as const, error })));
+    }
+  }
+  return outcomes;
+}
+
+function resendEmail(apiKey: string, from: string): NotificationTransports['sendEmail'] {
+  return async message => {
+    try {
+      const response = await fetch(RESEND_URL, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${apiKey}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ from, to: [message.to], subject: message.subject, text: message.text })
+      });
+      if (!response.ok) return { ok: false, error: `Email failed with ${response.status}` };
+      return { ok: true };
+    } catch (err: any) {
+      return { ok: false, error: err?.message || 'Email request failed' };
+    }
+  };
+}
+
+let override: NotificationTransports | null = null;
+
+// Replace the transports, e.g. with a recording fake in a test. Pass
+// null to go back to the environment's choice.
+export function setNotificationTransports(transports: NotificationTransports | null): void {
+  override = transports;
+}
+
+export function notificationTransports(): NotificationTransports {
+  if (override) return override;
+  if (readEnv('NOTIFICATION_TRANSPORT') !== 'live') return stubTransports;
+
+  const apiKey = readEnv('RESEND_API_KEY');
+  const from = readEnv('EMAIL_FROM');
+  if (!apiKey || !from) logger.warn('notifications: RESEND_API_KEY or EMAIL_FROM missing; email is stubbed');
+  return {
+    sendPush: sendExpoPush,
+    sendEmail: apiKey && from ? resendEmail(apiKey, from) : stubEmail
+  };
+}
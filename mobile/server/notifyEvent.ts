@@ -0,0 +1,346 @@
+/*
+ * server/notifyEvent.ts
+ *
+ * Purpose: notify the people affected by something that just happened.
+ * The app reports the event and the record it concerns; this function
+ * checks the caller could have caused it, works out the recipients and
+ * the wording from the database, and hands them to
+ * server/notificationDelivery.ts. Clients never choose recipients or
+ * text, so they cannot message arbitrary users.
+ *
+ * Events:
+ * - interest.submitted: the caller, an investor, expressed interest in
+ *   a campaign; the startup is told.
+ * - startup.verification: an admin changed a startup's verification;
+ *   the startup is told. Caller: an admin.
+ * - campaign.status_changed: the campaign's latest status change.
+ *   Caller: its owner or an admin. Admins hear about submissions for
+ *   review, the owner hears about changes someone else made, and
+ *   interested investors hear when a live round pauses, resumes, closes
+ *   or is cancelled.
+ * - campaign.update_posted: the caller posted an update on their own
+ *   campaign. Investors with an interest in it are told; for a public
+ *   update, so are investors who saved the campaign.
+ * - user.role_changed: a super admin changed someone's role; they are
+ *   told. Caller: a super admin.
+ *
+ * Each notification carries a key naming the occurrence (the interest,
+ * the status change, the update, the audit event), so calling again for
+ * the same event notifies no one twice.
+ *
+ * Runs with the service role: in-process on the local backend and as the
+ * `notify-event` Supabase Edge Function on the hosted project.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { AuditAction, CampaignStatus, Database, NotificationType } from '../services/data/database.types';
+import type { ServerCaller } from './index';
+import { NotificationFacts, renderNotification } from '../utils/notification.util';
+import { logger } from '../utils/logger';
+import { deliverNotifications, NotificationDraft } from './notificationDelivery';
+
+export type NotifyEventRequest =
+  | { type: 'interest.submitted'; campaignId: string }
+  | { type: 'startup.verification'; startupId: string }
+  | { type: 'campaign.status_changed'; campaignId: string }
+  | { type: 'campaign.update_posted'; updateId: string }
+  | { type: 'user.role_changed'; userId: string };
+
+export type NotifyEventResult = { success: true; notified: number } | { success: false; error: string };
+
+type Admin = SupabaseClient<Database>;
+type Recipients = { drafts: NotificationDraft[] } | { error: string };
+
+// Statuses interested investors hear about. Resuming is a move to
+// `active` from `paused`.
+const INVESTOR_VISIBLE: CampaignStatus[] = ['paused', 'completed', 'cancelled'];
+
+const NOT_FOUND = 'Nothing to notify about';
+const TRY_AGAIN = 'Could not send notifications. Please try again.';
+
+function draft(userId: string, key: string, facts: NotificationFacts, data: Record<string, string>): NotificationDraft {
+  return { userId, type: facts.type, key: `${facts.type}:${key}`, ...renderNotification(facts), data };
+}
+
+// The latest audit event for an admin action on the target, which names
+// the decision being reported.
+async function latestAuditEvent(admin: Admin, actions: AuditAction[], targetId: string): Promise<string | null> {
+  const { data, error } = await admin
+    .from('audit_events')
+    .select('id')
+    .in('action', actions)
+    .eq('target_id', targetId)
+    .order('created_at', { ascending: false })
+    .limit(1);
+  if (error) throw error;
+  return data?.[0]?.id ?? null;
+}
+
+async function roleOf(admin: Admin, userId: string) {
+  const { data, error } = await admin.from('users').select('role').eq('id', userId).maybeSingle();
+  if (error) throw error;
+  return data?.role ?? null;
+}
+
+const isAdminRole = (role: string | null) => role === 'admin' || role === 'super_admin';
+
+async function startupOwner(admin: Admin, startupId: string | null) {
+  if (!startupId) return null;
+  const { data, error } = await admin
+    .from('startups')
+    .select('id, owner_id, company_name')
+    .eq('id', startupId)
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+// The users behind every investor profile with an interest in the
+// campaign.
+async function interestedInvestorOwners(admin: Admin, campaignId: string): Promise<Set<string>> {
+  const { data: interests, error } = await admin
+    .from('campaign_interests')
+    .select('investor_id')
+    .eq('campaign_id', campaignId);
+  if (error) throw error;
+  const investorIds = [...new Set((interests ?? []).map(i => i.investor_id).filter((id): id is string => !!id))];
+  if (investorIds.length === 0) return new Set();
+
+  const { data: investors, error: investorError } = await admin
+    .from('investors')
+    .select('owner_id')
+    .in('id', investorIds);
+  if (investorError) throw investorError;
+  return new Set((investors ?? []).map(i => i.owner_id).filter((id): id is string => !!id));
+}
+
+async function interestSubmitted(admin: Admin, campaignId: string, callerId: string): Promise<Recipients> {
+  // The caller's own interest in the campaign.
+  const { data: investors, error: investorError } = await admin
+    .from('investors')
+    .select('id, investor_name, company_name')
+    .eq('owner_id', callerId);
+  if (investorError) throw investorError;
+  const investorIds = (investors ?? []).map(i => i.id);
+  if (investorIds.length === 0) return { error: NOT_FOUND };
+
+  const { data: interests, error } = await admin
+    .from('campaign_interests')
+    .select('id, investor_id, proposed_investment')
+    .eq('campaign_id', campaignId)
+    .in('investor_id', investorIds)
+    .limit(1);
+  if (error) throw error;
+  const interest = interests?.[0];
+  const investor = (investors ?? []).find(i => i.id === interest?.investor_id);
+  if (!interest || !investor) return { error: NOT_FOUND };
+
+  const { data: campaign, error: campaignError } = await admin
+    .from('fundraising_campaigns')
+    .select('id, title, startup_id')
+    .eq('id', campaignId)
+    .maybeSingle();
+  if (campaignError) throw campaignError;
+  const startup = await startupOwner(admin, campaign?.startup_id ?? null);
+  if (!campaign || !startup?.owner_id) return { error: NOT_FOUND };
+
+  return {
+    drafts: [
+      draft(
+        startup.owner_id,
+        interest.id,
+        {
+          type: 'interest.submitted',
+          investorName: investor.investor_name || investor.company_name || 'An investor',
+          campaignTitle: campaign.title,
+          amount: interest.proposed_investment
+        },
+        { campaignId: campaign.id, interestId: interest.id }
+      )
+    ]
+  };
+}
+
+async function startupVerification(admin: Admin, startupId: string, callerId: string): Promise<Recipients> {
+  if (!isAdminRole(await roleOf(admin, callerId))) return { error: 'Only admins can do this.' };
+
+  const { data: startup, error } = await admin
+    .from('startups')
+    .select('id, owner_id, company_name, verification_status')
+    .eq('id', startupId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!startup?.owner_id) return { error: NOT_FOUND };
+  const status = startup.verification_status || 'pending';
+  const decision = (await latestAuditEvent(admin, ['startup.verify', 'startup.unverify'], startup.id)) ?? status;
+
+  return {
+    drafts: [
+      draft(
+        startup.owner_id,
+        `${startup.id}:${decision}`,
+        { type: 'startup.verification', companyName: startup.company_name, status },
+        { startupId: startup.id }
+      )
+    ]
+  };
+}
+
+async function campaignStatusChanged(admin: Admin, campaignId: string, callerId: string): Promise<Recipients> {
+  const { data: campaign, error } = await admin
+    .from('fundraising_campaigns')
+    .select('id, title, startup_id, status')
+    .eq('id', campaignId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!campaign) return { error: NOT_FOUND };
+
+  const startup = await startupOwner(admin, campaign.startup_id);
+  const callerIsAdmin = isAdminRole(await roleOf(admin, callerId));
+  if (startup?.owner_id !== callerId && !callerIsAdmin) return { error: NOT_FOUND };
+
+  // Worded from the recorded change rather than anything the caller says.
+  const { data: history, error: historyError } = await admin
+    .from('campaign_status_history')
+    .select('id, from_status, to_status, note')
+    .eq('campaign_id', campaign.id)
+    .order('created_at', { ascending: false })
+    .limit(1);
+  if (historyError) throw historyError;
+  const change = history?.[0];
+  if (!change || change.to_status !== campaign.status) return { error: NOT_FOUND };
+
+  const from: CampaignStatus = change.from_status || 'draft';
+  const to = change.to_status;
+  const base = { type: 'campaign.status_changed' as const, campaignTitle: campaign.title, from, to, note: change.note };
+  const data = { campaignId: campaign.id };
+  const key = change.id;
+  const drafts: NotificationDraft[] = [];
+
+  if (to === 'pending_review') {
+    const { data: admins, error: adminError } = await admin
+      .from('users')
+      .select('id')
+      .in('role', ['admin', 'super_admin']);
+    if (adminError) throw adminError;
+    for (const a of admins ?? []) {
+      if (a.id !== callerId) drafts.push(draft(a.id, key, { ...base, audience: 'admin' }, data));
+    }
+  }
+
+  if (startup?.owner_id && startup.owner_id !== callerId) {
+    drafts.push(draft(startup.owner_id, key, { ...base, audience: 'owner' }, data));
+  }
+
+  if (INVESTOR_VISIBLE.includes(to) || (from === 'paused' && to === 'active')) {
+    const owners = await interestedInvestorOwners(admin, campaign.id);
+    owners.forEach(ownerId => {
+      if (ownerId !== callerId) drafts.push(draft(ownerId, key, { ...base, audience: 'investor' }, data));
+    });
+  }
+
+  return { drafts };
+}
+
+async function campaignUpdatePosted(admin: Admin, updateId: string, callerId: string): Promise<Recipients> {
+  const { data: update, error } = await admin
+    .from('campaign_updates')
+    .select('id, campaign_id, title, is_public')
+    .eq('id', updateId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!update?.campaign_id) return { error: NOT_FOUND };
+
+  const { data: campaign, error: campaignError } = await admin
+    .from('fundraising_campaigns')
+    .select('id, title, startup_id')
+    .eq('id', update.campaign_id)
+    .maybeSingle();
+  if (campaignError) throw campaignError;
+  const startup = await startupOwner(admin, campaign?.startup_id ?? null);
+  if (!campaign || !startup || startup.owner_id !== callerId) return { error: NOT_FOUND };
+
+  const followers = await interestedInvestorOwners(admin, campaign.id);
+  // Private updates stay with investors who have an interest, matching
+  // who may read them.
+  if (update.is_public !== false) {
+    const { data: saved, error: savedError } = await admin
+      .from('saved_items')
+      .select('owner_id')
+      .eq('campaign_id', campaign.id);
+    if (savedError) throw savedError;
+    (saved ?? []).forEach(s => s.owner_id && followers.add(s.owner_id));
+  }
+  followers.delete(callerId);
+
+  const facts: NotificationFacts = {
+    type: 'campaign.update_posted',
+    companyName: startup.company_name,
+    campaignTitle: campaign.title,
+    updateTitle: update.title
+  };
+  return { drafts: [...followers].map(userId => draft(userId, update.id, facts, { campaignId: campaign.id, updateId: update.id })) };
+}
+
+async function userRoleChanged(admin: Admin, userId: string, callerId: string): Promise<Recipients> {
+  if ((await roleOf(admin, callerId)) !== 'super_admin') return { error: 'Only a super admin can do this.' };
+
+  const { data: user, error } = await admin.from('users').select('id, role').eq('id', userId).maybeSingle();
+  if (error) throw error;
+  if (!user) return { error: NOT_FOUND };
+  const change = (await latestAuditEvent(admin, ['user.promote', 'user.role_change'], user.id)) ?? user.role ?? 'none';
+
+  return { drafts: [draft(user.id, `${user.id}:${change}`, { type: 'user.role_changed', role: user.role }, {})] };
+}
+
+const HANDLERS: Record<NotificationType, (admin: Admin, id: string, callerId: string) => Promise<Recipients>> = {
+  'interest.submitted': interestSubmitted,
+  'startup.verification': startupVerification,
+  'campaign.status_changed': campaignStatusChanged,
+  'campaign.update_posted': campaignUpdatePosted,
+  'user.role_changed': userRoleChanged
+};
+
+function targetId(request: NotifyEventRequest): string {
+  switch (request.type) {
+    case 'startup.verification':
+      return String(request.startupId || '');
+    case 'interest.submitted':
+    case 'campaign.status_changed':
+      return String(request.campaignId || '');
+    case 'campaign.update_posted':
+      return String(request.updateId || '');
+    case 'user.role_changed':
+      return String(request.userId || '');
+  }
+}
+
+/*
+ * notifyEvent
+ * - `admin` must be a service-role client; the caller is checked here
+ *   because RLS does not apply to it.
+ * - Expected failures come back as `{ success: false, error }`.
+ */
+export async function notifyEvent(
+  admin: Admin,
+  request: NotifyEventRequest,
+  caller: ServerCaller
+): Promise<NotifyEventResult> {
+  if (!caller?.userId) return { success: false, error: 'Sign in first.' };
+
+  const handler = HANDLERS[request?.type as NotificationType];
+  if (!handler) return { success: false, error: 'Unknown event' };
+  const id = targetId(request);
+  if (!id) return { success: false, error: NOT_FOUND };
+
+  try {
+    const recipients = await handler(admin, id, caller.userId);
+    if ('error' in recipients) return { success: false, error: recipients.error };
+    const notified = await deliverNotifications(admin, recipients.drafts);
+    logger.info('notifyEvent', { type: request.type, id, notified });
+    return { success: true, notified };
+  } catch (err) {
+    logger.error('notifyEvent failed', { type: request.type, id, err });
+    return { success: false, error: TRY_AGAIN };
+  }
+}
@@ -0,0 +1,183 @@
+/*
+ * server/openCampaignDocument.ts
+ *
+ * Purpose: hand out a link to one data room document. Files sit in the
+ * private campaign-documents bucket with no read policy, so this is the
+ * only way to open one. Given a document and whether the caller wants
+ * to view or download it, it:
+ *
+ * 1. checks the caller may open it (utils/document.util.ts, the same
+ *    rule as the "Campaign documents access" policy),
+ * 2. for anyone but the startup, stamps their name and email on each
+ *    page of a PDF (utils/watermark.util.ts) and stores that copy,
+ * 3. signs a link to the file that expires after
+ *    DOCUMENT_LINK_TTL_SECONDS,
+ * 4. records the access in `document_access_logs`.
+ *
+ * Other file types are handed out as uploaded; the log notes they were
+ * not watermarked. Documents that are only a typed-in link are logged
+ * and returned as they are.
+ *
+ * Runs in-process on the local backend and as the
+ * `open-campaign-document` Supabase Edge Function on the hosted project.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, DocumentAccessAction, InterestStatus } from '../services/data/database.types';
+import type { ServerCaller } from './index';
+import {
+  canOpenDocument,
+  DATA_ROOM_STAGES,
+  DOCUMENT_BUCKET,
+  DOCUMENT_LINK_TTL_SECONDS,
+  isPdf,
+  viewerCopyPath,
+  viewerLabel,
+  watermarkText
+} from '../utils/document.util';
+import { uuidv4 } from '../utils/id.util';
+import { logger } from '../utils/logger';
+import { watermarkPdf } from '../utils/watermark.util';
+
+export type OpenCampaignDocumentRequest = {
+  documentId: string;
+  action?: DocumentAccessAction;
+};
+
+export type OpenCampaignDocumentResult =
+  | { success: true; url: string; expiresAt: string | null; watermarked: boolean }
+  | { success: false; error: string };
+
+type Admin = SupabaseClient<Database>;
+
+const NOT_FOUND = 'Document not found';
+const NO_ACCESS = 'This document is shared once the startup has been in touch with you.';
+const TRY_AGAIN = 'Could not open the document. Please try again.';
+
+// Who the caller is, for the access check and the watermark.
+async function describeCaller(admin: Admin, userId: string, campaignId: string) {
+  const { data: user, error } = await admin.from('users').select('id, email, role').eq('id', userId).maybeSingle();
+  if (error) throw error;
+
+  const { data: investors, error: investorError } = await admin
+    .from('investors')
+    .select('id, investor_name, company_name')
+    .eq('owner_id', userId);
+  if (investorError) throw investorError;
+
+  // The furthest stage of any of the caller's interests in the campaign.
+  let interestStatus: InterestStatus | null = null;
+  const investorIds = (investors ?? []).map(i => i.id);
+  if (investorIds.length > 0) {
+    const { data: interests, error: interestError } = await admin
+      .from('campaign_interests')
+      .select('status')
+      .eq('campaign_id', campaignId)
+      .in('investor_id', investorIds);
+    if (interestError) throw interestError;
+    const statuses = (interests ?? []).map(i => i.status || 'pending');
+    interestStatus = statuses.find(s => DATA_ROOM_STAGES.includes(s)) ?? statuses[0] ?? null;
+  }
+
+  const investor = investors?.[0];
+  const name = investor?.investor_name || investor?.company_name || user?.email || 'Unknown viewer';
+  return {
+    email: user?.email ?? null,
+    name,
+    isAdmin: user?.role === 'admin' || user?.role === 'super_admin',
+    interestStatus
+  };
+}
+
+/*
+ * openCampaignDocument
+ * - `admin` must be a service-role client; access is checked here
+ *   against `caller` because RLS does not apply to it.
+ * - Expected failures come back as `{ success: false, error }`.
+ */
+export async function openCampaignDocument(
+  admin: Admin,
+  request: OpenCampaignDocumentRequest,
+  caller: ServerCaller
+): Promise<OpenCampaignDocumentResult> {
+  if (!caller?.userId) return { success: false, error: 'Sign in to open documents.' };
+  const documentId = String(request?.documentId || '');
+  const action: DocumentAccessAction = request?.action === 'download' ? 'download' : 'view';
+  if (!documentId) return { success: false, error: NOT_FOUND };
+
+  try {
+    const { data: document, error } = await admin
+      .from('campaign_documents')
+      .select('*')
+      .eq('id', documentId)
+      .maybeSingle();
+    if (error) throw error;
+    if (!document?.campaign_id) return { success: false, error: NOT_FOUND };
+
+    const { data: campaign, error: campaignError } = await admin
+      .from('fundraising_campaigns')
+      .select('id, startup_id')
+      .eq('id', document.campaign_id)
+      .maybeSingle();
+    if (campaignError) throw campaignError;
+    if (!campaign) return { success: false, error: NOT_FOUND };
+
+    const { data: startup, error: startupError } = campaign.startup_id
+      ? await admin.from('startups').select('owner_id').eq('id', campaign.startup_id).maybeSingle()
+      : { data: null, error: null };
+    if (startupError) throw startupError;
+
+    const viewer = await describeCaller(admin, caller.userId, campaign.id);
+    const isOwner = !!startup?.owner_id && startup.owner_id === caller.userId;
+    if (!canOpenDocument(document, { ...viewer, isOwner })) return { success: false, error: NO_ACCESS };
+
+    const accessId = uuidv4();
+    let url = document.file_url;
+    let expiresAt: string | null = null;
+    let watermarked = false;
+
+    if (document.storage_path) {
+      const files = admin.storage.from(DOCUMENT_BUCKET);
+      let path = document.storage_path;
+
+      if (!isOwner && isPdf(document.content_type, document.file_name)) {
+        const { data: original, error: downloadError } = await files.download(document.storage_path);
+        if (downloadError || !original) throw downloadError ?? new Error('Empty download');
+        const text = watermarkText(viewer, new Date(), accessId);
+        const stamped = await watermarkPdf(new Uint8Array(await original.arrayBuffer()), text);
+        path = viewerCopyPath(document, caller.userId);
+        const { error: uploadError } = await files.upload(path, stamped, { contentType: 'application/pdf', upsert: true });
+        if (uploadError) throw uploadError;
+        watermarked = true;
+      }
+
+      const { data: signed, error: signError } = await files.createSignedUrl(
+        path,
+        DOCUMENT_LINK_TTL_SECONDS,
+        action === 'download' ? { download: document.file_name } : undefined
+      );
+      if (signError || !signed) throw signError ?? new Error('No signed URL');
+      url = signed.signedUrl;
+      expiresAt = new Date(Date.now() + DOCUMENT_LINK_TTL_SECONDS * 1000).toISOString();
+    }
+    if (!url) return { success: false, error: NOT_FOUND };
+
+    const { error: logError } = await admin.from('document_access_logs').insert({
+      id: accessId,
+      document_id: document.id,
+      campaign_id: campaign.id,
+      viewer_id: caller.userId,
+      viewer_label: viewerLabel(viewer),
+      action,
+      watermarked,
+      expires_at: expiresAt
+    });
+    if (logError) throw logError;
+
+    logger.info('openCampaignDocument', { documentId, viewerId: caller.userId, action, watermarked });
+    return { success: true, url, expiresAt, watermarked };
+  } catch (err) {
+    logger.error('openCampaignDocument failed', { documentId, err });
+    return { success: false, error: TRY_AGAIN };
+  }
+}
@@ -0,0 +1,216 @@
+/*
+ * server/paymentProviders.ts
+ *
+ * Purpose: who takes payments. A provider is an adapter over a gateway
+ * with Razorpay's API (orders, capture, refunds, signed checkout
+ * responses and webhooks); server/payments.ts only talks to this
+ * interface.
+ *
+ * - `razorpay` calls RAZORPAY_API_URL (default api.razorpay.com) with
+ *   RAZORPAY_KEY_ID / RAZORPAY_KEY_SECRET and checks webhooks with
+ *   RAZORPAY_WEBHOOK_SECRET. Pointing RAZORPAY_API_URL at
+ *   server/fakeRazorpayServer.ts runs it against the fake offline.
+ * - `fake` is the same fake gateway (server/fakeRazorpay.ts) in-process:
+ *   nothing is charged and checkout is simulated. It is used on the local
+ *   backend and in MOCK mode, and on a hosted project only when
+ *   PAYMENT_PROVIDER=fake.
+ * - Anywhere else there is no provider and payments report themselves
+ *   unavailable. They never fall back to the fake.
+ */
+
+import { logger } from '../utils/logger';
+import { verifyCheckoutSignature, verifyWebhookSignature } from '../utils/payment.util';
+import { createFakeRazorpay, FAKE_RAZORPAY_KEYS } from './fakeRazorpay';
+import { inEdgeFunction, readEnv } from './env';
+
+// Gateway entities, as Razorpay returns them. Amounts are in paise.
+export type RazorpayOrder = {
+  id: string;
+  entity: 'order';
+  amount: number;
+  amount_paid: number;
+  currency: string;
+  receipt: string | null;
+  status: 'created' | 'attempted' | 'paid';
+  notes: Record<string, string>;
+  created_at: number;
+};
+
+export type RazorpayPayment = {
+  id: string;
+  entity: 'payment';
+  order_id: string;
+  amount: number;
+  currency: string;
+  status: 'created' | 'authorized' | 'captured' | 'failed' | 'refunded';
+  captured: boolean;
+  amount_refunded: number;
+  error_description: string | null;
+  created_at: number;
+};
+
+export type RazorpayRefund = {
+  id: string;
+  entity: 'refund';
+  payment_id: string;
+  amount: number;
+  currency: string;
+  status: 'processed';
+  created_at: number;
+};
+
+// What Razorpay Checkout hands back to the app after a successful payment.
+export type CheckoutResponse = {
+  razorpay_payment_id: string;
+  razorpay_order_id: string;
+  razorpay_signature: string;
+};
+
+export type RazorpayWebhookEvent = {
+  entity: 'event';
+  event: string;
+  payload: {
+    payment?: { entity: RazorpayPayment };
+    refund?: { entity: RazorpayRefund };
+    order?: { entity: RazorpayOrder };
+  };
+  created_at: number;
+};
+
+// `ok` false means the gateway refused or could not be reached.
+export type GatewayOutcome<T> = { ok: true; value: T } | { ok: false; error: string };
+
+export type PaymentProvider = {
+  // Stored on each payment as `payments.provider`.
+  name: string;
+  // The public key the app opens checkout with.
+  keyId: string;
+  createOrder(order: { amount: number; currency: string; receipt: string; notes?: Record<string, string> }): Promise<GatewayOutcome<RazorpayOrder>>;
+  // Succeeds without charging again when the payment is already captured.
+  capturePayment(paymentId: string, amount: number, currency: string): Promise<GatewayOutcome<RazorpayPayment>>;
+  refundPayment(paymentId: string, amount: number): Promise<GatewayOutcome<RazorpayRefund>>;
+  fetchPayment(paymentId: string): Promise<GatewayOutcome<RazorpayPayment>>;
+  verifyCheckout(response: CheckoutResponse): boolean;
+  verifyWebhook(rawBody: string, signature: string | null): boolean;
+};
+
+export type RazorpayConfig = {
+  apiUrl: string;
+  keyId: string;
+  keySecret: string;
+  webhookSecret: string;
+};
+
+const RAZORPAY_API_URL = 'https://api.razorpay.com/v1';
+
+// Razorpay refuses to capture twice; callers only need the payment.
+const alreadyCaptured = (outcome: GatewayOutcome<unknown>) =>
+  outcome.ok === false && /already been captured/i.test(outcome.error);
+
+/*
+ * razorpayProvider(config)
+ * - A provider over Razorpay's REST API, or anything that speaks it.
+ */
+export function razorpayProvider(config: RazorpayConfig): PaymentProvider {
+  const authorization = `Basic ${btoa(`${config.keyId}:${config.keySecret}`)}`;
+
+  async function call<T>(method: 'GET' | 'POST', path: string, body?: unknown): Promise<GatewayOutcome<T>> {
+    try {
+      const response = await fetch(`${config.apiUrl}${path}`, {
+        method,
+        headers: { Authorization: authorization, 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body)
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        return { ok: false, error: data?.error?.description || `Gateway returned ${response.status}` };
+      }
+      return { ok: true, value: data as T };
+    } catch (err: any) {
+      logger.error('razorpay: request failed', { method, path, err: err?.message });
+      return { ok: false, error: 'The payment gateway could not be reached.' };
+    }
+  }
+
+  const provider: PaymentProvider = {
+    name: 'razorpay',
+    keyId: config.keyId,
+    createOrder: order => call('POST', '/orders', order),
+    async capturePayment(paymentId, amount, currency) {
+      const captured = await call<RazorpayPayment>('POST', `/payments/${encodeURIComponent(paymentId)}/capture`, { amount, currency });
+      return alreadyCaptured(captured) ? provider.fetchPayment(paymentId) : captured;
+    },
+    refundPayment: (paymentId, amount) => call('POST', `/payments/${encodeURIComponent(paymentId)}/refund`, { amount }),
+    fetchPayment: paymentId => call('GET', `/payments/${encodeURIComponent(paymentId)}`),
+    verifyCheckout: response =>
+      verifyCheckoutSignature(response.razorpay_order_id, response.razorpay_payment_id, response.razorpay_signature, config.keySecret),
+    verifyWebhook: (rawBody, signature) => verifyWebhookSignature(rawBody, signature, config.webhookSecret)
+  };
+  return provider;
+}
+
+// The in-process fake gateway. server/payments.ts drives its simulated
+// checkout and delivers its webhooks on the local backend.
+export const fakeRazorpay = createFakeRazorpay();
+
+export const fakePaymentProvider: PaymentProvider = {
+  name: 'fake',
+  keyId: FAKE_RAZORPAY_KEYS.keyId,
+  async createOrder(order) {
+    return fakeRazorpay.createOrder(order);
+  },
+  async capturePayment(paymentId, amount, currency) {
+    const captured = fakeRazorpay.capture(paymentId, amount, currency);
+    return alreadyCaptured(captured) ? fakeRazorpay.fetchPayment(paymentId) : captured;
+  },
+  async refundPayment(paymentId, amount) {
+    return fakeRazorpay.refund(paymentId, amount);
+  },
+  async fetchPayment(paymentId) {
+    return fakeRazorpay.fetchPayment(paymentId);
+  },
+  verifyCheckout: response =>
+    verifyCheckoutSignature(response.razorpay_order_id, response.razorpay_payment_id, response.razorpay_signature, FAKE_RAZORPAY_KEYS.keySecret),
+  verifyWebhook: (rawBody, signature) => verifyWebhookSignature(rawBody, signature, FAKE_RAZORPAY_KEYS.webhookSecret)
+};
+
+// Providers PAYMENT_PROVIDER can name. Razorpay is built from its
+// secrets, so it is missing until they are all set.
+const PROVIDERS: Record<string, () => PaymentProvider | null> = {
+  fake: () => fakePaymentProvider,
+  razorpay: () => {
+    const keyId = readEnv('RAZORPAY_KEY_ID');
+    const keySecret = readEnv('RAZORPAY_KEY_SECRET');
+    const webhookSecret = readEnv('RAZORPAY_WEBHOOK_SECRET');
+    if (!keyId || !keySecret || !webhookSecret) {
+      logger.warn('payments: RAZORPAY_KEY_ID, RAZORPAY_KEY_SECRET and RAZORPAY_WEBHOOK_SECRET must all be set');
+      return null;
+    }
+    return razorpayProvider({ apiUrl: readEnv('RAZORPAY_API_URL') || RAZORPAY_API_URL, keyId, keySecret, webhookSecret });
+  }
+};
+
+let override: PaymentProvider | null = null;
+
+// Replace the provider, e.g. with a scripted one in a test. Pass null to
+// go back to the environment's choice.
+export function setPaymentProvider(provider: PaymentProvider | null): void {
+  override = provider;
+}
+
+/*
+ * paymentProvider
+ * - The configured provider, or null when none is. Without
+ *   PAYMENT_PROVIDER the fake is used only outside an Edge Function,
+ *   i.e. in-process on the local backend.
+ */
+export function paymentProvider(): PaymentProvider | null {
+  if (override) return override;
+  const name = readEnv('PAYMENT_PROVIDER');
+  if (name) {
+    const build = PROVIDERS[name];
+    if (!build) logger.warn('payments: unknown PAYMENT_PROVIDER', { name });
+    return build ? build() : null;
+  }
+  return inEdgeFunction() ? null : fakePaymentProvider;
+}
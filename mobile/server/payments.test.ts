@@ -0,0 +1,101 @@
+/*
+ * server/payments.test.ts
+ *
+ * Purpose: payment webhooks and refunds against the local backend and
+ * the fake gateway: a late failure cannot undo an authorized payment, and
+ * refunds made at the same time are both counted. Run with `npm test`.
+ */
+
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { createLocalBackend } from '../services/local/localClient';
+import { SEED_IDS } from '../services/local/seed';
+import { hmacSha256Hex } from '../utils/payment.util';
+import { FAKE_RAZORPAY_KEYS } from './fakeRazorpay';
+import { fakePaymentProvider, RazorpayPayment, setPaymentProvider } from './paymentProviders';
+import { createPaymentOrder, fakePaymentCheckout, handlePaymentWebhook, refundPayment } from './payments';
+
+type Backend = ReturnType<typeof createLocalBackend>;
+
+// A webhook signed the way the fake gateway signs its own.
+function signedWebhook(event: string, payment: Partial<RazorpayPayment>) {
+  const rawBody = JSON.stringify({ event, created_at: Date.now(), payload: { payment: { entity: payment } } });
+  return { rawBody, signature: hmacSha256Hex(FAKE_RAZORPAY_KEYS.webhookSecret, rawBody), eventId: `evt_${event}_${payment.id}` };
+}
+
+async function loadPayment(backend: Backend, id: string) {
+  const { data } = await backend.client.from('payments').select('*').eq('id', id).single();
+  return data;
+}
+
+test('a late failure does not undo an authorized payment', async () => {
+  const backend = createLocalBackend();
+  const { data: payment } = await backend.client
+    .from('payments')
+    .insert({
+      user_id: SEED_IDS.investorOwnerB,
+      investment_id: SEED_IDS.investmentA,
+      provider: 'fake',
+      provider_order_id: 'order_late_failure',
+      provider_payment_id: 'pay_second',
+      amount: 300000000,
+      status: 'authorized'
+    })
+    .select('*')
+    .single();
+
+  for (const id of ['pay_first', 'pay_second']) {
+    const result = await handlePaymentWebhook(
+      backend.client,
+      signedWebhook('payment.failed', {
+        id,
+        order_id: 'order_late_failure',
+        amount: 300000000,
+        status: 'failed',
+        error_description: 'Payment was declined by the bank'
+      })
+    );
+    assert.deepEqual(result, { success: true, duplicate: false });
+  }
+
+  const after = await loadPayment(backend, payment.id);
+  assert.equal(after.status, 'authorized');
+  assert.equal(after.provider_payment_id, 'pay_second');
+});
+
+test('two refunds at the same time are both recorded', async t => {
+  const backend = createLocalBackend();
+  const investor = { userId: SEED_IDS.investorOwnerB };
+  const order = await createPaymentOrder(backend.client, { investmentId: SEED_IDS.investmentA }, investor);
+  if (order.success === false) assert.fail(order.error);
+  const paid = await fakePaymentCheckout(backend.client, { paymentId: order.handoff.paymentId }, investor);
+  if (paid.success === false) assert.fail(paid.error);
+  assert.equal((await loadPayment(backend, order.handoff.paymentId)).status, 'captured');
+
+  // Both refunds reach the gateway before either is recorded. Without
+  // the fake provider's webhooks, only refundPayment records them.
+  let arrived = 0;
+  let release = () => {};
+  const bothArrived = new Promise<void>(resolve => (release = resolve));
+  setPaymentProvider({
+    ...fakePaymentProvider,
+    async refundPayment(paymentId, amount) {
+      if (++arrived === 2) release();
+      await bothArrived;
+      return fakePaymentProvider.refundPayment(paymentId, amount);
+    }
+  });
+  t.after(() => setPaymentProvider(null));
+
+  const admin = { userId: SEED_IDS.admin };
+  const request = { paymentId: order.handoff.paymentId, amount: 100000 };
+  const results = await Promise.all([refundPayment(backend.client, request, admin), refundPayment(backend.client, request, admin)]);
+  assert.deepEqual(
+    results.map(r => r.success),
+    [true, true]
+  );
+
+  const after = await loadPayment(backend, order.handoff.paymentId);
+  assert.equal(after.amount_refunded, 200000);
+  assert.equal(after.status, 'partially_refunded');
+});
@@ -0,0 +1,527 @@
+/*
+ * server/payments.ts
+ *
+ * Purpose: take payment for a confirmed investment through the configured
+ * gateway (server/paymentProviders.ts) and keep its `payments` row
+ * (db/payments.sql) in step with what the gateway reports.
+ *
+ * 1. `create-payment-order` creates a gateway order for the investment's
+ *    amount and returns what the app needs to open checkout. Asking again
+ *    returns the same open order rather than creating a second one.
+ * 2. The app opens checkout and passes its signed response to
+ *    `verify-payment`, which checks the signature and captures the
+ *    payment.
+ * 3. The gateway's webhooks (`handlePaymentWebhook`, served by the
+ *    payment-webhook Edge Function) report the same changes, and catch up
+ *    payments whose app never came back. Each event is stored once;
+ *    repeats and late arrivals change nothing.
+ * 4. `refund-payment` lets an admin refund some or all of a payment.
+ * 5. Every capture and refund is posted to the ledger.
+ *
+ * With the fake provider, `fake-payment-checkout` stands in for the
+ * checkout screen and the fake's webhooks are delivered in-process.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Json, PaymentRow, PaymentStatus, TablesUpdate } from '../services/data/database.types';
+import type { ServerCaller } from './index';
+import { formatPaise, nextPaymentStatus, PAYMENT_CURRENCY, refundStatus, toPaise } from '../utils/payment.util';
+import { logger } from '../utils/logger';
+import { syncPayment } from './ledger';
+import {
+  CheckoutResponse,
+  fakePaymentProvider,
+  fakeRazorpay,
+  PaymentProvider,
+  paymentProvider,
+  RazorpayPayment,
+  RazorpayWebhookEvent
+} from './paymentProviders';
+
+type Admin = SupabaseClient<Database>;
+
+// What Razorpay Checkout is opened with, plus our payment's id to send
+// back with the result.
+export type CheckoutHandoff = {
+  paymentId: string;
+  provider: string;
+  key: string;
+  order_id: string;
+  amount: number;
+  currency: string;
+  name: string;
+  description: string;
+  prefill: { email?: string };
+};
+
+export type CreatePaymentOrderRequest = { investmentId: string };
+export type CreatePaymentOrderResult = { success: true; handoff: CheckoutHandoff } | { success: false; error: string };
+
+export type VerifyPaymentRequest = { paymentId: string; response: CheckoutResponse };
+export type PaymentResult = { success: true; payment: PaymentRow } | { success: false; error: string };
+
+export type RefundPaymentRequest = { paymentId: string; amount?: number };
+
+export type FakePaymentCheckoutRequest = { paymentId: string; fail?: boolean };
+// `response` is null when the simulated payment failed.
+export type FakePaymentCheckoutResult =
+  | { success: true; response: CheckoutResponse | null }
+  | { success: false; error: string };
+
+export type PaymentWebhookRequest = { rawBody: string; signature: string | null; eventId: string | null };
+// `status` is the HTTP status to answer with; the gateway retries
+// anything but a 2xx.
+export type PaymentWebhookResult =
+  | { success: true; duplicate: boolean }
+  | { success: false; error: string; status: 400 | 401 | 500 | 503 };
+
+const NOT_FOUND = 'Payment not found';
+const TRY_AGAIN = 'Could not process the payment. Please try again.';
+const UNAVAILABLE = 'Payments are not available right now.';
+
+// Statuses in which the investment counts as paid.
+const PAID: PaymentStatus[] = ['authorized', 'captured', 'partially_refunded'];
+
+// Statuses that move money on the ledger.
+const LEDGER_POSTED: PaymentStatus[] = ['captured', 'partially_refunded', 'refunded'];
+
+// How often a refund is re-recorded after losing a race to another write.
+const REFUND_WRITE_ATTEMPTS = 3;
+
+async function loadPayment(admin: Admin, column: 'id' | 'provider_order_id', value: string): Promise<PaymentRow | null> {
+  const { data, error } = await admin.from('payments').select('*').eq(column, value).maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+/*
+ * applyStatus
+ * - Apply `to` (and `patch`) if the payment may move there from where it
+ *   is. Only updates the row if its status and refunded total are still
+ *   the ones loaded, so two writers racing cannot both apply; returns the
+ *   updated row, or null when nothing was written.
+ * - Captures and refunds are then posted to the ledger (server/ledger.ts).
+ *   A failure there is only logged; reconcile-ledger posts what is
+ *   missing.
+ */
+async function applyStatus(
+  admin: Admin,
+  payment: PaymentRow,
+  to: PaymentStatus,
+  patch: TablesUpdate<'payments'> = {}
+): Promise<PaymentRow | null> {
+  if (!nextPaymentStatus(payment.status, to)) return null;
+
+  const { data, error } = await admin
+    .from('payments')
+    .update({ ...patch, status: to })
+    .eq('id', payment.id)
+    .eq('status', payment.status)
+    .eq('amount_refunded', payment.amount_refunded)
+    .select('*');
+  if (error) throw error;
+  if (!data || data.length === 0) return null;
+  if (LEDGER_POSTED.includes(to)) {
+    try {
+      await syncPayment(admin, data[0]);
+    } catch (err) {
+      logger.error('payments: ledger posting failed', { paymentId: payment.id, err });
+    }
+  }
+  return data[0];
+}
+
+// applyStatus, returning the row as it now stands either way.
+async function moveStatus(
+  admin: Admin,
+  payment: PaymentRow,
+  to: PaymentStatus,
+  patch: TablesUpdate<'payments'> = {}
+): Promise<PaymentRow> {
+  if (!nextPaymentStatus(payment.status, to)) return payment;
+  return (await applyStatus(admin, payment, to, patch)) ?? (await loadPayment(admin, 'id', payment.id)) ?? payment;
+}
+
+// Capture an authorized payment for its full amount.
+async function capture(admin: Admin, provider: PaymentProvider, payment: PaymentRow): Promise<PaymentRow> {
+  if (payment.status !== 'authorized' || !payment.provider_payment_id) return payment;
+  const captured = await provider.capturePayment(payment.provider_payment_id, payment.amount, payment.currency);
+  if (captured.ok === false) {
+    // Stays authorized; the next webhook or verify retries.
+    logger.warn('payments: capture failed', { paymentId: payment.id, error: captured.error });
+    return payment;
+  }
+  return moveStatus(admin, payment, 'captured', { captured_at: new Date().toISOString() });
+}
+
+// The fake gateway only queues its webhooks; deliver them as the real
+// one would. Handling one can queue more (a capture after
+// authorization), so keep going until none are left.
+async function flushFakeWebhooks(admin: Admin, provider: PaymentProvider): Promise<void> {
+  if (provider !== fakePaymentProvider) return;
+  for (let webhooks = fakeRazorpay.drainWebhooks(); webhooks.length > 0; webhooks = fakeRazorpay.drainWebhooks()) {
+    for (const webhook of webhooks) {
+      const result = await handlePaymentWebhook(admin, webhook);
+      if (result.success === false) logger.warn('payments: fake webhook failed', { eventId: webhook.eventId, error: result.error });
+    }
+  }
+}
+
+function handoffFor(payment: PaymentRow, provider: PaymentProvider, details: { description: string; email?: string }): CheckoutHandoff {
+  return {
+    paymentId: payment.id,
+    provider: provider.name,
+    key: provider.keyId,
+    order_id: payment.provider_order_id,
+    amount: payment.amount,
+    currency: payment.currency,
+    name: 'Incubes',
+    description: details.description,
+    prefill: details.email ? { email: details.email } : {}
+  };
+}
+
+/*
+ * createPaymentOrder
+ * - The investment must belong to the caller's investor profile. Its
+ *   amount comes from the investments row, never from the request.
+ */
+export async function createPaymentOrder(
+  admin: Admin,
+  request: CreatePaymentOrderRequest,
+  caller: ServerCaller
+): Promise<CreatePaymentOrderResult> {
+  if (!caller?.userId) return { success: false, error: 'Sign in to pay.' };
+  const provider = paymentProvider();
+  if (!provider) return { success: false, error: UNAVAILABLE };
+
+  const investmentId = String(request?.investmentId || '');
+  if (!investmentId) return { success: false, error: 'Investment not found' };
+
+  try {
+    const { data: investment, error } = await admin
+      .from('investments')
+      .select('id, amount, status, investor_id, campaign_id')
+      .eq('id', investmentId)
+      .maybeSingle();
+    if (error) throw error;
+
+    const { data: investor, error: investorError } = investment?.investor_id
+      ? await admin.from('investors').select('owner_id').eq('id', investment.investor_id).maybeSingle()
+      : { data: null, error: null };
+    if (investorError) throw investorError;
+    // Same answer as a missing investment, so ids cannot be probed.
+    if (!investment || investor?.owner_id !== caller.userId) return { success: false, error: 'Investment not found' };
+    if (investment.status !== 'committed') return { success: false, error: 'Only confirmed investments can be paid.' };
+
+    const amount = toPaise(Number(investment.amount));
+    if (!(amount > 0)) return { success: false, error: 'This investment has no amount to pay.' };
+
+    const [{ data: campaign }, { data: user }] = await Promise.all([
+      investment.campaign_id
+        ? admin.from('fundraising_campaigns').select('title').eq('id', investment.campaign_id).maybeSingle()
+        : Promise.resolve({ data: null }),
+      admin.from('users').select('email').eq('id', caller.userId).maybeSingle()
+    ]);
+    const details = { description: `Investment in ${campaign?.title || 'campaign'}`, email: user?.email ?? undefined };
+
+    // An unpaid order is reused, so paying twice cannot open two orders.
+    const { data: open, error: openError } = await admin
+      .from('payments')
+      .select('*')
+      .eq('investment_id', investment.id)
+      .neq('status', 'refunded')
+      .maybeSingle();
+    if (openError) throw openError;
+    if (open && PAID.includes(open.status)) return { success: false, error: 'This investment has already been paid.' };
+    if (open) {
+      if (open.provider === provider.name && open.amount === amount) return { success: true, handoff: handoffFor(open, provider, details) };
+      return { success: false, error: 'This investment has a payment in progress with another gateway.' };
+    }
+
+    const order = await provider.createOrder({
+      amount,
+      currency: PAYMENT_CURRENCY,
+      receipt: investment.id,
+      notes: { investment_id: investment.id, user_id: caller.userId }
+    });
+    if (order.ok === false) {
+      logger.error('createPaymentOrder: gateway refused order', { investmentId, error: order.error });
+      return { success: false, error: UNAVAILABLE };
+    }
+
+    const { data: payment, error: insertError } = await admin
+      .from('payments')
+      .insert({
+        user_id: caller.userId,
+        investment_id: investment.id,
+        provider: provider.name,
+        provider_order_id: order.value.id,
+        amount,
+        currency: order.value.currency
+      })
+      .select('*')
+      .single();
+    if (insertError) {
+      // Another request opened an order first; the orphaned gateway order
+      // is never paid and expires.
+      if (insertError.code === '23505') return { success: false, error: 'A payment for this investment was just started. Try again.' };
+      throw insertError;
+    }
+
+    logger.info('createPaymentOrder', { paymentId: payment.id, investmentId, amount: formatPaise(amount) });
+    return { success: true, handoff: handoffFor(payment, provider, details) };
+  } catch (err) {
+    logger.error('createPaymentOrder failed', { investmentId, err });
+    return { success: false, error: TRY_AGAIN };
+  }
+}
+
+/*
+ * verifyPayment
+ * - Check the checkout response's signature, record the payment id and
+ *   capture. Calling it again for a captured payment just returns it.
+ */
+export async function verifyPayment(admin: Admin, request: VerifyPaymentRequest, caller: ServerCaller): Promise<PaymentResult> {
+  if (!caller?.userId) return { success: false, error: 'Sign in to pay.' };
+  const provider = paymentProvider();
+  if (!provider) return { success: false, error: UNAVAILABLE };
+
+  const response = request?.response;
+  if (!request?.paymentId || !response?.razorpay_payment_id || !response.razorpay_order_id) {
+    return { success: false, error: NOT_FOUND };
+  }
+
+  try {
+    let payment = await loadPayment(admin, 'id', String(request.paymentId));
+    if (!payment || payment.user_id !== caller.userId) return { success: false, error: NOT_FOUND };
+
+    if (
+      payment.provider !== provider.name ||
+      payment.provider_order_id !== response.razorpay_order_id ||
+      !provider.verifyCheckout(response)
+    ) {
+      logger.warn('verifyPayment: signature mismatch', { paymentId: payment.id });
+      return { success: false, error: 'The payment could not be verified. If you were charged, it will be refunded.' };
+    }
+
+    if (payment.status === 'created' || payment.status === 'failed') {
+      payment = await moveStatus(admin, payment, 'authorized', {
+        provider_payment_id: response.razorpay_payment_id,
+        failure_reason: null
+      });
+    }
+    payment = await capture(admin, provider, payment);
+    await flushFakeWebhooks(admin, provider);
+
+    logger.info('verifyPayment', { paymentId: payment.id, status: payment.status });
+    return { success: true, payment: (await loadPayment(admin, 'id', payment.id)) ?? payment };
+  } catch (err) {
+    logger.error('verifyPayment failed', { paymentId: request.paymentId, err });
+    return { success: false, error: TRY_AGAIN };
+  }
+}
+
+/*
+ * handlePaymentWebhook
+ * - `rawBody` and `signature` are the request body and
+ *   X-Razorpay-Signature header exactly as received; `eventId` is the
+ *   X-Razorpay-Event-Id header.
+ * - The event is stored before it is applied, so a concurrent delivery of
+ *   the same event is reported as a duplicate. If applying it fails the
+ *   stored event is removed again, so the gateway's retry applies it.
+ */
+export async function handlePaymentWebhook(admin: Admin, request: PaymentWebhookRequest): Promise<PaymentWebhookResult> {
+  const provider = paymentProvider();
+  if (!provider) return { success: false, error: UNAVAILABLE, status: 503 };
+  if (!provider.verifyWebhook(request.rawBody, request.signature)) {
+    logger.warn('handlePaymentWebhook: bad signature', { eventId: request.eventId });
+    return { success: false, error: 'Invalid signature', status: 401 };
+  }
+
+  let event: RazorpayWebhookEvent;
+  try {
+    event = JSON.parse(request.rawBody);
+  } catch {
+    return { success: false, error: 'Invalid JSON body', status: 400 };
+  }
+
+  const gatewayPayment: RazorpayPayment | undefined = event.payload?.payment?.entity;
+  const orderId = gatewayPayment?.order_id || event.payload?.order?.entity?.id;
+  const eventId = request.eventId || `${event.event}:${gatewayPayment?.id ?? orderId}:${event.created_at}`;
+
+  let storedEventId: string | null = null;
+  try {
+    let payment = orderId ? await loadPayment(admin, 'provider_order_id', orderId) : null;
+
+    const { data: stored, error: eventError } = await admin
+      .from('payment_events')
+      .insert({
+        payment_id: payment?.id ?? null,
+        provider: provider.name,
+        provider_event_id: eventId,
+        event: event.event,
+        payload: event.payload as unknown as Json
+      })
+      .select('id')
+      .single();
+    if (eventError?.code === '23505') return { success: true, duplicate: true };
+    if (eventError) throw eventError;
+    storedEventId = stored.id;
+    if (!payment || !gatewayPayment) return { success: true, duplicate: false };
+
+    const now = new Date().toISOString();
+    switch (event.event) {
+      case 'payment.authorized':
+        payment = await moveStatus(admin, payment, 'authorized', { provider_payment_id: gatewayPayment.id, failure_reason: null });
+        // The app may never have come back from checkout.
+        await capture(admin, provider, payment);
+        break;
+      case 'payment.captured':
+      case 'order.paid':
+        await moveStatus(admin, payment, 'captured', { provider_payment_id: gatewayPayment.id, captured_at: now });
+        break;
+      case 'payment.failed':
+        // A failed attempt does not undo one that succeeded: ignore it
+        // once the payment is paid, or when it is about another attempt
+        // than the one recorded.
+        if (PAID.includes(payment.status)) break;
+        if (payment.provider_payment_id && payment.provider_payment_id !== gatewayPayment.id) break;
+        await moveStatus(admin, payment, 'failed', {
+          provider_payment_id: gatewayPayment.id,
+          failure_reason: gatewayPayment.error_description || 'Payment failed'
+        });
+        break;
+      case 'refund.processed': {
+        // The gateway's running total, so a repeat cannot count twice; a
+        // late event carries an older, smaller total and changes nothing.
+        const refunded = Math.max(payment.amount_refunded, gatewayPayment.amount_refunded);
+        if (refunded <= payment.amount_refunded) break;
+        await moveStatus(admin, payment, refundStatus(payment.amount, refunded), { amount_refunded: refunded, refunded_at: now });
+        break;
+      }
+    }
+
+    logger.info('handlePaymentWebhook', { eventId, event: event.event, paymentId: payment.id });
+    return { success: true, duplicate: false };
+  } catch (err) {
+    logger.error('handlePaymentWebhook failed', { eventId, err });
+    if (storedEventId) {
+      const { error: deleteError } = await admin.from('payment_events').delete().eq('id', storedEventId);
+      if (deleteError) logger.error('handlePaymentWebhook: could not release event for retry', { eventId, deleteError });
+    }
+    return { success: false, error: TRY_AGAIN, status: 500 };
+  }
+}
+
+// Record a refund the gateway has made, taking the payment to a refunded
+// total of `refunded`. The write only lands on the total that was read;
+// if another refund or a refund webhook got there first, the gateway's
+// running total (which counts every refund) is written instead.
+async function recordRefund(
+  admin: Admin,
+  provider: PaymentProvider,
+  payment: PaymentRow,
+  refunded: number
+): Promise<PaymentRow | null> {
+  const providerPaymentId = payment.provider_payment_id;
+  if (!providerPaymentId) return null;
+
+  let current = payment;
+  let total = refunded;
+  for (let attempt = 0; attempt < REFUND_WRITE_ATTEMPTS; attempt++) {
+    const updated = await applyStatus(admin, current, refundStatus(current.amount, total), {
+      amount_refunded: total,
+      refunded_at: new Date().toISOString()
+    });
+    if (updated) return updated;
+
+    const [reloaded, gateway] = await Promise.all([
+      loadPayment(admin, 'id', current.id),
+      provider.fetchPayment(providerPaymentId)
+    ]);
+    if (!reloaded || gateway.ok === false) return null;
+    current = reloaded;
+    total = Math.max(current.amount_refunded, gateway.value.amount_refunded);
+    if (total === current.amount_refunded) return current;
+  }
+  return null;
+}
+
+/*
+ * refundPayment
+ * - Admins only. Refunds `amount` paise, or whatever is left to refund.
+ */
+export async function refundPayment(admin: Admin, request: RefundPaymentRequest, caller: ServerCaller): Promise<PaymentResult> {
+  if (!caller?.userId) return { success: false, error: 'Sign in to refund payments.' };
+  const provider = paymentProvider();
+  if (!provider) return { success: false, error: UNAVAILABLE };
+
+  try {
+    const { data: me, error: meError } = await admin.from('users').select('role').eq('id', caller.userId).maybeSingle();
+    if (meError) throw meError;
+    if (me?.role !== 'admin' && me?.role !== 'super_admin') return { success: false, error: 'Only admins can refund payments.' };
+
+    const payment = await loadPayment(admin, 'id', String(request?.paymentId || ''));
+    if (!payment) return { success: false, error: NOT_FOUND };
+    if (payment.status !== 'captured' && payment.status !== 'partially_refunded') {
+      return { success: false, error: 'Only paid payments can be refunded.' };
+    }
+    if (payment.provider !== provider.name || !payment.provider_payment_id) {
+      return { success: false, error: 'This payment was taken through another gateway.' };
+    }
+
+    const remaining = payment.amount - payment.amount_refunded;
+    const amount = request?.amount === undefined ? remaining : Math.round(Number(request.amount));
+    if (!(amount > 0) || amount > remaining) {
+      return { success: false, error: `Enter an amount up to ${formatPaise(remaining)}.` };
+    }
+
+    const refund = await provider.refundPayment(payment.provider_payment_id, amount);
+    if (refund.ok === false) return { success: false, error: refund.error };
+
+    const updated = await recordRefund(admin, provider, payment, payment.amount_refunded + amount);
+    if (!updated) {
+      logger.error('refundPayment: refund sent but not recorded', { paymentId: payment.id, amount: formatPaise(amount) });
+      return { success: false, error: 'The refund was sent but is not showing yet. Check the payment before refunding again.' };
+    }
+    await flushFakeWebhooks(admin, provider);
+
+    logger.info('refundPayment', { paymentId: payment.id, amount: formatPaise(amount), actorId: caller.userId });
+    return { success: true, payment: (await loadPayment(admin, 'id', updated.id)) ?? updated };
+  } catch (err) {
+    logger.error('refundPayment failed', { paymentId: request?.paymentId, err });
+    return { success: false, error: 'Could not refund the payment. Please try again.' };
+  }
+}
+
+/*
+ * fakePaymentCheckout
+ * - The fake provider's stand-in for Razorpay Checkout: pays (or, with
+ *   `fail`, fails to pay) the payment's order and delivers the webhooks
+ *   that follow. Refused for any other provider.
+ */
+export async function fakePaymentCheckout(
+  admin: Admin,
+  request: FakePaymentCheckoutRequest,
+  caller: ServerCaller
+): Promise<FakePaymentCheckoutResult> {
+  if (!caller?.userId) return { success: false, error: 'Sign in to pay.' };
+  const provider = paymentProvider();
+  if (provider !== fakePaymentProvider) return { success: false, error: UNAVAILABLE };
+
+  try {
+    const payment = await loadPayment(admin, 'id', String(request?.paymentId || ''));
+    if (!payment || payment.user_id !== caller.userId || payment.provider !== provider.name) {
+      return { success: false, error: NOT_FOUND };
+    }
+
+    const outcome = fakeRazorpay.checkout(payment.provider_order_id, { fail: Boolean(request?.fail) });
+    if (outcome.ok === false) return { success: false, error: outcome.error };
+    await flushFakeWebhooks(admin, provider);
+    return { success: true, response: outcome.value };
+  } catch (err) {
+    logger.error('fakePaymentCheckout failed', { paymentId: request?.paymentId, err });
+    return { success: false, error: TRY_AGAIN };
+  }
+}
@@ -0,0 +1,95 @@
+/*
+ * server/recoverWithKey.test.ts
+ *
+ * Purpose: password reset with a recovery key against the local backend:
+ * the key rotates on success, a wrong or already-used key is rejected,
+ * and a failed password update puts the old key back. Run with
+ * `npm test`.
+ */
+
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { createLocalBackend } from '../services/local/localClient';
+import { LOCAL_SEED_RECOVERY_KEY, SEED_IDS } from '../services/local/seed';
+import { needsRehash, verifyRecoveryKey } from '../utils/recovery.util';
+import { recoverWithKey } from './recoverWithKey';
+
+const EMAIL = 'meera@angels.local';
+const NEW_PASSWORD = 'new-password-1';
+
+async function storedHash(backend: ReturnType<typeof createLocalBackend>): Promise<string> {
+  const { data } = await backend.client.from('users').select('recovery_key_hash').eq('id', SEED_IDS.investorOwnerA).single();
+  return data.recovery_key_hash;
+}
+
+test('a correct key resets the password and rotates the key', async () => {
+  const backend = createLocalBackend();
+  const result = await recoverWithKey(backend.client, { email: EMAIL, recoveryKey: LOCAL_SEED_RECOVERY_KEY, newPassword: NEW_PASSWORD });
+  if (result.success === false) assert.fail(result.error);
+
+  assert.notEqual(result.recoveryKey, LOCAL_SEED_RECOVERY_KEY);
+  const hash = await storedHash(backend);
+  // The legacy seed hash is replaced by a current one for the new key.
+  assert.equal(needsRehash(hash), false);
+  assert.equal(await verifyRecoveryKey(result.recoveryKey, hash), true);
+  assert.equal(await verifyRecoveryKey(LOCAL_SEED_RECOVERY_KEY, hash), false);
+
+  const { error } = await backend.client.auth.signInWithPassword({ email: EMAIL, password: NEW_PASSWORD });
+  assert.equal(error, null);
+
+  // The used key no longer works.
+  const replay = await recoverWithKey(backend.client, { email: EMAIL, recoveryKey: LOCAL_SEED_RECOVERY_KEY, newPassword: 'another-1' });
+  assert.deepEqual(replay, { success: false, error: 'Email or recovery key is incorrect' });
+});
+
+test('a wrong key or unknown email is rejected without changing anything', async () => {
+  const backend = createLocalBackend();
+  const before = await storedHash(backend);
+
+  const wrongKey = await recoverWithKey(backend.client, {
+    email: EMAIL,
+    recoveryKey: '1111-2222-3333-4444-5555-6667',
+    newPassword: NEW_PASSWORD
+  });
+  const unknownEmail = await recoverWithKey(backend.client, {
+    email: 'nobody@incubs.local',
+    recoveryKey: LOCAL_SEED_RECOVERY_KEY,
+    newPassword: NEW_PASSWORD
+  });
+  assert.deepEqual(wrongKey, { success: false, error: 'Email or recovery key is incorrect' });
+  assert.deepEqual(unknownEmail, wrongKey);
+  assert.equal(await storedHash(backend), before);
+});
+
+test('two requests racing with the same key: only one rotates it', async () => {
+  const backend = createLocalBackend();
+  const request = { email: EMAIL, recoveryKey: LOCAL_SEED_RECOVERY_KEY, newPassword: NEW_PASSWORD };
+  const results = await Promise.all([recoverWithKey(backend.client, request), recoverWithKey(backend.client, request)]);
+
+  const winners = results.filter(r => r.success);
+  assert.equal(winners.length, 1);
+  assert.deepEqual(
+    results.find(r => !r.success),
+    { success: false, error: 'Email or recovery key is incorrect' }
+  );
+  const winner = winners[0];
+  if (winner.success === false) assert.fail(winner.error);
+  assert.equal(await verifyRecoveryKey(winner.recoveryKey, await storedHash(backend)), true);
+});
+
+test('a failed password update puts the old key back', async () => {
+  const backend = createLocalBackend();
+  const before = await storedHash(backend);
+  const client: any = Object.create(backend.client as any);
+  client.auth = {
+    admin: { updateUserById: async () => ({ data: { user: null }, error: { message: 'Auth is down' } }) }
+  };
+
+  const result = await recoverWithKey(client, { email: EMAIL, recoveryKey: LOCAL_SEED_RECOVERY_KEY, newPassword: NEW_PASSWORD });
+  assert.deepEqual(result, { success: false, error: 'Auth is down' });
+  assert.equal(await storedHash(backend), before);
+
+  // The user can try again with the same key.
+  const retry = await recoverWithKey(backend.client, { email: EMAIL, recoveryKey: LOCAL_SEED_RECOVERY_KEY, newPassword: NEW_PASSWORD });
+  assert.equal(retry.success, true);
+});
@@ -0,0 +1,131 @@
+/*
+ * server/recoverWithKey.ts
+ *
+ * Purpose: the server side of "forgot password" with a recovery key.
+ * Given an email, the recovery key shown at signup and a new password, it:
+ *
+ * 1. checks the key against `users.recovery_key_hash`,
+ * 2. swaps in the hash of a freshly generated key, so the used key stops
+ *    working immediately (a replayed request fails the swap),
+ * 3. sets the new password with the auth admin API,
+ * 4. returns the new key so the app can show it once.
+ *
+ * Step 2 always writes a current-format hash, so this is also where legacy
+ * 32-bit hashes get upgraded (see utils/recovery.util.ts).
+ *
+ * It needs a service-role client (auth admin API, no RLS), so it must never
+ * run in the app against the hosted project. The same function runs:
+ * - in-process behind the local backend's `functions.invoke` (DATA_BACKEND=local
+ *   and MOCK mode), and
+ * - as the `recover-with-key` Supabase Edge Function (supabase/functions).
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../services/data/database.types';
+import {
+  formatRecoveryKeyInput,
+  generateRecoveryKey,
+  hashRecoveryKey,
+  needsRehash,
+  validateRecoveryKey,
+  verifyRecoveryKey
+} from '../utils/recovery.util';
+import { logger } from '../utils/logger';
+
+export type RecoverWithKeyRequest = {
+  email: string;
+  recoveryKey: string;
+  newPassword: string;
+};
+
+export type RecoverWithKeyResult =
+  | { success: true; recoveryKey: string }
+  | { success: false; error: string };
+
+// Matches the Supabase Auth default.
+const MIN_PASSWORD_LENGTH = 6;
+
+// One message for unknown email, missing hash and wrong key, so the
+// endpoint cannot be used to find out which emails have accounts.
+const INVALID_KEY = 'Email or recovery key is incorrect';
+const TRY_AGAIN = 'Recovery failed. Please try again.';
+
+/*
+ * recoverWithKey
+ * - `admin` must be a service-role client.
+ * - Expected failures come back as `{ success: false, error }`; only
+ *   programming errors throw.
+ */
+export async function recoverWithKey(
+  admin: SupabaseClient<Database>,
+  request: RecoverWithKeyRequest
+): Promise<RecoverWithKeyResult> {
+  const email = String(request?.email || '').trim().toLowerCase();
+  // Accept the key with or without dashes; hashes are of the dashed form.
+  const recoveryKey = formatRecoveryKeyInput(String(request?.recoveryKey || ''));
+  const newPassword = String(request?.newPassword || '');
+
+  if (!email || !validateRecoveryKey(recoveryKey)) {
+    return { success: false, error: INVALID_KEY };
+  }
+  if (newPassword.length < MIN_PASSWORD_LENGTH) {
+    return { success: false, error: `Password should be at least ${MIN_PASSWORD_LENGTH} characters.` };
+  }
+
+  const { data: user, error: lookupError } = await admin
+    .from('users')
+    .select('id, recovery_key_hash')
+    .eq('email', email)
+    .maybeSingle();
+
+  if (lookupError) {
+    logger.error('recoverWithKey: user lookup failed', lookupError);
+    return { success: false, error: TRY_AGAIN };
+  }
+  if (!user?.recovery_key_hash || !(await verifyRecoveryKey(recoveryKey, user.recovery_key_hash))) {
+    logger.warn('recoverWithKey: rejected recovery attempt', { email });
+    return { success: false, error: INVALID_KEY };
+  }
+
+  const usedHash = user.recovery_key_hash;
+  const nextKey = generateRecoveryKey();
+  const nextHash = await hashRecoveryKey(nextKey);
+
+  // Only replace the hash we just verified. If another request used the
+  // same key first, this matches no rows and the attempt is rejected.
+  const { data: swapped, error: swapError } = await admin
+    .from('users')
+    .update({ recovery_key_hash: nextHash })
+    .eq('id', user.id)
+    .eq('recovery_key_hash', usedHash)
+    .select('id');
+
+  if (swapError) {
+    logger.error('recoverWithKey: failed to rotate recovery key', swapError);
+    return { success: false, error: TRY_AGAIN };
+  }
+  if (!swapped || swapped.length === 0) {
+    return { success: false, error: INVALID_KEY };
+  }
+
+  const { error: passwordError } = await admin.auth.admin.updateUserById(user.id, { password: newPassword });
+
+  if (passwordError) {
+    // Put the old key back so the user can try again with it.
+    const { error: restoreError } = await admin
+      .from('users')
+      .update({ recovery_key_hash: usedHash })
+      .eq('id', user.id)
+      .eq('recovery_key_hash', nextHash);
+    if (restoreError) logger.error('recoverWithKey: failed to restore recovery key', restoreError);
+
+    logger.error('recoverWithKey: password update failed', passwordError);
+    return { success: false, error: passwordError.message || TRY_AGAIN };
+  }
+
+  logger.info('recoverWithKey: password reset with recovery key', {
+    userId: user.id,
+    upgradedHash: needsRehash(usedHash)
+  });
+  return { success: true, recoveryKey: nextKey };
+}
@@ -0,0 +1,130 @@
+/*
+ * server/sendNotificationDigests.ts
+ *
+ * Purpose: send the daily and weekly digest emails. Emails for users on
+ * a digest wait in `notification_deliveries` as `pending`; this function:
+ *
+ * 1. groups the pending digest emails by user,
+ * 2. skips users whose last digest is more recent than their frequency,
+ * 3. sends each remaining user one email listing their notifications,
+ * 4. marks those deliveries sent (or failed) and stamps last_digest_at.
+ *
+ * Run it on a schedule, e.g. hourly: users are only emailed when their
+ * digest is due. The caller must be an admin, or the request must carry
+ * NOTIFICATION_CRON_SECRET as `secret` (for a scheduler with no session).
+ * Deployed as the `send-notification-digests` Supabase Edge Function.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, EmailFrequency } from '../services/data/database.types';
+import type { ServerCaller } from './index';
+import { composeDigest, digestDue } from '../utils/notification.util';
+import { logger } from '../utils/logger';
+import { readEnv } from './env';
+import { notificationTransports } from './notificationTransports';
+
+export type SendNotificationDigestsRequest = {
+  secret?: string;
+};
+
+export type SendNotificationDigestsResult =
+  | { success: true; sent: number; failed: number }
+  | { success: false; error: string };
+
+async function authorized(admin: SupabaseClient<Database>, request: SendNotificationDigestsRequest, caller: ServerCaller) {
+  const secret = readEnv('NOTIFICATION_CRON_SECRET');
+  if (secret && request?.secret === secret) return true;
+  if (!caller?.userId) return false;
+  const { data } = await admin.from('users').select('role').eq('id', caller.userId).maybeSingle();
+  return data?.role === 'admin' || data?.role === 'super_admin';
+}
+
+export async function sendNotificationDigests(
+  admin: SupabaseClient<Database>,
+  request: SendNotificationDigestsRequest,
+  caller: ServerCaller
+): Promise<SendNotificationDigestsResult> {
+  if (!(await authorized(admin, request, caller))) {
+    return { success: false, error: 'Only admins can send digests.' };
+  }
+
+  const { data: pending, error } = await admin
+    .from('notification_deliveries')
+    .select('id, user_id, digest, notification_id')
+    .eq('channel', 'email')
+    .eq('status', 'pending')
+    .in('digest', ['daily', 'weekly']);
+  if (error) {
+    logger.error('sendNotificationDigests: pending lookup failed', error);
+    return { success: false, error: 'Could not load pending digests.' };
+  }
+  if (!pending || pending.length === 0) return { success: true, sent: 0, failed: 0 };
+
+  const userIds = [...new Set(pending.map(d => d.user_id))];
+  const notificationIds = pending.map(d => d.notification_id);
+  const [prefs, users, notifications] = await Promise.all([
+    admin.from('notification_preferences').select('user_id, email_frequency, last_digest_at').in('user_id', userIds),
+    admin.from('users').select('id, email').in('id', userIds),
+    admin.from('notifications').select('id, title, body, created_at').in('id', notificationIds)
+  ]);
+  const lookupError = prefs.error || users.error || notifications.error;
+  if (lookupError) {
+    logger.error('sendNotificationDigests: lookup failed', lookupError);
+    return { success: false, error: 'Could not load pending digests.' };
+  }
+
+  const transports = notificationTransports();
+  const now = new Date();
+  let sent = 0;
+  let failed = 0;
+
+  for (const userId of userIds) {
+    const deliveries = pending.filter(d => d.user_id === userId);
+    const pref = (prefs.data ?? []).find(p => p.user_id === userId);
+    // A user who switched back to immediate gets what is waiting now.
+    const frequency: EmailFrequency = pref?.email_frequency ?? deliveries[0].digest ?? 'daily';
+    if (!digestDue(frequency, pref?.last_digest_at ?? null, now)) continue;
+
+    const email = (users.data ?? []).find(u => u.id === userId)?.email;
+    const items = deliveries
+      .map(d => (notifications.data ?? []).find(n => n.id === d.notification_id))
+      .filter((n): n is NonNullable<typeof n> => !!n)
+      .map(n => ({ title: n.title, body: n.body, created_at: n.created_at }));
+    const ids = deliveries.map(d => d.id);
+
+    if (!email || items.length === 0) {
+      await admin
+        .from('notification_deliveries')
+        .update({ status: 'skipped', error: email ? 'Nothing to send' : 'No email address' })
+        .in('id', ids);
+      continue;
+    }
+
+    const { subject, text } = composeDigest(items, frequency);
+    const outcome = await transports.sendEmail({ to: email, subject, text });
+    const sentAt = new Date().toISOString();
+    const { error: markError } = await admin
+      .from('notification_deliveries')
+      .update(
+        outcome.ok === false
+          ? { status: 'failed', error: outcome.error }
+          : { status: 'sent', sent_at: sentAt, error: null }
+      )
+      .in('id', ids)
+      .eq('status', 'pending');
+    if (markError) logger.error('sendNotificationDigests: failed to mark deliveries', { userId, markError });
+
+    if (outcome.ok) {
+      sent++;
+      const { error: stampError } = await admin
+        .from('notification_preferences')
+        .upsert({ user_id: userId, last_digest_at: sentAt }, { onConflict: 'user_id' });
+      if (stampError) logger.error('sendNotificationDigests: failed to stamp last digest', { userId, stampError });
+    } else {
+      failed++;
+    }
+  }
+
+  logger.info('sendNotificationDigests', { sent, failed });
+  return { success: true, sent, failed };
+}
@@ -0,0 +1,119 @@
+/*
+ * services/admin/audit.service.ts
+ *
+ * Purpose: write and present `audit_events`. Privileged actions call
+ * `recordAuditEvent` after they succeed (see moderation.service.ts); the
+ * admin Audit Log screen uses the labels and CSV export below.
+ */
+
+import { AuditEventRepository } from '../data/audit.repository';
+import { AuditAction, AuditEventRow, AuditTargetType, Json } from '../data/database.types';
+import { Role } from '../roles';
+import { logger } from '../../utils/logger';
+
+// The admin performing an action, as held in AuthContext.
+export type AuditActor = { id: string | null; role: Role | null };
+
+export type AuditTarget = { type: AuditTargetType; id: string };
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  'startup.verify': 'Verified startup',
+  'startup.unverify': 'Set startup to pending',
+  'startup.disable': 'Disabled startup',
+  'startup.enable': 'Enabled startup',
+  'startup.delete': 'Deleted startup',
+  'investor.disable': 'Disabled investor',
+  'investor.enable': 'Enabled investor',
+  'investor.verify': 'Verified investor',
+  'investor.unverify': 'Set investor to pending',
+  'investor.accredit': 'Accredited investor',
+  'investor.unaccredit': 'Withdrew investor accreditation',
+  'user.promote': 'Promoted user to admin',
+  'user.role_change': 'Changed user role'
+};
+
+export const AUDIT_TARGET_LABELS: Record<AuditTargetType, string> = {
+  startup: 'Startup',
+  investor: 'Investor',
+  user: 'User'
+};
+
+/*
+ * auditTargetName
+ * - A readable name for the event's target, taken from its snapshot
+ *   (company, investor or email, else public id). Falls back to the id,
+ *   e.g. when the snapshot is missing.
+ */
+export function auditTargetName(event: AuditEventRow): string {
+  const snapshot = (event.after ?? event.before) as Record<string, Json | undefined> | null;
+  const name =
+    snapshot && typeof snapshot === 'object' && !Array.isArray(snapshot)
+      ? snapshot.company_name || snapshot.investor_name || snapshot.email || snapshot.public_id
+      : null;
+  return typeof name === 'string' && name ? name : event.target_id;
+}
+
+// One-line summary for lists, e.g. "Verified startup Acme Robotics".
+export function describeAuditEvent(event: AuditEventRow): string {
+  const label = AUDIT_ACTION_LABELS[event.action] ?? event.action;
+  return `${label} ${auditTargetName(event)}`;
+}
+
+/*
+ * recordAuditEvent
+ * - Append one event. The action has already happened by the time this
+ *   runs, so a failed insert is logged rather than reported as a failure
+ *   of the action.
+ */
+export async function recordAuditEvent(
+  actor: AuditActor,
+  action: AuditAction,
+  target: AuditTarget,
+  snapshots: { before: Json | null; after: Json | null }
+): Promise<void> {
+  try {
+    await AuditEventRepository.create({
+      actor_id: actor.id,
+      actor_role: actor.role,
+      action,
+      target_type: target.type,
+      target_id: target.id,
+      before: snapshots.before,
+      after: snapshots.after
+    });
+  } catch (err) {
+    logger.error('recordAuditEvent: failed to record event', { action, target, actorId: actor.id, err });
+  }
+}
+
+const CSV_COLUMNS: Array<keyof AuditEventRow> = [
+  'created_at',
+  'actor_id',
+  'actor_role',
+  'action',
+  'target_type',
+  'target_id',
+  'before',
+  'after'
+];
+
+// Quote a value for CSV (RFC 4180): wrap in quotes when it contains a
+// comma, quote or line break, and double any quotes inside.
+function csvField(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/*
+ * auditEventsToCsv
+ * - One header row and one row per event, in the order given. Snapshots
+ *   are written as JSON.
+ */
+export function auditEventsToCsv(events: AuditEventRow[]): string {
+  const lines = [CSV_COLUMNS.join(',')];
+  for (const event of events) {
+    lines.push(CSV_COLUMNS.map(column => csvField(event[column])).join(','));
+  }
+  return lines.join('\r\n') + '\r\n';
+}
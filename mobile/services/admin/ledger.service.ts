@@ -0,0 +1,42 @@
+/*
+ * services/admin/ledger.service.ts
+ *
+ * Purpose: the admin side of the money ledger. Balances, disbursements
+ * and reconciliation all run in server functions (server/ledger.ts),
+ * since the ledger can only be written with the service role.
+ */
+
+import { supabase } from '../../supabaseClient';
+import { logger } from '../../utils/logger';
+import type { DisburseCampaignResult, LedgerBalancesResult, ReconcileLedgerResult } from '../../server/ledger';
+
+export type { CampaignLedgerSummary, LedgerBalance } from '../../server/ledger';
+export type { LedgerIssue } from '../../utils/ledger.util';
+
+const TRY_AGAIN = 'Could not reach the ledger. Please try again.';
+
+async function invoke<T extends { success: boolean }>(name: string, body: object): Promise<T | { success: false; error: string }> {
+  try {
+    const { data, error } = await supabase.functions.invoke(name, { body });
+    if (error || !data) throw error ?? new Error('No response');
+    return data as T;
+  } catch (err) {
+    logger.error(`${name} call failed`, { err });
+    return { success: false, error: TRY_AGAIN };
+  }
+}
+
+export function loadLedgerBalances(): Promise<LedgerBalancesResult> {
+  return invoke<LedgerBalancesResult>('ledger-balances', {});
+}
+
+// `amount` is in paise and defaults to everything the campaign can
+// disburse.
+export function disburseCampaign(campaignId: string, amount?: number): Promise<DisburseCampaignResult> {
+  return invoke<DisburseCampaignResult>('disburse-campaign', { campaignId, amount });
+}
+
+// With `repair`, posts what the ledger is missing before checking.
+export function reconcileLedger(repair = false): Promise<ReconcileLedgerResult> {
+  return invoke<ReconcileLedgerResult>('reconcile-ledger', { repair });
+}
@@ -0,0 +1,199 @@
+/*
+ * services/admin/moderation.service.ts
+ *
+ * Purpose: the privileged actions admins take on other people's records:
+ * verifying, disabling and deleting startups, reviewing, accrediting and
+ * disabling investors and changing user roles. Each action loads the
+ * record, applies the change, loads it again and appends both snapshots
+ * to `audit_events`, so screens should call these rather than the
+ * repositories directly. Verification and role changes also notify the
+ * affected user, and reviews refresh the owner's KYC record.
+ */
+
+import { InvestorRepository } from '../data/investor.repository';
+import { StartupRepository } from '../data/startup.repository';
+import { UserRepository } from '../data/user.repository';
+import { AuditAction, Json } from '../data/database.types';
+import { Role } from '../roles';
+import { logger } from '../../utils/logger';
+import { AuditActor, AuditTarget, recordAuditEvent } from './audit.service';
+import { notify } from '../notification/notification.service';
+import { refreshKycFor } from '../verification/kyc.service';
+
+export type ModerationResult = { success: true } | { success: false; error: string };
+
+const isAdmin = (actor: AuditActor) => actor.role === 'admin' || actor.role === 'super_admin';
+
+/*
+ * runAudited
+ * - `load` returns the target as it should appear in the log, or null if
+ *   it does not exist. It runs before `apply` and, unless the action
+ *   deletes the target, again after it.
+ */
+async function runAudited(
+  actor: AuditActor,
+  action: AuditAction,
+  target: AuditTarget,
+  load: () => Promise<Json | null>,
+  apply: () => Promise<void>
+): Promise<ModerationResult> {
+  if (!actor.id || !isAdmin(actor)) {
+    return { success: false, error: 'Only admins can do this.' };
+  }
+
+  let before: Json | null;
+  try {
+    before = await load();
+    if (!before) return { success: false, error: 'This record no longer exists.' };
+    await apply();
+  } catch (err) {
+    logger.error(`${action} failed`, { target, actorId: actor.id, err });
+    return { success: false, error: 'The change could not be saved. Please try again.' };
+  }
+
+  let after: Json | null = null;
+  if (!action.endsWith('.delete')) {
+    try {
+      after = await load();
+    } catch (err) {
+      // The change went through; log it without the after snapshot.
+      logger.warn(`${action}: could not reload target`, { target, err });
+    }
+  }
+
+  await recordAuditEvent(actor, action, target, { before, after });
+  logger.info(action, { target, actorId: actor.id });
+  return { success: true };
+}
+
+/*
+ * refreshOwnerKyc
+ * - Reviews feed the owner's KYC level (utils/kyc.util.ts). The review
+ *   has been saved by the time this runs, so a failed refresh is logged;
+ *   the record catches up the next time the owner loads it.
+ */
+async function refreshOwnerKyc(target: AuditTarget, findOwner: () => Promise<string | null>): Promise<void> {
+  try {
+    const ownerId = await findOwner();
+    if (!ownerId) return;
+    const refreshed = await refreshKycFor(ownerId);
+    if (refreshed.success === false) logger.warn('could not refresh owner KYC', { target, error: refreshed.error });
+  } catch (err) {
+    logger.warn('could not refresh owner KYC', { target, err });
+  }
+}
+
+export async function setStartupVerified(actor: AuditActor, startupId: string, verified: boolean) {
+  const result = await runAudited(
+    actor,
+    verified ? 'startup.verify' : 'startup.unverify',
+    { type: 'startup', id: startupId },
+    () => StartupRepository.getById(startupId),
+    () => StartupRepository.setVerificationStatus(startupId, verified ? 'verified' : 'pending')
+  );
+  if (result.success) {
+    notify({ type: 'startup.verification', startupId });
+    await refreshOwnerKyc({ type: 'startup', id: startupId }, async () => (await StartupRepository.getById(startupId))?.owner_id ?? null);
+  }
+  return result;
+}
+
+export function setStartupDisabled(actor: AuditActor, startupId: string, disabled: boolean) {
+  return runAudited(
+    actor,
+    disabled ? 'startup.disable' : 'startup.enable',
+    { type: 'startup', id: startupId },
+    () => StartupRepository.getById(startupId),
+    () => StartupRepository.setDisabled(startupId, disabled)
+  );
+}
+
+// Deleting a startup also removes its campaigns and investments, so only
+// a super admin may do it.
+export async function deleteStartup(actor: AuditActor, startupId: string): Promise<ModerationResult> {
+  if (actor.role !== 'super_admin') {
+    return { success: false, error: 'Only a super admin can delete startups.' };
+  }
+  return runAudited(
+    actor,
+    'startup.delete',
+    { type: 'startup', id: startupId },
+    () => StartupRepository.getById(startupId),
+    () => StartupRepository.remove(startupId)
+  );
+}
+
+export function setInvestorDisabled(actor: AuditActor, investorId: string, disabled: boolean) {
+  return runAudited(
+    actor,
+    disabled ? 'investor.disable' : 'investor.enable',
+    { type: 'investor', id: investorId },
+    () => InvestorRepository.getById(investorId),
+    () => InvestorRepository.setDisabled(investorId, disabled)
+  );
+}
+
+// Marks the investor's profile reviewed, which with a verified Aadhaar
+// makes them business verified.
+export async function setInvestorVerified(actor: AuditActor, investorId: string, verified: boolean) {
+  const target: AuditTarget = { type: 'investor', id: investorId };
+  const result = await runAudited(
+    actor,
+    verified ? 'investor.verify' : 'investor.unverify',
+    target,
+    () => InvestorRepository.getById(investorId),
+    () => InvestorRepository.setVerificationStatus(investorId, verified ? 'verified' : 'pending')
+  );
+  if (result.success) await refreshOwnerKyc(target, async () => (await InvestorRepository.getById(investorId))?.owner_id ?? null);
+  return result;
+}
+
+/*
+ * setInvestorAccredited
+ * - `until` is the last day (YYYY-MM-DD) the accreditation holds; null
+ *   withdraws it.
+ */
+export async function setInvestorAccredited(actor: AuditActor, investorId: string, until: string | null) {
+  const target: AuditTarget = { type: 'investor', id: investorId };
+  const result = await runAudited(
+    actor,
+    until ? 'investor.accredit' : 'investor.unaccredit',
+    target,
+    () => InvestorRepository.getById(investorId),
+    () => InvestorRepository.setAccreditedUntil(investorId, until)
+  );
+  if (result.success) await refreshOwnerKyc(target, async () => (await InvestorRepository.getById(investorId))?.owner_id ?? null);
+  return result;
+}
+
+/*
+ * changeUserRole
+ * - Super admin only. Granting `admin` is logged as a promotion, any
+ *   other change (including demotion to no role) as a role change.
+ * - A super admin's own role cannot be changed here.
+ */
+export async function changeUserRole(actor: AuditActor, userId: string, role: Role | null): Promise<ModerationResult> {
+  if (actor.role !== 'super_admin') {
+    return { success: false, error: 'Only a super admin can change roles.' };
+  }
+
+  let current: Role | null = null;
+  try {
+    current = (await UserRepository.getListItem(userId))?.role ?? null;
+  } catch (err) {
+    logger.error('changeUserRole: user lookup failed', { userId, err });
+  }
+  if (current === 'super_admin') {
+    return { success: false, error: 'A super admin cannot be demoted.' };
+  }
+
+  const result = await runAudited(
+    actor,
+    role === 'admin' ? 'user.promote' : 'user.role_change',
+    { type: 'user', id: userId },
+    () => UserRepository.getListItem(userId),
+    () => UserRepository.setRole(userId, role)
+  );
+  if (result.success) notify({ type: 'user.role_changed', userId });
+  return result;
+}
@@ -11,6 +11,8 @@ import { uuidv4, publicIdForRole } from '../utils/id.util';
 import { generateRecoveryKey, hashRecoveryKey } from '../utils/recovery.util';
 import { Role, isRoleAllowed, SUPER_ADMIN_EMAILS, canAssignRole } from './roles';
 import { logger } from '../utils/logger';
+import { UserRepository } from './data/user.repository';
+import { changeUserRole } from './admin/moderation.service';
 
 /*
  * signup
@@ -61,7 +63,7 @@ export async function signup(email: string, password: string, requestedRole: str
   // trusted server-side function. Hashing on the server prevents
   // exposing the hashing logic or secrets in client bundles.
   // Leaving it here is acceptable for Phase 0 mock + dev only.
-  const recoveryKeyHash = hashRecoveryKey(recoveryKey);
+  const recoveryKeyHash = await hashRecoveryKey(recoveryKey);
 
   // Create the account in Supabase Auth first (this handles email
   // + password and email verification flows). We use the client
@@ -143,67 +145,28 @@ export async function logout() {
 
 /*
  * recoverWithKey
- * - Allow a user to recover their account using the recovery key.
- * - The key is hashed and compared against the stored hash.
- * - If it matches, we allow the caller to set a new password.
+ * - Reset a forgotten password using the recovery key shown at signup.
+ * - Verification, the password change and key rotation all happen in
+ *   the `recover-with-key` server function (server/recoverWithKey.ts);
+ *   the app never sees the stored hash or needs admin rights.
+ * - On success the old key stops working and the response carries a new
+ *   key, which the caller must show to the user exactly once.
  */
-export async function recoverWithKey(email: string, recoveryKey: string, newPassword: string) {
-  // Normalize email.
-  const normalizedEmail = email.trim().toLowerCase();
-
-  // Hash the provided recovery key to compare with DB.
-  // TODO: This operation should be executed on a secure server.
-  // Comparing hashed recovery keys and changing passwords requires
-  // privileged access. Performing this in client code is insecure.
-  const candidateHash = hashRecoveryKey(recoveryKey);
-
-  // Look up the user row by email via Supabase Auth, then fetch
-  // corresponding `users` table entry to compare the hash.
-  // Typings for the supabase admin client may not expose getUserByEmail
-  // in some versions of the `@supabase/supabase-js` type definitions.
-  // Use `any` for the admin object to avoid TS errors while still
-  // calling the admin API at runtime. This is safe here because the
-  // call is server-like and we only read its result.
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const { data: userByEmail, error: userError } = await (supabase.auth.admin as any).getUserByEmail(normalizedEmail as string);
-
-  if (userError) {
-    logger.error('Failed to lookup user for recovery', userError);
-    return { success: false, error: userError.message };
-  }
-
-  // userByEmail.data contains the auth user object with `id`.
-  const authUserId = userByEmail?.data?.id;
-  if (!authUserId) {
-    return { success: false, error: 'User not found' };
-  }
-
-  // Fetch the user's stored recovery_key_hash from our `users` table.
-  const { data: rows, error: dbError } = await supabase.from('users').select('recovery_key_hash').eq('id', authUserId).limit(1).single();
-
-  if (dbError) {
-    logger.error('Failed to fetch recovery hash', dbError);
-    return { success: false, error: dbError.message };
+export async function recoverWithKey(
+  email: string,
+  recoveryKey: string,
+  newPassword: string
+): Promise<{ success: true; recoveryKey: string } | { success: false; error: string }> {
+  const { data, error } = await supabase.functions.invoke('recover-with-key', {
+    body: { email: email.trim().toLowerCase(), recoveryKey, newPassword }
+  });
+
+  if (error || !data) {
+    logger.error('recover-with-key call failed', { error, targetProject: supabaseDiagnostics() });
+    return { success: false, error: 'Could not reach the recovery service. Please try again.' };
   }
 
-  const storedHash = (rows as any).recovery_key_hash;
-  if (storedHash !== candidateHash) {
-    // If hashes don't match we deny the recovery attempt.
-    return { success: false, error: 'Recovery key does not match' };
-  }
-
-  // At this point the recovery key is valid. We update the user's
-  // password via Supabase admin API (this requires server privileges).
-  // Note: Performing this operation from client code is not secure.
-  // In production, this should be executed from a server-side function
-  // or an authenticated admin context.
-  try {
-    // TODO: Implement secure password reset via server-side function.
-    return { success: true, message: 'Recovery validated — next step: reset password via server.' };
-  } catch (err) {
-    logger.error('Failed to reset password during recovery', err);
-    return { success: false, error: 'Failed to reset password' };
-  }
+  return data;
 }
 
 /*
@@ -221,14 +184,21 @@ export async function promoteToAdmin(requesterEmail: string, targetUserId: strin
     return { success: false, error: 'Only super_admin may promote users' };
   }
 
-  // Update the user's role in the database.
+  // The change is made and audited as the signed-in user, whose stored
+  // role must also be super_admin (see changeUserRole).
   // TODO: Promote role changes to a server-side protected endpoint.
   // Role changes must be executed with service-role keys and strict
   // RLS policies. Doing this from client code is insecure.
-  const { error } = await supabase.from('users').update({ role: 'admin' }).eq('id', targetUserId);
-  if (error) {
-    logger.error('Failed to promote user', error);
-    return { success: false, error: error.message };
+  const { data: sessionData } = await supabase.auth.getSession();
+  const requesterId = sessionData?.session?.user?.id ?? null;
+  let requesterRole: Role | null = null;
+  if (requesterId) {
+    try {
+      requesterRole = (await UserRepository.getProfile(requesterId))?.role ?? null;
+    } catch (err) {
+      logger.error('Failed to load requester profile', err);
+    }
   }
-  return { success: true };
+
+  return changeUserRole({ id: requesterId, role: requesterRole }, targetUserId, 'admin');
 }
@@ -0,0 +1,108 @@
+/*
+ * services/campaign/commitment.service.ts
+ *
+ * Purpose: the pipeline from an investor's interest in a campaign to a
+ * recorded investment.
+ *
+ *   pending -> contacted                        startup, `advanceInterest`
+ *   pending | contacted -> meeting_scheduled    investor accepts a proposed
+ *                                               meeting time (services/meeting)
+ *   contacted | meeting_scheduled -> invested   investor, `confirmCommitment`
+ *
+ * Confirming runs in the `commit-investment` server function
+ * (server/commitInvestment.ts), which writes the investments row and
+ * updates the campaign's `funding_raised`. db/investment_commitments.sql
+ * enforces the startup's side on the hosted database.
+ */
+
+import { supabase } from '../../supabaseClient';
+import { InterestRepository } from '../data/interest.repository';
+import { CampaignInterestRow, InterestStatus, InvestmentRow } from '../data/database.types';
+import type { KycBlock } from '../../utils/kyc.util';
+import { logger } from '../../utils/logger';
+
+export const INTEREST_STAGE_LABELS: Record<InterestStatus, string> = {
+  pending: 'New',
+  contacted: 'Contacted',
+  meeting_scheduled: 'Meeting scheduled',
+  invested: 'Invested'
+};
+
+// The next stage the startup can move an interest to, with its button
+// label. A meeting is scheduled when the investor accepts one of the
+// startup's proposed times, and confirming the investment is left to
+// the investor.
+const NEXT_STAGE: Partial<Record<InterestStatus, { to: InterestStatus; label: string }>> = {
+  pending: { to: 'contacted', label: 'Mark Contacted' }
+};
+
+export type InterestResult =
+  | { success: true; interest: CampaignInterestRow }
+  | { success: false; error: string };
+
+export type CommitmentResult =
+  | { success: true; investment: InvestmentRow; fundingRaised: number }
+  // `kyc` is set when the investor's verification is what stopped it.
+  | { success: false; error: string; kyc?: KycBlock };
+
+// Rows written before statuses were enforced may have no status.
+export function interestStage(interest: Pick<CampaignInterestRow, 'status'>): InterestStatus {
+  return interest.status || 'pending';
+}
+
+export function nextStageFor(interest: CampaignInterestRow): { to: InterestStatus; label: string } | null {
+  return NEXT_STAGE[interestStage(interest)] ?? null;
+}
+
+// Whether the investor can confirm a final amount for this interest.
+export function canConfirm(interest: CampaignInterestRow | null): boolean {
+  if (!interest) return false;
+  const stage = interestStage(interest);
+  return stage === 'contacted' || stage === 'meeting_scheduled';
+}
+
+/*
+ * advanceInterest
+ * - Move the interest one stage along on behalf of the startup.
+ * - Fails without writing if the interest has moved since it was loaded.
+ */
+export async function advanceInterest(interest: CampaignInterestRow): Promise<InterestResult> {
+  const next = nextStageFor(interest);
+  if (!next) {
+    return { success: false, error: `A ${INTEREST_STAGE_LABELS[interestStage(interest)].toLowerCase()} interest cannot be moved on.` };
+  }
+
+  try {
+    const updated = await InterestRepository.updateStatus(interest.id, interest.status, next.to);
+    if (!updated) {
+      return { success: false, error: 'This interest was changed elsewhere. Refresh and try again.' };
+    }
+    logger.info('advanceInterest', { interestId: interest.id, to: next.to });
+    return { success: true, interest: updated };
+  } catch (err: any) {
+    logger.error('advanceInterest failed', { interestId: interest.id, err });
+    return { success: false, error: err?.message || 'Failed to update interest' };
+  }
+}
+
+/*
+ * confirmCommitment
+ * - Investor confirms the final amount and equity for an interest.
+ * - The server function checks the terms against the campaign, so the
+ *   error it returns can be shown as-is.
+ */
+export async function confirmCommitment(
+  interestId: string,
+  terms: { amount: number; equity: number }
+): Promise<CommitmentResult> {
+  const { data, error } = await supabase.functions.invoke('commit-investment', {
+    body: { interestId, amount: terms.amount, equity: terms.equity }
+  });
+
+  if (error || !data) {
+    logger.error('commit-investment call failed', { interestId, error });
+    return { success: false, error: 'Could not reach the investment service. Please try again.' };
+  }
+
+  return data;
+}
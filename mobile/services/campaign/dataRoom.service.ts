@@ -0,0 +1,168 @@
+/*
+ * services/campaign/dataRoom.service.ts
+ *
+ * Purpose: a campaign's data room: documents the startup uploads to
+ * storage and investors open once the startup has been in touch.
+ *
+ * - `uploadDocument` stores a file and describes it in
+ *   `campaign_documents`; passing `replaces` makes it the next version
+ *   of an existing document.
+ * - `openDocument` asks the open-campaign-document server function for
+ *   a short-lived link, watermarked with the viewer's identity for PDFs.
+ *   Every link handed out is in the document's access log.
+ *
+ * Picking the file is left to the screen (expo-document-picker), so this
+ * module runs anywhere.
+ */
+
+import { supabase } from '../../supabaseClient';
+import { CampaignDocumentRepository } from '../data/document.repository';
+import { CampaignRepository } from '../data/campaign.repository';
+import {
+  CampaignDocumentRow,
+  CampaignDocumentType,
+  DocumentAccessAction,
+  DocumentAccessLogRow
+} from '../data/database.types';
+import {
+  dataRoomAccess,
+  DocumentViewer,
+  documentPath,
+  MAX_DOCUMENT_BYTES,
+  versionHistory,
+  viewerCopyPath
+} from '../../utils/document.util';
+import { uuidv4 } from '../../utils/id.util';
+import { logger } from '../../utils/logger';
+import type { OpenCampaignDocumentResult } from '../../server/openCampaignDocument';
+
+// A file chosen on the device, as expo-document-picker describes it.
+export type DocumentFile = {
+  uri: string;
+  name: string;
+  size?: number | null;
+  mimeType?: string | null;
+};
+
+export type UploadResult = { success: true; document: CampaignDocumentRow } | { success: false; error: string };
+
+export type UploadOptions = {
+  documentType: CampaignDocumentType;
+  isPublic: boolean;
+  uploadedBy: string;
+  // The current version this upload replaces.
+  replaces?: CampaignDocumentRow | null;
+};
+
+/*
+ * uploadDocument
+ * - The file goes to storage first; if the row cannot be written the
+ *   file is removed again.
+ * - A replacement keeps its own type and visibility from `options`, and
+ *   the old version is marked superseded only once the new one exists.
+ */
+export async function uploadDocument(campaignId: string, file: DocumentFile, options: UploadOptions): Promise<UploadResult> {
+  if (!file.name) return { success: false, error: 'Choose a file to upload.' };
+  if (file.size && file.size > MAX_DOCUMENT_BYTES) {
+    return { success: false, error: `Files can be up to ${MAX_DOCUMENT_BYTES / (1024 * 1024)} MB.` };
+  }
+
+  const id = uuidv4();
+  const path = documentPath(campaignId, id, file.name);
+  const contentType = file.mimeType || 'application/octet-stream';
+  let uploaded = false;
+
+  try {
+    const body = await fetch(file.uri).then(response => response.arrayBuffer());
+    if (body.byteLength > MAX_DOCUMENT_BYTES) {
+      return { success: false, error: `Files can be up to ${MAX_DOCUMENT_BYTES / (1024 * 1024)} MB.` };
+    }
+    await CampaignDocumentRepository.uploadFile(path, body, contentType);
+    uploaded = true;
+
+    const document = await CampaignDocumentRepository.create({
+      id,
+      campaign_id: campaignId,
+      document_type: options.documentType,
+      file_name: file.name,
+      file_size: body.byteLength,
+      storage_path: path,
+      content_type: contentType,
+      uploaded_by: options.uploadedBy,
+      is_public: options.isPublic,
+      version: options.replaces ? options.replaces.version + 1 : 1,
+      previous_version_id: options.replaces?.id ?? null
+    });
+    if (options.replaces) {
+      await CampaignDocumentRepository.markSuperseded(options.replaces.id, document.created_at || new Date().toISOString());
+    }
+
+    logger.info('uploadDocument', { campaignId, documentId: id, version: document.version });
+    return { success: true, document };
+  } catch (err) {
+    logger.error('uploadDocument failed', { campaignId, err });
+    if (uploaded) {
+      CampaignDocumentRepository.removeFiles([path]).catch(cleanupErr =>
+        logger.warn('uploadDocument: could not remove orphaned file', { path, cleanupErr })
+      );
+    }
+    return { success: false, error: 'Could not upload the document. Please try again.' };
+  }
+}
+
+export async function openDocument(documentId: string, action: DocumentAccessAction): Promise<OpenCampaignDocumentResult> {
+  try {
+    const { data, error } = await supabase.functions.invoke('open-campaign-document', { body: { documentId, action } });
+    if (error || !data) throw error ?? new Error('No response');
+    return data as OpenCampaignDocumentResult;
+  } catch (err) {
+    logger.error('openDocument failed', { documentId, err });
+    return { success: false, error: 'Could not open the document. Please try again.' };
+  }
+}
+
+/*
+ * loadDocuments
+ * - The current documents `viewer` may open. RLS does this on the hosted
+ *   database; the filter here covers the local backend, which has none.
+ */
+export async function loadDocuments(campaignId: string, viewer: DocumentViewer): Promise<CampaignDocumentRow[]> {
+  const documents = await CampaignRepository.listDocuments(campaignId);
+  return dataRoomAccess(viewer) === 'full' ? documents : documents.filter(d => d.is_public);
+}
+
+// Every version of every document, for the startup managing them.
+export function loadAllVersions(campaignId: string): Promise<CampaignDocumentRow[]> {
+  return CampaignDocumentRepository.listByCampaign(campaignId);
+}
+
+export function loadAccessLog(documents: CampaignDocumentRow[]): Promise<DocumentAccessLogRow[]> {
+  return CampaignDocumentRepository.listAccessLogs(documents.map(d => d.id));
+}
+
+/*
+ * deleteDocument
+ * - Removes the document with all its earlier versions, their files and
+ *   the watermarked copies handed to viewers.
+ */
+export async function deleteDocument(document: CampaignDocumentRow, all: CampaignDocumentRow[]): Promise<boolean> {
+  const versions = versionHistory(document, all);
+  try {
+    // Read before deleting: the log goes with the rows.
+    const log = await CampaignDocumentRepository.listAccessLogs(versions.map(v => v.id));
+    const paths = new Set<string>();
+    versions.forEach(v => v.storage_path && paths.add(v.storage_path));
+    log.forEach(entry => {
+      const version = versions.find(v => v.id === entry.document_id);
+      if (version && entry.watermarked && entry.viewer_id) paths.add(viewerCopyPath(version, entry.viewer_id));
+    });
+
+    await CampaignDocumentRepository.remove(versions.map(v => v.id));
+    await CampaignDocumentRepository.removeFiles([...paths]);
+    logger.info('deleteDocument', { documentId: document.id, versions: versions.length });
+    return true;
+  } catch (err) {
+    logger.error('deleteDocument failed', { documentId: document.id, err });
+    return false;
+  }
+}
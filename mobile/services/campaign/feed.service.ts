@@ -0,0 +1,163 @@
+/*
+ * services/campaign/feed.service.ts
+ *
+ * Purpose: the investor swipe feed. The feed is every active campaign
+ * the investor has not decided on yet; a swipe is stored in
+ * `campaign_swipes` and a right swipe also records a `pending` interest
+ * the startup sees in its pipeline. The last swipe can be undone.
+ *
+ * A decided campaign comes back only when its material terms change,
+ * detected by comparing `campaignFingerprint` with the one saved on the
+ * swipe. Progress such as `funding_raised` does not count.
+ */
+
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+import { CampaignRepository, CampaignWithStartup } from '../data/campaign.repository';
+import { InterestRepository } from '../data/interest.repository';
+import { SwipeRepository } from '../data/swipe.repository';
+import { CampaignRow, CampaignSwipeRow, MatchRow, SwipeDirection } from '../data/database.types';
+import { matchAfterInterest } from '../match/match.service';
+import { notify } from '../notification/notification.service';
+import { logger } from '../../utils/logger';
+
+export type SwipeResult =
+  | { success: true; swipe: CampaignSwipeRow; match: MatchRow | null }
+  | { success: false; error: string };
+
+// The terms an investor decides on. Keep in step with the list in
+// db/campaign_swipes.sql.
+const MATERIAL_FIELDS = [
+  'title',
+  'description',
+  'funding_goal',
+  'equity_offered',
+  'campaign_type',
+  'min_investment',
+  'max_investment',
+  'end_date',
+  'use_of_funds'
+] as const;
+
+/*
+ * campaignFingerprint
+ * - A short hash of the campaign's material terms. Numbers are
+ *   normalised so 5000000 and "5000000.00" from Postgres match.
+ */
+export function campaignFingerprint(campaign: Pick<CampaignRow, (typeof MATERIAL_FIELDS)[number]>): string {
+  const terms = MATERIAL_FIELDS.map(field => {
+    const value = campaign[field];
+    if (value === null || value === undefined || value === '') return null;
+    return typeof value === 'number' || /^-?\d+(\.\d+)?$/.test(String(value)) ? Number(value) : String(value).trim();
+  });
+  return bytesToHex(sha256(utf8ToBytes(JSON.stringify(terms)))).slice(0, 32);
+}
+
+/*
+ * loadSwipeFeed
+ * - Active campaigns, newest first, minus those the investor has swiped
+ *   on (unless the terms changed since) or already expressed interest in
+ *   from the campaign page.
+ */
+export async function loadSwipeFeed(investorId: string): Promise<CampaignWithStartup[]> {
+  const [campaigns, swipes, interests] = await Promise.all([
+    CampaignRepository.listActive(),
+    SwipeRepository.listForInvestor(investorId),
+    InterestRepository.listForInvestor(investorId)
+  ]);
+
+  const swipedFingerprint = new Map(swipes.map(s => [s.campaign_id, s.campaign_fingerprint]));
+  const interested = new Set(interests.map(i => i.campaign_id));
+
+  return campaigns.filter(campaign => {
+    const fingerprint = swipedFingerprint.get(campaign.id);
+    if (fingerprint !== undefined) return fingerprint !== campaignFingerprint(campaign);
+    return !interested.has(campaign.id);
+  });
+}
+
+/*
+ * recordSwipe
+ * - A right swipe creates a `pending` interest unless the investor
+ *   already has one for the campaign; the swipe links to the interest
+ *   only when it created it (so undo never removes anything else).
+ * - If the swipe cannot be saved, the interest it created is removed
+ *   again so the two stay consistent.
+ * - `match` is set when that interest completed a match with a startup
+ *   that had already liked the investor.
+ */
+export async function recordSwipe(
+  investorId: string,
+  campaign: CampaignRow,
+  direction: SwipeDirection
+): Promise<SwipeResult> {
+  let createdInterestId: string | null = null;
+
+  try {
+    if (direction === 'right') {
+      const existing = await InterestRepository.findForInvestor(campaign.id, investorId);
+      if (!existing) {
+        const interest = await InterestRepository.create({
+          campaign_id: campaign.id,
+          investor_id: investorId,
+          interest_level: 'interested',
+          status: 'pending'
+        });
+        createdInterestId = interest.id;
+      }
+    }
+
+    const swipe = await SwipeRepository.save({
+      investorId,
+      campaignId: campaign.id,
+      direction,
+      campaignFingerprint: campaignFingerprint(campaign),
+      interestId: createdInterestId
+    });
+
+    const match = createdInterestId ? await matchAfterInterest(campaign, investorId) : null;
+
+    if (createdInterestId) notify({ type: 'interest.submitted', campaignId: campaign.id });
+
+    logger.info('recordSwipe', { investorId, campaignId: campaign.id, direction });
+    return { success: true, swipe, match };
+  } catch (err) {
+    logger.error('recordSwipe failed', { investorId, campaignId: campaign.id, direction, err });
+    if (createdInterestId) {
+      try {
+        await InterestRepository.removeIfPending(createdInterestId);
+      } catch (cleanupErr) {
+        logger.error('recordSwipe: failed to remove interest', { interestId: createdInterestId, cleanupErr });
+      }
+    }
+    return { success: false, error: 'Could not save your choice. Please try again.' };
+  }
+}
+
+/*
+ * undoSwipe
+ * - Forget the swipe so the campaign returns to the feed, and remove
+ *   the interest it created.
+ * - Refused once the startup has moved that interest on; the investor
+ *   is already in their pipeline.
+ */
+export async function undoSwipe(swipe: CampaignSwipeRow): Promise<{ success: true } | { success: false; error: string }> {
+  try {
+    if (swipe.interest_id) {
+      const removed = await InterestRepository.removeIfPending(swipe.interest_id);
+      if (!removed) {
+        const interest = await InterestRepository.findForInvestor(swipe.campaign_id, swipe.investor_id);
+        if (interest) {
+          return { success: false, error: 'The startup has already responded to your interest.' };
+        }
+      }
+    }
+
+    await SwipeRepository.remove(swipe.id);
+    logger.info('undoSwipe', { investorId: swipe.investor_id, campaignId: swipe.campaign_id });
+    return { success: true };
+  } catch (err) {
+    logger.error('undoSwipe failed', { swipeId: swipe.id, err });
+    return { success: false, error: 'Could not undo. Please try again.' };
+  }
+}
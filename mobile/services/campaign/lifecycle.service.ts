@@ -0,0 +1,211 @@
+/*
+ * services/campaign/lifecycle.service.ts
+ *
+ * Purpose: the rules for moving a fundraising campaign between statuses.
+ * Screens ask `availableTransitions` which buttons to show and call
+ * `transitionCampaign` to apply one; nothing else should write
+ * `fundraising_campaigns.status`.
+ *
+ * A transition checks, in order:
+ * 1. the move is legal from the current status,
+ * 2. the actor (campaign owner or admin) may make it,
+ * 3. the campaign has the fields the target status needs,
+ * 4. the startup has the KYC level the target status needs
+ *    (utils/kyc.util.ts).
+ * It then stamps the status timestamps, appends a history row and
+ * notifies whoever the change affects.
+ *
+ * db/campaign_lifecycle.sql enforces the same table on the hosted
+ * database; keep the two in sync.
+ */
+
+import { CampaignRepository } from '../data/campaign.repository';
+import { CampaignRow, CampaignStatus, KycRecordRow, TablesUpdate } from '../data/database.types';
+import { StartupRepository } from '../data/startup.repository';
+import { Role } from '../roles';
+import { notify } from '../notification/notification.service';
+import { loadMyKyc, refreshKycFor } from '../verification/kyc.service';
+import { KycAction, KycBlock, kycBlockFor, kycBlockMessage } from '../../utils/kyc.util';
+import { logger } from '../../utils/logger';
+
+// Who is making the change: the startup that owns the campaign, or an
+// admin moderating it.
+export type CampaignActor = 'owner' | 'admin';
+
+export type CampaignTransition = {
+  from: CampaignStatus;
+  to: CampaignStatus;
+  label: string;
+  actors: CampaignActor[];
+  // Whether the campaign must pass `missingFieldsFor` first.
+  requiresFields?: boolean;
+};
+
+export type TransitionResult =
+  | { success: true; campaign: CampaignRow }
+  // `kyc` is set when the startup's verification is what stopped it.
+  | { success: false; error: string; kyc?: KycBlock };
+
+export const CAMPAIGN_TRANSITIONS: CampaignTransition[] = [
+  { from: 'draft', to: 'pending_review', label: 'Submit for Review', actors: ['owner'], requiresFields: true },
+  { from: 'draft', to: 'cancelled', label: 'Cancel', actors: ['owner'] },
+  { from: 'pending_review', to: 'active', label: 'Approve', actors: ['admin'], requiresFields: true },
+  { from: 'pending_review', to: 'draft', label: 'Back to Draft', actors: ['owner', 'admin'] },
+  { from: 'pending_review', to: 'cancelled', label: 'Cancel', actors: ['owner'] },
+  { from: 'pending_review', to: 'rejected', label: 'Reject', actors: ['admin'] },
+  { from: 'active', to: 'paused', label: 'Pause', actors: ['owner', 'admin'] },
+  { from: 'active', to: 'completed', label: 'Close Round', actors: ['owner'] },
+  { from: 'active', to: 'cancelled', label: 'Cancel', actors: ['owner', 'admin'] },
+  { from: 'paused', to: 'active', label: 'Resume', actors: ['owner', 'admin'], requiresFields: true },
+  { from: 'paused', to: 'completed', label: 'Close Round', actors: ['owner'] },
+  { from: 'paused', to: 'cancelled', label: 'Cancel', actors: ['owner', 'admin'] }
+];
+
+// The column stamped when a campaign enters each status. Drafts have none:
+// `created_at` covers the first one and history covers the rest.
+type StatusTimestampColumn = 'submitted_at' | 'activated_at' | 'paused_at' | 'completed_at' | 'cancelled_at' | 'rejected_at';
+const STATUS_TIMESTAMPS: Partial<Record<CampaignStatus, StatusTimestampColumn>> = {
+  pending_review: 'submitted_at',
+  active: 'activated_at',
+  paused: 'paused_at',
+  completed: 'completed_at',
+  cancelled: 'cancelled_at',
+  rejected: 'rejected_at'
+};
+
+// Statuses a startup must reach a KYC level to enter; the levels are in
+// KYC_POLICY.
+const STATUS_KYC_ACTIONS: Partial<Record<CampaignStatus, KycAction>> = {
+  pending_review: 'campaign.submit',
+  active: 'campaign.activate'
+};
+
+// Rows written before statuses were enforced may have no status.
+export function currentStatus(campaign: Pick<CampaignRow, 'status'>): CampaignStatus {
+  return campaign.status || 'draft';
+}
+
+// Admins moderate every campaign; other roles act only as owners of
+// their own campaigns.
+export function actorForRole(role: Role | null): CampaignActor {
+  return role === 'admin' || role === 'super_admin' ? 'admin' : 'owner';
+}
+
+/*
+ * missingFieldsFor
+ * - Human-readable names of the fields a campaign still needs before it
+ *   can be reviewed or go live. Empty when nothing is missing.
+ */
+export function missingFieldsFor(campaign: CampaignRow): string[] {
+  const missing: string[] = [];
+  if (!campaign.title?.trim()) missing.push('Title');
+  if (!campaign.description?.trim()) missing.push('Description');
+  if (!(Number(campaign.funding_goal) > 0)) missing.push('Funding goal');
+  // Debt raises offer no equity.
+  if (campaign.campaign_type !== 'debt' && !(Number(campaign.equity_offered) > 0)) missing.push('Equity offered');
+  if (!campaign.pitch_deck_url?.trim()) missing.push('Pitch deck');
+  return missing;
+}
+
+/*
+ * availableTransitions
+ * - The moves `actor` may make from the campaign's current status, in
+ *   the order buttons should appear. Required fields are not checked
+ *   here so the button still shows and can explain what is missing.
+ */
+export function availableTransitions(campaign: CampaignRow, actor: CampaignActor): CampaignTransition[] {
+  const from = currentStatus(campaign);
+  return CAMPAIGN_TRANSITIONS.filter(t => t.from === from && t.actors.includes(actor));
+}
+
+/*
+ * transitionCampaign
+ * - Move `campaign` to `to` on behalf of `userId`.
+ * - Expected failures (illegal move, missing fields, campaign changed
+ *   underneath us) come back as `{ success: false, error }`.
+ */
+export async function transitionCampaign(
+  campaign: CampaignRow,
+  to: CampaignStatus,
+  options: { actor: CampaignActor; userId: string; note?: string }
+): Promise<TransitionResult> {
+  const from = currentStatus(campaign);
+  const transition = CAMPAIGN_TRANSITIONS.find(t => t.from === from && t.to === to);
+
+  if (!transition) {
+    return { success: false, error: `A ${formatStatus(from)} campaign cannot be moved to ${formatStatus(to)}.` };
+  }
+  if (!transition.actors.includes(options.actor)) {
+    return { success: false, error: `You are not allowed to ${transition.label.toLowerCase()} this campaign.` };
+  }
+  if (transition.requiresFields) {
+    const missing = missingFieldsFor(campaign);
+    if (missing.length > 0) {
+      return { success: false, error: `Add the following before continuing: ${missing.join(', ')}.` };
+    }
+  }
+
+  const kycAction = STATUS_KYC_ACTIONS[to];
+  if (kycAction) {
+    // The startup owner's record is refreshed first so a step just
+    // finished counts; the trigger in db/kyc.sql checks the stored one.
+    let record: KycRecordRow | null = null;
+    try {
+      let ownerId: string | null = options.userId;
+      if (options.actor === 'admin') {
+        ownerId = campaign.startup_id ? (await StartupRepository.getById(campaign.startup_id))?.owner_id ?? null : null;
+      }
+      if (ownerId) {
+        const loaded = options.actor === 'owner' ? await loadMyKyc() : await refreshKycFor(ownerId);
+        if (loaded.success === false) return { success: false, error: loaded.error };
+        record = loaded.record;
+      }
+    } catch (err: any) {
+      logger.error('transitionCampaign: failed to load KYC record', { campaignId: campaign.id, to, err });
+      return { success: false, error: err?.message || 'Failed to check verification status' };
+    }
+    const block = kycBlockFor(kycAction, record);
+    if (block) {
+      return { success: false, error: kycBlockMessage(block, options.actor === 'admin' ? 'startup' : 'you'), kyc: block };
+    }
+  }
+
+  const now = new Date().toISOString();
+  const patch: TablesUpdate<'fundraising_campaigns'> = { status: to, status_changed_at: now };
+  const timestampColumn = STATUS_TIMESTAMPS[to];
+  if (timestampColumn) patch[timestampColumn] = now;
+
+  let updated: CampaignRow | null;
+  try {
+    updated = await CampaignRepository.updateStatus(campaign.id, campaign.status, patch);
+  } catch (err: any) {
+    logger.error('transitionCampaign failed', { campaignId: campaign.id, from, to, err });
+    return { success: false, error: err?.message || 'Failed to update campaign status' };
+  }
+  if (!updated) {
+    return { success: false, error: 'This campaign was changed elsewhere. Refresh and try again.' };
+  }
+
+  // The status change has happened at this point; a missing history row
+  // is logged rather than reported as a failed transition.
+  try {
+    await CampaignRepository.recordStatusChange({
+      campaign_id: campaign.id,
+      from_status: from,
+      to_status: to,
+      changed_by: options.userId,
+      note: options.note?.trim() || null
+    });
+  } catch (err) {
+    logger.error('transitionCampaign: failed to record history', { campaignId: campaign.id, from, to, err });
+  }
+
+  logger.info('transitionCampaign', { campaignId: campaign.id, from, to, actor: options.actor });
+  notify({ type: 'campaign.status_changed', campaignId: campaign.id });
+  return { success: true, campaign: updated };
+}
+
+// "pending_review" -> "pending review", for messages.
+export function formatStatus(status: CampaignStatus): string {
+  return status.replace(/_/g, ' ');
+}
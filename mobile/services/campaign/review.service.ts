@@ -0,0 +1,84 @@
+/*
+ * services/campaign/review.service.ts
+ *
+ * Purpose: admin decisions on campaigns that are waiting for review.
+ * Each decision moves the campaign through the lifecycle and is written
+ * to `campaign_reviews`, which is both the moderation audit trail and
+ * where the startup reads the reason it was given.
+ *
+ *   approve          pending_review -> active
+ *   request changes  pending_review -> draft (startup edits and resubmits)
+ *   reject           pending_review -> rejected (final)
+ */
+
+import { CampaignReviewRepository } from '../data/review.repository';
+import { CampaignReviewDecision, CampaignReviewRow, CampaignRow, CampaignStatus } from '../data/database.types';
+import { logger } from '../../utils/logger';
+import { TransitionResult, transitionCampaign } from './lifecycle.service';
+
+const DECISION_STATUS: Record<CampaignReviewDecision, CampaignStatus> = {
+  approved: 'active',
+  changes_requested: 'draft',
+  rejected: 'rejected'
+};
+
+export const DECISION_LABELS: Record<CampaignReviewDecision, string> = {
+  approved: 'Approved',
+  changes_requested: 'Changes requested',
+  rejected: 'Rejected'
+};
+
+/*
+ * reviewCampaign
+ * - `reason` is required for everything except approval; it is what the
+ *   startup sees on its dashboard.
+ * - Returns the lifecycle result, so failures read the same as any other
+ *   status change.
+ */
+export async function reviewCampaign(
+  campaign: CampaignRow,
+  decision: CampaignReviewDecision,
+  options: { reviewerId: string; reason?: string }
+): Promise<TransitionResult> {
+  const reason = options.reason?.trim() || null;
+  if (decision !== 'approved' && !reason) {
+    return { success: false, error: 'Add a reason so the startup knows what to change.' };
+  }
+  if (campaign.status !== 'pending_review') {
+    return { success: false, error: 'This campaign is no longer waiting for review.' };
+  }
+
+  const result = await transitionCampaign(campaign, DECISION_STATUS[decision], {
+    actor: 'admin',
+    userId: options.reviewerId,
+    note: reason ?? undefined
+  });
+  if (result.success === false) return result;
+
+  // The campaign has already moved; a failed insert here is logged, the
+  // status history still records who made the change and why.
+  try {
+    await CampaignReviewRepository.create({
+      campaign_id: campaign.id,
+      reviewer_id: options.reviewerId,
+      decision,
+      reason
+    });
+  } catch (err) {
+    logger.error('reviewCampaign: failed to record review', { campaignId: campaign.id, decision, err });
+  }
+
+  logger.info('reviewCampaign', { campaignId: campaign.id, decision, reviewerId: options.reviewerId });
+  return result;
+}
+
+/*
+ * feedbackFor
+ * - The review a startup should see for its campaign right now: the
+ *   latest one, as long as the campaign is still where that review left
+ *   it. Once a sent-back draft is resubmitted the old feedback is hidden.
+ */
+export function feedbackFor(campaign: CampaignRow, latest: CampaignReviewRow | undefined): CampaignReviewRow | null {
+  if (!latest || latest.decision === 'approved') return null;
+  return (campaign.status || 'draft') === DECISION_STATUS[latest.decision] ? latest : null;
+}
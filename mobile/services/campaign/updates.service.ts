@@ -0,0 +1,101 @@
+/*
+ * services/campaign/updates.service.ts
+ *
+ * Purpose: the news a startup posts on its campaign. Updates are public
+ * or private; private ones are for investors who have expressed
+ * interest in the campaign, and db/campaign_updates.sql enforces that on
+ * the hosted database. Posting notifies the campaign's followers through
+ * the notify-event server function.
+ */
+
+import { CampaignUpdateRepository } from '../data/campaignUpdate.repository';
+import { CampaignStatus, CampaignUpdateRow, CampaignUpdateType } from '../data/database.types';
+import { notify } from '../notification/notification.service';
+import { logger } from '../../utils/logger';
+
+export type PostUpdateResult = { success: true; update: CampaignUpdateRow } | { success: false; error: string };
+
+export type UpdateDraft = {
+  title: string;
+  content: string;
+  updateType: CampaignUpdateType;
+  isPublic: boolean;
+};
+
+export const UPDATE_TYPE_LABELS: Record<CampaignUpdateType, string> = {
+  general: 'General',
+  milestone: 'Milestone',
+  financial: 'Financial',
+  team: 'Team'
+};
+
+// Match the checks in db/campaign_updates.sql.
+export const UPDATE_TITLE_MAX = 120;
+export const UPDATE_CONTENT_MAX = 5000;
+
+// Updates are news about a round investors can see; drafts and rounds
+// under review have no audience yet.
+const POSTABLE_STATUSES: CampaignStatus[] = ['active', 'paused', 'completed'];
+
+export function canPostUpdates(campaign: { status: CampaignStatus | null }): boolean {
+  return !!campaign.status && POSTABLE_STATUSES.includes(campaign.status);
+}
+
+/*
+ * postUpdate
+ * - The caller must own the campaign; RLS checks that on the hosted
+ *   database and notify-event checks it again before telling anyone.
+ */
+export async function postUpdate(
+  campaign: { id: string; status: CampaignStatus | null },
+  draft: UpdateDraft
+): Promise<PostUpdateResult> {
+  const title = draft.title.trim();
+  const content = draft.content.trim();
+  if (!canPostUpdates(campaign)) {
+    return { success: false, error: 'Updates can be posted once the campaign is live.' };
+  }
+  if (!title || !content) return { success: false, error: 'Add a title and some details.' };
+  if (title.length > UPDATE_TITLE_MAX) {
+    return { success: false, error: `Keep the title under ${UPDATE_TITLE_MAX} characters.` };
+  }
+  if (content.length > UPDATE_CONTENT_MAX) {
+    return { success: false, error: `Keep the update under ${UPDATE_CONTENT_MAX} characters.` };
+  }
+
+  try {
+    const update = await CampaignUpdateRepository.create({
+      campaign_id: campaign.id,
+      title,
+      content,
+      update_type: draft.updateType,
+      is_public: draft.isPublic
+    });
+    logger.info('postUpdate', { campaignId: campaign.id, updateId: update.id, isPublic: update.is_public });
+    notify({ type: 'campaign.update_posted', updateId: update.id });
+    return { success: true, update };
+  } catch (err) {
+    logger.error('postUpdate failed', { campaignId: campaign.id, err });
+    return { success: false, error: 'Could not post the update. Please try again.' };
+  }
+}
+
+/*
+ * loadUpdates
+ * - `canSeePrivate` is true for the campaign's owner and for investors
+ *   with an interest in it. Everyone else gets the public updates only.
+ */
+export function loadUpdates(campaignId: string, canSeePrivate: boolean): Promise<CampaignUpdateRow[]> {
+  return CampaignUpdateRepository.listByCampaign(campaignId, { includePrivate: canSeePrivate });
+}
+
+export async function deleteUpdate(update: CampaignUpdateRow): Promise<boolean> {
+  try {
+    await CampaignUpdateRepository.remove(update.id);
+    logger.info('deleteUpdate', { updateId: update.id, campaignId: update.campaign_id });
+    return true;
+  } catch (err) {
+    logger.error('deleteUpdate failed', { updateId: update.id, err });
+    return false;
+  }
+}
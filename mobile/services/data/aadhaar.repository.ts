@@ -0,0 +1,43 @@
+/*
+ * services/data/aadhaar.repository.ts
+ *
+ * Purpose: read a user's Aadhaar verification status. Checks are only
+ * written by the request-aadhaar-otp and submit-aadhaar-otp server
+ * functions (db/aadhaar_otp.sql); the app never selects the encrypted
+ * number or the provider's transaction id.
+ */
+
+import { supabase } from '../../supabaseClient';
+import { AadhaarCheckRow } from './database.types';
+
+// What the verification screen shows about a check.
+export type AadhaarCheckSummary = Pick<
+  AadhaarCheckRow,
+  'id' | 'aadhaar_last4' | 'status' | 'attempts' | 'otp_expires_at' | 'verified_at'
+>;
+
+export type AadhaarStatus = {
+  verified: boolean;
+  // The check that verified the user, or else their latest one.
+  check: AadhaarCheckSummary | null;
+};
+
+const CHECK_SUMMARY_COLUMNS = 'id, aadhaar_last4, status, attempts, otp_expires_at, verified_at';
+
+export const AadhaarRepository = {
+  async getStatus(userId: string): Promise<AadhaarStatus> {
+    const { data: user, error: userError } = await supabase
+      .from('users')
+      .select('aadhaar_verified, aadhaar_check_id')
+      .eq('id', userId)
+      .maybeSingle();
+    if (userError) throw userError;
+
+    let query = supabase.from('aadhaar_checks').select(CHECK_SUMMARY_COLUMNS).eq('user_id', userId);
+    query = user?.aadhaar_check_id ? query.eq('id', user.aadhaar_check_id) : query;
+    const { data: checks, error } = await query.order('created_at', { ascending: false }).limit(1);
+    if (error) throw error;
+
+    return { verified: Boolean(user?.aadhaar_verified), check: checks?.[0] ?? null };
+  }
+};
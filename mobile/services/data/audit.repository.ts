@@ -0,0 +1,52 @@
+/*
+ * services/data/audit.repository.ts
+ *
+ * Purpose: queries against `audit_events`, the append-only record of
+ * privileged admin actions. Events are written by
+ * services/admin/moderation.service.ts alongside the action itself.
+ */
+
+import { supabase } from '../../supabaseClient';
+import { AuditEventRow, AuditTargetType, TablesInsert } from './database.types';
+
+// Filters for the admin Audit Log screen. Dates are ISO timestamps;
+// `from` is inclusive and `to` exclusive.
+export type AuditEventFilters = {
+  actorId?: string;
+  targetType?: AuditTargetType;
+  targetId?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+};
+
+export const AuditEventRepository = {
+  async create(event: TablesInsert<'audit_events'>): Promise<AuditEventRow> {
+    const { data, error } = await supabase
+      .from('audit_events')
+      .insert(event)
+      .select('*')
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  // Events matching every given filter, newest first.
+  async list(filters: AuditEventFilters = {}): Promise<AuditEventRow[]> {
+    let query = supabase.from('audit_events').select('*');
+
+    if (filters.actorId) query = query.eq('actor_id', filters.actorId);
+    if (filters.targetType) query = query.eq('target_type', filters.targetType);
+    if (filters.targetId) query = query.eq('target_id', filters.targetId);
+    if (filters.from) query = query.gte('created_at', filters.from);
+    if (filters.to) query = query.lt('created_at', filters.to);
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .limit(filters.limit ?? 500);
+
+    if (error) throw error;
+    return data ?? [];
+  }
+};
@@ -0,0 +1,177 @@
+/*
+ * services/data/campaign.repository.ts
+ *
+ * Purpose: one place for every query against `fundraising_campaigns`.
+ * Screens call these functions instead of building queries inline, so
+ * the select lists and row shapes stay in sync with the schema types.
+ *
+ * Errors from Supabase are thrown as-is; screens already wrap their
+ * loads in try/catch and show an Alert.
+ */
+
+import { supabase } from '../../supabaseClient';
+import {
+  CampaignDocumentRow,
+  CampaignRow,
+  CampaignStatus,
+  CampaignStatusHistoryRow,
+  CampaignType,
+  StartupRow,
+  TablesInsert,
+  TablesUpdate
+} from './database.types';
+
+// Campaign card data: the campaign plus the owning startup's name,
+// industry, stage and location, as shown (and ranked) on browse lists.
+export type CampaignWithStartup = CampaignRow & {
+  startups: Pick<StartupRow, 'company_name' | 'industry' | 'funding_stage' | 'location'> | null;
+};
+
+export const CAMPAIGN_WITH_STARTUP = '*, startups (company_name, industry, funding_stage, location)';
+
+// Campaign detail data: the campaign plus the full startup profile.
+export type CampaignWithStartupDetail = CampaignRow & {
+  startups: StartupRow | null;
+};
+
+export const CampaignRepository = {
+  // Active campaigns for investors, newest first. Pass a campaign type
+  // to narrow the list (equity / debt / convertible).
+  async listActive(campaignType?: CampaignType): Promise<CampaignWithStartup[]> {
+    let query = supabase
+      .from('fundraising_campaigns')
+      .select(CAMPAIGN_WITH_STARTUP)
+      .eq('status', 'active');
+
+    if (campaignType) {
+      query = query.eq('campaign_type', campaignType);
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: false });
+    if (error) throw error;
+    return data ?? [];
+  },
+
+  // Campaigns waiting for an admin decision, oldest submission first so
+  // the queue is worked in order.
+  async listForReview(): Promise<CampaignWithStartup[]> {
+    const { data, error } = await supabase
+      .from('fundraising_campaigns')
+      .select(CAMPAIGN_WITH_STARTUP)
+      .eq('status', 'pending_review')
+      .order('submitted_at', { ascending: true });
+
+    if (error) throw error;
+    return data ?? [];
+  },
+
+  async countForReview(): Promise<number> {
+    const { count, error } = await supabase
+      .from('fundraising_campaigns')
+      .select('id', { count: 'exact', head: true })
+      .eq('status', 'pending_review');
+
+    if (error) throw error;
+    return count ?? 0;
+  },
+
+  // All campaigns owned by one startup, newest first.
+  async listByStartup(startupId: string): Promise<CampaignRow[]> {
+    const { data, error } = await supabase
+      .from('fundraising_campaigns')
+      .select('*')
+      .eq('startup_id', startupId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data ?? [];
+  },
+
+  // A single campaign row, or null when the id does not exist.
+  async getById(id: string): Promise<CampaignRow | null> {
+    const { data, error } = await supabase
+      .from('fundraising_campaigns')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+
+  // A single campaign with its startup profile for the detail screen.
+  async getWithStartup(id: string): Promise<CampaignWithStartupDetail | null> {
+    const { data, error } = await supabase
+      .from('fundraising_campaigns')
+      .select('*, startups (*)')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async create(campaign: TablesInsert<'fundraising_campaigns'>): Promise<CampaignRow> {
+    const { data, error } = await supabase
+      .from('fundraising_campaigns')
+      .insert(campaign)
+      .select('*')
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async update(id: string, patch: TablesUpdate<'fundraising_campaigns'>): Promise<void> {
+    const { error } = await supabase.from('fundraising_campaigns').update(patch).eq('id', id);
+    if (error) throw error;
+  },
+
+  // Status changes go through services/campaign/lifecycle.service.ts,
+  // which checks the transition first. The update only applies while the
+  // campaign is still in `from`; returns null when someone else moved it.
+  async updateStatus(
+    id: string,
+    from: CampaignStatus | null,
+    patch: TablesUpdate<'fundraising_campaigns'>
+  ): Promise<CampaignRow | null> {
+    let query = supabase.from('fundraising_campaigns').update(patch).eq('id', id);
+    query = from === null ? query.is('status', null) : query.eq('status', from);
+
+    const { data, error } = await query.select('*');
+    if (error) throw error;
+    return data?.[0] ?? null;
+  },
+
+  async recordStatusChange(entry: TablesInsert<'campaign_status_history'>): Promise<void> {
+    const { error } = await supabase.from('campaign_status_history').insert(entry);
+    if (error) throw error;
+  },
+
+  // The current version of each document attached to a campaign. RLS
+  // decides which ones the caller sees (public ones, or all of them for
+  // the owner and admins).
+  async listDocuments(campaignId: string): Promise<CampaignDocumentRow[]> {
+    const { data, error } = await supabase
+      .from('campaign_documents')
+      .select('*')
+      .eq('campaign_id', campaignId)
+      .is('superseded_at', null)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data ?? [];
+  },
+
+  // Status changes for one campaign, oldest first.
+  async listStatusHistory(campaignId: string): Promise<CampaignStatusHistoryRow[]> {
+    const { data, error } = await supabase
+      .from('campaign_status_history')
+      .select('*')
+      .eq('campaign_id', campaignId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data ?? [];
+  }
+};
@@ -0,0 +1,44 @@
+/*
+ * services/data/campaignUpdate.repository.ts
+ *
+ * Purpose: queries against `campaign_updates`, the news a startup posts
+ * on its campaign. Posting goes through
+ * services/campaign/updates.service.ts, which checks the update and
+ * notifies the campaign's followers.
+ */
+
+import { supabase } from '../../supabaseClient';
+import { CampaignUpdateRow, TablesInsert } from './database.types';
+
+export const CampaignUpdateRepository = {
+  async create(update: TablesInsert<'campaign_updates'>): Promise<CampaignUpdateRow> {
+    const { data, error } = await supabase
+      .from('campaign_updates')
+      .insert(update)
+      .select('*')
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  // One campaign's updates, newest first. RLS already hides private
+  // updates from people who may not read them; `includePrivate: false`
+  // asks for the public ones explicitly.
+  async listByCampaign(campaignId: string, options: { includePrivate: boolean }): Promise<CampaignUpdateRow[]> {
+    let query = supabase
+      .from('campaign_updates')
+      .select('*')
+      .eq('campaign_id', campaignId);
+    if (!options.includePrivate) query = query.eq('is_public', true);
+
+    const { data, error } = await query.order('created_at', { ascending: false });
+    if (error) throw error;
+    return data ?? [];
+  },
+
+  async remove(id: string): Promise<void> {
+    const { error } = await supabase.from('campaign_updates').delete().eq('id', id);
+    if (error) throw error;
+  }
+};
@@ -0,0 +1,1849 @@
+/*
+ * services/data/database.types.ts
+ *
+ * Purpose: describe the Postgres schema from `db/*.sql` as TypeScript
+ * types. The shape follows the `Database` generic that supabase-js
+ * expects, so queries written through the typed client are checked
+ * against real column names. When a migration adds, renames or drops a
+ * column, update the matching table here and the compiler will point at
+ * every query that needs to change.
+ *
+ * Source migrations:
+ * - create_users_table.sql, add_aadhaar_checks_table.sql (users)
+ * - create_startups_table.sql, add_startup_profile_columns.sql (startups)
+ * - create_investors_table.sql, add_interested_industries.sql (investors)
+ * - create_investments_table.sql (investments)
+ * - fundraising_system.sql (fundraising_campaigns, campaign_*)
+ * - campaign_lifecycle.sql (campaign status timestamps, campaign_status_history)
+ * - campaign_reviews.sql (campaign_reviews)
+ * - audit_events.sql (audit_events)
+ * - campaign_swipes.sql (campaign_swipes)
+ * - matches.sql (startup_likes, matches)
+ * - saved_items.sql (shortlists, saved_items)
+ * - messages.sql (messages)
+ * - meetings.sql (meeting_slots)
+ * - notifications.sql (notifications, notification_preferences, push_tokens,
+ *   notification_deliveries)
+ * - campaign_updates.sql (campaign_updates checks and visibility)
+ * - campaign_data_room.sql (campaign_documents storage and versions,
+ *   document_access_logs)
+ * - search.sql (search_vector on startups, investors and campaigns,
+ *   fundraising_campaigns.funded_percent)
+ * - aadhaar_otp.sql (aadhaar_checks owner, status and attempts)
+ * - startup_identifier_checks.sql (startups.identifier_checks)
+ * - kyc.sql (kyc_records, investors review and accreditation)
+ * - payments.sql (payments, payment_events)
+ * - ledger.sql (ledger_accounts, ledger_entries, ledger_lines)
+ */
+
+import { Role } from '../roles';
+
+// Value sets documented in the SQL comments. Postgres stores them as
+// plain `text`, so the database will not reject other values; the app
+// only ever writes these.
+export type CampaignStatus =
+  | 'draft'
+  | 'pending_review'
+  | 'active'
+  | 'paused'
+  | 'completed'
+  | 'cancelled'
+  | 'rejected';
+export type CampaignType = 'equity' | 'debt' | 'convertible';
+export type InterestLevel = 'interested' | 'very_interested' | 'committed';
+export type InterestStatus = 'pending' | 'contacted' | 'meeting_scheduled' | 'invested';
+export type InvestmentStatus = 'pending' | 'committed' | 'rejected';
+export type VerificationStatus = 'pending' | 'verified' | 'rejected';
+export type CampaignUpdateType = 'general' | 'milestone' | 'financial' | 'team';
+export type CampaignDocumentType = 'pitch_deck' | 'business_plan' | 'financials' | 'legal' | 'other';
+export type CampaignReviewDecision = 'approved' | 'rejected' | 'changes_requested';
+export type SwipeDirection = 'left' | 'right';
+// Which of saved_items' target columns is set.
+export type SavedItemType = 'startup' | 'investor' | 'campaign';
+export type MeetingSlotStatus = 'proposed' | 'accepted' | 'declined' | 'withdrawn' | 'cancelled';
+export type NotificationType =
+  | 'interest.submitted'
+  | 'startup.verification'
+  | 'campaign.status_changed'
+  | 'campaign.update_posted'
+  | 'user.role_changed';
+// Outbound channels; the in-app inbox is the notifications table itself.
+export type NotificationChannel = 'push' | 'email';
+export type NotificationDeliveryStatus = 'pending' | 'sent' | 'failed' | 'skipped';
+export type EmailFrequency = 'immediate' | 'daily' | 'weekly';
+export type DocumentAccessAction = 'view' | 'download';
+export type AadhaarCheckStatus = 'otp_sent' | 'verified' | 'failed' | 'expired';
+export type IdentifierCheckStatus = 'passed' | 'failed' | 'missing' | 'not_applicable';
+// One entry of startups.identifier_checks; `error` says why it failed.
+export type IdentifierCheck = { status: IdentifierCheckStatus; error?: string };
+// startups.identifier_checks, written by the check-startup-identifiers
+// server function.
+export type StartupIdentifierChecks = {
+  pan: IdentifierCheck;
+  // `kind` is null for company types without an MCA registration number.
+  registration: IdentifierCheck & { kind: 'cin' | 'llpin' | null };
+  gstin: IdentifierCheck;
+};
+export type KycLevel = 'unverified' | 'identity_verified' | 'business_verified' | 'accredited';
+// Whose KYC a kyc_records row describes: the user's startup or investor profile.
+export type KycSubjectType = 'startup' | 'investor';
+// payments.status; utils/payment.util.ts has the allowed moves.
+export type PaymentStatus = 'created' | 'authorized' | 'captured' | 'failed' | 'partially_refunded' | 'refunded';
+// ledger_accounts.kind and ledger_entries.kind; utils/ledger.util.ts has
+// what each kind of entry posts.
+export type LedgerAccountKind = 'investor_wallet' | 'campaign_escrow' | 'startup_payout' | 'platform_fees' | 'payment_gateway';
+export type LedgerEntryKind = 'commitment' | 'commitment_reversal' | 'payment' | 'refund' | 'disbursement';
+export type AuditTargetType = 'startup' | 'investor' | 'user';
+export type AuditAction =
+  | 'startup.verify'
+  | 'startup.unverify'
+  | 'startup.disable'
+  | 'startup.enable'
+  | 'startup.delete'
+  | 'investor.disable'
+  | 'investor.enable'
+  | 'investor.verify'
+  | 'investor.unverify'
+  | 'investor.accredit'
+  | 'investor.unaccredit'
+  | 'user.promote'
+  | 'user.role_change';
+
+// Postgres `jsonb` columns.
+export type Json = string | number | boolean | null | { [key: string]: Json | undefined } | Json[];
+
+// Postgres `timestamptz` and `date` columns arrive as ISO strings.
+type Timestamp = string;
+
+export type Database = {
+  public: {
+    Tables: {
+      users: {
+        Row: {
+          id: string;
+          email: string | null;
+          public_id: string | null;
+          role: Role | null;
+          recovery_key_hash: string | null;
+          aadhaar_check_id: string | null;
+          aadhaar_verified: boolean | null;
+          created_at: Timestamp | null;
+          updated_at: Timestamp | null;
+        };
+        Insert: {
+          id: string;
+          email?: string | null;
+          public_id?: string | null;
+          role?: Role | null;
+          recovery_key_hash?: string | null;
+          aadhaar_check_id?: string | null;
+          aadhaar_verified?: boolean | null;
+          created_at?: Timestamp | null;
+          updated_at?: Timestamp | null;
+        };
+        Update: {
+          id?: string;
+          email?: string | null;
+          public_id?: string | null;
+          role?: Role | null;
+          recovery_key_hash?: string | null;
+          aadhaar_check_id?: string | null;
+          aadhaar_verified?: boolean | null;
+          created_at?: Timestamp | null;
+          updated_at?: Timestamp | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'users_aadhaar_check_id_fkey';
+            columns: ['aadhaar_check_id'];
+            isOneToOne: false;
+            referencedRelation: 'aadhaar_checks';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      startups: {
+        Row: {
+          id: string;
+          owner_id: string | null;
+          public_id: string | null;
+          company_name: string;
+          website: string | null;
+          description: string | null;
+          verification_status: VerificationStatus | null;
+          disabled: boolean | null;
+          created_at: Timestamp | null;
+          tagline: string | null;
+          founded_year: number | null;
+          location: string | null;
+          email: string | null;
+          company_type: string | null;
+          registered: boolean | null;
+          registration_number: string | null;
+          gst_number: string | null;
+          pan_number: string | null;
+          num_directors: string | null;
+          team_size: number | null;
+          founder_name: string | null;
+          founder_experience: string | null;
+          // Comma-separated list of industries.
+          industry: string | null;
+          business_model: string | null;
+          target_market: string | null;
+          competition: string | null;
+          current_revenue: number | null;
+          funding_raised: number | null;
+          funding_stage: string | null;
+          monthly_burn: number | null;
+          social_impact: boolean | null;
+          impact_description: string | null;
+          identifier_checks: StartupIdentifierChecks | null;
+          identifiers_checked_at: Timestamp | null;
+          // Generated full-text vector; filter with textSearch, never write.
+          search_vector: string | null;
+        };
+        Insert: {
+          id: string;
+          owner_id?: string | null;
+          public_id?: string | null;
+          company_name: string;
+          website?: string | null;
+          description?: string | null;
+          verification_status?: VerificationStatus | null;
+          disabled?: boolean | null;
+          created_at?: Timestamp | null;
+          tagline?: string | null;
+          founded_year?: number | null;
+          location?: string | null;
+          email?: string | null;
+          company_type?: string | null;
+          registered?: boolean | null;
+          registration_number?: string | null;
+          gst_number?: string | null;
+          pan_number?: string | null;
+          num_directors?: string | null;
+          team_size?: number | null;
+          founder_name?: string | null;
+          founder_experience?: string | null;
+          industry?: string | null;
+          business_model?: string | null;
+          target_market?: string | null;
+          competition?: string | null;
+          current_revenue?: number | null;
+          funding_raised?: number | null;
+          funding_stage?: string | null;
+          monthly_burn?: number | null;
+          social_impact?: boolean | null;
+          impact_description?: string | null;
+          identifier_checks?: StartupIdentifierChecks | null;
+          identifiers_checked_at?: Timestamp | null;
+        };
+        Update: {
+          id?: string;
+          owner_id?: string | null;
+          public_id?: string | null;
+          company_name?: string;
+          website?: string | null;
+          description?: string | null;
+          verification_status?: VerificationStatus | null;
+          disabled?: boolean | null;
+          created_at?: Timestamp | null;
+          tagline?: string | null;
+          founded_year?: number | null;
+          location?: string | null;
+          email?: string | null;
+          company_type?: string | null;
+          registered?: boolean | null;
+          registration_number?: string | null;
+          gst_number?: string | null;
+          pan_number?: string | null;
+          num_directors?: string | null;
+          team_size?: number | null;
+          founder_name?: string | null;
+          founder_experience?: string | null;
+          industry?: string | null;
+          business_model?: string | null;
+          target_market?: string | null;
+          competition?: string | null;
+          current_revenue?: number | null;
+          funding_raised?: number | null;
+          funding_stage?: string | null;
+          monthly_burn?: number | null;
+          social_impact?: boolean | null;
+          impact_description?: string | null;
+          identifier_checks?: StartupIdentifierChecks | null;
+          identifiers_checked_at?: Timestamp | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'startups_owner_id_fkey';
+            columns: ['owner_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      investors: {
+        Row: {
+          id: string;
+          owner_id: string | null;
+          public_id: string | null;
+          investor_type: string | null;
+          subscription: string | null;
+          disabled: boolean | null;
+          created_at: Timestamp | null;
+          investor_name: string | null;
+          company_name: string | null;
+          location: string | null;
+          phone_number: string | null;
+          min_investment: number | null;
+          max_investment: number | null;
+          previous_investments: string | null;
+          // Comma-separated list of industries.
+          interested_industries: string | null;
+          website: string | null;
+          linkedin_url: string | null;
+          bio: string | null;
+          // Admin review of the investor profile, as for startups.
+          verification_status: VerificationStatus | null;
+          // Accredited until this date (inclusive); null when not accredited.
+          accredited_until: string | null;
+          // Generated full-text vector; filter with textSearch, never write.
+          search_vector: string | null;
+        };
+        Insert: {
+          id: string;
+          owner_id?: string | null;
+          public_id?: string | null;
+          investor_type?: string | null;
+          subscription?: string | null;
+          disabled?: boolean | null;
+          created_at?: Timestamp | null;
+          investor_name?: string | null;
+          company_name?: string | null;
+          location?: string | null;
+          phone_number?: string | null;
+          min_investment?: number | null;
+          max_investment?: number | null;
+          previous_investments?: string | null;
+          interested_industries?: string | null;
+          website?: string | null;
+          linkedin_url?: string | null;
+          bio?: string | null;
+          verification_status?: VerificationStatus | null;
+          accredited_until?: string | null;
+        };
+        Update: {
+          id?: string;
+          owner_id?: string | null;
+          public_id?: string | null;
+          investor_type?: string | null;
+          subscription?: string | null;
+          disabled?: boolean | null;
+          created_at?: Timestamp | null;
+          investor_name?: string | null;
+          company_name?: string | null;
+          location?: string | null;
+          phone_number?: string | null;
+          min_investment?: number | null;
+          max_investment?: number | null;
+          previous_investments?: string | null;
+          interested_industries?: string | null;
+          website?: string | null;
+          linkedin_url?: string | null;
+          bio?: string | null;
+          verification_status?: VerificationStatus | null;
+          accredited_until?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'investors_owner_id_fkey';
+            columns: ['owner_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      investments: {
+        Row: {
+          id: string;
+          startup_id: string | null;
+          investor_id: string | null;
+          amount: number | null;
+          equity_offered: number | null;
+          status: InvestmentStatus | null;
+          created_at: Timestamp | null;
+          // The campaign interest this investment was confirmed from.
+          interest_id: string | null;
+          // Committed investments roll up into this campaign's funding_raised.
+          campaign_id: string | null;
+        };
+        Insert: {
+          id: string;
+          startup_id?: string | null;
+          investor_id?: string | null;
+          amount?: number | null;
+          equity_offered?: number | null;
+          status?: InvestmentStatus | null;
+          created_at?: Timestamp | null;
+          interest_id?: string | null;
+          campaign_id?: string | null;
+        };
+        Update: {
+          id?: string;
+          startup_id?: string | null;
+          investor_id?: string | null;
+          amount?: number | null;
+          equity_offered?: number | null;
+          status?: InvestmentStatus | null;
+          created_at?: Timestamp | null;
+          interest_id?: string | null;
+          campaign_id?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'investments_startup_id_fkey';
+            columns: ['startup_id'];
+            isOneToOne: false;
+            referencedRelation: 'startups';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'investments_investor_id_fkey';
+            columns: ['investor_id'];
+            isOneToOne: false;
+            referencedRelation: 'investors';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'investments_campaign_id_fkey';
+            columns: ['campaign_id'];
+            isOneToOne: false;
+            referencedRelation: 'fundraising_campaigns';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'investments_interest_id_fkey';
+            columns: ['interest_id'];
+            isOneToOne: true;
+            referencedRelation: 'campaign_interests';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      fundraising_campaigns: {
+        Row: {
+          id: string;
+          startup_id: string | null;
+          title: string;
+          description: string;
+          funding_goal: number;
+          funding_raised: number | null;
+          min_investment: number | null;
+          max_investment: number | null;
+          equity_offered: number;
+          campaign_type: CampaignType | null;
+          status: CampaignStatus | null;
+          start_date: string | null;
+          end_date: string | null;
+          pitch_deck_url: string | null;
+          business_plan_url: string | null;
+          financial_projections_url: string | null;
+          team_info: string | null;
+          market_analysis: string | null;
+          competitive_advantage: string | null;
+          use_of_funds: string | null;
+          milestones: string | null;
+          risks: string | null;
+          status_changed_at: Timestamp | null;
+          submitted_at: Timestamp | null;
+          activated_at: Timestamp | null;
+          paused_at: Timestamp | null;
+          completed_at: Timestamp | null;
+          cancelled_at: Timestamp | null;
+          rejected_at: Timestamp | null;
+          created_at: Timestamp | null;
+          updated_at: Timestamp | null;
+          // Kept by triggers from the campaign and its startup; never write.
+          search_vector: string | null;
+          // Generated: funding_raised as a percentage of funding_goal.
+          funded_percent: number | null;
+        };
+        Insert: {
+          id?: string;
+          startup_id?: string | null;
+          title: string;
+          description: string;
+          funding_goal: number;
+          funding_raised?: number | null;
+          min_investment?: number | null;
+          max_investment?: number | null;
+          equity_offered: number;
+          campaign_type?: CampaignType | null;
+          status?: CampaignStatus | null;
+          start_date?: string | null;
+          end_date?: string | null;
+          pitch_deck_url?: string | null;
+          business_plan_url?: string | null;
+          financial_projections_url?: string | null;
+          team_info?: string | null;
+          market_analysis?: string | null;
+          competitive_advantage?: string | null;
+          use_of_funds?: string | null;
+          milestones?: string | null;
+          risks?: string | null;
+          status_changed_at?: Timestamp | null;
+          submitted_at?: Timestamp | null;
+          activated_at?: Timestamp | null;
+          paused_at?: Timestamp | null;
+          completed_at?: Timestamp | null;
+          cancelled_at?: Timestamp | null;
+          rejected_at?: Timestamp | null;
+          created_at?: Timestamp | null;
+          updated_at?: Timestamp | null;
+        };
+        Update: {
+          id?: string;
+          startup_id?: string | null;
+          title?: string;
+          description?: string;
+          funding_goal?: number;
+          funding_raised?: number | null;
+          min_investment?: number | null;
+          max_investment?: number | null;
+          equity_offered?: number;
+          campaign_type?: CampaignType | null;
+          status?: CampaignStatus | null;
+          start_date?: string | null;
+          end_date?: string | null;
+          pitch_deck_url?: string | null;
+          business_plan_url?: string | null;
+          financial_projections_url?: string | null;
+          team_info?: string | null;
+          market_analysis?: string | null;
+          competitive_advantage?: string | null;
+          use_of_funds?: string | null;
+          milestones?: string | null;
+          risks?: string | null;
+          status_changed_at?: Timestamp | null;
+          submitted_at?: Timestamp | null;
+          activated_at?: Timestamp | null;
+          paused_at?: Timestamp | null;
+          completed_at?: Timestamp | null;
+          cancelled_at?: Timestamp | null;
+          rejected_at?: Timestamp | null;
+          created_at?: Timestamp | null;
+          updated_at?: Timestamp | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'fundraising_campaigns_startup_id_fkey';
+            columns: ['startup_id'];
+            isOneToOne: false;
+            referencedRelation: 'startups';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      campaign_updates: {
+        Row: {
+          id: string;
+          campaign_id: string | null;
+          title: string;
+          content: string;
+          update_type: CampaignUpdateType | null;
+          is_public: boolean | null;
+          created_at: Timestamp | null;
+        };
+        Insert: {
+          id?: string;
+          campaign_id?: string | null;
+          title: string;
+          content: string;
+          update_type?: CampaignUpdateType | null;
+          is_public?: boolean | null;
+          created_at?: Timestamp | null;
+        };
+        Update: {
+          id?: string;
+          campaign_id?: string | null;
+          title?: string;
+          content?: string;
+          update_type?: CampaignUpdateType | null;
+          is_public?: boolean | null;
+          created_at?: Timestamp | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'campaign_updates_campaign_id_fkey';
+            columns: ['campaign_id'];
+            isOneToOne: false;
+            referencedRelation: 'fundraising_campaigns';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      campaign_interests: {
+        Row: {
+          id: string;
+          campaign_id: string | null;
+          investor_id: string | null;
+          interest_level: InterestLevel | null;
+          proposed_investment: number | null;
+          proposed_equity: number | null;
+          notes: string | null;
+          status: InterestStatus | null;
+          created_at: Timestamp | null;
+          updated_at: Timestamp | null;
+        };
+        Insert: {
+          id?: string;
+          campaign_id?: string | null;
+          investor_id?: string | null;
+          interest_level?: InterestLevel | null;
+          proposed_investment?: number | null;
+          proposed_equity?: number | null;
+          notes?: string | null;
+          status?: InterestStatus | null;
+          created_at?: Timestamp | null;
+          updated_at?: Timestamp | null;
+        };
+        Update: {
+          id?: string;
+          campaign_id?: string | null;
+          investor_id?: string | null;
+          interest_level?: InterestLevel | null;
+          proposed_investment?: number | null;
+          proposed_equity?: number | null;
+          notes?: string | null;
+          status?: InterestStatus | null;
+          created_at?: Timestamp | null;
+          updated_at?: Timestamp | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'campaign_interests_campaign_id_fkey';
+            columns: ['campaign_id'];
+            isOneToOne: false;
+            referencedRelation: 'fundraising_campaigns';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'campaign_interests_investor_id_fkey';
+            columns: ['investor_id'];
+            isOneToOne: false;
+            referencedRelation: 'investors';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      campaign_documents: {
+        Row: {
+          id: string;
+          campaign_id: string | null;
+          document_type: CampaignDocumentType;
+          file_name: string;
+          // A link typed in by hand; uploaded documents use storage_path.
+          file_url: string | null;
+          file_size: number | null;
+          uploaded_by: string | null;
+          is_public: boolean | null;
+          created_at: Timestamp | null;
+          // Object in the campaign-documents bucket.
+          storage_path: string | null;
+          content_type: string | null;
+          version: number;
+          previous_version_id: string | null;
+          // Set once a newer version replaces this one.
+          superseded_at: Timestamp | null;
+        };
+        Insert: {
+          id?: string;
+          campaign_id?: string | null;
+          document_type: CampaignDocumentType;
+          file_name: string;
+          file_url?: string | null;
+          file_size?: number | null;
+          uploaded_by?: string | null;
+          is_public?: boolean | null;
+          created_at?: Timestamp | null;
+          storage_path?: string | null;
+          content_type?: string | null;
+          version?: number;
+          previous_version_id?: string | null;
+          superseded_at?: Timestamp | null;
+        };
+        Update: {
+          id?: string;
+          campaign_id?: string | null;
+          document_type?: CampaignDocumentType;
+          file_name?: string;
+          file_url?: string | null;
+          file_size?: number | null;
+          uploaded_by?: string | null;
+          is_public?: boolean | null;
+          created_at?: Timestamp | null;
+          storage_path?: string | null;
+          content_type?: string | null;
+          version?: number;
+          previous_version_id?: string | null;
+          superseded_at?: Timestamp | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'campaign_documents_campaign_id_fkey';
+            columns: ['campaign_id'];
+            isOneToOne: false;
+            referencedRelation: 'fundraising_campaigns';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'campaign_documents_uploaded_by_fkey';
+            columns: ['uploaded_by'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'campaign_documents_previous_version_id_fkey';
+            columns: ['previous_version_id'];
+            isOneToOne: false;
+            referencedRelation: 'campaign_documents';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      campaign_status_history: {
+        Row: {
+          id: string;
+          campaign_id: string;
+          from_status: CampaignStatus | null;
+          to_status: CampaignStatus;
+          changed_by: string | null;
+          note: string | null;
+          created_at: Timestamp | null;
+        };
+        Insert: {
+          id?: string;
+          campaign_id: string;
+          from_status?: CampaignStatus | null;
+          to_status: CampaignStatus;
+          changed_by?: string | null;
+          note?: string | null;
+          created_at?: Timestamp | null;
+        };
+        Update: {
+          id?: string;
+          campaign_id?: string;
+          from_status?: CampaignStatus | null;
+          to_status?: CampaignStatus;
+          changed_by?: string | null;
+          note?: string | null;
+          created_at?: Timestamp | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'campaign_status_history_campaign_id_fkey';
+            columns: ['campaign_id'];
+            isOneToOne: false;
+            referencedRelation: 'fundraising_campaigns';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'campaign_status_history_changed_by_fkey';
+            columns: ['changed_by'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      campaign_reviews: {
+        Row: {
+          id: string;
+          campaign_id: string;
+          reviewer_id: string | null;
+          decision: CampaignReviewDecision;
+          reason: string | null;
+          created_at: Timestamp | null;
+        };
+        Insert: {
+          id?: string;
+          campaign_id: string;
+          reviewer_id?: string | null;
+          decision: CampaignReviewDecision;
+          reason?: string | null;
+          created_at?: Timestamp | null;
+        };
+        Update: {
+          id?: string;
+          campaign_id?: string;
+          reviewer_id?: string | null;
+          decision?: CampaignReviewDecision;
+          reason?: string | null;
+          created_at?: Timestamp | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'campaign_reviews_campaign_id_fkey';
+            columns: ['campaign_id'];
+            isOneToOne: false;
+            referencedRelation: 'fundraising_campaigns';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'campaign_reviews_reviewer_id_fkey';
+            columns: ['reviewer_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      audit_events: {
+        Row: {
+          id: string;
+          actor_id: string | null;
+          actor_role: Role | null;
+          action: AuditAction;
+          target_type: AuditTargetType;
+          target_id: string;
+          before: Json | null;
+          after: Json | null;
+          created_at: Timestamp;
+        };
+        Insert: {
+          id?: string;
+          actor_id?: string | null;
+          actor_role?: Role | null;
+          action: AuditAction;
+          target_type: AuditTargetType;
+          target_id: string;
+          before?: Json | null;
+          after?: Json | null;
+          created_at?: Timestamp;
+        };
+        Update: {
+          id?: string;
+          actor_id?: string | null;
+          actor_role?: Role | null;
+          action?: AuditAction;
+          target_type?: AuditTargetType;
+          target_id?: string;
+          before?: Json | null;
+          after?: Json | null;
+          created_at?: Timestamp;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'audit_events_actor_id_fkey';
+            columns: ['actor_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      campaign_swipes: {
+        Row: {
+          id: string;
+          investor_id: string;
+          campaign_id: string;
+          direction: SwipeDirection;
+          campaign_fingerprint: string;
+          interest_id: string | null;
+          swiped_at: Timestamp;
+        };
+        Insert: {
+          id?: string;
+          investor_id: string;
+          campaign_id: string;
+          direction: SwipeDirection;
+          campaign_fingerprint: string;
+          interest_id?: string | null;
+          swiped_at?: Timestamp;
+        };
+        Update: {
+          id?: string;
+          investor_id?: string;
+          campaign_id?: string;
+          direction?: SwipeDirection;
+          campaign_fingerprint?: string;
+          interest_id?: string | null;
+          swiped_at?: Timestamp;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'campaign_swipes_investor_id_fkey';
+            columns: ['investor_id'];
+            isOneToOne: false;
+            referencedRelation: 'investors';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'campaign_swipes_campaign_id_fkey';
+            columns: ['campaign_id'];
+            isOneToOne: false;
+            referencedRelation: 'fundraising_campaigns';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'campaign_swipes_interest_id_fkey';
+            columns: ['interest_id'];
+            isOneToOne: false;
+            referencedRelation: 'campaign_interests';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      startup_likes: {
+        Row: {
+          id: string;
+          startup_id: string;
+          investor_id: string;
+          created_at: Timestamp;
+        };
+        Insert: {
+          id?: string;
+          startup_id: string;
+          investor_id: string;
+          created_at?: Timestamp;
+        };
+        Update: {
+          id?: string;
+          startup_id?: string;
+          investor_id?: string;
+          created_at?: Timestamp;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'startup_likes_startup_id_fkey';
+            columns: ['startup_id'];
+            isOneToOne: false;
+            referencedRelation: 'startups';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'startup_likes_investor_id_fkey';
+            columns: ['investor_id'];
+            isOneToOne: false;
+            referencedRelation: 'investors';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      matches: {
+        Row: {
+          id: string;
+          startup_id: string;
+          investor_id: string;
+          created_at: Timestamp;
+          startup_seen_at: Timestamp | null;
+          investor_seen_at: Timestamp | null;
+        };
+        Insert: {
+          id?: string;
+          startup_id: string;
+          investor_id: string;
+          created_at?: Timestamp;
+          startup_seen_at?: Timestamp | null;
+          investor_seen_at?: Timestamp | null;
+        };
+        Update: {
+          id?: string;
+          startup_id?: string;
+          investor_id?: string;
+          created_at?: Timestamp;
+          startup_seen_at?: Timestamp | null;
+          investor_seen_at?: Timestamp | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'matches_startup_id_fkey';
+            columns: ['startup_id'];
+            isOneToOne: false;
+            referencedRelation: 'startups';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'matches_investor_id_fkey';
+            columns: ['investor_id'];
+            isOneToOne: false;
+            referencedRelation: 'investors';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      shortlists: {
+        Row: {
+          id: string;
+          owner_id: string;
+          name: string;
+          created_at: Timestamp;
+        };
+        Insert: {
+          id?: string;
+          owner_id: string;
+          name: string;
+          created_at?: Timestamp;
+        };
+        Update: {
+          id?: string;
+          owner_id?: string;
+          name?: string;
+          created_at?: Timestamp;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'shortlists_owner_id_fkey';
+            columns: ['owner_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      saved_items: {
+        Row: {
+          id: string;
+          owner_id: string;
+          // Exactly one of the three target columns is set.
+          startup_id: string | null;
+          investor_id: string | null;
+          campaign_id: string | null;
+          shortlist_id: string | null;
+          note: string | null;
+          created_at: Timestamp;
+          updated_at: Timestamp;
+        };
+        Insert: {
+          id?: string;
+          owner_id: string;
+          startup_id?: string | null;
+          investor_id?: string | null;
+          campaign_id?: string | null;
+          shortlist_id?: string | null;
+          note?: string | null;
+          created_at?: Timestamp;
+          updated_at?: Timestamp;
+        };
+        Update: {
+          id?: string;
+          owner_id?: string;
+          startup_id?: string | null;
+          investor_id?: string | null;
+          campaign_id?: string | null;
+          shortlist_id?: string | null;
+          note?: string | null;
+          created_at?: Timestamp;
+          updated_at?: Timestamp;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'saved_items_owner_id_fkey';
+            columns: ['owner_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'saved_items_startup_id_fkey';
+            columns: ['startup_id'];
+            isOneToOne: false;
+            referencedRelation: 'startups';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'saved_items_investor_id_fkey';
+            columns: ['investor_id'];
+            isOneToOne: false;
+            referencedRelation: 'investors';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'saved_items_campaign_id_fkey';
+            columns: ['campaign_id'];
+            isOneToOne: false;
+            referencedRelation: 'fundraising_campaigns';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'saved_items_shortlist_id_fkey';
+            columns: ['shortlist_id'];
+            isOneToOne: false;
+            referencedRelation: 'shortlists';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      messages: {
+        Row: {
+          id: string;
+          // The conversation: one per campaign interest.
+          interest_id: string;
+          sender_id: string | null;
+          body: string;
+          document_id: string | null;
+          created_at: Timestamp;
+          // Set by the recipient; null while unread.
+          read_at: Timestamp | null;
+        };
+        Insert: {
+          id?: string;
+          interest_id: string;
+          sender_id?: string | null;
+          body?: string;
+          document_id?: string | null;
+          created_at?: Timestamp;
+          read_at?: Timestamp | null;
+        };
+        Update: {
+          id?: string;
+          interest_id?: string;
+          sender_id?: string | null;
+          body?: string;
+          document_id?: string | null;
+          created_at?: Timestamp;
+          read_at?: Timestamp | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'messages_interest_id_fkey';
+            columns: ['interest_id'];
+            isOneToOne: false;
+            referencedRelation: 'campaign_interests';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'messages_sender_id_fkey';
+            columns: ['sender_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'messages_document_id_fkey';
+            columns: ['document_id'];
+            isOneToOne: false;
+            referencedRelation: 'campaign_documents';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      meeting_slots: {
+        Row: {
+          id: string;
+          interest_id: string;
+          // The startup user who proposed the time.
+          proposed_by: string | null;
+          starts_at: Timestamp;
+          ends_at: Timestamp;
+          // IANA zone the proposer picked the time in, e.g. 'Asia/Kolkata'.
+          timezone: string;
+          location: string;
+          status: MeetingSlotStatus;
+          created_at: Timestamp;
+          // When the slot was accepted, declined, withdrawn or cancelled.
+          responded_at: Timestamp | null;
+        };
+        Insert: {
+          id?: string;
+          interest_id: string;
+          proposed_by?: string | null;
+          starts_at: Timestamp;
+          ends_at: Timestamp;
+          timezone?: string;
+          location?: string;
+          status?: MeetingSlotStatus;
+          created_at?: Timestamp;
+          responded_at?: Timestamp | null;
+        };
+        Update: {
+          id?: string;
+          interest_id?: string;
+          proposed_by?: string | null;
+          starts_at?: Timestamp;
+          ends_at?: Timestamp;
+          timezone?: string;
+          location?: string;
+          status?: MeetingSlotStatus;
+          created_at?: Timestamp;
+          responded_at?: Timestamp | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'meeting_slots_interest_id_fkey';
+            columns: ['interest_id'];
+            isOneToOne: false;
+            referencedRelation: 'campaign_interests';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'meeting_slots_proposed_by_fkey';
+            columns: ['proposed_by'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      notifications: {
+        Row: {
+          id: string;
+          user_id: string;
+          type: NotificationType;
+          title: string;
+          body: string;
+          // Ids for opening the related screen, e.g. { campaignId }.
+          data: Json;
+          // False when the user had the in-app channel off.
+          in_app: boolean;
+          // The occurrence it reports; a user gets one notification per key.
+          event_key: string | null;
+          created_at: Timestamp;
+          read_at: Timestamp | null;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          type: NotificationType;
+          title: string;
+          body?: string;
+          data?: Json;
+          in_app?: boolean;
+          event_key?: string | null;
+          created_at?: Timestamp;
+          read_at?: Timestamp | null;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          type?: NotificationType;
+          title?: string;
+          body?: string;
+          data?: Json;
+          in_app?: boolean;
+          event_key?: string | null;
+          created_at?: Timestamp;
+          read_at?: Timestamp | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'notifications_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      notification_preferences: {
+        Row: {
+          id: string;
+          user_id: string;
+          in_app: boolean;
+          push: boolean;
+          email: boolean;
+          email_frequency: EmailFrequency;
+          // Types the user does not want on any channel.
+          muted_types: NotificationType[];
+          last_digest_at: Timestamp | null;
+          created_at: Timestamp;
+          updated_at: Timestamp;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          in_app?: boolean;
+          push?: boolean;
+          email?: boolean;
+          email_frequency?: EmailFrequency;
+          muted_types?: NotificationType[];
+          last_digest_at?: Timestamp | null;
+          created_at?: Timestamp;
+          updated_at?: Timestamp;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          in_app?: boolean;
+          push?: boolean;
+          email?: boolean;
+          email_frequency?: EmailFrequency;
+          muted_types?: NotificationType[];
+          last_digest_at?: Timestamp | null;
+          created_at?: Timestamp;
+          updated_at?: Timestamp;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'notification_preferences_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: true;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      push_tokens: {
+        Row: {
+          id: string;
+          user_id: string;
+          // ExponentPushToken[...]
+          token: string;
+          platform: string;
+          created_at: Timestamp;
+          updated_at: Timestamp;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          token: string;
+          platform?: string;
+          created_at?: Timestamp;
+          updated_at?: Timestamp;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          token?: string;
+          platform?: string;
+          created_at?: Timestamp;
+          updated_at?: Timestamp;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'push_tokens_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      notification_deliveries: {
+        Row: {
+          id: string;
+          notification_id: string;
+          user_id: string;
+          channel: NotificationChannel;
+          status: NotificationDeliveryStatus;
+          // Set while an email waits for the user's digest.
+          digest: Exclude<EmailFrequency, 'immediate'> | null;
+          error: string | null;
+          created_at: Timestamp;
+          sent_at: Timestamp | null;
+        };
+        Insert: {
+          id?: string;
+          notification_id: string;
+          user_id: string;
+          channel: NotificationChannel;
+          status?: NotificationDeliveryStatus;
+          digest?: Exclude<EmailFrequency, 'immediate'> | null;
+          error?: string | null;
+          created_at?: Timestamp;
+          sent_at?: Timestamp | null;
+        };
+        Update: {
+          id?: string;
+          notification_id?: string;
+          user_id?: string;
+          channel?: NotificationChannel;
+          status?: NotificationDeliveryStatus;
+          digest?: Exclude<EmailFrequency, 'immediate'> | null;
+          error?: string | null;
+          created_at?: Timestamp;
+          sent_at?: Timestamp | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'notification_deliveries_notification_id_fkey';
+            columns: ['notification_id'];
+            isOneToOne: false;
+            referencedRelation: 'notifications';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'notification_deliveries_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      document_access_logs: {
+        Row: {
+          id: string;
+          document_id: string;
+          campaign_id: string;
+          viewer_id: string | null;
+          viewer_label: string;
+          action: DocumentAccessAction;
+          watermarked: boolean;
+          // When the signed link stops working; null for external links.
+          expires_at: Timestamp | null;
+          created_at: Timestamp;
+        };
+        Insert: {
+          id?: string;
+          document_id: string;
+          campaign_id: string;
+          viewer_id?: string | null;
+          viewer_label: string;
+          action: DocumentAccessAction;
+          watermarked?: boolean;
+          expires_at?: Timestamp | null;
+          created_at?: Timestamp;
+        };
+        Update: {
+          id?: string;
+          document_id?: string;
+          campaign_id?: string;
+          viewer_id?: string | null;
+          viewer_label?: string;
+          action?: DocumentAccessAction;
+          watermarked?: boolean;
+          expires_at?: Timestamp | null;
+          created_at?: Timestamp;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'document_access_logs_document_id_fkey';
+            columns: ['document_id'];
+            isOneToOne: false;
+            referencedRelation: 'campaign_documents';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'document_access_logs_campaign_id_fkey';
+            columns: ['campaign_id'];
+            isOneToOne: false;
+            referencedRelation: 'fundraising_campaigns';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'document_access_logs_viewer_id_fkey';
+            columns: ['viewer_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      aadhaar_checks: {
+        Row: {
+          id: string;
+          aadhaar_number_encrypted: string;
+          aadhaar_last4: string;
+          otp_txn_id: string;
+          otp_verified: boolean | null;
+          otp_expires_at: Timestamp;
+          created_at: Timestamp | null;
+          updated_at: Timestamp | null;
+          user_id: string | null;
+          provider: string;
+          status: AadhaarCheckStatus;
+          attempts: number;
+          verified_at: Timestamp | null;
+        };
+        Insert: {
+          id?: string;
+          aadhaar_number_encrypted: string;
+          aadhaar_last4: string;
+          otp_txn_id: string;
+          otp_verified?: boolean | null;
+          otp_expires_at: Timestamp;
+          created_at?: Timestamp | null;
+          updated_at?: Timestamp | null;
+          user_id?: string | null;
+          provider?: string;
+          status?: AadhaarCheckStatus;
+          attempts?: number;
+          verified_at?: Timestamp | null;
+        };
+        Update: {
+          id?: string;
+          aadhaar_number_encrypted?: string;
+          aadhaar_last4?: string;
+          otp_txn_id?: string;
+          otp_verified?: boolean | null;
+          otp_expires_at?: Timestamp;
+          created_at?: Timestamp | null;
+          updated_at?: Timestamp | null;
+          user_id?: string | null;
+          provider?: string;
+          status?: AadhaarCheckStatus;
+          attempts?: number;
+          verified_at?: Timestamp | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'aadhaar_checks_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      kyc_records: {
+        Row: {
+          id: string;
+          user_id: string;
+          subject_type: KycSubjectType | null;
+          // The user's startups.id or investors.id.
+          subject_id: string | null;
+          level: KycLevel;
+          aadhaar_verified: boolean;
+          // Copied from startups.identifier_checks; null for investors.
+          pan_status: IdentifierCheckStatus | null;
+          registration_status: IdentifierCheckStatus | null;
+          gstin_status: IdentifierCheckStatus | null;
+          // The admin review of the startup or investor profile.
+          review_status: VerificationStatus | null;
+          accredited_until: string | null;
+          updated_at: Timestamp;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          subject_type?: KycSubjectType | null;
+          subject_id?: string | null;
+          level?: KycLevel;
+          aadhaar_verified?: boolean;
+          pan_status?: IdentifierCheckStatus | null;
+          registration_status?: IdentifierCheckStatus | null;
+          gstin_status?: IdentifierCheckStatus | null;
+          review_status?: VerificationStatus | null;
+          accredited_until?: string | null;
+          updated_at?: Timestamp;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          subject_type?: KycSubjectType | null;
+          subject_id?: string | null;
+          level?: KycLevel;
+          aadhaar_verified?: boolean;
+          pan_status?: IdentifierCheckStatus | null;
+          registration_status?: IdentifierCheckStatus | null;
+          gstin_status?: IdentifierCheckStatus | null;
+          review_status?: VerificationStatus | null;
+          accredited_until?: string | null;
+          updated_at?: Timestamp;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'kyc_records_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: true;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      payments: {
+        Row: {
+          id: string;
+          // Who pays.
+          user_id: string;
+          investment_id: string | null;
+          provider: string;
+          provider_order_id: string;
+          // Set once checkout returns or a webhook names the payment.
+          provider_payment_id: string | null;
+          // In paise.
+          amount: number;
+          currency: string;
+          status: PaymentStatus;
+          amount_refunded: number;
+          failure_reason: string | null;
+          captured_at: Timestamp | null;
+          refunded_at: Timestamp | null;
+          created_at: Timestamp;
+          updated_at: Timestamp;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          investment_id?: string | null;
+          provider: string;
+          provider_order_id: string;
+          provider_payment_id?: string | null;
+          amount: number;
+          currency?: string;
+          status?: PaymentStatus;
+          amount_refunded?: number;
+          failure_reason?: string | null;
+          captured_at?: Timestamp | null;
+          refunded_at?: Timestamp | null;
+          created_at?: Timestamp;
+          updated_at?: Timestamp;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          investment_id?: string | null;
+          provider?: string;
+          provider_order_id?: string;
+          provider_payment_id?: string | null;
+          amount?: number;
+          currency?: string;
+          status?: PaymentStatus;
+          amount_refunded?: number;
+          failure_reason?: string | null;
+          captured_at?: Timestamp | null;
+          refunded_at?: Timestamp | null;
+          created_at?: Timestamp;
+          updated_at?: Timestamp;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'payments_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'payments_investment_id_fkey';
+            columns: ['investment_id'];
+            isOneToOne: false;
+            referencedRelation: 'investments';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      payment_events: {
+        Row: {
+          id: string;
+          // Null when the event names an order no payment row has.
+          payment_id: string | null;
+          provider: string;
+          // The gateway's event id; a repeat delivery is ignored.
+          provider_event_id: string;
+          event: string;
+          payload: Json;
+          created_at: Timestamp;
+        };
+        Insert: {
+          id?: string;
+          payment_id?: string | null;
+          provider: string;
+          provider_event_id: string;
+          event: string;
+          payload: Json;
+          created_at?: Timestamp;
+        };
+        Update: {
+          id?: string;
+          payment_id?: string | null;
+          provider?: string;
+          provider_event_id?: string;
+          event?: string;
+          payload?: Json;
+          created_at?: Timestamp;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'payment_events_payment_id_fkey';
+            columns: ['payment_id'];
+            isOneToOne: false;
+            referencedRelation: 'payments';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      ledger_accounts: {
+        Row: {
+          id: string;
+          // `<kind>:<owner id>`, or just the kind for platform accounts.
+          key: string;
+          kind: LedgerAccountKind;
+          investor_id: string | null;
+          campaign_id: string | null;
+          startup_id: string | null;
+          created_at: Timestamp;
+        };
+        Insert: {
+          id?: string;
+          key: string;
+          kind: LedgerAccountKind;
+          investor_id?: string | null;
+          campaign_id?: string | null;
+          startup_id?: string | null;
+          created_at?: Timestamp;
+        };
+        Update: {
+          id?: string;
+          key?: string;
+          kind?: LedgerAccountKind;
+          investor_id?: string | null;
+          campaign_id?: string | null;
+          startup_id?: string | null;
+          created_at?: Timestamp;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'ledger_accounts_investor_id_fkey';
+            columns: ['investor_id'];
+            isOneToOne: false;
+            referencedRelation: 'investors';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'ledger_accounts_campaign_id_fkey';
+            columns: ['campaign_id'];
+            isOneToOne: false;
+            referencedRelation: 'fundraising_campaigns';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'ledger_accounts_startup_id_fkey';
+            columns: ['startup_id'];
+            isOneToOne: false;
+            referencedRelation: 'startups';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      // Append-only: the database rejects updates and deletes.
+      ledger_entries: {
+        Row: {
+          id: string;
+          kind: LedgerEntryKind;
+          // Idempotency key; posting the same reference twice is a no-op.
+          reference: string;
+          description: string | null;
+          // What the entry is about. Not foreign keys, so the history
+          // outlives the rows.
+          investment_id: string | null;
+          payment_id: string | null;
+          campaign_id: string | null;
+          created_by: string | null;
+          created_at: Timestamp;
+        };
+        Insert: {
+          id?: string;
+          kind: LedgerEntryKind;
+          reference: string;
+          description?: string | null;
+          investment_id?: string | null;
+          payment_id?: string | null;
+          campaign_id?: string | null;
+          created_by?: string | null;
+          created_at?: Timestamp;
+        };
+        Update: {
+          id?: string;
+          kind?: LedgerEntryKind;
+          reference?: string;
+          description?: string | null;
+          investment_id?: string | null;
+          payment_id?: string | null;
+          campaign_id?: string | null;
+          created_by?: string | null;
+          created_at?: Timestamp;
+        };
+        Relationships: [];
+      };
+      // Append-only. Amounts are in paise: positive debits, negative
+      // credits; each entry's lines add up to zero.
+      ledger_lines: {
+        Row: {
+          id: string;
+          entry_id: string;
+          account_id: string;
+          amount: number;
+          created_at: Timestamp;
+        };
+        Insert: {
+          id?: string;
+          entry_id: string;
+          account_id: string;
+          amount: number;
+          created_at?: Timestamp;
+        };
+        Update: {
+          id?: string;
+          entry_id?: string;
+          account_id?: string;
+          amount?: number;
+          created_at?: Timestamp;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'ledger_lines_entry_id_fkey';
+            columns: ['entry_id'];
+            isOneToOne: false;
+            referencedRelation: 'ledger_entries';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'ledger_lines_account_id_fkey';
+            columns: ['account_id'];
+            isOneToOne: false;
+            referencedRelation: 'ledger_accounts';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+    };
+    Views: {
+      [_ in never]: never;
+    };
+    Functions: {
+      [_ in never]: never;
+    };
+    Enums: {
+      [_ in never]: never;
+    };
+    CompositeTypes: {
+      [_ in never]: never;
+    };
+  };
+};
+
+// Shorthand helpers so callers can write `Tables<'startups'>` instead of
+// reaching through the full `Database` path.
+type PublicTables = Database['public']['Tables'];
+export type TableName = keyof PublicTables;
+export type Tables<T extends TableName> = PublicTables[T]['Row'];
+export type TablesInsert<T extends TableName> = PublicTables[T]['Insert'];
+export type TablesUpdate<T extends TableName> = PublicTables[T]['Update'];
+
+// Row aliases used across the data layer and screens.
+export type UserRow = Tables<'users'>;
+export type StartupRow = Tables<'startups'>;
+export type InvestorRow = Tables<'investors'>;
+export type InvestmentRow = Tables<'investments'>;
+export type CampaignRow = Tables<'fundraising_campaigns'>;
+export type CampaignUpdateRow = Tables<'campaign_updates'>;
+export type CampaignInterestRow = Tables<'campaign_interests'>;
+export type CampaignDocumentRow = Tables<'campaign_documents'>;
+export type CampaignStatusHistoryRow = Tables<'campaign_status_history'>;
+export type CampaignReviewRow = Tables<'campaign_reviews'>;
+export type AuditEventRow = Tables<'audit_events'>;
+export type CampaignSwipeRow = Tables<'campaign_swipes'>;
+export type StartupLikeRow = Tables<'startup_likes'>;
+export type MatchRow = Tables<'matches'>;
+export type ShortlistRow = Tables<'shortlists'>;
+export type SavedItemRow = Tables<'saved_items'>;
+export type MessageRow = Tables<'messages'>;
+export type MeetingSlotRow = Tables<'meeting_slots'>;
+export type NotificationRow = Tables<'notifications'>;
+export type NotificationPreferencesRow = Tables<'notification_preferences'>;
+export type PushTokenRow = Tables<'push_tokens'>;
+export type NotificationDeliveryRow = Tables<'notification_deliveries'>;
+export type DocumentAccessLogRow = Tables<'document_access_logs'>;
+export type AadhaarCheckRow = Tables<'aadhaar_checks'>;
+export type KycRecordRow = Tables<'kyc_records'>;
+export type PaymentRow = Tables<'payments'>;
+export type PaymentEventRow = Tables<'payment_events'>;
+export type LedgerAccountRow = Tables<'ledger_accounts'>;
+export type LedgerEntryRow = Tables<'ledger_entries'>;
+export type LedgerLineRow = Tables<'ledger_lines'>;
@@ -0,0 +1,76 @@
+/*
+ * services/data/document.repository.ts
+ *
+ * Purpose: queries against `campaign_documents` and
+ * `document_access_logs`, and the startup's side of the
+ * campaign-documents storage bucket. Uploads and replacements go through
+ * services/campaign/dataRoom.service.ts; documents are opened through
+ * the open-campaign-document server function, never read from storage
+ * here.
+ */
+
+import { supabase } from '../../supabaseClient';
+import { CampaignDocumentRow, DocumentAccessLogRow, TablesInsert } from './database.types';
+import { DOCUMENT_BUCKET } from '../../utils/document.util';
+
+export const CampaignDocumentRepository = {
+  // Every version of a campaign's documents, oldest first. RLS leaves out
+  // the ones the caller may not see.
+  async listByCampaign(campaignId: string): Promise<CampaignDocumentRow[]> {
+    const { data, error } = await supabase
+      .from('campaign_documents')
+      .select('*')
+      .eq('campaign_id', campaignId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data ?? [];
+  },
+
+  async create(document: TablesInsert<'campaign_documents'>): Promise<CampaignDocumentRow> {
+    const { data, error } = await supabase
+      .from('campaign_documents')
+      .insert(document)
+      .select('*')
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async markSuperseded(id: string, at: string): Promise<void> {
+    const { error } = await supabase.from('campaign_documents').update({ superseded_at: at }).eq('id', id);
+    if (error) throw error;
+  },
+
+  async remove(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    const { error } = await supabase.from('campaign_documents').delete().in('id', ids);
+    if (error) throw error;
+  },
+
+  async uploadFile(path: string, body: ArrayBuffer, contentType: string): Promise<void> {
+    const { error } = await supabase.storage.from(DOCUMENT_BUCKET).upload(path, body, { contentType, upsert: false });
+    if (error) throw error;
+  },
+
+  async removeFiles(paths: string[]): Promise<void> {
+    if (paths.length === 0) return;
+    const { error } = await supabase.storage.from(DOCUMENT_BUCKET).remove(paths);
+    if (error) throw error;
+  },
+
+  // Who opened the given documents, newest first.
+  async listAccessLogs(documentIds: string[]): Promise<DocumentAccessLogRow[]> {
+    if (documentIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('document_access_logs')
+      .select('*')
+      .in('document_id', documentIds)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data ?? [];
+  }
+};
@@ -0,0 +1,229 @@
+/*
+ * services/data/interest.repository.ts
+ *
+ * Purpose: queries against `campaign_interests`, the table that records
+ * an investor's interest in a fundraising campaign. A unique constraint
+ * on (campaign_id, investor_id) means an investor can only have one
+ * interest row per campaign.
+ */
+
+import { supabase } from '../../supabaseClient';
+import {
+  CampaignInterestRow,
+  CampaignRow,
+  InterestLevel,
+  InterestStatus,
+  InvestorRow,
+  StartupRow,
+  TablesInsert
+} from './database.types';
+
+// Optional details an investor can attach when expressing interest.
+export type InterestDetails = {
+  interest_level?: InterestLevel;
+  proposed_investment?: number | null;
+  proposed_equity?: number | null;
+  notes?: string | null;
+};
+
+// An interest as the startup sees it: the row plus who the investor is.
+export type InterestWithInvestor = CampaignInterestRow & {
+  investors: Pick<InvestorRow, 'investor_name' | 'company_name' | 'investor_type'> | null;
+};
+
+// An interest with both parties' names, for message threads.
+export type InterestWithParties = CampaignInterestRow & {
+  fundraising_campaigns:
+    | (Pick<CampaignRow, 'id' | 'title' | 'startup_id'> & { startups: Pick<StartupRow, 'company_name' | 'owner_id'> | null })
+    | null;
+  investors: Pick<InvestorRow, 'investor_name' | 'company_name' | 'owner_id'> | null;
+};
+
+const INTEREST_WITH_PARTIES =
+  '*, fundraising_campaigns (id, title, startup_id, startups (company_name, owner_id)), investors (investor_name, company_name, owner_id)';
+
+export const InterestRepository = {
+  // The investor's interest in a campaign, or null if none exists yet.
+  async findForInvestor(campaignId: string, investorId: string): Promise<CampaignInterestRow | null> {
+    const { data, error } = await supabase
+      .from('campaign_interests')
+      .select('*')
+      .eq('campaign_id', campaignId)
+      .eq('investor_id', investorId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+
+  // Every interest recorded against one campaign, newest first.
+  async listForCampaign(campaignId: string): Promise<CampaignInterestRow[]> {
+    const { data, error } = await supabase
+      .from('campaign_interests')
+      .select('*')
+      .eq('campaign_id', campaignId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data ?? [];
+  },
+
+  // The campaign's interests with investor names, for the startup's
+  // pipeline view. Newest first.
+  async listForCampaignWithInvestor(campaignId: string): Promise<InterestWithInvestor[]> {
+    const { data, error } = await supabase
+      .from('campaign_interests')
+      .select('*, investors (investor_name, company_name, investor_type)')
+      .eq('campaign_id', campaignId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data ?? []) as InterestWithInvestor[];
+  },
+
+  // How many of the given campaigns the investor has expressed interest in.
+  async countForInvestorInCampaigns(investorId: string, campaignIds: string[]): Promise<number> {
+    if (campaignIds.length === 0) return 0;
+
+    const { count, error } = await supabase
+      .from('campaign_interests')
+      .select('id', { count: 'exact', head: true })
+      .eq('investor_id', investorId)
+      .in('campaign_id', campaignIds);
+
+    if (error) throw error;
+    return count ?? 0;
+  },
+
+  // Ids of the investors interested in any of the given campaigns.
+  async listInvestorIdsForCampaigns(campaignIds: string[]): Promise<string[]> {
+    if (campaignIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('campaign_interests')
+      .select('investor_id')
+      .in('campaign_id', campaignIds);
+
+    if (error) throw error;
+    return Array.from(new Set((data ?? []).map(i => i.investor_id).filter((id): id is string => !!id)));
+  },
+
+  async findWithParties(id: string): Promise<InterestWithParties | null> {
+    const { data, error } = await supabase
+      .from('campaign_interests')
+      .select(INTEREST_WITH_PARTIES)
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as unknown as InterestWithParties | null;
+  },
+
+  // The investor's interests with names, newest first.
+  async listWithPartiesForInvestor(investorId: string): Promise<InterestWithParties[]> {
+    const { data, error } = await supabase
+      .from('campaign_interests')
+      .select(INTEREST_WITH_PARTIES)
+      .eq('investor_id', investorId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data ?? []) as unknown as InterestWithParties[];
+  },
+
+  // Interests in any of the given campaigns with names, newest first.
+  async listWithPartiesForCampaigns(campaignIds: string[]): Promise<InterestWithParties[]> {
+    if (campaignIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('campaign_interests')
+      .select(INTEREST_WITH_PARTIES)
+      .in('campaign_id', campaignIds)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data ?? []) as unknown as InterestWithParties[];
+  },
+
+  // Every interest an investor has expressed, newest first.
+  async listForInvestor(investorId: string): Promise<CampaignInterestRow[]> {
+    const { data, error } = await supabase
+      .from('campaign_interests')
+      .select('*')
+      .eq('investor_id', investorId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data ?? [];
+  },
+
+  /*
+   * updateStatus
+   * - Move an interest to `to`, but only if it is still at `from`.
+   * - Returns null when no row matched, i.e. someone else moved it first.
+   */
+  async updateStatus(id: string, from: InterestStatus | null, to: InterestStatus): Promise<CampaignInterestRow | null> {
+    let query = supabase.from('campaign_interests').update({ status: to }).eq('id', id);
+    query = from === null ? query.is('status', null) : query.eq('status', from);
+
+    const { data, error } = await query.select('*');
+
+    if (error) throw error;
+    return data?.[0] ?? null;
+  },
+
+  /*
+   * removeIfPending
+   * - Delete an interest the startup has not acted on yet.
+   * - Returns false when the row is gone or has moved past `pending`.
+   */
+  async removeIfPending(id: string): Promise<boolean> {
+    const { data, error } = await supabase
+      .from('campaign_interests')
+      .delete()
+      .eq('id', id)
+      .eq('status', 'pending')
+      .select('id');
+
+    if (error) throw error;
+    return (data ?? []).length > 0;
+  },
+
+  async create(interest: TablesInsert<'campaign_interests'>): Promise<CampaignInterestRow> {
+    const { data, error } = await supabase
+      .from('campaign_interests')
+      .insert(interest)
+      .select('*')
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  /*
+   * expressInterest
+   * - Record a new `pending` interest for the investor in the campaign.
+   * - Returns 'exists' without writing when the investor already has an
+   *   interest row for this campaign, so screens can show a friendly
+   *   message instead of a unique-constraint error.
+   */
+  async expressInterest(
+    campaignId: string,
+    investorId: string,
+    details: InterestDetails = {}
+  ): Promise<'created' | 'exists'> {
+    const existing = await InterestRepository.findForInvestor(campaignId, investorId);
+    if (existing) return 'exists';
+
+    await InterestRepository.create({
+      campaign_id: campaignId,
+      investor_id: investorId,
+      interest_level: details.interest_level ?? 'interested',
+      proposed_investment: details.proposed_investment ?? null,
+      proposed_equity: details.proposed_equity ?? null,
+      notes: details.notes ?? null,
+      status: 'pending'
+    });
+    return 'created';
+  }
+};
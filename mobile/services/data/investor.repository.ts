@@ -0,0 +1,128 @@
+/*
+ * services/data/investor.repository.ts
+ *
+ * Purpose: queries against the `investors` table: profile load/save for
+ * the owner, discovery lists for startups and admin moderation.
+ */
+
+import { supabase } from '../../supabaseClient';
+import { uuidv4 } from '../../utils/id.util';
+import { InvestorRow, TablesUpdate, VerificationStatus } from './database.types';
+
+// Fields shown on the startup home screen's investor cards (and used to
+// rank them).
+export type InvestorSummary = Pick<
+  InvestorRow,
+  | 'id'
+  | 'investor_name'
+  | 'investor_type'
+  | 'company_name'
+  | 'location'
+  | 'min_investment'
+  | 'max_investment'
+  | 'interested_industries'
+  | 'linkedin_url'
+>;
+
+export const INVESTOR_SUMMARY_COLUMNS =
+  'id, investor_name, investor_type, company_name, location, min_investment, max_investment, interested_industries, linkedin_url';
+
+// Fields shown on the admin investor management list.
+export type InvestorAdminSummary = Pick<
+  InvestorRow,
+  'id' | 'public_id' | 'investor_type' | 'subscription' | 'disabled' | 'verification_status' | 'accredited_until'
+>;
+
+// Editable profile fields.
+export type InvestorProfileInput = Omit<TablesUpdate<'investors'>, 'id' | 'owner_id'>;
+
+export const InvestorRepository = {
+  // The investor profile owned by a user, or null when they have none yet.
+  async findByOwner(ownerId: string): Promise<InvestorRow | null> {
+    const { data, error } = await supabase
+      .from('investors')
+      .select('*')
+      .eq('owner_id', ownerId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+
+  // Just the id of the user's investor profile.
+  async findIdByOwner(ownerId: string): Promise<string | null> {
+    const { data, error } = await supabase
+      .from('investors')
+      .select('id')
+      .eq('owner_id', ownerId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data?.id ?? null;
+  },
+
+  async getById(id: string): Promise<InvestorRow | null> {
+    const { data, error } = await supabase
+      .from('investors')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+
+  // Investors for the startup discovery list, newest first.
+  async listForDiscovery(): Promise<InvestorSummary[]> {
+    const { data, error } = await supabase
+      .from('investors')
+      .select(INVESTOR_SUMMARY_COLUMNS)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data ?? [];
+  },
+
+  async listForAdmin(): Promise<InvestorAdminSummary[]> {
+    const { data, error } = await supabase
+      .from('investors')
+      .select('id, public_id, investor_type, subscription, disabled, verification_status, accredited_until');
+
+    if (error) throw error;
+    return data ?? [];
+  },
+
+  /*
+   * saveProfile
+   * - Update the owner's existing investor row, or create one.
+   * - `investors.id` has no database default, so new rows get a UUID here.
+   */
+  async saveProfile(ownerId: string, profile: InvestorProfileInput): Promise<void> {
+    const existingId = await InvestorRepository.findIdByOwner(ownerId);
+
+    if (existingId) {
+      const { error } = await supabase.from('investors').update(profile).eq('id', existingId);
+      if (error) throw error;
+      return;
+    }
+
+    const { error } = await supabase.from('investors').insert({ ...profile, id: uuidv4(), owner_id: ownerId });
+    if (error) throw error;
+  },
+
+  async setDisabled(id: string, disabled: boolean): Promise<void> {
+    const { error } = await supabase.from('investors').update({ disabled }).eq('id', id);
+    if (error) throw error;
+  },
+
+  // Admin review; db/kyc.sql stops owners setting these themselves.
+  async setVerificationStatus(id: string, status: VerificationStatus): Promise<void> {
+    const { error } = await supabase.from('investors').update({ verification_status: status }).eq('id', id);
+    if (error) throw error;
+  },
+
+  async setAccreditedUntil(id: string, accredited_until: string | null): Promise<void> {
+    const { error } = await supabase.from('investors').update({ accredited_until }).eq('id', id);
+    if (error) throw error;
+  }
+};
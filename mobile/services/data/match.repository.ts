@@ -0,0 +1,114 @@
+/*
+ * services/data/match.repository.ts
+ *
+ * Purpose: queries against `startup_likes` (a startup opting in to an
+ * investor) and `matches` (both sides opted in). The rules for when a
+ * match is created live in services/match/match.service.ts.
+ */
+
+import { supabase } from '../../supabaseClient';
+import { InvestorRow, MatchRow, StartupLikeRow, StartupRow } from './database.types';
+
+// A match with both parties' names, for the Matches lists.
+export type MatchWithParties = MatchRow & {
+  startups: Pick<StartupRow, 'company_name' | 'industry' | 'location'> | null;
+  investors: Pick<InvestorRow, 'investor_name' | 'company_name' | 'location'> | null;
+};
+
+const MATCH_WITH_PARTIES =
+  '*, startups (company_name, industry, location), investors (investor_name, company_name, location)';
+
+export const MatchRepository = {
+  // Record the startup's like. Liking twice is not an error.
+  async like(startupId: string, investorId: string): Promise<void> {
+    const { error } = await supabase
+      .from('startup_likes')
+      .upsert({ startup_id: startupId, investor_id: investorId }, { onConflict: 'startup_id,investor_id', ignoreDuplicates: true });
+
+    if (error) throw error;
+  },
+
+  async findLike(startupId: string, investorId: string): Promise<StartupLikeRow | null> {
+    const { data, error } = await supabase
+      .from('startup_likes')
+      .select('*')
+      .eq('startup_id', startupId)
+      .eq('investor_id', investorId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+
+  // Ids of every investor the startup has liked.
+  async listLikedInvestorIds(startupId: string): Promise<string[]> {
+    const { data, error } = await supabase
+      .from('startup_likes')
+      .select('investor_id')
+      .eq('startup_id', startupId);
+
+    if (error) throw error;
+    return (data ?? []).map(l => l.investor_id);
+  },
+
+  async find(startupId: string, investorId: string): Promise<MatchRow | null> {
+    const { data, error } = await supabase
+      .from('matches')
+      .select('*')
+      .eq('startup_id', startupId)
+      .eq('investor_id', investorId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async create(startupId: string, investorId: string): Promise<MatchRow> {
+    const { data, error } = await supabase
+      .from('matches')
+      .insert({ startup_id: startupId, investor_id: investorId })
+      .select('*')
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  // The startup's matches, newest first.
+  async listForStartup(startupId: string): Promise<MatchWithParties[]> {
+    const { data, error } = await supabase
+      .from('matches')
+      .select(MATCH_WITH_PARTIES)
+      .eq('startup_id', startupId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data ?? []) as MatchWithParties[];
+  },
+
+  // The investor's matches, newest first.
+  async listForInvestor(investorId: string): Promise<MatchWithParties[]> {
+    const { data, error } = await supabase
+      .from('matches')
+      .select(MATCH_WITH_PARTIES)
+      .eq('investor_id', investorId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data ?? []) as MatchWithParties[];
+  },
+
+  // Stamp the side's `*_seen_at` on matches it has not seen yet.
+  async markSeen(ids: string[], side: 'startup' | 'investor'): Promise<void> {
+    if (ids.length === 0) return;
+    const column = side === 'startup' ? 'startup_seen_at' : 'investor_seen_at';
+
+    const { error } = await supabase
+      .from('matches')
+      .update({ [column]: new Date().toISOString() })
+      .in('id', ids)
+      .is(column, null);
+
+    if (error) throw error;
+  }
+};
@@ -0,0 +1,69 @@
+/*
+ * services/data/meeting.repository.ts
+ *
+ * Purpose: queries against `meeting_slots`, the meeting times a startup
+ * proposes for a campaign interest. Accepting a slot goes through the
+ * accept-meeting-slot server function instead (server/acceptMeetingSlot.ts);
+ * the scheduling rules live in services/meeting/meeting.service.ts.
+ */
+
+import { supabase } from '../../supabaseClient';
+import { MeetingSlotRow, MeetingSlotStatus, TablesInsert } from './database.types';
+
+export const MeetingRepository = {
+  // Every slot proposed for an interest, earliest first.
+  async listForInterest(interestId: string): Promise<MeetingSlotRow[]> {
+    const { data, error } = await supabase
+      .from('meeting_slots')
+      .select('*')
+      .eq('interest_id', interestId)
+      .order('starts_at', { ascending: true });
+
+    if (error) throw error;
+    return data ?? [];
+  },
+
+  // Accepted meetings in the given interests that have not ended by
+  // `fromIso`, earliest first.
+  async listUpcoming(interestIds: string[], fromIso: string): Promise<MeetingSlotRow[]> {
+    if (interestIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('meeting_slots')
+      .select('*')
+      .in('interest_id', interestIds)
+      .eq('status', 'accepted')
+      .gte('ends_at', fromIso)
+      .order('starts_at', { ascending: true });
+
+    if (error) throw error;
+    return data ?? [];
+  },
+
+  async createMany(slots: TablesInsert<'meeting_slots'>[]): Promise<MeetingSlotRow[]> {
+    const { data, error } = await supabase
+      .from('meeting_slots')
+      .insert(slots)
+      .select('*');
+
+    if (error) throw error;
+    return data ?? [];
+  },
+
+  /*
+   * updateStatus
+   * - Move a slot to `to`, but only if it is still at `from`.
+   * - Returns null when no row matched, i.e. someone else moved it first.
+   */
+  async updateStatus(id: string, from: MeetingSlotStatus, to: MeetingSlotStatus): Promise<MeetingSlotRow | null> {
+    const { data, error } = await supabase
+      .from('meeting_slots')
+      .update({ status: to, responded_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('status', from)
+      .select('*');
+
+    if (error) throw error;
+    return data?.[0] ?? null;
+  }
+};
@@ -0,0 +1,85 @@
+/*
+ * services/data/message.repository.ts
+ *
+ * Purpose: queries against `messages`. Each campaign interest is one
+ * conversation between the investor and the startup, so messages are
+ * keyed by `interest_id`. The rules for sending and the realtime /
+ * polling updates live in services/message/message.service.ts.
+ */
+
+import { supabase } from '../../supabaseClient';
+import { CampaignDocumentRow, MessageRow, TablesInsert } from './database.types';
+
+// A message with the campaign document it shares, if any.
+export type MessageWithDocument = MessageRow & {
+  campaign_documents: Pick<CampaignDocumentRow, 'id' | 'file_name' | 'file_url' | 'document_type'> | null;
+};
+
+// Enough of a message to preview it and count it as unread.
+export type MessagePreview = Pick<MessageRow, 'id' | 'interest_id' | 'sender_id' | 'body' | 'document_id' | 'created_at' | 'read_at'>;
+
+export const MessageRepository = {
+  // One conversation, oldest first.
+  async listForInterest(interestId: string): Promise<MessageWithDocument[]> {
+    const { data, error } = await supabase
+      .from('messages')
+      .select('*, campaign_documents (id, file_name, file_url, document_type)')
+      .eq('interest_id', interestId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return (data ?? []) as unknown as MessageWithDocument[];
+  },
+
+  // Messages across several conversations, newest first, for previews.
+  async listPreviews(interestIds: string[]): Promise<MessagePreview[]> {
+    if (interestIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('messages')
+      .select('id, interest_id, sender_id, body, document_id, created_at, read_at')
+      .in('interest_id', interestIds)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data ?? [];
+  },
+
+  // Messages in the conversations that `readerId` has not read yet.
+  async listUnread(interestIds: string[], readerId: string): Promise<Pick<MessageRow, 'id' | 'interest_id'>[]> {
+    if (interestIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('messages')
+      .select('id, interest_id')
+      .in('interest_id', interestIds)
+      .neq('sender_id', readerId)
+      .is('read_at', null);
+
+    if (error) throw error;
+    return data ?? [];
+  },
+
+  async create(message: TablesInsert<'messages'>): Promise<MessageRow> {
+    const { data, error } = await supabase
+      .from('messages')
+      .insert(message)
+      .select('*')
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  // Mark everything the other party sent in a conversation as read.
+  async markRead(interestId: string, readerId: string): Promise<void> {
+    const { error } = await supabase
+      .from('messages')
+      .update({ read_at: new Date().toISOString() })
+      .eq('interest_id', interestId)
+      .neq('sender_id', readerId)
+      .is('read_at', null);
+
+    if (error) throw error;
+  }
+};
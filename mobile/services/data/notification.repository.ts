@@ -0,0 +1,116 @@
+/*
+ * services/data/notification.repository.ts
+ *
+ * Purpose: queries for the signed-in user's notifications: the in-app
+ * inbox, their channel preferences and their devices' push tokens.
+ * Notifications are created by the notify-event server function
+ * (server/notifyEvent.ts), never from here.
+ */
+
+import { supabase } from '../../supabaseClient';
+import { NotificationPreferencesRow, NotificationRow, PushTokenRow, TablesInsert } from './database.types';
+
+// How many inbox rows to load at once.
+const INBOX_LIMIT = 100;
+
+export const NotificationRepository = {
+  // The user's inbox, newest first. Notifications sent while in-app was
+  // off are left out.
+  async listInbox(userId: string): Promise<NotificationRow[]> {
+    const { data, error } = await supabase
+      .from('notifications')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('in_app', true)
+      .order('created_at', { ascending: false })
+      .limit(INBOX_LIMIT);
+
+    if (error) throw error;
+    return data ?? [];
+  },
+
+  async countUnread(userId: string): Promise<number> {
+    const { count, error } = await supabase
+      .from('notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .eq('in_app', true)
+      .is('read_at', null);
+
+    if (error) throw error;
+    return count ?? 0;
+  },
+
+  // Pass null to mark unread again.
+  async setRead(id: string, readAt: string | null): Promise<void> {
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: readAt })
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  async markAllRead(userId: string): Promise<void> {
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .is('read_at', null);
+
+    if (error) throw error;
+  },
+
+  // Null when the user has never saved preferences.
+  async getPreferences(userId: string): Promise<NotificationPreferencesRow | null> {
+    const { data, error } = await supabase
+      .from('notification_preferences')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async savePreferences(preferences: TablesInsert<'notification_preferences'>): Promise<NotificationPreferencesRow> {
+    const { data, error } = await supabase
+      .from('notification_preferences')
+      .upsert(preferences, { onConflict: 'user_id' })
+      .select('*')
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async listPushTokens(userId: string): Promise<PushTokenRow[]> {
+    const { data, error } = await supabase
+      .from('push_tokens')
+      .select('*')
+      .eq('user_id', userId);
+
+    if (error) throw error;
+    return data ?? [];
+  },
+
+  async savePushToken(userId: string, token: string, platform: string): Promise<void> {
+    const { error } = await supabase
+      .from('push_tokens')
+      .upsert(
+        { user_id: userId, token, platform, updated_at: new Date().toISOString() },
+        { onConflict: 'token' }
+      );
+
+    if (error) throw error;
+  },
+
+  async removePushToken(token: string): Promise<void> {
+    const { error } = await supabase
+      .from('push_tokens')
+      .delete()
+      .eq('token', token);
+
+    if (error) throw error;
+  }
+};
@@ -0,0 +1,53 @@
+/*
+ * services/data/payment.repository.ts
+ *
+ * Purpose: read payments for the payer and for admins. Payments are only
+ * ever written by the payment server functions (server/payments.ts); RLS
+ * has no write policies on them.
+ */
+
+import { supabase } from '../../supabaseClient';
+import { InvestmentRow, PaymentRow } from './database.types';
+
+// A confirmed investment and its latest payment, if one was started.
+export type InvestmentPayment = {
+  investment: Pick<InvestmentRow, 'id' | 'amount' | 'status'>;
+  payment: PaymentRow | null;
+};
+
+export const PaymentRepository = {
+  // The investment confirmed from an interest, with its latest payment, or
+  // null while the interest has no investment.
+  async findForInterest(interestId: string): Promise<InvestmentPayment | null> {
+    const { data: investment, error } = await supabase
+      .from('investments')
+      .select('id, amount, status')
+      .eq('interest_id', interestId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!investment) return null;
+
+    const { data: payments, error: paymentError } = await supabase
+      .from('payments')
+      .select('*')
+      .eq('investment_id', investment.id)
+      .order('created_at', { ascending: false })
+      .limit(1);
+
+    if (paymentError) throw paymentError;
+    return { investment, payment: payments?.[0] ?? null };
+  },
+
+  // Every payment, newest first, for admins.
+  async listAll(limit = 200): Promise<PaymentRow[]> {
+    const { data, error } = await supabase
+      .from('payments')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return data ?? [];
+  }
+};
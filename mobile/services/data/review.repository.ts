@@ -0,0 +1,55 @@
+/*
+ * services/data/review.repository.ts
+ *
+ * Purpose: queries against `campaign_reviews`, the append-only record of
+ * admin decisions on submitted campaigns. Decisions are made through
+ * services/campaign/review.service.ts, which also moves the campaign.
+ */
+
+import { supabase } from '../../supabaseClient';
+import { CampaignReviewRow, TablesInsert } from './database.types';
+
+export const CampaignReviewRepository = {
+  async create(review: TablesInsert<'campaign_reviews'>): Promise<CampaignReviewRow> {
+    const { data, error } = await supabase
+      .from('campaign_reviews')
+      .insert(review)
+      .select('*')
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  // Every decision on one campaign, newest first.
+  async listByCampaign(campaignId: string): Promise<CampaignReviewRow[]> {
+    const { data, error } = await supabase
+      .from('campaign_reviews')
+      .select('*')
+      .eq('campaign_id', campaignId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data ?? [];
+  },
+
+  // The most recent decision per campaign, keyed by campaign id. Campaigns
+  // that were never reviewed are left out.
+  async latestByCampaign(campaignIds: string[]): Promise<Record<string, CampaignReviewRow>> {
+    if (campaignIds.length === 0) return {};
+
+    const { data, error } = await supabase
+      .from('campaign_reviews')
+      .select('*')
+      .in('campaign_id', campaignIds)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    const latest: Record<string, CampaignReviewRow> = {};
+    for (const review of data ?? []) {
+      if (!latest[review.campaign_id]) latest[review.campaign_id] = review;
+    }
+    return latest;
+  }
+};
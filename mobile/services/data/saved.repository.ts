@@ -0,0 +1,117 @@
+/*
+ * services/data/saved.repository.ts
+ *
+ * Purpose: queries against `saved_items` (startups, investors and
+ * campaigns a user has saved, with a private note) and `shortlists` (the
+ * named lists they can file them in). Rows belong to `users.id`, so the
+ * same tables serve startups and investors.
+ */
+
+import { supabase } from '../../supabaseClient';
+import { CAMPAIGN_WITH_STARTUP, CampaignWithStartup } from './campaign.repository';
+import { INVESTOR_SUMMARY_COLUMNS, InvestorSummary } from './investor.repository';
+import { STARTUP_SUMMARY_COLUMNS, StartupSummary } from './startup.repository';
+import { SavedItemRow, SavedItemType, ShortlistRow, TablesUpdate } from './database.types';
+
+// The target column for each kind of saved item.
+export const SAVED_TARGET_COLUMN: Record<SavedItemType, 'startup_id' | 'investor_id' | 'campaign_id'> = {
+  startup: 'startup_id',
+  investor: 'investor_id',
+  campaign: 'campaign_id'
+};
+
+// A saved item with the card data for whatever it points at.
+export type SavedItemWithTarget = SavedItemRow & {
+  startups: StartupSummary | null;
+  investors: InvestorSummary | null;
+  fundraising_campaigns: CampaignWithStartup | null;
+};
+
+const SAVED_WITH_TARGET =
+  `*, startups (${STARTUP_SUMMARY_COLUMNS}), investors (${INVESTOR_SUMMARY_COLUMNS}), ` +
+  `fundraising_campaigns (${CAMPAIGN_WITH_STARTUP})`;
+
+export const SavedRepository = {
+  // The user's saved items with their cards, newest first.
+  async listItems(ownerId: string): Promise<SavedItemWithTarget[]> {
+    const { data, error } = await supabase
+      .from('saved_items')
+      .select(SAVED_WITH_TARGET)
+      .eq('owner_id', ownerId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data ?? []) as unknown as SavedItemWithTarget[];
+  },
+
+  // Just the target ids, for showing saved state on browse lists.
+  async listTargets(ownerId: string): Promise<Pick<SavedItemRow, 'startup_id' | 'investor_id' | 'campaign_id'>[]> {
+    const { data, error } = await supabase
+      .from('saved_items')
+      .select('startup_id, investor_id, campaign_id')
+      .eq('owner_id', ownerId);
+
+    if (error) throw error;
+    return data ?? [];
+  },
+
+  // Save an item. Saving it again is not an error.
+  async save(ownerId: string, type: SavedItemType, targetId: string): Promise<void> {
+    const column = SAVED_TARGET_COLUMN[type];
+    const { error } = await supabase
+      .from('saved_items')
+      .upsert({ owner_id: ownerId, [column]: targetId }, { onConflict: `owner_id,${column}`, ignoreDuplicates: true });
+
+    if (error) throw error;
+  },
+
+  async remove(ownerId: string, type: SavedItemType, targetId: string): Promise<void> {
+    const { error } = await supabase
+      .from('saved_items')
+      .delete()
+      .eq('owner_id', ownerId)
+      .eq(SAVED_TARGET_COLUMN[type], targetId);
+
+    if (error) throw error;
+  },
+
+  // Change an item's note or shortlist.
+  async update(id: string, patch: Pick<TablesUpdate<'saved_items'>, 'note' | 'shortlist_id'>): Promise<void> {
+    const { error } = await supabase.from('saved_items').update(patch).eq('id', id);
+    if (error) throw error;
+  },
+
+  // The user's shortlists, alphabetical.
+  async listShortlists(ownerId: string): Promise<ShortlistRow[]> {
+    const { data, error } = await supabase
+      .from('shortlists')
+      .select('*')
+      .eq('owner_id', ownerId)
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+    return data ?? [];
+  },
+
+  async createShortlist(ownerId: string, name: string): Promise<ShortlistRow> {
+    const { data, error } = await supabase
+      .from('shortlists')
+      .insert({ owner_id: ownerId, name })
+      .select('*')
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async renameShortlist(id: string, name: string): Promise<void> {
+    const { error } = await supabase.from('shortlists').update({ name }).eq('id', id);
+    if (error) throw error;
+  },
+
+  // Deleting a list leaves its items saved, just unfiled.
+  async removeShortlist(id: string): Promise<void> {
+    const { error } = await supabase.from('shortlists').delete().eq('id', id);
+    if (error) throw error;
+  }
+};
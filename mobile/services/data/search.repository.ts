@@ -0,0 +1,186 @@
+/*
+ * services/data/search.repository.ts
+ *
+ * Purpose: full-text and faceted search over startups, investors and
+ * active campaigns (db/search.sql). Each search returns one page of rows
+ * and the total number of matches; the `*FacetRows` queries return the
+ * few columns needed to count facet values for the same text.
+ *
+ * Disabled profiles are never returned, and only active campaigns.
+ */
+
+import { supabase } from '../../supabaseClient';
+import { CampaignWithStartup } from './campaign.repository';
+import { INVESTOR_SUMMARY_COLUMNS, InvestorSummary } from './investor.repository';
+import { STARTUP_SUMMARY_COLUMNS, StartupSummary } from './startup.repository';
+import { InvestorRow, StartupRow } from './database.types';
+import {
+  escapeLike,
+  findRange,
+  listItemPattern,
+  pageRange,
+  RAISED_BANDS,
+  SearchFacets,
+  SortOption,
+  TICKET_RANGES,
+  toTextQuery
+} from '../../utils/search.util';
+
+export type SearchRequest = {
+  text: string;
+  facets: SearchFacets;
+  sort: SortOption;
+  page: number;
+};
+
+export type SearchPage<T> = { rows: T[]; total: number };
+
+export type StartupFacetRow = Pick<StartupRow, 'industry' | 'funding_stage' | 'location' | 'verification_status'>;
+export type InvestorFacetRow = Pick<InvestorRow, 'interested_industries' | 'investor_type' | 'location'>;
+export type CampaignFacetRow = {
+  startups: Pick<StartupRow, 'industry' | 'funding_stage' | 'location' | 'verification_status'> | null;
+};
+
+// Campaign rows with the startup fields the cards and facets use. The
+// inner join lets facets filter on the startup's columns.
+const CAMPAIGN_SEARCH_COLUMNS =
+  '*, startups!inner (company_name, industry, funding_stage, location, verification_status)';
+
+// Facet rows are only counted, so a cap keeps the query light.
+const FACET_ROW_LIMIT = 1000;
+
+// Industries are comma-separated lists, so an industry facet matches one
+// item of the list; the other text facets match the whole value. Both
+// ignore case.
+//
+// The helpers below add filters to a supabase-js query builder and hand
+// the same builder back. Its generic type is too deep for TypeScript to
+// check through a constraint, so inside them it is `any`.
+function withText<Q>(query: Q, text: string): Q {
+  const tsQuery = toTextQuery(text);
+  return tsQuery ? (query as any).textSearch('search_vector', tsQuery, { config: 'english' }) : query;
+}
+
+function filterStartups<Q>(builder: Q, facets: SearchFacets): Q {
+  let query = builder as any;
+  if (facets.industry) query = query.regexIMatch('industry', listItemPattern(facets.industry));
+  if (facets.stage) query = query.ilike('funding_stage', escapeLike(facets.stage));
+  if (facets.location) query = query.ilike('location', escapeLike(facets.location));
+  if (facets.verification) query = query.eq('verification_status', facets.verification);
+  return query;
+}
+
+// An investor matches a ticket range when their own range overlaps it.
+function filterInvestors<Q>(builder: Q, facets: SearchFacets): Q {
+  let query = builder as any;
+  if (facets.industry) query = query.regexIMatch('interested_industries', listItemPattern(facets.industry));
+  if (facets.investorType) query = query.ilike('investor_type', escapeLike(facets.investorType));
+  if (facets.location) query = query.ilike('location', escapeLike(facets.location));
+  const ticket = findRange(TICKET_RANGES, facets.ticket);
+  if (ticket) {
+    if (ticket.max !== null) query = query.lte('min_investment', ticket.max);
+    if (ticket.min > 0) query = query.gte('max_investment', ticket.min);
+  }
+  return query;
+}
+
+// A campaign matches a ticket range when its minimum ticket falls in it.
+function filterCampaigns<Q>(builder: Q, facets: SearchFacets): Q {
+  let query = builder as any;
+  if (facets.campaignType) query = query.eq('campaign_type', facets.campaignType);
+  if (facets.industry) query = query.regexIMatch('startups.industry', listItemPattern(facets.industry));
+  if (facets.stage) query = query.ilike('startups.funding_stage', escapeLike(facets.stage));
+  if (facets.location) query = query.ilike('startups.location', escapeLike(facets.location));
+  if (facets.verification) query = query.eq('startups.verification_status', facets.verification);
+  const ticket = findRange(TICKET_RANGES, facets.ticket);
+  if (ticket) {
+    query = query.gte('min_investment', ticket.min);
+    if (ticket.max !== null) query = query.lt('min_investment', ticket.max);
+  }
+  const raised = findRange(RAISED_BANDS, facets.raised);
+  if (raised) {
+    query = query.gte('funded_percent', raised.min);
+    if (raised.max !== null) query = query.lt('funded_percent', raised.max);
+  }
+  return query;
+}
+
+export const SearchRepository = {
+  async startups(request: SearchRequest): Promise<SearchPage<StartupSummary>> {
+    const [from, to] = pageRange(request.page);
+    const base = supabase
+      .from('startups')
+      .select(STARTUP_SUMMARY_COLUMNS, { count: 'exact' })
+      .eq('disabled', false);
+    const { data, count, error } = await filterStartups(withText(base, request.text), request.facets)
+      .order(request.sort.column, { ascending: request.sort.ascending })
+      .order('id', { ascending: true })
+      .range(from, to);
+
+    if (error) throw error;
+    return { rows: data ?? [], total: count ?? 0 };
+  },
+
+  async investors(request: SearchRequest): Promise<SearchPage<InvestorSummary>> {
+    const [from, to] = pageRange(request.page);
+    const base = supabase
+      .from('investors')
+      .select(INVESTOR_SUMMARY_COLUMNS, { count: 'exact' })
+      .eq('disabled', false);
+    const { data, count, error } = await filterInvestors(withText(base, request.text), request.facets)
+      .order(request.sort.column, { ascending: request.sort.ascending })
+      .order('id', { ascending: true })
+      .range(from, to);
+
+    if (error) throw error;
+    return { rows: data ?? [], total: count ?? 0 };
+  },
+
+  async campaigns(request: SearchRequest): Promise<SearchPage<CampaignWithStartup>> {
+    const [from, to] = pageRange(request.page);
+    const base = supabase
+      .from('fundraising_campaigns')
+      .select(CAMPAIGN_SEARCH_COLUMNS, { count: 'exact' })
+      .eq('status', 'active');
+    const { data, count, error } = await filterCampaigns(withText(base, request.text), request.facets)
+      .order(request.sort.column, { ascending: request.sort.ascending })
+      .order('id', { ascending: true })
+      .range(from, to);
+
+    if (error) throw error;
+    return { rows: (data ?? []) as CampaignWithStartup[], total: count ?? 0 };
+  },
+
+  async startupFacetRows(text: string): Promise<StartupFacetRow[]> {
+    const base = supabase
+      .from('startups')
+      .select('industry, funding_stage, location, verification_status')
+      .eq('disabled', false);
+    const { data, error } = await withText(base, text).limit(FACET_ROW_LIMIT);
+
+    if (error) throw error;
+    return data ?? [];
+  },
+
+  async investorFacetRows(text: string): Promise<InvestorFacetRow[]> {
+    const base = supabase
+      .from('investors')
+      .select('interested_industries, investor_type, location')
+      .eq('disabled', false);
+    const { data, error } = await withText(base, text).limit(FACET_ROW_LIMIT);
+
+    if (error) throw error;
+    return data ?? [];
+  },
+
+  async campaignFacetRows(text: string): Promise<CampaignFacetRow[]> {
+    const base = supabase
+      .from('fundraising_campaigns')
+      .select('startups!inner (industry, funding_stage, location, verification_status)')
+      .eq('status', 'active');
+    const { data, error } = await withText(base, text).limit(FACET_ROW_LIMIT);
+
+    if (error) throw error;
+    return (data ?? []) as CampaignFacetRow[];
+  }
+};
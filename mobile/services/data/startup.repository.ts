@@ -0,0 +1,161 @@
+/*
+ * services/data/startup.repository.ts
+ *
+ * Purpose: queries against the `startups` table: profile load/save for
+ * the owner, discovery lists for investors and admin moderation.
+ */
+
+import { supabase } from '../../supabaseClient';
+import { uuidv4 } from '../../utils/id.util';
+import { StartupRow, TablesUpdate, VerificationStatus } from './database.types';
+
+// Fields shown on the investor home screen's startup cards.
+export type StartupSummary = Pick<
+  StartupRow,
+  'id' | 'company_name' | 'tagline' | 'location' | 'industry' | 'website' | 'founded_year'
+>;
+
+export const STARTUP_SUMMARY_COLUMNS = 'id, company_name, tagline, location, industry, website, founded_year';
+
+// Fields shown on the public startup detail screen. Sensitive legal
+// identifiers (GST, PAN, registration number) are deliberately left out.
+export type StartupPublicProfile = Pick<
+  StartupRow,
+  | 'id'
+  | 'company_name'
+  | 'tagline'
+  | 'description'
+  | 'location'
+  | 'industry'
+  | 'website'
+  | 'founded_year'
+  | 'team_size'
+  | 'business_model'
+  | 'target_market'
+  | 'founder_name'
+  | 'current_revenue'
+  | 'funding_stage'
+>;
+
+// Fields shown on the admin startup management list, including which
+// legal identifiers passed their checks.
+export type StartupAdminSummary = Pick<
+  StartupRow,
+  'id' | 'public_id' | 'company_name' | 'verification_status' | 'disabled' | 'identifier_checks' | 'identifiers_checked_at'
+>;
+
+// Editable profile fields. `company_name` is required by the schema.
+export type StartupProfileInput = Omit<TablesUpdate<'startups'>, 'id' | 'owner_id'> & {
+  company_name: string;
+};
+
+export const StartupRepository = {
+  // The startup owned by a user, or null when they have no profile yet.
+  async findByOwner(ownerId: string): Promise<StartupRow | null> {
+    const { data, error } = await supabase
+      .from('startups')
+      .select('*')
+      .eq('owner_id', ownerId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+
+  // Just the id of the user's startup; most campaign screens need nothing else.
+  async findIdByOwner(ownerId: string): Promise<string | null> {
+    const { data, error } = await supabase
+      .from('startups')
+      .select('id')
+      .eq('owner_id', ownerId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data?.id ?? null;
+  },
+
+  async getById(id: string): Promise<StartupRow | null> {
+    const { data, error } = await supabase
+      .from('startups')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async getPublicProfile(id: string): Promise<StartupPublicProfile | null> {
+    const { data, error } = await supabase
+      .from('startups')
+      .select('id, company_name, tagline, description, location, industry, website, founded_year, team_size, business_model, target_market, founder_name, current_revenue, funding_stage')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+
+  // Startups for the investor discovery list, newest first.
+  async listForDiscovery(): Promise<StartupSummary[]> {
+    const { data, error } = await supabase
+      .from('startups')
+      .select(STARTUP_SUMMARY_COLUMNS)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data ?? [];
+  },
+
+  async listForAdmin(): Promise<StartupAdminSummary[]> {
+    const { data, error } = await supabase
+      .from('startups')
+      .select('id, public_id, company_name, verification_status, disabled, identifier_checks, identifiers_checked_at');
+
+    if (error) throw error;
+    return data ?? [];
+  },
+
+  async countByVerificationStatus(status: VerificationStatus): Promise<number> {
+    const { count, error } = await supabase
+      .from('startups')
+      .select('id', { count: 'exact', head: true })
+      .eq('verification_status', status);
+
+    if (error) throw error;
+    return count ?? 0;
+  },
+
+  /*
+   * saveProfile
+   * - Update the owner's existing startup row, or create one.
+   * - `startups.id` has no database default, so new rows get a UUID here.
+   */
+  async saveProfile(ownerId: string, profile: StartupProfileInput): Promise<void> {
+    const existingId = await StartupRepository.findIdByOwner(ownerId);
+
+    if (existingId) {
+      const { error } = await supabase.from('startups').update(profile).eq('id', existingId);
+      if (error) throw error;
+      return;
+    }
+
+    const { error } = await supabase.from('startups').insert({ ...profile, id: uuidv4(), owner_id: ownerId });
+    if (error) throw error;
+  },
+
+  async setVerificationStatus(id: string, status: VerificationStatus): Promise<void> {
+    const { error } = await supabase.from('startups').update({ verification_status: status }).eq('id', id);
+    if (error) throw error;
+  },
+
+  async setDisabled(id: string, disabled: boolean): Promise<void> {
+    const { error } = await supabase.from('startups').update({ disabled }).eq('id', id);
+    if (error) throw error;
+  },
+
+  async remove(id: string): Promise<void> {
+    const { error } = await supabase.from('startups').delete().eq('id', id);
+    if (error) throw error;
+  }
+};
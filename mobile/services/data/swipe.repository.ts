@@ -0,0 +1,65 @@
+/*
+ * services/data/swipe.repository.ts
+ *
+ * Purpose: queries against `campaign_swipes`, an investor's left/right
+ * decisions in the swipe feed. One row per investor and campaign; see
+ * services/campaign/feed.service.ts for how they filter the feed.
+ */
+
+import { supabase } from '../../supabaseClient';
+import { CampaignSwipeRow, SwipeDirection } from './database.types';
+
+export type SwipeInput = {
+  investorId: string;
+  campaignId: string;
+  direction: SwipeDirection;
+  campaignFingerprint: string;
+  interestId: string | null;
+};
+
+export const SwipeRepository = {
+  // Every swipe the investor has made, most recent first.
+  async listForInvestor(investorId: string): Promise<CampaignSwipeRow[]> {
+    const { data, error } = await supabase
+      .from('campaign_swipes')
+      .select('*')
+      .eq('investor_id', investorId)
+      .order('swiped_at', { ascending: false });
+
+    if (error) throw error;
+    return data ?? [];
+  },
+
+  /*
+   * save
+   * - Record the decision, replacing any earlier swipe on the same
+   *   campaign (the campaign came back because its terms changed).
+   * - `swiped_at` is set here because the column default does not apply
+   *   when an existing row is updated.
+   */
+  async save(swipe: SwipeInput): Promise<CampaignSwipeRow> {
+    const { data, error } = await supabase
+      .from('campaign_swipes')
+      .upsert(
+        {
+          investor_id: swipe.investorId,
+          campaign_id: swipe.campaignId,
+          direction: swipe.direction,
+          campaign_fingerprint: swipe.campaignFingerprint,
+          interest_id: swipe.interestId,
+          swiped_at: new Date().toISOString()
+        },
+        { onConflict: 'investor_id,campaign_id' }
+      )
+      .select('*')
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async remove(id: string): Promise<void> {
+    const { error } = await supabase.from('campaign_swipes').delete().eq('id', id);
+    if (error) throw error;
+  }
+};
@@ -0,0 +1,97 @@
+/*
+ * services/data/user.repository.ts
+ *
+ * Purpose: queries against the app's `users` table (the profile row that
+ * sits next to the Supabase Auth user and stores role and public id).
+ */
+
+import { supabase } from '../../supabaseClient';
+import { Role } from '../roles';
+import { TablesInsert, UserRow } from './database.types';
+
+// The slice of a user row that AuthContext keeps in memory.
+export type UserProfile = Pick<UserRow, 'id' | 'public_id' | 'role'>;
+
+// Fields shown on the super admin user management list.
+export type UserListItem = Pick<UserRow, 'id' | 'public_id' | 'email' | 'role'>;
+
+export const UserRepository = {
+  // The profile row for an auth user id, or null if the row is missing.
+  async getProfile(id: string): Promise<UserProfile | null> {
+    const { data, error } = await supabase
+      .from('users')
+      .select('id, public_id, role')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+
+  // One user as shown on the management list; leaves out the recovery
+  // key hash and Aadhaar link.
+  async getListItem(id: string): Promise<UserListItem | null> {
+    const { data, error } = await supabase
+      .from('users')
+      .select('id, public_id, email, role')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+
+  // All users, newest first.
+  async list(): Promise<UserListItem[]> {
+    const { data, error } = await supabase
+      .from('users')
+      .select('id, public_id, email, role')
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data ?? [];
+  },
+
+  // Just the role column for every user; used for dashboard statistics.
+  async listRoles(): Promise<Array<Pick<UserRow, 'role'>>> {
+    const { data, error } = await supabase.from('users').select('role');
+    if (error) throw error;
+    return data ?? [];
+  },
+
+  async countByRole(role: Role): Promise<number> {
+    const { count, error } = await supabase
+      .from('users')
+      .select('id', { count: 'exact', head: true })
+      .eq('role', role);
+
+    if (error) throw error;
+    return count ?? 0;
+  },
+
+  async create(user: TablesInsert<'users'>): Promise<void> {
+    const { error } = await supabase.from('users').insert(user);
+    if (error) throw error;
+  },
+
+  async setRole(id: string, role: Role | null): Promise<void> {
+    const { error } = await supabase.from('users').update({ role }).eq('id', id);
+    if (error) throw error;
+  },
+
+  async setRoleAndPublicId(id: string, role: Role | null, publicId: string | null): Promise<void> {
+    const { error } = await supabase.from('users').update({ role, public_id: publicId }).eq('id', id);
+    if (error) throw error;
+  },
+
+  async getRecoveryKeyHash(id: string): Promise<string | null> {
+    const { data, error } = await supabase
+      .from('users')
+      .select('recovery_key_hash')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data?.recovery_key_hash ?? null;
+  }
+};
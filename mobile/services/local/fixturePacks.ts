@@ -0,0 +1,47 @@
+/*
+ * services/local/fixturePacks.ts
+ *
+ * Purpose: the named data sets MOCK mode can load. Each pack is a complete
+ * LocalSeed (auth accounts plus table rows), so switching packs gives every
+ * screen a consistent world instead of per-screen hardcoded arrays.
+ *
+ * Pick a pack with FIXTURE_PACK at build time or from the dev menu in
+ * SettingsScreen. Every account's password is LOCAL_SEED_PASSWORD.
+ */
+
+import { MARKETPLACE_SEED } from './packs/marketplace';
+import { ONBOARDING_SEED } from './packs/onboarding';
+import { DEFAULT_SEED, LocalSeed } from './seed';
+
+export type FixturePackName = 'demo' | 'marketplace' | 'onboarding';
+
+export type FixturePack = {
+  label: string;
+  description: string;
+  seed: LocalSeed;
+};
+
+export const FIXTURE_PACKS: Record<FixturePackName, FixturePack> = {
+  demo: {
+    label: 'Demo',
+    description: 'One account per role, two startups, two investors and a few campaigns.',
+    seed: DEFAULT_SEED
+  },
+  marketplace: {
+    label: 'Marketplace',
+    description: 'More startups and investors, campaigns in every status, interests and investments.',
+    seed: MARKETPLACE_SEED
+  },
+  onboarding: {
+    label: 'Onboarding',
+    description: 'Accounts with no role or no profile yet, for testing sign-up.',
+    seed: ONBOARDING_SEED
+  }
+};
+
+export const FIXTURE_PACK_NAMES = Object.keys(FIXTURE_PACKS) as FixturePackName[];
+
+// Unknown names (a typo in FIXTURE_PACK) fall back to the demo pack.
+export function getFixturePack(name: string): FixturePack {
+  return FIXTURE_PACKS[name as FixturePackName] || FIXTURE_PACKS.demo;
+}
@@ -0,0 +1,249 @@
+/*
+ * services/local/localAuth.ts
+ *
+ * Purpose: an in-memory stand-in for `supabase.auth` used by the local
+ * backend. It covers the calls the app makes (signUp, signInWithPassword,
+ * signOut, getSession, getUser, onAuthStateChange, resetPasswordForEmail,
+ * updateUser), the admin calls used by server functions, and keeps one
+ * session for the whole app.
+ *
+ * Sign-up also runs the `handle_new_user` trigger from db/recovery_hash.sql:
+ * it creates the matching `public.users` row with the email and the
+ * recovery_key_hash passed in the sign-up metadata.
+ *
+ * Passwords are stored in plain text. This is a development tool only.
+ */
+
+import { logger } from '../../utils/logger';
+import { uuidv4 } from '../../utils/id.util';
+import { LocalDatabase } from './localDatabase';
+
+// An auth account as stored by the local backend (and in fixtures).
+export type LocalAuthAccount = {
+  id: string;
+  email: string;
+  password: string;
+  user_metadata?: Record<string, any>;
+  created_at?: string;
+};
+
+export type LocalAuthEvent = 'INITIAL_SESSION' | 'SIGNED_IN' | 'SIGNED_OUT' | 'USER_UPDATED' | 'PASSWORD_RECOVERY';
+
+type Listener = (event: LocalAuthEvent, session: any) => void;
+
+// Supabase rejects shorter passwords with the same message by default.
+const MIN_PASSWORD_LENGTH = 6;
+
+// AuthApiError-like value: an Error with `status` so callers can branch on it.
+function authError(message: string, status: number) {
+  return Object.assign(new Error(message), { name: 'AuthApiError', status });
+}
+
+function normalizeEmail(email: string): string {
+  return String(email || '').trim().toLowerCase();
+}
+
+/*
+ * createLocalAuth
+ * - Build the auth API around a list of accounts.
+ * - `db` is the local database so sign-up can create the `users` row.
+ */
+export function createLocalAuth(db: LocalDatabase, seedAccounts: LocalAuthAccount[] = []) {
+  let accounts: LocalAuthAccount[] = seedAccounts.map(a => ({ ...a, email: normalizeEmail(a.email) }));
+  let session: any = null;
+  const listeners = new Set<Listener>();
+
+  // The user object shape supabase-js returns (the fields the app reads).
+  function toUser(account: LocalAuthAccount) {
+    return {
+      id: account.id,
+      aud: 'authenticated',
+      role: 'authenticated',
+      email: account.email,
+      user_metadata: account.user_metadata || {},
+      app_metadata: { provider: 'email', providers: ['email'] },
+      created_at: account.created_at || new Date().toISOString()
+    };
+  }
+
+  function startSession(account: LocalAuthAccount) {
+    const expiresIn = 3600;
+    session = {
+      access_token: `local-access-${uuidv4()}`,
+      refresh_token: `local-refresh-${uuidv4()}`,
+      token_type: 'bearer',
+      expires_in: expiresIn,
+      expires_at: Math.floor(Date.now() / 1000) + expiresIn,
+      user: toUser(account)
+    };
+    return session;
+  }
+
+  function emit(event: LocalAuthEvent) {
+    for (const listener of Array.from(listeners)) {
+      try {
+        listener(event, session);
+      } catch (err) {
+        logger.error('local auth listener failed', err);
+      }
+    }
+  }
+
+  function findByEmail(email: string): LocalAuthAccount | undefined {
+    const normalized = normalizeEmail(email);
+    return accounts.find(a => a.email === normalized);
+  }
+
+  const auth = {
+    async signUp(credentials: { email: string; password: string; options?: { data?: Record<string, any> } }) {
+      const email = normalizeEmail(credentials.email);
+      if (!email || !credentials.password) {
+        return { data: { user: null, session: null }, error: authError('Signup requires a valid email and password', 400) };
+      }
+      if ((credentials.password || '').length < MIN_PASSWORD_LENGTH) {
+        return {
+          data: { user: null, session: null },
+          error: authError(`Password should be at least ${MIN_PASSWORD_LENGTH} characters.`, 422)
+        };
+      }
+      if (findByEmail(email)) {
+        return { data: { user: null, session: null }, error: authError('User already registered', 422) };
+      }
+
+      const metadata = credentials.options?.data || {};
+      const account: LocalAuthAccount = {
+        id: uuidv4(),
+        email,
+        password: credentials.password,
+        user_metadata: metadata,
+        created_at: new Date().toISOString()
+      };
+      accounts.push(account);
+
+      // handle_new_user trigger: ON CONFLICT (id) DO UPDATE recovery_key_hash.
+      db.upsert('users', [{ id: account.id, email, recovery_key_hash: metadata.recovery_key_hash ?? null }]);
+
+      // The local backend auto-confirms email, so sign-up signs the user in.
+      startSession(account);
+      emit('SIGNED_IN');
+      return { data: { user: session.user, session }, error: null };
+    },
+
+    async signInWithPassword(credentials: { email: string; password: string }) {
+      const account = findByEmail(credentials.email);
+      if (!account || account.password !== credentials.password) {
+        return { data: { user: null, session: null }, error: authError('Invalid login credentials', 400) };
+      }
+      startSession(account);
+      emit('SIGNED_IN');
+      return { data: { user: session.user, session }, error: null };
+    },
+
+    async signOut() {
+      session = null;
+      emit('SIGNED_OUT');
+      return { error: null };
+    },
+
+    async getSession() {
+      return { data: { session }, error: null };
+    },
+
+    async getUser() {
+      if (!session) return { data: { user: null }, error: authError('Auth session missing!', 400) };
+      return { data: { user: session.user }, error: null };
+    },
+
+    // Email delivery is not simulated; log the request so it is visible.
+    async resetPasswordForEmail(email: string, options?: { redirectTo?: string }) {
+      logger.info('local auth: password reset requested', { email: normalizeEmail(email), redirectTo: options?.redirectTo });
+      return { data: {}, error: null };
+    },
+
+    async updateUser(attributes: { email?: string; password?: string; data?: Record<string, any> }) {
+      if (!session) return { data: { user: null }, error: authError('Auth session missing!', 400) };
+      const account = accounts.find(a => a.id === session.user.id);
+      if (!account) return { data: { user: null }, error: authError('User not found', 404) };
+
+      if (attributes.password !== undefined) {
+        if (attributes.password.length < MIN_PASSWORD_LENGTH) {
+          return { data: { user: null }, error: authError(`Password should be at least ${MIN_PASSWORD_LENGTH} characters.`, 422) };
+        }
+        account.password = attributes.password;
+      }
+      if (attributes.email) account.email = normalizeEmail(attributes.email);
+      if (attributes.data) account.user_metadata = { ...(account.user_metadata || {}), ...attributes.data };
+
+      session = { ...session, user: toUser(account) };
+      emit('USER_UPDATED');
+      return { data: { user: session.user }, error: null };
+    },
+
+    /*
+     * onAuthStateChange
+     * - Register a listener. Like supabase-js, the listener first receives
+     *   INITIAL_SESSION with the current session, on the next tick.
+     */
+    onAuthStateChange(callback: Listener) {
+      listeners.add(callback);
+      Promise.resolve().then(() => {
+        if (listeners.has(callback)) callback('INITIAL_SESSION', session);
+      });
+      return {
+        data: {
+          subscription: {
+            id: uuidv4(),
+            callback,
+            unsubscribe: () => {
+              listeners.delete(callback);
+            }
+          }
+        }
+      };
+    },
+
+    // Service-role helpers. Only server-side code (see server/) should call these.
+    admin: {
+      async getUserByEmail(email: string) {
+        const account = findByEmail(email);
+        if (!account) return { data: null, error: authError('User not found', 404) };
+        return { data: toUser(account), error: null };
+      },
+
+      async getUserById(id: string) {
+        const account = accounts.find(a => a.id === id);
+        if (!account) return { data: { user: null }, error: authError('User not found', 404) };
+        return { data: { user: toUser(account) }, error: null };
+      },
+
+      // Same shape as supabase-js `auth.admin.updateUserById`. Sessions are
+      // left alone; only the stored credentials change.
+      async updateUserById(id: string, attributes: { email?: string; password?: string; user_metadata?: Record<string, any> }) {
+        const account = accounts.find(a => a.id === id);
+        if (!account) return { data: { user: null }, error: authError('User not found', 404) };
+
+        if (attributes.password !== undefined) {
+          if (attributes.password.length < MIN_PASSWORD_LENGTH) {
+            return { data: { user: null }, error: authError(`Password should be at least ${MIN_PASSWORD_LENGTH} characters.`, 422) };
+          }
+          account.password = attributes.password;
+        }
+        if (attributes.email) account.email = normalizeEmail(attributes.email);
+        if (attributes.user_metadata) account.user_metadata = { ...(account.user_metadata || {}), ...attributes.user_metadata };
+
+        return { data: { user: toUser(account) }, error: null };
+      }
+    }
+  };
+
+  // Replace accounts and drop the session (used by the backend reset).
+  function reset(next: LocalAuthAccount[] = []) {
+    accounts = next.map(a => ({ ...a, email: normalizeEmail(a.email) }));
+    session = null;
+    emit('SIGNED_OUT');
+  }
+
+  return { auth, reset };
+}
+
+export type LocalAuth = ReturnType<typeof createLocalAuth>;
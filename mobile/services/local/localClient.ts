@@ -0,0 +1,86 @@
+/*
+ * services/local/localClient.ts
+ *
+ * Purpose: assemble the local backend — the in-memory database, auth,
+ * query builder and file storage — behind the same surface as a
+ * supabase-js client.
+ *
+ * supabaseClient.ts exports this client instead of the hosted one when the
+ * data backend is `local` (see `getDataBackend` in apiMode.ts). Node
+ * scripts and tests can also build their own with `createLocalBackend`.
+ *
+ * `functions.invoke` runs the server functions from server/ in-process,
+ * standing in for Supabase Edge Functions. The local backend has no RLS,
+ * so the client doubles as their service-role client.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../data/database.types';
+import { SERVER_FUNCTIONS } from '../../server';
+import { logger } from '../../utils/logger';
+import { createLocalAuth } from './localAuth';
+import { createLocalDatabase, dbError } from './localDatabase';
+import { createLocalQuery } from './localQuery';
+import { createLocalStorage } from './localStorage';
+import { DEFAULT_SEED, LocalSeed } from './seed';
+
+/*
+ * createLocalBackend
+ * - `client` can be used anywhere a typed Supabase client is expected.
+ * - `db` gives direct access to rows (for assertions and debugging).
+ * - `reset` restores a seed, empties storage and signs out.
+ */
+export function createLocalBackend(seed: LocalSeed = DEFAULT_SEED) {
+  const db = createLocalDatabase(seed.tables);
+  const { auth, reset: resetAuth } = createLocalAuth(db, seed.accounts);
+  const { storage, reset: resetStorage } = createLocalStorage();
+
+  const client: any = {
+    from: (table: string) => createLocalQuery(db, table),
+    auth,
+    storage,
+    // Same result shape as supabase-js: `{ data, error }`, with an error
+    // for unknown functions or when the function throws.
+    functions: {
+      async invoke(name: string, options: { body?: any } = {}) {
+        const fn = SERVER_FUNCTIONS[name];
+        if (!fn) {
+          return { data: null, error: Object.assign(new Error(`Function not found: ${name}`), { name: 'FunctionsHttpError' }) };
+        }
+        try {
+          // The caller is whoever is signed in to this backend, as the
+          // Edge Functions read it from the Authorization header.
+          const { data: sessionData } = await auth.getSession();
+          const caller = { userId: sessionData.session?.user?.id ?? null };
+          return { data: await fn(client, options.body, caller), error: null };
+        } catch (err) {
+          logger.error(`local function ${name} failed`, err);
+          return { data: null, error: Object.assign(new Error('Edge Function returned a non-2xx status code'), { name: 'FunctionsHttpError' }) };
+        }
+      }
+    },
+    // No SQL functions are emulated yet.
+    rpc: async (fn: string) => ({
+      data: null,
+      error: dbError('PGRST202', `Could not find the function public.${fn} in the schema cache`),
+      count: null,
+      status: 404,
+      statusText: 'Not Found'
+    })
+  };
+
+  function reset(next: LocalSeed = seed) {
+    db.reset(next.tables);
+    resetStorage();
+    resetAuth(next.accounts);
+  }
+
+  return {
+    // The builder matches supabase-js at runtime but not its generic types.
+    client: client as unknown as SupabaseClient<Database>,
+    db,
+    reset
+  };
+}
+
+export type LocalBackend = ReturnType<typeof createLocalBackend>;
@@ -0,0 +1,382 @@
+/*
+ * services/local/localDatabase.ts
+ *
+ * Purpose: an in-memory copy of the tables in db/*.sql for the local
+ * backend. Rows live in plain arrays keyed by table name. The store
+ * applies the parts of the schema that the app depends on:
+ * - column defaults and generated ids,
+ * - UNIQUE constraints (including the composite one on campaign_interests),
+ * - `updated_at` triggers and ON DELETE CASCADE / SET NULL,
+ * - generated columns and the text behind full-text search vectors.
+ *
+ * Nothing here is persisted; reloading the app restores the seed.
+ */
+
+import { uuidv4 } from '../../utils/id.util';
+
+// One table row. Columns are whatever the seed or the caller wrote.
+export type LocalRow = Record<string, any>;
+
+// Every table's rows, keyed by table name.
+export type LocalTables = Record<string, LocalRow[]>;
+
+// Error shape returned to callers. It mirrors PostgrestError so screens
+// can read `error.message` and `error.code` the same way for both backends.
+export type LocalDbError = {
+  message: string;
+  code: string;
+  details: string | null;
+  hint: string | null;
+};
+
+// A many-to-one link from `table.column` to `references.id`.
+export type LocalForeignKey = {
+  table: string;
+  column: string;
+  references: string;
+  onDelete?: 'cascade' | 'set null';
+};
+
+// Foreign keys from db/*.sql. Used to resolve embedded selects such as
+// `startups (company_name)` and to apply ON DELETE rules.
+export const FOREIGN_KEYS: LocalForeignKey[] = [
+  { table: 'startups', column: 'owner_id', references: 'users', onDelete: 'cascade' },
+  { table: 'investors', column: 'owner_id', references: 'users', onDelete: 'cascade' },
+  { table: 'investments', column: 'startup_id', references: 'startups', onDelete: 'cascade' },
+  { table: 'investments', column: 'investor_id', references: 'investors', onDelete: 'set null' },
+  { table: 'investments', column: 'interest_id', references: 'campaign_interests', onDelete: 'set null' },
+  { table: 'investments', column: 'campaign_id', references: 'fundraising_campaigns', onDelete: 'set null' },
+  { table: 'fundraising_campaigns', column: 'startup_id', references: 'startups', onDelete: 'cascade' },
+  { table: 'campaign_updates', column: 'campaign_id', references: 'fundraising_campaigns', onDelete: 'cascade' },
+  { table: 'campaign_interests', column: 'campaign_id', references: 'fundraising_campaigns', onDelete: 'cascade' },
+  { table: 'campaign_interests', column: 'investor_id', references: 'investors', onDelete: 'cascade' },
+  { table: 'campaign_documents', column: 'campaign_id', references: 'fundraising_campaigns', onDelete: 'cascade' },
+  { table: 'campaign_documents', column: 'uploaded_by', references: 'users' },
+  { table: 'campaign_documents', column: 'previous_version_id', references: 'campaign_documents', onDelete: 'set null' },
+  { table: 'document_access_logs', column: 'document_id', references: 'campaign_documents', onDelete: 'cascade' },
+  { table: 'document_access_logs', column: 'campaign_id', references: 'fundraising_campaigns', onDelete: 'cascade' },
+  { table: 'document_access_logs', column: 'viewer_id', references: 'users', onDelete: 'set null' },
+  { table: 'campaign_status_history', column: 'campaign_id', references: 'fundraising_campaigns', onDelete: 'cascade' },
+  { table: 'campaign_status_history', column: 'changed_by', references: 'users', onDelete: 'set null' },
+  { table: 'campaign_reviews', column: 'campaign_id', references: 'fundraising_campaigns', onDelete: 'cascade' },
+  { table: 'campaign_reviews', column: 'reviewer_id', references: 'users', onDelete: 'set null' },
+  { table: 'audit_events', column: 'actor_id', references: 'users', onDelete: 'set null' },
+  { table: 'campaign_swipes', column: 'investor_id', references: 'investors', onDelete: 'cascade' },
+  { table: 'campaign_swipes', column: 'campaign_id', references: 'fundraising_campaigns', onDelete: 'cascade' },
+  { table: 'campaign_swipes', column: 'interest_id', references: 'campaign_interests', onDelete: 'set null' },
+  { table: 'startup_likes', column: 'startup_id', references: 'startups', onDelete: 'cascade' },
+  { table: 'startup_likes', column: 'investor_id', references: 'investors', onDelete: 'cascade' },
+  { table: 'matches', column: 'startup_id', references: 'startups', onDelete: 'cascade' },
+  { table: 'matches', column: 'investor_id', references: 'investors', onDelete: 'cascade' },
+  { table: 'shortlists', column: 'owner_id', references: 'users', onDelete: 'cascade' },
+  { table: 'saved_items', column: 'owner_id', references: 'users', onDelete: 'cascade' },
+  { table: 'saved_items', column: 'startup_id', references: 'startups', onDelete: 'cascade' },
+  { table: 'saved_items', column: 'investor_id', references: 'investors', onDelete: 'cascade' },
+  { table: 'saved_items', column: 'campaign_id', references: 'fundraising_campaigns', onDelete: 'cascade' },
+  { table: 'saved_items', column: 'shortlist_id', references: 'shortlists', onDelete: 'set null' },
+  { table: 'messages', column: 'interest_id', references: 'campaign_interests', onDelete: 'cascade' },
+  { table: 'messages', column: 'sender_id', references: 'users', onDelete: 'set null' },
+  { table: 'messages', column: 'document_id', references: 'campaign_documents', onDelete: 'set null' },
+  { table: 'meeting_slots', column: 'interest_id', references: 'campaign_interests', onDelete: 'cascade' },
+  { table: 'meeting_slots', column: 'proposed_by', references: 'users', onDelete: 'set null' },
+  { table: 'notifications', column: 'user_id', references: 'users', onDelete: 'cascade' },
+  { table: 'notification_preferences', column: 'user_id', references: 'users', onDelete: 'cascade' },
+  { table: 'push_tokens', column: 'user_id', references: 'users', onDelete: 'cascade' },
+  { table: 'notification_deliveries', column: 'notification_id', references: 'notifications', onDelete: 'cascade' },
+  { table: 'notification_deliveries', column: 'user_id', references: 'users', onDelete: 'cascade' },
+  { table: 'users', column: 'aadhaar_check_id', references: 'aadhaar_checks' },
+  { table: 'aadhaar_checks', column: 'user_id', references: 'users', onDelete: 'cascade' },
+  { table: 'kyc_records', column: 'user_id', references: 'users', onDelete: 'cascade' },
+  { table: 'payments', column: 'user_id', references: 'users', onDelete: 'cascade' },
+  { table: 'payments', column: 'investment_id', references: 'investments', onDelete: 'set null' },
+  { table: 'payment_events', column: 'payment_id', references: 'payments', onDelete: 'set null' },
+  { table: 'ledger_accounts', column: 'investor_id', references: 'investors', onDelete: 'set null' },
+  { table: 'ledger_accounts', column: 'campaign_id', references: 'fundraising_campaigns', onDelete: 'set null' },
+  { table: 'ledger_accounts', column: 'startup_id', references: 'startups', onDelete: 'set null' },
+  { table: 'ledger_lines', column: 'entry_id', references: 'ledger_entries' },
+  { table: 'ledger_lines', column: 'account_id', references: 'ledger_accounts' }
+];
+
+// UNIQUE constraints (primary keys included). Each entry is a column list.
+const UNIQUE_KEYS: Record<string, string[][]> = {
+  users: [['id'], ['public_id']],
+  startups: [['id'], ['public_id']],
+  investors: [['id'], ['public_id']],
+  investments: [['id'], ['interest_id']],
+  fundraising_campaigns: [['id']],
+  campaign_updates: [['id']],
+  campaign_interests: [['id'], ['campaign_id', 'investor_id']],
+  campaign_documents: [['id'], ['storage_path']],
+  document_access_logs: [['id']],
+  campaign_status_history: [['id']],
+  campaign_reviews: [['id']],
+  audit_events: [['id']],
+  campaign_swipes: [['id'], ['investor_id', 'campaign_id']],
+  startup_likes: [['id'], ['startup_id', 'investor_id']],
+  matches: [['id'], ['startup_id', 'investor_id']],
+  shortlists: [['id'], ['owner_id', 'name']],
+  saved_items: [['id'], ['owner_id', 'startup_id'], ['owner_id', 'investor_id'], ['owner_id', 'campaign_id']],
+  messages: [['id']],
+  meeting_slots: [['id']],
+  notifications: [['id'], ['user_id', 'event_key']],
+  notification_preferences: [['id'], ['user_id']],
+  push_tokens: [['id'], ['token']],
+  notification_deliveries: [['id']],
+  aadhaar_checks: [['id'], ['otp_txn_id']],
+  kyc_records: [['id'], ['user_id']],
+  payments: [['id'], ['provider_order_id'], ['provider_payment_id']],
+  payment_events: [['id'], ['provider_event_id']],
+  ledger_accounts: [['id'], ['key']],
+  ledger_entries: [['id'], ['reference']],
+  ledger_lines: [['id'], ['entry_id', 'account_id']]
+};
+
+// Tables whose primary key has `DEFAULT gen_random_uuid()`. The others
+// (users, startups, investors, investments) expect the
+// caller to supply the id, so an insert without one fails like Postgres.
+const GENERATED_IDS = [
+  'fundraising_campaigns',
+  'campaign_updates',
+  'campaign_interests',
+  'campaign_documents',
+  'document_access_logs',
+  'campaign_status_history',
+  'campaign_reviews',
+  'audit_events',
+  'campaign_swipes',
+  'startup_likes',
+  'matches',
+  'shortlists',
+  'saved_items',
+  'messages',
+  'meeting_slots',
+  'notifications',
+  'notification_preferences',
+  'push_tokens',
+  'notification_deliveries',
+  'aadhaar_checks',
+  'kyc_records',
+  'payments',
+  'payment_events',
+  'ledger_accounts',
+  'ledger_entries',
+  'ledger_lines'
+];
+
+// Column defaults other than `id` and timestamps.
+const COLUMN_DEFAULTS: Record<string, LocalRow> = {
+  users: { aadhaar_verified: false },
+  startups: { verification_status: 'pending', disabled: false, registered: true, social_impact: false },
+  investors: { disabled: false, verification_status: 'pending' },
+  investments: { status: 'pending' },
+  fundraising_campaigns: { funding_raised: 0, min_investment: 10000, campaign_type: 'equity', status: 'draft' },
+  campaign_updates: { update_type: 'general', is_public: true },
+  campaign_interests: { interest_level: 'interested', status: 'pending' },
+  campaign_documents: { is_public: false, version: 1 },
+  document_access_logs: { watermarked: false },
+  messages: { body: '' },
+  meeting_slots: { timezone: 'UTC', location: '', status: 'proposed' },
+  notifications: { body: '', data: {}, in_app: true },
+  notification_preferences: { in_app: true, push: true, email: true, email_frequency: 'immediate', muted_types: [] },
+  push_tokens: { platform: 'unknown' },
+  notification_deliveries: { status: 'pending' },
+  aadhaar_checks: { otp_verified: false, provider: 'fake', status: 'otp_sent', attempts: 0 },
+  kyc_records: { level: 'unverified', aadhaar_verified: false },
+  payments: { currency: 'INR', status: 'created', amount_refunded: 0 }
+};
+
+// Columns Postgres computes (db/search.sql). They are worked out when a
+// query reads them, so they always reflect the row as it is now.
+export const COMPUTED_COLUMNS: Record<string, Record<string, (row: LocalRow) => any>> = {
+  fundraising_campaigns: {
+    funded_percent: row =>
+      row.funding_goal > 0 ? Math.round(((row.funding_raised || 0) * 100 * 100) / row.funding_goal) / 100 : 0
+  }
+};
+
+// The columns behind each full-text `search_vector` (db/search.sql).
+// `table.column` reads the related row, as the campaign trigger does.
+export const SEARCH_DOCUMENTS: Record<string, string[]> = {
+  startups: ['company_name', 'tagline', 'industry', 'description'],
+  investors: ['investor_name', 'company_name', 'interested_industries', 'bio'],
+  fundraising_campaigns: ['title', 'description', 'startups.company_name', 'startups.tagline', 'startups.industry']
+};
+
+// Tables that carry an `updated_at` column.
+const HAS_UPDATED_AT = [
+  'users',
+  'fundraising_campaigns',
+  'campaign_interests',
+  'saved_items',
+  'notification_preferences',
+  'push_tokens',
+  'aadhaar_checks',
+  'kyc_records',
+  'payments'
+];
+
+// Tables with a BEFORE UPDATE trigger that bumps `updated_at`.
+const TOUCH_ON_UPDATE = ['fundraising_campaigns', 'campaign_interests', 'saved_items', 'notification_preferences'];
+
+export function dbError(code: string, message: string, details: string | null = null): LocalDbError {
+  return { message, code, details, hint: null };
+}
+
+function sameKey(a: LocalRow, b: LocalRow, columns: string[]): boolean {
+  return columns.every(c => a[c] !== undefined && a[c] !== null && a[c] === b[c]);
+}
+
+/*
+ * createLocalDatabase
+ * - Build a store and load `seed` through `insert`, so seed rows get the
+ *   same defaults and constraint checks as rows written by the app.
+ * - All mutating helpers return `{ data, error }` instead of throwing,
+ *   matching how supabase-js reports failures.
+ */
+export function createLocalDatabase(seed: LocalTables = {}) {
+  let tables: LocalTables = {};
+
+  function rows(table: string): LocalRow[] {
+    if (!tables[table]) tables[table] = [];
+    return tables[table];
+  }
+
+  // Find the first UNIQUE constraint `candidate` would violate.
+  function findConflict(table: string, candidate: LocalRow, ignore?: LocalRow): string[] | null {
+    for (const columns of UNIQUE_KEYS[table] || [['id']]) {
+      if (rows(table).some(r => r !== ignore && sameKey(r, candidate, columns))) return columns;
+    }
+    return null;
+  }
+
+  // Same check against rows earlier in the batch being inserted.
+  function findConflictIn(batch: LocalRow[], row: LocalRow, table: string): string[] | null {
+    for (const columns of UNIQUE_KEYS[table] || [['id']]) {
+      if (batch.some(r => sameKey(r, row, columns))) return columns;
+    }
+    return null;
+  }
+
+  function uniqueViolation(table: string, columns: string[], row: LocalRow): LocalDbError {
+    return dbError(
+      '23505',
+      `duplicate key value violates unique constraint "${table}_${columns.join('_')}_key"`,
+      `Key (${columns.join(', ')})=(${columns.map(c => row[c]).join(', ')}) already exists.`
+    );
+  }
+
+  function withDefaults(table: string, values: LocalRow): LocalRow {
+    const now = new Date().toISOString();
+    const row: LocalRow = { ...(COLUMN_DEFAULTS[table] || {}), created_at: now };
+    if (HAS_UPDATED_AT.includes(table)) row.updated_at = now;
+    if (GENERATED_IDS.includes(table)) row.id = uuidv4();
+    return { ...row, ...values };
+  }
+
+  /*
+   * insert
+   * - Add rows after applying defaults and checking constraints.
+   * - Either every row is written or none is, like a single statement.
+   */
+  function insert(table: string, values: LocalRow[]): { data: LocalRow[]; error: LocalDbError | null } {
+    const prepared: LocalRow[] = [];
+
+    for (const value of values) {
+      const row = withDefaults(table, value);
+      if (row.id === undefined || row.id === null) {
+        return { data: [], error: dbError('23502', `null value in column "id" of relation "${table}" violates not-null constraint`) };
+      }
+      const conflict = findConflict(table, row) || findConflictIn(prepared, row, table);
+      if (conflict) return { data: [], error: uniqueViolation(table, conflict, row) };
+      prepared.push(row);
+    }
+
+    rows(table).push(...prepared);
+    return { data: prepared, error: null };
+  }
+
+  /*
+   * upsert
+   * - Insert rows, or update the existing row that matches on
+   *   `onConflict` columns (the primary key when not given).
+   */
+  function upsert(
+    table: string,
+    values: LocalRow[],
+    onConflict: string[] = ['id'],
+    ignoreDuplicates = false
+  ): { data: LocalRow[]; error: LocalDbError | null } {
+    const written: LocalRow[] = [];
+
+    for (const value of values) {
+      const existing = rows(table).find(r => sameKey(r, value, onConflict));
+      if (existing) {
+        if (ignoreDuplicates) continue;
+        const result = update(table, r => r === existing, value);
+        if (result.error) return { data: written, error: result.error };
+        written.push(...result.data);
+      } else {
+        const result = insert(table, [value]);
+        if (result.error) return { data: written, error: result.error };
+        written.push(...result.data);
+      }
+    }
+
+    return { data: written, error: null };
+  }
+
+  function update(
+    table: string,
+    predicate: (row: LocalRow) => boolean,
+    patch: LocalRow
+  ): { data: LocalRow[]; error: LocalDbError | null } {
+    const matched = rows(table).filter(predicate);
+    const touched = TOUCH_ON_UPDATE.includes(table) ? { updated_at: new Date().toISOString() } : {};
+
+    // Check constraints against the patched rows before changing any of them.
+    for (const row of matched) {
+      const next = { ...row, ...patch };
+      const conflict = findConflict(table, next, row);
+      if (conflict) return { data: [], error: uniqueViolation(table, conflict, next) };
+    }
+
+    for (const row of matched) Object.assign(row, patch, touched);
+    return { data: matched, error: null };
+  }
+
+  // Delete matching rows and apply ON DELETE rules to rows that point at them.
+  function remove(table: string, predicate: (row: LocalRow) => boolean): { data: LocalRow[]; error: LocalDbError | null } {
+    const removed = rows(table).filter(predicate);
+    if (removed.length === 0) return { data: [], error: null };
+
+    tables[table] = rows(table).filter(r => !removed.includes(r));
+    const removedIds = removed.map(r => r.id);
+
+    for (const fk of FOREIGN_KEYS.filter(k => k.references === table)) {
+      const pointsAtRemoved = (r: LocalRow) => removedIds.includes(r[fk.column]);
+      if (fk.onDelete === 'cascade') {
+        remove(fk.table, pointsAtRemoved);
+      } else if (fk.onDelete === 'set null') {
+        update(fk.table, pointsAtRemoved, { [fk.column]: null });
+      }
+    }
+
+    return { data: removed, error: null };
+  }
+
+  // Drop every row and load `next`. Seed rows are copied so the fixture
+  // objects are never mutated.
+  function reset(next: LocalTables = {}) {
+    tables = {};
+    for (const [table, seedRows] of Object.entries(next)) {
+      const { error } = insert(table, (seedRows || []).map(r => ({ ...r })));
+      if (error) throw new Error(`Invalid local seed for ${table}: ${error.message}`);
+    }
+  }
+
+  reset(seed);
+
+  return { rows, insert, upsert, update, remove, reset };
+}
+
+export type LocalDatabase = ReturnType<typeof createLocalDatabase>;
@@ -0,0 +1,118 @@
+/*
+ * services/local/localQuery.test.ts
+ *
+ * Purpose: the in-memory query builder's `!inner` embeds: rows without a
+ * match are left out before counting and paging, as PostgREST's inner
+ * join does. Run with `npm test`.
+ */
+
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { createLocalBackend } from './localClient';
+import type { CampaignStatus } from '../data/database.types';
+import type { LocalSeed } from './seed';
+
+const STARTUP = '00000000-0000-4000-8000-00000000a001';
+
+function campaign(id: string, title: string, status: CampaignStatus) {
+  return { id, startup_id: STARTUP, title, status, description: title, funding_goal: 1000000, equity_offered: 5 };
+}
+
+// Titles sort a..e. Only b, d and e have interests; a and c, which sort
+// first on their pages, are the rows an inner join drops.
+const SEED: LocalSeed = {
+  accounts: [],
+  tables: {
+    startups: [{ id: STARTUP, company_name: 'Acme' }],
+    fundraising_campaigns: [
+      campaign('00000000-0000-4000-8000-00000000c001', 'a', 'active'),
+      campaign('00000000-0000-4000-8000-00000000c002', 'b', 'active'),
+      campaign('00000000-0000-4000-8000-00000000c003', 'c', 'active'),
+      campaign('00000000-0000-4000-8000-00000000c004', 'd', 'active'),
+      campaign('00000000-0000-4000-8000-00000000c005', 'e', 'paused')
+    ],
+    campaign_interests: [
+      { campaign_id: '00000000-0000-4000-8000-00000000c002' },
+      { campaign_id: '00000000-0000-4000-8000-00000000c004' },
+      { campaign_id: '00000000-0000-4000-8000-00000000c004' },
+      { campaign_id: '00000000-0000-4000-8000-00000000c005' }
+    ],
+    investments: [
+      { id: '00000000-0000-4000-8000-00000000d001', startup_id: STARTUP, amount: 100 },
+      { id: '00000000-0000-4000-8000-00000000d002', startup_id: STARTUP, amount: 200, campaign_id: '00000000-0000-4000-8000-00000000c002' },
+      { id: '00000000-0000-4000-8000-00000000d003', startup_id: STARTUP, amount: 300 },
+      { id: '00000000-0000-4000-8000-00000000d004', startup_id: STARTUP, amount: 400, campaign_id: '00000000-0000-4000-8000-00000000c005' }
+    ]
+  }
+};
+
+test('an inner one-to-many embed drops rows without children before counting and paging', async () => {
+  const { client } = createLocalBackend(SEED);
+  const page = (from: number, to: number) =>
+    client
+      .from('fundraising_campaigns')
+      .select('title, campaign_interests!inner(id)', { count: 'exact' })
+      .order('title')
+      .range(from, to);
+
+  const first = await page(0, 1);
+  assert.equal(first.error, null);
+  assert.equal(first.count, 3);
+  assert.deepEqual(
+    first.data.map((c: any) => [c.title, c.campaign_interests.length]),
+    [
+      ['b', 1],
+      ['d', 2]
+    ]
+  );
+
+  const second = await page(2, 3);
+  assert.equal(second.count, 3);
+  assert.deepEqual(
+    second.data.map((c: any) => c.title),
+    ['e']
+  );
+});
+
+test('an inner many-to-one embed drops rows without a parent, together with filters on it', async () => {
+  const { client } = createLocalBackend(SEED);
+
+  const all = await client
+    .from('investments')
+    .select('amount, fundraising_campaigns!inner(title)', { count: 'exact' })
+    .order('amount')
+    .range(0, 0);
+  assert.equal(all.count, 2);
+  assert.deepEqual(all.data, [{ amount: 200, fundraising_campaigns: { title: 'b' } }]);
+
+  const active = await client
+    .from('investments')
+    .select('amount, fundraising_campaigns!inner(title)', { count: 'exact' })
+    .eq('fundraising_campaigns.status', 'active')
+    .order('amount');
+  assert.equal(active.count, 1);
+  assert.deepEqual(
+    active.data.map((i: any) => i.amount),
+    [200]
+  );
+
+  const { count, data } = await client
+    .from('investments')
+    .select('id, fundraising_campaigns!inner(id)', { count: 'exact', head: true });
+  assert.equal(count, 2);
+  assert.equal(data, null);
+});
+
+test('a plain embed keeps rows without a match', async () => {
+  const { client } = createLocalBackend(SEED);
+  const { count, data } = await client
+    .from('investments')
+    .select('amount, fundraising_campaigns(title)', { count: 'exact' })
+    .order('amount')
+    .range(0, 1);
+  assert.equal(count, 4);
+  assert.deepEqual(data, [
+    { amount: 100, fundraising_campaigns: null },
+    { amount: 200, fundraising_campaigns: { title: 'b' } }
+  ]);
+});
@@ -0,0 +1,487 @@
+/*
+ * services/local/localQuery.ts
+ *
+ * Purpose: the part of the supabase-js query builder that the app uses,
+ * implemented against the in-memory store in localDatabase.ts.
+ *
+ * Supported:
+ * - select (column lists, `*`, aliases, embedded tables such as
+ *   `startups (company_name)` and `{ count: 'exact', head: true }`)
+ * - insert / upsert / update / delete, optionally followed by `.select()`
+ * - eq, neq, gt, gte, lt, lte, in, is, like, ilike, regexMatch,
+ *   regexIMatch, match, and textSearch
+ *   on a `search_vector` (terms joined by `&`, `:*` for a prefix)
+ * - filters on a related table's column (`startups.industry`) and on
+ *   generated columns such as `funded_percent`
+ * - order, limit, range, single, maybeSingle
+ *
+ * Like supabase-js, awaiting the builder never throws: failures come back
+ * as `{ data: null, error }`.
+ */
+
+import {
+  COMPUTED_COLUMNS,
+  FOREIGN_KEYS,
+  LocalDatabase,
+  LocalDbError,
+  LocalRow,
+  SEARCH_DOCUMENTS,
+  dbError
+} from './localDatabase';
+
+// A parsed entry of a select string.
+type SelectNode =
+  | { kind: 'column'; name: string; alias: string }
+  | { kind: 'embed'; table: string; alias: string; hint: string | null; inner: boolean; children: SelectNode[] };
+
+type Ordering = { column: string; ascending: boolean; nullsFirst: boolean };
+
+export type LocalQueryResult = {
+  data: any;
+  error: LocalDbError | null;
+  count: number | null;
+  status: number;
+  statusText: string;
+};
+
+// Split on commas that are not inside parentheses.
+function splitTopLevel(input: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const ch of input) {
+    if (ch === '(') depth++;
+    if (ch === ')') depth--;
+    if (ch === ',' && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  parts.push(current);
+  return parts.map(p => p.trim()).filter(Boolean);
+}
+
+/*
+ * parseSelect
+ * - Turn `'*, startups!inner (company_name, industry)'` into nodes.
+ * - `alias:column` renames a column, `table!hint` picks a foreign key
+ *   column (or `inner` to drop rows without a match).
+ */
+export function parseSelect(columns: string): SelectNode[] {
+  return splitTopLevel(columns.replace(/\s+/g, ' ')).map(part => {
+    const open = part.indexOf('(');
+    if (open === -1) {
+      const [alias, name] = part.includes(':') ? part.split(':').map(s => s.trim()) : [part, part];
+      return { kind: 'column', name, alias } as SelectNode;
+    }
+
+    const head = part.slice(0, open).trim();
+    const body = part.slice(open + 1, part.lastIndexOf(')'));
+    const [aliasPart, target] = head.includes(':') ? head.split(':').map(s => s.trim()) : [null, head];
+    const [table, ...hints] = target.split('!').map(s => s.trim());
+    const inner = hints.includes('inner');
+    const hint = hints.find(h => h !== 'inner' && h !== 'left') || null;
+
+    return { kind: 'embed', table, alias: aliasPart || table, hint, inner, children: parseSelect(body) } as SelectNode;
+  });
+}
+
+function compare(a: any, b: any): number {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b));
+}
+
+// SQL LIKE pattern to a RegExp: `%` is any run, `_` is one character and
+// a backslash makes the next character literal.
+function likeToRegExp(pattern: string, caseInsensitive: boolean): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === '\\' && i + 1 < pattern.length) source += pattern[++i].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    else if (ch === '%') source += '.*';
+    else if (ch === '_') source += '.';
+    else source += ch.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+  return new RegExp(`^${source}$`, caseInsensitive ? 'i' : '');
+}
+
+function isNil(v: any): boolean {
+  return v === null || v === undefined;
+}
+
+// Words of a text, lower-cased, for full-text matching.
+function words(text: string): string[] {
+  return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+/*
+ * parseTextQuery
+ * - The terms of a text search. A `to_tsquery` string (the default) is
+ *   split on `&`, with `:*` marking a prefix; the plain, phrase and
+ *   websearch types are split into words. Each term must match. There is
+ *   no stemming, so prefixes stand in for it.
+ */
+function parseTextQuery(query: string, type?: string): Array<{ term: string; prefix: boolean }> {
+  if (type) return words(query).map(term => ({ term, prefix: false }));
+  return query
+    .split('&')
+    .map(part => part.trim().replace(/^'|'$/g, ''))
+    .filter(Boolean)
+    .map(part => ({ term: part.replace(/:\*$/, '').replace(/'/g, '').toLowerCase(), prefix: part.endsWith(':*') }));
+}
+
+/*
+ * createLocalQuery
+ * - Return a chainable, awaitable builder for one table.
+ * - Nothing runs until the builder is awaited (or `.then` is called).
+ */
+export function createLocalQuery(db: LocalDatabase, table: string) {
+  let operation: 'select' | 'insert' | 'upsert' | 'update' | 'delete' = 'select';
+  let columns = '*';
+  let returning = false;
+  let countExact = false;
+  let head = false;
+  let values: LocalRow[] = [];
+  let patch: LocalRow = {};
+  let onConflict: string[] | undefined;
+  let ignoreDuplicates = false;
+  let resultMode: 'many' | 'single' | 'maybeSingle' = 'many';
+  let rangeFrom = 0;
+  let rangeTo: number | null = null;
+  const filters: Array<(row: LocalRow) => boolean> = [];
+  const orderings: Ordering[] = [];
+
+  // A column of `row` as filters and ordering see it: generated columns
+  // are computed and `other.column` reads the related row.
+  function read(sourceTable: string, row: LocalRow, column: string): any {
+    const dot = column.indexOf('.');
+    if (dot !== -1) {
+      const related = column.slice(0, dot);
+      const key = FOREIGN_KEYS.find(k => k.table === sourceTable && k.references === related);
+      const target = key ? db.rows(related).find(r => r.id === row[key.column]) : null;
+      return target ? read(related, target, column.slice(dot + 1)) : null;
+    }
+    const computed = COMPUTED_COLUMNS[sourceTable]?.[column];
+    return computed ? computed(row) : row[column];
+  }
+
+  // Resolve an embedded table for one row: many-to-one gives an object
+  // (or null), one-to-many gives an array.
+  function embed(sourceTable: string, row: LocalRow, node: Extract<SelectNode, { kind: 'embed' }>): any {
+    const manyToOne = FOREIGN_KEYS.find(
+      k => k.table === sourceTable && k.references === node.table && (!node.hint || node.hint === k.column)
+    );
+    if (manyToOne) {
+      const target = db.rows(node.table).find(r => r.id === row[manyToOne.column]);
+      return target ? project(node.table, target, node.children) : null;
+    }
+
+    const oneToMany = FOREIGN_KEYS.find(
+      k => k.table === node.table && k.references === sourceTable && (!node.hint || node.hint === k.column)
+    );
+    if (oneToMany) {
+      return db
+        .rows(node.table)
+        .filter(r => r[oneToMany.column] === row.id)
+        .map(r => project(node.table, r, node.children));
+    }
+
+    return undefined;
+  }
+
+  function project(sourceTable: string, row: LocalRow, nodes: SelectNode[]): LocalRow {
+    const out: LocalRow = {};
+    for (const node of nodes) {
+      if (node.kind === 'column') {
+        if (node.name === '*') {
+          Object.assign(out, row);
+          for (const [column, compute] of Object.entries(COMPUTED_COLUMNS[sourceTable] ?? {})) out[column] = compute(row);
+        } else out[node.alias] = read(sourceTable, row, node.name) ?? null;
+      } else {
+        out[node.alias] = embed(sourceTable, row, node);
+      }
+    }
+    return out;
+  }
+
+  function relationshipError(nodes: SelectNode[], sourceTable: string): LocalDbError | null {
+    for (const node of nodes) {
+      if (node.kind !== 'embed') continue;
+      const related = FOREIGN_KEYS.some(
+        k => (k.table === sourceTable && k.references === node.table) || (k.table === node.table && k.references === sourceTable)
+      );
+      if (!related) {
+        return dbError('PGRST200', `Could not find a relationship between '${sourceTable}' and '${node.table}' in the schema cache`);
+      }
+      const nested = relationshipError(node.children, node.table);
+      if (nested) return nested;
+    }
+    return null;
+  }
+
+  function sortRows(rows: LocalRow[]): LocalRow[] {
+    if (orderings.length === 0) return rows;
+    return [...rows].sort((a, b) => {
+      for (const o of orderings) {
+        const av = read(table, a, o.column);
+        const bv = read(table, b, o.column);
+        if (isNil(av) && isNil(bv)) continue;
+        if (isNil(av)) return o.nullsFirst ? -1 : 1;
+        if (isNil(bv)) return o.nullsFirst ? 1 : -1;
+        const diff = compare(av, bv);
+        if (diff !== 0) return o.ascending ? diff : -diff;
+      }
+      return 0;
+    });
+  }
+
+  function matches(row: LocalRow): boolean {
+    return filters.every(f => f(row));
+  }
+
+  // Whether `row` has a match for every `!inner` embed, as PostgREST's
+  // inner join requires. Applied before counting and paging, so pages
+  // and counts only include rows the join keeps.
+  function joinsInner(row: LocalRow, nodes: SelectNode[]): boolean {
+    return nodes.every(node => {
+      if (node.kind !== 'embed' || !node.inner) return true;
+      const related = embed(table, row, node);
+      return Array.isArray(related) ? related.length > 0 : !isNil(related);
+    });
+  }
+
+  function shape(rows: LocalRow[], count: number | null, status: number): LocalQueryResult {
+    const nodes = parseSelect(columns);
+    const relError = relationshipError(nodes, table);
+    if (relError) return { data: null, error: relError, count: null, status: 400, statusText: 'Bad Request' };
+
+    const data: LocalRow[] = rows.filter(r => joinsInner(r, nodes)).map(r => project(table, r, nodes));
+
+    if (resultMode === 'single' || resultMode === 'maybeSingle') {
+      if (data.length === 1) return { data: data[0], error: null, count, status: 200, statusText: 'OK' };
+      if (data.length === 0 && resultMode === 'maybeSingle') return { data: null, error: null, count, status: 200, statusText: 'OK' };
+      return {
+        data: null,
+        error: dbError('PGRST116', 'JSON object requested, multiple (or no) rows returned', `The result contains ${data.length} rows`),
+        count: null,
+        status: 406,
+        statusText: 'Not Acceptable'
+      };
+    }
+
+    return { data, error: null, count, status, statusText: 'OK' };
+  }
+
+  function failed(error: LocalDbError): LocalQueryResult {
+    return { data: null, error, count: null, status: error.code === '23505' ? 409 : 400, statusText: 'Bad Request' };
+  }
+
+  function execute(): LocalQueryResult {
+    if (operation === 'select') {
+      const nodes = parseSelect(columns);
+      const matched = sortRows(db.rows(table).filter(r => matches(r) && joinsInner(r, nodes)));
+      const count = countExact ? matched.length : null;
+      if (head) return { data: null, error: null, count, status: 200, statusText: 'OK' };
+      const end = rangeTo === null ? undefined : rangeTo + 1;
+      return shape(matched.slice(rangeFrom, end), count, 200);
+    }
+
+    let result: { data: LocalRow[]; error: LocalDbError | null };
+    if (operation === 'insert') result = db.insert(table, values);
+    else if (operation === 'upsert') result = db.upsert(table, values, onConflict, ignoreDuplicates);
+    else if (operation === 'update') result = db.update(table, matches, patch);
+    else result = db.remove(table, matches);
+
+    if (result.error) return failed(result.error);
+    const count = countExact ? result.data.length : null;
+    if (!returning) return { data: null, error: null, count, status: operation === 'insert' ? 201 : 204, statusText: 'OK' };
+    return shape(sortRows(result.data), count, operation === 'insert' ? 201 : 200);
+  }
+
+  const builder = {
+    select(cols: string = '*', options: { count?: 'exact' | 'planned' | 'estimated'; head?: boolean } = {}) {
+      columns = cols;
+      if (operation === 'select') {
+        countExact = !!options.count;
+        head = !!options.head;
+      } else {
+        returning = true;
+      }
+      return builder;
+    },
+
+    insert(rows: LocalRow | LocalRow[], options: { count?: 'exact' } = {}) {
+      operation = 'insert';
+      values = Array.isArray(rows) ? rows : [rows];
+      countExact = !!options.count;
+      return builder;
+    },
+
+    upsert(rows: LocalRow | LocalRow[], options: { onConflict?: string; ignoreDuplicates?: boolean } = {}) {
+      operation = 'upsert';
+      values = Array.isArray(rows) ? rows : [rows];
+      onConflict = options.onConflict ? options.onConflict.split(',').map(c => c.trim()) : undefined;
+      ignoreDuplicates = !!options.ignoreDuplicates;
+      return builder;
+    },
+
+    update(next: LocalRow, options: { count?: 'exact' } = {}) {
+      operation = 'update';
+      patch = next;
+      countExact = !!options.count;
+      return builder;
+    },
+
+    delete(options: { count?: 'exact' } = {}) {
+      operation = 'delete';
+      countExact = !!options.count;
+      return builder;
+    },
+
+    eq(column: string, value: any) {
+      filters.push(r => !isNil(value) && read(table, r, column) === value);
+      return builder;
+    },
+
+    neq(column: string, value: any) {
+      filters.push(r => {
+        const v = read(table, r, column);
+        return !isNil(v) && v !== value;
+      });
+      return builder;
+    },
+
+    gt(column: string, value: any) {
+      filters.push(r => {
+        const v = read(table, r, column);
+        return !isNil(v) && compare(v, value) > 0;
+      });
+      return builder;
+    },
+
+    gte(column: string, value: any) {
+      filters.push(r => {
+        const v = read(table, r, column);
+        return !isNil(v) && compare(v, value) >= 0;
+      });
+      return builder;
+    },
+
+    lt(column: string, value: any) {
+      filters.push(r => {
+        const v = read(table, r, column);
+        return !isNil(v) && compare(v, value) < 0;
+      });
+      return builder;
+    },
+
+    lte(column: string, value: any) {
+      filters.push(r => {
+        const v = read(table, r, column);
+        return !isNil(v) && compare(v, value) <= 0;
+      });
+      return builder;
+    },
+
+    in(column: string, list: any[]) {
+      filters.push(r => list.includes(read(table, r, column)));
+      return builder;
+    },
+
+    is(column: string, value: null | boolean) {
+      filters.push(r => (value === null ? isNil(read(table, r, column)) : read(table, r, column) === value));
+      return builder;
+    },
+
+    like(column: string, pattern: string) {
+      const re = likeToRegExp(pattern, false);
+      filters.push(r => {
+        const v = read(table, r, column);
+        return typeof v === 'string' && re.test(v);
+      });
+      return builder;
+    },
+
+    ilike(column: string, pattern: string) {
+      const re = likeToRegExp(pattern, true);
+      filters.push(r => {
+        const v = read(table, r, column);
+        return typeof v === 'string' && re.test(v);
+      });
+      return builder;
+    },
+
+    // `column` is a search_vector; its text comes from SEARCH_DOCUMENTS.
+    textSearch(column: string, query: string, options: { config?: string; type?: string } = {}) {
+      const terms = parseTextQuery(query, options.type);
+      const sources = SEARCH_DOCUMENTS[table] || [column];
+      filters.push(r => {
+        const document = words(sources.map(c => read(table, r, c) ?? '').join(' '));
+        return terms.every(t => document.some(w => (t.prefix ? w.startsWith(t.term) : w === t.term)));
+      });
+      return builder;
+    },
+
+    regexMatch(column: string, pattern: string) {
+      const re = new RegExp(pattern);
+      filters.push(r => {
+        const v = read(table, r, column);
+        return typeof v === 'string' && re.test(v);
+      });
+      return builder;
+    },
+
+    regexIMatch(column: string, pattern: string) {
+      const re = new RegExp(pattern, 'i');
+      filters.push(r => {
+        const v = read(table, r, column);
+        return typeof v === 'string' && re.test(v);
+      });
+      return builder;
+    },
+
+    match(query: LocalRow) {
+      for (const [column, value] of Object.entries(query)) builder.eq(column, value);
+      return builder;
+    },
+
+    order(column: string, options: { ascending?: boolean; nullsFirst?: boolean } = {}) {
+      const ascending = options.ascending !== false;
+      // Postgres puts NULLs last when ascending and first when descending.
+      orderings.push({ column, ascending, nullsFirst: options.nullsFirst ?? !ascending });
+      return builder;
+    },
+
+    limit(count: number) {
+      rangeTo = rangeFrom + count - 1;
+      return builder;
+    },
+
+    range(from: number, to: number) {
+      rangeFrom = from;
+      rangeTo = to;
+      return builder;
+    },
+
+    single() {
+      resultMode = 'single';
+      return builder;
+    },
+
+    maybeSingle() {
+      resultMode = 'maybeSingle';
+      return builder;
+    },
+
+    then<T1 = LocalQueryResult, T2 = never>(
+      onfulfilled?: ((value: LocalQueryResult) => T1 | PromiseLike<T1>) | null,
+      onrejected?: ((reason: any) => T2 | PromiseLike<T2>) | null
+    ): Promise<T1 | T2> {
+      return Promise.resolve().then(execute).then(onfulfilled, onrejected);
+    }
+  };
+
+  return builder;
+}
@@ -0,0 +1,104 @@
+/*
+ * services/local/localStorage.ts
+ *
+ * Purpose: an in-memory stand-in for Supabase Storage on the local
+ * backend, covering the calls the app makes: upload, download, remove
+ * and createSignedUrl.
+ *
+ * There is no file server, so a "signed" URL is a data: URL of the file
+ * itself and never expires. Buckets are created on first use and
+ * nothing is persisted.
+ */
+
+// What supabase-js accepts as a file body and the app actually sends.
+type LocalFileBody = ArrayBuffer | Uint8Array | string | { arrayBuffer(): Promise<ArrayBuffer> };
+
+type LocalObject = {
+  bytes: Uint8Array;
+  contentType: string;
+  createdAt: string;
+};
+
+// Mirrors supabase-js' StorageError closely enough for `error.message`.
+export type LocalStorageError = { name: 'StorageError'; message: string; statusCode: string };
+
+function storageError(statusCode: string, message: string): LocalStorageError {
+  return { name: 'StorageError', message, statusCode };
+}
+
+async function toBytes(body: LocalFileBody): Promise<Uint8Array> {
+  if (typeof body === 'string') return new TextEncoder().encode(body);
+  if (body instanceof Uint8Array) return new Uint8Array(body);
+  if (body instanceof ArrayBuffer) return new Uint8Array(body.slice(0));
+  return new Uint8Array(await body.arrayBuffer());
+}
+
+// btoa is available in browsers, Hermes and Node 16+.
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export function createLocalStorage() {
+  const buckets = new Map<string, Map<string, LocalObject>>();
+
+  function bucket(id: string) {
+    if (!buckets.has(id)) buckets.set(id, new Map());
+    return buckets.get(id)!;
+  }
+
+  const storage = {
+    from(bucketId: string) {
+      const objects = bucket(bucketId);
+      return {
+        async upload(path: string, body: LocalFileBody, options: { contentType?: string; upsert?: boolean } = {}) {
+          if (objects.has(path) && !options.upsert) {
+            return { data: null, error: storageError('409', 'The resource already exists') };
+          }
+          objects.set(path, {
+            bytes: await toBytes(body),
+            contentType: options.contentType || 'application/octet-stream',
+            createdAt: new Date().toISOString()
+          });
+          return { data: { id: path, path, fullPath: `${bucketId}/${path}` }, error: null };
+        },
+
+        // Resolves to a Blob-like object: enough for `await data.arrayBuffer()`,
+        // which works the same on the hosted client's Blob.
+        async download(path: string) {
+          const object = objects.get(path);
+          if (!object) return { data: null, error: storageError('404', 'Object not found') };
+          const { bytes, contentType } = object;
+          return {
+            data: {
+              size: bytes.length,
+              type: contentType,
+              arrayBuffer: async () => bytes.slice().buffer
+            },
+            error: null
+          };
+        },
+
+        async remove(paths: string[]) {
+          const removed = paths.filter(path => objects.delete(path)).map(name => ({ name, bucket_id: bucketId }));
+          return { data: removed, error: null };
+        },
+
+        async createSignedUrl(path: string, _expiresIn: number, _options: { download?: string | boolean } = {}) {
+          const object = objects.get(path);
+          if (!object) return { data: null, error: storageError('404', 'Object not found') };
+          return { data: { signedUrl: `data:${object.contentType};base64,${toBase64(object.bytes)}` }, error: null };
+        }
+      };
+    }
+  };
+
+  function reset() {
+    buckets.clear();
+  }
+
+  return { storage, reset };
+}
@@ -0,0 +1,187 @@
+/*
+ * services/local/packs/marketplace.ts
+ *
+ * Purpose: a busier fixture pack for exercising lists, filters and the
+ * fundraising pipeline. It extends the demo seed with more startups,
+ * investors and campaigns in every status, plus interests at each stage
+ * and a few investments.
+ */
+
+import { CampaignStatus, CampaignType, TablesInsert, VerificationStatus } from '../../data/database.types';
+import { DEFAULT_SEED, LOCAL_SEED_PASSWORD, LocalSeed, SEED_IDS } from '../seed';
+
+// Ids for rows added by this pack. Offsetting by 300 keeps them clear of
+// the demo seed's ids.
+function packId(n: number): string {
+  return `00000000-0000-4000-8000-000000000${String(300 + n).padStart(3, '0')}`;
+}
+
+type StartupSpec = {
+  n: number;
+  company: string;
+  founder: string;
+  email: string;
+  industry: string;
+  location: string;
+  stage: string;
+  tagline: string;
+  verification: VerificationStatus;
+};
+
+const STARTUPS: StartupSpec[] = [
+  { n: 1, company: 'Kisan Ledger', founder: 'Pooja Nair', email: 'pooja@kisanledger.local', industry: 'AgriTech,FinTech', location: 'Kochi, Kerala', stage: 'Seed', tagline: 'Crop loans priced from satellite data', verification: 'verified' },
+  { n: 2, company: 'ClassKit', founder: 'Arjun Rao', email: 'arjun@classkit.local', industry: 'EdTech,SaaS', location: 'Hyderabad, Telangana', stage: 'Series A', tagline: 'Lesson planning for government schools', verification: 'verified' },
+  { n: 3, company: 'VoltCart', founder: 'Sana Qureshi', email: 'sana@voltcart.local', industry: 'CleanTech,Logistics', location: 'Delhi NCR', stage: 'Seed', tagline: 'Electric three-wheelers for last-mile delivery', verification: 'pending' },
+  { n: 4, company: 'MediQueue', founder: 'Karan Bedi', email: 'karan@mediqueue.local', industry: 'HealthTech,AI', location: 'Ahmedabad, Gujarat', stage: 'Pre-seed', tagline: 'OPD queue prediction for district hospitals', verification: 'rejected' }
+];
+
+type InvestorSpec = {
+  n: number;
+  name: string;
+  firm: string;
+  email: string;
+  type: string;
+  min: number;
+  max: number;
+  industries: string;
+  location: string;
+};
+
+const INVESTORS: InvestorSpec[] = [
+  { n: 11, name: 'Anita Desai', firm: 'Monsoon Angels', email: 'anita@monsoonangels.local', type: 'Angel', min: 50000, max: 1000000, industries: 'EdTech,AgriTech', location: 'Pune, Maharashtra' },
+  { n: 12, name: 'Farhan Ali', firm: 'Deccan Ventures', email: 'farhan@deccanvc.local', type: 'VC', min: 5000000, max: 50000000, industries: 'SaaS,AI,HealthTech', location: 'Hyderabad, Telangana' },
+  { n: 13, name: 'Lakshmi Pillai', firm: 'Green Bharat Fund', email: 'lakshmi@greenbharat.local', type: 'VC', min: 2500000, max: 25000000, industries: 'CleanTech,Logistics,AgriTech', location: 'Bengaluru, Karnataka' }
+];
+
+type CampaignSpec = {
+  n: number;
+  startupId: string;
+  title: string;
+  goal: number;
+  raised: number;
+  equity: number;
+  type: CampaignType;
+  status: CampaignStatus;
+};
+
+const CAMPAIGNS: CampaignSpec[] = [
+  { n: 21, startupId: packId(101), title: 'Seed: expand to Tamil Nadu', goal: 20000000, raised: 0, equity: 10, type: 'equity', status: 'active' },
+  { n: 22, startupId: packId(102), title: 'Series A: 5,000 schools', goal: 80000000, raised: 80000000, equity: 15, type: 'equity', status: 'completed' },
+  { n: 23, startupId: packId(102), title: 'Bridge note before Series B', goal: 15000000, raised: 10000000, equity: 5, type: 'convertible', status: 'active' },
+  { n: 24, startupId: packId(103), title: 'Vehicle financing facility', goal: 30000000, raised: 0, equity: 0, type: 'debt', status: 'active' },
+  { n: 25, startupId: packId(103), title: 'Seed round (paused for audit)', goal: 12000000, raised: 3000000, equity: 9, type: 'equity', status: 'paused' },
+  { n: 26, startupId: packId(104), title: 'Pre-seed for pilot hospitals', goal: 4000000, raised: 0, equity: 7, type: 'equity', status: 'cancelled' },
+  { n: 27, startupId: packId(104), title: 'Pre-seed relaunch', goal: 4000000, raised: 0, equity: 7, type: 'equity', status: 'draft' },
+  { n: 28, startupId: packId(101), title: 'Working capital line', goal: 10000000, raised: 0, equity: 0, type: 'debt', status: 'pending_review' }
+];
+
+const startupRows: Array<TablesInsert<'startups'>> = STARTUPS.map(s => ({
+  id: packId(100 + s.n),
+  owner_id: packId(s.n),
+  public_id: `STU-${s.company.toUpperCase().replace(/[^A-Z]/g, '')}`,
+  company_name: s.company,
+  tagline: s.tagline,
+  description: `${s.company}: ${s.tagline.toLowerCase()}.`,
+  founder_name: s.founder,
+  industry: s.industry,
+  location: s.location,
+  funding_stage: s.stage,
+  company_type: 'Private Limited',
+  team_size: 5 + s.n * 4,
+  founded_year: 2019 + s.n,
+  verification_status: s.verification
+}));
+
+const investorRows: Array<TablesInsert<'investors'>> = INVESTORS.map(i => ({
+  id: packId(100 + i.n),
+  owner_id: packId(i.n),
+  public_id: `INV-${i.firm.toUpperCase().replace(/[^A-Z]/g, '').slice(0, 10)}`,
+  investor_name: i.name,
+  company_name: i.firm,
+  investor_type: i.type,
+  subscription: i.type === 'VC' ? 'premium' : 'basic',
+  min_investment: i.min,
+  max_investment: i.max,
+  interested_industries: i.industries,
+  location: i.location
+}));
+
+const campaignRows: Array<TablesInsert<'fundraising_campaigns'>> = CAMPAIGNS.map(c => ({
+  id: packId(100 + c.n),
+  startup_id: c.startupId,
+  title: c.title,
+  description: `${c.title}. Terms and data room available on request.`,
+  funding_goal: c.goal,
+  funding_raised: c.raised,
+  min_investment: c.type === 'debt' ? 500000 : 100000,
+  equity_offered: c.equity,
+  campaign_type: c.type,
+  status: c.status,
+  // Drafts are left without a deck so submitting one shows the
+  // missing-fields message; every other status needed one to get there.
+  pitch_deck_url: c.status === 'draft' ? null : `https://example.com/decks/${c.n}.pdf`
+}));
+
+export const MARKETPLACE_SEED: LocalSeed = {
+  accounts: [
+    ...DEFAULT_SEED.accounts,
+    ...STARTUPS.map(s => ({ id: packId(s.n), email: s.email, password: LOCAL_SEED_PASSWORD })),
+    ...INVESTORS.map(i => ({ id: packId(i.n), email: i.email, password: LOCAL_SEED_PASSWORD }))
+  ],
+  tables: {
+    ...DEFAULT_SEED.tables,
+    users: [
+      ...(DEFAULT_SEED.tables.users || []),
+      ...STARTUPS.map(s => ({ id: packId(s.n), email: s.email, role: 'startup' as const, public_id: `startup-${300 + s.n}` })),
+      ...INVESTORS.map(i => ({ id: packId(i.n), email: i.email, role: 'investor' as const, public_id: `investor-${300 + i.n}` }))
+    ],
+    startups: [...(DEFAULT_SEED.tables.startups || []), ...startupRows],
+    investors: [...(DEFAULT_SEED.tables.investors || []), ...investorRows],
+    fundraising_campaigns: [...(DEFAULT_SEED.tables.fundraising_campaigns || []), ...campaignRows],
+    campaign_interests: [
+      ...(DEFAULT_SEED.tables.campaign_interests || []),
+      { campaign_id: packId(121), investor_id: packId(111), interest_level: 'interested', proposed_investment: 250000, status: 'pending' },
+      { campaign_id: packId(121), investor_id: packId(113), interest_level: 'very_interested', proposed_investment: 5000000, status: 'meeting_scheduled' },
+      { id: packId(141), campaign_id: packId(123), investor_id: packId(112), interest_level: 'committed', proposed_investment: 10000000, status: 'invested' },
+      { campaign_id: packId(124), investor_id: packId(113), interest_level: 'very_interested', proposed_investment: 8000000, status: 'contacted' },
+      { campaign_id: SEED_IDS.campaignB, investor_id: packId(112), interest_level: 'interested', proposed_investment: 5000000, status: 'pending' }
+    ],
+    campaign_documents: [
+      ...(DEFAULT_SEED.tables.campaign_documents || []),
+      { campaign_id: packId(128), document_type: 'financials', file_name: 'Receivables ageing.pdf', file_url: 'https://example.com/docs/receivables.pdf', uploaded_by: packId(1) }
+    ],
+    // The relaunch draft was sent back once, so MediQueue's dashboard shows
+    // the reviewer's feedback.
+    campaign_reviews: [
+      { campaign_id: packId(127), reviewer_id: SEED_IDS.admin, decision: 'changes_requested', reason: 'Add a pitch deck and explain what changed since the cancelled round.' }
+    ],
+    investments: [
+      ...(DEFAULT_SEED.tables.investments || []),
+      { id: packId(201), startup_id: packId(102), investor_id: packId(112), campaign_id: packId(123), interest_id: packId(141), amount: 10000000, equity_offered: 2, status: 'committed' },
+      { id: packId(202), startup_id: packId(101), investor_id: packId(111), campaign_id: packId(121), amount: 250000, equity_offered: 0.2, status: 'pending' }
+    ],
+    // The bridge note's commitment. The other raised totals predate the
+    // ledger, so reconcile-ledger reports them.
+    ledger_accounts: [
+      ...(DEFAULT_SEED.tables.ledger_accounts || []),
+      { id: packId(211), key: `investor_wallet:${packId(112)}`, kind: 'investor_wallet', investor_id: packId(112) },
+      { id: packId(212), key: `campaign_escrow:${packId(123)}`, kind: 'campaign_escrow', campaign_id: packId(123) }
+    ],
+    ledger_entries: [
+      ...(DEFAULT_SEED.tables.ledger_entries || []),
+      {
+        id: packId(221),
+        kind: 'commitment',
+        reference: `commitment:${packId(201)}:1`,
+        description: 'Investment committed',
+        investment_id: packId(201),
+        campaign_id: packId(123)
+      }
+    ],
+    ledger_lines: [
+      ...(DEFAULT_SEED.tables.ledger_lines || []),
+      { entry_id: packId(221), account_id: packId(211), amount: 1000000000 },
+      { entry_id: packId(221), account_id: packId(212), amount: -1000000000 }
+    ]
+  }
+};
@@ -0,0 +1,43 @@
+/*
+ * services/local/packs/onboarding.ts
+ *
+ * Purpose: accounts that have not finished signing up, for walking through
+ * the onboarding flow without creating users by hand.
+ *
+ * - new@incubs.local has no role yet, so it lands on Settings to pick one.
+ * - founder@incubs.local is a startup with no company profile.
+ * - angel@incubs.local is an investor with no investor profile.
+ *
+ * The admin accounts and one finished startup are kept so approvals and
+ * the explore lists can still be checked.
+ */
+
+import { DEFAULT_SEED, LOCAL_SEED_PASSWORD, LocalSeed, SEED_IDS } from '../seed';
+
+const ONBOARDING_IDS = {
+  noRole: '00000000-0000-4000-8000-000000000601',
+  startupNoProfile: '00000000-0000-4000-8000-000000000602',
+  investorNoProfile: '00000000-0000-4000-8000-000000000603'
+};
+
+const KEPT_USERS = [SEED_IDS.superAdmin, SEED_IDS.admin, SEED_IDS.startupOwnerA];
+
+export const ONBOARDING_SEED: LocalSeed = {
+  accounts: [
+    ...DEFAULT_SEED.accounts.filter(a => KEPT_USERS.includes(a.id)),
+    { id: ONBOARDING_IDS.noRole, email: 'new@incubs.local', password: LOCAL_SEED_PASSWORD },
+    { id: ONBOARDING_IDS.startupNoProfile, email: 'founder@incubs.local', password: LOCAL_SEED_PASSWORD },
+    { id: ONBOARDING_IDS.investorNoProfile, email: 'angel@incubs.local', password: LOCAL_SEED_PASSWORD }
+  ],
+  tables: {
+    users: [
+      ...(DEFAULT_SEED.tables.users || []).filter(u => KEPT_USERS.includes(u.id)),
+      { id: ONBOARDING_IDS.noRole, email: 'new@incubs.local', role: null },
+      { id: ONBOARDING_IDS.startupNoProfile, email: 'founder@incubs.local', role: 'startup', public_id: 'startup-000602' },
+      { id: ONBOARDING_IDS.investorNoProfile, email: 'angel@incubs.local', role: 'investor', public_id: 'investor-000603' }
+    ],
+    startups: (DEFAULT_SEED.tables.startups || []).filter(s => s.id === SEED_IDS.startupA),
+    fundraising_campaigns: (DEFAULT_SEED.tables.fundraising_campaigns || []).filter(c => c.startup_id === SEED_IDS.startupA),
+    campaign_updates: DEFAULT_SEED.tables.campaign_updates
+  }
+};
@@ -0,0 +1,289 @@
+/*
+ * services/local/seed.ts
+ *
+ * Purpose: the data the local backend starts with. One account per role
+ * (plus a second startup and investor) so every screen has something to
+ * show. Rows are typed with the Insert types from database.types.ts, so a
+ * schema change that breaks a fixture is a compile error.
+ *
+ * Every account's password is `password123`. The users below also share
+ * the recovery key `1111-2222-3333-4444-5555-6666`.
+ */
+
+import { TableName, TablesInsert } from '../data/database.types';
+import { legacyHashRecoveryKey } from '../../utils/recovery.util';
+import { LocalAuthAccount } from './localAuth';
+
+export type LocalSeed = {
+  accounts: LocalAuthAccount[];
+  tables: { [T in TableName]?: Array<TablesInsert<T>> };
+};
+
+export const LOCAL_SEED_PASSWORD = 'password123';
+
+// Lets the recovery-key reset be tried on any seeded user. Seeded users
+// get the legacy 32-bit hash on purpose, so every local reset also goes
+// through the upgrade to the current format.
+export const LOCAL_SEED_RECOVERY_KEY = '1111-2222-3333-4444-5555-6666';
+const SEED_RECOVERY_KEY_HASH = legacyHashRecoveryKey(LOCAL_SEED_RECOVERY_KEY);
+
+// Fixed ids so fixtures can reference each other and tests can look rows up.
+export const SEED_IDS = {
+  superAdmin: '00000000-0000-4000-8000-000000000001',
+  admin: '00000000-0000-4000-8000-000000000002',
+  startupOwnerA: '00000000-0000-4000-8000-000000000011',
+  startupOwnerB: '00000000-0000-4000-8000-000000000012',
+  investorOwnerA: '00000000-0000-4000-8000-000000000021',
+  investorOwnerB: '00000000-0000-4000-8000-000000000022',
+  startupA: '00000000-0000-4000-8000-000000000111',
+  startupB: '00000000-0000-4000-8000-000000000112',
+  investorA: '00000000-0000-4000-8000-000000000121',
+  investorB: '00000000-0000-4000-8000-000000000122',
+  campaignA: '00000000-0000-4000-8000-000000000211',
+  campaignB: '00000000-0000-4000-8000-000000000212',
+  campaignDraft: '00000000-0000-4000-8000-000000000213',
+  campaignPending: '00000000-0000-4000-8000-000000000214',
+  interestInvested: '00000000-0000-4000-8000-000000000221',
+  investmentA: '00000000-0000-4000-8000-000000000231',
+  walletB: '00000000-0000-4000-8000-000000000241',
+  escrowA: '00000000-0000-4000-8000-000000000242',
+  commitmentA: '00000000-0000-4000-8000-000000000251'
+};
+
+function account(id: string, email: string): LocalAuthAccount {
+  return { id, email, password: LOCAL_SEED_PASSWORD, created_at: '2025-01-01T00:00:00.000Z' };
+}
+
+export const DEFAULT_SEED: LocalSeed = {
+  accounts: [
+    account(SEED_IDS.superAdmin, 'founder@example.com'),
+    account(SEED_IDS.admin, 'admin@incubs.local'),
+    account(SEED_IDS.startupOwnerA, 'asha@greenroots.local'),
+    account(SEED_IDS.startupOwnerB, 'rahul@paylane.local'),
+    account(SEED_IDS.investorOwnerA, 'meera@angels.local'),
+    account(SEED_IDS.investorOwnerB, 'vikram@nexusvc.local')
+  ],
+  tables: {
+    users: [
+      { id: SEED_IDS.superAdmin, email: 'founder@example.com', role: 'super_admin', public_id: 'super_admin-000001', recovery_key_hash: SEED_RECOVERY_KEY_HASH },
+      { id: SEED_IDS.admin, email: 'admin@incubs.local', role: 'admin', public_id: 'admin-000002', recovery_key_hash: SEED_RECOVERY_KEY_HASH },
+      { id: SEED_IDS.startupOwnerA, email: 'asha@greenroots.local', role: 'startup', public_id: 'startup-000011', recovery_key_hash: SEED_RECOVERY_KEY_HASH },
+      { id: SEED_IDS.startupOwnerB, email: 'rahul@paylane.local', role: 'startup', public_id: 'startup-000012', recovery_key_hash: SEED_RECOVERY_KEY_HASH },
+      { id: SEED_IDS.investorOwnerA, email: 'meera@angels.local', role: 'investor', public_id: 'investor-000021', recovery_key_hash: SEED_RECOVERY_KEY_HASH },
+      { id: SEED_IDS.investorOwnerB, email: 'vikram@nexusvc.local', role: 'investor', public_id: 'investor-000022', recovery_key_hash: SEED_RECOVERY_KEY_HASH }
+    ],
+    startups: [
+      {
+        id: SEED_IDS.startupA,
+        owner_id: SEED_IDS.startupOwnerA,
+        public_id: 'STU-GREENROOTS',
+        company_name: 'GreenRoots Agritech',
+        tagline: 'Cold-chain storage for small farmers',
+        description: 'Solar-powered cold rooms rented by the crate to farmer producer organisations.',
+        founded_year: 2022,
+        location: 'Pune, Maharashtra',
+        website: 'greenroots.example.com',
+        email: 'hello@greenroots.example.com',
+        company_type: 'Private Limited',
+        team_size: 14,
+        founder_name: 'Asha Kulkarni',
+        industry: 'AgriTech,CleanTech',
+        business_model: 'Pay-per-crate storage plus annual maintenance contracts',
+        target_market: 'Farmer producer organisations in western India',
+        current_revenue: 1800000,
+        funding_stage: 'Seed',
+        verification_status: 'verified'
+      },
+      {
+        id: SEED_IDS.startupB,
+        owner_id: SEED_IDS.startupOwnerB,
+        public_id: 'STU-PAYLANE',
+        company_name: 'PayLane',
+        tagline: 'UPI collections for neighbourhood clinics',
+        description: 'Appointment booking and UPI payment links for single-doctor clinics.',
+        founded_year: 2023,
+        location: 'Bengaluru, Karnataka',
+        website: 'paylane.example.com',
+        company_type: 'Private Limited',
+        team_size: 6,
+        founder_name: 'Rahul Menon',
+        industry: 'FinTech,HealthTech',
+        business_model: 'Monthly SaaS subscription per clinic',
+        target_market: 'Independent clinics in tier-2 cities',
+        current_revenue: 450000,
+        funding_stage: 'Pre-seed',
+        verification_status: 'pending'
+      }
+    ],
+    investors: [
+      {
+        id: SEED_IDS.investorA,
+        owner_id: SEED_IDS.investorOwnerA,
+        public_id: 'INV-MEERA',
+        investor_name: 'Meera Iyer',
+        company_name: 'Iyer Family Office',
+        investor_type: 'Angel',
+        subscription: 'basic',
+        location: 'Chennai, Tamil Nadu',
+        min_investment: 100000,
+        max_investment: 1500000,
+        interested_industries: 'AgriTech,HealthTech,EdTech',
+        bio: 'Former hospital administrator backing early healthcare and rural businesses.',
+        verification_status: 'verified'
+      },
+      {
+        id: SEED_IDS.investorB,
+        owner_id: SEED_IDS.investorOwnerB,
+        public_id: 'INV-NEXUS',
+        investor_name: 'Vikram Shah',
+        company_name: 'Nexus Seed Partners',
+        investor_type: 'VC',
+        subscription: 'premium',
+        location: 'Mumbai, Maharashtra',
+        min_investment: 2500000,
+        max_investment: 20000000,
+        interested_industries: 'FinTech,SaaS,AI',
+        website: 'nexusseed.example.com',
+        linkedin_url: 'linkedin.com/in/vikram-shah-example'
+      }
+    ],
+    fundraising_campaigns: [
+      {
+        id: SEED_IDS.campaignA,
+        startup_id: SEED_IDS.startupA,
+        title: 'Seed round: 40 new cold rooms',
+        description: 'Expanding from 12 to 52 cold rooms across Pune and Nashik districts.',
+        funding_goal: 15000000,
+        // The committed investment below.
+        funding_raised: 3000000,
+        min_investment: 100000,
+        max_investment: 3000000,
+        equity_offered: 12,
+        campaign_type: 'equity',
+        status: 'active',
+        pitch_deck_url: 'https://example.com/decks/cold-rooms-seed.pdf',
+        market_analysis: 'Around 30% of perishable produce in the region is lost before sale.',
+        competitive_advantage: 'Rooms run off-grid and are booked through WhatsApp.',
+        use_of_funds: 'Hardware 70%, field operations 20%, software 10%.'
+      },
+      {
+        id: SEED_IDS.campaignB,
+        startup_id: SEED_IDS.startupB,
+        title: 'Convertible note for clinic pilot',
+        description: 'Funding a 200-clinic pilot in Mysuru and Hubballi.',
+        funding_goal: 5000000,
+        funding_raised: 0,
+        min_investment: 50000,
+        equity_offered: 8,
+        campaign_type: 'convertible',
+        status: 'active',
+        pitch_deck_url: 'https://example.com/decks/clinic-pilot-note.pdf',
+        use_of_funds: 'Sales team and onboarding support for the pilot.'
+      },
+      {
+        id: SEED_IDS.campaignDraft,
+        startup_id: SEED_IDS.startupA,
+        title: 'Working capital line (draft)',
+        description: 'Short-term debt for seasonal inventory.',
+        funding_goal: 3000000,
+        equity_offered: 0,
+        campaign_type: 'debt',
+        status: 'draft'
+      },
+      {
+        // Waiting in the admin review queue.
+        id: SEED_IDS.campaignPending,
+        startup_id: SEED_IDS.startupB,
+        title: 'Seed round: Karnataka rollout',
+        description: 'Taking the clinic payments product to 1,000 clinics across Karnataka.',
+        funding_goal: 25000000,
+        min_investment: 200000,
+        max_investment: 5000000,
+        equity_offered: 10,
+        campaign_type: 'equity',
+        status: 'pending_review',
+        submitted_at: '2025-01-10T09:00:00.000Z',
+        pitch_deck_url: 'https://example.com/decks/paylane-seed.pdf',
+        use_of_funds: 'Field sales 50%, product 30%, compliance 20%.'
+      }
+    ],
+    campaign_documents: [
+      {
+        campaign_id: SEED_IDS.campaignPending,
+        document_type: 'financials',
+        file_name: 'PayLane FY24 financials.pdf',
+        file_url: 'https://example.com/docs/paylane-fy24.pdf',
+        uploaded_by: SEED_IDS.startupOwnerB
+      }
+    ],
+    campaign_interests: [
+      {
+        campaign_id: SEED_IDS.campaignA,
+        investor_id: SEED_IDS.investorA,
+        interest_level: 'very_interested',
+        proposed_investment: 500000,
+        status: 'contacted'
+      },
+      {
+        id: SEED_IDS.interestInvested,
+        campaign_id: SEED_IDS.campaignA,
+        investor_id: SEED_IDS.investorB,
+        interest_level: 'committed',
+        proposed_investment: 3000000,
+        proposed_equity: 2.5,
+        status: 'invested'
+      }
+    ],
+    investments: [
+      {
+        id: SEED_IDS.investmentA,
+        startup_id: SEED_IDS.startupA,
+        investor_id: SEED_IDS.investorB,
+        campaign_id: SEED_IDS.campaignA,
+        interest_id: SEED_IDS.interestInvested,
+        amount: 3000000,
+        equity_offered: 2.5,
+        status: 'committed'
+      }
+    ],
+    // investmentA's commitment, as db/ledger.sql would have posted it;
+    // campaignA's funding_raised is what this escrow holds.
+    ledger_accounts: [
+      { id: SEED_IDS.walletB, key: `investor_wallet:${SEED_IDS.investorB}`, kind: 'investor_wallet', investor_id: SEED_IDS.investorB },
+      { id: SEED_IDS.escrowA, key: `campaign_escrow:${SEED_IDS.campaignA}`, kind: 'campaign_escrow', campaign_id: SEED_IDS.campaignA }
+    ],
+    ledger_entries: [
+      {
+        id: SEED_IDS.commitmentA,
+        kind: 'commitment',
+        reference: `commitment:${SEED_IDS.investmentA}:1`,
+        description: 'Investment committed',
+        investment_id: SEED_IDS.investmentA,
+        campaign_id: SEED_IDS.campaignA
+      }
+    ],
+    ledger_lines: [
+      { entry_id: SEED_IDS.commitmentA, account_id: SEED_IDS.walletB, amount: 300000000 },
+      { entry_id: SEED_IDS.commitmentA, account_id: SEED_IDS.escrowA, amount: -300000000 }
+    ],
+    campaign_updates: [
+      {
+        campaign_id: SEED_IDS.campaignA,
+        title: 'Nashik site signed',
+        content: 'Lease signed for the first Nashik cold room; installation starts next month.',
+        update_type: 'milestone'
+      }
+    ],
+    audit_events: [
+      {
+        actor_id: SEED_IDS.admin,
+        actor_role: 'admin',
+        action: 'startup.verify',
+        target_type: 'startup',
+        target_id: SEED_IDS.startupA,
+        before: { id: SEED_IDS.startupA, public_id: 'STU-GREENROOTS', company_name: 'GreenRoots Agritech', verification_status: 'pending' },
+        after: { id: SEED_IDS.startupA, public_id: 'STU-GREENROOTS', company_name: 'GreenRoots Agritech', verification_status: 'verified' }
+      }
+    ]
+  }
+};
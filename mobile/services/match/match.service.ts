@@ -0,0 +1,132 @@
+/*
+ * services/match/match.service.ts
+ *
+ * Purpose: mutual matches between startups and investors. An investor
+ * opts in by expressing interest in one of the startup's campaigns; the
+ * startup opts in by liking the investor. Whichever happens second
+ * creates the match, and the side that completed it is told straight
+ * away. The other side sees it as new on its Matches list (the
+ * `*_seen_at` columns). Contact details are only available for matches,
+ * through the `match-contacts` server function.
+ */
+
+import { supabase } from '../../supabaseClient';
+import { CampaignRepository } from '../data/campaign.repository';
+import { InterestRepository } from '../data/interest.repository';
+import { MatchRepository, MatchWithParties } from '../data/match.repository';
+import { MatchRow } from '../data/database.types';
+import type { MatchContact } from '../../server/matchContacts';
+import { logger } from '../../utils/logger';
+
+export type LikeResult =
+  | { success: true; match: MatchRow | null }
+  | { success: false; error: string };
+
+// Has the investor expressed interest in any of the startup's campaigns?
+async function investorOptedIn(startupId: string, investorId: string): Promise<boolean> {
+  const campaigns = await CampaignRepository.listByStartup(startupId);
+  const count = await InterestRepository.countForInvestorInCampaigns(investorId, campaigns.map(c => c.id));
+  return count > 0;
+}
+
+// Create the match, treating one that already exists (or was created
+// a moment ago by the other side) as success.
+async function ensureMatch(startupId: string, investorId: string): Promise<MatchRow> {
+  const existing = await MatchRepository.find(startupId, investorId);
+  if (existing) return existing;
+
+  try {
+    return await MatchRepository.create(startupId, investorId);
+  } catch (err: any) {
+    if (err?.code === '23505') {
+      const raced = await MatchRepository.find(startupId, investorId);
+      if (raced) return raced;
+    }
+    throw err;
+  }
+}
+
+/*
+ * likeInvestor
+ * - The startup opts in. Returns the match when the investor has
+ *   already expressed interest, otherwise `match: null` (the match is
+ *   made if they express interest later).
+ */
+export async function likeInvestor(startupId: string, investorId: string): Promise<LikeResult> {
+  try {
+    await MatchRepository.like(startupId, investorId);
+    const match = (await investorOptedIn(startupId, investorId)) ? await ensureMatch(startupId, investorId) : null;
+    logger.info('likeInvestor', { startupId, investorId, matched: !!match });
+    return { success: true, match };
+  } catch (err) {
+    logger.error('likeInvestor failed', { startupId, investorId, err });
+    return { success: false, error: 'Could not save your like. Please try again.' };
+  }
+}
+
+/*
+ * matchAfterInterest
+ * - Call after the investor expresses interest in a campaign. Returns
+ *   the match if the startup had already liked them, else null.
+ * - The interest is already saved, so failures are logged and reported
+ *   as "no match"; the startup's next like will complete it.
+ */
+export async function matchAfterInterest(
+  campaign: { startup_id: string | null },
+  investorId: string
+): Promise<MatchRow | null> {
+  if (!campaign.startup_id) return null;
+  try {
+    const like = await MatchRepository.findLike(campaign.startup_id, investorId);
+    if (!like) return null;
+    const match = await ensureMatch(campaign.startup_id, investorId);
+    logger.info('matchAfterInterest: matched', { startupId: campaign.startup_id, investorId });
+    return match;
+  } catch (err) {
+    logger.error('matchAfterInterest failed', { startupId: campaign.startup_id, investorId, err });
+    return null;
+  }
+}
+
+// What the side that completed a match is told.
+export function matchAnnouncement(otherName: string): string {
+  return `You and ${otherName} are interested in each other. Their contact details are now on your Matches tab.`;
+}
+
+// Matches not yet seen by this side.
+export function unseenMatches(matches: MatchRow[], side: 'startup' | 'investor'): MatchRow[] {
+  return matches.filter(m => (side === 'startup' ? !m.startup_seen_at : !m.investor_seen_at));
+}
+
+/*
+ * loadMatches
+ * - The side's matches, newest first, and how many were new. Opening
+ *   the list marks them seen; a failure to do so is only logged.
+ */
+export async function loadMatches(
+  side: 'startup' | 'investor',
+  ownId: string
+): Promise<{ matches: MatchWithParties[]; newCount: number }> {
+  const matches =
+    side === 'startup' ? await MatchRepository.listForStartup(ownId) : await MatchRepository.listForInvestor(ownId);
+  const unseen = unseenMatches(matches, side);
+
+  try {
+    await MatchRepository.markSeen(unseen.map(m => m.id), side);
+  } catch (err) {
+    logger.error('loadMatches: failed to mark matches seen', { side, err });
+  }
+  return { matches, newCount: unseen.length };
+}
+
+export async function loadMatchContact(
+  matchId: string
+): Promise<{ success: true; contact: MatchContact } | { success: false; error: string }> {
+  const { data, error } = await supabase.functions.invoke('match-contacts', { body: { matchId } });
+
+  if (error || !data) {
+    logger.error('match-contacts call failed', { matchId, error });
+    return { success: false, error: 'Could not load contact details. Please try again.' };
+  }
+  return data;
+}
@@ -0,0 +1,86 @@
+/*
+ * services/match/recommendation.service.ts
+ *
+ * Purpose: the ranked lists on the home screens. Investors get active
+ * campaigns ordered by how well they fit their profile and swipe
+ * history; startups get investors ordered the same way against their
+ * profile and current round. The scoring itself is in
+ * utils/recommendation.util.ts.
+ */
+
+import { CampaignRepository, CampaignWithStartup } from '../data/campaign.repository';
+import { InterestRepository } from '../data/interest.repository';
+import { InvestorRepository, InvestorSummary } from '../data/investor.repository';
+import { StartupRepository } from '../data/startup.repository';
+import { SwipeRepository } from '../data/swipe.repository';
+import {
+  industryAffinityFromSwipes,
+  rankByScore,
+  Recommendation,
+  scoreCampaignForInvestor,
+  scoreInvestorForStartup
+} from '../../utils/recommendation.util';
+
+export type RankedCampaign = CampaignWithStartup & { recommendation: Recommendation };
+export type RankedInvestor = InvestorSummary & { recommendation: Recommendation };
+
+const NO_REASONS: Recommendation = { score: 0, reasons: [] };
+
+/*
+ * recommendCampaigns
+ * - Active campaigns, best fit first. Without an investor profile the
+ *   list keeps its newest-first order and has no reasons.
+ * - Swipes only count for campaigns that are still active, since the
+ *   industry comes from the campaign list.
+ */
+export async function recommendCampaigns(investorId: string | null): Promise<RankedCampaign[]> {
+  const campaigns = await CampaignRepository.listActive();
+  if (!investorId) return campaigns.map(c => ({ ...c, recommendation: NO_REASONS }));
+
+  const [investor, swipes] = await Promise.all([
+    InvestorRepository.getById(investorId),
+    SwipeRepository.listForInvestor(investorId)
+  ]);
+  if (!investor) return campaigns.map(c => ({ ...c, recommendation: NO_REASONS }));
+
+  const industryById = new Map(campaigns.map(c => [c.id, c.startups?.industry]));
+  const industryAffinity = industryAffinityFromSwipes(
+    swipes
+      .filter(s => industryById.has(s.campaign_id))
+      .map(s => ({ direction: s.direction, industry: industryById.get(s.campaign_id) }))
+  );
+
+  return rankByScore(campaigns, campaign => {
+    const startup = {
+      industry: campaign.startups?.industry ?? null,
+      funding_stage: campaign.startups?.funding_stage ?? null,
+      location: campaign.startups?.location ?? null
+    };
+    return scoreCampaignForInvestor(investor, startup, campaign, { industryAffinity });
+  });
+}
+
+/*
+ * recommendInvestors
+ * - Investors, best fit first, for the startup's Discover list. Ticket
+ *   fit is judged against the startup's newest active campaign.
+ * - Investors who already expressed interest in one of its campaigns
+ *   get a boost. Their left swipes stay private to them.
+ */
+export async function recommendInvestors(startupId: string | null): Promise<RankedInvestor[]> {
+  const investors = await InvestorRepository.listForDiscovery();
+  if (!startupId) return investors.map(i => ({ ...i, recommendation: NO_REASONS }));
+
+  const [startup, campaigns] = await Promise.all([
+    StartupRepository.getById(startupId),
+    CampaignRepository.listByStartup(startupId)
+  ]);
+  if (!startup) return investors.map(i => ({ ...i, recommendation: NO_REASONS }));
+
+  const interested = new Set(await InterestRepository.listInvestorIdsForCampaigns(campaigns.map(c => c.id)));
+  const currentRound = campaigns.find(c => c.status === 'active') ?? null;
+
+  return rankByScore(investors, investor =>
+    scoreInvestorForStartup(startup, investor, currentRound, { interested: interested.has(investor.id) })
+  );
+}
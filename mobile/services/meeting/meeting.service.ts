@@ -0,0 +1,278 @@
+/*
+ * services/meeting/meeting.service.ts
+ *
+ * Purpose: scheduling a meeting for a campaign interest.
+ *
+ *   startup proposes one or more times     `proposeSlots` (or from .ics)
+ *   investor accepts one                   `acceptSlot`, which also moves
+ *                                          the interest to meeting_scheduled
+ *   investor declines / startup withdraws  `declineSlot` / `withdrawSlot`
+ *   either side cancels the meeting        `cancelMeeting`
+ *
+ * Times are picked as a date and time in a named zone (the proposer's,
+ * by default the device's) and stored as UTC, so each side sees the
+ * meeting in their own local time. Confirmed meetings export to .ics
+ * with reminder alarms, and the home screens show a reminder in-app
+ * during the day before.
+ */
+
+import { supabase } from '../../supabaseClient';
+import { MeetingRepository } from '../data/meeting.repository';
+import { InterestWithParties } from '../data/interest.repository';
+import { InterestStatus, MeetingSlotRow, MeetingSlotStatus, TablesInsert } from '../data/database.types';
+import { interestsForSide, MessageSide } from '../message/message.service';
+import { buildIcs, parseIcs } from '../../utils/ics.util';
+import { formatInTimeZone, isValidTimeZone, utcToZonedTime, WallTime, zonedTimeToUtc } from '../../utils/timezone.util';
+import { logger } from '../../utils/logger';
+
+// A time the startup is proposing, as entered.
+export type SlotInput = WallTime & {
+  durationMinutes: number;
+  timeZone: string;
+  location: string;
+};
+
+export type UpcomingMeeting = {
+  slot: MeetingSlotRow;
+  interest: InterestWithParties;
+};
+
+export type ProposeResult = { success: true; slots: MeetingSlotRow[] } | { success: false; error: string };
+
+export type SlotResult = { success: true; slot: MeetingSlotRow } | { success: false; error: string };
+
+export type AcceptResult =
+  | { success: true; slot: MeetingSlotRow; interestStatus: InterestStatus }
+  | { success: false; error: string };
+
+export const MEETING_STATUS_LABELS: Record<MeetingSlotStatus, string> = {
+  proposed: 'Proposed',
+  accepted: 'Confirmed',
+  declined: 'Declined',
+  withdrawn: 'Withdrawn',
+  cancelled: 'Cancelled'
+};
+
+export const MEETING_DURATIONS = [15, 30, 45, 60, 90];
+
+// Matches the CHECK in db/meetings.sql.
+export const MAX_MEETING_MINUTES = 8 * 60;
+
+// How many times can be proposed at once.
+export const MAX_SLOTS_PER_PROPOSAL = 5;
+
+// Home screens remind about a confirmed meeting this long before it.
+export const REMINDER_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const LOCATION_MAX = 500;
+
+function overlaps(a: { start: number; end: number }, b: { start: number; end: number }): boolean {
+  return a.start < b.end && b.start < a.end;
+}
+
+/*
+ * resolveSlot
+ * - The UTC start and end for an entered time, or a message describing
+ *   the first problem with it.
+ */
+export function resolveSlot(input: SlotInput, now: Date = new Date()): { starts_at: string; ends_at: string } | string {
+  if (!isValidTimeZone(input.timeZone)) return `Unknown time zone "${input.timeZone}".`;
+  const start = zonedTimeToUtc(input, input.timeZone);
+  if (!start) return 'Enter the date as YYYY-MM-DD and the time as HH:MM.';
+  if (start.getTime() <= now.getTime()) return 'Pick a time in the future.';
+  if (!(input.durationMinutes > 0) || input.durationMinutes > MAX_MEETING_MINUTES) {
+    return `Meetings can last up to ${MAX_MEETING_MINUTES / 60} hours.`;
+  }
+  if (input.location.length > LOCATION_MAX) return `Keep the location under ${LOCATION_MAX} characters.`;
+  const end = new Date(start.getTime() + input.durationMinutes * 60000);
+  return { starts_at: start.toISOString(), ends_at: end.toISOString() };
+}
+
+/*
+ * slotsFromIcs
+ * - Proposable times from a pasted .ics file, shown in `timeZone`.
+ *   All-day, past and over-long events are skipped and counted.
+ */
+export function slotsFromIcs(text: string, timeZone: string, now: Date = new Date()): { slots: SlotInput[]; skipped: number } {
+  const slots: SlotInput[] = [];
+  let skipped = 0;
+  for (const event of parseIcs(text, timeZone)) {
+    const minutes = Math.round((event.end.getTime() - event.start.getTime()) / 60000);
+    if (event.allDay || event.start.getTime() <= now.getTime() || minutes <= 0 || minutes > MAX_MEETING_MINUTES) {
+      skipped++;
+      continue;
+    }
+    slots.push({
+      ...utcToZonedTime(event.start, timeZone),
+      durationMinutes: minutes,
+      timeZone,
+      location: (event.location || '').slice(0, LOCATION_MAX)
+    });
+  }
+  return { slots, skipped };
+}
+
+/*
+ * proposeSlots
+ * - The startup offers `inputs` for an interest. Times may not overlap
+ *   each other or a time already proposed or confirmed (`existing`).
+ */
+export async function proposeSlots(
+  interestId: string,
+  proposerId: string,
+  inputs: SlotInput[],
+  existing: MeetingSlotRow[] = []
+): Promise<ProposeResult> {
+  if (inputs.length === 0) return { success: false, error: 'Add at least one time.' };
+  if (inputs.length > MAX_SLOTS_PER_PROPOSAL) {
+    return { success: false, error: `Propose up to ${MAX_SLOTS_PER_PROPOSAL} times at once.` };
+  }
+
+  const rows: TablesInsert<'meeting_slots'>[] = [];
+  const taken = existing
+    .filter(s => s.status === 'proposed' || s.status === 'accepted')
+    .map(s => ({ start: Date.parse(s.starts_at), end: Date.parse(s.ends_at) }));
+  for (const input of inputs) {
+    const resolved = resolveSlot(input);
+    if (typeof resolved === 'string') return { success: false, error: `${input.date} ${input.time}: ${resolved}` };
+    const range = { start: Date.parse(resolved.starts_at), end: Date.parse(resolved.ends_at) };
+    if (taken.some(t => overlaps(t, range))) {
+      return { success: false, error: `${input.date} ${input.time} overlaps another proposed time.` };
+    }
+    taken.push(range);
+    rows.push({
+      interest_id: interestId,
+      proposed_by: proposerId,
+      ...resolved,
+      timezone: input.timeZone,
+      location: input.location.trim()
+    });
+  }
+
+  try {
+    const slots = await MeetingRepository.createMany(rows);
+    logger.info('proposeSlots', { interestId, count: slots.length });
+    return { success: true, slots };
+  } catch (err) {
+    logger.error('proposeSlots failed', { interestId, err });
+    return { success: false, error: 'Could not propose these times. Please try again.' };
+  }
+}
+
+export async function loadMeetingSlots(interestId: string): Promise<MeetingSlotRow[]> {
+  return MeetingRepository.listForInterest(interestId);
+}
+
+/*
+ * acceptSlot
+ * - Investor accepts a proposed time. The server function checks the
+ *   slot is theirs and still open, so its error can be shown as-is.
+ */
+export async function acceptSlot(slotId: string): Promise<AcceptResult> {
+  const { data, error } = await supabase.functions.invoke('accept-meeting-slot', { body: { slotId } });
+
+  if (error || !data) {
+    logger.error('accept-meeting-slot call failed', { slotId, error });
+    return { success: false, error: 'Could not reach the scheduling service. Please try again.' };
+  }
+  return data;
+}
+
+async function respond(slot: MeetingSlotRow, from: MeetingSlotStatus, to: MeetingSlotStatus): Promise<SlotResult> {
+  try {
+    const updated = await MeetingRepository.updateStatus(slot.id, from, to);
+    if (!updated) {
+      return { success: false, error: 'This time was changed elsewhere. Refresh and try again.' };
+    }
+    logger.info('meeting slot updated', { slotId: slot.id, to });
+    return { success: true, slot: updated };
+  } catch (err) {
+    logger.error('meeting slot update failed', { slotId: slot.id, to, err });
+    return { success: false, error: 'Could not update the meeting. Please try again.' };
+  }
+}
+
+export function declineSlot(slot: MeetingSlotRow): Promise<SlotResult> {
+  return respond(slot, 'proposed', 'declined');
+}
+
+export function withdrawSlot(slot: MeetingSlotRow): Promise<SlotResult> {
+  return respond(slot, 'proposed', 'withdrawn');
+}
+
+// The interest stays at meeting_scheduled; the startup can propose new
+// times for a reschedule.
+export function cancelMeeting(slot: MeetingSlotRow): Promise<SlotResult> {
+  return respond(slot, 'accepted', 'cancelled');
+}
+
+/*
+ * loadUpcomingMeetings
+ * - Confirmed meetings across the viewer's interests that have not
+ *   ended, earliest first.
+ */
+export async function loadUpcomingMeetings(
+  side: MessageSide,
+  ownId: string,
+  now: Date = new Date()
+): Promise<UpcomingMeeting[]> {
+  const interests = await interestsForSide(side, ownId);
+  const slots = await MeetingRepository.listUpcoming(interests.map(i => i.id), now.toISOString());
+  return slots
+    .map(slot => ({ slot, interest: interests.find(i => i.id === slot.interest_id)! }))
+    .filter(m => m.interest);
+}
+
+// The next confirmed meeting starting within the reminder window (or
+// under way), if any.
+export function dueReminder(meetings: UpcomingMeeting[], now: Date = new Date()): UpcomingMeeting | null {
+  return (
+    meetings.find(m => {
+      const start = Date.parse(m.slot.starts_at);
+      return start - now.getTime() <= REMINDER_WINDOW_MS && Date.parse(m.slot.ends_at) > now.getTime();
+    }) ?? null
+  );
+}
+
+// "in 45 minutes", "in 3 hours", "now".
+export function startsIn(slot: Pick<MeetingSlotRow, 'starts_at'>, now: Date = new Date()): string {
+  const minutes = Math.round((Date.parse(slot.starts_at) - now.getTime()) / 60000);
+  if (minutes <= 0) return 'now';
+  if (minutes < 60) return `in ${minutes} minute${minutes === 1 ? '' : 's'}`;
+  const hours = Math.round(minutes / 60);
+  return `in ${hours} hour${hours === 1 ? '' : 's'}`;
+}
+
+/*
+ * describeSlotTime
+ * - The slot's start in the viewer's zone, plus the proposer's wall time
+ *   when they picked it in a different zone.
+ */
+export function describeSlotTime(
+  slot: Pick<MeetingSlotRow, 'starts_at' | 'ends_at' | 'timezone'>,
+  viewerTimeZone: string
+): { local: string; asProposed: string | null; minutes: number } {
+  const minutes = Math.round((Date.parse(slot.ends_at) - Date.parse(slot.starts_at)) / 60000);
+  const local = formatInTimeZone(slot.starts_at, viewerTimeZone);
+  const proposedZone = isValidTimeZone(slot.timezone) ? slot.timezone : 'UTC';
+  const asProposed = formatInTimeZone(slot.starts_at, proposedZone);
+  return { local, asProposed: asProposed === local ? null : `${asProposed} (${proposedZone})`, minutes };
+}
+
+// A calendar file for a confirmed meeting, with reminders a day and half
+// an hour before.
+export function meetingIcs(slot: MeetingSlotRow, interest: InterestWithParties | null): string {
+  const startup = interest?.fundraising_campaigns?.startups?.company_name || 'Startup';
+  const investor = interest?.investors?.investor_name || interest?.investors?.company_name || 'Investor';
+  const campaign = interest?.fundraising_campaigns?.title;
+  return buildIcs([
+    {
+      uid: `${slot.id}@incubs`,
+      start: new Date(slot.starts_at),
+      end: new Date(slot.ends_at),
+      summary: `${startup} × ${investor}`,
+      description: campaign ? `Campaign: ${campaign}` : undefined,
+      location: slot.location || undefined
+    }
+  ]);
+}
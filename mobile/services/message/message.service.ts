@@ -0,0 +1,187 @@
+/*
+ * services/message/message.service.ts
+ *
+ * Purpose: conversations between an investor and a startup. Every
+ * campaign interest is one conversation, open from the moment the
+ * interest is expressed. Messages are text and can share one of the
+ * campaign's documents. Opening a conversation marks the other side's
+ * messages read, which they see as a read receipt. Only the two parties
+ * (and admins, for moderation) can read a conversation; see
+ * db/messages.sql.
+ *
+ * Open conversations and unread badges update through Supabase Realtime.
+ * When realtime is not available (the local backend, or a channel that
+ * fails to connect) they poll instead.
+ */
+
+import { supabase } from '../../supabaseClient';
+import { CampaignRepository } from '../data/campaign.repository';
+import { InterestRepository, InterestWithParties } from '../data/interest.repository';
+import { MessagePreview, MessageRepository, MessageWithDocument } from '../data/message.repository';
+import { MessageRow } from '../data/database.types';
+import { logger } from '../../utils/logger';
+
+// Which side of the conversation is looking.
+export type MessageSide = 'startup' | 'investor';
+
+export type Conversation = {
+  interest: InterestWithParties;
+  lastMessage: MessagePreview | null;
+  unread: number;
+};
+
+export type SendResult = { success: true; message: MessageRow } | { success: false; error: string };
+
+export const MESSAGE_MAX = 4000;
+
+// How often to poll when realtime is unavailable.
+export const POLL_INTERVAL_MS = 5000;
+
+// Sent by the other party and not read yet. Messages from a removed
+// account (no sender) are left out, as the unread query does.
+function isUnreadFor(message: Pick<MessageRow, 'sender_id' | 'read_at'>, userId: string): boolean {
+  return message.sender_id !== null && message.sender_id !== userId && message.read_at === null;
+}
+
+function isParty(interest: InterestWithParties, userId: string): boolean {
+  return interest.investors?.owner_id === userId || interest.fundraising_campaigns?.startups?.owner_id === userId;
+}
+
+// The interests the viewer is a party to, newest first.
+export async function interestsForSide(side: MessageSide, ownId: string): Promise<InterestWithParties[]> {
+  if (side === 'investor') return InterestRepository.listWithPartiesForInvestor(ownId);
+  const campaigns = await CampaignRepository.listByStartup(ownId);
+  return InterestRepository.listWithPartiesForCampaigns(campaigns.map(c => c.id));
+}
+
+// The name to show for the other side of a conversation.
+export function otherPartyName(interest: InterestWithParties, side: MessageSide): string {
+  if (side === 'startup') {
+    return interest.investors?.investor_name || interest.investors?.company_name || 'Investor';
+  }
+  return interest.fundraising_campaigns?.startups?.company_name || 'Startup';
+}
+
+/*
+ * loadConversations
+ * - Every conversation the viewer is part of (one per interest), with
+ *   the latest message and the unread count. Most recent activity first.
+ */
+export async function loadConversations(side: MessageSide, ownId: string, userId: string): Promise<Conversation[]> {
+  const interests = await interestsForSide(side, ownId);
+  const previews = await MessageRepository.listPreviews(interests.map(i => i.id));
+
+  const conversations = interests.map(interest => {
+    const messages = previews.filter(m => m.interest_id === interest.id);
+    return {
+      interest,
+      lastMessage: messages[0] ?? null,
+      unread: messages.filter(m => isUnreadFor(m, userId)).length
+    };
+  });
+
+  const activity = (c: Conversation) => c.lastMessage?.created_at ?? c.interest.created_at ?? '';
+  return conversations.sort((a, b) => activity(b).localeCompare(activity(a)));
+}
+
+// Unread messages across all of the viewer's conversations.
+export async function countUnread(side: MessageSide, ownId: string, userId: string): Promise<number> {
+  const interests = await interestsForSide(side, ownId);
+  const unread = await MessageRepository.listUnread(interests.map(i => i.id), userId);
+  return unread.length;
+}
+
+/*
+ * loadThread
+ * - One conversation, oldest message first. When the reader is one of
+ *   the two parties, the other side's messages are marked read first;
+ *   an admin reading for moderation leaves them unread.
+ */
+export async function loadThread(
+  interestId: string,
+  readerId: string
+): Promise<{ interest: InterestWithParties | null; messages: MessageWithDocument[] }> {
+  const interest = await InterestRepository.findWithParties(interestId);
+  if (interest && isParty(interest, readerId)) {
+    try {
+      await MessageRepository.markRead(interestId, readerId);
+    } catch (err) {
+      // Not fatal: the messages still load and stay unread.
+      logger.warn('markRead failed', { interestId, err });
+    }
+  }
+  const messages = await MessageRepository.listForInterest(interestId);
+  return { interest, messages };
+}
+
+export async function sendMessage(
+  interestId: string,
+  senderId: string,
+  body: string,
+  documentId: string | null = null
+): Promise<SendResult> {
+  const trimmed = body.trim();
+  if (!trimmed && !documentId) return { success: false, error: 'Write a message or attach a document.' };
+  if (trimmed.length > MESSAGE_MAX) return { success: false, error: `Messages can be up to ${MESSAGE_MAX} characters.` };
+
+  try {
+    const message = await MessageRepository.create({
+      interest_id: interestId,
+      sender_id: senderId,
+      body: trimmed,
+      document_id: documentId
+    });
+    return { success: true, message };
+  } catch (err) {
+    logger.error('sendMessage failed', { interestId, err });
+    return { success: false, error: 'Could not send the message. Please try again.' };
+  }
+}
+
+/*
+ * watchMessages
+ * - Calls `onChange` whenever a message is sent or read, in one
+ *   conversation (`interestId`) or in any the viewer can see (null).
+ * - Uses a realtime channel when the client has one and falls back to
+ *   polling every `pollMs` if it cannot connect. Returns a function that
+ *   stops watching.
+ */
+export function watchMessages(interestId: string | null, onChange: () => void, pollMs = POLL_INTERVAL_MS): () => void {
+  let timer: ReturnType<typeof setInterval> | null = null;
+  const startPolling = () => {
+    if (!timer) timer = setInterval(onChange, pollMs);
+  };
+  const stopPolling = () => {
+    if (timer) clearInterval(timer);
+    timer = null;
+  };
+
+  // The local backend has no realtime.
+  if (typeof (supabase as any).channel !== 'function') {
+    startPolling();
+    return stopPolling;
+  }
+
+  const channel = supabase
+    .channel(`messages:${interestId ?? 'all'}:${Date.now()}`)
+    .on(
+      'postgres_changes' as any,
+      { event: '*', schema: 'public', table: 'messages', ...(interestId ? { filter: `interest_id=eq.${interestId}` } : {}) },
+      () => onChange()
+    )
+    .subscribe(status => {
+      if (status === 'SUBSCRIBED') {
+        // Back online after a fallback: catch up once, then rely on events.
+        if (timer) onChange();
+        stopPolling();
+      } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+        logger.warn('messages realtime unavailable, polling', { interestId, status });
+        startPolling();
+      }
+    });
+
+  return () => {
+    stopPolling();
+    supabase.removeChannel(channel);
+  };
+}
@@ -0,0 +1,117 @@
+/*
+ * services/notification/notification.service.ts
+ *
+ * Purpose: the app's side of notifications.
+ *
+ * - `notify` reports an event to the notify-event server function, which
+ *   picks the recipients and sends on every channel they allow. Callers
+ *   fire it after their own change has succeeded; it never fails them.
+ * - The inbox helpers read and mark the signed-in user's notifications.
+ * - Preferences choose the channels (in-app, push, email and how often)
+ *   and mute individual types.
+ * - Push tokens are registered per device once the app has one from
+ *   expo-notifications.
+ */
+
+import { supabase } from '../../supabaseClient';
+import { NotificationRepository } from '../data/notification.repository';
+import { NotificationRow } from '../data/database.types';
+import { DEFAULT_PREFERENCES, NotificationPreferences } from '../../utils/notification.util';
+import { logger } from '../../utils/logger';
+import type { NotifyEventRequest } from '../../server/notifyEvent';
+
+export type PreferencesResult =
+  | { success: true; preferences: NotificationPreferences }
+  | { success: false; error: string };
+
+// How often the bell re-counts unread notifications.
+export const UNREAD_POLL_MS = 30000;
+
+/*
+ * notify
+ * - Best effort: a failure is logged, since the change that caused the
+ *   event has already been saved.
+ */
+export async function notify(event: NotifyEventRequest): Promise<void> {
+  try {
+    const { data, error } = await supabase.functions.invoke('notify-event', { body: event });
+    if (error || !data?.success) {
+      logger.warn('notify-event failed', { type: event.type, error: error ?? data?.error });
+    }
+  } catch (err) {
+    logger.warn('notify-event failed', { type: event.type, err });
+  }
+}
+
+export function loadInbox(userId: string): Promise<NotificationRow[]> {
+  return NotificationRepository.listInbox(userId);
+}
+
+export function countUnread(userId: string): Promise<number> {
+  return NotificationRepository.countUnread(userId);
+}
+
+export function markRead(notification: NotificationRow): Promise<void> {
+  return NotificationRepository.setRead(notification.id, new Date().toISOString());
+}
+
+export function markUnread(notification: NotificationRow): Promise<void> {
+  return NotificationRepository.setRead(notification.id, null);
+}
+
+export function markAllRead(userId: string): Promise<void> {
+  return NotificationRepository.markAllRead(userId);
+}
+
+// The user's saved preferences, or the defaults if they have none.
+export async function loadPreferences(userId: string): Promise<NotificationPreferences> {
+  const row = await NotificationRepository.getPreferences(userId);
+  if (!row) return DEFAULT_PREFERENCES;
+  const { in_app, push, email, email_frequency, muted_types } = row;
+  return { in_app, push, email, email_frequency, muted_types: muted_types ?? [] };
+}
+
+export async function savePreferences(userId: string, preferences: NotificationPreferences): Promise<PreferencesResult> {
+  try {
+    const saved = await NotificationRepository.savePreferences({ user_id: userId, ...preferences });
+    logger.info('notification preferences saved', { userId });
+    const { in_app, push, email, email_frequency, muted_types } = saved;
+    return { success: true, preferences: { in_app, push, email, email_frequency, muted_types } };
+  } catch (err) {
+    logger.error('savePreferences failed', { userId, err });
+    return { success: false, error: 'Could not save your notification settings. Please try again.' };
+  }
+}
+
+export async function countDevices(userId: string): Promise<number> {
+  return (await NotificationRepository.listPushTokens(userId)).length;
+}
+
+/*
+ * registerPushToken
+ * - Remember this device's Expo push token (ExponentPushToken[...]) for
+ *   the signed-in user. Call it after sign-in with the token from
+ *   expo-notifications' getExpoPushTokenAsync.
+ */
+export async function registerPushToken(userId: string, token: string, platform: string): Promise<boolean> {
+  if (!/^Expo(nent)?PushToken\[.+\]$/.test(token)) {
+    logger.warn('registerPushToken: not an Expo push token', { platform });
+    return false;
+  }
+  try {
+    await NotificationRepository.savePushToken(userId, token, platform);
+    return true;
+  } catch (err) {
+    logger.error('registerPushToken failed', { userId, err });
+    return false;
+  }
+}
+
+// Forget this device's token, e.g. on sign-out.
+export async function unregisterPushToken(token: string): Promise<void> {
+  try {
+    await NotificationRepository.removePushToken(token);
+  } catch (err) {
+    logger.warn('unregisterPushToken failed', err);
+  }
+}
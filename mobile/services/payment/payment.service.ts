@@ -1,64 +1,89 @@
 /*
  * services/payment/payment.service.ts
  *
- * Purpose: provide a small payment abstraction with a mock
- * implementation and a placeholder for a real payment provider
- * (for example Razorpay). The abstraction keeps payment code
- * decoupled from business logic and makes testing easy.
+ * Purpose: pay for a confirmed investment. Orders, capture and refunds
+ * run in server functions (server/payments.ts) against the configured
+ * gateway; this file hands the order to checkout and the checkout result
+ * back to the server. A payment only counts once the server has checked
+ * the gateway's signature.
+ *
+ * On the local backend and in MOCK mode the gateway is the fake one and
+ * checkout is simulated by the fake-payment-checkout function. This
+ * build has no native Razorpay Checkout, so a real gateway reports that
+ * it cannot be paid from here.
  */
 
-import { getApiMode, IS_MOCK } from '../../apiMode';
+import { supabase } from '../../supabaseClient';
 import { logger } from '../../utils/logger';
+import type {
+  CheckoutHandoff,
+  CreatePaymentOrderResult,
+  FakePaymentCheckoutResult,
+  PaymentResult
+} from '../../server/payments';
+import type { CheckoutResponse } from '../../server/paymentProviders';
+import type { PaymentStatus } from '../data/database.types';
+import type { InvestmentPayment } from '../data/payment.repository';
 
-// Result shape for initiating a payment.
-export type PaymentResult = {
-  success: boolean;
-  source: 'MOCK' | 'REAL';
-  paymentId?: string; // ID for the payment transaction when available
-  message?: string;
-};
+export type { CheckoutHandoff, PaymentResult };
 
-/*
- * initiatePayment(amount)
- * - `amount` is a number representing the amount in the application's
- *   currency units (choose your convention; e.g. rupees or cents).
- *
- * We keep this simple: in mock mode we always succeed and provide a
- * fake `paymentId`. In real mode we include a TODO to integrate with
- * an actual payment provider.
- */
-export async function initiatePayment(amount: number): Promise<PaymentResult> {
-  // Log intent to start a payment. This is useful for auditing
-  // when developing and debugging payment flows.
-  logger.info('initiatePayment called', { mode: getApiMode(), amount });
+// `response` null means the payer closed checkout or the payment failed.
+export type CheckoutOutcome = { success: true; response: CheckoutResponse | null } | { success: false; error: string };
 
-  // Basic validation: amount must be a positive number.
-  if (typeof amount !== 'number' || isNaN(amount) || amount <= 0) {
-    return { success: false, source: IS_MOCK ? 'MOCK' : 'REAL', message: 'Invalid amount' };
-  }
+const TRY_AGAIN = 'Could not process the payment. Please try again.';
 
-  // MOCK behaviour: generate a deterministic-ish fake payment id.
-  if (IS_MOCK) {
-    // Create a pseudo-random id using current time. This is fine for
-    // mock mode because ids are only used during development.
-    const paymentId = `mock_${Date.now()}`;
-    return { success: true, source: 'MOCK', paymentId, message: 'Mock payment successful' };
-  }
+// Payments that leave the investment unpaid; anything else is paid or
+// being paid.
+const UNPAID: PaymentStatus[] = ['created', 'failed', 'refunded'];
 
-  // REAL payment provider placeholder.
-  try {
-    // TODO: Integrate with Razorpay or another provider here.
-    // Typical steps:
-    // 1) Create an order with the provider API using server-side keys.
-    // 2) Return order id to the client to complete payment.
-    // 3) Verify webhook or provider callback for final confirmation.
+// Whether the investor can (still) pay for this investment.
+export function canPay({ investment, payment }: InvestmentPayment): boolean {
+  return investment.status === 'committed' && (!payment || UNPAID.includes(payment.status));
+}
 
-    throw new Error('REAL payment integration not implemented (placeholder)');
+async function invoke<T extends { success: boolean }>(name: string, body: object): Promise<T | { success: false; error: string }> {
+  try {
+    const { data, error } = await supabase.functions.invoke(name, { body });
+    if (error || !data) throw error ?? new Error('No response');
+    return data as T;
   } catch (err) {
-    logger.error('initiatePayment REAL mode failed', err);
+    logger.error(`${name} call failed`, { err });
+    return { success: false, error: TRY_AGAIN };
+  }
+}
 
-    // Fallback: do not pretend the payment succeeded. Payments are
-    // sensitive; failing closed is safer than failing open.
-    return { success: false, source: 'MOCK', message: 'Fallback: payment failed' };
+/*
+ * openCheckout(handoff, options)
+ * - Let the payer pay the order. `fail` makes the fake gateway decline,
+ *   for trying the failure path.
+ */
+export async function openCheckout(handoff: CheckoutHandoff, options: { fail?: boolean } = {}): Promise<CheckoutOutcome> {
+  if (handoff.provider === 'fake') {
+    return invoke<FakePaymentCheckoutResult>('fake-payment-checkout', { paymentId: handoff.paymentId, fail: options.fail });
   }
+  logger.warn('openCheckout: no checkout for provider', { provider: handoff.provider });
+  return { success: false, error: 'Payments cannot be completed in this version of the app.' };
+}
+
+/*
+ * payForInvestment(investmentId)
+ * - Create (or reuse) the investment's order, open checkout and verify
+ *   the result. The amount always comes from the investment on the
+ *   server.
+ */
+export async function payForInvestment(investmentId: string, options: { fail?: boolean } = {}): Promise<PaymentResult> {
+  const order = await invoke<CreatePaymentOrderResult>('create-payment-order', { investmentId });
+  if (order.success === false) return order;
+
+  const checkout = await openCheckout(order.handoff, options);
+  if (checkout.success === false) return checkout;
+  if (!checkout.response) return { success: false, error: 'The payment did not go through. You have not been charged.' };
+
+  return invoke<PaymentResult>('verify-payment', { paymentId: order.handoff.paymentId, response: checkout.response });
+}
+
+// Admins only. `amount` is in paise and defaults to everything not yet
+// refunded.
+export function refundPayment(paymentId: string, amount?: number): Promise<PaymentResult> {
+  return invoke<PaymentResult>('refund-payment', { paymentId, amount });
 }
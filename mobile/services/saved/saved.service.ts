@@ -0,0 +1,145 @@
+/*
+ * services/saved/saved.service.ts
+ *
+ * Purpose: saving startups, investors and campaigns for later, filing
+ * them in named shortlists and keeping private notes on them. Notes and
+ * lists are only ever visible to their owner (see db/saved_items.sql).
+ */
+
+import { SavedItemWithTarget, SavedRepository } from '../data/saved.repository';
+import { SavedItemType, ShortlistRow } from '../data/database.types';
+import { logger } from '../../utils/logger';
+
+export type SavedTarget = { type: SavedItemType; id: string };
+
+// Ids of everything the user has saved, by kind.
+export type SavedIds = Record<SavedItemType, Set<string>>;
+
+export type SavedResult = { success: true } | { success: false; error: string };
+
+export const SHORTLIST_NAME_MAX = 60;
+export const SAVED_NOTE_MAX = 1000;
+
+export function emptySavedIds(): SavedIds {
+  return { startup: new Set(), investor: new Set(), campaign: new Set() };
+}
+
+// Which kind of thing a saved item points at.
+export function savedItemType(item: Pick<SavedItemWithTarget, 'startup_id' | 'investor_id' | 'campaign_id'>): SavedItemType {
+  if (item.startup_id) return 'startup';
+  if (item.investor_id) return 'investor';
+  return 'campaign';
+}
+
+export async function loadSavedIds(ownerId: string): Promise<SavedIds> {
+  const ids = emptySavedIds();
+  for (const row of await SavedRepository.listTargets(ownerId)) {
+    ids[savedItemType(row)].add((row.startup_id || row.investor_id || row.campaign_id) as string);
+  }
+  return ids;
+}
+
+/*
+ * loadSaved
+ * - Saved items with their cards, and the user's shortlists. Items whose
+ *   target is no longer visible (a disabled profile, a campaign taken
+ *   down) are left out rather than shown as empty cards.
+ */
+export async function loadSaved(ownerId: string): Promise<{ items: SavedItemWithTarget[]; shortlists: ShortlistRow[] }> {
+  const [items, shortlists] = await Promise.all([
+    SavedRepository.listItems(ownerId),
+    SavedRepository.listShortlists(ownerId)
+  ]);
+  const visible = items.filter(item => item.startups || item.investors || item.fundraising_campaigns);
+  return { items: visible, shortlists };
+}
+
+/*
+ * setSaved
+ * - Save or unsave one target. Both directions are idempotent, so a
+ *   double tap cannot leave the list out of step.
+ */
+export async function setSaved(ownerId: string, target: SavedTarget, saved: boolean): Promise<SavedResult> {
+  try {
+    if (saved) await SavedRepository.save(ownerId, target.type, target.id);
+    else await SavedRepository.remove(ownerId, target.type, target.id);
+    return { success: true };
+  } catch (err) {
+    logger.error('setSaved failed', { target, saved, err });
+    return { success: false, error: saved ? 'Could not save. Please try again.' : 'Could not remove. Please try again.' };
+  }
+}
+
+export async function saveNote(itemId: string, note: string): Promise<SavedResult> {
+  const trimmed = note.trim();
+  if (trimmed.length > SAVED_NOTE_MAX) {
+    return { success: false, error: `Notes can be up to ${SAVED_NOTE_MAX} characters.` };
+  }
+  try {
+    await SavedRepository.update(itemId, { note: trimmed || null });
+    return { success: true };
+  } catch (err) {
+    logger.error('saveNote failed', { itemId, err });
+    return { success: false, error: 'Could not save the note. Please try again.' };
+  }
+}
+
+// File an item in a shortlist, or take it out of any list with null.
+export async function moveToShortlist(itemId: string, shortlistId: string | null): Promise<SavedResult> {
+  try {
+    await SavedRepository.update(itemId, { shortlist_id: shortlistId });
+    return { success: true };
+  } catch (err) {
+    logger.error('moveToShortlist failed', { itemId, shortlistId, err });
+    return { success: false, error: 'Could not move the item. Please try again.' };
+  }
+}
+
+// Returns a message for a name that cannot be used, or null.
+function shortlistNameProblem(name: string): string | null {
+  if (!name) return 'Give the list a name.';
+  if (name.length > SHORTLIST_NAME_MAX) return `List names can be up to ${SHORTLIST_NAME_MAX} characters.`;
+  return null;
+}
+
+export async function createShortlist(
+  ownerId: string,
+  name: string
+): Promise<{ success: true; shortlist: ShortlistRow } | { success: false; error: string }> {
+  const trimmed = name.trim();
+  const problem = shortlistNameProblem(trimmed);
+  if (problem) return { success: false, error: problem };
+
+  try {
+    return { success: true, shortlist: await SavedRepository.createShortlist(ownerId, trimmed) };
+  } catch (err: any) {
+    if (err?.code === '23505') return { success: false, error: `You already have a list called "${trimmed}".` };
+    logger.error('createShortlist failed', { err });
+    return { success: false, error: 'Could not create the list. Please try again.' };
+  }
+}
+
+export async function renameShortlist(id: string, name: string): Promise<SavedResult> {
+  const trimmed = name.trim();
+  const problem = shortlistNameProblem(trimmed);
+  if (problem) return { success: false, error: problem };
+
+  try {
+    await SavedRepository.renameShortlist(id, trimmed);
+    return { success: true };
+  } catch (err: any) {
+    if (err?.code === '23505') return { success: false, error: `You already have a list called "${trimmed}".` };
+    logger.error('renameShortlist failed', { id, err });
+    return { success: false, error: 'Could not rename the list. Please try again.' };
+  }
+}
+
+export async function deleteShortlist(id: string): Promise<SavedResult> {
+  try {
+    await SavedRepository.removeShortlist(id);
+    return { success: true };
+  } catch (err) {
+    logger.error('deleteShortlist failed', { id, err });
+    return { success: false, error: 'Could not delete the list. Please try again.' };
+  }
+}
@@ -0,0 +1,122 @@
+/*
+ * services/search/search.service.ts
+ *
+ * Purpose: search on the browse screens. `search` runs one page of a
+ * startup, investor or campaign search; `loadFacets` lists the values
+ * each facet can take for the current text, with how many results carry
+ * each, so the filter chips only offer choices that find something.
+ * Query building is in services/data/search.repository.ts and the
+ * facet, sort and query helpers in utils/search.util.ts.
+ */
+
+import { CampaignWithStartup } from '../data/campaign.repository';
+import { InvestorSummary } from '../data/investor.repository';
+import { SearchPage, SearchRepository, SearchRequest } from '../data/search.repository';
+import { StartupSummary } from '../data/startup.repository';
+import { VerificationStatus } from '../data/database.types';
+import {
+  CAMPAIGN_SORTS,
+  countFacet,
+  FacetCount,
+  INVESTOR_SORTS,
+  RAISED_BANDS,
+  SearchEntity,
+  SearchFacets,
+  SortOption,
+  splitList,
+  STARTUP_SORTS,
+  TICKET_RANGES,
+  VERIFICATION_LABELS
+} from '../../utils/search.util';
+
+export type SearchResultRow = {
+  startups: StartupSummary;
+  investors: InvestorSummary;
+  campaigns: CampaignWithStartup;
+};
+
+export const SORT_OPTIONS: Record<SearchEntity, SortOption[]> = {
+  startups: STARTUP_SORTS,
+  investors: INVESTOR_SORTS,
+  campaigns: CAMPAIGN_SORTS
+};
+
+// One facet as the filter panel shows it.
+export type FacetChoice = { value: string; label: string; count: number | null };
+export type Facet = { key: keyof SearchFacets; label: string; choices: FacetChoice[] };
+
+// Free-text facets show at most this many of their commonest values.
+const MAX_CHOICES = 12;
+
+export function search<E extends SearchEntity>(entity: E, request: SearchRequest): Promise<SearchPage<SearchResultRow[E]>> {
+  if (entity === 'startups') return SearchRepository.startups(request) as Promise<SearchPage<SearchResultRow[E]>>;
+  if (entity === 'investors') return SearchRepository.investors(request) as Promise<SearchPage<SearchResultRow[E]>>;
+  return SearchRepository.campaigns(request) as Promise<SearchPage<SearchResultRow[E]>>;
+}
+
+function counted(counts: FacetCount[]): FacetChoice[] {
+  return counts.slice(0, MAX_CHOICES).map(c => ({ value: c.value, label: c.value, count: c.count }));
+}
+
+function verificationChoices(counts: FacetCount[]): FacetChoice[] {
+  return counts.map(c => ({
+    value: c.value,
+    label: VERIFICATION_LABELS[c.value as VerificationStatus] ?? c.value,
+    count: c.count
+  }));
+}
+
+// Amount bands are fixed, so they have no counts.
+const ticketFacet: Facet = {
+  key: 'ticket',
+  label: 'Ticket size',
+  choices: TICKET_RANGES.map(r => ({ value: r.key, label: r.label, count: null }))
+};
+
+/*
+ * loadFacets
+ * - Facets for `entity`, counted over everything matching `text` (other
+ *   facets are not applied, so choosing one never hides the rest).
+ * - Facets with nothing to choose from are left out.
+ */
+export async function loadFacets(entity: SearchEntity, text: string): Promise<Facet[]> {
+  let facets: Facet[];
+
+  if (entity === 'startups') {
+    const rows = await SearchRepository.startupFacetRows(text);
+    facets = [
+      { key: 'industry', label: 'Industry', choices: counted(countFacet(rows, r => splitList(r.industry))) },
+      { key: 'stage', label: 'Stage', choices: counted(countFacet(rows, r => [r.funding_stage])) },
+      { key: 'location', label: 'Location', choices: counted(countFacet(rows, r => [r.location])) },
+      { key: 'verification', label: 'Verification', choices: verificationChoices(countFacet(rows, r => [r.verification_status])) }
+    ];
+  } else if (entity === 'investors') {
+    const rows = await SearchRepository.investorFacetRows(text);
+    facets = [
+      { key: 'industry', label: 'Industry', choices: counted(countFacet(rows, r => splitList(r.interested_industries))) },
+      { key: 'investorType', label: 'Investor type', choices: counted(countFacet(rows, r => [r.investor_type])) },
+      { key: 'location', label: 'Location', choices: counted(countFacet(rows, r => [r.location])) },
+      ticketFacet
+    ];
+  } else {
+    const rows = await SearchRepository.campaignFacetRows(text);
+    facets = [
+      { key: 'industry', label: 'Industry', choices: counted(countFacet(rows, r => splitList(r.startups?.industry))) },
+      { key: 'stage', label: 'Stage', choices: counted(countFacet(rows, r => [r.startups?.funding_stage])) },
+      { key: 'location', label: 'Location', choices: counted(countFacet(rows, r => [r.startups?.location])) },
+      ticketFacet,
+      {
+        key: 'raised',
+        label: 'Raised',
+        choices: RAISED_BANDS.map(b => ({ value: b.key, label: b.label, count: null }))
+      },
+      {
+        key: 'verification',
+        label: 'Verification',
+        choices: verificationChoices(countFacet(rows, r => [r.startups?.verification_status]))
+      }
+    ];
+  }
+
+  return facets.filter(f => f.choices.length > 0);
+}
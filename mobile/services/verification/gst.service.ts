@@ -1,67 +1,54 @@
 /*
  * services/verification/gst.service.ts
  *
- * Purpose: provide `verifyGST` which validates a GST number format
- * and returns a mock success in development. Real API integration is
- * intentionally left as a placeholder.
+ * Purpose: GSTIN checks for the startup profile, in two steps:
+ *
+ * - `validateGst` checks the number on the device: state code, embedded
+ *   PAN, entity code, the 'Z' position and the check character, and that
+ *   the embedded PAN matches the profile's PAN,
+ * - `verifyGST` looks a valid number up on the GST register through the
+ *   lookup-gstin server function (server/lookupGstin.ts) and returns the
+ *   legal name and status.
+ *
+ * On the local backend and in MOCK mode the stub provider answers and
+ * only knows a few sample GSTINs (server/gstProviders.ts); with a hosted
+ * backend and no provider configured, lookups report themselves
+ * unavailable.
  */
 
-import { getApiMode, IS_MOCK } from '../../apiMode';
+import { supabase } from '../../supabaseClient';
+import { checkGstin, gstinPanMismatch } from '../../utils/gst.util';
 import { logger } from '../../utils/logger';
+import type { LookupGstinResult } from '../../server/lookupGstin';
 
-// Result type for GST verification.
-export type GstResult = {
-  success: boolean;
-  source: 'MOCK' | 'REAL';
-  message?: string;
+export type GstValidation = {
+  // What to fix, or null when the number can be saved.
+  error: string | null;
+  // Where the number is registered, once it is valid.
+  stateName: string | null;
 };
 
 /*
- * verifyGST(gstNumber)
- * - Simple GST format validation rules:
- *   - GSTIN is 15 characters long.
- *   - The first two characters are digits (state code).
- *   - The rest are alphanumeric.
- * Note: Real GST validation can be stricter; this is a basic check.
+ * validateGst(gstNumber, panNumber)
+ * - An empty GSTIN is allowed; not every startup is registered.
  */
-export async function verifyGST(gstNumber: string): Promise<GstResult> {
-  // Log that verification was requested and the running mode.
-  logger.info('verifyGST called', { mode: getApiMode() });
-
-  // Trim whitespace that users sometimes paste accidentally.
-  const candidate = gstNumber.trim();
-
-  // Basic length check: GST numbers must be 15 characters.
-  if (candidate.length !== 15) {
-    // If length is wrong, we can fail fast before any network call.
-    return { success: false, source: IS_MOCK ? 'MOCK' : 'REAL', message: 'GST must be 15 characters' };
-  }
-
-  // Simple regex: first two characters digits, then 13 alphanumeric.
-  // We use case-insensitive (`i`) so lower/upper case both work.
-  const gstRegex = /^[0-9]{2}[A-Z0-9]{13}$/i;
+export function validateGst(gstNumber: string, panNumber?: string | null): GstValidation {
+  if (!gstNumber.trim()) return { error: null, stateName: null };
+  const check = checkGstin(gstNumber);
+  if (check.valid === false) return { error: check.error, stateName: null };
+  return { error: gstinPanMismatch(check.gstin, panNumber), stateName: check.stateName };
+}
 
-  if (!gstRegex.test(candidate)) {
-    // If regex fails, the format is invalid.
-    return { success: false, source: IS_MOCK ? 'MOCK' : 'REAL', message: 'GST format invalid' };
-  }
+export async function verifyGST(gstNumber: string): Promise<LookupGstinResult> {
+  const check = checkGstin(gstNumber);
+  if (check.valid === false) return { success: false, error: check.error };
 
-  // In MOCK mode we quickly return success for valid-looking inputs.
-  if (IS_MOCK) {
-    return { success: true, source: 'MOCK', message: 'Mock GST verification successful' };
-  }
-
-  // REAL mode placeholder: do not call a live GST validation API here.
   try {
-    // TODO: Add network call to a GST verification service.
-    // Example: fetch(`https://gst-api.example/verify?gst=${candidate}`)
-    throw new Error('REAL GST verification not implemented (placeholder)');
+    const { data, error } = await supabase.functions.invoke('lookup-gstin', { body: { gstin: check.gstin } });
+    if (error || !data) throw error ?? new Error('No response');
+    return data as LookupGstinResult;
   } catch (err) {
-    // On error, we log and fall back to a conservative failure.
-    logger.error('verifyGST REAL mode failed', err);
-
-    // Fallback: we choose to return failure rather than pretending success,
-    // because financial or compliance checks should not silently pass.
-    return { success: false, source: 'MOCK', message: 'Fallback: verification failed' };
+    logger.error('verifyGST failed', { gstin: check.gstin, err });
+    return { success: false, error: 'Could not reach the GST register. Please try again.' };
   }
 }
@@ -0,0 +1,36 @@
+/*
+ * services/verification/kyc.service.ts
+ *
+ * Purpose: load and refresh KYC records. The record is rebuilt by the
+ * refresh-kyc server function (server/kyc.ts) so it reflects the latest
+ * Aadhaar, identifier and review results; utils/kyc.util.ts turns it into
+ * a level and the steps left to do.
+ */
+
+import { supabase } from '../../supabaseClient';
+import { logger } from '../../utils/logger';
+import type { RefreshKycResult } from '../../server/kyc';
+
+const TRY_AGAIN = 'Could not load verification status. Please try again.';
+
+async function invokeRefresh(body: { userId?: string }): Promise<RefreshKycResult> {
+  try {
+    const { data, error } = await supabase.functions.invoke('refresh-kyc', { body });
+    if (error || !data) throw error ?? new Error('No response');
+    return data as RefreshKycResult;
+  } catch (err) {
+    logger.error('refresh-kyc call failed', { userId: body.userId, err });
+    return { success: false, error: TRY_AGAIN };
+  }
+}
+
+// The signed-in user's record, brought up to date.
+export function loadMyKyc(): Promise<RefreshKycResult> {
+  return invokeRefresh({});
+}
+
+// Admins only: bring another user's record up to date, e.g. after
+// reviewing their profile.
+export function refreshKycFor(userId: string): Promise<RefreshKycResult> {
+  return invokeRefresh({ userId });
+}
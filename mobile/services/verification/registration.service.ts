@@ -0,0 +1,38 @@
+/*
+ * services/verification/registration.service.ts
+ *
+ * Purpose: PAN and CIN/LLPIN checks for the startup profile:
+ *
+ * - `validateStartupIdentifiers` runs the checks on the device so the
+ *   form can show an error next to each field,
+ * - `recordIdentifierChecks` asks the check-startup-identifiers server
+ *   function (server/checkStartupIdentifiers.ts) to run them again on the
+ *   saved profile and record the results for admins.
+ */
+
+import { supabase } from '../../supabaseClient';
+import type { StartupIdentifierChecks } from '../data/database.types';
+import { checkStartupIdentifiers, StartupIdentifiers } from '../../utils/registration.util';
+import { logger } from '../../utils/logger';
+import type { CheckStartupIdentifiersResult } from '../../server/checkStartupIdentifiers';
+
+export function validateStartupIdentifiers(startup: StartupIdentifiers): StartupIdentifierChecks {
+  return checkStartupIdentifiers(startup);
+}
+
+// The first failed check's message, or null when none failed.
+export function firstIdentifierError(checks: StartupIdentifierChecks): string | null {
+  const failed = [checks.pan, checks.registration, checks.gstin].find(check => check.status === 'failed');
+  return failed?.error ?? null;
+}
+
+export async function recordIdentifierChecks(): Promise<CheckStartupIdentifiersResult> {
+  try {
+    const { data, error } = await supabase.functions.invoke('check-startup-identifiers', { body: {} });
+    if (error || !data) throw error ?? new Error('No response');
+    return data as CheckStartupIdentifiersResult;
+  } catch (err) {
+    logger.error('recordIdentifierChecks failed', err);
+    return { success: false, error: 'Could not check your identifiers. Please try again.' };
+  }
+}
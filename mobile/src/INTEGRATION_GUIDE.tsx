@@ -167,18 +167,13 @@ EXPLANATION OF THE CODE ABOVE
 WHAT EACH FILE DOES
 ═══════════════════════════════════════════════════════════════
 
-📁 data/mockStartups.ts
-   → Array of fake startup profiles
-   → Used by investors in Explore screen
-
-📁 data/mockInvestors.ts  
-   → Array of fake investor profiles
-   → Used by startups in Explore screen
-
-📁 data/mockCampaigns.ts
-   → Array of fake fundraising campaigns
-   → Used by investors in Feed (swipe cards)
-   → Used by startups in Feed (analytics)
+📁 services/data/*.repository.ts
+   → Load startups, investors and campaigns
+   → Explore and Feed call these instead of hardcoded arrays
+
+📁 services/local/fixturePacks.ts
+   → Fixture data used when the app runs in MOCK mode
+   → Switch modes from Settings → Developer (dev builds)
 
 📁 screens/Dashboard.tsx
    → Main container with bottom tabs
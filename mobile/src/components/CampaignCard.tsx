@@ -0,0 +1,164 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { CampaignWithStartup } from '../../services/data/campaign.repository';
+import SaveButton from './SaveButton';
+
+type Props = {
+  campaign: CampaignWithStartup;
+  onPress: () => void;
+  // Why the campaign is recommended, e.g. "ticket fits · Seed stage fits".
+  reasons?: string;
+  saved?: boolean;
+  onToggleSave?: () => void;
+  // Actions under the progress bar (Express Interest).
+  children?: React.ReactNode;
+};
+
+const getProgressPercentage = (raised: number, goal: number) => {
+  return Math.min((raised / goal) * 100, 100);
+};
+
+// CampaignCard is the fundraising campaign card used on the investor home
+// screen and in saved lists.
+export default function CampaignCard({ campaign, onPress, reasons, saved, onToggleSave, children }: Props) {
+  return (
+    <TouchableOpacity style={styles.campaignCard} onPress={onPress}>
+      <View style={styles.campaignHeader}>
+        <View style={styles.campaignHeaderLeft}>
+          <Text style={styles.companyName}>{campaign.startups?.company_name}</Text>
+          <Text style={styles.industry}>{campaign.startups?.industry}</Text>
+        </View>
+        <View style={styles.campaignTypeBadge}>
+          <Text style={styles.campaignTypeText}>{campaign.campaign_type}</Text>
+        </View>
+        {onToggleSave && <SaveButton saved={!!saved} onPress={onToggleSave} />}
+      </View>
+
+      <Text style={styles.campaignTitle}>{campaign.title}</Text>
+      {reasons ? <Text style={styles.reasonText}>✨ {reasons}</Text> : null}
+      <Text style={styles.campaignDescription} numberOfLines={3}>
+        {campaign.description}
+      </Text>
+
+      <View style={styles.campaignStats}>
+        <View style={styles.statColumn}>
+          <Text style={styles.statLabel}>Goal</Text>
+          <Text style={styles.statValue}>₹{campaign.funding_goal.toLocaleString()}</Text>
+        </View>
+        <View style={styles.statColumn}>
+          <Text style={styles.statLabel}>Raised</Text>
+          <Text style={styles.statValue}>₹{(campaign.funding_raised || 0).toLocaleString()}</Text>
+        </View>
+        <View style={styles.statColumn}>
+          <Text style={styles.statLabel}>Min Investment</Text>
+          <Text style={styles.statValue}>₹{(campaign.min_investment || 0).toLocaleString()}</Text>
+        </View>
+      </View>
+
+      <View style={styles.progressBarContainer}>
+        <View
+          style={[
+            styles.progressBar,
+            { width: `${getProgressPercentage(campaign.funding_raised || 0, campaign.funding_goal)}%` }
+          ]}
+        />
+      </View>
+
+      {children}
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  campaignCard: {
+    backgroundColor: '#fff',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  campaignHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: 8,
+  },
+  campaignHeaderLeft: {
+    flex: 1,
+  },
+  companyName: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  industry: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  campaignTypeBadge: {
+    backgroundColor: '#007bff',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  campaignTypeText: {
+    fontSize: 10,
+    color: '#fff',
+    fontWeight: '700',
+  },
+  campaignTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  reasonText: {
+    fontSize: 13,
+    color: '#6f42c1',
+    marginBottom: 8,
+  },
+  campaignDescription: {
+    fontSize: 14,
+    color: '#666',
+    lineHeight: 20,
+    marginBottom: 12,
+  },
+  campaignStats: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  statColumn: {
+    flex: 1,
+  },
+  statLabel: {
+    fontSize: 11,
+    color: '#999',
+    marginBottom: 4,
+  },
+  statValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  progressBarContainer: {
+    height: 8,
+    backgroundColor: '#e0e0e0',
+    borderRadius: 4,
+    overflow: 'hidden',
+    marginBottom: 12,
+  },
+  progressBar: {
+    height: '100%',
+    backgroundColor: '#28a745',
+    borderRadius: 4,
+  },
+});
@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Alert } from 'react-native';
+import { CampaignUpdateRow } from '../../services/data/database.types';
+import { deleteUpdate, loadUpdates, UPDATE_TYPE_LABELS } from '../../services/campaign/updates.service';
+
+type Props = {
+  campaignId: string;
+  // The owner and interested investors also see private updates.
+  canSeePrivate: boolean;
+  // Only the owner may delete.
+  canManage: boolean;
+};
+
+// CampaignUpdatesTimeline lists a campaign's updates, newest first.
+export default function CampaignUpdatesTimeline({ campaignId, canSeePrivate, canManage }: Props) {
+  const [updates, setUpdates] = useState<CampaignUpdateRow[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    load();
+  }, [campaignId, canSeePrivate]);
+
+  const load = async () => {
+    try {
+      setUpdates(await loadUpdates(campaignId, canSeePrivate));
+    } catch (error) {
+      console.error('Error loading campaign updates:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = (update: CampaignUpdateRow) => {
+    Alert.alert('Delete update?', `"${update.title}" will be removed from the campaign.`, [
+      { text: 'Back', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          if (await deleteUpdate(update)) {
+            setUpdates(prev => prev.filter(u => u.id !== update.id));
+          } else {
+            Alert.alert('Error', 'Failed to delete the update');
+          }
+        }
+      }
+    ]);
+  };
+
+  if (loading) return <Text style={styles.emptyText}>Loading updates...</Text>;
+  if (updates.length === 0) return <Text style={styles.emptyText}>No updates yet.</Text>;
+
+  return (
+    <View>
+      {updates.map(update => (
+        <View key={update.id} style={styles.item}>
+          <View style={styles.marker} />
+          <View style={styles.body}>
+            <View style={styles.header}>
+              <Text style={styles.type}>{UPDATE_TYPE_LABELS[update.update_type || 'general']}</Text>
+              {update.is_public === false && <Text style={styles.private}>🔒 Investors only</Text>}
+            </View>
+            <Text style={styles.title}>{update.title}</Text>
+            <Text style={styles.content}>{update.content}</Text>
+            <View style={styles.footer}>
+              <Text style={styles.date}>{update.created_at ? new Date(update.created_at).toLocaleDateString() : ''}</Text>
+              {canManage && (
+                <TouchableOpacity onPress={() => handleDelete(update)}>
+                  <Text style={styles.delete}>Delete</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+  },
+  item: {
+    flexDirection: 'row',
+    marginBottom: 16,
+  },
+  marker: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: '#007bff',
+    marginTop: 4,
+    marginRight: 12,
+  },
+  body: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 2,
+  },
+  type: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#007bff',
+    textTransform: 'uppercase',
+  },
+  private: {
+    fontSize: 12,
+    color: '#856404',
+    marginLeft: 8,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 4,
+  },
+  content: {
+    fontSize: 14,
+    color: '#555',
+    lineHeight: 20,
+  },
+  footer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 6,
+  },
+  date: {
+    fontSize: 12,
+    color: '#999',
+  },
+  delete: {
+    fontSize: 12,
+    color: '#dc3545',
+  },
+});
@@ -0,0 +1,204 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Alert } from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { useAuth } from '../context/AuthContext';
+import {
+  Conversation,
+  loadConversations,
+  MessageSide,
+  otherPartyName,
+  watchMessages
+} from '../../services/message/message.service';
+
+type Props = {
+  // Which side of the conversations is looking.
+  side: MessageSide;
+  // The viewer's startup or investor id; null until their profile exists.
+  ownId: string | null;
+  // Called after the list reloads, so the tab badge can follow.
+  onChange?: () => void;
+};
+
+// ConversationList shows one row per campaign interest the viewer is part
+// of, with the latest message and an unread count. Rows open the
+// conversation.
+export default function ConversationList({ side, ownId, onChange }: Props) {
+  const navigation = useNavigation();
+  const { user } = useAuth();
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const load = async () => {
+    if (!ownId || !user?.id) {
+      setLoading(false);
+      return;
+    }
+    try {
+      setConversations(await loadConversations(side, ownId, user.id));
+      onChange?.();
+    } catch (error) {
+      console.error('Error loading conversations:', error);
+      Alert.alert('Error', 'Failed to load messages');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+    const stopWatching = watchMessages(null, load);
+    // Coming back from a conversation clears its unread count.
+    const unsubscribe = navigation.addListener('focus', load);
+    return () => {
+      stopWatching();
+      unsubscribe();
+    };
+  }, [side, ownId, user?.id]);
+
+  const preview = (conversation: Conversation) => {
+    const message = conversation.lastMessage;
+    if (!message) return 'No messages yet';
+    const prefix = message.sender_id === user?.id ? 'You: ' : '';
+    return prefix + (message.body || '📎 Shared a document');
+  };
+
+  if (!ownId) {
+    return (
+      <View style={styles.emptyState}>
+        <Text style={styles.emptyTitle}>Complete your profile</Text>
+        <Text style={styles.emptyText}>Messages appear here once your profile is set up.</Text>
+      </View>
+    );
+  }
+
+  if (loading) {
+    return <Text style={styles.loadingText}>Loading messages...</Text>;
+  }
+
+  if (conversations.length === 0) {
+    return (
+      <View style={styles.emptyState}>
+        <Text style={styles.emptyTitle}>No conversations yet</Text>
+        <Text style={styles.emptyText}>
+          {side === 'startup'
+            ? 'When an investor expresses interest in one of your campaigns, you can message them here.'
+            : 'Express interest in a campaign to start a conversation with the startup.'}
+        </Text>
+      </View>
+    );
+  }
+
+  return (
+    <View>
+      {conversations.map(conversation => {
+        const { interest, lastMessage, unread } = conversation;
+        return (
+          <TouchableOpacity
+            key={interest.id}
+            style={styles.row}
+            onPress={() => (navigation as any).navigate('Conversation', { interestId: interest.id })}
+          >
+            <View style={styles.rowText}>
+              <Text style={[styles.name, unread > 0 && styles.unreadName]}>{otherPartyName(interest, side)}</Text>
+              <Text style={styles.campaign} numberOfLines={1}>
+                {interest.fundraising_campaigns?.title || 'Campaign'}
+              </Text>
+              <Text style={[styles.preview, unread > 0 && styles.unreadPreview]} numberOfLines={1}>
+                {preview(conversation)}
+              </Text>
+            </View>
+            <View style={styles.rowSide}>
+              {lastMessage && (
+                <Text style={styles.time}>{new Date(lastMessage.created_at).toLocaleDateString()}</Text>
+              )}
+              {unread > 0 && (
+                <View style={styles.badge}>
+                  <Text style={styles.badgeText}>{unread}</Text>
+                </View>
+              )}
+            </View>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  loadingText: {
+    textAlign: 'center',
+    color: '#666',
+    marginTop: 20,
+  },
+  emptyState: {
+    padding: 24,
+    alignItems: 'center',
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+  },
+  row: {
+    flexDirection: 'row',
+    backgroundColor: '#fff',
+    padding: 14,
+    borderRadius: 12,
+    marginBottom: 10,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  rowText: {
+    flex: 1,
+    marginRight: 8,
+  },
+  name: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  unreadName: {
+    fontWeight: 'bold',
+  },
+  campaign: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 2,
+  },
+  preview: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 6,
+  },
+  unreadPreview: {
+    color: '#333',
+    fontWeight: '600',
+  },
+  rowSide: {
+    alignItems: 'flex-end',
+    justifyContent: 'space-between',
+  },
+  time: {
+    fontSize: 12,
+    color: '#999',
+  },
+  badge: {
+    backgroundColor: '#007bff',
+    borderRadius: 10,
+    minWidth: 20,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    alignItems: 'center',
+  },
+  badgeText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+});
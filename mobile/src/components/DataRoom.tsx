@@ -0,0 +1,123 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Alert, Linking } from 'react-native';
+import { CampaignDocumentRow, DocumentAccessAction } from '../../services/data/database.types';
+import { loadDocuments, openDocument } from '../../services/campaign/dataRoom.service';
+import { dataRoomAccess, DocumentViewer, DOCUMENT_TYPE_LABELS, formatFileSize } from '../../utils/document.util';
+
+type Props = {
+  campaignId: string;
+  viewer: DocumentViewer;
+};
+
+// DataRoom lists the campaign documents the viewer may open. Each open
+// asks the server for a fresh, short-lived link and is logged for the
+// startup.
+export default function DataRoom({ campaignId, viewer }: Props) {
+  const [documents, setDocuments] = useState<CampaignDocumentRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [opening, setOpening] = useState<string | null>(null);
+
+  useEffect(() => {
+    load();
+  }, [campaignId, viewer.isOwner, viewer.isAdmin, viewer.interestStatus]);
+
+  const load = async () => {
+    try {
+      setDocuments(await loadDocuments(campaignId, viewer));
+    } catch (error) {
+      console.error('Error loading documents:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleOpen = async (document: CampaignDocumentRow, action: DocumentAccessAction) => {
+    setOpening(document.id);
+    const result = await openDocument(document.id, action);
+    setOpening(null);
+    if (result.success === false) {
+      Alert.alert('Cannot open document', result.error);
+      return;
+    }
+    Linking.openURL(result.url).catch(() => Alert.alert('Error', 'Unable to open document'));
+  };
+
+  if (loading) return <Text style={styles.hint}>Loading documents...</Text>;
+
+  const limited = dataRoomAccess(viewer) === 'public';
+
+  return (
+    <View>
+      {documents.length === 0 && <Text style={styles.hint}>No documents shared yet.</Text>}
+      {documents.map(document => (
+        <View key={document.id} style={styles.row}>
+          <View style={styles.rowText}>
+            <Text style={styles.fileName}>📄 {document.file_name}</Text>
+            <Text style={styles.meta}>
+              {DOCUMENT_TYPE_LABELS[document.document_type]}
+              {document.version > 1 ? ` · v${document.version}` : ''}
+              {document.file_size ? ` · ${formatFileSize(document.file_size)}` : ''}
+            </Text>
+          </View>
+          {opening === document.id ? (
+            <Text style={styles.meta}>Opening...</Text>
+          ) : (
+            <>
+              <TouchableOpacity onPress={() => handleOpen(document, 'view')}>
+                <Text style={styles.link}>View</Text>
+              </TouchableOpacity>
+              {document.storage_path && (
+                <TouchableOpacity onPress={() => handleOpen(document, 'download')}>
+                  <Text style={[styles.link, styles.linkSpaced]}>Download</Text>
+                </TouchableOpacity>
+              )}
+            </>
+          )}
+        </View>
+      ))}
+      {limited && (
+        <Text style={styles.hint}>More documents are shared once the startup has been in touch with you.</Text>
+      )}
+      {!viewer.isOwner && documents.some(d => d.storage_path) && (
+        <Text style={styles.hint}>Links expire after 10 minutes. PDFs are stamped with your name and email.</Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  rowText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  fileName: {
+    fontSize: 15,
+    color: '#333',
+    fontWeight: '500',
+  },
+  meta: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  link: {
+    fontSize: 14,
+    color: '#007bff',
+    fontWeight: '600',
+  },
+  linkSpaced: {
+    marginLeft: 16,
+  },
+  hint: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,309 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, Switch, StyleSheet, Alert, Linking } from 'react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import { CampaignDocumentRow, CampaignDocumentType, DocumentAccessLogRow } from '../../services/data/database.types';
+import {
+  deleteDocument,
+  DocumentFile,
+  loadAccessLog,
+  loadAllVersions,
+  openDocument,
+  uploadDocument
+} from '../../services/campaign/dataRoom.service';
+import { DOCUMENT_TYPE_LABELS, formatFileSize, versionHistory } from '../../utils/document.util';
+
+type Props = {
+  campaignId: string;
+  userId: string;
+};
+
+// A picked file waiting for its type and visibility before upload.
+type PendingUpload = {
+  file: DocumentFile;
+  documentType: CampaignDocumentType;
+  isPublic: boolean;
+  replaces: CampaignDocumentRow | null;
+};
+
+// DataRoomManager is the startup's side of a campaign's data room, shown
+// when editing the campaign: upload files, replace them with new
+// versions, see who opened each one and remove them.
+export default function DataRoomManager({ campaignId, userId }: Props) {
+  const [documents, setDocuments] = useState<CampaignDocumentRow[]>([]);
+  const [log, setLog] = useState<DocumentAccessLogRow[]>([]);
+  const [pending, setPending] = useState<PendingUpload | null>(null);
+  const [expanded, setExpanded] = useState<{ id: string; view: 'versions' | 'log' } | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    load();
+  }, [campaignId]);
+
+  const load = async () => {
+    try {
+      const all = await loadAllVersions(campaignId);
+      setDocuments(all);
+      setLog(await loadAccessLog(all));
+    } catch (error) {
+      console.error('Error loading data room:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const pickFile = async (replaces: CampaignDocumentRow | null) => {
+    const result = await DocumentPicker.getDocumentAsync({ copyToCacheDirectory: true, multiple: false });
+    if (result.canceled || !result.assets?.[0]) return;
+    const asset = result.assets[0];
+    setPending({
+      file: { uri: asset.uri, name: asset.name, size: asset.size, mimeType: asset.mimeType },
+      documentType: replaces?.document_type || 'other',
+      isPublic: !!replaces?.is_public,
+      replaces
+    });
+  };
+
+  const handleUpload = async () => {
+    if (!pending) return;
+    setUploading(true);
+    const result = await uploadDocument(campaignId, pending.file, {
+      documentType: pending.documentType,
+      isPublic: pending.isPublic,
+      uploadedBy: userId,
+      replaces: pending.replaces
+    });
+    setUploading(false);
+    if (result.success === false) {
+      Alert.alert('Upload failed', result.error);
+      return;
+    }
+    setPending(null);
+    await load();
+  };
+
+  const handleOpen = async (document: CampaignDocumentRow) => {
+    const result = await openDocument(document.id, 'view');
+    if (result.success === false) {
+      Alert.alert('Cannot open document', result.error);
+      return;
+    }
+    Linking.openURL(result.url).catch(() => Alert.alert('Error', 'Unable to open document'));
+    setLog(await loadAccessLog(documents));
+  };
+
+  const handleDelete = (document: CampaignDocumentRow) => {
+    Alert.alert('Remove document?', `"${document.file_name}" and its earlier versions will be removed from the data room.`, [
+      { text: 'Back', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          if (await deleteDocument(document, documents)) {
+            await load();
+          } else {
+            Alert.alert('Error', 'Failed to remove the document');
+          }
+        }
+      }
+    ]);
+  };
+
+  const toggle = (id: string, view: 'versions' | 'log') =>
+    setExpanded(current => (current?.id === id && current.view === view ? null : { id, view }));
+
+  const current = documents.filter(d => !d.superseded_at);
+
+  if (loading) return <Text style={styles.hint}>Loading documents...</Text>;
+
+  return (
+    <View>
+      <Text style={styles.hint}>
+        Public documents are open to everyone viewing the campaign; the rest only to investors you have contacted.
+        Investors get links that expire after a few minutes, and PDFs are stamped with their name and email.
+      </Text>
+
+      {current.map(document => {
+        const versions = versionHistory(document, documents);
+        const entries = log.filter(entry => versions.some(v => v.id === entry.document_id));
+        return (
+          <View key={document.id} style={styles.card}>
+            <TouchableOpacity onPress={() => handleOpen(document)}>
+              <Text style={styles.fileName}>📄 {document.file_name}</Text>
+            </TouchableOpacity>
+            <Text style={styles.meta}>
+              {DOCUMENT_TYPE_LABELS[document.document_type]} · v{document.version}
+              {document.file_size ? ` · ${formatFileSize(document.file_size)}` : ''} ·{' '}
+              {document.is_public ? 'Public' : 'Investors in touch'}
+            </Text>
+            <View style={styles.actions}>
+              {document.storage_path && (
+                <TouchableOpacity onPress={() => pickFile(document)}>
+                  <Text style={styles.link}>Replace</Text>
+                </TouchableOpacity>
+              )}
+              {versions.length > 1 && (
+                <TouchableOpacity onPress={() => toggle(document.id, 'versions')}>
+                  <Text style={styles.link}>Versions ({versions.length})</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity onPress={() => toggle(document.id, 'log')}>
+                <Text style={styles.link}>Opened ({entries.length})</Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => handleDelete(document)}>
+                <Text style={[styles.link, styles.danger]}>Remove</Text>
+              </TouchableOpacity>
+            </View>
+
+            {expanded?.id === document.id && expanded.view === 'versions' &&
+              versions.map(version => (
+                <TouchableOpacity key={version.id} onPress={() => handleOpen(version)}>
+                  <Text style={styles.entry}>
+                    v{version.version} · {version.file_name} ·{' '}
+                    {version.created_at ? new Date(version.created_at).toLocaleDateString() : ''}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+
+            {expanded?.id === document.id && expanded.view === 'log' &&
+              (entries.length === 0 ? (
+                <Text style={styles.entry}>No one has opened this yet.</Text>
+              ) : (
+                entries.map(entry => (
+                  <Text key={entry.id} style={styles.entry}>
+                    {entry.viewer_label} · {entry.action === 'download' ? 'downloaded' : 'viewed'}
+                    {entry.watermarked ? ' (watermarked)' : ''} · {new Date(entry.created_at).toLocaleString()}
+                  </Text>
+                ))
+              ))}
+          </View>
+        );
+      })}
+
+      {pending ? (
+        <View style={styles.card}>
+          <Text style={styles.fileName}>
+            {pending.replaces ? `New version of ${pending.replaces.file_name}` : 'New document'}: {pending.file.name}
+          </Text>
+          <View style={styles.chips}>
+            {(Object.keys(DOCUMENT_TYPE_LABELS) as CampaignDocumentType[]).map(type => (
+              <TouchableOpacity
+                key={type}
+                style={[styles.chip, pending.documentType === type && styles.chipSelected]}
+                onPress={() => setPending({ ...pending, documentType: type })}
+              >
+                <Text style={[styles.chipText, pending.documentType === type && styles.chipTextSelected]}>
+                  {DOCUMENT_TYPE_LABELS[type]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <View style={styles.switchRow}>
+            <Text style={styles.meta}>Public</Text>
+            <Switch value={pending.isPublic} onValueChange={isPublic => setPending({ ...pending, isPublic })} />
+          </View>
+          <View style={styles.actions}>
+            <TouchableOpacity onPress={() => setPending(null)}>
+              <Text style={styles.link}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={handleUpload} disabled={uploading}>
+              <Text style={styles.link}>{uploading ? 'Uploading...' : 'Upload'}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      ) : (
+        <TouchableOpacity style={styles.uploadButton} onPress={() => pickFile(null)}>
+          <Text style={styles.uploadButtonText}>+ Upload Document</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  hint: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 12,
+  },
+  card: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 6,
+    padding: 12,
+    marginBottom: 10,
+  },
+  fileName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  meta: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 4,
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 16,
+    marginTop: 8,
+  },
+  link: {
+    fontSize: 14,
+    color: '#007bff',
+    fontWeight: '600',
+  },
+  danger: {
+    color: '#dc3545',
+  },
+  entry: {
+    fontSize: 12,
+    color: '#555',
+    marginTop: 6,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 10,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+  },
+  chipSelected: {
+    backgroundColor: '#007bff',
+    borderColor: '#007bff',
+  },
+  chipText: {
+    fontSize: 12,
+    color: '#666',
+  },
+  chipTextSelected: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 8,
+  },
+  uploadButton: {
+    borderWidth: 1,
+    borderColor: '#007bff',
+    borderStyle: 'dashed',
+    borderRadius: 6,
+    padding: 12,
+    alignItems: 'center',
+  },
+  uploadButtonText: {
+    color: '#007bff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
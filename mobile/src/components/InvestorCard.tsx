@@ -0,0 +1,147 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { InvestorSummary } from '../../services/data/investor.repository';
+import SaveButton from './SaveButton';
+
+type Props = {
+  investor: InvestorSummary;
+  onPress: () => void;
+  // Why the investor is recommended, e.g. "invests in SaaS · ticket fits".
+  reasons?: string;
+  saved?: boolean;
+  onToggleSave?: () => void;
+  // Extra control next to the name (the startup's Like button).
+  accessory?: React.ReactNode;
+  children?: React.ReactNode;
+};
+
+const formatInvestmentRange = (min?: number | null, max?: number | null) => {
+  if (!min && !max) return 'Range not specified';
+  if (!max) return `₹${min!.toLocaleString()}+`;
+  return `₹${(min || 0).toLocaleString()} - ₹${max.toLocaleString()}`;
+};
+
+// InvestorCard is the investor summary card used on the startup home
+// screen and in saved lists.
+export default function InvestorCard({ investor, onPress, reasons, saved, onToggleSave, accessory, children }: Props) {
+  return (
+    <TouchableOpacity style={styles.investorCard} onPress={onPress}>
+      <View style={styles.cardHeader}>
+        <Text style={styles.investorName}>{investor.investor_name || 'Anonymous Investor'}</Text>
+        {accessory}
+        {onToggleSave && <SaveButton saved={!!saved} onPress={onToggleSave} />}
+      </View>
+
+      {investor.company_name && (
+        <Text style={styles.companyName}>
+          {investor.company_name}
+        </Text>
+      )}
+
+      {reasons ? <Text style={styles.reasonText}>✨ {reasons}</Text> : null}
+
+      <View style={styles.cardDetails}>
+        {investor.location && (
+          <View style={styles.detailItem}>
+            <Text style={styles.detailIcon}>📍</Text>
+            <Text style={styles.detailText}>{investor.location}</Text>
+          </View>
+        )}
+
+        <View style={styles.detailItem}>
+          <Text style={styles.detailIcon}>💰</Text>
+          <Text style={styles.detailText}>
+            {formatInvestmentRange(investor.min_investment, investor.max_investment)}
+          </Text>
+        </View>
+
+        {investor.interested_industries && (
+          <View style={styles.detailItem}>
+            <Text style={styles.detailIcon}>🏢</Text>
+            <Text style={styles.detailText} numberOfLines={1}>
+              {investor.interested_industries.split(',').slice(0, 2).join(', ')}
+            </Text>
+          </View>
+        )}
+
+        {investor.linkedin_url && (
+          <View style={styles.detailItem}>
+            <Text style={styles.detailIcon}>🔗</Text>
+            <Text style={styles.detailText} numberOfLines={1}>
+              LinkedIn Profile
+            </Text>
+          </View>
+        )}
+      </View>
+
+      {children}
+
+      <View style={styles.viewDetailsButton}>
+        <Text style={styles.viewDetailsText}>View Details →</Text>
+      </View>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  investorCard: {
+    backgroundColor: '#fff',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  investorName: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+    flex: 1,
+  },
+  companyName: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 12,
+  },
+  reasonText: {
+    fontSize: 13,
+    color: '#6f42c1',
+    marginBottom: 10,
+  },
+  cardDetails: {
+    marginBottom: 12,
+  },
+  detailItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  detailIcon: {
+    fontSize: 14,
+    marginRight: 8,
+  },
+  detailText: {
+    fontSize: 14,
+    color: '#666',
+    flex: 1,
+  },
+  viewDetailsButton: {
+    paddingTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  viewDetailsText: {
+    fontSize: 14,
+    color: '#007bff',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,243 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Alert, Linking } from 'react-native';
+import { MatchWithParties } from '../../services/data/match.repository';
+import { loadMatchContact, loadMatches } from '../../services/match/match.service';
+import type { MatchContact } from '../../server/matchContacts';
+
+type Props = {
+  // Which side of the match is looking.
+  side: 'startup' | 'investor';
+  // The viewer's startup or investor id; null until their profile exists.
+  ownId: string | null;
+};
+
+// MatchesList shows the viewer's mutual matches with the other party's
+// name, and fetches contact details on request. Opening it marks new
+// matches as seen, so the "new" banner shows once per match.
+export default function MatchesList({ side, ownId }: Props) {
+  const [matches, setMatches] = useState<MatchWithParties[]>([]);
+  const [newCount, setNewCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [contacts, setContacts] = useState<Record<string, MatchContact>>({});
+  const [loadingContactId, setLoadingContactId] = useState<string | null>(null);
+
+  useEffect(() => {
+    load();
+  }, [side, ownId]);
+
+  const load = async () => {
+    if (!ownId) {
+      setLoading(false);
+      return;
+    }
+    try {
+      const result = await loadMatches(side, ownId);
+      setMatches(result.matches);
+      setNewCount(result.newCount);
+    } catch (error) {
+      console.error('Error loading matches:', error);
+      Alert.alert('Error', 'Failed to load matches');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const showContact = async (match: MatchWithParties) => {
+    setLoadingContactId(match.id);
+    try {
+      const result = await loadMatchContact(match.id);
+      if (result.success === false) {
+        Alert.alert('Contact details', result.error);
+        return;
+      }
+      setContacts(prev => ({ ...prev, [match.id]: result.contact }));
+    } finally {
+      setLoadingContactId(null);
+    }
+  };
+
+  const openLink = (url: string) => {
+    const target = url.startsWith('http') || url.startsWith('mailto:') || url.startsWith('tel:') ? url : `https://${url}`;
+    Linking.openURL(target).catch(() => {
+      Alert.alert('Error', 'Unable to open link');
+    });
+  };
+
+  const otherName = (match: MatchWithParties) =>
+    side === 'startup'
+      ? match.investors?.investor_name || match.investors?.company_name || 'Investor'
+      : match.startups?.company_name || 'Startup';
+
+  const otherDetail = (match: MatchWithParties) =>
+    side === 'startup'
+      ? [match.investors?.investor_name ? match.investors?.company_name : null, match.investors?.location]
+      : [match.startups?.industry, match.startups?.location];
+
+  if (!ownId) {
+    return (
+      <View style={styles.emptyState}>
+        <Text style={styles.emptyTitle}>Complete your profile</Text>
+        <Text style={styles.emptyText}>Matches appear here once your profile is set up.</Text>
+      </View>
+    );
+  }
+
+  if (loading) {
+    return <Text style={styles.loadingText}>Loading matches...</Text>;
+  }
+
+  return (
+    <View>
+      {newCount > 0 && (
+        <View style={styles.newBanner}>
+          <Text style={styles.newBannerText}>
+            🎉 {newCount} new {newCount === 1 ? 'match' : 'matches'}
+          </Text>
+        </View>
+      )}
+
+      {matches.length === 0 ? (
+        <View style={styles.emptyState}>
+          <Text style={styles.emptyTitle}>No matches yet</Text>
+          <Text style={styles.emptyText}>
+            {side === 'startup'
+              ? 'Like investors who are interested in your campaigns to match with them.'
+              : 'Express interest in campaigns; when the startup likes you back, you match.'}
+          </Text>
+        </View>
+      ) : (
+        matches.map(match => {
+          const contact = contacts[match.id];
+          const detail = otherDetail(match).filter(Boolean).join(' · ');
+          return (
+            <View key={match.id} style={styles.card}>
+              <Text style={styles.name}>{otherName(match)}</Text>
+              {detail ? <Text style={styles.meta}>{detail}</Text> : null}
+              <Text style={styles.meta}>Matched {new Date(match.created_at).toLocaleDateString()}</Text>
+
+              {contact ? (
+                <View style={styles.contactBox}>
+                  {contact.email && (
+                    <TouchableOpacity onPress={() => openLink(`mailto:${contact.email}`)}>
+                      <Text style={styles.contactLink}>✉️ {contact.email}</Text>
+                    </TouchableOpacity>
+                  )}
+                  {contact.phone && (
+                    <TouchableOpacity onPress={() => openLink(`tel:${contact.phone}`)}>
+                      <Text style={styles.contactLink}>📞 {contact.phone}</Text>
+                    </TouchableOpacity>
+                  )}
+                  {contact.website && (
+                    <TouchableOpacity onPress={() => openLink(contact.website as string)}>
+                      <Text style={styles.contactLink}>🌐 {contact.website}</Text>
+                    </TouchableOpacity>
+                  )}
+                  {contact.linkedinUrl && (
+                    <TouchableOpacity onPress={() => openLink(contact.linkedinUrl as string)}>
+                      <Text style={styles.contactLink}>🔗 LinkedIn Profile</Text>
+                    </TouchableOpacity>
+                  )}
+                  {!contact.email && !contact.phone && !contact.website && !contact.linkedinUrl && (
+                    <Text style={styles.meta}>No contact details on their profile yet.</Text>
+                  )}
+                </View>
+              ) : (
+                <TouchableOpacity
+                  style={styles.contactButton}
+                  onPress={() => showContact(match)}
+                  disabled={loadingContactId === match.id}
+                >
+                  <Text style={styles.contactButtonText}>
+                    {loadingContactId === match.id ? 'Loading...' : 'Show contact details'}
+                  </Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          );
+        })
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  loadingText: {
+    textAlign: 'center',
+    color: '#666',
+    marginTop: 20,
+  },
+  newBanner: {
+    backgroundColor: '#fde8f1',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 12,
+  },
+  newBannerText: {
+    color: '#c2185b',
+    fontSize: 15,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  emptyState: {
+    padding: 24,
+    alignItems: 'center',
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+  },
+  card: {
+    backgroundColor: '#fff',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 12,
+    borderLeftWidth: 4,
+    borderLeftColor: '#e83e8c',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  name: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 4,
+  },
+  meta: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 2,
+  },
+  contactButton: {
+    backgroundColor: '#e83e8c',
+    padding: 10,
+    borderRadius: 6,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  contactButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  contactBox: {
+    marginTop: 12,
+    paddingTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  contactLink: {
+    fontSize: 14,
+    color: '#007bff',
+    marginBottom: 6,
+  },
+});
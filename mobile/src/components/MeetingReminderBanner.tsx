@@ -0,0 +1,59 @@
+import React from 'react';
+import { Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { useMeetingReminder } from '../hooks/useMeetingReminder';
+import { MessageSide, otherPartyName } from '../../services/message/message.service';
+import { describeSlotTime, startsIn } from '../../services/meeting/meeting.service';
+import { deviceTimeZone } from '../../utils/timezone.util';
+
+type Props = {
+  // Which side of the meetings is looking.
+  side: MessageSide;
+  // The viewer's startup or investor id; null until their profile exists.
+  ownId: string | null;
+};
+
+// MeetingReminderBanner reminds the viewer of their next confirmed meeting
+// during the day before it. Tapping it opens the meeting.
+export default function MeetingReminderBanner({ side, ownId }: Props) {
+  const navigation = useNavigation();
+  const { reminder, now } = useMeetingReminder(side, ownId);
+
+  if (!reminder) return null;
+
+  const { slot, interest } = reminder;
+  return (
+    <TouchableOpacity
+      style={styles.banner}
+      onPress={() => (navigation as any).navigate('MeetingScheduler', { interestId: interest.id })}
+    >
+      <Text style={styles.title}>
+        ⏰ Meeting with {otherPartyName(interest, side)} {startsIn(slot, now)}
+      </Text>
+      <Text style={styles.detail} numberOfLines={1}>
+        {describeSlotTime(slot, deviceTimeZone()).local}
+        {slot.location ? ` · ${slot.location}` : ''}
+      </Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    backgroundColor: '#fff8e1',
+    borderBottomWidth: 1,
+    borderBottomColor: '#ffe08a',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#7a5a00',
+  },
+  detail: {
+    fontSize: 12,
+    color: '#7a5a00',
+    marginTop: 2,
+  },
+});
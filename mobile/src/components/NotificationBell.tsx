@@ -0,0 +1,60 @@
+import React, { useEffect } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { useUnreadNotifications } from '../hooks/useUnreadNotifications';
+
+type Props = {
+  // The signed-in user; the bell stays empty until they are known.
+  userId: string | null | undefined;
+};
+
+// NotificationBell opens the notification inbox from a screen header and
+// shows how many notifications are unread. The count refreshes whenever
+// the screen comes back into view.
+export default function NotificationBell({ userId }: Props) {
+  const navigation = useNavigation();
+  const { unread, reload } = useUnreadNotifications(userId);
+
+  useEffect(() => navigation.addListener('focus', reload), [navigation, userId]);
+
+  return (
+    <TouchableOpacity
+      style={styles.button}
+      onPress={() => (navigation as any).navigate('Notifications')}
+      accessibilityLabel={unread > 0 ? `Notifications, ${unread} unread` : 'Notifications'}
+    >
+      <Text style={styles.icon}>🔔</Text>
+      {unread > 0 && (
+        <View style={styles.badge}>
+          <Text style={styles.badgeText}>{unread > 99 ? '99+' : unread}</Text>
+        </View>
+      )}
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  button: {
+    padding: 8,
+  },
+  icon: {
+    fontSize: 24,
+  },
+  badge: {
+    position: 'absolute',
+    top: 2,
+    right: 0,
+    minWidth: 18,
+    height: 18,
+    paddingHorizontal: 4,
+    borderRadius: 9,
+    backgroundColor: '#dc3545',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  badgeText: {
+    color: '#fff',
+    fontSize: 11,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,174 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, Switch, TouchableOpacity, StyleSheet, Alert } from 'react-native';
+import { EmailFrequency, NotificationType } from '../../services/data/database.types';
+import {
+  countDevices,
+  loadPreferences,
+  savePreferences
+} from '../../services/notification/notification.service';
+import {
+  DEFAULT_PREFERENCES,
+  EMAIL_FREQUENCY_LABELS,
+  NOTIFICATION_TYPE_LABELS,
+  NOTIFICATION_TYPES,
+  NotificationPreferences
+} from '../../utils/notification.util';
+
+type Props = {
+  userId: string;
+};
+
+type ChannelKey = 'in_app' | 'push' | 'email';
+
+const CHANNELS: { key: ChannelKey; label: string; hint: string }[] = [
+  { key: 'in_app', label: 'In-app', hint: 'Show notifications in the inbox' },
+  { key: 'push', label: 'Push', hint: 'Alerts on this phone and your other devices' },
+  { key: 'email', label: 'Email', hint: 'Sent to your account email' }
+];
+
+// NotificationSettings is the Notifications section of Settings: which
+// channels to use, how often to email, and which kinds of notification
+// to mute altogether. Each change saves straight away.
+export default function NotificationSettings({ userId }: Props) {
+  const [preferences, setPreferences] = useState<NotificationPreferences>(DEFAULT_PREFERENCES);
+  const [devices, setDevices] = useState(0);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    load();
+  }, [userId]);
+
+  const load = async () => {
+    try {
+      const [loaded, deviceCount] = await Promise.all([loadPreferences(userId), countDevices(userId)]);
+      setPreferences(loaded);
+      setDevices(deviceCount);
+    } catch (error) {
+      console.error('Error loading notification settings:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Show the change at once and put it back if saving fails.
+  const update = async (next: NotificationPreferences) => {
+    const previous = preferences;
+    setPreferences(next);
+    const result = await savePreferences(userId, next);
+    if (result.success === false) {
+      setPreferences(previous);
+      Alert.alert('Not saved', result.error);
+    }
+  };
+
+  const toggleMuted = (type: NotificationType, enabled: boolean) => {
+    const muted = preferences.muted_types.filter(t => t !== type);
+    update({ ...preferences, muted_types: enabled ? muted : [...muted, type] });
+  };
+
+  if (loading) return <Text style={styles.hint}>Loading notification settings...</Text>;
+
+  return (
+    <View>
+      {CHANNELS.map(channel => (
+        <View key={channel.key} style={styles.switchRow}>
+          <View style={styles.switchLabel}>
+            <Text style={styles.label}>{channel.label}</Text>
+            <Text style={styles.hint}>
+              {channel.key === 'push' ? `${channel.hint} · ${devices} registered` : channel.hint}
+            </Text>
+          </View>
+          <Switch
+            value={preferences[channel.key]}
+            onValueChange={value => update({ ...preferences, [channel.key]: value })}
+          />
+        </View>
+      ))}
+
+      {preferences.email && (
+        <>
+          <Text style={styles.subheading}>Email frequency</Text>
+          <View style={styles.row}>
+            {(Object.keys(EMAIL_FREQUENCY_LABELS) as EmailFrequency[]).map(frequency => (
+              <TouchableOpacity
+                key={frequency}
+                style={[styles.chip, preferences.email_frequency === frequency && styles.chipSelected]}
+                onPress={() => update({ ...preferences, email_frequency: frequency })}
+              >
+                <Text style={[styles.chipText, preferences.email_frequency === frequency && styles.chipTextSelected]}>
+                  {EMAIL_FREQUENCY_LABELS[frequency]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </>
+      )}
+
+      <Text style={styles.subheading}>Notify me about</Text>
+      {NOTIFICATION_TYPES.map(type => (
+        <View key={type} style={styles.switchRow}>
+          <Text style={[styles.label, styles.switchLabel]}>{NOTIFICATION_TYPE_LABELS[type]}</Text>
+          <Switch
+            value={!preferences.muted_types.includes(type)}
+            onValueChange={value => toggleMuted(type, value)}
+          />
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+  },
+  switchLabel: {
+    flex: 1,
+    marginRight: 12,
+  },
+  label: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  hint: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  subheading: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    backgroundColor: '#FFFFFF',
+  },
+  chipSelected: {
+    backgroundColor: '#DC2626',
+    borderColor: '#DC2626',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+  },
+});
@@ -0,0 +1,218 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TextInput, Switch, TouchableOpacity, Modal, StyleSheet, Alert } from 'react-native';
+import { CampaignRow, CampaignUpdateType } from '../../services/data/database.types';
+import {
+  postUpdate,
+  UPDATE_CONTENT_MAX,
+  UPDATE_TITLE_MAX,
+  UPDATE_TYPE_LABELS
+} from '../../services/campaign/updates.service';
+
+type Props = {
+  // The campaign being posted to; null keeps the modal closed.
+  campaign: CampaignRow | null;
+  onClose: () => void;
+  onPosted?: () => void;
+};
+
+// PostUpdateModal is how a startup posts news on one of its campaigns.
+// Private updates only reach investors who have expressed interest.
+export default function PostUpdateModal({ campaign, onClose, onPosted }: Props) {
+  const [title, setTitle] = useState('');
+  const [content, setContent] = useState('');
+  const [updateType, setUpdateType] = useState<CampaignUpdateType>('general');
+  const [isPublic, setIsPublic] = useState(true);
+  const [posting, setPosting] = useState(false);
+
+  // Start each campaign's update from a blank form.
+  useEffect(() => {
+    setTitle('');
+    setContent('');
+    setUpdateType('general');
+    setIsPublic(true);
+  }, [campaign?.id]);
+
+  const handlePost = async () => {
+    if (!campaign) return;
+    setPosting(true);
+    const result = await postUpdate(campaign, { title, content, updateType, isPublic });
+    setPosting(false);
+    if (result.success === false) {
+      Alert.alert('Cannot post update', result.error);
+      return;
+    }
+    onClose();
+    onPosted?.();
+  };
+
+  return (
+    <Modal visible={!!campaign} transparent={true} animationType="slide" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <Text style={styles.title}>Post Update</Text>
+          {campaign && <Text style={styles.campaignTitle}>{campaign.title}</Text>}
+
+          <Text style={styles.label}>Type</Text>
+          <View style={styles.typeRow}>
+            {(Object.keys(UPDATE_TYPE_LABELS) as CampaignUpdateType[]).map(type => (
+              <TouchableOpacity
+                key={type}
+                style={[styles.typeButton, updateType === type && styles.typeButtonActive]}
+                onPress={() => setUpdateType(type)}
+              >
+                <Text style={[styles.typeText, updateType === type && styles.typeTextActive]}>
+                  {UPDATE_TYPE_LABELS[type]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.label}>Title</Text>
+          <TextInput
+            style={styles.input}
+            value={title}
+            onChangeText={setTitle}
+            placeholder="e.g. Second warehouse signed"
+            maxLength={UPDATE_TITLE_MAX}
+          />
+
+          <Text style={styles.label}>Details</Text>
+          <TextInput
+            style={[styles.input, styles.contentInput]}
+            value={content}
+            onChangeText={setContent}
+            placeholder="What happened and what it means for the round"
+            maxLength={UPDATE_CONTENT_MAX}
+            multiline
+            textAlignVertical="top"
+          />
+
+          <View style={styles.switchRow}>
+            <View style={styles.switchLabel}>
+              <Text style={styles.label}>Public</Text>
+              <Text style={styles.hint}>
+                {isPublic ? 'Anyone viewing the campaign can read this.' : 'Only investors who expressed interest can read this.'}
+              </Text>
+            </View>
+            <Switch value={isPublic} onValueChange={setIsPublic} />
+          </View>
+
+          <View style={styles.buttons}>
+            <TouchableOpacity style={[styles.button, styles.cancelButton]} onPress={onClose}>
+              <Text style={styles.buttonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.button, styles.postButton]} onPress={handlePost} disabled={posting}>
+              <Text style={styles.buttonText}>{posting ? 'Posting...' : 'Post'}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    backgroundColor: '#fff',
+    padding: 20,
+    borderRadius: 8,
+    width: '90%',
+    maxWidth: 400,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+    textAlign: 'center',
+  },
+  campaignTitle: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 4,
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 16,
+    color: '#333',
+    marginBottom: 8,
+    fontWeight: '500',
+  },
+  hint: {
+    fontSize: 13,
+    color: '#666',
+  },
+  typeRow: {
+    flexDirection: 'row',
+    marginBottom: 16,
+  },
+  typeButton: {
+    flex: 1,
+    padding: 8,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 6,
+    marginHorizontal: 2,
+    alignItems: 'center',
+  },
+  typeButtonActive: {
+    backgroundColor: '#007bff',
+    borderColor: '#007bff',
+  },
+  typeText: {
+    fontSize: 12,
+    color: '#666',
+  },
+  typeTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 6,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 16,
+  },
+  contentInput: {
+    minHeight: 120,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  switchLabel: {
+    flex: 1,
+    marginRight: 12,
+  },
+  buttons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  button: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 6,
+    alignItems: 'center',
+    marginHorizontal: 4,
+  },
+  cancelButton: {
+    backgroundColor: '#6c757d',
+  },
+  postButton: {
+    backgroundColor: '#28a745',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
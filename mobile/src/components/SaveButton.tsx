@@ -0,0 +1,36 @@
+import React from 'react';
+import { TouchableOpacity, Text, StyleSheet } from 'react-native';
+
+type Props = {
+  saved: boolean;
+  onPress: () => void;
+};
+
+// SaveButton is the star on browse cards: filled when the item is saved.
+export default function SaveButton({ saved, onPress }: Props) {
+  return (
+    <TouchableOpacity
+      style={styles.button}
+      onPress={onPress}
+      hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+      accessibilityLabel={saved ? 'Remove from saved' : 'Save'}
+    >
+      <Text style={[styles.star, saved && styles.starSaved]}>{saved ? '★' : '☆'}</Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  button: {
+    marginLeft: 4,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+  },
+  star: {
+    fontSize: 22,
+    color: '#999',
+  },
+  starSaved: {
+    color: '#f5a623',
+  },
+});
@@ -0,0 +1,500 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, Alert } from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { SavedItemWithTarget } from '../../services/data/saved.repository';
+import { ShortlistRow } from '../../services/data/database.types';
+import {
+  createShortlist,
+  deleteShortlist,
+  loadSaved,
+  moveToShortlist,
+  renameShortlist,
+  SAVED_NOTE_MAX,
+  saveNote,
+  savedItemType,
+  setSaved,
+  SHORTLIST_NAME_MAX
+} from '../../services/saved/saved.service';
+import CampaignCard from './CampaignCard';
+import InvestorCard from './InvestorCard';
+import StartupCard from './StartupCard';
+
+type Props = {
+  // The signed-in user's id; null while signed out.
+  ownerId: string | null;
+  // Called after an item is unsaved, so browse lists can update their stars.
+  onChange?: () => void;
+};
+
+// 'all', 'unfiled', or a shortlist id.
+type Filter = string;
+
+// SavedList shows everything the user has saved, using the same cards as
+// the home screens, with their shortlists as filter chips. Each item can
+// be filed in a list, given a private note, or removed.
+export default function SavedList({ ownerId, onChange }: Props) {
+  const navigation = useNavigation();
+  const [items, setItems] = useState<SavedItemWithTarget[]>([]);
+  const [shortlists, setShortlists] = useState<ShortlistRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<Filter>('all');
+  // Name being typed for a new list, or for renaming the selected one.
+  const [listName, setListName] = useState('');
+  const [editingList, setEditingList] = useState<'new' | 'rename' | null>(null);
+  // Unsaved note edits, by item id.
+  const [noteDrafts, setNoteDrafts] = useState<Record<string, string>>({});
+  const [movingId, setMovingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    load();
+  }, [ownerId]);
+
+  const load = async () => {
+    if (!ownerId) {
+      setLoading(false);
+      return;
+    }
+    try {
+      const result = await loadSaved(ownerId);
+      setItems(result.items);
+      setShortlists(result.shortlists);
+    } catch (error) {
+      console.error('Error loading saved items:', error);
+      Alert.alert('Error', 'Failed to load saved items');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const selectedList = shortlists.find(list => list.id === filter) || null;
+
+  const visibleItems = items.filter(item => {
+    if (filter === 'all') return true;
+    if (filter === 'unfiled') return !item.shortlist_id;
+    return item.shortlist_id === filter;
+  });
+
+  const countIn = (shortlistId: string | null) =>
+    items.filter(item => item.shortlist_id === shortlistId).length;
+
+  const submitListName = async () => {
+    if (!ownerId) return;
+    if (editingList === 'new') {
+      const result = await createShortlist(ownerId, listName);
+      if (result.success === false) {
+        Alert.alert('New list', result.error);
+        return;
+      }
+      setShortlists(prev => [...prev, result.shortlist].sort((a, b) => a.name.localeCompare(b.name)));
+      setFilter(result.shortlist.id);
+    } else if (editingList === 'rename' && selectedList) {
+      const result = await renameShortlist(selectedList.id, listName);
+      if (result.success === false) {
+        Alert.alert('Rename list', result.error);
+        return;
+      }
+      const name = listName.trim();
+      setShortlists(prev =>
+        prev.map(list => (list.id === selectedList.id ? { ...list, name } : list)).sort((a, b) => a.name.localeCompare(b.name))
+      );
+    }
+    setEditingList(null);
+    setListName('');
+  };
+
+  const confirmDeleteList = (list: ShortlistRow) => {
+    Alert.alert('Delete list', `Delete "${list.name}"? Its items stay saved.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          const result = await deleteShortlist(list.id);
+          if (result.success === false) {
+            Alert.alert('Delete list', result.error);
+            return;
+          }
+          setShortlists(prev => prev.filter(l => l.id !== list.id));
+          setItems(prev => prev.map(item => (item.shortlist_id === list.id ? { ...item, shortlist_id: null } : item)));
+          setFilter('all');
+        }
+      }
+    ]);
+  };
+
+  const moveItem = async (item: SavedItemWithTarget, shortlistId: string | null) => {
+    const result = await moveToShortlist(item.id, shortlistId);
+    if (result.success === false) {
+      Alert.alert('Move', result.error);
+      return;
+    }
+    setItems(prev => prev.map(i => (i.id === item.id ? { ...i, shortlist_id: shortlistId } : i)));
+    setMovingId(null);
+  };
+
+  const submitNote = async (item: SavedItemWithTarget) => {
+    const draft = noteDrafts[item.id] ?? '';
+    const result = await saveNote(item.id, draft);
+    if (result.success === false) {
+      Alert.alert('Note', result.error);
+      return;
+    }
+    setItems(prev => prev.map(i => (i.id === item.id ? { ...i, note: draft.trim() || null } : i)));
+    setNoteDrafts(prev => {
+      const next = { ...prev };
+      delete next[item.id];
+      return next;
+    });
+  };
+
+  const removeItem = async (item: SavedItemWithTarget) => {
+    if (!ownerId) return;
+    const type = savedItemType(item);
+    const id = (item.startup_id || item.investor_id || item.campaign_id) as string;
+    const result = await setSaved(ownerId, { type, id }, false);
+    if (result.success === false) {
+      Alert.alert('Remove', result.error);
+      return;
+    }
+    setItems(prev => prev.filter(i => i.id !== item.id));
+    onChange?.();
+  };
+
+  // List chips, private note and actions under each card.
+  const renderItemFooter = (item: SavedItemWithTarget) => {
+    const draft = noteDrafts[item.id];
+    const editing = draft !== undefined && draft !== (item.note || '');
+    const filedIn = shortlists.find(list => list.id === item.shortlist_id)?.name;
+    return (
+      <View style={styles.footer}>
+        <View style={styles.footerRow}>
+          <TouchableOpacity onPress={() => setMovingId(movingId === item.id ? null : item.id)}>
+            <Text style={styles.listLink}>📁 {filedIn || 'Not in a list'}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => removeItem(item)}>
+            <Text style={styles.removeLink}>Remove</Text>
+          </TouchableOpacity>
+        </View>
+
+        {movingId === item.id && (
+          <View style={styles.chipRow}>
+            <TouchableOpacity
+              style={[styles.smallChip, !item.shortlist_id && styles.chipActive]}
+              onPress={() => moveItem(item, null)}
+            >
+              <Text style={[styles.chipText, !item.shortlist_id && styles.chipTextActive]}>None</Text>
+            </TouchableOpacity>
+            {shortlists.map(list => (
+              <TouchableOpacity
+                key={list.id}
+                style={[styles.smallChip, item.shortlist_id === list.id && styles.chipActive]}
+                onPress={() => moveItem(item, list.id)}
+              >
+                <Text style={[styles.chipText, item.shortlist_id === list.id && styles.chipTextActive]}>{list.name}</Text>
+              </TouchableOpacity>
+            ))}
+            {shortlists.length === 0 && <Text style={styles.hint}>Create a list above to file items.</Text>}
+          </View>
+        )}
+
+        <TextInput
+          style={styles.noteInput}
+          placeholder="Private note (only you can see this)"
+          value={draft ?? item.note ?? ''}
+          onChangeText={text => setNoteDrafts(prev => ({ ...prev, [item.id]: text }))}
+          maxLength={SAVED_NOTE_MAX}
+          multiline
+        />
+        {editing && (
+          <TouchableOpacity style={styles.saveNoteButton} onPress={() => submitNote(item)}>
+            <Text style={styles.saveNoteText}>Save note</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  const renderItem = (item: SavedItemWithTarget) => {
+    const unsave = () => removeItem(item);
+    if (item.startups) {
+      return (
+        <StartupCard
+          key={item.id}
+          startup={item.startups}
+          saved
+          onToggleSave={unsave}
+          onPress={() => (navigation as any).navigate('StartupDetail', { startupId: item.startups!.id })}
+        >
+          {renderItemFooter(item)}
+        </StartupCard>
+      );
+    }
+    if (item.investors) {
+      return (
+        <InvestorCard
+          key={item.id}
+          investor={item.investors}
+          saved
+          onToggleSave={unsave}
+          onPress={() => (navigation as any).navigate('InvestorDetail', { investorId: item.investors!.id })}
+        >
+          {renderItemFooter(item)}
+        </InvestorCard>
+      );
+    }
+    return (
+      <CampaignCard
+        key={item.id}
+        campaign={item.fundraising_campaigns!}
+        saved
+        onToggleSave={unsave}
+        onPress={() => (navigation as any).navigate('FundraisingCampaignDetail', { campaignId: item.campaign_id })}
+      >
+        {renderItemFooter(item)}
+      </CampaignCard>
+    );
+  };
+
+  if (!ownerId) {
+    return (
+      <View style={styles.emptyState}>
+        <Text style={styles.emptyTitle}>Sign in to save</Text>
+        <Text style={styles.emptyText}>Saved startups, investors and campaigns appear here.</Text>
+      </View>
+    );
+  }
+
+  if (loading) {
+    return <Text style={styles.loadingText}>Loading saved items...</Text>;
+  }
+
+  const chip = (key: Filter, label: string) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.chip, filter === key && styles.chipActive]}
+      onPress={() => {
+        setFilter(key);
+        setEditingList(null);
+      }}
+    >
+      <Text style={[styles.chipText, filter === key && styles.chipTextActive]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View>
+      <View style={styles.chipRow}>
+        {chip('all', `All (${items.length})`)}
+        {chip('unfiled', `Unfiled (${countIn(null)})`)}
+        {shortlists.map(list => chip(list.id, `${list.name} (${countIn(list.id)})`))}
+        <TouchableOpacity
+          style={[styles.chip, styles.newChip]}
+          onPress={() => {
+            setEditingList('new');
+            setListName('');
+          }}
+        >
+          <Text style={styles.newChipText}>+ New list</Text>
+        </TouchableOpacity>
+      </View>
+
+      {editingList && (
+        <View style={styles.listNameRow}>
+          <TextInput
+            style={styles.listNameInput}
+            placeholder={editingList === 'new' ? 'List name, e.g. Q3 pipeline' : 'New name'}
+            value={listName}
+            onChangeText={setListName}
+            maxLength={SHORTLIST_NAME_MAX}
+            autoFocus
+            onSubmitEditing={submitListName}
+          />
+          <TouchableOpacity style={styles.listNameButton} onPress={submitListName}>
+            <Text style={styles.listNameButtonText}>{editingList === 'new' ? 'Create' : 'Rename'}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => setEditingList(null)}>
+            <Text style={styles.cancelText}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {selectedList && !editingList && (
+        <View style={styles.footerRow}>
+          <TouchableOpacity
+            onPress={() => {
+              setEditingList('rename');
+              setListName(selectedList.name);
+            }}
+          >
+            <Text style={styles.listLink}>✏️ Rename list</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => confirmDeleteList(selectedList)}>
+            <Text style={styles.removeLink}>Delete list</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {visibleItems.length === 0 ? (
+        <View style={styles.emptyState}>
+          <Text style={styles.emptyTitle}>{items.length === 0 ? 'Nothing saved yet' : 'No items here'}</Text>
+          <Text style={styles.emptyText}>
+            {items.length === 0
+              ? 'Tap ☆ on a startup, investor or campaign to save it.'
+              : 'Open an item\'s 📁 to file it in this list.'}
+          </Text>
+        </View>
+      ) : (
+        visibleItems.map(renderItem)
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  loadingText: {
+    textAlign: 'center',
+    color: '#666',
+    marginTop: 20,
+  },
+  emptyState: {
+    padding: 24,
+    alignItems: 'center',
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  smallChip: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  chipActive: {
+    backgroundColor: '#007bff',
+    borderColor: '#007bff',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#333',
+  },
+  chipTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  newChip: {
+    borderStyle: 'dashed',
+    borderColor: '#007bff',
+  },
+  newChipText: {
+    fontSize: 13,
+    color: '#007bff',
+    fontWeight: '600',
+  },
+  listNameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  listNameInput: {
+    flex: 1,
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 14,
+  },
+  listNameButton: {
+    backgroundColor: '#007bff',
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 8,
+    marginLeft: 8,
+  },
+  listNameButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  cancelText: {
+    color: '#666',
+    fontSize: 14,
+    marginLeft: 12,
+  },
+  footer: {
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+    paddingTop: 8,
+    marginBottom: 8,
+  },
+  footerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  listLink: {
+    fontSize: 14,
+    color: '#007bff',
+    fontWeight: '600',
+  },
+  removeLink: {
+    fontSize: 14,
+    color: '#dc3545',
+    fontWeight: '600',
+  },
+  hint: {
+    fontSize: 13,
+    color: '#999',
+  },
+  noteInput: {
+    backgroundColor: '#fffbea',
+    borderWidth: 1,
+    borderColor: '#f0e2a8',
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 14,
+    minHeight: 44,
+    textAlignVertical: 'top',
+  },
+  saveNoteButton: {
+    alignSelf: 'flex-end',
+    backgroundColor: '#28a745',
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 8,
+    marginTop: 8,
+  },
+  saveNoteText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, StyleSheet } from 'react-native';
+import { Facet } from '../../services/search/search.service';
+import { activeFacetCount, SearchFacets, SortOption } from '../../utils/search.util';
+
+type Props = {
+  total: number;
+  loading: boolean;
+  facetOptions: Facet[];
+  facets: SearchFacets;
+  onFacet: (key: keyof SearchFacets, value: string | null) => void;
+  onClear: () => void;
+  sortOptions: SortOption[];
+  sortKey: string;
+  onSort: (key: string) => void;
+};
+
+// SearchFilters sits above a searchable list: the result count, the sort
+// order and a panel of facet chips. Tapping a chosen chip again clears it.
+export default function SearchFilters({
+  total,
+  loading,
+  facetOptions,
+  facets,
+  onFacet,
+  onClear,
+  sortOptions,
+  sortKey,
+  onSort
+}: Props) {
+  const [open, setOpen] = useState(false);
+  const active = activeFacetCount(facets);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.summaryRow}>
+        <Text style={styles.total}>{loading ? 'Searching...' : `${total} ${total === 1 ? 'result' : 'results'}`}</Text>
+        <TouchableOpacity onPress={() => setOpen(!open)}>
+          <Text style={styles.toggle}>
+            Filters{active > 0 ? ` (${active})` : ''} {open ? '▴' : '▾'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+        {sortOptions.map(option => (
+          <TouchableOpacity
+            key={option.key}
+            style={[styles.chip, sortKey === option.key && styles.chipActive]}
+            onPress={() => onSort(option.key)}
+          >
+            <Text style={[styles.chipText, sortKey === option.key && styles.chipTextActive]}>{option.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      {open && (
+        <View style={styles.panel}>
+          {facetOptions.length === 0 && <Text style={styles.empty}>No filters for these results.</Text>}
+          {facetOptions.map(facet => (
+            <View key={facet.key} style={styles.facet}>
+              <Text style={styles.facetLabel}>{facet.label}</Text>
+              <View style={styles.chipWrap}>
+                {facet.choices.map(choice => {
+                  const selected = facets[facet.key] === choice.value;
+                  return (
+                    <TouchableOpacity
+                      key={choice.value}
+                      style={[styles.chip, selected && styles.chipActive]}
+                      onPress={() => onFacet(facet.key, choice.value)}
+                    >
+                      <Text style={[styles.chipText, selected && styles.chipTextActive]}>
+                        {choice.label}
+                        {choice.count !== null ? ` (${choice.count})` : ''}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+          ))}
+          {active > 0 && (
+            <TouchableOpacity onPress={onClear}>
+              <Text style={styles.clear}>Clear filters</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  total: {
+    fontSize: 13,
+    color: '#666',
+  },
+  toggle: {
+    fontSize: 14,
+    color: '#007bff',
+    fontWeight: '600',
+  },
+  chipRow: {
+    gap: 6,
+  },
+  chipWrap: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: '#fff',
+  },
+  chipActive: {
+    backgroundColor: '#007bff',
+    borderColor: '#007bff',
+  },
+  chipText: {
+    fontSize: 12,
+    color: '#666',
+  },
+  chipTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  panel: {
+    marginTop: 10,
+    padding: 12,
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#eee',
+  },
+  facet: {
+    marginBottom: 12,
+  },
+  facetLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 6,
+  },
+  empty: {
+    fontSize: 13,
+    color: '#666',
+  },
+  clear: {
+    fontSize: 14,
+    color: '#dc3545',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,134 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { StartupSummary } from '../../services/data/startup.repository';
+import SaveButton from './SaveButton';
+
+type Props = {
+  startup: StartupSummary;
+  onPress: () => void;
+  saved?: boolean;
+  onToggleSave?: () => void;
+  children?: React.ReactNode;
+};
+
+// StartupCard is the startup summary card used on the investor home
+// screen and in saved lists.
+export default function StartupCard({ startup, onPress, saved, onToggleSave, children }: Props) {
+  return (
+    <TouchableOpacity style={styles.startupCard} onPress={onPress}>
+      <View style={styles.cardHeader}>
+        <Text style={styles.companyName}>{startup.company_name}</Text>
+        {startup.founded_year && (
+          <Text style={styles.yearBadge}>{startup.founded_year}</Text>
+        )}
+        {onToggleSave && <SaveButton saved={!!saved} onPress={onToggleSave} />}
+      </View>
+
+      {startup.tagline && (
+        <Text style={styles.tagline} numberOfLines={2}>
+          {startup.tagline}
+        </Text>
+      )}
+
+      <View style={styles.cardDetails}>
+        {startup.industry && (
+          <View style={styles.detailItem}>
+            <Text style={styles.detailIcon}>🏢</Text>
+            <Text style={styles.detailText} numberOfLines={1}>
+              {startup.industry.split(',')[0]}
+            </Text>
+          </View>
+        )}
+
+        {startup.location && (
+          <View style={styles.detailItem}>
+            <Text style={styles.detailIcon}>📍</Text>
+            <Text style={styles.detailText}>{startup.location}</Text>
+          </View>
+        )}
+
+        {startup.website && (
+          <View style={styles.detailItem}>
+            <Text style={styles.detailIcon}>🌐</Text>
+            <Text style={styles.detailText} numberOfLines={1}>
+              {startup.website}
+            </Text>
+          </View>
+        )}
+      </View>
+
+      {children}
+
+      <View style={styles.viewDetailsButton}>
+        <Text style={styles.viewDetailsText}>View Details →</Text>
+      </View>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  startupCard: {
+    backgroundColor: '#fff',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  companyName: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    flex: 1,
+  },
+  yearBadge: {
+    fontSize: 12,
+    color: '#666',
+    backgroundColor: '#f0f0f0',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  tagline: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 12,
+    lineHeight: 20,
+  },
+  cardDetails: {
+    marginBottom: 12,
+  },
+  detailItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  detailIcon: {
+    fontSize: 14,
+    marginRight: 8,
+  },
+  detailText: {
+    fontSize: 14,
+    color: '#666',
+    flex: 1,
+  },
+  viewDetailsButton: {
+    paddingTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  viewDetailsText: {
+    fontSize: 14,
+    color: '#007bff',
+    fontWeight: '600',
+  },
+});
@@ -1,6 +1,7 @@
 // Import React and hooks so we can make a provider and use context.
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import { supabase } from '../../supabaseClient';
+import { UserRepository } from '../../services/data/user.repository';
 
 // Define the allowed role values. `null` means no role selected yet (AFL step).
 export type Role = 'startup' | 'investor' | 'admin' | 'super_admin' | null;
@@ -73,13 +74,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         // If we have a logged-in user, fetch their profile row from `users`.
         const userId = session.user.id;
         try {
-          const { data: profile, error } = await supabase
-            .from('users')
-            .select('id, public_id, role')
-            .eq('id', userId)
-            .single();
+          const profile = await UserRepository.getProfile(userId);
 
-          if (!error && profile && mounted) {
+          if (profile && mounted) {
             setUser({ id: profile.id, public_id: profile.public_id, role: profile.role, email: session.user.email ?? null });
           } else if (mounted) {
             // No profile row yet: treat as logged-in but role not selected.
@@ -103,7 +100,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
           const uid = session.user.id;
           (async () => {
             try {
-              const { data: profile } = await supabase.from('users').select('id, public_id, role').eq('id', uid).single();
+              const profile = await UserRepository.getProfile(uid);
               if (profile) setUser({ id: profile.id, public_id: profile.public_id, role: profile.role, email: session?.user?.email ?? null });
               else setUser({ id: uid, public_id: null, role: null, email: session?.user?.email ?? null });
             } catch (err) {
@@ -200,18 +197,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     const public_id = r ? `${r}-${Date.now().toString().slice(-6)}` : null;
 
     try {
-      const { error } = await supabase
-        .from('users')
-        .update({
-          public_id,
-          role: r,
-        })
-        .eq('id', user.id);
-
-      if (error) {
-        console.error('setRole update failed:', error);
-      }
-
+      await UserRepository.setRoleAndPublicId(user.id, r, public_id);
       setUser({ ...user, public_id, role: r });
     } catch (err) {
       console.error('setRole exception:', err);
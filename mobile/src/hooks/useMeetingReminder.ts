@@ -0,0 +1,39 @@
+import { useEffect, useState } from 'react';
+import { MessageSide } from '../../services/message/message.service';
+import { dueReminder, loadUpcomingMeetings, UpcomingMeeting } from '../../services/meeting/meeting.service';
+
+// How often the reminder is re-checked while the screen is open.
+const CHECK_INTERVAL_MS = 60 * 1000;
+
+// useMeetingReminder finds the viewer's next confirmed meeting once it is
+// less than a day away, for the reminder banner on the home screens.
+// Meetings are reloaded every few minutes; in between, the same list is
+// re-checked every minute so the banner appears and clears on time.
+export function useMeetingReminder(side: MessageSide, ownId: string | null) {
+  const [meetings, setMeetings] = useState<UpcomingMeeting[]>([]);
+  const [now, setNow] = useState(() => new Date());
+
+  const reload = async () => {
+    if (!ownId) return;
+    try {
+      setMeetings(await loadUpcomingMeetings(side, ownId));
+      setNow(new Date());
+    } catch (error) {
+      console.error('Error loading upcoming meetings:', error);
+    }
+  };
+
+  useEffect(() => {
+    if (!ownId) return;
+    reload();
+    let ticks = 0;
+    const timer = setInterval(() => {
+      ticks++;
+      if (ticks % 5 === 0) reload();
+      else setNow(new Date());
+    }, CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [side, ownId]);
+
+  return { reminder: dueReminder(meetings, now), now, reload };
+}
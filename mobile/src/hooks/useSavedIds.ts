@@ -0,0 +1,49 @@
+import { useEffect, useState } from 'react';
+import { Alert } from 'react-native';
+import { emptySavedIds, loadSavedIds, SavedIds, SavedTarget, setSaved } from '../../services/saved/saved.service';
+
+// useSavedIds tracks which startups, investors and campaigns the user has
+// saved, for the save stars on browse lists. `toggle` updates the star
+// straight away and puts it back if the change could not be stored.
+export function useSavedIds(ownerId: string | null | undefined) {
+  const [savedIds, setSavedIds] = useState<SavedIds>(emptySavedIds());
+
+  const reload = async () => {
+    if (!ownerId) return;
+    try {
+      setSavedIds(await loadSavedIds(ownerId));
+    } catch (error) {
+      console.error('Error loading saved items:', error);
+    }
+  };
+
+  useEffect(() => {
+    reload();
+  }, [ownerId]);
+
+  const flip = (target: SavedTarget, saved: boolean) =>
+    setSavedIds(prev => {
+      const next = { ...prev, [target.type]: new Set(prev[target.type]) };
+      if (saved) next[target.type].add(target.id);
+      else next[target.type].delete(target.id);
+      return next;
+    });
+
+  const isSaved = (target: SavedTarget) => savedIds[target.type].has(target.id);
+
+  const toggle = async (target: SavedTarget) => {
+    if (!ownerId) {
+      Alert.alert('Error', 'Please login to save items');
+      return;
+    }
+    const saved = !isSaved(target);
+    flip(target, saved);
+    const result = await setSaved(ownerId, target, saved);
+    if (result.success === false) {
+      flip(target, !saved);
+      Alert.alert('Not saved', result.error);
+    }
+  };
+
+  return { isSaved, toggle, reload };
+}
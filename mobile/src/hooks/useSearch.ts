@@ -0,0 +1,101 @@
+import { useEffect, useRef, useState } from 'react';
+import { Facet, loadFacets, search, SearchResultRow, SORT_OPTIONS } from '../../services/search/search.service';
+import { activeFacetCount, findSort, SearchEntity, SearchFacets } from '../../utils/search.util';
+
+// How long typing must pause before a search runs.
+const DEBOUNCE_MS = 300;
+
+/*
+ * useSearch runs a server-side search for one browse list. Text is
+ * debounced; changing the text, a facet or the sort starts again from the
+ * first page, and `loadMore` appends the next one. Responses that arrive
+ * after a newer search started are dropped.
+ *
+ * `fixed` facets (e.g. the campaign type tab) always apply and are not
+ * counted as filters the user chose.
+ */
+export function useSearch<E extends SearchEntity>(entity: E, fixed: SearchFacets = {}) {
+  const [text, setText] = useState('');
+  const [debouncedText, setDebouncedText] = useState('');
+  const [facets, setFacets] = useState<SearchFacets>({});
+  const [sortKey, setSortKey] = useState(SORT_OPTIONS[entity][0].key);
+  const [rows, setRows] = useState<SearchResultRow[E][]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [facetOptions, setFacetOptions] = useState<Facet[]>([]);
+  const latest = useRef(0);
+  const fixedKey = JSON.stringify(fixed);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedText(text), DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [text]);
+
+  const run = async (nextPage: number) => {
+    const request = latest.current + 1;
+    latest.current = request;
+    if (nextPage === 0) setLoading(true);
+    else setLoadingMore(true);
+    try {
+      const result = await search(entity, {
+        text: debouncedText,
+        facets: { ...facets, ...fixed },
+        sort: findSort(SORT_OPTIONS[entity], sortKey),
+        page: nextPage
+      });
+      if (request !== latest.current) return;
+      setRows(prev => (nextPage === 0 ? result.rows : [...prev, ...result.rows]));
+      setTotal(result.total);
+      setPage(nextPage);
+    } catch (error) {
+      console.error(`Error searching ${entity}:`, error);
+    } finally {
+      if (request === latest.current) {
+        setLoading(false);
+        setLoadingMore(false);
+      }
+    }
+  };
+
+  useEffect(() => {
+    run(0);
+  }, [entity, debouncedText, JSON.stringify(facets), sortKey, fixedKey]);
+
+  useEffect(() => {
+    loadFacets(entity, debouncedText)
+      .then(setFacetOptions)
+      .catch(error => console.error(`Error loading ${entity} filters:`, error));
+  }, [entity, debouncedText]);
+
+  const setFacet = (key: keyof SearchFacets, value: string | null) =>
+    setFacets(prev => ({ ...prev, [key]: prev[key] === value ? null : value }));
+
+  const hasMore = rows.length < total;
+
+  return {
+    text,
+    setText,
+    facets,
+    setFacet,
+    clearFacets: () => setFacets({}),
+    facetOptions,
+    sortKey,
+    setSortKey,
+    sortOptions: SORT_OPTIONS[entity],
+    rows,
+    total,
+    loading,
+    loadingMore,
+    hasMore,
+    loadMore: () => {
+      if (hasMore && !loadingMore) run(page + 1);
+    },
+    reload: () => run(0),
+    // Whether the user searched, filtered or re-sorted; screens with a
+    // recommended list show it until they do.
+    isFiltering:
+      debouncedText.trim() !== '' || activeFacetCount(facets) > 0 || sortKey !== SORT_OPTIONS[entity][0].key
+  };
+}
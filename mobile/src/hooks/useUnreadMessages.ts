@@ -0,0 +1,26 @@
+import { useEffect, useState } from 'react';
+import { countUnread, MessageSide, watchMessages } from '../../services/message/message.service';
+
+// useUnreadMessages counts unread messages across the viewer's
+// conversations, for the badge on the home screen's Messages tab. It
+// follows new messages and read receipts as they happen.
+export function useUnreadMessages(side: MessageSide, ownId: string | null, userId: string | null | undefined) {
+  const [unread, setUnread] = useState(0);
+
+  const reload = async () => {
+    if (!ownId || !userId) return;
+    try {
+      setUnread(await countUnread(side, ownId, userId));
+    } catch (error) {
+      console.error('Error counting unread messages:', error);
+    }
+  };
+
+  useEffect(() => {
+    if (!ownId || !userId) return;
+    reload();
+    return watchMessages(null, reload);
+  }, [side, ownId, userId]);
+
+  return { unread, reload };
+}
@@ -0,0 +1,27 @@
+import { useEffect, useState } from 'react';
+import { countUnread, UNREAD_POLL_MS } from '../../services/notification/notification.service';
+
+// useUnreadNotifications counts the viewer's unread in-app notifications,
+// for the badge on the notification bell. Notifications are written by
+// the server, so the count is polled rather than followed live.
+export function useUnreadNotifications(userId: string | null | undefined) {
+  const [unread, setUnread] = useState(0);
+
+  const reload = async () => {
+    if (!userId) return;
+    try {
+      setUnread(await countUnread(userId));
+    } catch (error) {
+      console.error('Error counting unread notifications:', error);
+    }
+  };
+
+  useEffect(() => {
+    if (!userId) return;
+    reload();
+    const timer = setInterval(reload, UNREAD_POLL_MS);
+    return () => clearInterval(timer);
+  }, [userId]);
+
+  return { unread, reload };
+}
@@ -11,8 +11,17 @@ import InvestorProfileForm from '../screens/InvestorProfileForm';
 import AdminDashboard from '../screens/AdminDashboard';
 import StartupManagement from '../screens/StartupManagement';
 import InvestorManagement from '../screens/InvestorManagement';
+import PaymentManagement from '../screens/PaymentManagement';
+import LedgerScreen from '../screens/LedgerScreen';
 import SuperAdminDashboard from '../screens/SuperAdminDashboard';
 import UserManagement from '../screens/UserManagement';
+import CampaignReviewQueue from '../screens/CampaignReviewQueue';
+import CampaignReview from '../screens/CampaignReview';
+import CampaignInterests from '../screens/CampaignInterests';
+import ConversationScreen from '../screens/ConversationScreen';
+import MeetingScheduler from '../screens/MeetingScheduler';
+import AuditLog from '../screens/AuditLog';
+import NotificationsScreen from '../screens/NotificationsScreen';
 // Import fundraising screens
 import FundraisingDashboard from '../screens/FundraisingDashboard';
 import FundraisingCampaignForm from '../screens/FundraisingCampaignForm';
@@ -24,13 +33,16 @@ import InvestorHome from '../screens/InvestorHome';
 import StartupDetail from '../screens/StartupDetail';
 import InvestorDetail from '../screens/InvestorDetail';
 import SettingsScreen from '../screens/SettingsScreen';
+import AadhaarVerification from '../screens/AadhaarVerification';
+import KycStatus from '../screens/KycStatus';
 // Import the auth hook so we can read the authenticated user's role.
 import { useAuth } from '../context/AuthContext';
 import RoleSelectionScreen from '../screens/RoleSelectionScreen';
 import LoginScreen from '../screens/LoginScreen';
 import SignupScreen from '../screens/SignupScreen';
 import ForgotPasswordScreen from '../screens/ForgotPasswordScreen';
-import { supabase } from '../../supabaseClient';
+import { StartupRepository } from '../../services/data/startup.repository';
+import { InvestorRepository } from '../../services/data/investor.repository';
 
 // Define the type for stack routes, including admin screens.
 type RootStackParamList = {
@@ -52,12 +64,23 @@ type RootStackParamList = {
   AdminDashboard: undefined;
   StartupManagement: undefined;
   InvestorManagement: undefined;
+  PaymentManagement: undefined;
+  Ledger: undefined;
   SuperAdminDashboard: undefined;
   UserManagement: undefined;
+  CampaignReviewQueue: undefined;
+  CampaignReview: { campaignId: string };
+  AuditLog: undefined;
   FundraisingDashboard: undefined;
   FundraisingCampaignForm: undefined;
   FundraisingBrowse: undefined;
   FundraisingCampaignDetail: { campaignId: string };
+  CampaignInterests: { campaignId: string };
+  Conversation: { interestId: string };
+  MeetingScheduler: { interestId: string };
+  Notifications: undefined;
+  AadhaarVerification: undefined;
+  KycStatus: undefined;
 };
 
 // Create the Stack navigator using the param list type.
@@ -79,14 +102,11 @@ export default function RootNavigator() {
       }
 
       try {
-        const tableName = user.role === 'startup' ? 'startups' : 'investors';
-        const { data, error } = await supabase
-          .from(tableName)
-          .select('id')
-          .eq('owner_id', user.id)
-          .single();
+        const profileId = user.role === 'startup'
+          ? await StartupRepository.findIdByOwner(user.id)
+          : await InvestorRepository.findIdByOwner(user.id);
 
-        if (!error && data) {
+        if (profileId) {
           setProfileCompleted(true);
         } else {
           setProfileCompleted(false);
@@ -168,6 +188,12 @@ export default function RootNavigator() {
           <Stack.Screen name="StartupDashboard" component={StartupDashboard} />
           <Stack.Screen name="FundraisingDashboard" component={FundraisingDashboard} />
           <Stack.Screen name="FundraisingCampaignForm" component={FundraisingCampaignForm} />
+          <Stack.Screen name="CampaignInterests" component={CampaignInterests} options={{ title: 'Investor Pipeline' }} />
+          <Stack.Screen name="Conversation" component={ConversationScreen} options={{ title: 'Messages' }} />
+          <Stack.Screen name="MeetingScheduler" component={MeetingScheduler} options={{ title: 'Meeting' }} />
+          <Stack.Screen name="Notifications" component={NotificationsScreen} options={{ title: 'Notifications' }} />
+          <Stack.Screen name="AadhaarVerification" component={AadhaarVerification} options={{ title: 'Aadhaar' }} />
+          <Stack.Screen name="KycStatus" component={KycStatus} options={{ title: 'Verification' }} />
         </Stack.Navigator>
       );
     }
@@ -196,6 +222,12 @@ export default function RootNavigator() {
         />
         <Stack.Screen name="FundraisingDashboard" component={FundraisingDashboard} />
         <Stack.Screen name="FundraisingCampaignForm" component={FundraisingCampaignForm} />
+        <Stack.Screen name="CampaignInterests" component={CampaignInterests} options={{ title: 'Investor Pipeline' }} />
+        <Stack.Screen name="Conversation" component={ConversationScreen} options={{ title: 'Messages' }} />
+        <Stack.Screen name="MeetingScheduler" component={MeetingScheduler} options={{ title: 'Meeting' }} />
+        <Stack.Screen name="Notifications" component={NotificationsScreen} options={{ title: 'Notifications' }} />
+        <Stack.Screen name="AadhaarVerification" component={AadhaarVerification} options={{ title: 'Aadhaar' }} />
+        <Stack.Screen name="KycStatus" component={KycStatus} options={{ title: 'Verification' }} />
       </Stack.Navigator>
     );
   }
@@ -237,6 +269,11 @@ export default function RootNavigator() {
           <Stack.Screen name="InvestorDashboard" component={InvestorDashboard} />
           <Stack.Screen name="FundraisingBrowse" component={FundraisingBrowse} />
           <Stack.Screen name="FundraisingCampaignDetail" component={FundraisingCampaignDetail} />
+          <Stack.Screen name="Conversation" component={ConversationScreen} options={{ title: 'Messages' }} />
+          <Stack.Screen name="MeetingScheduler" component={MeetingScheduler} options={{ title: 'Meeting' }} />
+          <Stack.Screen name="Notifications" component={NotificationsScreen} options={{ title: 'Notifications' }} />
+          <Stack.Screen name="AadhaarVerification" component={AadhaarVerification} options={{ title: 'Aadhaar' }} />
+          <Stack.Screen name="KycStatus" component={KycStatus} options={{ title: 'Verification' }} />
         </Stack.Navigator>
       );
     }
@@ -264,6 +301,11 @@ export default function RootNavigator() {
         />
         <Stack.Screen name="FundraisingBrowse" component={FundraisingBrowse} />
         <Stack.Screen name="FundraisingCampaignDetail" component={FundraisingCampaignDetail} />
+        <Stack.Screen name="Conversation" component={ConversationScreen} options={{ title: 'Messages' }} />
+        <Stack.Screen name="MeetingScheduler" component={MeetingScheduler} options={{ title: 'Meeting' }} />
+        <Stack.Screen name="Notifications" component={NotificationsScreen} options={{ title: 'Notifications' }} />
+        <Stack.Screen name="AadhaarVerification" component={AadhaarVerification} options={{ title: 'Aadhaar' }} />
+        <Stack.Screen name="KycStatus" component={KycStatus} options={{ title: 'Verification' }} />
       </Stack.Navigator>
     );
   }
@@ -274,6 +316,12 @@ export default function RootNavigator() {
         <Stack.Screen name="AdminDashboard" component={AdminDashboard} />
         <Stack.Screen name="StartupManagement" component={StartupManagement} />
         <Stack.Screen name="InvestorManagement" component={InvestorManagement} />
+        <Stack.Screen name="PaymentManagement" component={PaymentManagement} options={{ title: 'Payments' }} />
+        <Stack.Screen name="Ledger" component={LedgerScreen} options={{ title: 'Ledger' }} />
+        <Stack.Screen name="CampaignReviewQueue" component={CampaignReviewQueue} options={{ title: 'Campaign Review' }} />
+        <Stack.Screen name="CampaignReview" component={CampaignReview} options={{ title: 'Review Campaign' }} />
+        <Stack.Screen name="AuditLog" component={AuditLog} options={{ title: 'Audit Log' }} />
+        <Stack.Screen name="Notifications" component={NotificationsScreen} options={{ title: 'Notifications' }} />
       </Stack.Navigator>
     );
   }
@@ -285,6 +333,12 @@ export default function RootNavigator() {
         <Stack.Screen name="UserManagement" component={UserManagement} />
         <Stack.Screen name="StartupManagement" component={StartupManagement} />
         <Stack.Screen name="InvestorManagement" component={InvestorManagement} />
+        <Stack.Screen name="PaymentManagement" component={PaymentManagement} options={{ title: 'Payments' }} />
+        <Stack.Screen name="Ledger" component={LedgerScreen} options={{ title: 'Ledger' }} />
+        <Stack.Screen name="CampaignReviewQueue" component={CampaignReviewQueue} options={{ title: 'Campaign Review' }} />
+        <Stack.Screen name="CampaignReview" component={CampaignReview} options={{ title: 'Review Campaign' }} />
+        <Stack.Screen name="AuditLog" component={AuditLog} options={{ title: 'Audit Log' }} />
+        <Stack.Screen name="Notifications" component={NotificationsScreen} options={{ title: 'Notifications' }} />
       </Stack.Navigator>
     );
   }
@@ -310,6 +364,7 @@ export default function RootNavigator() {
           <Stack.Screen name="FundraisingCampaignForm" component={FundraisingCampaignForm} />
           <Stack.Screen name="FundraisingBrowse" component={FundraisingBrowse} />
           <Stack.Screen name="FundraisingCampaignDetail" component={FundraisingCampaignDetail} />
+          <Stack.Screen name="CampaignInterests" component={CampaignInterests} options={{ title: 'Investor Pipeline' }} />
         </>
       )}
 
@@ -319,6 +374,11 @@ export default function RootNavigator() {
           <Stack.Screen name="AdminDashboard" component={AdminDashboard} />
           <Stack.Screen name="StartupManagement" component={StartupManagement} />
           <Stack.Screen name="InvestorManagement" component={InvestorManagement} />
+          <Stack.Screen name="PaymentManagement" component={PaymentManagement} options={{ title: 'Payments' }} />
+          <Stack.Screen name="Ledger" component={LedgerScreen} options={{ title: 'Ledger' }} />
+          <Stack.Screen name="CampaignReviewQueue" component={CampaignReviewQueue} options={{ title: 'Campaign Review' }} />
+          <Stack.Screen name="CampaignReview" component={CampaignReview} options={{ title: 'Review Campaign' }} />
+          <Stack.Screen name="AuditLog" component={AuditLog} options={{ title: 'Audit Log' }} />
         </>
       )}
     </Stack.Navigator>
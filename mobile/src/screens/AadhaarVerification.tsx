@@ -0,0 +1,273 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, ActivityIndicator, ScrollView, KeyboardAvoidingView, Platform, StyleSheet } from 'react-native';
+import { useAuth } from '../context/AuthContext';
+import { AadhaarStatus } from '../../services/data/aadhaar.repository';
+import { loadAadhaarStatus, requestOtp, submitOtp } from '../../services/verification/aadhaar.service';
+import { aadhaarNumberError, maskAadhaar, normalizeAadhaar } from '../../utils/aadhaar.util';
+
+// The check waiting for its OTP.
+type PendingCheck = { checkId: string; last4: string; expiresAt: string };
+
+export default function AadhaarVerification() {
+  const { user } = useAuth();
+  const [status, setStatus] = useState<AadhaarStatus | null>(null);
+  const [aadhaarNumber, setAadhaarNumber] = useState('');
+  const [pending, setPending] = useState<PendingCheck | null>(null);
+  const [otp, setOtp] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!user.id) return;
+    loadAadhaarStatus(user.id)
+      .then(setStatus)
+      .catch(err => console.error('Error loading Aadhaar status:', err));
+  }, [user.id]);
+
+  const numberDigits = normalizeAadhaar(aadhaarNumber);
+  const numberError = numberDigits.length === 12 ? aadhaarNumberError(numberDigits) : null;
+
+  async function onRequestOtp() {
+    setError('');
+    setLoading(true);
+    try {
+      const result = await requestOtp(numberDigits);
+      if (result.success === false) {
+        setError(result.error);
+        return;
+      }
+      setPending({ checkId: result.checkId, last4: result.last4, expiresAt: result.expiresAt });
+      setOtp('');
+      // The full number is not needed again.
+      setAadhaarNumber('');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function onSubmitOtp() {
+    if (!pending) return;
+    setError('');
+    setLoading(true);
+    try {
+      const result = await submitOtp(pending.checkId, otp);
+      if (result.success === false) {
+        setError(result.error);
+        // No attempts left: the check is closed, so start again.
+        if (result.attemptsLeft === 0) setPending(null);
+        return;
+      }
+      setPending(null);
+      setStatus(user.id ? await loadAadhaarStatus(user.id) : null);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function startOver() {
+    setPending(null);
+    setOtp('');
+    setError('');
+  }
+
+  if (status?.verified) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.content}>
+          <Text style={styles.title}>Aadhaar Verified</Text>
+          <View style={styles.successContainer}>
+            <Text style={styles.successText}>
+              {maskAadhaar(status.check?.aadhaar_last4)}
+              {status.check?.verified_at ? ` · verified on ${new Date(status.check.verified_at).toLocaleDateString()}` : ''}
+            </Text>
+          </View>
+          <Text style={styles.hint}>Only the last four digits are shown. Your full number is stored encrypted.</Text>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <KeyboardAvoidingView behavior={Platform.OS === 'ios' ? 'padding' : 'height'} style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <Text style={styles.title}>Verify Aadhaar</Text>
+        <Text style={styles.subtitle}>
+          {pending
+            ? `Enter the OTP sent to the mobile number registered with ${maskAadhaar(pending.last4)}.`
+            : 'We send a one-time password to the mobile number linked to your Aadhaar.'}
+        </Text>
+
+        {error ? (
+          <View style={styles.errorContainer}>
+            <Text style={styles.errorText}>{error}</Text>
+          </View>
+        ) : null}
+
+        {!pending ? (
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Aadhaar Number</Text>
+            <TextInput
+              value={aadhaarNumber}
+              onChangeText={text => {
+                setAadhaarNumber(text.replace(/[^\d\s]/g, ''));
+                if (error) setError('');
+              }}
+              keyboardType="number-pad"
+              maxLength={14}
+              placeholder="XXXX XXXX XXXX"
+              placeholderTextColor="#9CA3AF"
+              editable={!loading}
+              style={[styles.input, styles.codeInput, numberError ? styles.inputError : null]}
+            />
+            {numberError && <Text style={styles.fieldError}>{numberError}</Text>}
+            <TouchableOpacity
+              style={[styles.button, (loading || numberDigits.length !== 12 || !!numberError) && styles.buttonDisabled]}
+              onPress={onRequestOtp}
+              disabled={loading || numberDigits.length !== 12 || !!numberError}
+            >
+              {loading ? <ActivityIndicator color="#FFFFFF" /> : <Text style={styles.buttonText}>Send OTP</Text>}
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>OTP</Text>
+            <TextInput
+              value={otp}
+              onChangeText={text => {
+                setOtp(text.replace(/\D/g, ''));
+                if (error) setError('');
+              }}
+              keyboardType="number-pad"
+              maxLength={6}
+              placeholder="6-digit code"
+              placeholderTextColor="#9CA3AF"
+              editable={!loading}
+              textContentType="oneTimeCode"
+              autoComplete="sms-otp"
+              style={[styles.input, styles.codeInput]}
+            />
+            <Text style={styles.hint}>The code expires at {new Date(pending.expiresAt).toLocaleTimeString()}.</Text>
+            <TouchableOpacity
+              style={[styles.button, (loading || otp.length !== 6) && styles.buttonDisabled]}
+              onPress={onSubmitOtp}
+              disabled={loading || otp.length !== 6}
+            >
+              {loading ? <ActivityIndicator color="#FFFFFF" /> : <Text style={styles.buttonText}>Verify</Text>}
+            </TouchableOpacity>
+            <TouchableOpacity onPress={startOver} disabled={loading}>
+              <Text style={styles.linkText}>Use a different number or resend the OTP</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  content: {
+    padding: 24,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#111827',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 15,
+    color: '#6B7280',
+    lineHeight: 22,
+    marginBottom: 24,
+  },
+  errorContainer: {
+    backgroundColor: '#FEE2E2',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 20,
+    borderLeftWidth: 4,
+    borderLeftColor: '#DC2626',
+  },
+  errorText: {
+    color: '#991B1B',
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  successContainer: {
+    backgroundColor: '#D1FAE5',
+    padding: 16,
+    borderRadius: 12,
+    marginVertical: 16,
+    borderLeftWidth: 4,
+    borderLeftColor: '#10B981',
+  },
+  successText: {
+    color: '#065F46',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  inputGroup: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 12,
+    padding: 16,
+    fontSize: 16,
+    color: '#111827',
+  },
+  codeInput: {
+    fontFamily: Platform.OS === 'ios' ? 'Courier' : 'monospace',
+    letterSpacing: 2,
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  inputError: {
+    borderColor: '#DC2626',
+  },
+  fieldError: {
+    fontSize: 12,
+    color: '#DC2626',
+    fontWeight: '600',
+    marginTop: 6,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 6,
+  },
+  button: {
+    backgroundColor: '#2563EB',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  buttonDisabled: {
+    backgroundColor: '#93C5FD',
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  linkText: {
+    fontSize: 14,
+    color: '#2563EB',
+    fontWeight: '600',
+    textAlign: 'center',
+    marginTop: 16,
+  },
+});
@@ -6,7 +6,10 @@ import { View, Text, Button, ScrollView, Platform, StyleSheet } from 'react-nati
 import { useNavigation } from '@react-navigation/native';
 // Import auth hook to show current admin info and sign out.
 import { useAuth } from '../context/AuthContext';
-import { supabase } from '../../supabaseClient';
+import { UserRepository } from '../../services/data/user.repository';
+import { StartupRepository } from '../../services/data/startup.repository';
+import { CampaignRepository } from '../../services/data/campaign.repository';
+import { useUnreadNotifications } from '../hooks/useUnreadNotifications';
 
 // AdminDashboard shows simple counts and navigation to management screens.
 export default function AdminDashboard() {
@@ -14,9 +17,10 @@ export default function AdminDashboard() {
   const navigation = useNavigation();
   // Read the authenticated user from context and signOut function.
   const { user, signOut } = useAuth();
+  const { unread: unreadNotifications, reload: reloadNotifications } = useUnreadNotifications(user.id);
 
   const [loading, setLoading] = useState(true);
-  const [counts, setCounts] = useState({ totalStartups: 0, totalInvestors: 0, unverifiedStartups: 0 });
+  const [counts, setCounts] = useState({ totalStartups: 0, totalInvestors: 0, unverifiedStartups: 0, campaignsToReview: 0 });
 
   useEffect(() => {
     let mounted = true;
@@ -24,23 +28,28 @@ export default function AdminDashboard() {
     async function loadCounts() {
       setLoading(true);
       try {
-        const { count: startupCount } = await supabase.from('users').select('id', { count: 'exact', head: true }).eq('role', 'startup');
-        const { count: investorCount } = await supabase.from('users').select('id', { count: 'exact', head: true }).eq('role', 'investor');
+        const startupCount = await UserRepository.countByRole('startup');
+        const investorCount = await UserRepository.countByRole('investor');
 
         let unverified = 0;
         try {
-          const { count: uCount } = await supabase
-            .from('startups')
-            .select('id', { count: 'exact', head: true })
-            .eq('verification_status', 'pending');
-          unverified = uCount ?? 0;
+          unverified = await StartupRepository.countByVerificationStatus('pending');
         } catch (e) {
           unverified = 0;
         }
 
-        if (mounted) setCounts({ totalStartups: startupCount ?? 0, totalInvestors: investorCount ?? 0, unverifiedStartups: unverified });
+        let toReview = 0;
+        try {
+          toReview = await CampaignRepository.countForReview();
+        } catch (e) {
+          toReview = 0;
+        }
+
+        if (mounted) {
+          setCounts({ totalStartups: startupCount, totalInvestors: investorCount, unverifiedStartups: unverified, campaignsToReview: toReview });
+        }
       } catch (err) {
-        if (mounted) setCounts({ totalStartups: 0, totalInvestors: 0, unverifiedStartups: 0 });
+        if (mounted) setCounts({ totalStartups: 0, totalInvestors: 0, unverifiedStartups: 0, campaignsToReview: 0 });
       } finally {
         if (mounted) setLoading(false);
       }
@@ -53,6 +62,9 @@ export default function AdminDashboard() {
     };
   }, []);
 
+  // Re-count unread notifications on return from the inbox.
+  useEffect(() => navigation.addListener('focus', reloadNotifications), [navigation, user.id]);
+
   function onManageStartups() {
     // @ts-ignore
     navigation.navigate('StartupManagement');
@@ -63,6 +75,31 @@ export default function AdminDashboard() {
     navigation.navigate('InvestorManagement');
   }
 
+  function onManagePayments() {
+    // @ts-ignore
+    navigation.navigate('PaymentManagement');
+  }
+
+  function onViewLedger() {
+    // @ts-ignore
+    navigation.navigate('Ledger');
+  }
+
+  function onReviewCampaigns() {
+    // @ts-ignore
+    navigation.navigate('CampaignReviewQueue');
+  }
+
+  function onViewNotifications() {
+    // @ts-ignore
+    navigation.navigate('Notifications');
+  }
+
+  function onViewAuditLog() {
+    // @ts-ignore
+    navigation.navigate('AuditLog');
+  }
+
   return (
     <ScrollView
       style={[styles.container, Platform.OS === 'web' ? styles.webScroll : null]}
@@ -80,6 +117,7 @@ export default function AdminDashboard() {
             <Text>Total Startups: {counts.totalStartups}</Text>
             <Text>Total Investors: {counts.totalInvestors}</Text>
             <Text>Unverified Startups: {counts.unverifiedStartups}</Text>
+            <Text>Campaigns Awaiting Review: {counts.campaignsToReview}</Text>
           </>
         )}
       </View>
@@ -88,6 +126,19 @@ export default function AdminDashboard() {
       <View style={{ height: 8 }} />
       <Button title="Manage Investors" onPress={onManageInvestors} />
       <View style={{ height: 8 }} />
+      <Button title="Payments" onPress={onManagePayments} />
+      <View style={{ height: 8 }} />
+      <Button title="Ledger" onPress={onViewLedger} />
+      <View style={{ height: 8 }} />
+      <Button title="Review Campaigns" onPress={onReviewCampaigns} />
+      <View style={{ height: 8 }} />
+      <Button title="Audit Log" onPress={onViewAuditLog} />
+      <View style={{ height: 8 }} />
+      <Button
+        title={unreadNotifications > 0 ? `Notifications (${unreadNotifications})` : 'Notifications'}
+        onPress={onViewNotifications}
+      />
+      <View style={{ height: 8 }} />
       <Button title="Logout" onPress={signOut} />
     </ScrollView>
   );
@@ -0,0 +1,360 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, ScrollView, TouchableOpacity, StyleSheet, Alert, TextInput, Platform, Share } from 'react-native';
+import { AuditEventFilters, AuditEventRepository } from '../../services/data/audit.repository';
+import { UserListItem, UserRepository } from '../../services/data/user.repository';
+import { AuditEventRow, AuditTargetType } from '../../services/data/database.types';
+import { AUDIT_TARGET_LABELS, auditEventsToCsv, describeAuditEvent } from '../../services/admin/audit.service';
+
+const TARGET_TYPES: AuditTargetType[] = ['startup', 'investor', 'user'];
+
+// Turn a YYYY-MM-DD field into the start of that day (local time) as an
+// ISO timestamp, `addDays` later. Empty input means no bound; anything
+// else that is not a date returns undefined.
+function dayStart(text: string, addDays = 0): string | null | undefined {
+  const value = text.trim();
+  if (!value) return null;
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return undefined;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]) + addDays);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+// AuditLog lists admin actions from `audit_events`, newest first, with
+// filters for who acted, what they acted on and when. The filtered list
+// can be exported as CSV.
+export default function AuditLog() {
+  const [events, setEvents] = useState<AuditEventRow[]>([]);
+  const [admins, setAdmins] = useState<UserListItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [actorId, setActorId] = useState<string | null>(null);
+  const [targetType, setTargetType] = useState<AuditTargetType | null>(null);
+  const [targetId, setTargetId] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadAdmins();
+    loadEvents();
+  }, []);
+
+  const loadAdmins = async () => {
+    try {
+      const users = await UserRepository.list();
+      setAdmins(users.filter(u => u.role === 'admin' || u.role === 'super_admin'));
+    } catch (error) {
+      console.error('Error loading admins:', error);
+    }
+  };
+
+  const loadEvents = async (filters: AuditEventFilters = {}) => {
+    setLoading(true);
+    try {
+      setEvents(await AuditEventRepository.list(filters));
+    } catch (error) {
+      console.error('Error loading audit events:', error);
+      Alert.alert('Error', 'Failed to load the audit log');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const applyFilters = () => {
+    const from = dayStart(fromDate);
+    // The "to" day is included, so the bound is the start of the next day.
+    const to = dayStart(toDate, 1);
+    if (from === undefined || to === undefined) {
+      Alert.alert('Invalid date', 'Enter dates as YYYY-MM-DD.');
+      return;
+    }
+    loadEvents({
+      actorId: actorId ?? undefined,
+      targetType: targetType ?? undefined,
+      targetId: targetId.trim() || undefined,
+      from: from ?? undefined,
+      to: to ?? undefined
+    });
+  };
+
+  const exportCsv = async () => {
+    if (events.length === 0) {
+      Alert.alert('Nothing to export', 'No events match the current filters.');
+      return;
+    }
+    const csv = auditEventsToCsv(events);
+    const filename = `audit-log-${new Date().toISOString().slice(0, 10)}.csv`;
+    try {
+      if (Platform.OS === 'web') {
+        const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = filename;
+        link.click();
+        URL.revokeObjectURL(url);
+      } else {
+        await Share.share({ title: filename, message: csv });
+      }
+    } catch (error) {
+      console.error('Error exporting audit log:', error);
+      Alert.alert('Error', 'Failed to export the audit log');
+    }
+  };
+
+  const adminName = (id: string | null) => {
+    const admin = admins.find(a => a.id === id);
+    return admin?.email || admin?.public_id || id || 'Unknown';
+  };
+
+  const formatDate = (value: string) => new Date(value).toLocaleString();
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Text style={styles.title}>Audit Log</Text>
+      <Text style={styles.subtitle}>
+        {loading ? 'Loading...' : `${events.length} event${events.length === 1 ? '' : 's'}`}
+      </Text>
+
+      <View style={styles.section}>
+        <Text style={styles.label}>Admin</Text>
+        <View style={styles.chips}>
+          <TouchableOpacity style={[styles.chip, !actorId && styles.chipActive]} onPress={() => setActorId(null)}>
+            <Text style={[styles.chipText, !actorId && styles.chipTextActive]}>All</Text>
+          </TouchableOpacity>
+          {admins.map(admin => (
+            <TouchableOpacity
+              key={admin.id}
+              style={[styles.chip, actorId === admin.id && styles.chipActive]}
+              onPress={() => setActorId(admin.id)}
+            >
+              <Text style={[styles.chipText, actorId === admin.id && styles.chipTextActive]}>
+                {admin.email || admin.public_id}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Text style={styles.label}>Target</Text>
+        <View style={styles.chips}>
+          <TouchableOpacity style={[styles.chip, !targetType && styles.chipActive]} onPress={() => setTargetType(null)}>
+            <Text style={[styles.chipText, !targetType && styles.chipTextActive]}>All</Text>
+          </TouchableOpacity>
+          {TARGET_TYPES.map(type => (
+            <TouchableOpacity
+              key={type}
+              style={[styles.chip, targetType === type && styles.chipActive]}
+              onPress={() => setTargetType(type)}
+            >
+              <Text style={[styles.chipText, targetType === type && styles.chipTextActive]}>
+                {AUDIT_TARGET_LABELS[type]}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <TextInput
+          style={styles.input}
+          value={targetId}
+          onChangeText={setTargetId}
+          placeholder="Target id (optional)"
+          autoCapitalize="none"
+        />
+
+        <Text style={styles.label}>Date range</Text>
+        <View style={styles.dateRow}>
+          <TextInput
+            style={[styles.input, styles.dateInput]}
+            value={fromDate}
+            onChangeText={setFromDate}
+            placeholder="From YYYY-MM-DD"
+            autoCapitalize="none"
+          />
+          <TextInput
+            style={[styles.input, styles.dateInput]}
+            value={toDate}
+            onChangeText={setToDate}
+            placeholder="To YYYY-MM-DD"
+            autoCapitalize="none"
+          />
+        </View>
+
+        <View style={styles.actions}>
+          <TouchableOpacity style={[styles.actionButton, styles.applyButton]} onPress={applyFilters}>
+            <Text style={styles.actionText}>Apply Filters</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={[styles.actionButton, styles.exportButton]} onPress={exportCsv}>
+            <Text style={styles.actionText}>Export CSV</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      {!loading && events.length === 0 && (
+        <View style={styles.emptyState}>
+          <Text style={styles.emptyText}>No events match these filters.</Text>
+        </View>
+      )}
+
+      {events.map(event => (
+        <TouchableOpacity
+          key={event.id}
+          style={styles.card}
+          onPress={() => setExpandedId(expandedId === event.id ? null : event.id)}
+        >
+          <Text style={styles.eventTitle}>{describeAuditEvent(event)}</Text>
+          <Text style={styles.meta}>
+            {formatDate(event.created_at)} · {adminName(event.actor_id)} ({event.actor_role || 'unknown role'})
+          </Text>
+          <Text style={styles.meta}>
+            {AUDIT_TARGET_LABELS[event.target_type] ?? event.target_type} {event.target_id}
+          </Text>
+          {expandedId === event.id && (
+            <View style={styles.snapshots}>
+              <Text style={styles.snapshotLabel}>Before</Text>
+              <Text style={styles.snapshot}>{event.before ? JSON.stringify(event.before, null, 2) : '—'}</Text>
+              <Text style={styles.snapshotLabel}>After</Text>
+              <Text style={styles.snapshot}>{event.after ? JSON.stringify(event.after, null, 2) : '—'}</Text>
+            </View>
+          )}
+        </TouchableOpacity>
+      ))}
+
+      <View style={{ height: 40 }} />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  content: {
+    padding: 16,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 16,
+  },
+  section: {
+    backgroundColor: '#fff',
+    padding: 16,
+    borderRadius: 8,
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginTop: 8,
+    marginBottom: 6,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginBottom: 6,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 14,
+    backgroundColor: '#e9ecef',
+  },
+  chipActive: {
+    backgroundColor: '#007bff',
+  },
+  chipText: {
+    fontSize: 12,
+    color: '#333',
+  },
+  chipTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 6,
+    padding: 10,
+    fontSize: 14,
+    backgroundColor: '#fff',
+    marginBottom: 6,
+  },
+  dateRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  dateInput: {
+    flex: 1,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 10,
+  },
+  actionButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 6,
+    alignItems: 'center',
+  },
+  applyButton: {
+    backgroundColor: '#007bff',
+  },
+  exportButton: {
+    backgroundColor: '#28a745',
+  },
+  actionText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  emptyState: {
+    backgroundColor: '#fff',
+    padding: 24,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+  },
+  card: {
+    backgroundColor: '#fff',
+    padding: 16,
+    borderRadius: 8,
+    marginBottom: 12,
+    borderLeftWidth: 4,
+    borderLeftColor: '#343a40',
+  },
+  eventTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 4,
+  },
+  meta: {
+    fontSize: 12,
+    color: '#555',
+    marginBottom: 2,
+  },
+  snapshots: {
+    marginTop: 8,
+  },
+  snapshotLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#333',
+    marginTop: 6,
+  },
+  snapshot: {
+    fontSize: 11,
+    color: '#555',
+    fontFamily: Platform.OS === 'ios' ? 'Courier' : 'monospace',
+  },
+});
@@ -0,0 +1,306 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, ScrollView, TouchableOpacity, StyleSheet, Alert } from 'react-native';
+import { useNavigation, useRoute } from '@react-navigation/native';
+import { CampaignRepository } from '../../services/data/campaign.repository';
+import { InterestRepository, InterestWithInvestor } from '../../services/data/interest.repository';
+import { MatchRepository } from '../../services/data/match.repository';
+import { InterestStatus } from '../../services/data/database.types';
+import {
+  advanceInterest,
+  canConfirm,
+  INTEREST_STAGE_LABELS,
+  interestStage,
+  nextStageFor
+} from '../../services/campaign/commitment.service';
+import { likeInvestor, matchAnnouncement } from '../../services/match/match.service';
+
+// CampaignInterests is the startup's pipeline for one campaign: every
+// investor who expressed interest, the stage they are at, and a button to
+// move them on. Proposing meeting times moves an interest to meeting
+// scheduled once the investor accepts one. Investors confirm the final
+// amount themselves once they have been contacted. Liking an investor
+// back makes a match, which unlocks both sides' contact details.
+export default function CampaignInterests() {
+  const navigation = useNavigation();
+  const route = useRoute();
+  const campaignId = (route.params as any)?.campaignId as string | undefined;
+  const [interests, setInterests] = useState<InterestWithInvestor[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [startupId, setStartupId] = useState<string | null>(null);
+  const [likedIds, setLikedIds] = useState<Set<string>>(new Set());
+  const [likingId, setLikingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadInterests();
+    const unsubscribe = navigation.addListener('focus', loadInterests);
+    return unsubscribe;
+  }, [navigation, campaignId]);
+
+  const loadInterests = async () => {
+    if (!campaignId) return;
+    try {
+      const [rows, campaign] = await Promise.all([
+        InterestRepository.listForCampaignWithInvestor(campaignId),
+        CampaignRepository.getById(campaignId)
+      ]);
+      setInterests(rows);
+      setStartupId(campaign?.startup_id ?? null);
+      if (campaign?.startup_id) {
+        setLikedIds(new Set(await MatchRepository.listLikedInvestorIds(campaign.startup_id)));
+      }
+    } catch (error) {
+      console.error('Error loading interests:', error);
+      Alert.alert('Error', 'Failed to load investor interest');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAdvance = async (interest: InterestWithInvestor) => {
+    setUpdatingId(interest.id);
+    try {
+      const result = await advanceInterest(interest);
+      if (result.success === false) {
+        Alert.alert('Cannot update interest', result.error);
+      }
+      await loadInterests();
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleLikeBack = async (interest: InterestWithInvestor) => {
+    if (!startupId || !interest.investor_id) return;
+    setLikingId(interest.id);
+    try {
+      const result = await likeInvestor(startupId, interest.investor_id);
+      if (result.success === false) {
+        Alert.alert('Not saved', result.error);
+        return;
+      }
+      setLikedIds(prev => new Set(prev).add(interest.investor_id as string));
+      if (result.match) {
+        const name = interest.investors?.investor_name || interest.investors?.company_name || 'This investor';
+        Alert.alert("It's a match!", matchAnnouncement(name));
+      }
+    } finally {
+      setLikingId(null);
+    }
+  };
+
+  const getStageColor = (stage: InterestStatus) => {
+    switch (stage) {
+      case 'pending': return '#ffc107';
+      case 'contacted': return '#17a2b8';
+      case 'meeting_scheduled': return '#007bff';
+      case 'invested': return '#28a745';
+      default: return '#6c757d';
+    }
+  };
+
+  const formatAmount = (value: number | null) => (value ? `₹${Number(value).toLocaleString()}` : 'Not specified');
+
+  const invested = interests.filter(i => interestStage(i) === 'invested');
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Text style={styles.title}>Investor Pipeline</Text>
+      <Text style={styles.subtitle}>
+        {loading
+          ? 'Loading...'
+          : `${interests.length} interested · ${invested.length} invested`}
+      </Text>
+
+      {!loading && interests.length === 0 && (
+        <View style={styles.emptyState}>
+          <Text style={styles.emptyText}>No investors have expressed interest yet.</Text>
+        </View>
+      )}
+
+      {interests.map(interest => {
+        const stage = interestStage(interest);
+        const next = nextStageFor(interest);
+        return (
+          <View key={interest.id} style={[styles.card, { borderLeftColor: getStageColor(stage) }]}>
+            <View style={styles.cardHeader}>
+              <Text style={styles.investorName}>
+                {interest.investors?.investor_name || interest.investors?.company_name || 'Investor'}
+              </Text>
+              <View style={[styles.stageBadge, { backgroundColor: getStageColor(stage) }]}>
+                <Text style={styles.stageText}>{INTEREST_STAGE_LABELS[stage]}</Text>
+              </View>
+            </View>
+            {interest.investors?.company_name && interest.investors?.investor_name && (
+              <Text style={styles.meta}>{interest.investors.company_name}</Text>
+            )}
+            <Text style={styles.meta}>Proposed: {formatAmount(interest.proposed_investment)}</Text>
+            {interest.notes ? <Text style={styles.notes}>{interest.notes}</Text> : null}
+
+            {next && (
+              <TouchableOpacity
+                style={styles.advanceButton}
+                onPress={() => handleAdvance(interest)}
+                disabled={updatingId === interest.id}
+              >
+                <Text style={styles.advanceButtonText}>
+                  {updatingId === interest.id ? 'Updating...' : next.label}
+                </Text>
+              </TouchableOpacity>
+            )}
+            {startupId && interest.investor_id && (
+              likedIds.has(interest.investor_id) ? (
+                <Text style={styles.likedText}>♥ Liked back · see Matches for contact details</Text>
+              ) : (
+                <TouchableOpacity
+                  style={styles.likeButton}
+                  onPress={() => handleLikeBack(interest)}
+                  disabled={likingId === interest.id}
+                >
+                  <Text style={styles.likeButtonText}>{likingId === interest.id ? 'Saving...' : '♡ Like back'}</Text>
+                </TouchableOpacity>
+              )
+            )}
+            <TouchableOpacity
+              style={styles.messageButton}
+              onPress={() => (navigation as any).navigate('Conversation', { interestId: interest.id })}
+            >
+              <Text style={styles.messageButtonText}>💬 Message</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.messageButton}
+              onPress={() => (navigation as any).navigate('MeetingScheduler', { interestId: interest.id })}
+            >
+              <Text style={styles.messageButtonText}>📅 {stage === 'meeting_scheduled' ? 'Meeting' : 'Propose meeting times'}</Text>
+            </TouchableOpacity>
+            {canConfirm(interest) && (
+              <Text style={styles.hint}>The investor can now confirm their final amount.</Text>
+            )}
+          </View>
+        );
+      })}
+
+      <View style={{ height: 40 }} />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  content: {
+    padding: 16,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 16,
+  },
+  emptyState: {
+    backgroundColor: '#fff',
+    padding: 24,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+  },
+  card: {
+    backgroundColor: '#fff',
+    padding: 16,
+    borderRadius: 8,
+    marginBottom: 12,
+    borderLeftWidth: 4,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  investorName: {
+    fontSize: 17,
+    fontWeight: 'bold',
+    color: '#333',
+    flex: 1,
+    marginRight: 8,
+  },
+  stageBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  stageText: {
+    color: '#fff',
+    fontSize: 11,
+    fontWeight: 'bold',
+  },
+  meta: {
+    fontSize: 13,
+    color: '#555',
+    marginBottom: 2,
+  },
+  notes: {
+    fontSize: 13,
+    color: '#666',
+    fontStyle: 'italic',
+    marginTop: 6,
+  },
+  advanceButton: {
+    backgroundColor: '#007bff',
+    padding: 10,
+    borderRadius: 6,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  advanceButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  likeButton: {
+    borderWidth: 1,
+    borderColor: '#e83e8c',
+    padding: 10,
+    borderRadius: 6,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  likeButtonText: {
+    color: '#e83e8c',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  messageButton: {
+    borderWidth: 1,
+    borderColor: '#007bff',
+    padding: 10,
+    borderRadius: 6,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  messageButtonText: {
+    color: '#007bff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  likedText: {
+    fontSize: 13,
+    color: '#e83e8c',
+    marginTop: 10,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 10,
+  },
+});
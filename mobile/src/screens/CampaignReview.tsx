@@ -0,0 +1,403 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, ScrollView, TouchableOpacity, StyleSheet, Alert, TextInput, Linking } from 'react-native';
+import { useNavigation, useRoute } from '@react-navigation/native';
+import { useAuth } from '../context/AuthContext';
+import { CampaignRepository, CampaignWithStartupDetail } from '../../services/data/campaign.repository';
+import { CampaignReviewRepository } from '../../services/data/review.repository';
+import {
+  CampaignDocumentRow,
+  CampaignReviewDecision,
+  CampaignReviewRow,
+  CampaignStatusHistoryRow
+} from '../../services/data/database.types';
+import { formatStatus, missingFieldsFor } from '../../services/campaign/lifecycle.service';
+import { DECISION_LABELS, reviewCampaign } from '../../services/campaign/review.service';
+import { openDocument } from '../../services/campaign/dataRoom.service';
+
+// CampaignReview shows everything an admin needs to decide on a submitted
+// campaign: the terms, the startup, attached documents and earlier
+// decisions. The reason typed here is what the startup sees.
+export default function CampaignReview() {
+  const navigation = useNavigation();
+  const route = useRoute();
+  const { user } = useAuth();
+  const campaignId = (route.params as any)?.campaignId as string | undefined;
+
+  const [campaign, setCampaign] = useState<CampaignWithStartupDetail | null>(null);
+  const [documents, setDocuments] = useState<CampaignDocumentRow[]>([]);
+  const [reviews, setReviews] = useState<CampaignReviewRow[]>([]);
+  const [history, setHistory] = useState<CampaignStatusHistoryRow[]>([]);
+  const [reason, setReason] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    loadCampaign();
+  }, [campaignId]);
+
+  const loadCampaign = async () => {
+    try {
+      const data = await CampaignRepository.getWithStartup(campaignId);
+      if (!data) throw new Error('Campaign not found');
+      setCampaign(data);
+
+      const [docs, pastReviews, statusHistory] = await Promise.all([
+        CampaignRepository.listDocuments(data.id),
+        CampaignReviewRepository.listByCampaign(data.id),
+        CampaignRepository.listStatusHistory(data.id)
+      ]);
+      setDocuments(docs);
+      setReviews(pastReviews);
+      setHistory(statusHistory);
+    } catch (error) {
+      console.error('Error loading campaign for review:', error);
+      Alert.alert('Error', 'Failed to load campaign');
+      navigation.goBack();
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const submitDecision = async (decision: CampaignReviewDecision) => {
+    if (!user?.id || !campaign) return;
+
+    setSubmitting(true);
+    try {
+      const result = await reviewCampaign(campaign, decision, { reviewerId: user.id, reason });
+      if (result.success === false) {
+        Alert.alert('Cannot record decision', result.error);
+        return;
+      }
+      Alert.alert(DECISION_LABELS[decision], `"${campaign.title}" is now ${formatStatus(result.campaign.status)}.`);
+      navigation.goBack();
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const openUrl = (url: string) => {
+    const target = url.startsWith('http') ? url : `https://${url}`;
+    Linking.openURL(target).catch(() => {
+      Alert.alert('Error', 'Unable to open document');
+    });
+  };
+
+  const openUploaded = async (documentId: string) => {
+    const result = await openDocument(documentId, 'view');
+    if (result.success === false) {
+      Alert.alert('Cannot open document', result.error);
+      return;
+    }
+    Linking.openURL(result.url).catch(() => {
+      Alert.alert('Error', 'Unable to open document');
+    });
+  };
+
+  const formatDateTime = (value: string | null) => (value ? new Date(value).toLocaleString() : '');
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <Text style={styles.loadingText}>Loading campaign...</Text>
+      </View>
+    );
+  }
+
+  if (!campaign) return null;
+
+  const missing = missingFieldsFor(campaign);
+  const isPending = campaign.status === 'pending_review';
+
+  // Free-text sections from the campaign form, shown only when filled in.
+  const textSections: Array<[string, string | null]> = [
+    ['Description', campaign.description],
+    ['Use of Funds', campaign.use_of_funds],
+    ['Team', campaign.team_info],
+    ['Market Analysis', campaign.market_analysis],
+    ['Competitive Advantage', campaign.competitive_advantage],
+    ['Milestones', campaign.milestones],
+    ['Risks', campaign.risks]
+  ];
+
+  // Links stored on the campaign row itself, alongside uploaded documents.
+  const linkedFiles: Array<[string, string | null]> = [
+    ['Pitch Deck', campaign.pitch_deck_url],
+    ['Business Plan', campaign.business_plan_url],
+    ['Financial Projections', campaign.financial_projections_url]
+  ];
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.section}>
+        <Text style={styles.company}>{campaign.startups?.company_name}</Text>
+        <Text style={styles.title}>{campaign.title}</Text>
+        <Text style={styles.status}>Status: {formatStatus(campaign.status || 'draft')}</Text>
+        {campaign.startups && (
+          <Text style={styles.meta}>
+            Startup verification: {campaign.startups.verification_status || 'pending'}
+            {campaign.startups.disabled ? ' · disabled' : ''}
+          </Text>
+        )}
+      </View>
+
+      {missing.length > 0 && (
+        <View style={[styles.section, styles.warningBox]}>
+          <Text style={styles.warningText}>
+            Missing before approval: {missing.join(', ')}. Approval will be refused until the startup adds them.
+          </Text>
+        </View>
+      )}
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Terms</Text>
+        <Detail label="Type" value={(campaign.campaign_type || 'equity').toUpperCase()} />
+        <Detail label="Goal" value={`₹${campaign.funding_goal.toLocaleString()}`} />
+        <Detail label="Equity" value={`${campaign.equity_offered}%`} />
+        <Detail
+          label="Ticket size"
+          value={`₹${(campaign.min_investment || 0).toLocaleString()}${campaign.max_investment ? ` - ₹${campaign.max_investment.toLocaleString()}` : '+'}`}
+        />
+        <Detail label="Runs" value={`${campaign.start_date || 'not set'} to ${campaign.end_date || 'not set'}`} />
+      </View>
+
+      {textSections.filter(([, text]) => !!text?.trim()).map(([label, text]) => (
+        <View key={label} style={styles.section}>
+          <Text style={styles.sectionTitle}>{label}</Text>
+          <Text style={styles.body}>{text}</Text>
+        </View>
+      ))}
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Documents</Text>
+        {linkedFiles.filter(([, url]) => !!url).map(([label, url]) => (
+          <TouchableOpacity key={label} style={styles.documentLink} onPress={() => openUrl(url)}>
+            <Text style={styles.documentText}>{label}</Text>
+            <Text style={styles.documentMeta} numberOfLines={1}>{url}</Text>
+          </TouchableOpacity>
+        ))}
+        {documents.map(doc => (
+          <TouchableOpacity key={doc.id} style={styles.documentLink} onPress={() => openUploaded(doc.id)}>
+            <Text style={styles.documentText}>{doc.file_name}</Text>
+            <Text style={styles.documentMeta}>
+              {doc.document_type.replace(/_/g, ' ')} · {doc.is_public ? 'public' : 'private'}
+            </Text>
+          </TouchableOpacity>
+        ))}
+        {documents.length === 0 && linkedFiles.every(([, url]) => !url) && (
+          <Text style={styles.meta}>No documents attached.</Text>
+        )}
+      </View>
+
+      {(reviews.length > 0 || history.length > 0) && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>History</Text>
+          {reviews.map(review => (
+            <View key={review.id} style={styles.historyItem}>
+              <Text style={styles.historyTitle}>
+                {DECISION_LABELS[review.decision]} · {formatDateTime(review.created_at)}
+              </Text>
+              {!!review.reason && <Text style={styles.body}>{review.reason}</Text>}
+            </View>
+          ))}
+          {history.map(entry => (
+            <Text key={entry.id} style={styles.meta}>
+              {formatDateTime(entry.created_at)}: {formatStatus(entry.from_status || 'draft')} → {formatStatus(entry.to_status)}
+            </Text>
+          ))}
+        </View>
+      )}
+
+      {isPending ? (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Decision</Text>
+          <Text style={styles.meta}>Required when requesting changes or rejecting. The startup sees this text.</Text>
+          <TextInput
+            style={styles.reasonInput}
+            value={reason}
+            onChangeText={setReason}
+            placeholder="Reason for the startup"
+            multiline
+          />
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={[styles.actionButton, styles.approveButton]}
+              onPress={() => submitDecision('approved')}
+              disabled={submitting}
+            >
+              <Text style={styles.actionText}>Approve</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.actionButton, styles.changesButton]}
+              onPress={() => submitDecision('changes_requested')}
+              disabled={submitting}
+            >
+              <Text style={styles.actionText}>Request Changes</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.actionButton, styles.rejectButton]}
+              onPress={() => submitDecision('rejected')}
+              disabled={submitting}
+            >
+              <Text style={styles.actionText}>Reject</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      ) : (
+        <View style={styles.section}>
+          <Text style={styles.meta}>This campaign is not waiting for review.</Text>
+        </View>
+      )}
+
+      <View style={{ height: 40 }} />
+    </ScrollView>
+  );
+}
+
+function Detail({ label, value }: { label: string; value: string }) {
+  return (
+    <View style={styles.detailRow}>
+      <Text style={styles.detailLabel}>{label}:</Text>
+      <Text style={styles.detailValue}>{value}</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  content: {
+    padding: 16,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#666',
+  },
+  section: {
+    backgroundColor: '#fff',
+    padding: 16,
+    borderRadius: 8,
+    marginBottom: 16,
+  },
+  company: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 4,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 8,
+  },
+  status: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#17a2b8',
+    marginBottom: 4,
+  },
+  meta: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 4,
+  },
+  warningBox: {
+    backgroundColor: '#fff3cd',
+  },
+  warningText: {
+    fontSize: 14,
+    color: '#856404',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 12,
+  },
+  body: {
+    fontSize: 14,
+    color: '#333',
+    lineHeight: 20,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    marginBottom: 8,
+  },
+  detailLabel: {
+    fontSize: 14,
+    color: '#666',
+    width: 100,
+  },
+  detailValue: {
+    fontSize: 14,
+    color: '#333',
+    flex: 1,
+  },
+  documentLink: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  documentText: {
+    fontSize: 15,
+    color: '#007bff',
+    fontWeight: '600',
+  },
+  documentMeta: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  historyItem: {
+    marginBottom: 12,
+  },
+  historyTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 2,
+  },
+  reasonInput: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 6,
+    padding: 12,
+    minHeight: 80,
+    textAlignVertical: 'top',
+    marginVertical: 12,
+    fontSize: 14,
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  actionButton: {
+    flex: 1,
+    minWidth: '30%',
+    padding: 12,
+    borderRadius: 6,
+    alignItems: 'center',
+  },
+  approveButton: {
+    backgroundColor: '#28a745',
+  },
+  changesButton: {
+    backgroundColor: '#ffc107',
+  },
+  rejectButton: {
+    backgroundColor: '#dc3545',
+  },
+  actionText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
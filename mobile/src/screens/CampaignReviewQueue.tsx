@@ -0,0 +1,136 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, ScrollView, TouchableOpacity, StyleSheet, Alert } from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { CampaignRepository, CampaignWithStartup } from '../../services/data/campaign.repository';
+import { missingFieldsFor } from '../../services/campaign/lifecycle.service';
+
+// CampaignReviewQueue lists campaigns startups have submitted for review,
+// oldest first. Admins open one to approve, reject or request changes.
+export default function CampaignReviewQueue() {
+  const navigation = useNavigation();
+  const [campaigns, setCampaigns] = useState<CampaignWithStartup[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadQueue();
+    // Reload when coming back from a decision so the campaign drops off.
+    const unsubscribe = navigation.addListener('focus', loadQueue);
+    return unsubscribe;
+  }, [navigation]);
+
+  const loadQueue = async () => {
+    try {
+      setCampaigns(await CampaignRepository.listForReview());
+    } catch (error) {
+      console.error('Error loading review queue:', error);
+      Alert.alert('Error', 'Failed to load campaigns waiting for review');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatDate = (value: string | null) => (value ? new Date(value).toLocaleDateString() : 'Unknown');
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Text style={styles.title}>Campaign Review</Text>
+      <Text style={styles.subtitle}>
+        {loading ? 'Loading...' : `${campaigns.length} campaign${campaigns.length === 1 ? '' : 's'} waiting for a decision`}
+      </Text>
+
+      {!loading && campaigns.length === 0 && (
+        <View style={styles.emptyState}>
+          <Text style={styles.emptyText}>Nothing to review right now.</Text>
+        </View>
+      )}
+
+      {campaigns.map(campaign => {
+        const missing = missingFieldsFor(campaign);
+        return (
+          <TouchableOpacity
+            key={campaign.id}
+            style={styles.card}
+            onPress={() => (navigation as any).navigate('CampaignReview', { campaignId: campaign.id })}
+          >
+            <Text style={styles.company}>{campaign.startups?.company_name || 'Unknown startup'}</Text>
+            <Text style={styles.campaignTitle}>{campaign.title}</Text>
+            <View style={styles.row}>
+              <Text style={styles.meta}>Goal ₹{campaign.funding_goal.toLocaleString()}</Text>
+              <Text style={styles.meta}>{(campaign.campaign_type || 'equity').toUpperCase()}</Text>
+              <Text style={styles.meta}>Submitted {formatDate(campaign.submitted_at)}</Text>
+            </View>
+            {missing.length > 0 && (
+              <Text style={styles.warning}>Missing: {missing.join(', ')}</Text>
+            )}
+          </TouchableOpacity>
+        );
+      })}
+
+      <View style={{ height: 40 }} />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  content: {
+    padding: 16,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 16,
+  },
+  emptyState: {
+    backgroundColor: '#fff',
+    padding: 24,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+  },
+  card: {
+    backgroundColor: '#fff',
+    padding: 16,
+    borderRadius: 8,
+    marginBottom: 12,
+    borderLeftWidth: 4,
+    borderLeftColor: '#17a2b8',
+  },
+  company: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 2,
+  },
+  campaignTitle: {
+    fontSize: 17,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+  },
+  meta: {
+    fontSize: 12,
+    color: '#555',
+  },
+  warning: {
+    fontSize: 12,
+    color: '#dc3545',
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,421 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  Linking,
+  KeyboardAvoidingView,
+  Platform
+} from 'react-native';
+import { useNavigation, useRoute } from '@react-navigation/native';
+import { useAuth } from '../context/AuthContext';
+import { CampaignRepository } from '../../services/data/campaign.repository';
+import { CampaignDocumentRow } from '../../services/data/database.types';
+import { InterestWithParties } from '../../services/data/interest.repository';
+import { MessageWithDocument } from '../../services/data/message.repository';
+import {
+  loadThread,
+  MESSAGE_MAX,
+  otherPartyName,
+  sendMessage,
+  watchMessages
+} from '../../services/message/message.service';
+import { openDocument } from '../../services/campaign/dataRoom.service';
+
+// ConversationScreen is one investor–startup conversation about a campaign
+// interest. Messages update live; the newest message you sent shows
+// whether the other side has read it. Either side can share one of the
+// campaign's documents, or open the meeting times for the interest.
+export default function ConversationScreen() {
+  const navigation = useNavigation();
+  const route = useRoute();
+  const { user } = useAuth();
+  const interestId = (route.params as any)?.interestId as string | undefined;
+  const [interest, setInterest] = useState<InterestWithParties | null>(null);
+  const [messages, setMessages] = useState<MessageWithDocument[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [draft, setDraft] = useState('');
+  const [sending, setSending] = useState(false);
+  const [documents, setDocuments] = useState<CampaignDocumentRow[]>([]);
+  const [showDocuments, setShowDocuments] = useState(false);
+  const [attachment, setAttachment] = useState<CampaignDocumentRow | null>(null);
+  const scrollRef = useRef<ScrollView>(null);
+
+  useEffect(() => {
+    if (!interestId || !user?.id) return;
+    load();
+    return watchMessages(interestId, load);
+  }, [interestId, user?.id]);
+
+  const load = async () => {
+    if (!interestId || !user?.id) return;
+    try {
+      const thread = await loadThread(interestId, user.id);
+      setInterest(thread.interest);
+      setMessages(thread.messages);
+    } catch (error) {
+      console.error('Error loading conversation:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const side = interest?.investors?.owner_id === user?.id ? 'investor' : 'startup';
+
+  const toggleDocuments = async () => {
+    if (showDocuments) {
+      setShowDocuments(false);
+      return;
+    }
+    const campaignId = interest?.fundraising_campaigns?.id;
+    if (!campaignId) return;
+    try {
+      setDocuments(await CampaignRepository.listDocuments(campaignId));
+      setShowDocuments(true);
+    } catch (error) {
+      console.error('Error loading documents:', error);
+      Alert.alert('Error', 'Failed to load campaign documents');
+    }
+  };
+
+  const handleSend = async () => {
+    if (!interestId || !user?.id) return;
+    setSending(true);
+    try {
+      const result = await sendMessage(interestId, user.id, draft, attachment?.id ?? null);
+      if (result.success === false) {
+        Alert.alert('Not sent', result.error);
+        return;
+      }
+      setDraft('');
+      setAttachment(null);
+      setShowDocuments(false);
+      await load();
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const openAttachment = async (documentId: string) => {
+    const result = await openDocument(documentId, 'view');
+    if (result.success === false) {
+      Alert.alert('Cannot open document', result.error);
+      return;
+    }
+    Linking.openURL(result.url).catch(() => {
+      Alert.alert('Error', 'Unable to open document');
+    });
+  };
+
+  // Only the newest message you sent carries a receipt.
+  const lastOwnId = [...messages].reverse().find(m => m.sender_id === user?.id)?.id;
+
+  if (!interestId) {
+    return (
+      <View style={styles.centered}>
+        <Text style={styles.emptyText}>Conversation not found</Text>
+      </View>
+    );
+  }
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      keyboardVerticalOffset={90}
+    >
+      <View style={styles.header}>
+        <View style={styles.headerText}>
+          <Text style={styles.headerTitle}>{interest ? otherPartyName(interest, side) : ' '}</Text>
+          <Text style={styles.headerSubtitle} numberOfLines={1}>
+            {interest?.fundraising_campaigns?.title || ''}
+          </Text>
+        </View>
+        <TouchableOpacity
+          style={styles.meetingButton}
+          onPress={() => (navigation as any).navigate('MeetingScheduler', { interestId })}
+        >
+          <Text style={styles.meetingButtonText}>📅 Meeting</Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView
+        ref={scrollRef}
+        style={styles.messages}
+        contentContainerStyle={styles.messagesContent}
+        onContentSizeChange={() => scrollRef.current?.scrollToEnd({ animated: false })}
+      >
+        {loading ? (
+          <Text style={styles.emptyText}>Loading messages...</Text>
+        ) : messages.length === 0 ? (
+          <Text style={styles.emptyText}>
+            No messages yet. Say hello and mention what you would like to discuss.
+          </Text>
+        ) : (
+          messages.map(message => {
+            const mine = message.sender_id === user?.id;
+            return (
+              <View key={message.id} style={[styles.bubbleRow, mine && styles.bubbleRowMine]}>
+                <View style={[styles.bubble, mine ? styles.bubbleMine : styles.bubbleTheirs]}>
+                  {message.body ? (
+                    <Text style={[styles.bubbleText, mine && styles.bubbleTextMine]}>{message.body}</Text>
+                  ) : null}
+                  {message.document_id && (
+                    message.campaign_documents ? (
+                      <TouchableOpacity onPress={() => openAttachment(message.campaign_documents!.id)}>
+                        <Text style={[styles.attachmentText, mine && styles.bubbleTextMine]}>
+                          📎 {message.campaign_documents.file_name}
+                        </Text>
+                      </TouchableOpacity>
+                    ) : (
+                      <Text style={[styles.attachmentText, mine && styles.bubbleTextMine]}>📎 Document not available</Text>
+                    )
+                  )}
+                  <Text style={[styles.time, mine && styles.timeMine]}>
+                    {new Date(message.created_at).toLocaleString()}
+                  </Text>
+                </View>
+                {message.id === lastOwnId && (
+                  <Text style={styles.receipt}>{message.read_at ? 'Seen' : 'Sent'}</Text>
+                )}
+              </View>
+            );
+          })
+        )}
+      </ScrollView>
+
+      {showDocuments && (
+        <View style={styles.documentPicker}>
+          {documents.length === 0 ? (
+            <Text style={styles.emptyText}>This campaign has no documents you can share.</Text>
+          ) : (
+            documents.map(doc => (
+              <TouchableOpacity
+                key={doc.id}
+                style={styles.documentRow}
+                onPress={() => {
+                  setAttachment(doc);
+                  setShowDocuments(false);
+                }}
+              >
+                <Text style={styles.documentName}>📄 {doc.file_name}</Text>
+              </TouchableOpacity>
+            ))
+          )}
+        </View>
+      )}
+
+      {attachment && (
+        <View style={styles.attachmentChip}>
+          <Text style={styles.attachmentChipText} numberOfLines={1}>📎 {attachment.file_name}</Text>
+          <TouchableOpacity onPress={() => setAttachment(null)}>
+            <Text style={styles.attachmentRemove}>✕</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      <View style={styles.composer}>
+        <TouchableOpacity style={styles.attachButton} onPress={toggleDocuments}>
+          <Text style={styles.attachIcon}>📎</Text>
+        </TouchableOpacity>
+        <TextInput
+          style={styles.input}
+          placeholder="Write a message"
+          value={draft}
+          onChangeText={setDraft}
+          maxLength={MESSAGE_MAX}
+          multiline
+        />
+        <TouchableOpacity
+          style={[styles.sendButton, (sending || (!draft.trim() && !attachment)) && styles.sendButtonDisabled]}
+          onPress={handleSend}
+          disabled={sending || (!draft.trim() && !attachment)}
+        >
+          <Text style={styles.sendText}>{sending ? '...' : 'Send'}</Text>
+        </TouchableOpacity>
+      </View>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  headerText: {
+    flex: 1,
+    marginRight: 8,
+  },
+  meetingButton: {
+    borderWidth: 1,
+    borderColor: '#007bff',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 6,
+  },
+  meetingButtonText: {
+    color: '#007bff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  headerSubtitle: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  messages: {
+    flex: 1,
+  },
+  messagesContent: {
+    padding: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+    marginTop: 20,
+  },
+  bubbleRow: {
+    alignItems: 'flex-start',
+    marginBottom: 10,
+  },
+  bubbleRowMine: {
+    alignItems: 'flex-end',
+  },
+  bubble: {
+    maxWidth: '80%',
+    padding: 10,
+    borderRadius: 12,
+  },
+  bubbleMine: {
+    backgroundColor: '#007bff',
+  },
+  bubbleTheirs: {
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  bubbleText: {
+    fontSize: 15,
+    color: '#333',
+  },
+  bubbleTextMine: {
+    color: '#fff',
+  },
+  attachmentText: {
+    fontSize: 14,
+    color: '#007bff',
+    fontWeight: '600',
+    marginTop: 4,
+  },
+  time: {
+    fontSize: 11,
+    color: '#999',
+    marginTop: 4,
+  },
+  timeMine: {
+    color: '#d6e8ff',
+  },
+  receipt: {
+    fontSize: 11,
+    color: '#999',
+    marginTop: 2,
+  },
+  documentPicker: {
+    backgroundColor: '#fff',
+    borderTopWidth: 1,
+    borderTopColor: '#e0e0e0',
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+  },
+  documentRow: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  documentName: {
+    fontSize: 14,
+    color: '#333',
+  },
+  attachmentChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#e7f1ff',
+    marginHorizontal: 12,
+    marginTop: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  attachmentChipText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#007bff',
+  },
+  attachmentRemove: {
+    fontSize: 14,
+    color: '#666',
+    marginLeft: 8,
+  },
+  composer: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    backgroundColor: '#fff',
+    padding: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#e0e0e0',
+  },
+  attachButton: {
+    padding: 8,
+  },
+  attachIcon: {
+    fontSize: 20,
+  },
+  input: {
+    flex: 1,
+    maxHeight: 120,
+    backgroundColor: '#f5f5f5',
+    borderRadius: 18,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    fontSize: 15,
+    marginHorizontal: 6,
+  },
+  sendButton: {
+    backgroundColor: '#007bff',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 18,
+  },
+  sendButtonDisabled: {
+    backgroundColor: '#9cc3f5',
+  },
+  sendText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
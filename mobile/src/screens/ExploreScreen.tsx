@@ -5,8 +5,9 @@
 
 // ========== IMPORTS ==========
 // React and React Native basic building blocks
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 // 'useState' lets us create variables that can change and trigger re-renders
+// 'useEffect' runs code after the screen appears (we load data there)
 
 // UI Components from React Native
 import {
@@ -15,12 +16,17 @@ import {
   ScrollView,    // Makes content scrollable
   StyleSheet,    // For styling components (like CSS)
   TouchableOpacity, // A button that responds to touches
-  Image,         // For displaying images
 } from 'react-native';
 
-// Import our mock data
-import { mockStartups, Startup } from '../data/mockStartups';
-import { mockInvestors, Investor } from '../data/mockInvestors';
+// Repositories load profiles from the active backend (fixture data in MOCK mode)
+import { StartupRepository, StartupSummary } from '../../services/data/startup.repository';
+import { InvestorRepository, InvestorSummary } from '../../services/data/investor.repository';
+import { useAuth } from '../context/AuthContext';
+import { useSavedIds } from '../hooks/useSavedIds';
+
+// Profiles store industries as one comma-separated string
+const splitIndustries = (industries?: string | null) =>
+  (industries || '').split(',').map(i => i.trim()).filter(Boolean);
 
 // ========== COMPONENT DEFINITION ==========
 // This is the main Explore screen component
@@ -36,13 +42,30 @@ export default function ExploreScreen({ userRole }: ExploreScreenProps) {
   // State = data that can change over time
   
   // Keep track of which items are saved
-  // useState returns [currentValue, functionToUpdateValue]
-  const [savedStartups, setSavedStartups] = useState<string[]>([]);
-  // savedStartups = array of startup IDs that user has saved
-  // setSavedStartups = function to update this array
+  // useSavedIds loads them from the saved_items table, so they are still
+  // there after navigating away (and show up on the Saved tab)
+  const { user } = useAuth();
+  const { isSaved, toggle } = useSavedIds(user?.id);
+  
+  // The profiles to browse (only one list is loaded, based on role)
+  const [startups, setStartups] = useState<StartupSummary[]>([]);
+  const [investors, setInvestors] = useState<InvestorSummary[]>([]);
   
-  const [savedInvestors, setSavedInvestors] = useState<string[]>([]);
-  // savedInvestors = array of investor IDs that user has saved
+  // Load profiles when the screen appears or the role changes
+  useEffect(() => {
+    const load = async () => {
+      try {
+        if (userRole === 'investor') {
+          setStartups(await StartupRepository.listForDiscovery());
+        } else {
+          setInvestors(await InvestorRepository.listForDiscovery());
+        }
+      } catch (error) {
+        console.error('Error loading profiles:', error);
+      }
+    };
+    load();
+  }, [userRole]);
   
   // ========== EVENT HANDLERS ==========
   // These functions run when user does something
@@ -56,36 +79,18 @@ export default function ExploreScreen({ userRole }: ExploreScreenProps) {
   };
   
   // Function: Handle when user clicks "Save" button
+  // Saves the item if it isn't saved yet, otherwise unsaves it
   const handleSave = (id: string, type: 'startup' | 'investor') => {
-    // Check which type we're saving
-    if (type === 'startup') {
-      // Check if this startup is already saved
-      if (savedStartups.includes(id)) {
-        // It's saved, so UNSAVE it (remove from array)
-        // filter = create new array without this ID
-        setSavedStartups(savedStartups.filter(savedId => savedId !== id));
-      } else {
-        // It's not saved, so SAVE it (add to array)
-        // spread operator (...) copies existing items, then adds new one
-        setSavedStartups([...savedStartups, id]);
-      }
-    } else {
-      // Same logic for investors
-      if (savedInvestors.includes(id)) {
-        setSavedInvestors(savedInvestors.filter(savedId => savedId !== id));
-      } else {
-        setSavedInvestors([...savedInvestors, id]);
-      }
-    }
+    toggle({ type, id });
   };
   
   // ========== RENDER CARD COMPONENTS ==========
   
   // Function: Render a single STARTUP card
   // This shows what an investor sees for each startup
-  const renderStartupCard = (startup: Startup) => {
+  const renderStartupCard = (startup: StartupSummary) => {
     // Check if this startup is in our saved list
-    const isSaved = savedStartups.includes(startup.id);
+    const saved = isSaved({ type: 'startup', id: startup.id });
     
     // Return JSX (looks like HTML but it's JavaScript)
     return (
@@ -94,28 +99,32 @@ export default function ExploreScreen({ userRole }: ExploreScreenProps) {
         
         {/* Top section with logo and name */}
         <View style={styles.cardHeader}>
-          <Image 
-            source={{ uri: startup.logo }}  // Image URL
-            style={styles.logo}              // Size and styling
-          />
+          {/* Placeholder logo: first letter of the name */}
+          <View style={styles.logo}>
+            <Text style={styles.logoText}>{startup.company_name?.charAt(0) || '?'}</Text>
+          </View>
           <View style={styles.headerText}>
-            <Text style={styles.cardTitle}>{startup.name}</Text>
-            <Text style={styles.subtitle}>{startup.industry}</Text>
+            <Text style={styles.cardTitle}>{startup.company_name}</Text>
+            <Text style={styles.subtitle}>{splitIndustries(startup.industry).join(' · ')}</Text>
           </View>
         </View>
         
         {/* Main info section */}
-        <Text style={styles.description}>{startup.description}</Text>
+        <Text style={styles.description}>{startup.tagline}</Text>
         
         {/* Info chips/tags */}
         <View style={styles.infoRow}>
           {/* Each piece of info in a small bubble */}
-          <View style={styles.infoBadge}>
-            <Text style={styles.badgeText}>Stage: {startup.stage}</Text>
-          </View>
-          <View style={styles.infoBadge}>
-            <Text style={styles.badgeText}>Need: {startup.fundingNeeded}</Text>
-          </View>
+          {startup.founded_year ? (
+            <View style={styles.infoBadge}>
+              <Text style={styles.badgeText}>Founded: {startup.founded_year}</Text>
+            </View>
+          ) : null}
+          {startup.website ? (
+            <View style={styles.infoBadge}>
+              <Text style={styles.badgeText}>🌐 {startup.website}</Text>
+            </View>
+          ) : null}
         </View>
         
         <Text style={styles.location}>📍 {startup.location}</Text>
@@ -134,12 +143,12 @@ export default function ExploreScreen({ userRole }: ExploreScreenProps) {
           <TouchableOpacity 
             style={[
               styles.saveButton,
-              isSaved && styles.savedButton  // Add extra style if saved
+              saved && styles.savedButton  // Add extra style if saved
             ]}
             onPress={() => handleSave(startup.id, 'startup')}
           >
             <Text style={styles.saveButtonText}>
-              {isSaved ? '💾 Saved' : '🤍 Save'}
+              {saved ? '💾 Saved' : '🤍 Save'}
             </Text>
           </TouchableOpacity>
         </View>
@@ -149,31 +158,29 @@ export default function ExploreScreen({ userRole }: ExploreScreenProps) {
   
   // Function: Render a single INVESTOR card
   // This shows what a startup sees for each investor
-  const renderInvestorCard = (investor: Investor) => {
-    const isSaved = savedInvestors.includes(investor.id);
+  const renderInvestorCard = (investor: InvestorSummary) => {
+    const saved = isSaved({ type: 'investor', id: investor.id });
     
     return (
       <View key={investor.id} style={styles.card}>
         
         {/* Top section with avatar and name */}
         <View style={styles.cardHeader}>
-          <Image 
-            source={{ uri: investor.avatar }}
-            style={styles.logo}
-          />
+          <View style={styles.logo}>
+            <Text style={styles.logoText}>{investor.investor_name?.charAt(0) || '?'}</Text>
+          </View>
           <View style={styles.headerText}>
-            <Text style={styles.cardTitle}>{investor.name}</Text>
-            <Text style={styles.subtitle}>{investor.type} Investor</Text>
+            <Text style={styles.cardTitle}>{investor.investor_name}</Text>
+            <Text style={styles.subtitle}>{investor.company_name}</Text>
           </View>
         </View>
         
-        {/* About the investor */}
-        <Text style={styles.description}>{investor.description}</Text>
-        
         {/* Investment info */}
         <View style={styles.infoRow}>
           <View style={styles.infoBadge}>
-            <Text style={styles.badgeText}>💰 {investor.ticketSize}</Text>
+            <Text style={styles.badgeText}>
+              💰 ₹{(investor.min_investment || 0).toLocaleString()} - ₹{(investor.max_investment || 0).toLocaleString()}
+            </Text>
           </View>
         </View>
         
@@ -181,7 +188,7 @@ export default function ExploreScreen({ userRole }: ExploreScreenProps) {
         <View style={styles.industriesRow}>
           <Text style={styles.labelText}>Invests in: </Text>
           {/* Map = loop through array and render each item */}
-          {investor.industries.map((industry, index) => (
+          {splitIndustries(investor.interested_industries).map((industry, index) => (
             <View key={index} style={styles.industryTag}>
               <Text style={styles.industryText}>{industry}</Text>
             </View>
@@ -202,12 +209,12 @@ export default function ExploreScreen({ userRole }: ExploreScreenProps) {
           <TouchableOpacity 
             style={[
               styles.saveButton,
-              isSaved && styles.savedButton
+              saved && styles.savedButton
             ]}
             onPress={() => handleSave(investor.id, 'investor')}
           >
             <Text style={styles.saveButtonText}>
-              {isSaved ? '💾 Saved' : '🤍 Save'}
+              {saved ? '💾 Saved' : '🤍 Save'}
             </Text>
           </TouchableOpacity>
         </View>
@@ -242,7 +249,7 @@ export default function ExploreScreen({ userRole }: ExploreScreenProps) {
         {userRole === 'investor' && (
           <View style={styles.cardsContainer}>
             {/* Loop through all startups and render each one */}
-            {mockStartups.map(startup => renderStartupCard(startup))}
+            {startups.map(startup => renderStartupCard(startup))}
           </View>
         )}
         
@@ -250,7 +257,7 @@ export default function ExploreScreen({ userRole }: ExploreScreenProps) {
         {userRole === 'startup' && (
           <View style={styles.cardsContainer}>
             {/* Loop through all investors and render each one */}
-            {mockInvestors.map(investor => renderInvestorCard(investor))}
+            {investors.map(investor => renderInvestorCard(investor))}
           </View>
         )}
         
@@ -313,6 +320,13 @@ const styles = StyleSheet.create({
     height: 60,
     borderRadius: 30,  // Make it circular
     backgroundColor: '#e0e0e0',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  logoText: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#666',
   },
   headerText: {
     marginLeft: 12,
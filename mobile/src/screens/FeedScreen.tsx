@@ -4,7 +4,7 @@
 // - Startups: VIEW their own campaign posts + analytics
 
 // ========== IMPORTS ==========
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 // useRef = creates a reference to track values without re-rendering
 
 import {
@@ -16,10 +16,16 @@ import {
   Animated,        // For smooth animations
   TouchableOpacity,
   ScrollView,
-  Image,
+  Alert,
 } from 'react-native';
 
-import { mockCampaigns, Campaign, getCampaignsForStartup } from '../data/mockCampaigns';
+import { CampaignRepository, CampaignWithStartup } from '../../services/data/campaign.repository';
+import { InterestRepository } from '../../services/data/interest.repository';
+import { StartupRepository } from '../../services/data/startup.repository';
+import { InvestorRepository } from '../../services/data/investor.repository';
+import { CampaignRow, CampaignSwipeRow } from '../../services/data/database.types';
+import { loadSwipeFeed, recordSwipe, undoSwipe } from '../../services/campaign/feed.service';
+import { matchAnnouncement } from '../../services/match/match.service';
 
 // Get device screen width for calculations
 const SCREEN_WIDTH = Dimensions.get('window').width;
@@ -31,13 +37,70 @@ interface FeedScreenProps {
   userId: string;  // To filter campaigns for startups
 }
 
+// A startup's own campaign plus how many investors have shown interest
+type CampaignWithInterestCount = CampaignRow & { interestCount: number };
+
+// Format rupee amounts for the cards
+const formatAmount = (amount?: number | null) => `₹${(amount || 0).toLocaleString()}`;
+
 export default function FeedScreen({ userRole, userId }: FeedScreenProps) {
   
+  // ========== DATA ==========
+  
+  // Investors: active campaigns they have not decided on yet
+  const [campaigns, setCampaigns] = useState<CampaignWithStartup[]>([]);
+  // The investor profile swipes are recorded against (null until loaded,
+  // or if the investor has not created a profile)
+  const [investorId, setInvestorId] = useState<string | null>(null);
+  // Startups: their own campaigns with interest counts
+  const [myCampaigns, setMyCampaigns] = useState<CampaignWithInterestCount[]>([]);
+  const [loading, setLoading] = useState(true);
+  
+  useEffect(() => {
+    loadFeed();
+  }, [userRole, userId]);
+  
+  // Load from the repositories (fixture data in MOCK mode)
+  const loadFeed = async () => {
+    try {
+      if (userRole === 'investor') {
+        const id = await InvestorRepository.findIdByOwner(userId);
+        setInvestorId(id);
+        setCampaigns(id ? await loadSwipeFeed(id) : []);
+      } else {
+        const startupId = await StartupRepository.findIdByOwner(userId);
+        const own = startupId ? await CampaignRepository.listByStartup(startupId) : [];
+        const withCounts = await Promise.all(own.map(async campaign => ({
+          ...campaign,
+          interestCount: (await InterestRepository.listForCampaign(campaign.id)).length,
+        })));
+        setMyCampaigns(withCounts);
+      }
+    } catch (error) {
+      console.error('Error loading feed:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+  
   // ========== STATE FOR INVESTOR (SWIPE VIEW) ==========
   
   // Keep track of which card we're showing (index in array)
   const [currentIndex, setCurrentIndex] = useState(0);
   
+  // The most recent saved swipe and the card it was made on, for Undo
+  const [lastSwipe, setLastSwipe] = useState<{ swipe: CampaignSwipeRow; index: number } | null>(null);
+  const [undoing, setUndoing] = useState(false);
+  
+  // The PanResponder below is created once, so its callbacks would see a
+  // stale `currentIndex` and `campaigns`. Mirror both into refs it can read.
+  const currentIndexRef = useRef(0);
+  const campaignsRef = useRef<CampaignWithStartup[]>([]);
+  const investorIdRef = useRef<string | null>(null);
+  currentIndexRef.current = currentIndex;
+  campaignsRef.current = campaigns;
+  investorIdRef.current = investorId;
+  
   // Animated value for card position (starts at 0)
   // This tracks how far left/right the card has been dragged
   const position = useRef(new Animated.ValueXY()).current;
@@ -67,12 +130,10 @@ export default function FeedScreen({ userRole, userId }: FeedScreenProps) {
         
         // SWIPE RIGHT = Interested
         if (gesture.dx > SWIPE_THRESHOLD) {
-          console.log('✅ SWIPED RIGHT - Interested in:', mockCampaigns[currentIndex].startupName);
           forceSwipe('right');
         } 
         // SWIPE LEFT = Not Interested
         else if (gesture.dx < -SWIPE_THRESHOLD) {
-          console.log('❌ SWIPED LEFT - Not interested in:', mockCampaigns[currentIndex].startupName);
           forceSwipe('left');
         } 
         // NOT FAR ENOUGH = Reset card to center
@@ -109,28 +170,51 @@ export default function FeedScreen({ userRole, userId }: FeedScreenProps) {
   };
   
   // Function: Handle what happens after swipe completes
-  const onSwipeComplete = (direction: 'left' | 'right') => {
-    // Save the interaction to database (later)
-    // For now, just log it
-    const campaign = mockCampaigns[currentIndex];
+  const onSwipeComplete = async (direction: 'left' | 'right') => {
+    const index = currentIndexRef.current;
+    const campaign = campaignsRef.current[index];
+    const investor = investorIdRef.current;
+    if (!campaign || !investor) return;
     
-    if (direction === 'right') {
-      console.log('💙 User interested in campaign:', campaign.id);
-      // TODO: Save to "interests" in database
-    } else {
-      console.log('👎 User not interested in campaign:', campaign.id);
-      // TODO: Save to "passed" in database
-    }
-    
-    // Reset card position for next card
+    // Reset card position and show the next card straight away; the
+    // decision is saved in the background
     position.setValue({ x: 0, y: 0 });
+    setCurrentIndex(index + 1);
     
-    // Move to next card
-    setCurrentIndex(currentIndex + 1);
+    // Right = pending interest for the startup, left = pass
+    const result = await recordSwipe(investor, campaign, direction);
+    if (result.success === false) {
+      // Put the card back so the investor can try again
+      setCurrentIndex(index);
+      Alert.alert('Not saved', result.error);
+      return;
+    }
+    setLastSwipe({ swipe: result.swipe, index });
+    if (result.match) {
+      Alert.alert("It's a match!", matchAnnouncement(campaign.startups?.company_name || 'The startup'));
+    }
+  };
+  
+  // Function: Undo the last swipe and bring its card back
+  const onUndo = async () => {
+    if (!lastSwipe) return;
+    setUndoing(true);
+    try {
+      const result = await undoSwipe(lastSwipe.swipe);
+      if (result.success === false) {
+        Alert.alert('Cannot undo', result.error);
+        return;
+      }
+      position.setValue({ x: 0, y: 0 });
+      setCurrentIndex(lastSwipe.index);
+      setLastSwipe(null);
+    } finally {
+      setUndoing(false);
+    }
   };
   
   // Function: Render one swipeable campaign card
-  const renderSwipeCard = (campaign: Campaign, index: number) => {
+  const renderSwipeCard = (campaign: CampaignWithStartup, index: number) => {
     // Only render the current card (performance optimization)
     if (index < currentIndex) {
       return null;  // Card already swiped, don't render
@@ -176,11 +260,10 @@ export default function FeedScreen({ userRole, userId }: FeedScreenProps) {
           ]}
           {...panResponder.panHandlers}  // Attach swipe handlers
         >
-          {/* Campaign Image */}
-          <Image 
-            source={{ uri: campaign.image }}
-            style={styles.cardImage}
-          />
+          {/* Campaign header (no images are stored yet) */}
+          <View style={styles.cardImage}>
+            <Text style={styles.cardImageText}>{campaign.startups?.company_name?.charAt(0) || '?'}</Text>
+          </View>
           
           {/* LIKE label (shows when swiping right) */}
           <Animated.View 
@@ -205,20 +288,20 @@ export default function FeedScreen({ userRole, userId }: FeedScreenProps) {
           {/* Campaign Info Overlay */}
           <View style={styles.cardInfo}>
             <Text style={styles.cardTitle}>{campaign.title}</Text>
-            <Text style={styles.cardStartup}>{campaign.startupName}</Text>
+            <Text style={styles.cardStartup}>{campaign.startups?.company_name}</Text>
             
             <View style={styles.cardDetails}>
               <View style={styles.detailItem}>
                 <Text style={styles.detailLabel}>Goal</Text>
-                <Text style={styles.detailValue}>{campaign.fundingGoal}</Text>
+                <Text style={styles.detailValue}>{formatAmount(campaign.funding_goal)}</Text>
               </View>
               <View style={styles.detailItem}>
                 <Text style={styles.detailLabel}>Raised</Text>
-                <Text style={styles.detailValue}>{campaign.currentRaised}</Text>
+                <Text style={styles.detailValue}>{formatAmount(campaign.funding_raised)}</Text>
               </View>
               <View style={styles.detailItem}>
-                <Text style={styles.detailLabel}>Stage</Text>
-                <Text style={styles.detailValue}>{campaign.stage}</Text>
+                <Text style={styles.detailLabel}>Type</Text>
+                <Text style={styles.detailValue}>{campaign.campaign_type}</Text>
               </View>
             </View>
             
@@ -250,7 +333,7 @@ export default function FeedScreen({ userRole, userId }: FeedScreenProps) {
           }
         ]}
       >
-        <Image source={{ uri: campaign.image }} style={styles.cardImage} />
+        <View style={styles.cardImage} />
       </View>
     );
   };
@@ -259,8 +342,13 @@ export default function FeedScreen({ userRole, userId }: FeedScreenProps) {
   
   // Function: Render startup's own campaigns with analytics
   const renderStartupCampaigns = () => {
-    // Get only this startup's campaigns
-    const myCampaigns = getCampaignsForStartup(userId);
+    if (loading) {
+      return (
+        <View style={styles.emptyState}>
+          <Text style={styles.emptyStateText}>Loading campaigns...</Text>
+        </View>
+      );
+    }
     
     // If no campaigns yet
     if (myCampaigns.length === 0) {
@@ -288,28 +376,21 @@ export default function FeedScreen({ userRole, userId }: FeedScreenProps) {
         {/* List of campaigns */}
         {myCampaigns.map(campaign => (
           <View key={campaign.id} style={styles.campaignCard}>
-            <Image 
-              source={{ uri: campaign.image }}
-              style={styles.campaignImage}
-            />
-            
             <View style={styles.campaignContent}>
               <Text style={styles.campaignTitle}>{campaign.title}</Text>
-              <Text style={styles.campaignDate}>{campaign.createdAt}</Text>
+              <Text style={styles.campaignDate}>
+                {campaign.created_at ? new Date(campaign.created_at).toLocaleDateString() : ''}
+              </Text>
               
               {/* Analytics Row */}
               <View style={styles.statsRow}>
                 <View style={styles.statItem}>
-                  <Text style={styles.statNumber}>{campaign.stats.views}</Text>
-                  <Text style={styles.statLabel}>Views</Text>
-                </View>
-                <View style={styles.statItem}>
-                  <Text style={styles.statNumber}>{campaign.stats.interests}</Text>
+                  <Text style={styles.statNumber}>{campaign.interestCount}</Text>
                   <Text style={styles.statLabel}>Interests</Text>
                 </View>
                 <View style={styles.statItem}>
-                  <Text style={styles.statNumber}>{campaign.stats.matches}</Text>
-                  <Text style={styles.statLabel}>Matches</Text>
+                  <Text style={styles.statNumber}>{(campaign.status || 'draft').toUpperCase()}</Text>
+                  <Text style={styles.statLabel}>Status</Text>
                 </View>
               </View>
               
@@ -317,10 +398,10 @@ export default function FeedScreen({ userRole, userId }: FeedScreenProps) {
               <View style={styles.progressSection}>
                 <View style={styles.progressHeader}>
                   <Text style={styles.progressText}>
-                    {campaign.currentRaised} raised
+                    {formatAmount(campaign.funding_raised)} raised
                   </Text>
                   <Text style={styles.progressGoal}>
-                    of {campaign.fundingGoal}
+                    of {formatAmount(campaign.funding_goal)}
                   </Text>
                 </View>
                 <View style={styles.progressBar}>
@@ -330,8 +411,7 @@ export default function FeedScreen({ userRole, userId }: FeedScreenProps) {
                       styles.progressFill,
                       { 
                         width: `${
-                          (parseFloat(campaign.currentRaised.replace(/[^0-9]/g, '')) / 
-                           parseFloat(campaign.fundingGoal.replace(/[^0-9]/g, ''))) * 100
+                          Math.min(((campaign.funding_raised || 0) / (campaign.funding_goal || 1)) * 100, 100)
                         }%` 
                       }
                     ]} 
@@ -370,7 +450,16 @@ export default function FeedScreen({ userRole, userId }: FeedScreenProps) {
       {userRole === 'investor' ? (
         // INVESTOR VIEW: Swipeable cards
         <View style={styles.swipeContainer}>
-          {currentIndex >= mockCampaigns.length ? (
+          {loading ? (
+            <Text style={styles.endStateText}>Loading campaigns...</Text>
+          ) : !investorId ? (
+            <View style={styles.endState}>
+              <Text style={styles.endStateTitle}>Complete your profile</Text>
+              <Text style={styles.endStateText}>
+                Create your investor profile to start discovering campaigns
+              </Text>
+            </View>
+          ) : currentIndex >= campaigns.length ? (
             // All cards swiped - show end message
             <View style={styles.endState}>
               <Text style={styles.endStateTitle}>That's all for now! 🎉</Text>
@@ -380,10 +469,17 @@ export default function FeedScreen({ userRole, userId }: FeedScreenProps) {
             </View>
           ) : (
             // Render stack of cards
-            mockCampaigns.map((campaign, index) => 
+            campaigns.map((campaign, index) => 
               renderSwipeCard(campaign, index)
             ).reverse()  // Reverse so top card renders last (appears on top)
           )}
+          
+          {/* Undo the last swipe (one step back) */}
+          {lastSwipe && (
+            <TouchableOpacity style={styles.undoButton} onPress={onUndo} disabled={undoing}>
+              <Text style={styles.undoButtonText}>{undoing ? 'Undoing...' : '↶ Undo'}</Text>
+            </TouchableOpacity>
+          )}
         </View>
       ) : (
         // STARTUP VIEW: Campaign list with analytics
@@ -441,6 +537,13 @@ const styles = StyleSheet.create({
     borderTopLeftRadius: 20,
     borderTopRightRadius: 20,
     backgroundColor: '#e0e0e0',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  cardImageText: {
+    fontSize: 64,
+    fontWeight: 'bold',
+    color: '#999',
   },
   cardInfo: {
     padding: 16,
@@ -528,6 +631,23 @@ const styles = StyleSheet.create({
     color: '#F44336',
   },
   
+  // UNDO
+  undoButton: {
+    position: 'absolute',
+    bottom: 24,
+    backgroundColor: 'white',
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 24,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+  },
+  undoButtonText: {
+    color: '#007AFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  
   // END STATE
   endState: {
     alignItems: 'center',
@@ -573,11 +693,6 @@ const styles = StyleSheet.create({
     shadowRadius: 4,
     elevation: 3,
   },
-  campaignImage: {
-    width: '100%',
-    height: 150,
-    backgroundColor: '#e0e0e0',
-  },
   campaignContent: {
     padding: 16,
   },
@@ -1,13 +1,74 @@
 import React, { useState } from 'react';
 import { View, Text, TextInput, TouchableOpacity, ActivityIndicator, ScrollView, KeyboardAvoidingView, Platform, StyleSheet } from 'react-native';
 import { supabase } from '../../supabaseClient';
+import { recoverWithKey } from '../../services/auth.service';
+import { useRecoveryKey } from '../context/RecoveryKeyContext';
+import { formatRecoveryKeyInput, validateRecoveryKey } from '../../utils/recovery.util';
 
 export default function ForgotPasswordScreen({ navigation }: { navigation: any }) {
+  const { showRecoveryKey } = useRecoveryKey();
+  // 'email' sends a reset link; 'key' resets right away with the recovery key from signup.
+  const [method, setMethod] = useState<'email' | 'key'>('email');
   const [email, setEmail] = useState('');
+  const [recoveryKey, setRecoveryKey] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
 
+  const keyIsValid = validateRecoveryKey(recoveryKey);
+  const passwordsMatch = newPassword === confirmPassword;
+
+  function switchMethod(next: 'email' | 'key') {
+    setMethod(next);
+    setError('');
+    setSuccess('');
+  }
+
+  async function onRecoverWithKey() {
+    try {
+      setError('');
+      setSuccess('');
+      setLoading(true);
+
+      if (!email || !recoveryKey || !newPassword) {
+        setError('Please fill in all fields');
+        return;
+      }
+      if (!keyIsValid) {
+        setError('Recovery key must be 24 digits');
+        return;
+      }
+      if (newPassword.length < 6) {
+        setError('Password must be at least 6 characters');
+        return;
+      }
+      if (!passwordsMatch) {
+        setError('Passwords do not match');
+        return;
+      }
+
+      const result = await recoverWithKey(email, recoveryKey, newPassword);
+      if (result.success === false) {
+        setError(result.error);
+        return;
+      }
+
+      // The old key no longer works; show the replacement once.
+      showRecoveryKey(result.recoveryKey);
+      setSuccess('Password updated. Save your new recovery key, then log in.');
+      setRecoveryKey('');
+      setNewPassword('');
+      setConfirmPassword('');
+    } catch (err) {
+      setError(`Recovery error: ${String(err)}`);
+      console.error('Recovery error:', err);
+    } finally {
+      setLoading(false);
+    }
+  }
+
   async function onResetPassword() {
     try {
       setError('');
@@ -72,7 +133,28 @@ export default function ForgotPasswordScreen({ navigation }: { navigation: any }
         <View style={styles.content}>
           <View style={styles.header}>
             <Text style={styles.title}>Reset Password</Text>
-            <Text style={styles.subtitle}>Enter your email to receive a reset link.</Text>
+            <Text style={styles.subtitle}>
+              {method === 'email'
+                ? 'Enter your email to receive a reset link.'
+                : 'Use the recovery key you saved at signup to set a new password.'}
+            </Text>
+          </View>
+
+          <View style={styles.methodToggle}>
+            <TouchableOpacity
+              style={[styles.methodButton, method === 'email' && styles.methodButtonActive]}
+              onPress={() => switchMethod('email')}
+              disabled={loading}
+            >
+              <Text style={[styles.methodText, method === 'email' && styles.methodTextActive]}>Email Link</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.methodButton, method === 'key' && styles.methodButtonActive]}
+              onPress={() => switchMethod('key')}
+              disabled={loading}
+            >
+              <Text style={[styles.methodText, method === 'key' && styles.methodTextActive]}>Recovery Key</Text>
+            </TouchableOpacity>
           </View>
 
           {error ? (
@@ -107,16 +189,70 @@ export default function ForgotPasswordScreen({ navigation }: { navigation: any }
               />
             </View>
 
+            {method === 'key' && (
+              <>
+                <View style={styles.inputGroup}>
+                  <Text style={styles.label}>Recovery Key</Text>
+                  <TextInput
+                    value={recoveryKey}
+                    onChangeText={(text) => {
+                      setRecoveryKey(formatRecoveryKeyInput(text));
+                      if (error) setError('');
+                    }}
+                    keyboardType="number-pad"
+                    placeholder="XXXX-XXXX-XXXX-XXXX-XXXX-XXXX"
+                    placeholderTextColor="#9CA3AF"
+                    editable={!loading && !success}
+                    style={[styles.input, styles.recoveryInput]}
+                  />
+                  {keyIsValid ? (
+                    <Text style={styles.formatValid}>✓ Valid format</Text>
+                  ) : (
+                    <Text style={styles.hint}>24 digits, shown once when you signed up</Text>
+                  )}
+                </View>
+
+                <View style={styles.inputGroup}>
+                  <Text style={styles.label}>New Password</Text>
+                  <TextInput
+                    value={newPassword}
+                    onChangeText={setNewPassword}
+                    secureTextEntry
+                    placeholder="At least 6 characters"
+                    placeholderTextColor="#9CA3AF"
+                    editable={!loading && !success}
+                    style={styles.input}
+                  />
+                </View>
+
+                <View style={styles.inputGroup}>
+                  <Text style={styles.label}>Confirm New Password</Text>
+                  <TextInput
+                    value={confirmPassword}
+                    onChangeText={setConfirmPassword}
+                    secureTextEntry
+                    placeholder="Repeat the new password"
+                    placeholderTextColor="#9CA3AF"
+                    editable={!loading && !success}
+                    style={styles.input}
+                  />
+                  {confirmPassword && !passwordsMatch ? (
+                    <Text style={styles.passwordMismatch}>Passwords do not match</Text>
+                  ) : null}
+                </View>
+              </>
+            )}
+
             <TouchableOpacity 
               style={[styles.button, (loading || success) && styles.buttonDisabled]} 
-              onPress={onResetPassword} 
+              onPress={method === 'email' ? onResetPassword : onRecoverWithKey} 
               disabled={loading || !!success}
               activeOpacity={0.8}
             >
               {loading ? (
                 <ActivityIndicator color="#FFFFFF" />
               ) : (
-                <Text style={styles.buttonText}>Send Reset Link</Text>
+                <Text style={styles.buttonText}>{method === 'email' ? 'Send Reset Link' : 'Reset Password'}</Text>
               )}
             </TouchableOpacity>
           </View>
@@ -168,6 +304,30 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     lineHeight: 22,
   },
+  methodToggle: {
+    flexDirection: 'row',
+    backgroundColor: '#E5E7EB',
+    borderRadius: 12,
+    padding: 4,
+    marginBottom: 24,
+  },
+  methodButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 10,
+    alignItems: 'center',
+  },
+  methodButtonActive: {
+    backgroundColor: '#FFFFFF',
+  },
+  methodText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  methodTextActive: {
+    color: '#2563EB',
+  },
   errorContainer: {
     backgroundColor: '#FEE2E2',
     padding: 16,
@@ -1,107 +1,51 @@
-import React, { useEffect, useState } from 'react';
-import { View, Text, ScrollView, TouchableOpacity, StyleSheet, Alert } from 'react-native';
+import React, { useState } from 'react';
+import { View, Text, ScrollView, TouchableOpacity, StyleSheet, Alert, TextInput } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import { useAuth } from '../context/AuthContext';
-import { supabase } from '../../supabaseClient';
-
-interface Campaign {
-  id: string;
-  title: string;
-  description: string;
-  funding_goal: number;
-  funding_raised: number;
-  equity_offered: number;
-  campaign_type: string;
-  min_investment: number;
-  max_investment?: number;
-  startups: {
-    company_name: string;
-    industry: string;
-  };
-}
+import SearchFilters from '../components/SearchFilters';
+import { useSearch } from '../hooks/useSearch';
+import { CampaignWithStartup } from '../../services/data/campaign.repository';
+import { InterestRepository } from '../../services/data/interest.repository';
+import { InvestorRepository } from '../../services/data/investor.repository';
+import { matchAfterInterest, matchAnnouncement } from '../../services/match/match.service';
+import { notify } from '../../services/notification/notification.service';
+import { CampaignType } from '../../services/data/database.types';
 
 export default function FundraisingBrowse() {
   const navigation = useNavigation();
   const { user } = useAuth();
-  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [filter, setFilter] = useState('all');
-
-  useEffect(() => {
-    loadCampaigns();
-  }, [filter]);
-
-  const loadCampaigns = async () => {
-    try {
-      let query = supabase
-        .from('fundraising_campaigns')
-        .select(`
-          *,
-          startups (
-            company_name,
-            industry
-          )
-        `)
-        .eq('status', 'active');
-
-      if (filter !== 'all') {
-        query = query.eq('campaign_type', filter);
-      }
-
-      const { data, error } = await query.order('created_at', { ascending: false });
-
-      if (error) throw error;
-      setCampaigns(data || []);
-    } catch (error) {
-      console.error('Error loading campaigns:', error);
-      Alert.alert('Error', 'Failed to load campaigns');
-    } finally {
-      setLoading(false);
-    }
-  };
+  const [filter, setFilter] = useState<'all' | CampaignType>('all');
+  const campaignSearch = useSearch('campaigns', { campaignType: filter === 'all' ? null : filter });
+  const campaigns = campaignSearch.rows;
 
-  const expressInterest = async (campaignId: string, campaignTitle: string) => {
+  const expressInterest = async (campaign: CampaignWithStartup) => {
     if (!user?.id) {
       Alert.alert('Error', 'Please login to express interest');
       return;
     }
 
     try {
-      // Check if already expressed interest
-      const { data: existing } = await supabase
-        .from('campaign_interests')
-        .select('id')
-        .eq('campaign_id', campaignId)
-        .eq('investor_id', user.id)
-        .single();
-
-      if (existing) {
-        Alert.alert('Already Interested', 'You have already expressed interest in this campaign');
-        return;
-      }
-
       // Get investor profile
-      const { data: investorData } = await supabase
-        .from('investors')
-        .select('id')
-        .eq('owner_id', user.id)
-        .single();
+      const investorId = await InvestorRepository.findIdByOwner(user.id);
 
-      if (!investorData) {
+      if (!investorId) {
         Alert.alert('Error', 'Please complete your investor profile first');
         return;
       }
 
-      const { error } = await supabase.from('campaign_interests').insert({
-        campaign_id: campaignId,
-        investor_id: investorData.id,
-        interest_level: 'interested',
-        status: 'pending'
-      });
-
-      if (error) throw error;
+      const outcome = await InterestRepository.expressInterest(campaign.id, investorId);
+      if (outcome === 'exists') {
+        Alert.alert('Already Interested', 'You have already expressed interest in this campaign');
+        return;
+      }
 
-      Alert.alert('Success', `Interest expressed in "${campaignTitle}"`);
+      notify({ type: 'interest.submitted', campaignId: campaign.id });
+      const match = await matchAfterInterest(campaign, investorId);
+      if (match) {
+        Alert.alert("It's a match!", matchAnnouncement(campaign.startups?.company_name || 'The startup'));
+        return;
+      }
+      Alert.alert('Success', `Interest expressed in "${campaign.title}"`);
     } catch (error) {
       console.error('Error expressing interest:', error);
       Alert.alert('Error', 'Failed to express interest');
@@ -112,7 +56,7 @@ export default function FundraisingBrowse() {
     return Math.min((raised / goal) * 100, 100);
   };
 
-  const filterOptions = [
+  const filterOptions: Array<{ key: 'all' | CampaignType; label: string }> = [
     { key: 'all', label: 'All Campaigns' },
     { key: 'equity', label: 'Equity' },
     { key: 'debt', label: 'Debt' },
@@ -138,13 +82,33 @@ export default function FundraisingBrowse() {
         ))}
       </View>
 
-      {loading ? (
+      <TextInput
+        style={styles.searchInput}
+        placeholder="Search by company, campaign or industry..."
+        value={campaignSearch.text}
+        onChangeText={campaignSearch.setText}
+      />
+      <SearchFilters
+        total={campaignSearch.total}
+        loading={campaignSearch.loading}
+        facetOptions={campaignSearch.facetOptions}
+        facets={campaignSearch.facets}
+        onFacet={campaignSearch.setFacet}
+        onClear={campaignSearch.clearFacets}
+        sortOptions={campaignSearch.sortOptions}
+        sortKey={campaignSearch.sortKey}
+        onSort={campaignSearch.setSortKey}
+      />
+
+      {campaignSearch.loading && campaigns.length === 0 ? (
         <Text style={styles.loadingText}>Loading campaigns...</Text>
       ) : campaigns.length === 0 ? (
         <View style={styles.emptyState}>
           <Text style={styles.emptyTitle}>No Active Campaigns</Text>
           <Text style={styles.emptyText}>
-            There are currently no active fundraising campaigns matching your criteria.
+            {campaignSearch.isFiltering
+              ? 'No campaigns match your search. Try other words or fewer filters.'
+              : 'There are currently no active fundraising campaigns matching your criteria.'}
           </Text>
         </View>
       ) : (
@@ -218,7 +182,7 @@ export default function FundraisingBrowse() {
               <View style={styles.actionButtons}>
                 <TouchableOpacity
                   style={[styles.actionButton, styles.interestButton]}
-                  onPress={() => expressInterest(campaign.id, campaign.title)}
+                  onPress={() => expressInterest(campaign)}
                 >
                   <Text style={styles.actionButtonText}>Express Interest</Text>
                 </TouchableOpacity>
@@ -232,6 +196,11 @@ export default function FundraisingBrowse() {
               </View>
             </View>
           ))}
+          {campaignSearch.hasMore && (
+            <TouchableOpacity style={styles.loadMoreButton} onPress={campaignSearch.loadMore}>
+              <Text style={styles.loadMoreText}>{campaignSearch.loadingMore ? 'Loading...' : 'Load more'}</Text>
+            </TouchableOpacity>
+          )}
         </View>
       )}
 
@@ -280,6 +249,15 @@ const styles = StyleSheet.create({
     color: '#fff',
     fontWeight: '600',
   },
+  searchInput: {
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 12,
+  },
   loadingText: {
     fontSize: 16,
     color: '#666',
@@ -439,4 +417,13 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '600',
   },
+  loadMoreButton: {
+    padding: 12,
+    alignItems: 'center',
+  },
+  loadMoreText: {
+    color: '#007bff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
 });
\ No newline at end of file
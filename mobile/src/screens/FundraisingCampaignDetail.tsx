@@ -2,36 +2,24 @@ import React, { useEffect, useState } from 'react';
 import { View, Text, ScrollView, TouchableOpacity, StyleSheet, Alert, TextInput, Modal } from 'react-native';
 import { useNavigation, useRoute } from '@react-navigation/native';
 import { useAuth } from '../context/AuthContext';
-import { supabase } from '../../supabaseClient';
-
-interface Campaign {
-  id: string;
-  title: string;
-  description: string;
-  funding_goal: number;
-  funding_raised: number;
-  equity_offered: number;
-  campaign_type: string;
-  min_investment: number;
-  max_investment?: number;
-  business_model: string;
-  market_size: string;
-  competitive_advantage: string;
-  use_of_funds: string;
-  pitch_deck_url?: string;
-  financial_projections_url?: string;
-  business_plan_url?: string;
-  created_at: string;
-  startups: {
-    company_name: string;
-    industry: string;
-    location: string;
-    founded_year: number;
-    team_size: number;
-    website?: string;
-    linkedin?: string;
-  };
-}
+import { CampaignRepository, CampaignWithStartupDetail } from '../../services/data/campaign.repository';
+import { InterestRepository } from '../../services/data/interest.repository';
+import { InvestorRepository } from '../../services/data/investor.repository';
+import { InvestmentPayment, PaymentRepository } from '../../services/data/payment.repository';
+import { matchAfterInterest, matchAnnouncement } from '../../services/match/match.service';
+import { notify } from '../../services/notification/notification.service';
+import { CampaignInterestRow, InterestLevel } from '../../services/data/database.types';
+import {
+  canConfirm,
+  confirmCommitment,
+  INTEREST_STAGE_LABELS,
+  interestStage
+} from '../../services/campaign/commitment.service';
+import { canPay, payForInvestment } from '../../services/payment/payment.service';
+import { validateCommitment } from '../../utils/investment.util';
+import { formatPaise, PAYMENT_STATUS_LABELS, toPaise } from '../../utils/payment.util';
+import CampaignUpdatesTimeline from '../components/CampaignUpdatesTimeline';
+import DataRoom from '../components/DataRoom';
 
 export default function FundraisingCampaignDetail() {
   const navigation = useNavigation();
@@ -39,79 +27,32 @@ export default function FundraisingCampaignDetail() {
   const { user } = useAuth();
   const params = route.params as any;
   const campaignId = params?.campaignId as string | undefined;
-  const isMock = params?.isMock === true;
-  const mockCampaign = params?.mockCampaign;
 
-  const [campaign, setCampaign] = useState<Campaign | null>(null);
+  const [campaign, setCampaign] = useState<CampaignWithStartupDetail | null>(null);
   const [loading, setLoading] = useState(true);
   const [interestModalVisible, setInterestModalVisible] = useState(false);
   const [proposedInvestment, setProposedInvestment] = useState('');
-  const [interestLevel, setInterestLevel] = useState('interested');
+  const [interestLevel, setInterestLevel] = useState<InterestLevel>('interested');
   const [submitting, setSubmitting] = useState(false);
+  // The signed-in investor's interest in this campaign, if any.
+  const [myInterest, setMyInterest] = useState<CampaignInterestRow | null>(null);
+  const [confirmModalVisible, setConfirmModalVisible] = useState(false);
+  const [finalAmount, setFinalAmount] = useState('');
+  const [finalEquity, setFinalEquity] = useState('');
+  // The confirmed investment and its latest payment, once invested.
+  const [investmentPayment, setInvestmentPayment] = useState<InvestmentPayment | null>(null);
+  const [paying, setPaying] = useState(false);
 
   useEffect(() => {
-    if (isMock && mockCampaign) {
-      // Map mock campaign shape to the expected DB campaign shape
-      const parsedGoal = parseCurrency(mockCampaign.fundingGoal);
-      const parsedRaised = parseCurrency(mockCampaign.currentRaised);
-
-      const mapped: any = {
-        id: mockCampaign.id,
-        title: mockCampaign.title,
-        description: mockCampaign.description,
-        funding_goal: parsedGoal,
-        funding_raised: parsedRaised,
-        equity_offered: 0,
-        campaign_type: mockCampaign.stage || 'seed',
-        min_investment: 0,
-        max_investment: null,
-        business_model: '',
-        market_size: '',
-        competitive_advantage: '',
-        use_of_funds: '',
-        pitch_deck_url: null,
-        financial_projections_url: null,
-        business_plan_url: null,
-        created_at: mockCampaign.createdAt,
-        startups: {
-          company_name: mockCampaign.startupName,
-          industry: mockCampaign.industry,
-          location: 'N/A',
-          founded_year: 0,
-          team_size: 0,
-        }
-      };
-
-      setCampaign(mapped as Campaign);
-      setLoading(false);
-      return;
-    }
-
     loadCampaign();
-  }, [campaignId, isMock, mockCampaign]);
-
-  function parseCurrency(str: string) {
-    if (!str) return 0;
-    const s = String(str).trim();
-    const num = parseFloat(s.replace(/[^0-9\.KMkm]/g, '')) || 0;
-    if (/K/i.test(s)) return Math.round(num * 1000);
-    if (/M/i.test(s)) return Math.round(num * 1000000);
-    return Math.round(num);
-  }
+  }, [campaignId]);
 
   const loadCampaign = async () => {
     try {
-      const { data, error } = await supabase
-        .from('fundraising_campaigns')
-        .select(`
-          *,
-          startups (*)
-        `)
-        .eq('id', campaignId)
-        .single();
-
-      if (error) throw error;
+      const data = await CampaignRepository.getWithStartup(campaignId);
+      if (!data) throw new Error('Campaign not found');
       setCampaign(data);
+      await loadMyInterest(data.id);
     } catch (error) {
       console.error('Error loading campaign:', error);
       Alert.alert('Error', 'Failed to load campaign details');
@@ -121,12 +62,93 @@ export default function FundraisingCampaignDetail() {
     }
   };
 
+  const loadMyInterest = async (id: string): Promise<CampaignInterestRow | null> => {
+    if (!user?.id || user.role !== 'investor') return null;
+    try {
+      const investorId = await InvestorRepository.findIdByOwner(user.id);
+      const interest = investorId ? await InterestRepository.findForInvestor(id, investorId) : null;
+      setMyInterest(interest);
+      setInvestmentPayment(interest ? await PaymentRepository.findForInterest(interest.id) : null);
+      return interest;
+    } catch (error) {
+      // The campaign is still worth showing without the investor's stage.
+      console.error('Error loading interest:', error);
+      return null;
+    }
+  };
+
+  // Each interest is a conversation with the startup.
+  const openConversation = (interestId: string) => {
+    (navigation as any).navigate('Conversation', { interestId });
+  };
+
+  const openConfirmModal = () => {
+    if (!myInterest) return;
+    setFinalAmount(myInterest.proposed_investment ? String(myInterest.proposed_investment) : '');
+    setFinalEquity(myInterest.proposed_equity ? String(myInterest.proposed_equity) : '');
+    setConfirmModalVisible(true);
+  };
+
+  const submitCommitment = async () => {
+    if (!campaign || !myInterest) return;
+
+    const terms = {
+      amount: parseFloat(finalAmount),
+      equity: campaign.campaign_type === 'debt' ? 0 : parseFloat(finalEquity)
+    };
+    const problem = validateCommitment(campaign, terms);
+    if (problem) {
+      Alert.alert('Check the terms', problem);
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const result = await confirmCommitment(myInterest.id, terms);
+      if (result.success === false) {
+        if (result.kyc) {
+          setConfirmModalVisible(false);
+          Alert.alert('Verification needed', result.error, [
+            { text: 'Later', style: 'cancel' },
+            { text: 'Complete Verification', onPress: () => (navigation as any).navigate('KycStatus') }
+          ]);
+          return;
+        }
+        Alert.alert('Could not confirm', result.error);
+        return;
+      }
+      setConfirmModalVisible(false);
+      Alert.alert('Investment Confirmed', `Your commitment of ₹${terms.amount.toLocaleString()} has been recorded.`);
+      await loadCampaign();
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const payNow = async () => {
+    if (!investmentPayment) return;
+    setPaying(true);
+    try {
+      const result = await payForInvestment(investmentPayment.investment.id);
+      if (result.success === false) {
+        Alert.alert('Payment not completed', result.error);
+      } else {
+        Alert.alert('Payment Received', `${formatPaise(result.payment.amount)} has been paid. Thank you!`);
+      }
+      // Reload either way: a failed attempt is recorded against the payment too.
+      if (campaign) await loadMyInterest(campaign.id);
+    } finally {
+      setPaying(false);
+    }
+  };
+
   const submitInterest = async () => {
     if (!user?.id || !campaign) return;
 
     const investmentAmount = parseFloat(proposedInvestment);
-    if (!investmentAmount || investmentAmount < campaign.min_investment) {
-      Alert.alert('Invalid Amount', `Minimum investment is ₹${campaign.min_investment.toLocaleString()}`);
+    const minInvestment = campaign.min_investment || 0;
+    if (!investmentAmount || investmentAmount < minInvestment) {
+      Alert.alert('Invalid Amount', `Minimum investment is ₹${minInvestment.toLocaleString()}`);
       return;
     }
 
@@ -138,43 +160,42 @@ export default function FundraisingCampaignDetail() {
     setSubmitting(true);
     try {
       // Get investor profile
-      const { data: investorData } = await supabase
-        .from('investors')
-        .select('id')
-        .eq('owner_id', user.id)
-        .single();
+      const investorId = await InvestorRepository.findIdByOwner(user.id);
 
-      if (!investorData) {
+      if (!investorId) {
         Alert.alert('Error', 'Please complete your investor profile first');
         return;
       }
 
-      // Check if already expressed interest
-      const { data: existing } = await supabase
-        .from('campaign_interests')
-        .select('id')
-        .eq('campaign_id', campaignId)
-        .eq('investor_id', investorData.id)
-        .single();
+      const outcome = await InterestRepository.expressInterest(campaign.id, investorId, {
+        interest_level: interestLevel,
+        proposed_investment: investmentAmount
+      });
 
-      if (existing) {
+      if (outcome === 'exists') {
         Alert.alert('Already Interested', 'You have already expressed interest in this campaign');
         return;
       }
 
-      const { error } = await supabase.from('campaign_interests').insert({
-        campaign_id: campaignId,
-        investor_id: investorData.id,
-        interest_level: interestLevel,
-        proposed_investment: investmentAmount,
-        status: 'pending'
-      });
-
-      if (error) throw error;
-
-      Alert.alert('Success', 'Interest submitted successfully! The startup will be notified.');
+      notify({ type: 'interest.submitted', campaignId: campaign.id });
+      const match = await matchAfterInterest(campaign, investorId);
       setInterestModalVisible(false);
       setProposedInvestment('');
+      const interest = await loadMyInterest(campaign.id);
+      const startupName = campaign.startups?.company_name || 'The startup';
+      const actions = [
+        { text: 'Later', style: 'cancel' as const },
+        ...(interest ? [{ text: 'Send a message', onPress: () => openConversation(interest.id) }] : [])
+      ];
+      if (match) {
+        Alert.alert("It's a match!", matchAnnouncement(startupName), actions);
+      } else {
+        Alert.alert(
+          'Interest submitted',
+          `${startupName} can see your interest in their investor pipeline. Send them a message to introduce yourself.`,
+          actions
+        );
+      }
     } catch (error) {
       console.error('Error submitting interest:', error);
       Alert.alert('Error', 'Failed to submit interest');
@@ -187,10 +208,10 @@ export default function FundraisingCampaignDetail() {
     return Math.min((raised / goal) * 100, 100);
   };
 
-  const interestLevels = [
+  const interestLevels: Array<{ key: InterestLevel; label: string }> = [
     { key: 'interested', label: 'Interested' },
     { key: 'very_interested', label: 'Very Interested' },
-    { key: 'ready_to_invest', label: 'Ready to Invest' }
+    { key: 'committed', label: 'Ready to Invest' }
   ];
 
   if (loading) {
@@ -212,6 +233,8 @@ export default function FundraisingCampaignDetail() {
     );
   }
 
+  const isOwner = !!user?.id && campaign.startups?.owner_id === user.id;
+
   return (
     <ScrollView style={styles.container} contentContainerStyle={styles.content}>
       {/* Header */}
@@ -220,7 +243,7 @@ export default function FundraisingCampaignDetail() {
           <Text style={styles.companyName}>{campaign.startups?.company_name}</Text>
           <Text style={styles.campaignTitle}>{campaign.title}</Text>
           <View style={styles.campaignType}>
-            <Text style={styles.typeText}>{campaign.campaign_type.toUpperCase()}</Text>
+            <Text style={styles.typeText}>{(campaign.campaign_type || 'equity').toUpperCase()}</Text>
           </View>
         </View>
       </View>
@@ -261,7 +284,7 @@ export default function FundraisingCampaignDetail() {
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Investment Details</Text>
         <Text style={styles.rangeText}>
-          Investment Range: ₹{campaign.min_investment.toLocaleString()}
+          Investment Range: ₹{(campaign.min_investment || 0).toLocaleString()}
           {campaign.max_investment ? ` - ₹${campaign.max_investment.toLocaleString()}` : '+'}
         </Text>
       </View>
@@ -292,12 +315,6 @@ export default function FundraisingCampaignDetail() {
               <Text style={styles.detailValue}>{campaign.startups?.website}</Text>
             </View>
           )}
-          {(campaign.startups?.linkedin) && (
-            <View style={styles.detailRow}>
-              <Text style={styles.detailLabel}>LinkedIn:</Text>
-              <Text style={styles.detailValue}>{campaign.startups?.linkedin}</Text>
-            </View>
-          )}
         </View>
       </View>
 
@@ -313,12 +330,12 @@ export default function FundraisingCampaignDetail() {
         <View style={styles.businessDetails}>
           <View style={styles.detailBlock}>
             <Text style={styles.detailBlockTitle}>Business Model</Text>
-            <Text style={styles.detailBlockText}>{campaign.business_model}</Text>
+            <Text style={styles.detailBlockText}>{campaign.startups?.business_model}</Text>
           </View>
 
           <View style={styles.detailBlock}>
-            <Text style={styles.detailBlockTitle}>Market Size</Text>
-            <Text style={styles.detailBlockText}>{campaign.market_size}</Text>
+            <Text style={styles.detailBlockTitle}>Market Analysis</Text>
+            <Text style={styles.detailBlockText}>{campaign.market_analysis}</Text>
           </View>
 
           <View style={styles.detailBlock}>
@@ -333,6 +350,16 @@ export default function FundraisingCampaignDetail() {
         </View>
       </View>
 
+      {/* Updates */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Updates</Text>
+        <CampaignUpdatesTimeline
+          campaignId={campaign.id}
+          canSeePrivate={isOwner || !!myInterest || user?.role === 'admin' || user?.role === 'super_admin'}
+          canManage={isOwner}
+        />
+      </View>
+
       {/* Documents */}
       {(campaign.pitch_deck_url || campaign.financial_projections_url || campaign.business_plan_url) && (
         <View style={styles.section}>
@@ -357,14 +384,67 @@ export default function FundraisingCampaignDetail() {
         </View>
       )}
 
+      {/* Data Room */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Data Room</Text>
+        <DataRoom
+          campaignId={campaign.id}
+          viewer={{
+            isOwner,
+            isAdmin: user?.role === 'admin' || user?.role === 'super_admin',
+            interestStatus: myInterest?.status ?? null
+          }}
+        />
+      </View>
+
       {/* Action Button */}
       <View style={styles.actionSection}>
-        <TouchableOpacity
-          style={styles.interestButton}
-          onPress={() => setInterestModalVisible(true)}
-        >
-          <Text style={styles.interestButtonText}>Express Interest</Text>
-        </TouchableOpacity>
+        {myInterest ? (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Your Interest</Text>
+            <Text style={styles.stageText}>Stage: {INTEREST_STAGE_LABELS[interestStage(myInterest)]}</Text>
+            {interestStage(myInterest) === 'pending' && (
+              <Text style={styles.stageHint}>The startup will be in touch before you can confirm an amount.</Text>
+            )}
+            {interestStage(myInterest) === 'invested' && (
+              <Text style={styles.stageHint}>Your investment in this campaign is confirmed.</Text>
+            )}
+            {interestStage(myInterest) === 'invested' && investmentPayment?.payment && (
+              <Text style={styles.stageText}>Payment: {PAYMENT_STATUS_LABELS[investmentPayment.payment.status]}</Text>
+            )}
+            {interestStage(myInterest) === 'invested' && investmentPayment?.payment?.failure_reason && (
+              <Text style={styles.stageHint}>{investmentPayment.payment.failure_reason}</Text>
+            )}
+            {interestStage(myInterest) === 'invested' && investmentPayment && canPay(investmentPayment) && (
+              <TouchableOpacity style={styles.interestButton} onPress={payNow} disabled={paying}>
+                <Text style={styles.interestButtonText}>
+                  {paying ? 'Processing...' : `Pay ${formatPaise(toPaise(Number(investmentPayment.investment.amount)))}`}
+                </Text>
+              </TouchableOpacity>
+            )}
+            {canConfirm(myInterest) && (
+              <TouchableOpacity style={styles.interestButton} onPress={openConfirmModal}>
+                <Text style={styles.interestButtonText}>Confirm Investment</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity style={styles.messageButton} onPress={() => openConversation(myInterest.id)}>
+              <Text style={styles.messageButtonText}>💬 Message {campaign.startups?.company_name || 'the startup'}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.messageButton}
+              onPress={() => (navigation as any).navigate('MeetingScheduler', { interestId: myInterest.id })}
+            >
+              <Text style={styles.messageButtonText}>📅 Meeting times</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <TouchableOpacity
+            style={styles.interestButton}
+            onPress={() => setInterestModalVisible(true)}
+          >
+            <Text style={styles.interestButtonText}>Express Interest</Text>
+          </TouchableOpacity>
+        )}
       </View>
 
       {/* Interest Modal */}
@@ -430,6 +510,65 @@ export default function FundraisingCampaignDetail() {
         </View>
       </Modal>
 
+      {/* Confirm Investment Modal */}
+      <Modal
+        visible={confirmModalVisible}
+        transparent={true}
+        animationType="slide"
+        onRequestClose={() => setConfirmModalVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>Confirm Investment</Text>
+            <Text style={styles.modalHint}>
+              Range: ₹{(campaign.min_investment || 0).toLocaleString()}
+              {campaign.max_investment ? ` - ₹${campaign.max_investment.toLocaleString()}` : '+'}
+            </Text>
+
+            <Text style={styles.modalLabel}>Final Amount (₹)</Text>
+            <TextInput
+              style={styles.investmentInput}
+              value={finalAmount}
+              onChangeText={setFinalAmount}
+              placeholder={`Minimum: ₹${(campaign.min_investment || 0).toLocaleString()}`}
+              keyboardType="numeric"
+            />
+
+            {campaign.campaign_type !== 'debt' && (
+              <>
+                <Text style={styles.modalLabel}>Equity (%)</Text>
+                <TextInput
+                  style={styles.investmentInput}
+                  value={finalEquity}
+                  onChangeText={setFinalEquity}
+                  placeholder={`Up to ${campaign.equity_offered}%`}
+                  keyboardType="numeric"
+                />
+              </>
+            )}
+
+            <View style={styles.modalButtons}>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.cancelButton]}
+                onPress={() => setConfirmModalVisible(false)}
+              >
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={[styles.modalButton, styles.submitButton]}
+                onPress={submitCommitment}
+                disabled={submitting}
+              >
+                <Text style={styles.submitButtonText}>
+                  {submitting ? 'Confirming...' : 'Confirm'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
       <View style={{ height: 40 }} />
     </ScrollView>
   );
@@ -634,6 +773,30 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontWeight: 'bold',
   },
+  messageButton: {
+    borderWidth: 1,
+    borderColor: '#007bff',
+    padding: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  messageButtonText: {
+    color: '#007bff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  stageText: {
+    fontSize: 16,
+    color: '#333',
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  stageHint: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 12,
+  },
   modalOverlay: {
     flex: 1,
     backgroundColor: 'rgba(0,0,0,0.5)',
@@ -654,6 +817,12 @@ const styles = StyleSheet.create({
     marginBottom: 20,
     textAlign: 'center',
   },
+  modalHint: {
+    fontSize: 14,
+    color: '#007bff',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
   modalLabel: {
     fontSize: 16,
     color: '#333',
@@ -2,7 +2,10 @@ import React, { useState, useEffect } from 'react';
 import { View, Text, TextInput, Button, TouchableOpacity, ScrollView, StyleSheet, Alert } from 'react-native';
 import { useNavigation, useRoute } from '@react-navigation/native';
 import { useAuth } from '../context/AuthContext';
-import { supabase } from '../../supabaseClient';
+import { CampaignRepository } from '../../services/data/campaign.repository';
+import { StartupRepository } from '../../services/data/startup.repository';
+import { CampaignType } from '../../services/data/database.types';
+import DataRoomManager from '../components/DataRoomManager';
 
 export default function FundraisingCampaignForm() {
   const navigation = useNavigation();
@@ -17,7 +20,7 @@ export default function FundraisingCampaignForm() {
   const [minInvestment, setMinInvestment] = useState('10000');
   const [maxInvestment, setMaxInvestment] = useState('');
   const [equityOffered, setEquityOffered] = useState('');
-  const [campaignType, setCampaignType] = useState('equity');
+  const [campaignType, setCampaignType] = useState<CampaignType>('equity');
   const [startDate, setStartDate] = useState('');
   const [endDate, setEndDate] = useState('');
   const [pitchDeckUrl, setPitchDeckUrl] = useState('');
@@ -30,7 +33,7 @@ export default function FundraisingCampaignForm() {
   const [risks, setRisks] = useState('');
   const [loading, setLoading] = useState(false);
 
-  const campaignTypes = ['equity', 'debt', 'convertible'];
+  const campaignTypes: CampaignType[] = ['equity', 'debt', 'convertible'];
 
   const handleSave = async () => {
     if (!title.trim() || !description.trim() || !fundingGoal || !equityOffered) {
@@ -46,18 +49,14 @@ export default function FundraisingCampaignForm() {
     setLoading(true);
     try {
       // First get the startup ID for this user
-      const { data: startupData, error: startupError } = await supabase
-        .from('startups')
-        .select('id')
-        .eq('owner_id', user.id)
-        .single();
+      const startupId = await StartupRepository.findIdByOwner(user.id);
 
-      if (startupError || !startupData) {
+      if (!startupId) {
         throw new Error('No startup profile found. Please create a startup profile first.');
       }
 
       if (editingCampaignId) {
-        const { error } = await supabase.from('fundraising_campaigns').update({
+        await CampaignRepository.update(editingCampaignId, {
           title,
           description,
           funding_goal: parseFloat(fundingGoal),
@@ -75,15 +74,13 @@ export default function FundraisingCampaignForm() {
           use_of_funds: useOfFunds,
           milestones: milestones,
           risks: risks,
-        }).eq('id', editingCampaignId);
-
-        if (error) throw error;
+        });
 
         Alert.alert('Success', 'Fundraising campaign updated successfully!');
         navigation.goBack();
       } else {
-        const { error } = await supabase.from('fundraising_campaigns').insert({
-        startup_id: startupData.id,
+        await CampaignRepository.create({
+        startup_id: startupId,
         title,
         description,
         funding_goal: parseFloat(fundingGoal),
@@ -103,7 +100,6 @@ export default function FundraisingCampaignForm() {
         risks: risks,
         status: 'draft'
       });
-        if (error) throw error;
 
         Alert.alert('Success', 'Fundraising campaign created successfully!');
         navigation.goBack();
@@ -120,13 +116,8 @@ export default function FundraisingCampaignForm() {
     async function loadForEdit() {
       if (!editingCampaignId) return;
       try {
-        const { data, error } = await supabase
-          .from('fundraising_campaigns')
-          .select('*')
-          .eq('id', editingCampaignId)
-          .single();
-
-        if (error || !data) return;
+        const data = await CampaignRepository.getById(editingCampaignId);
+        if (!data) return;
 
         setTitle(data.title || '');
         setDescription(data.description || '');
@@ -289,6 +280,13 @@ export default function FundraisingCampaignForm() {
         style={styles.input}
       />
 
+      <Text style={styles.label}>Data Room</Text>
+      {editingCampaignId && user ? (
+        <DataRoomManager campaignId={editingCampaignId} userId={user.id} />
+      ) : (
+        <Text style={styles.hint}>Save the campaign first, then come back here to upload documents.</Text>
+      )}
+
       {/* Business Details */}
       <Text style={styles.sectionTitle}>Business Details</Text>
 
@@ -402,6 +400,11 @@ const styles = StyleSheet.create({
     minHeight: 80,
     textAlignVertical: 'top',
   },
+  hint: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 12,
+  },
   chipContainer: {
     flexDirection: 'row',
     flexWrap: 'wrap',
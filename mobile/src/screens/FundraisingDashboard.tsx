@@ -2,24 +2,29 @@ import React, { useEffect, useState } from 'react';
 import { View, Text, Button, ScrollView, TouchableOpacity, StyleSheet, Alert } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import { useAuth } from '../context/AuthContext';
-import { supabase } from '../../supabaseClient';
-
-interface Campaign {
-  id: string;
-  title: string;
-  funding_goal: number;
-  funding_raised: number;
-  status: string;
-  created_at: string;
-  equity_offered: number;
-  campaign_type: string;
-}
+import { CampaignRepository } from '../../services/data/campaign.repository';
+import { StartupRepository } from '../../services/data/startup.repository';
+import { CampaignReviewRow, CampaignRow, CampaignStatus } from '../../services/data/database.types';
+import {
+  availableTransitions,
+  CampaignTransition,
+  formatStatus,
+  transitionCampaign
+} from '../../services/campaign/lifecycle.service';
+import { DECISION_LABELS, feedbackFor } from '../../services/campaign/review.service';
+import { CampaignReviewRepository } from '../../services/data/review.repository';
+import { canPostUpdates } from '../../services/campaign/updates.service';
+import PostUpdateModal from '../components/PostUpdateModal';
 
 export default function FundraisingDashboard() {
   const navigation = useNavigation();
   const { user } = useAuth();
-  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [campaigns, setCampaigns] = useState<CampaignRow[]>([]);
+  // Latest admin review per campaign, for showing feedback on sent-back drafts.
+  const [latestReviews, setLatestReviews] = useState<Record<string, CampaignReviewRow>>({});
   const [loading, setLoading] = useState(true);
+  // The campaign whose Post Update form is open.
+  const [postingTo, setPostingTo] = useState<CampaignRow | null>(null);
 
   useEffect(() => {
     loadCampaigns();
@@ -30,26 +35,17 @@ export default function FundraisingDashboard() {
 
     try {
       // First get the startup ID for this user
-      const { data: startupData } = await supabase
-        .from('startups')
-        .select('id')
-        .eq('owner_id', user.id)
-        .single();
+      const startupId = await StartupRepository.findIdByOwner(user.id);
 
-      if (!startupData) {
+      if (!startupId) {
         setCampaigns([]);
         setLoading(false);
         return;
       }
 
-      const { data, error } = await supabase
-        .from('fundraising_campaigns')
-        .select('*')
-        .eq('startup_id', startupData.id)
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-      setCampaigns(data || []);
+      const mine = await CampaignRepository.listByStartup(startupId);
+      setCampaigns(mine);
+      setLatestReviews(await CampaignReviewRepository.latestByCampaign(mine.map(c => c.id)));
     } catch (error) {
       console.error('Error loading campaigns:', error);
       Alert.alert('Error', 'Failed to load campaigns');
@@ -58,19 +54,48 @@ export default function FundraisingDashboard() {
     }
   };
 
-  const updateCampaignStatus = async (campaignId: string, newStatus: string) => {
-    try {
-      const { error } = await supabase
-        .from('fundraising_campaigns')
-        .update({ status: newStatus })
-        .eq('id', campaignId);
+  const applyTransition = async (campaign: CampaignRow, transition: CampaignTransition) => {
+    if (!user?.id) return;
 
-      if (error) throw error;
-      await loadCampaigns();
-      Alert.alert('Success', `Campaign ${newStatus === 'active' ? 'activated' : 'paused'}`);
-    } catch (error) {
-      console.error('Error updating campaign:', error);
-      Alert.alert('Error', 'Failed to update campaign status');
+    const result = await transitionCampaign(campaign, transition.to, { actor: 'owner', userId: user.id });
+    if (result.success === false) {
+      if (result.kyc) {
+        Alert.alert('Verification needed', result.error, [
+          { text: 'Later', style: 'cancel' },
+          { text: 'Complete Verification', onPress: () => (navigation as any).navigate('KycStatus') }
+        ]);
+        return;
+      }
+      Alert.alert('Cannot update campaign', result.error);
+      return;
+    }
+    await loadCampaigns();
+  };
+
+  // Cancelling or closing a round cannot be undone, so ask first.
+  const handleTransition = (campaign: CampaignRow, transition: CampaignTransition) => {
+    if (transition.to !== 'cancelled' && transition.to !== 'completed') {
+      applyTransition(campaign, transition);
+      return;
+    }
+    Alert.alert(
+      `${transition.label}?`,
+      `"${campaign.title}" will be marked ${formatStatus(transition.to)}. This cannot be undone.`,
+      [
+        { text: 'Back', style: 'cancel' },
+        { text: transition.label, style: 'destructive', onPress: () => applyTransition(campaign, transition) }
+      ]
+    );
+  };
+
+  const getTransitionButtonStyle = (to: CampaignStatus) => {
+    switch (to) {
+      case 'pending_review':
+      case 'active': return styles.activateButton;
+      case 'paused': return styles.pauseButton;
+      case 'completed': return styles.completeButton;
+      case 'cancelled': return styles.cancelButton;
+      default: return styles.draftButton;
     }
   };
 
@@ -78,9 +103,11 @@ export default function FundraisingDashboard() {
     switch (status) {
       case 'active': return '#28a745';
       case 'draft': return '#ffc107';
+      case 'pending_review': return '#17a2b8';
       case 'paused': return '#fd7e14';
       case 'completed': return '#20c997';
       case 'cancelled': return '#dc3545';
+      case 'rejected': return '#842029';
       default: return '#6c757d';
     }
   };
@@ -136,7 +163,7 @@ export default function FundraisingDashboard() {
               <View style={styles.campaignHeader}>
                 <Text style={styles.campaignTitle}>{campaign.title}</Text>
                 <View style={[styles.statusBadge, { backgroundColor: getStatusColor(campaign.status) }]}>
-                  <Text style={styles.statusText}>{campaign.status.toUpperCase()}</Text>
+                  <Text style={styles.statusText}>{formatStatus(campaign.status || 'draft').toUpperCase()}</Text>
                 </View>
               </View>
 
@@ -175,24 +202,22 @@ export default function FundraisingDashboard() {
               </View>
 
               {/* Action Buttons */}
+              {feedbackFor(campaign, latestReviews[campaign.id]) && (
+                <View style={styles.feedbackBox}>
+                  <Text style={styles.feedbackTitle}>{DECISION_LABELS[latestReviews[campaign.id].decision]} by admin</Text>
+                  <Text style={styles.feedbackText}>{latestReviews[campaign.id].reason}</Text>
+                </View>
+              )}
               <View style={styles.actionButtons}>
-                {campaign.status === 'draft' && (
-                  <TouchableOpacity
-                    style={[styles.actionButton, styles.activateButton]}
-                    onPress={() => updateCampaignStatus(campaign.id, 'active')}
-                  >
-                    <Text style={styles.actionButtonText}>Activate</Text>
-                  </TouchableOpacity>
-                )}
-
-                {campaign.status === 'active' && (
+                {availableTransitions(campaign, 'owner').map(transition => (
                   <TouchableOpacity
-                    style={[styles.actionButton, styles.pauseButton]}
-                    onPress={() => updateCampaignStatus(campaign.id, 'paused')}
+                    key={transition.to}
+                    style={[styles.actionButton, getTransitionButtonStyle(transition.to)]}
+                    onPress={() => handleTransition(campaign, transition)}
                   >
-                    <Text style={styles.actionButtonText}>Pause</Text>
+                    <Text style={styles.actionButtonText}>{transition.label}</Text>
                   </TouchableOpacity>
-                )}
+                ))}
 
                 <TouchableOpacity
                   style={[styles.actionButton, styles.viewButton]}
@@ -200,6 +225,20 @@ export default function FundraisingDashboard() {
                 >
                   <Text style={styles.actionButtonText}>View Details</Text>
                 </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.actionButton, styles.interestsButton]}
+                  onPress={() => (navigation as any).navigate('CampaignInterests', { campaignId: campaign.id })}
+                >
+                  <Text style={styles.actionButtonText}>Investors</Text>
+                </TouchableOpacity>
+                {canPostUpdates(campaign) && (
+                  <TouchableOpacity
+                    style={[styles.actionButton, styles.updateButton]}
+                    onPress={() => setPostingTo(campaign)}
+                  >
+                    <Text style={styles.actionButtonText}>Post Update</Text>
+                  </TouchableOpacity>
+                )}
                 <TouchableOpacity
                   style={[styles.actionButton, styles.editButton]}
                   onPress={() => (navigation as any).navigate('FundraisingCampaignForm', { campaignId: campaign.id })}
@@ -212,6 +251,12 @@ export default function FundraisingDashboard() {
         </View>
       )}
 
+      <PostUpdateModal
+        campaign={postingTo}
+        onClose={() => setPostingTo(null)}
+        onPosted={() => Alert.alert('Update posted', 'Investors following this campaign have been notified.')}
+      />
+
       <View style={{ height: 40 }} />
     </ScrollView>
   );
@@ -362,13 +407,16 @@ const styles = StyleSheet.create({
   actionButtons: {
     flexDirection: 'row',
     justifyContent: 'space-between',
+    flexWrap: 'wrap',
   },
   actionButton: {
     flex: 1,
+    minWidth: '28%',
     padding: 10,
     borderRadius: 6,
     alignItems: 'center',
     marginHorizontal: 4,
+    marginBottom: 8,
   },
   activateButton: {
     backgroundColor: '#28a745',
@@ -376,12 +424,44 @@ const styles = StyleSheet.create({
   pauseButton: {
     backgroundColor: '#ffc107',
   },
+  completeButton: {
+    backgroundColor: '#20c997',
+  },
+  cancelButton: {
+    backgroundColor: '#dc3545',
+  },
+  draftButton: {
+    backgroundColor: '#6c757d',
+  },
+  feedbackBox: {
+    backgroundColor: '#fff3cd',
+    borderRadius: 6,
+    padding: 10,
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  feedbackTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#856404',
+    marginBottom: 2,
+  },
+  feedbackText: {
+    fontSize: 13,
+    color: '#856404',
+  },
   viewButton: {
     backgroundColor: '#007bff',
   },
   editButton: {
     backgroundColor: '#6f42c1',
   },
+  interestsButton: {
+    backgroundColor: '#20c997',
+  },
+  updateButton: {
+    backgroundColor: '#17a2b8',
+  },
   actionButtonText: {
     color: '#fff',
     fontSize: 14,
@@ -5,7 +5,8 @@ import { View, Text, Button, ScrollView, StyleSheet, Platform } from 'react-nati
 // Import navigation hook.
 import { useNavigation } from '@react-navigation/native';
 import { useAuth } from '../context/AuthContext';
-import { supabase } from '../../supabaseClient';
+import { InvestorRepository } from '../../services/data/investor.repository';
+import { InvestorRow } from '../../services/data/database.types';
 
 // InvestorDashboard component shows investor info.
 export default function InvestorDashboard() {
@@ -15,7 +16,7 @@ export default function InvestorDashboard() {
   const { user, signOut } = useAuth();
 
   const [loading, setLoading] = useState(true);
-  const [profile, setProfile] = useState<any>(null);
+  const [profile, setProfile] = useState<InvestorRow | null>(null);
 
   useEffect(() => {
     let mounted = true;
@@ -30,13 +31,9 @@ export default function InvestorDashboard() {
 
       try {
         // Try to read an `investors` table row linked to this user.
-        const { data, error } = await supabase
-          .from('investors')
-          .select('*')
-          .eq('owner_id', user.id)
-          .single();
+        const data = await InvestorRepository.findByOwner(user.id);
 
-        if (!error && data && mounted) setProfile(data as any);
+        if (data && mounted) setProfile(data);
         else setProfile(null);
       } catch (err) {
         setProfile(null);
@@ -1,29 +1,15 @@
 import React, { useEffect, useState } from 'react';
 import { View, Text, ScrollView, TouchableOpacity, StyleSheet, Alert, Linking } from 'react-native';
 import { useNavigation, useRoute } from '@react-navigation/native';
-import { supabase } from '../../supabaseClient';
-
-interface Investor {
-  id: string;
-  investor_name?: string;
-  company_name?: string;
-  location?: string;
-  bio?: string;
-  min_investment?: number;
-  max_investment?: number;
-  interested_industries?: string;
-  investment_stage?: string;
-  linkedin_url?: string;
-  twitter?: string;
-  website?: string;
-}
+import { InvestorRepository } from '../../services/data/investor.repository';
+import { InvestorRow } from '../../services/data/database.types';
 
 export default function InvestorDetail() {
   const navigation = useNavigation();
   const route = useRoute();
   const { investorId } = route.params as { investorId: string };
 
-  const [investor, setInvestor] = useState<Investor | null>(null);
+  const [investor, setInvestor] = useState<InvestorRow | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -32,13 +18,8 @@ export default function InvestorDetail() {
 
   const loadInvestor = async () => {
     try {
-      const { data, error } = await supabase
-        .from('investors')
-        .select('*')
-        .eq('id', investorId)
-        .single();
-
-      if (error) throw error;
+      const data = await InvestorRepository.getById(investorId);
+      if (!data) throw new Error('Investor not found');
       setInvestor(data);
     } catch (error) {
       console.error('Error loading investor:', error);
@@ -115,12 +96,12 @@ export default function InvestorDetail() {
             </View>
           )}
 
-          {investor.investment_stage && (
+          {investor.investor_type && (
             <View style={styles.infoItem}>
               <Text style={styles.infoIcon}>💼</Text>
               <View style={styles.infoContent}>
-                <Text style={styles.infoLabel}>Investment Stage</Text>
-                <Text style={styles.infoValue}>{investor.investment_stage}</Text>
+                <Text style={styles.infoLabel}>Investor Type</Text>
+                <Text style={styles.infoValue}>{investor.investor_type}</Text>
               </View>
             </View>
           )}
@@ -150,7 +131,7 @@ export default function InvestorDetail() {
       )}
 
       {/* Social Links */}
-      {(investor.linkedin_url || investor.twitter || investor.website) && (
+      {(investor.linkedin_url || investor.website) && (
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Connect</Text>
           <View style={styles.linksContainer}>
@@ -164,16 +145,6 @@ export default function InvestorDetail() {
               </TouchableOpacity>
             )}
 
-            {investor.twitter && (
-              <TouchableOpacity
-                style={styles.linkButton}
-                onPress={() => openLink(investor.twitter)}
-              >
-                <Text style={styles.linkIcon}>🐦</Text>
-                <Text style={styles.linkText}>Twitter</Text>
-              </TouchableOpacity>
-            )}
-
             {investor.website && (
               <TouchableOpacity
                 style={styles.linkButton}
@@ -2,142 +2,88 @@ import React, { useEffect, useState } from 'react';
 import { View, Text, ScrollView, TouchableOpacity, StyleSheet, TextInput, Alert, Platform, ActionSheetIOS } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import { useAuth } from '../context/AuthContext';
-import { supabase } from '../../supabaseClient';
-import { mockCampaigns } from '../data/mockCampaigns';
-
-interface Startup {
-  id: string;
-  company_name: string;
-  tagline?: string;
-  location?: string;
-  industry?: string;
-  website?: string;
-  founded_year?: number;
-}
-
-interface DbCampaign {
-  id: string;
-  title: string;
-  description: string;
-  funding_goal: number;
-  funding_raised: number;
-  equity_offered: number;
-  campaign_type: string;
-  min_investment: number;
-  max_investment?: number;
-  status: string;
-  startups: {
-    company_name: string;
-    industry: string;
-  };
-}
+import MatchesList from '../components/MatchesList';
+import ConversationList from '../components/ConversationList';
+import MeetingReminderBanner from '../components/MeetingReminderBanner';
+import NotificationBell from '../components/NotificationBell';
+import CampaignCard from '../components/CampaignCard';
+import StartupCard from '../components/StartupCard';
+import SavedList from '../components/SavedList';
+import SearchFilters from '../components/SearchFilters';
+import { useSavedIds } from '../hooks/useSavedIds';
+import { useSearch } from '../hooks/useSearch';
+import { useUnreadMessages } from '../hooks/useUnreadMessages';
+import { CampaignWithStartup } from '../../services/data/campaign.repository';
+import { InterestRepository } from '../../services/data/interest.repository';
+import { InvestorRepository } from '../../services/data/investor.repository';
+import { matchAfterInterest, matchAnnouncement } from '../../services/match/match.service';
+import { notify } from '../../services/notification/notification.service';
+import { RankedCampaign, recommendCampaigns } from '../../services/match/recommendation.service';
+import { describeReasons } from '../../utils/recommendation.util';
 
 export default function InvestorHome() {
   const navigation = useNavigation();
   const { user, signOut } = useAuth();
-  const [startups, setStartups] = useState<Startup[]>([]);
-  const [dbCampaigns, setDbCampaigns] = useState<DbCampaign[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [searchQuery, setSearchQuery] = useState('');
-  const [activeTab, setActiveTab] = useState<'explore' | 'startups' | 'saved'>('explore');
+  const [dbCampaigns, setDbCampaigns] = useState<RankedCampaign[]>([]);
+  // One search box drives both lists: campaigns on Explore, startups on
+  // the Startups tab.
+  const startupSearch = useSearch('startups');
+  const campaignSearch = useSearch('campaigns');
+  const [activeTab, setActiveTab] = useState<'explore' | 'startups' | 'saved' | 'matches' | 'messages'>('explore');
+  const [investorId, setInvestorId] = useState<string | null>(null);
+  const { isSaved, toggle, reload: reloadSaved } = useSavedIds(user?.id);
+  const { unread: unreadMessages, reload: reloadUnread } = useUnreadMessages('investor', investorId, user?.id);
 
   useEffect(() => {
-    loadStartups();
     loadCampaigns();
   }, []);
 
-  const loadStartups = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('startups')
-        .select('id, company_name, tagline, location, industry, website, founded_year')
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-      setStartups(data || []);
-    } catch (error) {
-      console.error('Error loading startups:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
-
+  // Active campaigns, best fit for this investor first.
   const loadCampaigns = async () => {
     try {
-      const { data, error } = await supabase
-        .from('fundraising_campaigns')
-        .select(`
-          *,
-          startups (
-            company_name,
-            industry
-          )
-        `)
-        .eq('status', 'active')
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-      setDbCampaigns(data || []);
+      const id = user?.id ? await InvestorRepository.findIdByOwner(user.id) : null;
+      setInvestorId(id);
+      setDbCampaigns(await recommendCampaigns(id));
     } catch (error) {
       console.error('Error loading campaigns:', error);
     }
   };
 
-  const filteredStartups = startups.filter(startup => {
-    const query = searchQuery.toLowerCase();
-    return (
-      startup.company_name.toLowerCase().includes(query) ||
-      startup.industry?.toLowerCase().includes(query) ||
-      startup.location?.toLowerCase().includes(query)
-    );
-  });
-
-  const getProgressPercentage = (raised: number, goal: number) => {
-    return Math.min((raised / goal) * 100, 100);
+  const setSearchText = (value: string) => {
+    startupSearch.setText(value);
+    campaignSearch.setText(value);
   };
 
-  const expressInterest = async (campaignId: string, campaignTitle: string) => {
+  const exploreCampaigns: Array<CampaignWithStartup & Partial<Pick<RankedCampaign, 'recommendation'>>> =
+    campaignSearch.isFiltering ? campaignSearch.rows : dbCampaigns;
+
+  const expressInterest = async (campaign: CampaignWithStartup) => {
     if (!user?.id) {
       Alert.alert('Error', 'Please login to express interest');
       return;
     }
 
     try {
-      // Get investor profile
-      const { data: investorData } = await supabase
-        .from('investors')
-        .select('id')
-        .eq('owner_id', user.id)
-        .single();
+      const investorId = await InvestorRepository.findIdByOwner(user.id);
 
-      if (!investorData) {
+      if (!investorId) {
         Alert.alert('Error', 'Please complete your investor profile first');
         return;
       }
 
-      // Check if already expressed interest
-      const { data: existing } = await supabase
-        .from('campaign_interests')
-        .select('id')
-        .eq('campaign_id', campaignId)
-        .eq('investor_id', investorData.id)
-        .single();
-
-      if (existing) {
+      const outcome = await InterestRepository.expressInterest(campaign.id, investorId);
+      if (outcome === 'exists') {
         Alert.alert('Already Interested', 'You have already expressed interest in this campaign');
         return;
       }
 
-      const { error } = await supabase.from('campaign_interests').insert({
-        campaign_id: campaignId,
-        investor_id: investorData.id,
-        interest_level: 'interested',
-        status: 'pending'
-      });
-
-      if (error) throw error;
-
-      Alert.alert('Success', `Interest expressed in "${campaignTitle}"`);
+      notify({ type: 'interest.submitted', campaignId: campaign.id });
+      const match = await matchAfterInterest(campaign, investorId);
+      if (match) {
+        Alert.alert("It's a match!", matchAnnouncement(campaign.startups?.company_name || 'The startup'));
+        return;
+      }
+      Alert.alert('Success', `Interest expressed in "${campaign.title}"`);
     } catch (error) {
       console.error('Error expressing interest:', error);
       Alert.alert('Error', 'Failed to express interest');
@@ -174,6 +120,7 @@ export default function InvestorHome() {
       <View style={styles.header}>
         <Text style={styles.headerTitle}>Discover Startups</Text>
         <View style={styles.headerButtons}>
+          <NotificationBell userId={user?.id} />
           <TouchableOpacity
             style={styles.profileButton}
             onPress={showProfileOptions}
@@ -189,13 +136,15 @@ export default function InvestorHome() {
         </View>
       </View>
 
+      <MeetingReminderBanner side="investor" ownId={investorId} />
+
       {/* Search Bar */}
       <View style={styles.searchContainer}>
         <TextInput
           style={styles.searchInput}
           placeholder="Search campaigns, startups..."
-          value={searchQuery}
-          onChangeText={setSearchQuery}
+          value={startupSearch.text}
+          onChangeText={setSearchText}
         />
       </View>
 
@@ -225,122 +174,81 @@ export default function InvestorHome() {
             💾 Saved
           </Text>
         </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.tab, activeTab === 'matches' && styles.tabActive]}
+          onPress={() => setActiveTab('matches')}
+        >
+          <Text style={[styles.tabText, activeTab === 'matches' && styles.tabTextActive]}>
+            🤝 Matches
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.tab, activeTab === 'messages' && styles.tabActive]}
+          onPress={() => setActiveTab('messages')}
+        >
+          <View style={styles.tabLabelRow}>
+            <Text style={[styles.tabText, activeTab === 'messages' && styles.tabTextActive]}>
+              💬 Messages
+            </Text>
+            {unreadMessages > 0 && (
+              <View style={styles.tabBadge}>
+                <Text style={styles.tabBadgeText}>{unreadMessages}</Text>
+              </View>
+            )}
+          </View>
+        </TouchableOpacity>
       </View>
 
       {/* Content based on active tab */}
       <ScrollView style={styles.content}>
         {activeTab === 'explore' && (
           <View style={styles.exploreContent}>
-            {/* Live Campaigns from Database */}
-            <Text style={styles.dataSourceLabel}>🔴 Live Campaigns (Database)</Text>
-            {dbCampaigns.length === 0 ? (
+            <SearchFilters
+              total={campaignSearch.total}
+              loading={campaignSearch.loading}
+              facetOptions={campaignSearch.facetOptions}
+              facets={campaignSearch.facets}
+              onFacet={campaignSearch.setFacet}
+              onClear={campaignSearch.clearFacets}
+              sortOptions={campaignSearch.sortOptions}
+              sortKey={campaignSearch.sortKey}
+              onSort={campaignSearch.setSortKey}
+            />
+            {/* Active campaigns (fixture data in MOCK mode); search results
+                replace the recommendations once the list is narrowed */}
+            <Text style={styles.dataSourceLabel}>
+              {campaignSearch.isFiltering ? 'Matching Campaigns' : investorId ? 'Recommended Campaigns' : 'Active Campaigns'}
+            </Text>
+            {exploreCampaigns.length === 0 ? (
               <View style={styles.emptyCard}>
-                <Text style={styles.emptyText}>No active campaigns in database yet</Text>
+                <Text style={styles.emptyText}>
+                  {campaignSearch.isFiltering ? 'No campaigns match your search' : 'No active campaigns yet'}
+                </Text>
               </View>
             ) : (
-              dbCampaigns.map((campaign) => (
-                <TouchableOpacity
+              exploreCampaigns.map((campaign) => (
+                <CampaignCard
                   key={campaign.id}
-                  style={styles.campaignCard}
+                  campaign={campaign}
+                  reasons={campaign.recommendation ? describeReasons(campaign.recommendation) : undefined}
+                  saved={isSaved({ type: 'campaign', id: campaign.id })}
+                  onToggleSave={() => toggle({ type: 'campaign', id: campaign.id })}
                   onPress={() => (navigation as any).navigate('FundraisingCampaignDetail', { campaignId: campaign.id })}
                 >
-                  <View style={styles.campaignHeader}>
-                    <View style={styles.campaignHeaderLeft}>
-                      <Text style={styles.companyName}>{campaign.startups.company_name}</Text>
-                      <Text style={styles.industry}>{campaign.startups.industry}</Text>
-                    </View>
-                    <View style={styles.campaignTypeBadge}>
-                      <Text style={styles.campaignTypeText}>{campaign.campaign_type}</Text>
-                    </View>
-                  </View>
-
-                  <Text style={styles.campaignTitle}>{campaign.title}</Text>
-                  <Text style={styles.campaignDescription} numberOfLines={3}>
-                    {campaign.description}
-                  </Text>
-
-                  <View style={styles.campaignStats}>
-                    <View style={styles.statColumn}>
-                      <Text style={styles.statLabel}>Goal</Text>
-                      <Text style={styles.statValue}>₹{campaign.funding_goal.toLocaleString()}</Text>
-                    </View>
-                    <View style={styles.statColumn}>
-                      <Text style={styles.statLabel}>Raised</Text>
-                      <Text style={styles.statValue}>₹{campaign.funding_raised.toLocaleString()}</Text>
-                    </View>
-                    <View style={styles.statColumn}>
-                      <Text style={styles.statLabel}>Min Investment</Text>
-                      <Text style={styles.statValue}>₹{campaign.min_investment.toLocaleString()}</Text>
-                    </View>
-                  </View>
-
-                  <View style={styles.progressBarContainer}>
-                    <View
-                      style={[
-                        styles.progressBar,
-                        { width: `${getProgressPercentage(campaign.funding_raised, campaign.funding_goal)}%` }
-                      ]}
-                    />
-                  </View>
-
                   <TouchableOpacity
                     style={styles.interestButton}
-                    onPress={() => expressInterest(campaign.id, campaign.title)}
+                    onPress={() => expressInterest(campaign)}
                   >
                     <Text style={styles.interestButtonText}>❤️ Express Interest</Text>
                   </TouchableOpacity>
-                </TouchableOpacity>
+                </CampaignCard>
               ))
             )}
-
-            {/* Mock Campaigns */}
-            <Text style={[styles.dataSourceLabel, { marginTop: 24 }]}>🟢 Mock Campaigns (Test Data)</Text>
-            {mockCampaigns.map((campaign) => (
-              <View key={campaign.id} style={[styles.campaignCard, styles.mockCampaignCard]}>
-                <View style={styles.campaignHeader}>
-                  <View style={styles.campaignHeaderLeft}>
-                    <Text style={styles.companyName}>{campaign.startupName}</Text>
-                    <Text style={styles.industry}>{campaign.industry}</Text>
-                  </View>
-                  <View style={styles.mockBadge}>
-                    <Text style={styles.mockBadgeText}>MOCK</Text>
-                  </View>
-                </View>
-
-                <Text style={styles.campaignTitle}>{campaign.title}</Text>
-                <Text style={styles.campaignDescription} numberOfLines={3}>
-                  {campaign.description}
-                </Text>
-
-                <View style={styles.campaignStats}>
-                  <View style={styles.statColumn}>
-                    <Text style={styles.statLabel}>Goal</Text>
-                    <Text style={styles.statValue}>{campaign.fundingGoal}</Text>
-                  </View>
-                  <View style={styles.statColumn}>
-                    <Text style={styles.statLabel}>Raised</Text>
-                    <Text style={styles.statValue}>{campaign.currentRaised}</Text>
-                  </View>
-                  <View style={styles.statColumn}>
-                    <Text style={styles.statLabel}>Stage</Text>
-                    <Text style={styles.statValue}>{campaign.stage}</Text>
-                  </View>
-                </View>
-
-                <View style={styles.mockStats}>
-                  <Text style={styles.mockStatText}>👀 {campaign.stats.views} views</Text>
-                  <Text style={styles.mockStatText}>❤️ {campaign.stats.interests} interests</Text>
-                  <Text style={styles.mockStatText}>🤝 {campaign.stats.matches} matches</Text>
-                </View>
-
-                <TouchableOpacity
-                  style={[styles.interestButton, styles.mockInterestButton]}
-                  onPress={() => Alert.alert('Mock Action', 'This is mock data. No action taken.')}
-                >
-                  <Text style={styles.interestButtonText}>❤️ Express Interest (Mock)</Text>
-                </TouchableOpacity>
-              </View>
-            ))}
+            {campaignSearch.isFiltering && campaignSearch.hasMore && (
+              <TouchableOpacity style={styles.viewAllButton} onPress={campaignSearch.loadMore}>
+                <Text style={styles.viewAllText}>{campaignSearch.loadingMore ? 'Loading...' : 'Load more'}</Text>
+              </TouchableOpacity>
+            )}
 
             <TouchableOpacity
               style={styles.viewAllButton}
@@ -354,79 +262,62 @@ export default function InvestorHome() {
         {activeTab === 'startups' && (
           <View style={styles.startupsContent}>
             <Text style={styles.sectionTitle}>All Startups</Text>
-            {loading ? (
+            <SearchFilters
+              total={startupSearch.total}
+              loading={startupSearch.loading}
+              facetOptions={startupSearch.facetOptions}
+              facets={startupSearch.facets}
+              onFacet={startupSearch.setFacet}
+              onClear={startupSearch.clearFacets}
+              sortOptions={startupSearch.sortOptions}
+              sortKey={startupSearch.sortKey}
+              onSort={startupSearch.setSortKey}
+            />
+            {startupSearch.loading && startupSearch.rows.length === 0 ? (
               <Text style={styles.loadingText}>Loading startups...</Text>
-            ) : filteredStartups.length === 0 ? (
+            ) : startupSearch.rows.length === 0 ? (
               <View style={styles.emptyState}>
                 <Text style={styles.emptyTitle}>No Startups Found</Text>
                 <Text style={styles.emptyText}>
-                  {searchQuery ? 'Try adjusting your search' : 'No startups are registered yet'}
+                  {startupSearch.isFiltering ? 'Try adjusting your search' : 'No startups are registered yet'}
                 </Text>
               </View>
             ) : (
               <View style={styles.startupsList}>
-                {filteredStartups.map((startup) => (
-                  <TouchableOpacity
+                {startupSearch.rows.map((startup) => (
+                  <StartupCard
                     key={startup.id}
-                    style={styles.startupCard}
+                    startup={startup}
+                    saved={isSaved({ type: 'startup', id: startup.id })}
+                    onToggleSave={() => toggle({ type: 'startup', id: startup.id })}
                     onPress={() => (navigation as any).navigate('StartupDetail', { startupId: startup.id })}
-                  >
-                    <View style={styles.cardHeader}>
-                      <Text style={styles.companyName}>{startup.company_name}</Text>
-                      {startup.founded_year && (
-                        <Text style={styles.yearBadge}>{startup.founded_year}</Text>
-                      )}
-                    </View>
-
-                    {startup.tagline && (
-                      <Text style={styles.tagline} numberOfLines={2}>
-                        {startup.tagline}
-                      </Text>
-                    )}
-
-                    <View style={styles.cardDetails}>
-                      {startup.industry && (
-                        <View style={styles.detailItem}>
-                          <Text style={styles.detailIcon}>🏢</Text>
-                          <Text style={styles.detailText} numberOfLines={1}>
-                            {startup.industry.split(',')[0]}
-                          </Text>
-                        </View>
-                      )}
-
-                      {startup.location && (
-                        <View style={styles.detailItem}>
-                          <Text style={styles.detailIcon}>📍</Text>
-                          <Text style={styles.detailText}>{startup.location}</Text>
-                        </View>
-                      )}
-
-                      {startup.website && (
-                        <View style={styles.detailItem}>
-                          <Text style={styles.detailIcon}>🌐</Text>
-                          <Text style={styles.detailText} numberOfLines={1}>
-                            {startup.website}
-                          </Text>
-                        </View>
-                      )}
-                    </View>
-
-                    <View style={styles.viewDetailsButton}>
-                      <Text style={styles.viewDetailsText}>View Details →</Text>
-                    </View>
-                  </TouchableOpacity>
+                  />
                 ))}
+                {startupSearch.hasMore && (
+                  <TouchableOpacity style={styles.viewAllButton} onPress={startupSearch.loadMore}>
+                    <Text style={styles.viewAllText}>{startupSearch.loadingMore ? 'Loading...' : 'Load more'}</Text>
+                  </TouchableOpacity>
+                )}
               </View>
             )}
           </View>
         )}
 
         {activeTab === 'saved' && (
-          <View style={styles.savedContent}>
-            <Text style={styles.emptyTitle}>Saved Items</Text>
-            <Text style={styles.emptyText}>
-              Your saved campaigns and startups will appear here.
-            </Text>
+          <View style={styles.exploreContent}>
+            <SavedList ownerId={user?.id ?? null} onChange={reloadSaved} />
+          </View>
+        )}
+
+        {activeTab === 'matches' && (
+          <View style={styles.exploreContent}>
+            <MatchesList side="investor" ownId={investorId} />
+          </View>
+        )}
+
+        {activeTab === 'messages' && (
+          <View style={styles.exploreContent}>
+            <ConversationList side="investor" ownId={investorId} onChange={reloadUnread} />
           </View>
         )}
         <View style={{ height: 40 }} />
@@ -509,6 +400,23 @@ const styles = StyleSheet.create({
     color: '#007bff',
     fontWeight: '700',
   },
+  tabLabelRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  tabBadge: {
+    backgroundColor: '#dc3545',
+    borderRadius: 9,
+    minWidth: 18,
+    paddingHorizontal: 5,
+    marginLeft: 4,
+    alignItems: 'center',
+  },
+  tabBadgeText: {
+    color: '#fff',
+    fontSize: 11,
+    fontWeight: 'bold',
+  },
   content: {
     flex: 1,
   },
@@ -518,10 +426,6 @@ const styles = StyleSheet.create({
   startupsContent: {
     padding: 16,
   },
-  savedContent: {
-    padding: 40,
-    alignItems: 'center',
-  },
   sectionTitle: {
     fontSize: 20,
     fontWeight: 'bold',
@@ -550,130 +454,12 @@ const styles = StyleSheet.create({
     color: '#999',
     textAlign: 'center',
   },
-  campaignCard: {
-    backgroundColor: '#fff',
-    padding: 16,
-    borderRadius: 12,
-    marginBottom: 16,
-    borderWidth: 1,
-    borderColor: '#e0e0e0',
-    shadowColor: '#000',
-    shadowOffset: { width: 0, height: 2 },
-    shadowOpacity: 0.1,
-    shadowRadius: 4,
-    elevation: 2,
-  },
-  mockCampaignCard: {
-    borderColor: '#28a745',
-    borderWidth: 2,
-    backgroundColor: '#f8fff9',
-  },
-  campaignHeader: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'flex-start',
-    marginBottom: 8,
-  },
-  campaignHeaderLeft: {
-    flex: 1,
-  },
-  companyName: {
-    fontSize: 18,
-    fontWeight: 'bold',
-    color: '#333',
-  },
-  industry: {
-    fontSize: 12,
-    color: '#666',
-    marginTop: 2,
-  },
-  campaignTypeBadge: {
-    backgroundColor: '#007bff',
-    paddingHorizontal: 8,
-    paddingVertical: 4,
-    borderRadius: 12,
-  },
-  campaignTypeText: {
-    fontSize: 10,
-    color: '#fff',
-    fontWeight: '700',
-  },
-  mockBadge: {
-    backgroundColor: '#28a745',
-    paddingHorizontal: 8,
-    paddingVertical: 4,
-    borderRadius: 12,
-  },
-  mockBadgeText: {
-    fontSize: 10,
-    color: '#fff',
-    fontWeight: '700',
-  },
-  campaignTitle: {
-    fontSize: 16,
-    fontWeight: '600',
-    color: '#333',
-    marginTop: 8,
-    marginBottom: 8,
-  },
-  campaignDescription: {
-    fontSize: 14,
-    color: '#666',
-    lineHeight: 20,
-    marginBottom: 12,
-  },
-  campaignStats: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    marginBottom: 12,
-  },
-  statColumn: {
-    flex: 1,
-  },
-  statLabel: {
-    fontSize: 11,
-    color: '#999',
-    marginBottom: 4,
-  },
-  statValue: {
-    fontSize: 14,
-    fontWeight: '600',
-    color: '#333',
-  },
-  progressBarContainer: {
-    height: 8,
-    backgroundColor: '#e0e0e0',
-    borderRadius: 4,
-    overflow: 'hidden',
-    marginBottom: 12,
-  },
-  progressBar: {
-    height: '100%',
-    backgroundColor: '#28a745',
-    borderRadius: 4,
-  },
-  mockStats: {
-    flexDirection: 'row',
-    justifyContent: 'space-around',
-    marginBottom: 12,
-    paddingTop: 8,
-    borderTopWidth: 1,
-    borderTopColor: '#e0e0e0',
-  },
-  mockStatText: {
-    fontSize: 12,
-    color: '#666',
-    fontWeight: '500',
-  },
   interestButton: {
     backgroundColor: '#007bff',
     padding: 12,
     borderRadius: 8,
     alignItems: 'center',
   },
-  mockInterestButton: {
-    backgroundColor: '#28a745',
-  },
   interestButtonText: {
     color: '#fff',
     fontSize: 14,
@@ -710,62 +496,4 @@ const styles = StyleSheet.create({
   startupsList: {
     marginTop: 8,
   },
-  startupCard: {
-    backgroundColor: '#fff',
-    padding: 16,
-    borderRadius: 12,
-    marginBottom: 16,
-    shadowColor: '#000',
-    shadowOffset: { width: 0, height: 2 },
-    shadowOpacity: 0.1,
-    shadowRadius: 4,
-    elevation: 2,
-  },
-  cardHeader: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-    marginBottom: 8,
-  },
-  yearBadge: {
-    fontSize: 12,
-    color: '#666',
-    backgroundColor: '#f0f0f0',
-    paddingHorizontal: 8,
-    paddingVertical: 4,
-    borderRadius: 12,
-  },
-  tagline: {
-    fontSize: 14,
-    color: '#666',
-    marginBottom: 12,
-    lineHeight: 20,
-  },
-  cardDetails: {
-    marginBottom: 12,
-  },
-  detailItem: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    marginBottom: 6,
-  },
-  detailIcon: {
-    fontSize: 14,
-    marginRight: 8,
-  },
-  detailText: {
-    fontSize: 14,
-    color: '#666',
-    flex: 1,
-  },
-  viewDetailsButton: {
-    paddingTop: 8,
-    borderTopWidth: 1,
-    borderTopColor: '#f0f0f0',
-  },
-  viewDetailsText: {
-    fontSize: 14,
-    color: '#007bff',
-    fontWeight: '600',
-  },
 });
@@ -2,20 +2,25 @@
 import React, { useState, useEffect } from 'react';
 // Import UI components.
 import { View, Text, Button, FlatList, Alert } from 'react-native';
+import { useNavigation } from '@react-navigation/native';
 // Import auth hook for permission checks.
 import { useAuth } from '../context/AuthContext';
-import { supabase } from '../../supabaseClient';
-// Import audit log helper.
-import { addLog, readLog } from '../utils/auditLog';
+import { InvestorAdminSummary, InvestorRepository } from '../../services/data/investor.repository';
+import { AuditEventRepository } from '../../services/data/audit.repository';
+import { AuditEventRow } from '../../services/data/database.types';
+// Admin actions go through the moderation service so each one is audited.
+import { setInvestorAccredited, setInvestorDisabled, setInvestorVerified } from '../../services/admin/moderation.service';
+import { describeAuditEvent } from '../../services/admin/audit.service';
 
 // InvestorManagement screen shows investors and admin actions.
 export default function InvestorManagement() {
   // Read current user to check permissions.
   const { user } = useAuth();
+  const navigation = useNavigation();
 
   // Local state for list and audit log view.
-  const [investors, setInvestors] = useState<Array<{ id: string; public_id?: string; investor_type?: string; subscription?: string; disabled?: boolean }>>([]);
-  const [logs] = useState(() => readLog());
+  const [investors, setInvestors] = useState<InvestorAdminSummary[]>([]);
+  const [events, setEvents] = useState<AuditEventRow[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -23,8 +28,8 @@ export default function InvestorManagement() {
     async function load() {
       setLoading(true);
       try {
-        const { data } = await supabase.from('investors').select('id, public_id, investor_type, subscription, disabled');
-        if (mounted && data) setInvestors(data as any);
+        const data = await InvestorRepository.listForAdmin();
+        if (mounted && data) setInvestors(data);
       } catch (e) {
         if (mounted) setInvestors([]);
       } finally {
@@ -32,47 +37,90 @@ export default function InvestorManagement() {
       }
     }
     load();
+    loadEvents();
     return () => {
       mounted = false;
     };
   }, []);
 
+  // The most recent audited investor actions, newest first.
+  async function loadEvents() {
+    try {
+      setEvents(await AuditEventRepository.list({ targetType: 'investor', limit: 10 }));
+    } catch (e) {
+      console.error('Failed to load audit events:', e);
+    }
+  }
+
   // View profile (mock) just shows an alert.
   function onView(id: string) {
     Alert.alert('View', `View profile for ${id}`);
-    addLog(`Admin ${user.public_id} viewed Investor ${id}`);
   }
 
-  // Edit profile shows alert and log.
+  // Edit profile (mock) just shows an alert.
   function onEdit(id: string) {
     Alert.alert('Edit', `Edit profile for ${id}`);
-    addLog(`Admin ${user.public_id} edited Investor ${id}`);
   }
 
-  // Disable account (admin action).
-  async function onDisable(id: string) {
-    try {
-      await supabase.from('investors').update({ disabled: true }).eq('id', id);
-    } catch (e) {}
-    setInvestors(prev => prev.map(i => (i.id === id ? { ...i, disabled: true } : i)));
-    addLog(`Admin ${user.public_id} disabled Investor ${id}`);
-    Alert.alert('Disabled', 'Investor disabled');
+  // Disable or re-enable an account (admin action).
+  async function onSetDisabled(id: string, disabled: boolean) {
+    const result = await setInvestorDisabled(user, id, disabled);
+    if (result.success === false) {
+      Alert.alert('Error', result.error);
+      return;
+    }
+    setInvestors(prev => prev.map(i => (i.id === id ? { ...i, disabled } : i)));
+    loadEvents();
+    Alert.alert(disabled ? 'Disabled' : 'Enabled', disabled ? 'Investor disabled' : 'Investor enabled');
+  }
+
+  // Mark the investor's profile reviewed (or back to pending).
+  async function onSetVerified(id: string, verified: boolean) {
+    const result = await setInvestorVerified(user, id, verified);
+    if (result.success === false) {
+      Alert.alert('Error', result.error);
+      return;
+    }
+    setInvestors(prev => prev.map(i => (i.id === id ? { ...i, verification_status: verified ? 'verified' : 'pending' } : i)));
+    loadEvents();
+  }
+
+  // Accreditation is confirmed for a year from today, or withdrawn.
+  async function onSetAccredited(id: string, accredited: boolean) {
+    const until = new Date();
+    until.setFullYear(until.getFullYear() + 1);
+    const accreditedUntil = accredited ? until.toISOString().slice(0, 10) : null;
+    const result = await setInvestorAccredited(user, id, accreditedUntil);
+    if (result.success === false) {
+      Alert.alert('Error', result.error);
+      return;
+    }
+    setInvestors(prev => prev.map(i => (i.id === id ? { ...i, accredited_until: accreditedUntil } : i)));
+    loadEvents();
   }
 
   // Render each investor row with actions.
-  function renderItem({ item }: { item: typeof investors[0] }) {
+  function renderItem({ item }: { item: InvestorAdminSummary }) {
+    const verified = item.verification_status === 'verified';
+    const accredited = Boolean(item.accredited_until) && item.accredited_until >= new Date().toISOString().slice(0, 10);
     return (
       <View style={{ padding: 8, borderBottomWidth: 1 }}>
         <Text>Public ID: {item.public_id}</Text>
         <Text>Type: {item.investor_type}</Text>
         <Text>Subscription: {item.subscription}</Text>
         <Text>Disabled: {item.disabled ? 'Yes' : 'No'}</Text>
+        <Text>Review: {item.verification_status || 'pending'}</Text>
+        <Text>Accredited: {accredited ? `Until ${item.accredited_until}` : 'No'}</Text>
 
         <Button title="View Profile" onPress={() => onView(item.id)} />
         <View style={{ height: 4 }} />
         <Button title="Edit" onPress={() => onEdit(item.id)} />
         <View style={{ height: 4 }} />
-        <Button title="Disable" onPress={() => onDisable(item.id)} />
+        <Button title={item.disabled ? 'Enable' : 'Disable'} onPress={() => onSetDisabled(item.id, !item.disabled)} />
+        <View style={{ height: 4 }} />
+        <Button title={verified ? 'Set to Pending' : 'Verify'} onPress={() => onSetVerified(item.id, !verified)} />
+        <View style={{ height: 4 }} />
+        <Button title={accredited ? 'Withdraw Accreditation' : 'Accredit for 1 Year'} onPress={() => onSetAccredited(item.id, !accredited)} />
       </View>
     );
   }
@@ -83,17 +131,19 @@ export default function InvestorManagement() {
       <Text style={{ fontSize: 20, fontWeight: 'bold', marginBottom: 12 }}>Investor Management</Text>
 
       <Text style={{ marginBottom: 8 }}>You are: {user.public_id} ({user.role})</Text>
-      <Text style={{ marginBottom: 12 }}>Admins can view/edit/disable investor accounts.</Text>
+      <Text style={{ marginBottom: 12 }}>Admins can view/edit/disable investor accounts, review their profiles and confirm accreditation.</Text>
 
       {loading ? <Text>Loading investors...</Text> : <FlatList data={investors} keyExtractor={i => i.id} renderItem={renderItem} />}
 
       <View style={{ height: 12 }} />
       <Text style={{ fontSize: 16, fontWeight: 'bold' }}>Audit Log (recent)</Text>
-      {logs.map((l, idx) => (
-        <Text key={idx} style={{ fontSize: 12 }}>
-          {l}
+      {events.map(e => (
+        <Text key={e.id} style={{ fontSize: 12 }}>
+          {e.created_at} - {describeAuditEvent(e)} ({e.actor_role})
         </Text>
       ))}
+      <View style={{ height: 8 }} />
+      <Button title="Full Audit Log" onPress={() => (navigation as any).navigate('AuditLog')} />
     </View>
   );
 }
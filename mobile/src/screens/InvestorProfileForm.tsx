@@ -2,7 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { View, Text, TextInput, TouchableOpacity, Alert, ScrollView, StyleSheet } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import { useAuth } from '../context/AuthContext';
-import { supabase } from '../../supabaseClient';
+import { InvestorRepository } from '../../services/data/investor.repository';
 
 export default function InvestorProfileForm() {
   const navigation = useNavigation();
@@ -37,13 +37,9 @@ export default function InvestorProfileForm() {
       if (!user.id || user.role !== 'investor') return;
 
       try {
-        const { data, error } = await supabase
-          .from('investors')
-          .select('*')
-          .eq('owner_id', user.id)
-          .single();
+        const data = await InvestorRepository.findByOwner(user.id);
 
-        if (!error && data) {
+        if (data) {
           setInvestorName(data.investor_name || '');
           setCompanyName(data.company_name || '');
           setLocation(data.location || '');
@@ -96,8 +92,7 @@ export default function InvestorProfileForm() {
     }
 
     try {
-      const { error } = await supabase.from('investors').upsert({
-        owner_id: user.id,
+      await InvestorRepository.saveProfile(user.id, {
         investor_name: investorName,
         company_name: companyName,
         location: location,
@@ -111,19 +106,13 @@ export default function InvestorProfileForm() {
         linkedin_url: linkedinUrl,
         bio: bio,
         subscription: 'basic'
-      }, { onConflict: 'owner_id' });
-
-      if (error) {
-        console.error('Investor upsert error:', error);
-        Alert.alert('Save failed', error.message || JSON.stringify(error));
-        return;
-      }
+      });
 
       Alert.alert('Success', 'Investor profile saved!');
       // @ts-ignore
       navigation.navigate('InvestorHome');
     } catch (err) {
-      Alert.alert('Error', 'Failed to save investor profile');
+      Alert.alert('Save failed', err?.message || 'Failed to save investor profile');
       console.error('investorProfileForm save error:', err);
     }
   }
@@ -0,0 +1,185 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, ActivityIndicator, ScrollView, StyleSheet } from 'react-native';
+import { KycRecordRow } from '../../services/data/database.types';
+import { loadMyKyc } from '../../services/verification/kyc.service';
+import { KYC_LEVEL_LABELS, KYC_POLICY, KYC_STEP_LABELS, KycStep, kycSteps, meetsLevel } from '../../utils/kyc.util';
+
+// What each unlocked level lets the user do, in the order shown.
+const UNLOCKS: { label: string; action: keyof typeof KYC_POLICY; subject: 'startup' | 'investor' }[] = [
+  { label: 'Submit a campaign for review', action: 'campaign.submit', subject: 'startup' },
+  { label: 'Have a campaign approved and go live', action: 'campaign.activate', subject: 'startup' },
+  { label: 'Confirm investments', action: 'investment.confirm', subject: 'investor' }
+];
+
+export default function KycStatus({ navigation }: { navigation: any }) {
+  const [record, setRecord] = useState<KycRecordRow | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    // Refresh on focus so returning from a step shows it done.
+    const refresh = () => {
+      setLoading(true);
+      loadMyKyc()
+        .then(result => {
+          if (result.success === false) {
+            setError(result.error);
+            return;
+          }
+          setError('');
+          setRecord(result.record);
+        })
+        .finally(() => setLoading(false));
+    };
+    refresh();
+    return navigation.addListener('focus', refresh);
+  }, [navigation]);
+
+  // Where the user goes to complete a step; null when an admin does it.
+  function stepScreen(step: KycStep): string | null {
+    if (step === 'aadhaar') return 'AadhaarVerification';
+    if (step === 'pan' || step === 'registration' || step === 'gstin') return 'StartupProfileForm';
+    return null;
+  }
+
+  if (!record) {
+    return (
+      <View style={[styles.container, styles.content]}>
+        {loading ? (
+          <ActivityIndicator color="#2563EB" />
+        ) : (
+          <View style={styles.errorContainer}>
+            <Text style={styles.errorText}>{error || 'Choose a startup or investor role to get verified.'}</Text>
+          </View>
+        )}
+      </View>
+    );
+  }
+
+  const steps = kycSteps(record);
+  const unlocks = UNLOCKS.filter(u => u.subject === record.subject_type);
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Text style={styles.title}>Verification</Text>
+      <Text style={styles.subtitle}>Your level: {KYC_LEVEL_LABELS[record.level]}</Text>
+
+      {error ? (
+        <View style={styles.errorContainer}>
+          <Text style={styles.errorText}>{error}</Text>
+        </View>
+      ) : null}
+
+      <Text style={styles.sectionTitle}>Steps</Text>
+      {steps.map(({ step, level, done }) => {
+        const screen = done ? null : stepScreen(step);
+        return (
+          <View key={step} style={[styles.step, done && styles.stepDone]}>
+            <Text style={styles.stepText}>
+              {done ? '✓ ' : ''}
+              {KYC_STEP_LABELS[step]}
+            </Text>
+            <Text style={styles.hint}>Needed for: {KYC_LEVEL_LABELS[level]}</Text>
+            {screen ? (
+              <TouchableOpacity onPress={() => navigation.navigate(screen)}>
+                <Text style={styles.linkText}>{step === 'aadhaar' ? 'Verify now' : 'Edit profile'}</Text>
+              </TouchableOpacity>
+            ) : null}
+            {!done && step === 'review' ? (
+              <Text style={styles.hint}>An admin reviews your profile once the steps above are done.</Text>
+            ) : null}
+            {!done && step === 'accreditation' ? (
+              <Text style={styles.hint}>Contact support with your accreditation certificate to apply.</Text>
+            ) : null}
+          </View>
+        );
+      })}
+
+      {unlocks.length > 0 && (
+        <>
+          <Text style={styles.sectionTitle}>What you can do</Text>
+          {unlocks.map(u => (
+            <Text key={u.action} style={styles.unlockText}>
+              {meetsLevel(record.level, KYC_POLICY[u.action]) ? '✓' : '✗'} {u.label} ({KYC_LEVEL_LABELS[KYC_POLICY[u.action]]})
+            </Text>
+          ))}
+        </>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  content: {
+    padding: 24,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#111827',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 15,
+    color: '#6B7280',
+    lineHeight: 22,
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#111827',
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  errorContainer: {
+    backgroundColor: '#FEE2E2',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 20,
+    borderLeftWidth: 4,
+    borderLeftColor: '#DC2626',
+  },
+  errorText: {
+    color: '#991B1B',
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  step: {
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  stepDone: {
+    backgroundColor: '#D1FAE5',
+    borderColor: '#10B981',
+  },
+  stepText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 6,
+  },
+  linkText: {
+    fontSize: 14,
+    color: '#2563EB',
+    fontWeight: '600',
+    marginTop: 10,
+  },
+  unlockText: {
+    fontSize: 14,
+    color: '#374151',
+    marginBottom: 8,
+  },
+});
@@ -0,0 +1,156 @@
+// Import React and hooks.
+import React, { useState, useEffect } from 'react';
+// Import UI components.
+import { View, Text, Button, ScrollView, Alert } from 'react-native';
+// Import auth hook for permission checks.
+import { useAuth } from '../context/AuthContext';
+// Balances, disbursements and reconciliation run in server functions (server/ledger.ts).
+import {
+  CampaignLedgerSummary,
+  disburseCampaign,
+  LedgerBalance,
+  LedgerIssue,
+  loadLedgerBalances,
+  reconcileLedger
+} from '../../services/admin/ledger.service';
+import { heldAmount, LEDGER_ACCOUNT_LABELS, platformFee } from '../../utils/ledger.util';
+import { formatPaise } from '../../utils/payment.util';
+
+// LedgerScreen shows ledger balances and lets admins disburse campaigns and reconcile the ledger.
+export default function LedgerScreen() {
+  const { user } = useAuth();
+
+  const [accounts, setAccounts] = useState<LedgerBalance[]>([]);
+  const [campaigns, setCampaigns] = useState<CampaignLedgerSummary[]>([]);
+  const [issues, setIssues] = useState<LedgerIssue[] | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  async function load() {
+    setLoading(true);
+    try {
+      const result = await loadLedgerBalances();
+      if (result.success === false) {
+        Alert.alert('Error', result.error);
+        return;
+      }
+      setAccounts(result.accounts);
+      setCampaigns(result.campaigns);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  // Disburse everything the campaign has been paid, after confirming.
+  function onDisburse(campaign: CampaignLedgerSummary) {
+    const fee = platformFee(campaign.disbursable);
+    Alert.alert(
+      'Disburse Funds',
+      `Pay ${formatPaise(campaign.disbursable - fee)} to the startup for ${campaign.title}, keeping a ${formatPaise(fee)} fee?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Disburse',
+          onPress: async () => {
+            setBusy(campaign.campaignId);
+            try {
+              const result = await disburseCampaign(campaign.campaignId);
+              if (result.success === false) {
+                Alert.alert('Error', result.error);
+                return;
+              }
+              await load();
+            } finally {
+              setBusy(null);
+            }
+          }
+        }
+      ]
+    );
+  }
+
+  async function onReconcile(repair: boolean) {
+    setBusy(repair ? 'repair' : 'reconcile');
+    try {
+      const result = await reconcileLedger(repair);
+      if (result.success === false) {
+        Alert.alert('Error', result.error);
+        return;
+      }
+      setIssues(result.issues);
+      if (repair) await load();
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  return (
+    <ScrollView contentContainerStyle={{ padding: 16 }}>
+      <Text style={{ fontSize: 20, fontWeight: 'bold', marginBottom: 12 }}>Ledger</Text>
+
+      <Text style={{ marginBottom: 8 }}>You are: {user.public_id} ({user.role})</Text>
+      <Text style={{ marginBottom: 12 }}>
+        Every commitment, payment, refund and disbursement is posted here; campaign funding totals come from it.
+      </Text>
+
+      {loading ? (
+        <Text>Loading ledger...</Text>
+      ) : (
+        <>
+          <Text style={{ fontSize: 16, fontWeight: 'bold', marginBottom: 8 }}>Campaign escrow</Text>
+          {campaigns.length === 0 && <Text style={{ marginBottom: 12 }}>No campaigns have commitments yet.</Text>}
+          {campaigns.map(c => (
+            <View key={c.campaignId} style={{ padding: 8, borderBottomWidth: 1 }}>
+              <Text>{c.title}</Text>
+              <Text>Committed: {formatPaise(c.committed)}</Text>
+              <Text>Paid in, not yet disbursed: {formatPaise(c.disbursable)}</Text>
+              {c.disbursable > 0 && (
+                <Button
+                  title={busy === c.campaignId ? 'Disbursing...' : 'Disburse'}
+                  disabled={busy !== null}
+                  onPress={() => onDisburse(c)}
+                />
+              )}
+            </View>
+          ))}
+
+          <Text style={{ fontSize: 16, fontWeight: 'bold', marginTop: 16, marginBottom: 8 }}>Accounts</Text>
+          {accounts.length === 0 && <Text>No accounts yet.</Text>}
+          {accounts.map(a => (
+            <View key={a.accountId} style={{ padding: 8, borderBottomWidth: 1 }}>
+              <Text>
+                {LEDGER_ACCOUNT_LABELS[a.kind]}
+                {a.owner ? `: ${a.owner}` : ''}
+              </Text>
+              <Text>{a.balance > 0 ? `Owes ${formatPaise(a.balance)}` : `Holds ${formatPaise(heldAmount(a.balance))}`}</Text>
+            </View>
+          ))}
+        </>
+      )}
+
+      <Text style={{ fontSize: 16, fontWeight: 'bold', marginTop: 16, marginBottom: 8 }}>Reconciliation</Text>
+      <Button title={busy === 'reconcile' ? 'Checking...' : 'Reconcile'} disabled={busy !== null} onPress={() => onReconcile(false)} />
+      <View style={{ height: 8 }} />
+      <Button
+        title={busy === 'repair' ? 'Repairing...' : 'Repair and Reconcile'}
+        disabled={busy !== null}
+        onPress={() => onReconcile(true)}
+      />
+      {issues !== null && issues.length === 0 && <Text style={{ marginTop: 8 }}>The ledger agrees with payments, investments and campaign totals.</Text>}
+      {issues?.map(issue => (
+        <View key={`${issue.subject}:${issue.id}:${issue.message}`} style={{ padding: 8, borderBottomWidth: 1 }}>
+          <Text>
+            {issue.subject} {issue.id}: {issue.message}
+          </Text>
+          <Text>
+            Expected {formatPaise(issue.expected)}, ledger has {formatPaise(issue.recorded)}
+          </Text>
+        </View>
+      ))}
+    </ScrollView>
+  );
+}
@@ -124,6 +124,18 @@ export default function LoginScreen({ navigation }: { navigation: any }) {
               <Text style={styles.linkText}>Sign up</Text>
             </TouchableOpacity>
           </View>
+
+          {/* Dev builds: reach the API mode switch and fixture accounts before signing in. */}
+          {__DEV__ && (
+            <TouchableOpacity
+              style={styles.devLink}
+              onPress={() => navigation.navigate('Settings')}
+              disabled={loading}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.footerText}>Developer settings</Text>
+            </TouchableOpacity>
+          )}
         </View>
       </ScrollView>
     </KeyboardAvoidingView>
@@ -242,4 +254,8 @@ const styles = StyleSheet.create({
     color: '#2563EB',
     fontWeight: '600',
   },
+  devLink: {
+    marginTop: 16,
+    alignItems: 'center',
+  },
 });
\ No newline at end of file
@@ -0,0 +1,585 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, ScrollView, TextInput, TouchableOpacity, StyleSheet, Alert, Platform, Share } from 'react-native';
+import { useRoute } from '@react-navigation/native';
+import { useAuth } from '../context/AuthContext';
+import { InterestRepository, InterestWithParties } from '../../services/data/interest.repository';
+import { MeetingSlotRow } from '../../services/data/database.types';
+import { otherPartyName } from '../../services/message/message.service';
+import {
+  acceptSlot,
+  cancelMeeting,
+  declineSlot,
+  describeSlotTime,
+  loadMeetingSlots,
+  MAX_SLOTS_PER_PROPOSAL,
+  MEETING_DURATIONS,
+  MEETING_STATUS_LABELS,
+  meetingIcs,
+  proposeSlots,
+  resolveSlot,
+  SlotInput,
+  slotsFromIcs,
+  withdrawSlot
+} from '../../services/meeting/meeting.service';
+import { deviceTimeZone, isValidTimeZone, utcToZonedTime } from '../../utils/timezone.util';
+
+// MeetingScheduler is where a startup and an investor agree a meeting for
+// one campaign interest. The startup proposes times (typed in, or pasted
+// from an .ics file) in any time zone; the investor accepts one, which
+// moves the interest to meeting scheduled. Times are shown in the
+// viewer's own zone, and a confirmed meeting can be added to a calendar.
+export default function MeetingScheduler() {
+  const route = useRoute();
+  const { user } = useAuth();
+  const interestId = (route.params as any)?.interestId as string | undefined;
+  const viewerTimeZone = deviceTimeZone();
+  const [interest, setInterest] = useState<InterestWithParties | null>(null);
+  const [slots, setSlots] = useState<MeetingSlotRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  // Proposal form (startup only).
+  const [date, setDate] = useState(() => utcToZonedTime(new Date(Date.now() + 86400000), viewerTimeZone).date);
+  const [time, setTime] = useState('10:00');
+  const [duration, setDuration] = useState(30);
+  const [timeZone, setTimeZone] = useState(viewerTimeZone);
+  const [location, setLocation] = useState('');
+  const [drafts, setDrafts] = useState<SlotInput[]>([]);
+  const [showImport, setShowImport] = useState(false);
+  const [icsText, setIcsText] = useState('');
+  const [sending, setSending] = useState(false);
+
+  useEffect(() => {
+    load();
+  }, [interestId]);
+
+  const load = async () => {
+    if (!interestId) return;
+    try {
+      const [row, rows] = await Promise.all([
+        InterestRepository.findWithParties(interestId),
+        loadMeetingSlots(interestId)
+      ]);
+      setInterest(row);
+      setSlots(rows);
+    } catch (error) {
+      console.error('Error loading meeting:', error);
+      Alert.alert('Error', 'Failed to load meeting times');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const side = interest?.investors?.owner_id === user?.id ? 'investor' : 'startup';
+  const isStartup = interest?.fundraising_campaigns?.startups?.owner_id === user?.id;
+  const isInvestor = interest?.investors?.owner_id === user?.id;
+
+  const now = Date.now();
+  const confirmed = slots.find(s => s.status === 'accepted' && Date.parse(s.ends_at) > now) ?? null;
+  const open = slots.filter(s => s.status === 'proposed' && Date.parse(s.starts_at) > now);
+  const history = slots.filter(s => s !== confirmed && !open.includes(s));
+
+  const addDraft = () => {
+    const input = { date, time, durationMinutes: duration, timeZone: timeZone.trim(), location };
+    const resolved = resolveSlot(input);
+    if (typeof resolved === 'string') {
+      Alert.alert('Check this time', resolved);
+      return;
+    }
+    if (drafts.length >= MAX_SLOTS_PER_PROPOSAL) {
+      Alert.alert('Too many times', `Propose up to ${MAX_SLOTS_PER_PROPOSAL} times at once.`);
+      return;
+    }
+    setDrafts([...drafts, input]);
+  };
+
+  const importIcs = () => {
+    const zone = isValidTimeZone(timeZone.trim()) ? timeZone.trim() : viewerTimeZone;
+    const { slots: imported, skipped } = slotsFromIcs(icsText, zone);
+    const room = MAX_SLOTS_PER_PROPOSAL - drafts.length;
+    if (imported.length === 0) {
+      Alert.alert('No times found', 'Paste the contents of an .ics file with upcoming events.');
+      return;
+    }
+    setDrafts([...drafts, ...imported.slice(0, room)]);
+    setIcsText('');
+    setShowImport(false);
+    const dropped = skipped + Math.max(0, imported.length - room);
+    if (dropped > 0) {
+      Alert.alert('Imported', `${Math.min(imported.length, room)} added. ${dropped} skipped (past, all-day, too long, or over the limit).`);
+    }
+  };
+
+  const sendProposals = async () => {
+    if (!interestId || !user?.id) return;
+    setSending(true);
+    try {
+      const result = await proposeSlots(interestId, user.id, drafts, slots);
+      if (result.success === false) {
+        Alert.alert('Not sent', result.error);
+        return;
+      }
+      setDrafts([]);
+      await load();
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const exportIcs = async (slot: MeetingSlotRow) => {
+    const ics = meetingIcs(slot, interest);
+    const filename = `meeting-${utcToZonedTime(new Date(slot.starts_at), viewerTimeZone).date}.ics`;
+    try {
+      if (Platform.OS === 'web') {
+        const url = URL.createObjectURL(new Blob([ics], { type: 'text/calendar;charset=utf-8' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = filename;
+        link.click();
+        URL.revokeObjectURL(url);
+      } else {
+        await Share.share({ title: filename, message: ics });
+      }
+    } catch (error) {
+      console.error('Error exporting meeting:', error);
+      Alert.alert('Error', 'Failed to export the meeting');
+    }
+  };
+
+  const handleAccept = async (slot: MeetingSlotRow) => {
+    setBusyId(slot.id);
+    try {
+      const result = await acceptSlot(slot.id);
+      if (result.success === false) {
+        Alert.alert('Not accepted', result.error);
+      } else {
+        Alert.alert('Meeting confirmed', 'Add it to your calendar to get reminders.', [
+          { text: 'Later', style: 'cancel' },
+          { text: 'Add to calendar', onPress: () => exportIcs(result.slot) }
+        ]);
+      }
+      await load();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const respond = async (slot: MeetingSlotRow, action: typeof declineSlot) => {
+    setBusyId(slot.id);
+    try {
+      const result = await action(slot);
+      if (result.success === false) Alert.alert('Not updated', result.error);
+      await load();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const confirmCancel = (slot: MeetingSlotRow) => {
+    Alert.alert('Cancel meeting?', 'The other side will see it as cancelled.', [
+      { text: 'Keep', style: 'cancel' },
+      { text: 'Cancel meeting', style: 'destructive', onPress: () => respond(slot, cancelMeeting) }
+    ]);
+  };
+
+  const renderTime = (slot: Pick<MeetingSlotRow, 'starts_at' | 'ends_at' | 'timezone'>) => {
+    const { local, asProposed, minutes } = describeSlotTime(slot, viewerTimeZone);
+    return (
+      <>
+        <Text style={styles.slotTime}>{local}</Text>
+        <Text style={styles.slotMeta}>
+          {minutes} min{asProposed ? ` · proposed as ${asProposed}` : ''}
+        </Text>
+      </>
+    );
+  };
+
+  if (!interestId) {
+    return (
+      <View style={styles.centered}>
+        <Text style={styles.emptyText}>Meeting not found</Text>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Text style={styles.title}>{interest ? otherPartyName(interest, side) : ' '}</Text>
+      <Text style={styles.subtitle}>
+        {interest?.fundraising_campaigns?.title || ''}
+        {'\n'}Times are shown in {viewerTimeZone}
+      </Text>
+
+      {loading && <Text style={styles.emptyText}>Loading...</Text>}
+
+      {confirmed && (
+        <View style={[styles.card, styles.confirmedCard]}>
+          <Text style={styles.sectionTitle}>✅ Meeting confirmed</Text>
+          {renderTime(confirmed)}
+          {confirmed.location ? <Text style={styles.slotMeta}>📍 {confirmed.location}</Text> : null}
+          <View style={styles.actions}>
+            <TouchableOpacity style={styles.primaryButton} onPress={() => exportIcs(confirmed)}>
+              <Text style={styles.primaryButtonText}>📅 Add to calendar</Text>
+            </TouchableOpacity>
+            {(isStartup || isInvestor) && (
+              <TouchableOpacity
+                style={styles.secondaryButton}
+                onPress={() => confirmCancel(confirmed)}
+                disabled={busyId === confirmed.id}
+              >
+                <Text style={styles.secondaryButtonText}>Cancel</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+      )}
+
+      {!loading && (
+        <View style={styles.card}>
+          <Text style={styles.sectionTitle}>Proposed times</Text>
+          {open.length === 0 ? (
+            <Text style={styles.emptyText}>
+              {isStartup
+                ? 'Propose a few times below and the investor can pick one.'
+                : 'The startup has not proposed any times yet.'}
+            </Text>
+          ) : (
+            open.map(slot => (
+              <View key={slot.id} style={styles.slotRow}>
+                {renderTime(slot)}
+                {slot.location ? <Text style={styles.slotMeta}>📍 {slot.location}</Text> : null}
+                <View style={styles.actions}>
+                  {isInvestor && (
+                    <>
+                      <TouchableOpacity
+                        style={styles.primaryButton}
+                        onPress={() => handleAccept(slot)}
+                        disabled={busyId === slot.id}
+                      >
+                        <Text style={styles.primaryButtonText}>{busyId === slot.id ? '...' : confirmed ? 'Move meeting here' : 'Accept'}</Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={styles.secondaryButton}
+                        onPress={() => respond(slot, declineSlot)}
+                        disabled={busyId === slot.id}
+                      >
+                        <Text style={styles.secondaryButtonText}>Decline</Text>
+                      </TouchableOpacity>
+                    </>
+                  )}
+                  {isStartup && (
+                    <TouchableOpacity
+                      style={styles.secondaryButton}
+                      onPress={() => respond(slot, withdrawSlot)}
+                      disabled={busyId === slot.id}
+                    >
+                      <Text style={styles.secondaryButtonText}>Withdraw</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              </View>
+            ))
+          )}
+        </View>
+      )}
+
+      {isStartup && (
+        <View style={styles.card}>
+          <Text style={styles.sectionTitle}>Propose {confirmed ? 'new ' : ''}times</Text>
+          <View style={styles.row}>
+            <View style={styles.field}>
+              <Text style={styles.label}>Date</Text>
+              <TextInput style={styles.input} value={date} onChangeText={setDate} placeholder="YYYY-MM-DD" autoCapitalize="none" />
+            </View>
+            <View style={styles.field}>
+              <Text style={styles.label}>Time</Text>
+              <TextInput style={styles.input} value={time} onChangeText={setTime} placeholder="HH:MM" autoCapitalize="none" />
+            </View>
+          </View>
+          <Text style={styles.label}>Length</Text>
+          <View style={styles.chips}>
+            {MEETING_DURATIONS.map(minutes => (
+              <TouchableOpacity
+                key={minutes}
+                style={[styles.chip, duration === minutes && styles.chipActive]}
+                onPress={() => setDuration(minutes)}
+              >
+                <Text style={[styles.chipText, duration === minutes && styles.chipTextActive]}>{minutes} min</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <Text style={styles.label}>Time zone</Text>
+          <TextInput
+            style={styles.input}
+            value={timeZone}
+            onChangeText={setTimeZone}
+            placeholder="e.g. Asia/Kolkata"
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          <Text style={styles.label}>Location or call link</Text>
+          <TextInput style={styles.input} value={location} onChangeText={setLocation} placeholder="Optional" />
+
+          <View style={styles.actions}>
+            <TouchableOpacity style={styles.secondaryButton} onPress={addDraft}>
+              <Text style={styles.secondaryButtonText}>+ Add time</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.secondaryButton} onPress={() => setShowImport(!showImport)}>
+              <Text style={styles.secondaryButtonText}>Import .ics</Text>
+            </TouchableOpacity>
+          </View>
+
+          {showImport && (
+            <View style={styles.importBox}>
+              <Text style={styles.hint}>
+                Paste the contents of an .ics file (for example, free slots exported from your calendar).
+                Times without a zone are read in {isValidTimeZone(timeZone.trim()) ? timeZone.trim() : viewerTimeZone}.
+              </Text>
+              <TextInput
+                style={[styles.input, styles.importInput]}
+                value={icsText}
+                onChangeText={setIcsText}
+                placeholder="BEGIN:VCALENDAR..."
+                autoCapitalize="none"
+                autoCorrect={false}
+                multiline
+              />
+              <TouchableOpacity style={styles.secondaryButton} onPress={importIcs} disabled={!icsText.trim()}>
+                <Text style={styles.secondaryButtonText}>Read times</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
+          {drafts.map((draft, index) => (
+            <View key={`${draft.date}-${draft.time}-${index}`} style={styles.draftRow}>
+              <Text style={styles.draftText}>
+                {draft.date} {draft.time} {draft.timeZone} · {draft.durationMinutes} min
+              </Text>
+              <TouchableOpacity onPress={() => setDrafts(drafts.filter((_, i) => i !== index))}>
+                <Text style={styles.draftRemove}>✕</Text>
+              </TouchableOpacity>
+            </View>
+          ))}
+
+          {drafts.length > 0 && (
+            <TouchableOpacity style={[styles.primaryButton, styles.sendButton]} onPress={sendProposals} disabled={sending}>
+              <Text style={styles.primaryButtonText}>
+                {sending ? 'Sending...' : `Send ${drafts.length} time${drafts.length === 1 ? '' : 's'}`}
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
+      {history.length > 0 && (
+        <View style={styles.card}>
+          <Text style={styles.sectionTitle}>Earlier</Text>
+          {history.map(slot => (
+            <View key={slot.id} style={styles.historyRow}>
+              <Text style={styles.historyText}>{describeSlotTime(slot, viewerTimeZone).local}</Text>
+              <Text style={styles.historyStatus}>
+                {slot.status === 'proposed' || slot.status === 'accepted' ? 'Past' : MEETING_STATUS_LABELS[slot.status]}
+              </Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      <View style={{ height: 40 }} />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  content: {
+    padding: 16,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+  },
+  card: {
+    backgroundColor: '#fff',
+    padding: 16,
+    borderRadius: 8,
+    marginBottom: 12,
+  },
+  confirmedCard: {
+    borderLeftWidth: 4,
+    borderLeftColor: '#28a745',
+  },
+  sectionTitle: {
+    fontSize: 17,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 10,
+  },
+  slotRow: {
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  slotTime: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  slotMeta: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 10,
+  },
+  primaryButton: {
+    backgroundColor: '#007bff',
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 6,
+    marginRight: 8,
+    marginBottom: 4,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: '#007bff',
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 6,
+    marginRight: 8,
+    marginBottom: 4,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    color: '#007bff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  row: {
+    flexDirection: 'row',
+  },
+  field: {
+    flex: 1,
+    marginRight: 8,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#555',
+    marginTop: 8,
+    marginBottom: 4,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 15,
+    backgroundColor: '#fafafa',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  chipActive: {
+    backgroundColor: '#007bff',
+    borderColor: '#007bff',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#555',
+  },
+  chipTextActive: {
+    color: '#fff',
+  },
+  importBox: {
+    marginTop: 8,
+  },
+  importInput: {
+    minHeight: 100,
+    textAlignVertical: 'top',
+    marginVertical: 8,
+    fontFamily: Platform.OS === 'ios' ? 'Courier' : 'monospace',
+    fontSize: 12,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#666',
+  },
+  draftRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#e7f1ff',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 6,
+    marginTop: 8,
+  },
+  draftText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#007bff',
+  },
+  draftRemove: {
+    fontSize: 14,
+    color: '#666',
+    marginLeft: 8,
+  },
+  sendButton: {
+    marginTop: 12,
+    marginRight: 0,
+  },
+  historyRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+  },
+  historyText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#666',
+    marginRight: 8,
+  },
+  historyStatus: {
+    fontSize: 12,
+    color: '#999',
+  },
+});
@@ -0,0 +1,235 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, FlatList, TouchableOpacity, StyleSheet, Alert } from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { useAuth } from '../context/AuthContext';
+import { NotificationRow } from '../../services/data/database.types';
+import { loadInbox, markAllRead, markRead, markUnread } from '../../services/notification/notification.service';
+import { Role } from '../../services/roles';
+
+// Where tapping a notification goes, from the ids it carries. Startups
+// manage a campaign from its investor pipeline, admins from its review.
+function targetFor(notification: NotificationRow, role: Role | null): { screen: string; params: object } | null {
+  const data = (notification.data || {}) as Record<string, string>;
+  if (!data.campaignId) return null;
+  if (role === 'admin' || role === 'super_admin') {
+    return { screen: 'CampaignReview', params: { campaignId: data.campaignId } };
+  }
+  if (role === 'startup' && notification.type === 'interest.submitted') {
+    return { screen: 'CampaignInterests', params: { campaignId: data.campaignId } };
+  }
+  return { screen: 'FundraisingCampaignDetail', params: { campaignId: data.campaignId } };
+}
+
+// NotificationsScreen is the in-app inbox: everything that happened to
+// the viewer, newest first, with unread ones marked. Tapping one marks it
+// read and opens what it is about; a long press marks it unread again.
+export default function NotificationsScreen() {
+  const navigation = useNavigation();
+  const { user } = useAuth();
+  const [notifications, setNotifications] = useState<NotificationRow[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadNotifications();
+    const unsubscribe = navigation.addListener('focus', loadNotifications);
+    return unsubscribe;
+  }, [navigation, user.id]);
+
+  const loadNotifications = async () => {
+    if (!user.id) return;
+    try {
+      setNotifications(await loadInbox(user.id));
+    } catch (error) {
+      console.error('Error loading notifications:', error);
+      Alert.alert('Error', 'Failed to load notifications');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Update the row in place so the list does not jump while reloading.
+  const patch = (id: string, readAt: string | null) =>
+    setNotifications(prev => prev.map(n => (n.id === id ? { ...n, read_at: readAt } : n)));
+
+  const handleOpen = async (notification: NotificationRow) => {
+    if (!notification.read_at) {
+      patch(notification.id, new Date().toISOString());
+      markRead(notification).catch(error => console.error('Error marking notification read:', error));
+    }
+    const target = targetFor(notification, user.role);
+    if (target) (navigation as any).navigate(target.screen, target.params);
+  };
+
+  const handleToggleRead = async (notification: NotificationRow) => {
+    try {
+      if (notification.read_at) {
+        await markUnread(notification);
+        patch(notification.id, null);
+      } else {
+        await markRead(notification);
+        patch(notification.id, new Date().toISOString());
+      }
+    } catch (error) {
+      console.error('Error updating notification:', error);
+      Alert.alert('Error', 'Failed to update notification');
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    if (!user.id) return;
+    try {
+      await markAllRead(user.id);
+      await loadNotifications();
+    } catch (error) {
+      console.error('Error marking notifications read:', error);
+      Alert.alert('Error', 'Failed to mark notifications read');
+    }
+  };
+
+  const unread = notifications.filter(n => !n.read_at).length;
+  // Admins have no Settings screen; their channels keep the defaults.
+  const canEditSettings = user.role === 'startup' || user.role === 'investor';
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.toolbar}>
+        <Text style={styles.summary}>{loading ? 'Loading...' : unread > 0 ? `${unread} unread` : 'All caught up'}</Text>
+        <View style={styles.toolbarButtons}>
+          {unread > 0 && (
+            <TouchableOpacity onPress={handleMarkAllRead}>
+              <Text style={styles.link}>Mark all read</Text>
+            </TouchableOpacity>
+          )}
+          {canEditSettings && (
+            <TouchableOpacity onPress={() => (navigation as any).navigate('Settings')}>
+              <Text style={[styles.link, styles.linkSpaced]}>Settings</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+
+      <FlatList
+        data={notifications}
+        keyExtractor={item => item.id}
+        contentContainerStyle={styles.list}
+        ListEmptyComponent={
+          loading ? null : (
+            <View style={styles.emptyState}>
+              <Text style={styles.emptyText}>No notifications yet.</Text>
+            </View>
+          )
+        }
+        renderItem={({ item }) => (
+          <TouchableOpacity
+            style={[styles.card, !item.read_at && styles.cardUnread]}
+            onPress={() => handleOpen(item)}
+            onLongPress={() => handleToggleRead(item)}
+          >
+            <View style={styles.cardHeader}>
+              {!item.read_at && <View style={styles.dot} />}
+              <Text style={[styles.cardTitle, !item.read_at && styles.cardTitleUnread]}>{item.title}</Text>
+            </View>
+            {item.body ? <Text style={styles.cardBody}>{item.body}</Text> : null}
+            <View style={styles.cardFooter}>
+              <Text style={styles.time}>{new Date(item.created_at).toLocaleString()}</Text>
+              <TouchableOpacity onPress={() => handleToggleRead(item)}>
+                <Text style={styles.toggle}>{item.read_at ? 'Mark unread' : 'Mark read'}</Text>
+              </TouchableOpacity>
+            </View>
+          </TouchableOpacity>
+        )}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  toolbar: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  toolbarButtons: {
+    flexDirection: 'row',
+  },
+  summary: {
+    fontSize: 14,
+    color: '#666',
+  },
+  link: {
+    fontSize: 14,
+    color: '#007bff',
+    fontWeight: '600',
+  },
+  linkSpaced: {
+    marginLeft: 16,
+  },
+  list: {
+    padding: 16,
+  },
+  emptyState: {
+    backgroundColor: '#fff',
+    padding: 24,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+  },
+  card: {
+    backgroundColor: '#fff',
+    padding: 14,
+    borderRadius: 8,
+    marginBottom: 10,
+  },
+  cardUnread: {
+    backgroundColor: '#eef5ff',
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  dot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#007bff',
+    marginRight: 8,
+  },
+  cardTitle: {
+    fontSize: 15,
+    color: '#333',
+    flex: 1,
+  },
+  cardTitleUnread: {
+    fontWeight: 'bold',
+  },
+  cardBody: {
+    fontSize: 14,
+    color: '#555',
+    marginTop: 4,
+  },
+  cardFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 8,
+  },
+  time: {
+    fontSize: 12,
+    color: '#999',
+  },
+  toggle: {
+    fontSize: 12,
+    color: '#007bff',
+  },
+});
@@ -0,0 +1,99 @@
+// Import React and hooks.
+import React, { useState, useEffect } from 'react';
+// Import UI components.
+import { View, Text, Button, FlatList, Alert } from 'react-native';
+// Import auth hook for permission checks.
+import { useAuth } from '../context/AuthContext';
+import { PaymentRepository } from '../../services/data/payment.repository';
+import { PaymentRow } from '../../services/data/database.types';
+// Refunds go through the refund-payment server function, which talks to the gateway.
+import { refundPayment } from '../../services/payment/payment.service';
+import { formatPaise, PAYMENT_STATUS_LABELS } from '../../utils/payment.util';
+
+// PaymentManagement screen lists investment payments and lets admins refund them.
+export default function PaymentManagement() {
+  const { user } = useAuth();
+
+  const [payments, setPayments] = useState<PaymentRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refunding, setRefunding] = useState<string | null>(null);
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  async function load() {
+    setLoading(true);
+    try {
+      setPayments(await PaymentRepository.listAll());
+    } catch (e) {
+      console.error('Failed to load payments:', e);
+      setPayments([]);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  // Refund whatever has not been refunded yet, after confirming.
+  function onRefund(payment: PaymentRow) {
+    const remaining = payment.amount - payment.amount_refunded;
+    Alert.alert('Refund Payment', `Refund ${formatPaise(remaining)} to the investor?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Refund',
+        style: 'destructive',
+        onPress: async () => {
+          setRefunding(payment.id);
+          try {
+            const result = await refundPayment(payment.id);
+            if (result.success === false) {
+              Alert.alert('Error', result.error);
+              return;
+            }
+            setPayments(prev => prev.map(p => (p.id === payment.id ? result.payment : p)));
+          } finally {
+            setRefunding(null);
+          }
+        }
+      }
+    ]);
+  }
+
+  function renderItem({ item }: { item: PaymentRow }) {
+    const refundable = item.status === 'captured' || item.status === 'partially_refunded';
+    return (
+      <View style={{ padding: 8, borderBottomWidth: 1 }}>
+        <Text>Amount: {formatPaise(item.amount)}</Text>
+        <Text>Status: {PAYMENT_STATUS_LABELS[item.status]}</Text>
+        {item.amount_refunded > 0 && <Text>Refunded: {formatPaise(item.amount_refunded)}</Text>}
+        {item.failure_reason && <Text>Reason: {item.failure_reason}</Text>}
+        <Text>Order: {item.provider_order_id} ({item.provider})</Text>
+        <Text>Created: {item.created_at}</Text>
+        {refundable && (
+          <Button
+            title={refunding === item.id ? 'Refunding...' : 'Refund'}
+            disabled={refunding !== null}
+            onPress={() => onRefund(item)}
+          />
+        )}
+      </View>
+    );
+  }
+
+  return (
+    <View style={{ padding: 16, flex: 1 }}>
+      <Text style={{ fontSize: 20, fontWeight: 'bold', marginBottom: 12 }}>Payments</Text>
+
+      <Text style={{ marginBottom: 8 }}>You are: {user.public_id} ({user.role})</Text>
+      <Text style={{ marginBottom: 12 }}>Investment payments, newest first. Paid payments can be refunded in full.</Text>
+
+      {loading ? (
+        <Text>Loading payments...</Text>
+      ) : payments.length === 0 ? (
+        <Text>No payments yet.</Text>
+      ) : (
+        <FlatList data={payments} keyExtractor={p => p.id} renderItem={renderItem} />
+      )}
+    </View>
+  );
+}
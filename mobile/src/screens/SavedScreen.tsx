@@ -1,33 +1,36 @@
-// SAVED SCREEN (Placeholder)
-// Purpose: Show all items user has saved
-// - Investors see saved STARTUPS
-// - Startups see saved INVESTORS
+// SAVED SCREEN
+// Purpose: Show all items user has saved, filed in their shortlists
+// - Investors mostly save STARTUPS and CAMPAIGNS
+// - Startups mostly save INVESTORS
+// Notes and lists are private to the user (see db/saved_items.sql)
 
 import React from 'react';
-import { View, Text, StyleSheet } from 'react-native';
+import { View, Text, ScrollView, StyleSheet } from 'react-native';
+import { useAuth } from '../context/AuthContext';
+import SavedList from '../components/SavedList';
 
 interface SavedScreenProps {
   userRole: 'investor' | 'startup';
 }
 
 export default function SavedScreen({ userRole }: SavedScreenProps) {
+  const { user } = useAuth();
+
   return (
     <View style={styles.container}>
       <View style={styles.header}>
         <Text style={styles.headerTitle}>Saved</Text>
         <Text style={styles.headerSubtitle}>
           {userRole === 'investor' 
-            ? 'Startups you\'ve saved'
+            ? 'Startups and campaigns you\'ve saved'
             : 'Investors you\'ve saved'
           }
         </Text>
       </View>
       
-      <View style={styles.content}>
-        <Text style={styles.placeholderText}>
-          💾 Your saved items will appear here
-        </Text>
-      </View>
+      <ScrollView style={styles.content} contentContainerStyle={styles.contentInner}>
+        <SavedList ownerId={user?.id ?? null} />
+      </ScrollView>
     </View>
   );
 }
@@ -56,11 +59,8 @@ const styles = StyleSheet.create({
   },
   content: {
     flex: 1,
-    justifyContent: 'center',
-    alignItems: 'center',
   },
-  placeholderText: {
-    fontSize: 16,
-    color: '#999',
+  contentInner: {
+    padding: 16,
   },
 });
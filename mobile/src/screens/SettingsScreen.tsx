@@ -1,22 +1,136 @@
-import React from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, Alert } from 'react-native';
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert, ScrollView } from 'react-native';
 import { useAuth } from '../context/AuthContext';
+import { ApiMode, getApiMode, getFixturePackName, setApiMode } from '../../apiMode';
+import { FIXTURE_PACKS, FIXTURE_PACK_NAMES, FixturePackName } from '../../services/local/fixturePacks';
+import { LOCAL_SEED_PASSWORD } from '../../services/local/seed';
+import NotificationSettings from '../components/NotificationSettings';
+import { loadAadhaarStatus } from '../../services/verification/aadhaar.service';
+import { loadMyKyc } from '../../services/verification/kyc.service';
+import { maskAadhaar } from '../../utils/aadhaar.util';
+import { KYC_LEVEL_LABELS } from '../../utils/kyc.util';
+import { KycLevel } from '../../services/data/database.types';
 
 export default function SettingsScreen({ navigation }: { navigation: any }) {
-  const { setRole } = useAuth();
+  const { user, setRole, signIn } = useAuth();
+  // The mode and pack live in apiMode.ts; switching remounts the app from
+  // App.tsx, so these only need to be read once per mount.
+  const [apiMode] = useState<ApiMode>(getApiMode());
+  const [fixturePack] = useState<FixturePackName>(getFixturePackName());
+  // Aadhaar verification is offered once a startup or investor role is chosen.
+  const canVerifyAadhaar = user.role === 'startup' || user.role === 'investor';
+  const [aadhaarLast4, setAadhaarLast4] = useState<string | null>(null);
+  const [aadhaarVerified, setAadhaarVerified] = useState(false);
+  const [kycLevel, setKycLevel] = useState<KycLevel | null>(null);
+
+  useEffect(() => {
+    if (!user.id || !canVerifyAadhaar) return;
+    // Refresh on focus so returning from verification shows the result.
+    const refresh = () =>
+      loadAadhaarStatus(user.id as string)
+        .then(status => {
+          setAadhaarVerified(status.verified);
+          setAadhaarLast4(status.check?.aadhaar_last4 ?? null);
+        })
+        .catch(err => console.error('Error loading Aadhaar status:', err))
+        .then(() => loadMyKyc())
+        .then(result => {
+          if (result.success) setKycLevel(result.record.level);
+        });
+    refresh();
+    return navigation.addListener('focus', refresh);
+  }, [user.id, canVerifyAadhaar]);
 
   function handleChangeRole() {
     // Navigate to RoleSelection so the user can choose when they want to change role.
     navigation.navigate('RoleSelection');
   }
 
+  async function handleSignInAs(email: string) {
+    const { error } = await signIn(email, LOCAL_SEED_PASSWORD);
+    if (error) {
+      Alert.alert('Sign in failed', error.message || String(error));
+    }
+  }
+
   return (
-    <View style={styles.container}>
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
       <Text style={styles.title}>Settings</Text>
       <TouchableOpacity style={styles.button} onPress={handleChangeRole} activeOpacity={0.8}>
         <Text style={styles.buttonText}>Change Role</Text>
       </TouchableOpacity>
-    </View>
+
+      {user.id && canVerifyAadhaar && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Identity</Text>
+          {aadhaarVerified ? (
+            <Text style={styles.verifiedText}>✓ Aadhaar verified ({maskAadhaar(aadhaarLast4)})</Text>
+          ) : (
+            <TouchableOpacity style={styles.secondaryButton} onPress={() => navigation.navigate('AadhaarVerification')}>
+              <Text style={styles.secondaryButtonText}>Verify Aadhaar</Text>
+            </TouchableOpacity>
+          )}
+          {kycLevel && <Text style={styles.label}>Verification level: {KYC_LEVEL_LABELS[kycLevel]}</Text>}
+          <TouchableOpacity style={styles.secondaryButton} onPress={() => navigation.navigate('KycStatus')}>
+            <Text style={styles.secondaryButtonText}>Verification Steps</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {user.id && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Notifications</Text>
+          <NotificationSettings userId={user.id} />
+        </View>
+      )}
+
+      {/* Developer menu: switch between the real backend and fixture data. */}
+      {__DEV__ && (
+        <View style={styles.devSection}>
+          <Text style={styles.sectionTitle}>Developer</Text>
+
+          <Text style={styles.label}>API mode</Text>
+          <View style={styles.row}>
+            {(['REAL', 'MOCK'] as ApiMode[]).map(m => (
+              <TouchableOpacity
+                key={m}
+                style={[styles.chip, apiMode === m && styles.chipSelected]}
+                onPress={() => setApiMode(m)}
+              >
+                <Text style={[styles.chipText, apiMode === m && styles.chipTextSelected]}>{m}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.label}>Fixture pack</Text>
+          {FIXTURE_PACK_NAMES.map(name => (
+            <TouchableOpacity
+              key={name}
+              style={[styles.packOption, fixturePack === name && styles.packOptionSelected]}
+              onPress={() => setApiMode('MOCK', name)}
+            >
+              <Text style={styles.packLabel}>{FIXTURE_PACKS[name].label}</Text>
+              <Text style={styles.packDescription}>{FIXTURE_PACKS[name].description}</Text>
+            </TouchableOpacity>
+          ))}
+
+          {apiMode === 'MOCK' && (
+            <>
+              <Text style={styles.label}>Sign in as</Text>
+              {FIXTURE_PACKS[fixturePack].seed.accounts.map(account => (
+                <TouchableOpacity
+                  key={account.id}
+                  style={styles.accountButton}
+                  onPress={() => handleSignInAs(account.email)}
+                >
+                  <Text style={styles.accountText}>{account.email}</Text>
+                </TouchableOpacity>
+              ))}
+            </>
+          )}
+        </View>
+      )}
+    </ScrollView>
   );
 }
 
@@ -24,6 +138,8 @@ const styles = StyleSheet.create({
   container: {
     flex: 1,
     backgroundColor: '#F9FAFB',
+  },
+  content: {
     padding: 24,
   },
   title: {
@@ -43,4 +159,104 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '700',
   },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: '#2563EB',
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    color: '#2563EB',
+    fontSize: 15,
+    fontWeight: '700',
+  },
+  verifiedText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#065F46',
+  },
+  section: {
+    marginTop: 32,
+    paddingTop: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+  devSection: {
+    marginTop: 32,
+    paddingTop: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#111827',
+    marginBottom: 8,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    backgroundColor: '#FFFFFF',
+  },
+  chipSelected: {
+    backgroundColor: '#DC2626',
+    borderColor: '#DC2626',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+  },
+  packOption: {
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    backgroundColor: '#FFFFFF',
+    marginBottom: 8,
+  },
+  packOptionSelected: {
+    borderColor: '#DC2626',
+  },
+  packLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  packDescription: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  accountButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    marginBottom: 6,
+  },
+  accountText: {
+    fontSize: 14,
+    color: '#111827',
+  },
 });
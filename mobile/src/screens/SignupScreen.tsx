@@ -4,10 +4,13 @@ import {
   ScrollView, KeyboardAvoidingView, Platform, StyleSheet 
 } from 'react-native';
 import { useAuth } from '../context/AuthContext';
+import { useRecoveryKey } from '../context/RecoveryKeyContext';
 import { supabase } from '../../supabaseClient';
+import { generateRecoveryKey, hashRecoveryKey } from '../../utils/recovery.util';
 
 export default function SignupScreen({ navigation }: { navigation: any }) {
   const { signUp } = useAuth();
+  const { showRecoveryKey } = useRecoveryKey();
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [loading, setLoading] = useState(false);
@@ -33,8 +36,14 @@ export default function SignupScreen({ navigation }: { navigation: any }) {
       const signupEmail = email.trim();
       const signupPassword = password;
 
-      // Sign up user (no recovery key flow on frontend)
-      const { data: signUpData, error: signupError } = await signUp(signupEmail, signupPassword);
+      // Issue a recovery key. Only its hash is stored (the handle_new_user
+      // trigger copies it from the signup metadata); the key itself is shown
+      // once below and is what ForgotPassword asks for.
+      const recoveryKey = generateRecoveryKey();
+      const recoveryKeyHash = await hashRecoveryKey(recoveryKey);
+      const { data: signUpData, error: signupError } = await signUp(signupEmail, signupPassword, {
+        data: { recovery_key_hash: recoveryKeyHash }
+      });
       
       if (signupError) {
         const errorMsg = signupError.message || signupError.status || String(signupError);
@@ -49,6 +58,7 @@ export default function SignupScreen({ navigation }: { navigation: any }) {
 
       setSuccess('Account created successfully! Please log in.');
       setLoading(false);
+      showRecoveryKey(recoveryKey);
       navigation.reset({ index: 0, routes: [{ name: 'Login' }] });
 
     } catch (err) {
@@ -5,7 +5,8 @@ import { View, Text, Button, ScrollView, StyleSheet } from 'react-native';
 // Import navigation hooks to navigate to other screens.
 import { useNavigation } from '@react-navigation/native';
 import { useAuth } from '../context/AuthContext';
-import { supabase } from '../../supabaseClient';
+import { StartupRepository } from '../../services/data/startup.repository';
+import { StartupRow } from '../../services/data/database.types';
 
 // Define the StartupDashboard component.
 export default function StartupDashboard() {
@@ -16,7 +17,7 @@ export default function StartupDashboard() {
 
   // Local state for loading and the startup profile we fetch from DB.
   const [loading, setLoading] = useState(true);
-  const [profile, setProfile] = useState<any>(null);
+  const [profile, setProfile] = useState<StartupRow | null>(null);
 
   // Fetch startup profile for the logged-in user.
   useEffect(() => {
@@ -33,14 +34,10 @@ export default function StartupDashboard() {
 
       try {
         // Try to read a `startups` table row linked to this user.
-        const { data, error } = await supabase
-          .from('startups')
-          .select('*')
-          .eq('owner_id', user.id)
-          .single();
-
-        if (!error && data && mounted) {
-          setProfile(data as any);
+        const data = await StartupRepository.findByOwner(user.id);
+
+        if (data && mounted) {
+          setProfile(data);
         } else {
           // If table doesn't exist or no row found, keep profile null.
           setProfile(null);
@@ -1,31 +1,14 @@
 import React, { useEffect, useState } from 'react';
 import { View, Text, ScrollView, TouchableOpacity, StyleSheet, Alert, Linking } from 'react-native';
 import { useNavigation, useRoute } from '@react-navigation/native';
-import { supabase } from '../../supabaseClient';
-
-interface Startup {
-  id: string;
-  company_name: string;
-  tagline?: string;
-  description?: string;
-  location?: string;
-  industry?: string;
-  website?: string;
-  founded_year?: number;
-  team_size?: number;
-  business_model?: string;
-  target_market?: string;
-  founder_name?: string;
-  current_revenue?: number;
-  funding_stage?: string;
-}
+import { StartupPublicProfile, StartupRepository } from '../../services/data/startup.repository';
 
 export default function StartupDetail() {
   const navigation = useNavigation();
   const route = useRoute();
   const { startupId } = route.params as { startupId: string };
 
-  const [startup, setStartup] = useState<Startup | null>(null);
+  const [startup, setStartup] = useState<StartupPublicProfile | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -34,13 +17,8 @@ export default function StartupDetail() {
 
   const loadStartup = async () => {
     try {
-      const { data, error } = await supabase
-        .from('startups')
-        .select('id, company_name, tagline, description, location, industry, website, founded_year, team_size, business_model, target_market, founder_name, current_revenue, funding_stage')
-        .eq('id', startupId)
-        .single();
-
-      if (error) throw error;
+      const data = await StartupRepository.getPublicProfile(startupId);
+      if (!data) throw new Error('Startup not found');
       setStartup(data);
     } catch (error) {
       console.error('Error loading startup:', error);
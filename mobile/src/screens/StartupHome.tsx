@@ -2,41 +2,51 @@ import React, { useEffect, useState } from 'react';
 import { View, Text, ScrollView, TouchableOpacity, StyleSheet, TextInput, Alert, Platform, ActionSheetIOS } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import { useAuth } from '../context/AuthContext';
-import { supabase } from '../../supabaseClient';
-import { mockCampaigns } from '../data/mockCampaigns';
 import SimpleDropdown from '../components/SimpleDropdown';
-
-interface Investor {
-  id: string;
-  investor_name?: string;
-  company_name?: string;
-  location?: string;
-  min_investment?: number;
-  max_investment?: number;
-  interested_industries?: string;
-  linkedin_url?: string;
-}
-
-interface Campaign {
-  id: string;
-  title: string;
-  description: string;
-  funding_goal: number;
-  funding_raised: number;
-  status: string;
-  created_at: string;
-  equity_offered: number;
-  campaign_type: string;
-}
+import MatchesList from '../components/MatchesList';
+import ConversationList from '../components/ConversationList';
+import MeetingReminderBanner from '../components/MeetingReminderBanner';
+import NotificationBell from '../components/NotificationBell';
+import InvestorCard from '../components/InvestorCard';
+import SavedList from '../components/SavedList';
+import SearchFilters from '../components/SearchFilters';
+import { useSavedIds } from '../hooks/useSavedIds';
+import { useSearch } from '../hooks/useSearch';
+import { useUnreadMessages } from '../hooks/useUnreadMessages';
+import { CampaignRepository, CampaignWithStartup } from '../../services/data/campaign.repository';
+import { InvestorSummary } from '../../services/data/investor.repository';
+import { StartupRepository } from '../../services/data/startup.repository';
+import { CampaignReviewRow, CampaignRow, CampaignStatus } from '../../services/data/database.types';
+import {
+  availableTransitions,
+  CampaignTransition,
+  formatStatus,
+  transitionCampaign
+} from '../../services/campaign/lifecycle.service';
+import { DECISION_LABELS, feedbackFor } from '../../services/campaign/review.service';
+import { CampaignReviewRepository } from '../../services/data/review.repository';
+import { MatchRepository } from '../../services/data/match.repository';
+import { likeInvestor, matchAnnouncement } from '../../services/match/match.service';
+import { RankedInvestor, recommendInvestors } from '../../services/match/recommendation.service';
+import { describeReasons } from '../../utils/recommendation.util';
 
 export default function StartupHome() {
   const navigation = useNavigation();
   const { user, signOut } = useAuth();
-  const [investors, setInvestors] = useState<Investor[]>([]);
-  const [dbCampaigns, setDbCampaigns] = useState<Campaign[]>([]);
+  const [investors, setInvestors] = useState<RankedInvestor[]>([]);
+  const [dbCampaigns, setDbCampaigns] = useState<CampaignRow[]>([]);
+  // Latest admin review per campaign, for showing feedback on sent-back drafts.
+  const [latestReviews, setLatestReviews] = useState<Record<string, CampaignReviewRow>>({});
+  const [otherCampaigns, setOtherCampaigns] = useState<CampaignWithStartup[]>([]);
   const [loading, setLoading] = useState(true);
-  const [searchQuery, setSearchQuery] = useState('');
-  const [activeTab, setActiveTab] = useState<'investors' | 'campaigns'>('investors');
+  // Recommended investors until the user searches, filters or re-sorts.
+  const investorSearch = useSearch('investors');
+  const [activeTab, setActiveTab] = useState<'investors' | 'campaigns' | 'saved' | 'matches' | 'messages'>('investors');
+  const [startupId, setStartupId] = useState<string | null>(null);
+  // Investors this startup has liked (the startup's half of a match).
+  const [likedIds, setLikedIds] = useState<Set<string>>(new Set());
+  const { isSaved, toggle, reload: reloadSaved } = useSavedIds(user?.id);
+  const { unread: unreadMessages, reload: reloadUnread } = useUnreadMessages('startup', startupId, user?.id);
   const [industryFilter, setIndustryFilter] = useState('All');
   const [campaignScope, setCampaignScope] = useState<'mine' | 'others'>('mine');
 
@@ -45,15 +55,11 @@ export default function StartupHome() {
     loadCampaigns();
   }, []);
 
+  // Investors, best fit for this startup first.
   const loadInvestors = async () => {
     try {
-      const { data, error } = await supabase
-        .from('investors')
-        .select('id, investor_name, company_name, location, min_investment, max_investment, interested_industries, linkedin_url')
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-      setInvestors(data || []);
+      const id = user?.id ? await StartupRepository.findIdByOwner(user.id) : null;
+      setInvestors(await recommendInvestors(id));
     } catch (error) {
       console.error('Error loading investors:', error);
     } finally {
@@ -66,47 +72,61 @@ export default function StartupHome() {
 
     try {
       // Get startup ID for this user
-      const { data: startupData } = await supabase
-        .from('startups')
-        .select('id')
-        .eq('owner_id', user.id)
-        .single();
+      const startupId = await StartupRepository.findIdByOwner(user.id);
+      setStartupId(startupId);
+
+      // Active campaigns from everyone else, for the "Other Campaigns" scope.
+      const active = await CampaignRepository.listActive();
+      setOtherCampaigns(active.filter(c => c.startup_id !== startupId));
 
-      if (!startupData) {
+      if (!startupId) {
         setDbCampaigns([]);
         return;
       }
 
-      // Load campaigns from DB
-      const { data, error } = await supabase
-        .from('fundraising_campaigns')
-        .select('*')
-        .eq('startup_id', startupData.id)
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-      setDbCampaigns(data || []);
+      const mine = await CampaignRepository.listByStartup(startupId);
+      setDbCampaigns(mine);
+      setLatestReviews(await CampaignReviewRepository.latestByCampaign(mine.map(c => c.id)));
+      setLikedIds(new Set(await MatchRepository.listLikedInvestorIds(startupId)));
     } catch (error) {
       console.error('Error loading campaigns:', error);
     }
   };
 
-  const filteredInvestors = investors.filter(investor => {
-    const query = searchQuery.toLowerCase();
-    return (
-      investor.investor_name?.toLowerCase().includes(query) ||
-      investor.company_name?.toLowerCase().includes(query) ||
-      investor.interested_industries?.toLowerCase().includes(query) ||
-      investor.location?.toLowerCase().includes(query)
-    );
-  });
+  const shownInvestors: Array<InvestorSummary & Partial<Pick<RankedInvestor, 'recommendation'>>> =
+    investorSearch.isFiltering ? investorSearch.rows : investors;
 
-  const formatInvestmentRange = (min?: number, max?: number) => {
-    if (!min && !max) return 'Range not specified';
-    if (!max) return `₹${min.toLocaleString()}+`;
-    return `₹${min.toLocaleString()} - ₹${max.toLocaleString()}`;
+  const handleLike = async (investor: InvestorSummary) => {
+    if (!startupId) {
+      Alert.alert('Error', 'Please complete your startup profile first');
+      return;
+    }
+    const result = await likeInvestor(startupId, investor.id);
+    if (result.success === false) {
+      Alert.alert('Not saved', result.error);
+      return;
+    }
+    setLikedIds(prev => new Set(prev).add(investor.id));
+    if (result.match) {
+      Alert.alert("It's a match!", matchAnnouncement(investor.investor_name || investor.company_name || 'This investor'));
+    } else {
+      Alert.alert('Liked', "You'll match as soon as they express interest in one of your campaigns.");
+    }
   };
 
+  // Startups store industries as a comma-separated list.
+  const splitIndustries = (industry?: string | null) =>
+    (industry || '').split(',').map(i => i.trim()).filter(Boolean);
+
+  const industryOptions = [
+    'All',
+    ...Array.from(new Set(otherCampaigns.flatMap(c => splitIndustries(c.startups?.industry)))).sort(),
+  ];
+
+  const filteredOtherCampaigns = otherCampaigns.filter(c =>
+    industryFilter === 'All' ? true : splitIndustries(c.startups?.industry).includes(industryFilter)
+  );
+
   const getProgressPercentage = (raised: number, goal: number) => {
     return Math.min((raised / goal) * 100, 100);
   };
@@ -115,26 +135,58 @@ export default function StartupHome() {
     switch (status) {
       case 'active': return '#28a745';
       case 'draft': return '#ffc107';
+      case 'pending_review': return '#17a2b8';
       case 'paused': return '#fd7e14';
       case 'completed': return '#20c997';
       case 'cancelled': return '#dc3545';
+      case 'rejected': return '#842029';
       default: return '#6c757d';
     }
   };
 
-  const updateCampaignStatus = async (campaignId: string, newStatus: string) => {
-    try {
-      const { error } = await supabase
-        .from('fundraising_campaigns')
-        .update({ status: newStatus })
-        .eq('id', campaignId);
-
-      if (error) throw error;
-      // Refresh list
-      await loadCampaigns();
-    } catch (err) {
-      console.error('Error updating campaign status:', err);
-      Alert.alert('Error', 'Failed to update campaign status');
+  const applyTransition = async (campaign: CampaignRow, transition: CampaignTransition) => {
+    if (!user?.id) return;
+
+    const result = await transitionCampaign(campaign, transition.to, { actor: 'owner', userId: user.id });
+    if (result.success === false) {
+      if (result.kyc) {
+        Alert.alert('Verification needed', result.error, [
+          { text: 'Later', style: 'cancel' },
+          { text: 'Complete Verification', onPress: () => (navigation as any).navigate('KycStatus') }
+        ]);
+        return;
+      }
+      Alert.alert('Cannot update campaign', result.error);
+      return;
+    }
+    // Refresh list
+    await loadCampaigns();
+  };
+
+  // Cancelling or closing a round cannot be undone, so ask first.
+  const handleTransition = (campaign: CampaignRow, transition: CampaignTransition) => {
+    if (transition.to !== 'cancelled' && transition.to !== 'completed') {
+      applyTransition(campaign, transition);
+      return;
+    }
+    Alert.alert(
+      `${transition.label}?`,
+      `"${campaign.title}" will be marked ${formatStatus(transition.to)}. This cannot be undone.`,
+      [
+        { text: 'Back', style: 'cancel' },
+        { text: transition.label, style: 'destructive', onPress: () => applyTransition(campaign, transition) }
+      ]
+    );
+  };
+
+  const getTransitionButtonStyle = (to: CampaignStatus) => {
+    switch (to) {
+      case 'pending_review':
+      case 'active': return styles.activateButton;
+      case 'paused': return styles.pauseButton;
+      case 'completed': return styles.completeButton;
+      case 'cancelled': return styles.cancelButton;
+      default: return styles.draftButton;
     }
   };
 
@@ -168,6 +220,7 @@ export default function StartupHome() {
       <View style={styles.header}>
         <Text style={styles.headerTitle}>Find Investors</Text>
         <View style={styles.headerButtons}>
+          <NotificationBell userId={user?.id} />
           <TouchableOpacity
             style={styles.profileButton}
             onPress={showProfileOptions}
@@ -183,17 +236,19 @@ export default function StartupHome() {
         </View>
       </View>
 
+      <MeetingReminderBanner side="startup" ownId={startupId} />
+
       {/* Search Bar */}
       <View style={styles.searchContainer}>
         <TextInput
           style={styles.searchInput}
           placeholder="Search by name, company, or industry..."
-          value={searchQuery}
-          onChangeText={setSearchQuery}
+          value={investorSearch.text}
+          onChangeText={investorSearch.setText}
         />
       </View>
 
-      {/* Tabs: Investors / Campaigns */}
+      {/* Tabs: Investors / Campaigns / Saved / Matches / Messages */}
       <View style={styles.tabContainer}>
         <TouchableOpacity
           style={[styles.tab, activeTab === 'investors' && styles.tabActive]}
@@ -207,6 +262,31 @@ export default function StartupHome() {
         >
           <Text style={[styles.tabText, activeTab === 'campaigns' && styles.tabTextActive]}>📊 Campaigns</Text>
         </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.tab, activeTab === 'saved' && styles.tabActive]}
+          onPress={() => setActiveTab('saved')}
+        >
+          <Text style={[styles.tabText, activeTab === 'saved' && styles.tabTextActive]}>💾 Saved</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.tab, activeTab === 'matches' && styles.tabActive]}
+          onPress={() => setActiveTab('matches')}
+        >
+          <Text style={[styles.tabText, activeTab === 'matches' && styles.tabTextActive]}>🤝 Matches</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.tab, activeTab === 'messages' && styles.tabActive]}
+          onPress={() => setActiveTab('messages')}
+        >
+          <View style={styles.tabLabelRow}>
+            <Text style={[styles.tabText, activeTab === 'messages' && styles.tabTextActive]}>💬 Messages</Text>
+            {unreadMessages > 0 && (
+              <View style={styles.tabBadge}>
+                <Text style={styles.tabBadgeText}>{unreadMessages}</Text>
+              </View>
+            )}
+          </View>
+        </TouchableOpacity>
       </View>
 
       <ScrollView contentContainerStyle={{ flexGrow: 1 }} style={styles.content}>
@@ -217,7 +297,7 @@ export default function StartupHome() {
             {/* Filters + Dashboard Button */}
             <View style={{ marginBottom: 12 }}>
               <SimpleDropdown
-                options={[ 'All', ...Array.from(new Set(mockCampaigns.map(c => c.industry))) ]}
+                options={industryOptions}
                 value={industryFilter}
                 onChange={setIndustryFilter}
               />
@@ -248,10 +328,9 @@ export default function StartupHome() {
             {/* Campaign list based on selected scope */}
             {campaignScope === 'mine' ? (
               <>
-                <Text style={styles.dataSourceLabel}>🔴 Live Campaigns (Database)</Text>
                 {dbCampaigns.length === 0 ? (
                   <View style={styles.emptyCard}>
-                    <Text style={styles.emptyText}>No campaigns in database yet</Text>
+                    <Text style={styles.emptyText}>No campaigns yet</Text>
                     <TouchableOpacity
                       style={styles.createButton}
                       onPress={() => (navigation as any).navigate('FundraisingCampaignForm')}
@@ -269,7 +348,7 @@ export default function StartupHome() {
                       <View style={styles.campaignHeader}>
                         <Text style={styles.campaignTitle}>{campaign.title}</Text>
                         <View style={[styles.statusBadge, { backgroundColor: getStatusColor(campaign.status) }]}>
-                          <Text style={styles.statusText}>{campaign.status.toUpperCase()}</Text>
+                          <Text style={styles.statusText}>{formatStatus(campaign.status || 'draft').toUpperCase()}</Text>
                         </View>
                       </View>
 
@@ -284,12 +363,12 @@ export default function StartupHome() {
                         </View>
                         <View style={styles.statItem}>
                           <Text style={styles.statLabel}>Raised</Text>
-                          <Text style={styles.statValue}>₹{campaign.funding_raised.toLocaleString()}</Text>
+                          <Text style={styles.statValue}>₹{(campaign.funding_raised || 0).toLocaleString()}</Text>
                         </View>
                         <View style={styles.statItem}>
                           <Text style={styles.statLabel}>Progress</Text>
                           <Text style={styles.statValue}>
-                            {getProgressPercentage(campaign.funding_raised, campaign.funding_goal).toFixed(0)}%
+                            {getProgressPercentage(campaign.funding_raised || 0, campaign.funding_goal).toFixed(0)}%
                           </Text>
                         </View>
                       </View>
@@ -298,28 +377,26 @@ export default function StartupHome() {
                         <View
                           style={[
                             styles.progressBar,
-                            { width: `${getProgressPercentage(campaign.funding_raised, campaign.funding_goal)}%` }
+                            { width: `${getProgressPercentage(campaign.funding_raised || 0, campaign.funding_goal)}%` }
                           ]}
                         />
                       </View>
+                      {feedbackFor(campaign, latestReviews[campaign.id]) && (
+                        <View style={styles.feedbackBox}>
+                          <Text style={styles.feedbackTitle}>{DECISION_LABELS[latestReviews[campaign.id].decision]} by admin</Text>
+                          <Text style={styles.feedbackText}>{latestReviews[campaign.id].reason}</Text>
+                        </View>
+                      )}
                       <View style={styles.actionButtons}>
-                        {campaign.status === 'draft' && (
+                        {availableTransitions(campaign, 'owner').map(transition => (
                           <TouchableOpacity
-                            style={[styles.actionButton, styles.activateButton]}
-                            onPress={() => updateCampaignStatus(campaign.id, 'active')}
+                            key={transition.to}
+                            style={[styles.actionButton, getTransitionButtonStyle(transition.to)]}
+                            onPress={() => handleTransition(campaign, transition)}
                           >
-                            <Text style={styles.actionButtonText}>Activate</Text>
+                            <Text style={styles.actionButtonText}>{transition.label}</Text>
                           </TouchableOpacity>
-                        )}
-
-                        {campaign.status === 'active' && (
-                          <TouchableOpacity
-                            style={[styles.actionButton, styles.pauseButton]}
-                            onPress={() => updateCampaignStatus(campaign.id, 'paused')}
-                          >
-                            <Text style={styles.actionButtonText}>Pause</Text>
-                          </TouchableOpacity>
-                        )}
+                        ))}
 
                         <TouchableOpacity
                           style={[styles.actionButton, styles.viewButton]}
@@ -334,48 +411,45 @@ export default function StartupHome() {
               </>
             ) : (
               <>
-                <Text style={[styles.dataSourceLabel, { marginTop: 4 }]}>🟢 Other Campaigns</Text>
-                {mockCampaigns
-                  .filter(c => industryFilter === 'All' ? true : c.industry === industryFilter)
-                  .map((campaign) => (
-                  <TouchableOpacity
-                    key={campaign.id}
-                    style={[styles.campaignCard, styles.mockCampaignCard]}
-                    onPress={() => (navigation as any).navigate('FundraisingCampaignDetail', { mockCampaign: campaign, isMock: true })}
-                  >
-                    <View style={styles.campaignHeader}>
-                      <Text style={styles.campaignTitle}>{campaign.title}</Text>
-                      <View style={styles.mockBadge}>
-                        <Text style={styles.mockBadgeText}>MOCK</Text>
+                {filteredOtherCampaigns.length === 0 ? (
+                  <View style={styles.emptyCard}>
+                    <Text style={styles.emptyText}>No other active campaigns</Text>
+                  </View>
+                ) : (
+                  filteredOtherCampaigns.map((campaign) => (
+                    <TouchableOpacity
+                      key={campaign.id}
+                      style={styles.campaignCard}
+                      onPress={() => (navigation as any).navigate('FundraisingCampaignDetail', { campaignId: campaign.id })}
+                    >
+                      <View style={styles.campaignHeader}>
+                        <Text style={styles.campaignTitle}>{campaign.title}</Text>
                       </View>
-                    </View>
+                      <Text style={styles.companyLabel}>{campaign.startups?.company_name || 'Unknown startup'}</Text>
 
-                    <Text style={styles.campaignDescription} numberOfLines={2}>
-                      {campaign.description}
-                    </Text>
+                      <Text style={styles.campaignDescription} numberOfLines={2}>
+                        {campaign.description}
+                      </Text>
 
-                    <View style={styles.campaignStats}>
-                      <View style={styles.statItem}>
-                        <Text style={styles.statLabel}>Goal</Text>
-                        <Text style={styles.statValue}>{campaign.fundingGoal}</Text>
-                      </View>
-                      <View style={styles.statItem}>
-                        <Text style={styles.statLabel}>Raised</Text>
-                        <Text style={styles.statValue}>{campaign.currentRaised}</Text>
-                      </View>
-                      <View style={styles.statItem}>
-                        <Text style={styles.statLabel}>Views</Text>
-                        <Text style={styles.statValue}>{campaign.stats.views}</Text>
+                      <View style={styles.campaignStats}>
+                        <View style={styles.statItem}>
+                          <Text style={styles.statLabel}>Goal</Text>
+                          <Text style={styles.statValue}>₹{campaign.funding_goal.toLocaleString()}</Text>
+                        </View>
+                        <View style={styles.statItem}>
+                          <Text style={styles.statLabel}>Raised</Text>
+                          <Text style={styles.statValue}>₹{(campaign.funding_raised || 0).toLocaleString()}</Text>
+                        </View>
+                        <View style={styles.statItem}>
+                          <Text style={styles.statLabel}>Progress</Text>
+                          <Text style={styles.statValue}>
+                            {getProgressPercentage(campaign.funding_raised || 0, campaign.funding_goal).toFixed(0)}%
+                          </Text>
+                        </View>
                       </View>
-                    </View>
-
-                    <View style={styles.mockStats}>
-                      <Text style={styles.mockStatText}>👀 {campaign.stats.views} views</Text>
-                      <Text style={styles.mockStatText}>❤️ {campaign.stats.interests} interests</Text>
-                      <Text style={styles.mockStatText}>🤝 {campaign.stats.matches} matches</Text>
-                    </View>
-                  </TouchableOpacity>
-                ))}
+                    </TouchableOpacity>
+                  ))
+                )}
               </>
             )}
           </View>
@@ -384,78 +458,84 @@ export default function StartupHome() {
         {activeTab === 'investors' && (
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>💼 Discover Investors</Text>
-
-            {loading ? (
+            {startupId && !investorSearch.isFiltering && (
+              <Text style={styles.sectionHint}>Best fit for your startup first</Text>
+            )}
+            <SearchFilters
+              total={investorSearch.isFiltering ? investorSearch.total : investors.length}
+              loading={investorSearch.isFiltering ? investorSearch.loading : loading}
+              facetOptions={investorSearch.facetOptions}
+              facets={investorSearch.facets}
+              onFacet={investorSearch.setFacet}
+              onClear={investorSearch.clearFacets}
+              sortOptions={investorSearch.sortOptions}
+              sortKey={investorSearch.sortKey}
+              onSort={investorSearch.setSortKey}
+            />
+
+            {(investorSearch.isFiltering ? investorSearch.loading && shownInvestors.length === 0 : loading) ? (
               <Text style={styles.loadingText}>Loading investors...</Text>
-            ) : filteredInvestors.length === 0 ? (
+            ) : shownInvestors.length === 0 ? (
               <View style={styles.emptyState}>
                 <Text style={styles.emptyTitle}>No Investors Found</Text>
                 <Text style={styles.emptyText}>
-                  {searchQuery ? 'Try adjusting your search' : 'No investors are registered yet'}
+                  {investorSearch.isFiltering ? 'Try adjusting your search' : 'No investors are registered yet'}
                 </Text>
               </View>
             ) : (
               <View style={styles.investorsList}>
-                {filteredInvestors.map((investor) => (
-                  <TouchableOpacity
+                {shownInvestors.map((investor) => (
+                  <InvestorCard
                     key={investor.id}
-                    style={styles.investorCard}
+                    investor={investor}
+                    reasons={investor.recommendation ? describeReasons(investor.recommendation) : undefined}
+                    saved={isSaved({ type: 'investor', id: investor.id })}
+                    onToggleSave={() => toggle({ type: 'investor', id: investor.id })}
                     onPress={() => (navigation as any).navigate('InvestorDetail', { investorId: investor.id })}
-                  >
-                    <View style={styles.cardHeader}>
-                      <Text style={styles.investorName}>{investor.investor_name || 'Anonymous Investor'}</Text>
-                    </View>
-
-                    {investor.company_name && (
-                      <Text style={styles.companyName}>
-                        {investor.company_name}
-                      </Text>
-                    )}
-
-                    <View style={styles.cardDetails}>
-                      {investor.location && (
-                        <View style={styles.detailItem}>
-                          <Text style={styles.detailIcon}>📍</Text>
-                          <Text style={styles.detailText}>{investor.location}</Text>
-                        </View>
-                      )}
-
-                      <View style={styles.detailItem}>
-                        <Text style={styles.detailIcon}>💰</Text>
-                        <Text style={styles.detailText}>
-                          {formatInvestmentRange(investor.min_investment, investor.max_investment)}
+                    accessory={
+                      <TouchableOpacity
+                        style={[styles.likeButton, likedIds.has(investor.id) && styles.likeButtonLiked]}
+                        onPress={() => handleLike(investor)}
+                        disabled={likedIds.has(investor.id)}
+                      >
+                        <Text style={[styles.likeText, likedIds.has(investor.id) && styles.likeTextLiked]}>
+                          {likedIds.has(investor.id) ? '♥ Liked' : '♡ Like'}
                         </Text>
-                      </View>
-
-                      {investor.interested_industries && (
-                        <View style={styles.detailItem}>
-                          <Text style={styles.detailIcon}>🏢</Text>
-                          <Text style={styles.detailText} numberOfLines={1}>
-                            {investor.interested_industries.split(',').slice(0, 2).join(', ')}
-                          </Text>
-                        </View>
-                      )}
-
-                      {investor.linkedin_url && (
-                        <View style={styles.detailItem}>
-                          <Text style={styles.detailIcon}>🔗</Text>
-                          <Text style={styles.detailText} numberOfLines={1}>
-                            LinkedIn Profile
-                          </Text>
-                        </View>
-                      )}
-                    </View>
-
-                    <View style={styles.viewDetailsButton}>
-                      <Text style={styles.viewDetailsText}>View Details →</Text>
-                    </View>
-                  </TouchableOpacity>
+                      </TouchableOpacity>
+                    }
+                  />
                 ))}
+                {investorSearch.isFiltering && investorSearch.hasMore && (
+                  <TouchableOpacity style={styles.viewAllButton} onPress={investorSearch.loadMore}>
+                    <Text style={styles.viewAllText}>{investorSearch.loadingMore ? 'Loading...' : 'Load more'}</Text>
+                  </TouchableOpacity>
+                )}
               </View>
             )}
           </View>
         )}
 
+        {activeTab === 'saved' && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>💾 Saved</Text>
+            <SavedList ownerId={user?.id ?? null} onChange={reloadSaved} />
+          </View>
+        )}
+
+        {activeTab === 'matches' && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>🤝 Matches</Text>
+            <MatchesList side="startup" ownId={startupId} />
+          </View>
+        )}
+
+        {activeTab === 'messages' && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>💬 Messages</Text>
+            <ConversationList side="startup" ownId={startupId} onChange={reloadUnread} />
+          </View>
+        )}
+
         <View style={{ height: 40 }} />
       </ScrollView>
     </View>
@@ -536,21 +616,89 @@ const styles = StyleSheet.create({
     color: '#007bff',
     fontWeight: '700',
   },
+  tabLabelRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  tabBadge: {
+    backgroundColor: '#dc3545',
+    borderRadius: 9,
+    minWidth: 18,
+    paddingHorizontal: 5,
+    marginLeft: 4,
+    alignItems: 'center',
+  },
+  tabBadgeText: {
+    color: '#fff',
+    fontSize: 11,
+    fontWeight: 'bold',
+  },
   section: {
     padding: 16,
     backgroundColor: '#fff',
     marginBottom: 8,
   },
   sectionTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 16,
+  },
+  sectionHint: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: -12,
+    marginBottom: 12,
+  },
+  scopeToggleWrap: {
+    flexDirection: 'row',
+    backgroundColor: '#f0f0f0',
+    borderRadius: 8,
+    padding: 4,
+    marginBottom: 12,
+  },
+  scopeButton: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 6,
+    alignItems: 'center',
+  },
+  scopeButtonActive: {
+    backgroundColor: '#fff',
+  },
+  scopeText: {
+    fontSize: 13,
+    color: '#666',
+    fontWeight: '500',
+  },
+  scopeTextActive: {
+    color: '#007bff',
+    fontWeight: '700',
+  },
+  emptyCard: {
+    backgroundColor: '#f9f9f9',
+    padding: 24,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginBottom: 16,
+    borderWidth: 2,
+    borderStyle: 'dashed',
+    borderColor: '#ddd',
+  },
+  actionButtons: {
     flexDirection: 'row',
     justifyContent: 'space-between',
-    color: '#333',
+    flexWrap: 'wrap',
+    marginTop: 12,
+  },
   actionButton: {
     flex: 1,
+    minWidth: '28%',
     padding: 8,
     borderRadius: 6,
     alignItems: 'center',
     marginHorizontal: 4,
+    marginBottom: 8,
   },
   activateButton: {
     backgroundColor: '#28a745',
@@ -558,6 +706,32 @@ const styles = StyleSheet.create({
   pauseButton: {
     backgroundColor: '#fd7e14',
   },
+  completeButton: {
+    backgroundColor: '#20c997',
+  },
+  cancelButton: {
+    backgroundColor: '#dc3545',
+  },
+  draftButton: {
+    backgroundColor: '#6c757d',
+  },
+  feedbackBox: {
+    backgroundColor: '#fff3cd',
+    borderRadius: 6,
+    padding: 10,
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  feedbackTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#856404',
+    marginBottom: 2,
+  },
+  feedbackText: {
+    fontSize: 13,
+    color: '#856404',
+  },
   viewButton: {
     backgroundColor: '#007bff',
   },
@@ -566,7 +740,10 @@ const styles = StyleSheet.create({
     fontSize: 13,
     fontWeight: '600',
   },
+  emptyText: {
+    fontSize: 14,
     color: '#999',
+    textAlign: 'center',
     marginBottom: 16,
   },
   createButton: {
@@ -593,11 +770,6 @@ const styles = StyleSheet.create({
     shadowRadius: 4,
     elevation: 2,
   },
-  mockCampaignCard: {
-    borderColor: '#28a745',
-    borderWidth: 2,
-    backgroundColor: '#f8fff9',
-  },
   campaignHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -611,6 +783,11 @@ const styles = StyleSheet.create({
     flex: 1,
     marginRight: 8,
   },
+  companyLabel: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 8,
+  },
   statusBadge: {
     paddingHorizontal: 8,
     paddingVertical: 4,
@@ -621,17 +798,6 @@ const styles = StyleSheet.create({
     color: '#fff',
     fontWeight: '700',
   },
-  mockBadge: {
-    backgroundColor: '#28a745',
-    paddingHorizontal: 8,
-    paddingVertical: 4,
-    borderRadius: 12,
-  },
-  mockBadgeText: {
-    fontSize: 10,
-    color: '#fff',
-    fontWeight: '700',
-  },
   campaignDescription: {
     fontSize: 14,
     color: '#666',
@@ -667,19 +833,6 @@ const styles = StyleSheet.create({
     backgroundColor: '#28a745',
     borderRadius: 4,
   },
-  mockStats: {
-    flexDirection: 'row',
-    justifyContent: 'space-around',
-    marginTop: 8,
-    paddingTop: 12,
-    borderTopWidth: 1,
-    borderTopColor: '#e0e0e0',
-  },
-  mockStatText: {
-    fontSize: 12,
-    color: '#666',
-    fontWeight: '500',
-  },
   viewAllButton: {
     backgroundColor: '#007bff',
     padding: 14,
@@ -714,55 +867,22 @@ const styles = StyleSheet.create({
   investorsList: {
     padding: 16,
   },
-  investorCard: {
-    backgroundColor: '#fff',
-    padding: 16,
-    borderRadius: 12,
-    marginBottom: 16,
-    shadowColor: '#000',
-    shadowOffset: { width: 0, height: 2 },
-    shadowOpacity: 0.1,
-    shadowRadius: 4,
-    elevation: 2,
-  },
-  cardHeader: {
-    marginBottom: 4,
-  },
-  investorName: {
-    fontSize: 20,
-    fontWeight: 'bold',
-    color: '#333',
-  },
-  companyName: {
-    fontSize: 14,
-    color: '#666',
-    marginBottom: 12,
-  },
-  cardDetails: {
-    marginBottom: 12,
-  },
-  detailItem: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    marginBottom: 6,
-  },
-  detailIcon: {
-    fontSize: 14,
-    marginRight: 8,
-  },
-  detailText: {
-    fontSize: 14,
-    color: '#666',
-    flex: 1,
+  likeButton: {
+    borderWidth: 1,
+    borderColor: '#e83e8c',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
   },
-  viewDetailsButton: {
-    paddingTop: 8,
-    borderTopWidth: 1,
-    borderTopColor: '#f0f0f0',
+  likeButtonLiked: {
+    backgroundColor: '#e83e8c',
   },
-  viewDetailsText: {
-    fontSize: 14,
-    color: '#007bff',
+  likeText: {
+    color: '#e83e8c',
+    fontSize: 13,
     fontWeight: '600',
   },
+  likeTextLiked: {
+    color: '#fff',
+  },
 });
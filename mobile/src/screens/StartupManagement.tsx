@@ -2,21 +2,26 @@
 import React, { useState, useEffect } from 'react';
 // Import UI and touchable components.
 import { View, Text, Button, FlatList, TouchableOpacity, Alert } from 'react-native';
+import { useNavigation } from '@react-navigation/native';
 // Import auth hook to check permissions.
 import { useAuth } from '../context/AuthContext';
-import { supabase } from '../../supabaseClient';
-// Import audit log helper to record admin actions.
-import { addLog, readLog } from '../utils/auditLog';
+import { StartupAdminSummary, StartupRepository } from '../../services/data/startup.repository';
+import { AuditEventRepository } from '../../services/data/audit.repository';
+import { AuditEventRow, IdentifierCheck, StartupIdentifierChecks } from '../../services/data/database.types';
+// Admin actions go through the moderation service so each one is audited.
+import { deleteStartup, setStartupDisabled, setStartupVerified } from '../../services/admin/moderation.service';
+import { describeAuditEvent } from '../../services/admin/audit.service';
 
 // StartupManagement screen shows startups and admin actions.
 export default function StartupManagement() {
   // Read the current user to check admin vs super_admin.
   const { user } = useAuth();
+  const navigation = useNavigation();
 
   // Manage the startups in local state so UI updates.
-  const [startups, setStartups] = useState<Array<{ id: string; public_id?: string; company_name?: string; verification_status?: string; disabled?: boolean }>>([]);
-  // Read-only view of the audit log for display.
-  const [logs] = useState(() => readLog());
+  const [startups, setStartups] = useState<StartupAdminSummary[]>([]);
+  // The most recent audited startup actions, newest first.
+  const [events, setEvents] = useState<AuditEventRow[]>([]);
 
   const [loading, setLoading] = useState(true);
 
@@ -25,8 +30,8 @@ export default function StartupManagement() {
     async function load() {
       setLoading(true);
       try {
-        const { data } = await supabase.from('startups').select('id, public_id, company_name, verification_status, disabled');
-        if (mounted && data) setStartups(data as any);
+        const data = await StartupRepository.listForAdmin();
+        if (mounted && data) setStartups(data);
       } catch (e) {
         if (mounted) setStartups([]);
       } finally {
@@ -34,64 +39,63 @@ export default function StartupManagement() {
       }
     }
     load();
+    loadEvents();
     return () => {
       mounted = false;
     };
   }, []);
 
+  async function loadEvents() {
+    try {
+      setEvents(await AuditEventRepository.list({ targetType: 'startup', limit: 10 }));
+    } catch (e) {
+      console.error('Failed to load audit events:', e);
+    }
+  }
+
   // Helper to update a startup in the array.
   function updateStartup(id: string, patch: Partial<typeof startups[0]>) {
     setStartups(prev => prev.map(s => (s.id === id ? { ...s, ...patch } : s)));
   }
 
-  // Handler to verify a startup (admins can verify).
-  async function onVerify(id: string) {
-    // Only admin or super_admin can verify; but path uses pages only accessible to admin.
-    // Persist change to DB when possible.
-    try {
-      await supabase.from('startups').update({ verification_status: 'verified' }).eq('id', id);
-    } catch (e) {
-      // ignore DB error for now
+  // Handler to verify or unverify a startup (admins can do both).
+  async function onSetVerified(id: string, verified: boolean) {
+    const result = await setStartupVerified(user, id, verified);
+    if (result.success === false) {
+      Alert.alert('Error', result.error);
+      return;
     }
-    updateStartup(id, { verification_status: 'verified' });
-    addLog(`Admin ${user.public_id} verified Startup ${id}`);
-    Alert.alert('Verified', 'Startup marked as verified');
-  }
-
-  // Handler to unverify a startup.
-  async function onUnverify(id: string) {
-    try {
-      await supabase.from('startups').update({ verification_status: 'pending' }).eq('id', id);
-    } catch (e) {}
-    updateStartup(id, { verification_status: 'pending' });
-    addLog(`Admin ${user.public_id} set Startup ${id} to pending`);
-    Alert.alert('Set to pending', 'Startup marked as pending');
+    updateStartup(id, { verification_status: verified ? 'verified' : 'pending' });
+    loadEvents();
+    Alert.alert(verified ? 'Verified' : 'Set to pending', verified ? 'Startup marked as verified' : 'Startup marked as pending');
   }
 
-  // Handler to disable a startup (admin action).
-  async function onDisable(id: string) {
-    try {
-      await supabase.from('startups').update({ disabled: true }).eq('id', id);
-    } catch (e) {}
-    updateStartup(id, { disabled: true });
-    addLog(`Admin ${user.public_id} disabled Startup ${id}`);
-    Alert.alert('Disabled', 'Startup disabled');
+  // Handler to disable or re-enable a startup (admin action).
+  async function onSetDisabled(id: string, disabled: boolean) {
+    const result = await setStartupDisabled(user, id, disabled);
+    if (result.success === false) {
+      Alert.alert('Error', result.error);
+      return;
+    }
+    updateStartup(id, { disabled });
+    loadEvents();
+    Alert.alert(disabled ? 'Disabled' : 'Enabled', disabled ? 'Startup disabled' : 'Startup enabled');
   }
 
   // Handler to delete a startup (only super_admin allowed).
   async function onDelete(id: string) {
-    // Check role before allowing delete.
+    // The service checks the role too; this avoids a round trip for admins.
     if (user.role !== 'super_admin') {
-      // If not super_admin, show an alert and return; admins cannot delete.
       Alert.alert('Forbidden', 'Only super_admin can delete startups');
       return;
     }
-    // Super admin may delete: remove from state and log.
-    try {
-      await supabase.from('startups').delete().eq('id', id);
-    } catch (e) {}
+    const result = await deleteStartup(user, id);
+    if (result.success === false) {
+      Alert.alert('Error', result.error);
+      return;
+    }
     setStartups(prev => prev.filter(s => s.id !== id));
-    addLog(`SuperAdmin ${user.public_id} deleted Startup ${id}`);
+    loadEvents();
     Alert.alert('Deleted', 'Startup deleted by super_admin');
   }
 
@@ -103,18 +107,22 @@ export default function StartupManagement() {
         <Text>Company: {item.company_name}</Text>
         <Text>Verification: {item.verification_status}</Text>
         <Text>Disabled: {item.disabled ? 'Yes' : 'No'}</Text>
+        <Text>Identifiers: {describeIdentifierChecks(item.identifier_checks)}</Text>
+        {identifierErrors(item.identifier_checks).map(error => (
+          <Text key={error} style={{ fontSize: 12, color: '#B91C1C' }}>{error}</Text>
+        ))}
 
         {/* Verify button */}
-        <Button title="Verify" onPress={() => onVerify(item.id)} />
+        <Button title="Verify" onPress={() => onSetVerified(item.id, true)} />
         <View style={{ height: 4 }} />
         {/* Unverify button */}
-        <Button title="Unverify" onPress={() => onUnverify(item.id)} />
+        <Button title="Unverify" onPress={() => onSetVerified(item.id, false)} />
         <View style={{ height: 4 }} />
         {/* Edit (mock) */}
         <Button title="Edit" onPress={() => Alert.alert('Edit', 'Edit screen not implemented in Phase 3')} />
         <View style={{ height: 4 }} />
-        {/* Disable button */}
-        <Button title="Disable" onPress={() => onDisable(item.id)} />
+        {/* Disable / enable button */}
+        <Button title={item.disabled ? 'Enable' : 'Disable'} onPress={() => onSetDisabled(item.id, !item.disabled)} />
         <View style={{ height: 4 }} />
         {/* Delete button (visible but only works for super_admin) */}
         <Button title="Delete (super_admin only)" onPress={() => onDelete(item.id)} />
@@ -135,11 +143,32 @@ export default function StartupManagement() {
 
       <View style={{ height: 12 }} />
       <Text style={{ fontSize: 16, fontWeight: 'bold' }}>Audit Log (recent)</Text>
-      {logs.map((l, idx) => (
-        <Text key={idx} style={{ fontSize: 12 }}>
-          {l}
+      {events.map(e => (
+        <Text key={e.id} style={{ fontSize: 12 }}>
+          {e.created_at} - {describeAuditEvent(e)} ({e.actor_role})
         </Text>
       ))}
+      <View style={{ height: 8 }} />
+      <Button title="Full Audit Log" onPress={() => (navigation as any).navigate('AuditLog')} />
     </View>
   );
 }
+
+const CHECK_LABELS: Record<IdentifierCheck['status'], string> = {
+  passed: 'passed',
+  failed: 'FAILED',
+  missing: 'missing',
+  not_applicable: 'n/a'
+};
+
+// e.g. "PAN passed · CIN FAILED · GSTIN missing"
+function describeIdentifierChecks(checks: StartupIdentifierChecks | null): string {
+  if (!checks) return 'not checked since the last change';
+  const registration = checks.registration.kind ? checks.registration.kind.toUpperCase() : 'Registration';
+  return `PAN ${CHECK_LABELS[checks.pan.status]} · ${registration} ${CHECK_LABELS[checks.registration.status]} · GSTIN ${CHECK_LABELS[checks.gstin.status]}`;
+}
+
+function identifierErrors(checks: StartupIdentifierChecks | null): string[] {
+  if (!checks) return [];
+  return [checks.pan, checks.registration, checks.gstin].map(check => check.error).filter(Boolean);
+}
@@ -1,8 +1,13 @@
 import React, { useState, useEffect } from 'react';
-import { View, Text, TextInput, Switch, TouchableOpacity, Alert, ScrollView, StyleSheet } from 'react-native';
+import { View, Text, TextInput, Switch, TouchableOpacity, Alert, ScrollView, ActivityIndicator, StyleSheet } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import { useAuth } from '../context/AuthContext';
-import { supabase } from '../../supabaseClient';
+import { StartupRepository } from '../../services/data/startup.repository';
+import { validateGst, verifyGST } from '../../services/verification/gst.service';
+import { firstIdentifierError, recordIdentifierChecks, validateStartupIdentifiers } from '../../services/verification/registration.service';
+import { normalizeGstin } from '../../utils/gst.util';
+import { normalizeIdentifier, registrationKind } from '../../utils/registration.util';
+import type { LookupGstinResult } from '../../server/lookupGstin';
 // Navigate back to RoleSelection when user cancels profile completion
 
 export default function StartupProfileForm() {
@@ -25,6 +30,10 @@ export default function StartupProfileForm() {
   const [registrationNumber, setRegistrationNumber] = useState('');
   const [gstNumber, setGstNumber] = useState('');
   const [panNumber, setPanNumber] = useState('');
+  const [gstLookup, setGstLookup] = useState<LookupGstinResult | null>(null);
+  const [gstLookingUp, setGstLookingUp] = useState(false);
+  // PAN and registration errors show once the field is left, or on save.
+  const [identifiersTouched, setIdentifiersTouched] = useState({ pan: false, registration: false });
 
   // TEAM INFO
   const directorOptions = ['1', '2', '3', '4', '5', '6+'];
@@ -56,13 +65,9 @@ export default function StartupProfileForm() {
       if (!user.id || user.role !== 'startup') return;
 
       try {
-        const { data, error } = await supabase
-          .from('startups')
-          .select('*')
-          .eq('owner_id', user.id)
-          .single();
+        const data = await StartupRepository.findByOwner(user.id);
 
-        if (!error && data) {
+        if (data) {
           setCompanyName(data.company_name || '');
           setTagline(data.tagline || '');
           setDescription(data.description || '');
@@ -104,6 +109,36 @@ export default function StartupProfileForm() {
     loadProfile();
   }, [user.id, user.role]);
 
+  const gstValidation = validateGst(gstNumber, panNumber);
+  // Wait for all 15 characters before complaining, unless the PAN is off.
+  const gstError = normalizeGstin(gstNumber).length >= 15 || gstValidation.stateName ? gstValidation.error : null;
+
+  const registrationType = registrationKind(companyType);
+  const identifierChecks = validateStartupIdentifiers({
+    company_type: companyType,
+    registered,
+    registration_number: registrationNumber,
+    pan_number: panNumber,
+    gst_number: gstNumber,
+    founded_year: foundedYear ? parseInt(foundedYear) : null
+  });
+  const panError = identifiersTouched.pan ? identifierChecks.pan.error : undefined;
+  const registrationError = identifiersTouched.registration ? identifierChecks.registration.error : undefined;
+
+  function onGstChange(text: string) {
+    setGstNumber(text);
+    setGstLookup(null);
+  }
+
+  async function onLookupGst() {
+    setGstLookingUp(true);
+    try {
+      setGstLookup(await verifyGST(gstNumber));
+    } finally {
+      setGstLookingUp(false);
+    }
+  }
+
   async function onSave() {
     if (!user.id) {
       Alert.alert('Error', 'No authenticated user');
@@ -120,9 +155,15 @@ export default function StartupProfileForm() {
       return;
     }
 
+    const identifierError = firstIdentifierError(identifierChecks);
+    if (identifierError) {
+      setIdentifiersTouched({ pan: true, registration: true });
+      Alert.alert('Check Legal Information', identifierError);
+      return;
+    }
+
     try {
-      const { error } = await supabase.from('startups').upsert({
-        owner_id: user.id,
+      await StartupRepository.saveProfile(user.id, {
         company_name: companyName,
         tagline: tagline,
         description: description,
@@ -132,9 +173,9 @@ export default function StartupProfileForm() {
         email: email,
         company_type: companyType,
         registered: registered,
-        registration_number: registrationNumber,
-        gst_number: gstNumber,
-        pan_number: panNumber,
+        registration_number: registrationType ? normalizeIdentifier(registrationNumber) : registrationNumber,
+        gst_number: normalizeGstin(gstNumber),
+        pan_number: panNumber.trim().toUpperCase(),
         num_directors: numDirectors,
         team_size: teamSize ? parseInt(teamSize) : null,
         founder_name: founderName,
@@ -149,19 +190,17 @@ export default function StartupProfileForm() {
         monthly_burn: monthlyBurn ? parseFloat(monthlyBurn) : null,
         social_impact: socialImpact,
         impact_description: impactDescription
-      }, { onConflict: 'owner_id' });
+      });
 
-      if (error) {
-        console.error('Startup upsert error:', error);
-        Alert.alert('Save failed', error.message || JSON.stringify(error));
-        return;
-      }
+      // Admins see the recorded results; a failure here does not undo the save.
+      const recorded = await recordIdentifierChecks();
+      if (recorded.success === false) console.error('startupProfileForm identifier checks failed:', recorded.error);
 
       Alert.alert('Success', 'Startup profile saved!');
       // @ts-ignore
       navigation.navigate('StartupHome');
     } catch (err) {
-      Alert.alert('Error', 'Failed to save startup profile');
+      Alert.alert('Save failed', err?.message || 'Failed to save startup profile');
       console.error('startupProfileForm save error:', err);
     }
   }
@@ -319,31 +358,74 @@ function onBack() {
 
           {registered && (
             <>
-              <Text style={styles.label}>Registration Number</Text>
+              <Text style={styles.label}>
+                {registrationType === 'cin' ? 'CIN' : registrationType === 'llpin' ? 'LLPIN' : 'Registration Number'}
+              </Text>
               <TextInput 
                 value={registrationNumber} 
                 onChangeText={setRegistrationNumber} 
-                placeholder="Company registration number"
-                style={styles.input} 
+                onBlur={() => setIdentifiersTouched(prev => ({ ...prev, registration: true }))}
+                placeholder={
+                  registrationType === 'cin' ? 'U72900KA2015PTC082988' : registrationType === 'llpin' ? 'AAB-1234' : 'Company registration number'
+                }
+                autoCapitalize={registrationType ? 'characters' : 'sentences'}
+                autoCorrect={false}
+                style={[styles.input, registrationError ? [styles.inputWithNote, styles.inputError] : null]} 
               />
+              {registrationError && <Text style={styles.fieldError}>{registrationError}</Text>}
             </>
           )}
 
           <Text style={styles.label}>GST Number</Text>
           <TextInput 
             value={gstNumber} 
-            onChangeText={setGstNumber} 
+            onChangeText={onGstChange} 
             placeholder="22AAAAA0000A1Z5"
-            style={styles.input} 
+            autoCapitalize="characters"
+            autoCorrect={false}
+            style={[styles.input, styles.inputWithNote, gstError ? styles.inputError : null]} 
           />
+          {gstError ? (
+            <Text style={styles.fieldError}>{gstError}</Text>
+          ) : gstValidation.stateName ? (
+            <View style={styles.gstStatusRow}>
+              <Text style={styles.fieldNote}>Registered in {gstValidation.stateName}</Text>
+              {!gstLookup && (
+                <TouchableOpacity onPress={onLookupGst} disabled={gstLookingUp}>
+                  {gstLookingUp
+                    ? <ActivityIndicator size="small" color="#2563EB" />
+                    : <Text style={styles.linkText}>Look up</Text>}
+                </TouchableOpacity>
+              )}
+            </View>
+          ) : (
+            <View style={styles.fieldSpacer} />
+          )}
+          {gstLookup && gstLookup.success === false && (
+            <Text style={[styles.fieldError, styles.lookupResult]}>{gstLookup.error}</Text>
+          )}
+          {gstLookup && gstLookup.success === true && (
+            <View style={[styles.lookupResult, styles.taxpayerBox, gstLookup.taxpayer.status !== 'Active' && styles.taxpayerBoxInactive]}>
+              <Text style={styles.taxpayerName}>{gstLookup.taxpayer.legalName}</Text>
+              {gstLookup.taxpayer.tradeName && <Text style={styles.fieldNote}>Trading as {gstLookup.taxpayer.tradeName}</Text>}
+              <Text style={styles.fieldNote}>
+                {gstLookup.taxpayer.status}
+                {gstLookup.taxpayer.registeredOn ? ` · registered ${gstLookup.taxpayer.registeredOn}` : ''}
+              </Text>
+            </View>
+          )}
 
           <Text style={styles.label}>PAN Number</Text>
           <TextInput 
             value={panNumber} 
             onChangeText={setPanNumber} 
+            onBlur={() => setIdentifiersTouched(prev => ({ ...prev, pan: true }))}
             placeholder="AAAAA0000A"
-            style={styles.input} 
+            autoCapitalize="characters"
+            autoCorrect={false}
+            style={[styles.input, panError ? [styles.inputWithNote, styles.inputError] : null]} 
           />
+          {panError && <Text style={styles.fieldError}>{panError}</Text>}
         </View>
 
         {/* Team Information */}
@@ -685,6 +767,57 @@ const styles = StyleSheet.create({
     color: '#111827',
     backgroundColor: '#FFFFFF',
   },
+  inputWithNote: {
+    marginBottom: 6,
+  },
+  inputError: {
+    borderColor: '#DC2626',
+  },
+  fieldError: {
+    fontSize: 12,
+    color: '#DC2626',
+    fontWeight: '600',
+    marginBottom: 16,
+  },
+  fieldNote: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  fieldSpacer: {
+    height: 10,
+  },
+  gstStatusRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  linkText: {
+    fontSize: 13,
+    color: '#2563EB',
+    fontWeight: '600',
+  },
+  lookupResult: {
+    marginTop: -8,
+  },
+  taxpayerBox: {
+    backgroundColor: '#ECFDF5',
+    borderLeftWidth: 3,
+    borderLeftColor: '#10B981',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+    gap: 2,
+  },
+  taxpayerBoxInactive: {
+    backgroundColor: '#FEF3C7',
+    borderLeftColor: '#D97706',
+  },
+  taxpayerName: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#111827',
+  },
   textArea: {
     minHeight: 100,
     textAlignVertical: 'top',
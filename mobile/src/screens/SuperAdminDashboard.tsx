@@ -1,10 +1,12 @@
 import React, { useState, useEffect } from 'react';
 import { View, Text, Button, ScrollView } from 'react-native';
 import { useAuth } from '../context/AuthContext';
-import { supabase } from '../../supabaseClient';
+import { UserRepository } from '../../services/data/user.repository';
+import { useUnreadNotifications } from '../hooks/useUnreadNotifications';
 
 export default function SuperAdminDashboard({ navigation }: any) {
   const { user, signOut } = useAuth();
+  const { unread: unreadNotifications, reload: reloadNotifications } = useUnreadNotifications(user.id);
   const [adminCount, setAdminCount] = useState(0);
   const [superAdminCount, setSuperAdminCount] = useState(0);
   const [startupCount, setStartupCount] = useState(0);
@@ -15,10 +17,12 @@ export default function SuperAdminDashboard({ navigation }: any) {
     loadStats();
   }, []);
 
+  useEffect(() => navigation.addListener('focus', reloadNotifications), [navigation, user.id]);
+
   async function loadStats() {
     try {
       // Get all users
-      const { data: allUsers } = await supabase.from('users').select('role');
+      const allUsers = await UserRepository.listRoles();
       
       if (allUsers) {
         setTotalUsers(allUsers.length);
@@ -70,6 +74,46 @@ export default function SuperAdminDashboard({ navigation }: any) {
         />
       </View>
 
+      <View style={{ marginBottom: 12 }}>
+        <Button 
+          title="Review Campaigns" 
+          onPress={() => navigation.navigate('CampaignReviewQueue')} 
+          color="#6f42c1"
+        />
+      </View>
+
+      <View style={{ marginBottom: 12 }}>
+        <Button 
+          title="Payments" 
+          onPress={() => navigation.navigate('PaymentManagement')} 
+          color="#20c997"
+        />
+      </View>
+
+      <View style={{ marginBottom: 12 }}>
+        <Button 
+          title="Ledger" 
+          onPress={() => navigation.navigate('Ledger')} 
+          color="#198754"
+        />
+      </View>
+
+      <View style={{ marginBottom: 12 }}>
+        <Button 
+          title="Audit Log" 
+          onPress={() => navigation.navigate('AuditLog')} 
+          color="#343a40"
+        />
+      </View>
+
+      <View style={{ marginBottom: 12 }}>
+        <Button 
+          title={unreadNotifications > 0 ? `Notifications (${unreadNotifications})` : 'Notifications'} 
+          onPress={() => navigation.navigate('Notifications')} 
+          color="#fd7e14"
+        />
+      </View>
+
       <View style={{ height: 32 }} />
       <Button title="Logout" onPress={signOut} color="#dc3545" />
     </ScrollView>
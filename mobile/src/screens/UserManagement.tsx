@@ -1,7 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { View, Text, Button, TouchableOpacity, ScrollView, StyleSheet } from 'react-native';
 import { useAuth } from '../context/AuthContext';
-import { supabase } from '../../supabaseClient';
+import { UserRepository } from '../../services/data/user.repository';
+import { StartupRepository } from '../../services/data/startup.repository';
+import { InvestorRepository } from '../../services/data/investor.repository';
+import { changeUserRole } from '../../services/admin/moderation.service';
 
 export default function UserManagement() {
   const { user, signOut } = useAuth();
@@ -17,8 +20,7 @@ export default function UserManagement() {
   async function loadUsers() {
     setLoading(true);
     try {
-      const { data } = await supabase.from('users').select('id, public_id, email, role').order('created_at', { ascending: false });
-      if (data) setUsers(data as any);
+      setUsers(await UserRepository.list());
     } catch (e) {
       console.error('Failed to load users:', e);
       setUsers([]);
@@ -39,15 +41,15 @@ export default function UserManagement() {
 
     setActionInProgress(true);
     try {
-      const { error } = await supabase.from('users').update({ role: 'admin' }).eq('id', userId);
-      if (error) {
-        alert('Error: ' + error.message);
-      } else {
-        alert('Success: User promoted to Admin');
-        await loadUsers();
+      const result = await changeUserRole(user, userId, 'admin');
+      if (result.success === false) {
+        alert('Error: ' + result.error);
+        return;
       }
+      alert('Success: User promoted to Admin');
+      await loadUsers();
     } catch (err) {
-      alert('Error: Failed to promote user');
+      alert('Error: ' + (err?.message || 'Failed to promote user'));
       console.error(err);
     } finally {
       setActionInProgress(false);
@@ -67,20 +69,20 @@ export default function UserManagement() {
     setActionInProgress(true);
     try {
       // Determine new role based on existing data
-      const { data: startupData } = await supabase.from('startups').select('id').eq('owner_id', userId).single();
-      const { data: investorData } = await supabase.from('investors').select('id').eq('owner_id', userId).single();
+      const startupId = await StartupRepository.findIdByOwner(userId);
+      const investorId = await InvestorRepository.findIdByOwner(userId);
       
-      const newRole = startupData ? 'startup' : investorData ? 'investor' : null;
+      const newRole = startupId ? 'startup' : investorId ? 'investor' : null;
       
-      const { error } = await supabase.from('users').update({ role: newRole }).eq('id', userId);
-      if (error) {
-        alert('Error: ' + error.message);
-      } else {
-        alert('Success: Admin demoted');
-        await loadUsers();
+      const result = await changeUserRole(user, userId, newRole);
+      if (result.success === false) {
+        alert('Error: ' + result.error);
+        return;
       }
+      alert('Success: Admin demoted');
+      await loadUsers();
     } catch (err) {
-      alert('Error: Failed to demote user');
+      alert('Error: ' + (err?.message || 'Failed to demote user'));
       console.error(err);
     } finally {
       setActionInProgress(false);
@@ -5,7 +5,11 @@
  * The file reads the URL and anon key from environment variables
  * or global variables so you don't embed secrets in the repo.
  */
-import { createClient } from '@supabase/supabase-js';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from './services/data/database.types';
+import { getDataBackend, getFixturePackName, isMock } from './apiMode';
+import { getFixturePack } from './services/local/fixturePacks';
+import { createLocalBackend, LocalBackend } from './services/local/localClient';
 // Try multiple sources for configuration so the app works in Expo and
 // during native builds. Preference order:
 // 1. process.env (CI/EAS/Node)
@@ -83,7 +87,10 @@ if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
 // If the anon key looks duplicated or contains extra text, try to extract the first valid JWT substring.
 SUPABASE_ANON_KEY = extractFirstJwt(SUPABASE_ANON_KEY);
 
-if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+// 'local' swaps the hosted project for the in-memory backend, which needs no URL or key.
+const DATA_BACKEND = getDataBackend();
+
+if (DATA_BACKEND === 'supabase' && (!SUPABASE_URL || !SUPABASE_ANON_KEY)) {
   // Before throwing, log which sources are present (do not log secrets).
   try {
     // eslint-disable-next-line no-console
@@ -143,27 +150,82 @@ try {
   // AsyncStorage not available (e.g., web or node environment) — fall back to defaults.
 }
 
-export const supabase = createClient(SUPABASE_URL as string, SUPABASE_ANON_KEY as string, authOptions);
+// With DATA_BACKEND=local, `localBackend` holds the in-memory database so
+// dev tools can inspect rows or reset the seed. It is null otherwise.
+export const localBackend: LocalBackend | null = DATA_BACKEND === 'local' ? createLocalBackend() : null;
+
+// Typing the client with `Database` makes every `.from()` call check
+// table and column names against services/data/database.types.ts.
+// The hosted client is created on first use, so a session started in MOCK
+// mode never restores or refreshes a real session in the background.
+let realClient: SupabaseClient<Database> | null = localBackend ? localBackend.client : null;
+
+function getRealClient(): SupabaseClient<Database> {
+  if (!realClient) {
+    realClient = createClient<Database>(SUPABASE_URL as string, SUPABASE_ANON_KEY as string, authOptions);
+  }
+  return realClient;
+}
+
+// MOCK mode runs against its own in-memory backend seeded from the selected
+// fixture pack. It is built the first time MOCK mode is used and reseeded
+// when the pack changes, so REAL data is never mixed with fixtures.
+let mockBackend: LocalBackend | null = null;
+let mockPackName: string | null = null;
+
+export function getMockBackend(): LocalBackend {
+  const packName = getFixturePackName();
+  const seed = getFixturePack(packName).seed;
+  if (!mockBackend) {
+    mockBackend = createLocalBackend(seed);
+  } else if (mockPackName !== packName) {
+    mockBackend.reset(seed);
+  }
+  mockPackName = packName;
+  return mockBackend;
+}
+
+// The client for the current API mode (see apiMode.ts).
+export function getActiveClient(): SupabaseClient<Database> {
+  return isMock() ? getMockBackend().client : getRealClient();
+}
+
+// Every service and repository imports `supabase`. It forwards each access
+// to the active client, so switching modes at runtime needs no changes in
+// callers. App.tsx remounts the tree on a switch so auth listeners and
+// screen state are rebuilt against the new client.
+export const supabase = new Proxy({} as SupabaseClient<Database>, {
+  get(_target, prop) {
+    const client = getActiveClient() as any;
+    const value = client[prop];
+    return typeof value === 'function' ? value.bind(client) : value;
+  }
+});
 
 // Debug helper: show which source provided the keys. Do not print secrets.
-try {
-  const refMatch = typeof SUPABASE_URL === 'string' ? SUPABASE_URL.match(/^https?:\/\/([^.]+)\./) : null;
-  const ref = refMatch ? refMatch[1] : 'unknown';
-  const keyStr = String(SUPABASE_ANON_KEY || '')
-  const masked = keyStr ? `${keyStr.slice(0, 8)}...${keyStr.slice(-6)} (len=${keyStr.length})` : 'none';
+if (localBackend) {
   // eslint-disable-next-line no-console
-  const jwtRef = getJwtRef(SUPABASE_ANON_KEY as string);
-  console.log('supabase client configured', { projectRef: ref, anonKey: masked, jwtRef });
-  if (jwtRef && ref && jwtRef !== ref) {
-    console.warn('Supabase config warning: anon key project ref does not match URL ref', { urlRef: ref, jwtRef });
+  console.log('supabase client configured', { backend: 'local' });
+} else {
+  try {
+    const refMatch = typeof SUPABASE_URL === 'string' ? SUPABASE_URL.match(/^https?:\/\/([^.]+)\./) : null;
+    const ref = refMatch ? refMatch[1] : 'unknown';
+    const keyStr = String(SUPABASE_ANON_KEY || '')
+    const masked = keyStr ? `${keyStr.slice(0, 8)}...${keyStr.slice(-6)} (len=${keyStr.length})` : 'none';
+    // eslint-disable-next-line no-console
+    const jwtRef = getJwtRef(SUPABASE_ANON_KEY as string);
+    console.log('supabase client configured', { projectRef: ref, anonKey: masked, jwtRef });
+    if (jwtRef && ref && jwtRef !== ref) {
+      console.warn('Supabase config warning: anon key project ref does not match URL ref', { urlRef: ref, jwtRef });
+    }
+  } catch (e) {
+    // ignore logging errors
   }
-} catch (e) {
-  // ignore logging errors
 }
 
 export function supabaseDiagnostics() {
   const refMatch = typeof SUPABASE_URL === 'string' ? SUPABASE_URL.match(/^https?:\/\/([^.]+)\./) : null;
   const urlRef = refMatch ? refMatch[1] : null;
   const jwtRef = getJwtRef(SUPABASE_ANON_KEY as string);
-  return { urlRef, jwtRef };
+  return { backend: DATA_BACKEND, mode: isMock() ? 'MOCK' : 'REAL', urlRef, jwtRef };
 }
@@ -0,0 +1,65 @@
+/*
+ * utils/aadhaar.util.test.ts
+ *
+ * Purpose: Aadhaar number checks, OTP expiry and retry limits, and
+ * number encryption. Run with `npm test`.
+ */
+
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  aadhaarNumberError,
+  decryptAadhaar,
+  encryptAadhaar,
+  isOtp,
+  maskAadhaar,
+  MAX_OTP_ATTEMPTS,
+  normalizeAadhaar,
+  otpCheckState,
+  parseEncryptionKey
+} from './aadhaar.util';
+
+const VALID = '234567890124';
+const KEY = parseEncryptionKey('00112233445566778899aabbccddeeff00112233445566778899aabbccddeeff')!;
+
+test('numbers need twelve digits and a valid check digit', () => {
+  assert.equal(aadhaarNumberError(VALID), null);
+  assert.equal(aadhaarNumberError(normalizeAadhaar('4999 0000-1236')), null);
+  assert.match(aadhaarNumberError('234567890125')!, /not valid/);
+  assert.match(aadhaarNumberError('134567890124')!, /start with 0 or 1/);
+  assert.match(aadhaarNumberError('23456789012')!, /12 digits/);
+  assert.match(aadhaarNumberError('2345678901ab')!, /12 digits/);
+});
+
+test('OTPs are six digits and numbers show only their last four', () => {
+  assert.ok(isOtp('123456'));
+  assert.ok(!isOtp('12345'));
+  assert.ok(!isOtp('12345a'));
+  assert.equal(maskAadhaar('0124'), 'XXXX XXXX 0124');
+});
+
+test('a check closes when it expires or runs out of attempts', () => {
+  const now = new Date('2026-01-01T10:00:00Z');
+  const open = { status: 'otp_sent' as const, attempts: 0, otp_expires_at: '2026-01-01T10:05:00Z' };
+  assert.equal(otpCheckState(open, now), 'open');
+  assert.equal(otpCheckState({ ...open, attempts: MAX_OTP_ATTEMPTS - 1 }, now), 'open');
+  assert.equal(otpCheckState({ ...open, attempts: MAX_OTP_ATTEMPTS }, now), 'locked');
+  assert.equal(otpCheckState({ ...open, otp_expires_at: '2026-01-01T10:00:00Z' }, now), 'expired');
+  assert.equal(otpCheckState({ ...open, status: 'failed' }, now), 'locked');
+  assert.equal(otpCheckState({ ...open, status: 'verified', attempts: MAX_OTP_ATTEMPTS }, now), 'verified');
+});
+
+test('numbers are encrypted with a fresh nonce and only open with the key', () => {
+  const first = encryptAadhaar(VALID, KEY);
+  const second = encryptAadhaar(VALID, KEY);
+  assert.match(first, /^v1\$[0-9a-f]{24}\$[0-9a-f]+$/);
+  assert.ok(!first.includes(VALID));
+  assert.notEqual(first, second);
+  assert.equal(decryptAadhaar(first, KEY), VALID);
+
+  const otherKey = parseEncryptionKey('ff'.repeat(32))!;
+  assert.throws(() => decryptAadhaar(first, otherKey));
+  assert.throws(() => decryptAadhaar('plain-text', KEY));
+  assert.equal(parseEncryptionKey('abc'), null);
+  assert.equal(parseEncryptionKey(undefined), null);
+});
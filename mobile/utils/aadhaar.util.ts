@@ -0,0 +1,140 @@
+/*
+ * utils/aadhaar.util.ts
+ *
+ * Purpose: the pure parts of Aadhaar OTP verification: checking a number
+ * before it is sent anywhere, the expiry and retry limits of an OTP
+ * check, and encrypting the number for storage.
+ *
+ * Stored numbers are versioned strings so the cipher can change later:
+ *
+ *   v1$<nonce hex>$<AES-256-GCM ciphertext hex>
+ *
+ * The key is the server functions' AADHAAR_ENCRYPTION_KEY (see
+ * server/aadhaarOtp.ts); the app never holds it. Randomness comes from
+ * `crypto.getRandomValues`, as in utils/recovery.util.ts.
+ */
+
+import { gcm } from '@noble/ciphers/aes';
+import { bytesToHex, hexToBytes, randomBytes, utf8ToBytes } from '@noble/hashes/utils';
+import type { AadhaarCheckStatus } from '../services/data/database.types';
+
+// How long an OTP can be used, and how many wrong codes one check allows.
+export const AADHAAR_OTP_TTL_SECONDS = 10 * 60;
+export const MAX_OTP_ATTEMPTS = 3;
+// OTPs one account may request per day, so the endpoint cannot be used
+// to flood someone's phone.
+export const MAX_OTP_REQUESTS_PER_DAY = 5;
+
+const CIPHER_VERSION = 'v1';
+const KEY_BYTES = 32;
+const NONCE_BYTES = 12;
+
+// Verhoeff checksum tables (the check digit UIDAI uses).
+const VERHOEFF_D = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 2, 3, 4, 0, 6, 7, 8, 9, 5],
+  [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+  [3, 4, 0, 1, 2, 8, 9, 5, 6, 7],
+  [4, 0, 1, 2, 3, 9, 5, 6, 7, 8],
+  [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2],
+  [7, 6, 5, 9, 8, 2, 1, 0, 4, 3],
+  [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+  [9, 8, 7, 6, 5, 4, 3, 2, 1, 0]
+];
+const VERHOEFF_P = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 5, 7, 6, 2, 8, 3, 0, 9, 4],
+  [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+  [8, 9, 1, 6, 0, 4, 3, 5, 2, 7],
+  [9, 4, 5, 3, 1, 2, 6, 8, 7, 0],
+  [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 6, 4, 1, 5],
+  [7, 0, 4, 6, 9, 1, 3, 2, 5, 8]
+];
+
+function verhoeffValid(digits: string): boolean {
+  let check = 0;
+  const reversed = digits.split('').reverse();
+  reversed.forEach((digit, i) => {
+    check = VERHOEFF_D[check][VERHOEFF_P[i % 8][Number(digit)]];
+  });
+  return check === 0;
+}
+
+// Digits only, so "2345 6789 0124" and "2345-6789-0124" are the same number.
+export function normalizeAadhaar(input: string): string {
+  return String(input || '').replace(/[\s-]/g, '');
+}
+
+/*
+ * aadhaarNumberError
+ * - Why `number` cannot be an Aadhaar number, or null when it can: twelve
+ *   digits, not starting with 0 or 1, with a valid Verhoeff check digit.
+ * - Catches typos before an OTP is requested; only the provider can say
+ *   whether the number exists.
+ */
+export function aadhaarNumberError(number: string): string | null {
+  if (!/^\d{12}$/.test(number)) return 'Enter the 12 digits of your Aadhaar number.';
+  if (/^[01]/.test(number)) return 'Aadhaar numbers do not start with 0 or 1.';
+  if (!verhoeffValid(number)) return 'That Aadhaar number is not valid. Please check it.';
+  return null;
+}
+
+export function isOtp(otp: string): boolean {
+  return /^\d{6}$/.test(otp);
+}
+
+export function lastFour(number: string): string {
+  return number.slice(-4);
+}
+
+// How the app shows a verified number: only the last four digits.
+export function maskAadhaar(last4: string | null | undefined): string {
+  return `XXXX XXXX ${last4 || '????'}`;
+}
+
+export type OtpCheck = {
+  status: AadhaarCheckStatus;
+  attempts: number;
+  otp_expires_at: string;
+};
+
+/*
+ * otpCheckState
+ * - Whether a code can still be submitted for `check` at `now`. A check
+ *   still marked otp_sent can have run out of time or attempts; the
+ *   caller records that.
+ */
+export function otpCheckState(check: OtpCheck, now: Date = new Date()): 'open' | 'verified' | 'expired' | 'locked' {
+  if (check.status === 'verified') return 'verified';
+  if (check.status === 'failed' || check.attempts >= MAX_OTP_ATTEMPTS) return 'locked';
+  if (check.status === 'expired' || new Date(check.otp_expires_at).getTime() <= now.getTime()) return 'expired';
+  return 'open';
+}
+
+export function otpExpiry(now: Date = new Date()): string {
+  return new Date(now.getTime() + AADHAAR_OTP_TTL_SECONDS * 1000).toISOString();
+}
+
+// Parse a 64-hex-digit key; null when it is missing or malformed.
+export function parseEncryptionKey(hex: string | null | undefined): Uint8Array | null {
+  if (!hex || !new RegExp(`^[0-9a-fA-F]{${KEY_BYTES * 2}}$`).test(hex)) return null;
+  return hexToBytes(hex);
+}
+
+export function encryptAadhaar(number: string, key: Uint8Array): string {
+  const nonce = randomBytes(NONCE_BYTES);
+  const ciphertext = gcm(key, nonce).encrypt(utf8ToBytes(number));
+  return [CIPHER_VERSION, bytesToHex(nonce), bytesToHex(ciphertext)].join('$');
+}
+
+// Throws when `stored` was not written by encryptAadhaar with `key`.
+export function decryptAadhaar(stored: string, key: Uint8Array): string {
+  const [version, nonce, ciphertext] = String(stored || '').split('$');
+  if (version !== CIPHER_VERSION || !nonce || !ciphertext) {
+    throw new Error('Unrecognised Aadhaar ciphertext');
+  }
+  const plain = gcm(key, hexToBytes(nonce)).decrypt(hexToBytes(ciphertext));
+  return new TextDecoder().decode(plain);
+}
@@ -0,0 +1,74 @@
+/*
+ * utils/document.util.test.ts
+ *
+ * Purpose: data room access, storage paths, version history and PDF
+ * watermarking. Run with `npm test`.
+ */
+
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { PDFDocument } from 'pdf-lib';
+import {
+  canOpenDocument,
+  dataRoomAccess,
+  documentPath,
+  safeFileName,
+  versionHistory,
+  watermarkText
+} from './document.util';
+import { watermarkPdf } from './watermark.util';
+
+const stranger = { isOwner: false, isAdmin: false, interestStatus: null };
+
+test('the data room opens once the startup has been in touch', () => {
+  assert.equal(dataRoomAccess(stranger), 'public');
+  assert.equal(dataRoomAccess({ ...stranger, interestStatus: 'pending' }), 'public');
+  assert.equal(dataRoomAccess({ ...stranger, interestStatus: 'contacted' }), 'full');
+  assert.equal(dataRoomAccess({ ...stranger, isAdmin: true }), 'full');
+});
+
+test('replaced versions are only for the startup and admins', () => {
+  const current = { is_public: false, superseded_at: null };
+  const replaced = { is_public: true, superseded_at: '2025-02-01T00:00:00.000Z' };
+  const investor = { ...stranger, interestStatus: 'invested' as const };
+
+  assert.equal(canOpenDocument(current, stranger), false);
+  assert.equal(canOpenDocument(current, investor), true);
+  assert.equal(canOpenDocument(replaced, investor), false);
+  assert.equal(canOpenDocument(replaced, { ...stranger, isOwner: true }), true);
+});
+
+test('file names are made safe for storage paths', () => {
+  assert.equal(safeFileName('../../etc/Q3 financials (final).pdf'), 'Q3-financials-final.pdf');
+  assert.equal(safeFileName('टीम.pdf'), 'document.pdf');
+  assert.equal(safeFileName(''), 'document');
+  assert.equal(documentPath('c1', 'd1', 'Deck v2.pdf'), 'c1/d1/Deck-v2.pdf');
+});
+
+test('version history follows previous versions newest first', () => {
+  const v1 = { id: 'a', previous_version_id: null };
+  const v2 = { id: 'b', previous_version_id: 'a' };
+  const v3 = { id: 'c', previous_version_id: 'b' };
+  const other = { id: 'x', previous_version_id: null };
+  assert.deepEqual(versionHistory(v3, [v1, other, v2, v3]).map(d => d.id), ['c', 'b', 'a']);
+  assert.deepEqual(versionHistory(v1, [v1, v2, v3]).map(d => d.id), ['a']);
+});
+
+test('watermarks name the viewer in plain ASCII', () => {
+  const text = watermarkText(
+    { name: 'Meera Iyer', email: 'meera@angels.local' },
+    new Date('2025-03-04T05:06:07Z'),
+    '0123456789abcdef'
+  );
+  assert.equal(text, 'Confidential - shared with Meera Iyer <meera@angels.local> - 2025-03-04 05:06 UTC - ref 01234567');
+  assert.match(watermarkText({ name: 'मीरा', email: null }, new Date(0), 'r'), /shared with \?\?\?\? -/);
+});
+
+test('watermarked PDFs keep their pages and carry the text', async () => {
+  const source = await PDFDocument.create();
+  source.addPage([595, 842]);
+  source.addPage([842, 595]);
+  const stamped = await PDFDocument.load(await watermarkPdf(await source.save(), 'Confidential - test'));
+  assert.equal(stamped.getPageCount(), 2);
+  assert.equal(stamped.getSubject(), 'Confidential - test');
+});
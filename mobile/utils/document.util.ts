@@ -0,0 +1,122 @@
+/*
+ * utils/document.util.ts
+ *
+ * Purpose: the rules of a campaign's data room that both the app and
+ * server/openCampaignDocument.ts need: who may open a document, where
+ * files live in storage, how versions chain together and what is
+ * stamped on a viewer's copy. Kept free of I/O so they can be tested.
+ *
+ * The access rule matches the "Campaign documents access" policy in
+ * db/fundraising_system.sql; keep the two in sync.
+ */
+
+import type { CampaignDocumentRow, CampaignDocumentType, InterestStatus } from '../services/data/database.types';
+
+export const DOCUMENT_BUCKET = 'campaign-documents';
+
+// Matches the bucket's file_size_limit in db/campaign_data_room.sql.
+export const MAX_DOCUMENT_BYTES = 25 * 1024 * 1024;
+
+// How long a link handed out by open-campaign-document works.
+export const DOCUMENT_LINK_TTL_SECONDS = 10 * 60;
+
+export const DOCUMENT_TYPE_LABELS: Record<CampaignDocumentType, string> = {
+  pitch_deck: 'Pitch deck',
+  business_plan: 'Business plan',
+  financials: 'Financials',
+  legal: 'Legal',
+  other: 'Other'
+};
+
+// Interest stages that open the whole data room: the startup has been
+// in touch with the investor.
+export const DATA_ROOM_STAGES: InterestStatus[] = ['contacted', 'meeting_scheduled', 'invested'];
+
+export type DocumentViewer = {
+  isOwner: boolean;
+  isAdmin: boolean;
+  // The viewer's interest in the campaign, if they have one.
+  interestStatus: InterestStatus | null;
+};
+
+// 'full' sees every document, 'public' only the public ones.
+export function dataRoomAccess(viewer: DocumentViewer): 'full' | 'public' {
+  if (viewer.isOwner || viewer.isAdmin) return 'full';
+  return viewer.interestStatus && DATA_ROOM_STAGES.includes(viewer.interestStatus) ? 'full' : 'public';
+}
+
+/*
+ * canOpenDocument
+ * - Replaced versions are kept for the startup (and admins) only;
+ *   everyone else gets the current one.
+ */
+export function canOpenDocument(
+  document: Pick<CampaignDocumentRow, 'is_public' | 'superseded_at'>,
+  viewer: DocumentViewer
+): boolean {
+  if (viewer.isOwner || viewer.isAdmin) return true;
+  if (document.superseded_at) return false;
+  return !!document.is_public || dataRoomAccess(viewer) === 'full';
+}
+
+// A file name that is safe as the last part of a storage path.
+export function safeFileName(name: string): string {
+  const base = (name.split(/[\\/]/).pop() || '').trim();
+  const cleaned = base.replace(/\s+/g, '-').replace(/[^A-Za-z0-9._-]/g, '').slice(-100);
+  // Nothing left of the name but its extension, e.g. a non-Latin name.
+  return !cleaned || cleaned.startsWith('.') ? `document${cleaned}` : cleaned;
+}
+
+// <campaign id>/<document id>/<file name>; the storage policies read the
+// campaign id from the first folder.
+export function documentPath(campaignId: string, documentId: string, fileName: string): string {
+  return `${campaignId}/${documentId}/${safeFileName(fileName)}`;
+}
+
+// The watermarked copy handed to one viewer. Each new access overwrites it.
+export function viewerCopyPath(document: Pick<CampaignDocumentRow, 'id' | 'campaign_id'>, viewerId: string): string {
+  return `${document.campaign_id}/${document.id}/viewers/${viewerId}.pdf`;
+}
+
+export function isPdf(contentType: string | null, fileName: string): boolean {
+  return contentType === 'application/pdf' || /\.pdf$/i.test(fileName);
+}
+
+// How a viewer appears in the access log and on their copy.
+export function viewerLabel(viewer: { name: string; email: string | null }): string {
+  return viewer.email && viewer.email !== viewer.name ? `${viewer.name} <${viewer.email}>` : viewer.name;
+}
+
+/*
+ * watermarkText
+ * - The line stamped on every page of a viewer's copy. The standard
+ *   PDF fonts cannot draw most scripts, so anything outside printable
+ *   ASCII is replaced.
+ */
+export function watermarkText(viewer: { name: string; email: string | null }, at: Date, reference: string): string {
+  const when = at.toISOString().slice(0, 16).replace('T', ' ');
+  return `Confidential - shared with ${viewerLabel(viewer)} - ${when} UTC - ref ${reference.slice(0, 8)}`.replace(/[^\x20-\x7E]/g, '?');
+}
+
+/*
+ * versionHistory
+ * - `document` and the versions it replaced, newest first, found among
+ *   `all` (a campaign's documents).
+ */
+export function versionHistory<T extends Pick<CampaignDocumentRow, 'id' | 'previous_version_id'>>(document: T, all: T[]): T[] {
+  const byId = new Map(all.map(d => [d.id, d]));
+  const history: T[] = [document];
+  let previous = document.previous_version_id ? byId.get(document.previous_version_id) : undefined;
+  while (previous && !history.includes(previous)) {
+    history.push(previous);
+    previous = previous.previous_version_id ? byId.get(previous.previous_version_id) : undefined;
+  }
+  return history;
+}
+
+export function formatFileSize(bytes: number | null): string {
+  if (!bytes) return '';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,48 @@
+/*
+ * utils/gst.util.test.ts
+ *
+ * Purpose: GSTIN structure, check character and the PAN cross-check.
+ * Run with `npm test`.
+ */
+
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { checkGstin, gstinCheckCharacter, gstinPanMismatch } from './gst.util';
+
+const VALID = '27AAPFU0939F1ZV';
+
+test('the check character is mod 36 over the first fourteen', () => {
+  assert.equal(gstinCheckCharacter('27AAPFU0939F1Z'), 'V');
+  assert.equal(gstinCheckCharacter('29AAGCG1234K1Z'), 'J');
+  assert.equal(gstinCheckCharacter('27aapfu'), null);
+});
+
+test('a valid GSTIN is split into state, PAN and entity code', () => {
+  const check = checkGstin(' 27aapfu0939f1zv ');
+  if (check.valid === false) return assert.fail(check.error);
+  assert.equal(check.gstin, VALID);
+  assert.equal(check.stateName, 'Maharashtra');
+  assert.equal(check.pan, 'AAPFU0939F');
+  assert.equal(check.entityCode, '1');
+});
+
+test('each part of a GSTIN is checked', () => {
+  const error = (input: string) => {
+    const check = checkGstin(input);
+    return check.valid === false ? check.error : null;
+  };
+  assert.match(error('27AAPFU0939F1Z')!, /15 characters/);
+  assert.match(error('27AAPFU0939F1Z-')!, /letters and digits/);
+  assert.match(error('40AAPFU0939F1ZV')!, /40 is not a GST state code/);
+  assert.match(error('27AAPXU0939F1ZV')!, /must be a PAN/);
+  assert.match(error('27AAPFU0939F0ZV')!, /entity code/);
+  assert.match(error('27AAPFU0939F1YV')!, /must be Z/);
+  assert.match(error('27AAPFU0939F1ZW')!, /not valid/);
+});
+
+test('the PAN inside the GSTIN must match the profile PAN', () => {
+  assert.equal(gstinPanMismatch(VALID, 'aapfu0939f'), null);
+  assert.equal(gstinPanMismatch(VALID, ''), null);
+  assert.equal(gstinPanMismatch('27AAPFU0939F1ZW', 'AAGCG1234K'), null);
+  assert.match(gstinPanMismatch(VALID, 'AAGCG1234K')!, /belongs to PAN AAPFU0939F, not AAGCG1234K/);
+});
@@ -0,0 +1,137 @@
+/*
+ * utils/gst.util.ts
+ *
+ * Purpose: check a GSTIN (GST identification number) without a network
+ * call. A GSTIN has 15 characters:
+ *
+ *   27 AAPFU0939F 1 Z V
+ *   |  |          | | └ check character (mod 36 over the first 14)
+ *   |  |          | └── always 'Z' for now
+ *   |  |          └──── entity code: the holder's nth registration in the
+ *   |  |                state, 1-9 then A-Z
+ *   |  └─────────────── the holder's PAN
+ *   └────────────────── state code
+ *
+ * Shared by the profile form, services/verification/gst.service.ts and
+ * the lookup-gstin server function.
+ */
+
+// GST state and union territory codes. 25 and 28 are kept for
+// registrations made before Daman and Diu merged into 26 and before
+// Andhra Pradesh moved to 37.
+export const GST_STATE_CODES: Record<string, string> = {
+  '01': 'Jammu and Kashmir',
+  '02': 'Himachal Pradesh',
+  '03': 'Punjab',
+  '04': 'Chandigarh',
+  '05': 'Uttarakhand',
+  '06': 'Haryana',
+  '07': 'Delhi',
+  '08': 'Rajasthan',
+  '09': 'Uttar Pradesh',
+  '10': 'Bihar',
+  '11': 'Sikkim',
+  '12': 'Arunachal Pradesh',
+  '13': 'Nagaland',
+  '14': 'Manipur',
+  '15': 'Mizoram',
+  '16': 'Tripura',
+  '17': 'Meghalaya',
+  '18': 'Assam',
+  '19': 'West Bengal',
+  '20': 'Jharkhand',
+  '21': 'Odisha',
+  '22': 'Chhattisgarh',
+  '23': 'Madhya Pradesh',
+  '24': 'Gujarat',
+  '25': 'Daman and Diu',
+  '26': 'Dadra and Nagar Haveli and Daman and Diu',
+  '27': 'Maharashtra',
+  '28': 'Andhra Pradesh (old)',
+  '29': 'Karnataka',
+  '30': 'Goa',
+  '31': 'Lakshadweep',
+  '32': 'Kerala',
+  '33': 'Tamil Nadu',
+  '34': 'Puducherry',
+  '35': 'Andaman and Nicobar Islands',
+  '36': 'Telangana',
+  '37': 'Andhra Pradesh',
+  '38': 'Ladakh',
+  '97': 'Other Territory',
+  '99': 'Centre Jurisdiction'
+};
+
+const CHARSET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+// Three letters, the holder type (P person, C company, F firm, ...),
+// the first letter of the name, four digits and a check letter.
+const PAN_PATTERN = /^[A-Z]{3}[ABCFGHJLPT][A-Z][0-9]{4}[A-Z]$/;
+
+export type GstinCheck =
+  | { valid: true; gstin: string; stateCode: string; stateName: string; pan: string; entityCode: string }
+  | { valid: false; gstin: string; error: string };
+
+// Upper-cased, with the spaces people paste removed.
+export function normalizeGstin(input: string | null | undefined): string {
+  return String(input ?? '').replace(/\s+/g, '').toUpperCase();
+}
+
+/*
+ * gstinCheckCharacter(first14)
+ * - Weights alternate 1, 2 from the left; each product is split into its
+ *   base-36 digits, which are summed. Returns null if a character is not
+ *   0-9 or A-Z.
+ */
+export function gstinCheckCharacter(first14: string): string | null {
+  let sum = 0;
+  for (let i = 0; i < first14.length; i++) {
+    const value = CHARSET.indexOf(first14[i]);
+    if (value < 0) return null;
+    const product = value * (i % 2 === 0 ? 1 : 2);
+    sum += Math.floor(product / 36) + (product % 36);
+  }
+  return CHARSET[(36 - (sum % 36)) % 36];
+}
+
+/*
+ * checkGstin(input)
+ * - Reports the first problem it finds, in the order the characters
+ *   appear, so the message points at the part to fix.
+ */
+export function checkGstin(input: string | null | undefined): GstinCheck {
+  const gstin = normalizeGstin(input);
+  const fail = (error: string): GstinCheck => ({ valid: false, gstin, error });
+
+  if (gstin.length !== 15) return fail('GSTIN must be 15 characters.');
+  if (!/^[0-9A-Z]{15}$/.test(gstin)) return fail('GSTIN can only contain letters and digits.');
+
+  const stateCode = gstin.slice(0, 2);
+  const stateName = GST_STATE_CODES[stateCode];
+  if (!stateName) return fail(`${stateCode} is not a GST state code.`);
+
+  const pan = gstin.slice(2, 12);
+  if (!PAN_PATTERN.test(pan)) return fail('Characters 3 to 12 must be a PAN, e.g. AAPFU0939F.');
+
+  const entityCode = gstin[12];
+  if (entityCode === '0') return fail('The 13th character (entity code) cannot be 0.');
+  if (gstin[13] !== 'Z') return fail('The 14th character must be Z.');
+  if (gstinCheckCharacter(gstin.slice(0, 14)) !== gstin[14]) {
+    return fail('This GSTIN is not valid. Check it for typos.');
+  }
+
+  return { valid: true, gstin, stateCode, stateName, pan, entityCode };
+}
+
+/*
+ * gstinPanMismatch(gstin, pan)
+ * - An error when the PAN inside a valid GSTIN differs from the PAN on
+ *   the profile. Null when they match or either is missing or invalid;
+ *   those have their own messages.
+ */
+export function gstinPanMismatch(gstin: string | null | undefined, pan: string | null | undefined): string | null {
+  const check = checkGstin(gstin);
+  const profilePan = String(pan ?? '').trim().toUpperCase();
+  if (check.valid === false || !profilePan) return null;
+  return check.pan === profilePan ? null : `This GSTIN belongs to PAN ${check.pan}, not ${profilePan}.`;
+}
@@ -0,0 +1,150 @@
+/*
+ * utils/ics.util.test.ts
+ *
+ * Purpose: .ics export and import, and the time zone conversions meeting
+ * slots rely on, including the daylight-saving edges. Run with
+ * `npm test`.
+ */
+
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { buildIcs, parseIcs, parseIcsDuration } from './ics.util';
+import { formatInTimeZone, timeZoneOffsetMinutes, utcToZonedTime, zonedTimeToUtc } from './timezone.util';
+
+const iso = (d: Date | null) => d?.toISOString();
+
+test('zonedTimeToUtc converts wall time in a fixed-offset zone', () => {
+  assert.equal(iso(zonedTimeToUtc({ date: '2025-11-04', time: '10:30' }, 'Asia/Kolkata')), '2025-11-04T05:00:00.000Z');
+  assert.equal(iso(zonedTimeToUtc({ date: '2025-11-04', time: '10:30' }, 'UTC')), '2025-11-04T10:30:00.000Z');
+});
+
+test('zonedTimeToUtc follows daylight saving', () => {
+  // New York is UTC-4 in July and UTC-5 in December.
+  assert.equal(iso(zonedTimeToUtc({ date: '2025-07-01', time: '09:00' }, 'America/New_York')), '2025-07-01T13:00:00.000Z');
+  assert.equal(iso(zonedTimeToUtc({ date: '2025-12-01', time: '09:00' }, 'America/New_York')), '2025-12-01T14:00:00.000Z');
+});
+
+test('zonedTimeToUtc resolves skipped and repeated wall times', () => {
+  // 02:30 does not exist on 9 March 2025 in New York; it is read as 03:30 EDT.
+  assert.equal(iso(zonedTimeToUtc({ date: '2025-03-09', time: '02:30' }, 'America/New_York')), '2025-03-09T07:30:00.000Z');
+  // 01:30 happens twice on 2 November 2025; the first (EDT) is used.
+  assert.equal(iso(zonedTimeToUtc({ date: '2025-11-02', time: '01:30' }, 'America/New_York')), '2025-11-02T05:30:00.000Z');
+});
+
+test('zonedTimeToUtc rejects malformed input', () => {
+  assert.equal(zonedTimeToUtc({ date: '2025-02-30', time: '10:00' }, 'UTC'), null);
+  assert.equal(zonedTimeToUtc({ date: '2025-02-10', time: '25:00' }, 'UTC'), null);
+  assert.equal(zonedTimeToUtc({ date: '10/02/2025', time: '10:00' }, 'UTC'), null);
+});
+
+test('utcToZonedTime and offsets round-trip', () => {
+  const instant = new Date('2025-11-04T05:00:00Z');
+  assert.deepEqual(utcToZonedTime(instant, 'Asia/Kolkata'), { date: '2025-11-04', time: '10:30' });
+  assert.deepEqual(utcToZonedTime(instant, 'America/Los_Angeles'), { date: '2025-11-03', time: '21:00' });
+  assert.equal(timeZoneOffsetMinutes(instant, 'Asia/Kolkata'), 330);
+  assert.match(formatInTimeZone(instant, 'Asia/Kolkata'), /10:30/);
+});
+
+test('buildIcs writes UTC times, escaped text, alarms and CRLF lines', () => {
+  const ics = buildIcs(
+    [
+      {
+        uid: 'slot-1@incubs',
+        start: new Date('2025-11-04T05:00:00Z'),
+        end: new Date('2025-11-04T05:45:00Z'),
+        summary: 'GreenRoots, Meera Iyer; intro',
+        description: 'Seed round\nAgenda: traction',
+        location: 'https://meet.example.com/abc'
+      }
+    ],
+    { now: new Date('2025-10-01T00:00:00Z'), alarmMinutesBefore: [1440, 30] }
+  );
+
+  assert.ok(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n'));
+  assert.ok(ics.endsWith('END:VCALENDAR\r\n'));
+  assert.ok(ics.includes('DTSTART:20251104T050000Z\r\n'));
+  assert.ok(ics.includes('DTEND:20251104T054500Z\r\n'));
+  assert.ok(ics.includes('SUMMARY:GreenRoots\\, Meera Iyer\\; intro\r\n'));
+  assert.ok(ics.includes('DESCRIPTION:Seed round\\nAgenda: traction\r\n'));
+  assert.ok(ics.includes('TRIGGER:-P1D\r\n'));
+  assert.ok(ics.includes('TRIGGER:-PT30M\r\n'));
+});
+
+test('buildIcs folds long lines without splitting characters', () => {
+  const summary = 'ग'.repeat(60);
+  const ics = buildIcs([{ uid: 'u', start: new Date(0), end: new Date(60000), summary }], { alarmMinutesBefore: [] });
+  for (const line of ics.split('\r\n')) {
+    assert.ok(Buffer.byteLength(line, 'utf8') <= 75, line);
+  }
+  assert.equal(parseIcs(ics, 'UTC')[0].summary, summary);
+});
+
+test('parseIcs round-trips an exported event and ignores alarm properties', () => {
+  const event = {
+    uid: 'slot-2@incubs',
+    start: new Date('2025-11-04T05:00:00Z'),
+    end: new Date('2025-11-04T06:00:00Z'),
+    summary: 'Pitch, follow-up',
+    description: 'Line one\nLine two',
+    location: 'Bengaluru; Koramangala'
+  };
+  const [parsed] = parseIcs(buildIcs([event]), 'America/New_York');
+  assert.deepEqual(parsed, event);
+});
+
+test('parseIcs reads TZID, floating and all-day values', () => {
+  const ics = [
+    'BEGIN:VCALENDAR',
+    'BEGIN:VEVENT',
+    'UID:a',
+    'DTSTART;TZID="Asia/Kolkata":20251104T103000',
+    'DURATION:PT45M',
+    'SUMMARY:With zone',
+    'END:VEVENT',
+    'BEGIN:VEVENT',
+    'UID:b',
+    'DTSTART:20251105T090000',
+    'DTEND:20251105T093000',
+    'SUMMARY:Floating',
+    'END:VEVENT',
+    'BEGIN:VEVENT',
+    'UID:c',
+    'DTSTART;VALUE=DATE:20251106',
+    'SUMMARY:All day',
+    'END:VEVENT',
+    'END:VCALENDAR'
+  ].join('\n');
+
+  const [zoned, floating, allDay] = parseIcs(ics, 'Europe/London');
+  assert.equal(iso(zoned.start), '2025-11-04T05:00:00.000Z');
+  assert.equal(iso(zoned.end), '2025-11-04T05:45:00.000Z');
+  // London is on GMT in November.
+  assert.equal(iso(floating.start), '2025-11-05T09:00:00.000Z');
+  assert.equal(allDay.allDay, true);
+  assert.equal(allDay.end.getTime() - allDay.start.getTime(), 86400000);
+});
+
+test('parseIcs falls back for an unknown TZID and skips events without a start', () => {
+  const ics = [
+    'BEGIN:VEVENT',
+    'DTSTART;TZID=India Standard Time:20251104T103000',
+    'DTEND;TZID=India Standard Time:20251104T110000',
+    'END:VEVENT',
+    'BEGIN:VEVENT',
+    'SUMMARY:No start',
+    'END:VEVENT'
+  ].join('\r\n');
+
+  const events = parseIcs(ics, 'Asia/Kolkata');
+  assert.equal(events.length, 1);
+  assert.equal(iso(events[0].start), '2025-11-04T05:00:00.000Z');
+  assert.equal(events[0].uid, 'imported-0');
+});
+
+test('parseIcsDuration', () => {
+  assert.equal(parseIcsDuration('PT1H30M'), 90 * 60000);
+  assert.equal(parseIcsDuration('P1DT2H'), 26 * 3600000);
+  assert.equal(parseIcsDuration('P1W'), 7 * 86400000);
+  assert.equal(parseIcsDuration('P'), null);
+  assert.equal(parseIcsDuration('1 hour'), null);
+});
@@ -0,0 +1,275 @@
+/*
+ * utils/ics.util.ts
+ *
+ * Purpose: write and read iCalendar (.ics, RFC 5545) files for meetings.
+ * Exported events use UTC times, so every calendar app places them
+ * correctly whatever the reader's zone, and carry reminder alarms.
+ * Imports accept the forms calendar apps actually produce: UTC times,
+ * times with a TZID, floating times (read in a fallback zone), all-day
+ * dates, and DTEND or DURATION.
+ */
+
+import { zonedTimeToUtc } from './timezone.util';
+
+export type IcsEvent = {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  location?: string;
+  // Set on import for VALUE=DATE events, which have no time of day.
+  allDay?: boolean;
+};
+
+export type IcsBuildOptions = {
+  // A reminder this many minutes before each event. Defaults to a day
+  // and half an hour before.
+  alarmMinutesBefore?: number[];
+  // DTSTAMP; defaults to now.
+  now?: Date;
+};
+
+export const DEFAULT_ALARM_MINUTES = [24 * 60, 30];
+
+const PRODUCT_ID = '-//Incubs//Meetings//EN';
+const MAX_LINE_OCTETS = 75;
+
+function pad(n: number, width = 2): string {
+  return String(n).padStart(width, '0');
+}
+
+// 20251104T050000Z
+export function formatIcsUtc(date: Date): string {
+  return (
+    `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`
+  );
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, c: string) => (c === 'n' || c === 'N' ? '\n' : c));
+}
+
+function utf8Length(char: string): number {
+  const code = char.codePointAt(0) ?? 0;
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  if (code < 0x10000) return 3;
+  return 4;
+}
+
+// Lines longer than 75 octets continue on the next line after a space,
+// without splitting a multi-byte character.
+function foldLine(line: string): string {
+  const out: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = utf8Length(char);
+    const limit = out.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      out.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  out.push(current);
+  return out.join('\r\n ');
+}
+
+function alarmTrigger(minutes: number): string {
+  if (minutes % (24 * 60) === 0) return `-P${minutes / (24 * 60)}D`;
+  if (minutes % 60 === 0) return `-PT${minutes / 60}H`;
+  return `-PT${minutes}M`;
+}
+
+/*
+ * buildIcs
+ * - One VCALENDAR holding `events`, with CRLF line endings and folded
+ *   lines as the RFC requires.
+ */
+export function buildIcs(events: IcsEvent[], options: IcsBuildOptions = {}): string {
+  const stamp = formatIcsUtc(options.now ?? new Date());
+  const alarms = options.alarmMinutesBefore ?? DEFAULT_ALARM_MINUTES;
+
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${PRODUCT_ID}`, 'CALSCALE:GREGORIAN', 'METHOD:PUBLISH'];
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatIcsUtc(event.start)}`,
+      `DTEND:${formatIcsUtc(event.end)}`,
+      `SUMMARY:${escapeText(event.summary)}`
+    );
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+    for (const minutes of alarms) {
+      lines.push(
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        `DESCRIPTION:${escapeText(event.summary)}`,
+        `TRIGGER:${alarmTrigger(minutes)}`,
+        'END:VALARM'
+      );
+    }
+    lines.push('END:VEVENT');
+  }
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+type Property = { name: string; params: Record<string, string>; value: string };
+
+function unfold(text: string): string[] {
+  return text.replace(/\r\n?/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+}
+
+function parseProperty(line: string): Property | null {
+  // The value starts at the first colon outside a quoted parameter.
+  let inQuotes = false;
+  let split = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ':' && !inQuotes) {
+      split = i;
+      break;
+    }
+  }
+  if (split < 0) return null;
+
+  const [name, ...rawParams] = line.slice(0, split).split(';');
+  const params: Record<string, string> = {};
+  for (const raw of rawParams) {
+    const eq = raw.indexOf('=');
+    if (eq > 0) params[raw.slice(0, eq).toUpperCase()] = raw.slice(eq + 1).replace(/^"|"$/g, '');
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(split + 1) };
+}
+
+/*
+ * parseIcsDate
+ * - One DTSTART/DTEND value as an instant. UTC values ('Z') are exact;
+ *   values with a TZID are read in that zone, and floating values (or an
+ *   unknown TZID) in `fallbackTimeZone`. All-day dates are midnight in
+ *   `fallbackTimeZone`.
+ */
+function parseIcsDate(prop: Property, fallbackTimeZone: string): { date: Date; allDay: boolean } | null {
+  const value = prop.value.trim();
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/.exec(value);
+  if (!match) return null;
+
+  const [, y, mo, d, h, mi, s, utc] = match;
+  const date = `${y}-${mo}-${d}`;
+  if (h === undefined) {
+    const start = zonedTimeToUtc({ date, time: '00:00' }, fallbackTimeZone);
+    return start ? { date: start, allDay: true } : null;
+  }
+  if (utc) {
+    return { date: new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi, +(s ?? 0))), allDay: false };
+  }
+
+  let zone = prop.params.TZID || fallbackTimeZone;
+  let instant = zonedTimeToUtc({ date, time: `${h}:${mi}` }, zone);
+  if (!instant && zone !== fallbackTimeZone) {
+    zone = fallbackTimeZone;
+    instant = zonedTimeToUtc({ date, time: `${h}:${mi}` }, zone);
+  }
+  return instant ? { date: new Date(instant.getTime() + Number(s ?? 0) * 1000), allDay: false } : null;
+}
+
+// ISO 8601 duration as used by iCalendar: P1W, P1D, PT1H30M, P1DT2H.
+export function parseIcsDuration(value: string): number | null {
+  const match = /^[+-]?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!match || value.trim().replace(/^[+-]/, '') === 'P') return null;
+  const [, w, d, h, m, s] = match.map(part => Number(part ?? 0));
+  return ((((w * 7 + d) * 24 + h) * 60 + m) * 60 + s) * 1000;
+}
+
+/*
+ * parseIcs
+ * - The VEVENTs in `text`. Events without a readable DTSTART are
+ *   skipped. Without DTEND or DURATION, an all-day event lasts a day and
+ *   a timed event ends when it starts.
+ */
+export function parseIcs(text: string, fallbackTimeZone: string): IcsEvent[] {
+  const events: IcsEvent[] = [];
+  let current: Property[] | null = null;
+  // Depth inside the VEVENT, so VALARM properties are not read as the
+  // event's own.
+  let nested = 0;
+
+  for (const line of unfold(text)) {
+    const prop = parseProperty(line.trim());
+    if (!prop) continue;
+
+    if (prop.name === 'BEGIN') {
+      if (prop.value.toUpperCase() === 'VEVENT' && !current) {
+        current = [];
+        nested = 0;
+      } else if (current) {
+        nested++;
+      }
+      continue;
+    }
+    if (prop.name === 'END' && current) {
+      if (nested > 0) {
+        nested--;
+        continue;
+      }
+      if (prop.value.toUpperCase() === 'VEVENT') {
+        const event = toEvent(current, fallbackTimeZone, events.length);
+        if (event) events.push(event);
+        current = null;
+      }
+      continue;
+    }
+    if (current && nested === 0) current.push(prop);
+  }
+  return events;
+}
+
+function toEvent(props: Property[], fallbackTimeZone: string, index: number): IcsEvent | null {
+  const find = (name: string) => props.find(p => p.name === name);
+  const startProp = find('DTSTART');
+  const start = startProp ? parseIcsDate(startProp, fallbackTimeZone) : null;
+  if (!start) return null;
+
+  let end: Date | null = null;
+  const endProp = find('DTEND');
+  const durationProp = find('DURATION');
+  if (endProp) {
+    end = parseIcsDate(endProp, fallbackTimeZone)?.date ?? null;
+  } else if (durationProp) {
+    const ms = parseIcsDuration(durationProp.value);
+    if (ms !== null) end = new Date(start.date.getTime() + ms);
+  }
+  if (!end) {
+    end = start.allDay ? new Date(start.date.getTime() + 86400000) : start.date;
+  }
+
+  const text = (name: string) => {
+    const prop = find(name);
+    return prop ? unescapeText(prop.value) : undefined;
+  };
+  return {
+    uid: text('UID') || `imported-${index}`,
+    start: start.date,
+    end,
+    summary: text('SUMMARY') || '',
+    description: text('DESCRIPTION'),
+    location: text('LOCATION'),
+    ...(start.allDay ? { allDay: true } : {})
+  };
+}
@@ -0,0 +1,57 @@
+/*
+ * utils/investment.util.ts
+ *
+ * Purpose: the rules for a final investment commitment, shared by the
+ * confirm screen (to explain problems before sending) and the
+ * commit-investment server function (which enforces them).
+ */
+
+import type { CampaignRow } from '../services/data/database.types';
+
+export type CommitmentTerms = {
+  amount: number;
+  // Percentage of the company, e.g. 1.5 for 1.5%. Zero for debt raises.
+  equity: number;
+};
+
+/*
+ * validateCommitment
+ * - Returns a message describing the first problem with `terms` for
+ *   this campaign, or null when they are acceptable.
+ * - The amount must fall inside the campaign's investment range; the
+ *   equity cannot exceed what the campaign offers in total.
+ */
+export function validateCommitment(
+  campaign: Pick<CampaignRow, 'min_investment' | 'max_investment' | 'equity_offered' | 'campaign_type'>,
+  terms: CommitmentTerms
+): string | null {
+  const { amount, equity } = terms;
+
+  if (!Number.isFinite(amount) || amount <= 0) {
+    return 'Enter the amount you are investing.';
+  }
+  const min = Number(campaign.min_investment) || 0;
+  if (amount < min) {
+    return `Minimum investment is ₹${min.toLocaleString()}`;
+  }
+  const max = Number(campaign.max_investment) || 0;
+  if (max > 0 && amount > max) {
+    return `Maximum investment is ₹${max.toLocaleString()}`;
+  }
+
+  if (!Number.isFinite(equity) || equity < 0) {
+    return 'Equity must be zero or a positive percentage.';
+  }
+  if (campaign.campaign_type === 'debt') {
+    if (equity > 0) return 'Debt investments do not carry equity.';
+    return null;
+  }
+  if (equity <= 0) {
+    return 'Enter the equity agreed for this investment.';
+  }
+  const offered = Number(campaign.equity_offered) || 0;
+  if (equity > offered) {
+    return `This campaign offers at most ${offered}% equity.`;
+  }
+  return null;
+}
@@ -0,0 +1,81 @@
+/*
+ * utils/kyc.util.test.ts
+ *
+ * Purpose: KYC levels for startups and investors, and the blocks and
+ * messages the policy produces. Run with `npm test`.
+ */
+
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { KycFacts, kycBlockFor, kycBlockMessage, kycLevel, kycSteps } from './kyc.util';
+
+const NOW = new Date('2026-06-01T00:00:00Z');
+
+const startup = (overrides: Partial<KycFacts> = {}): KycFacts => ({
+  subject_type: 'startup',
+  aadhaar_verified: true,
+  pan_status: 'passed',
+  registration_status: 'passed',
+  gstin_status: 'missing',
+  review_status: 'verified',
+  accredited_until: null,
+  ...overrides
+});
+
+const investor = (overrides: Partial<KycFacts> = {}): KycFacts => ({
+  subject_type: 'investor',
+  aadhaar_verified: true,
+  pan_status: null,
+  registration_status: null,
+  gstin_status: null,
+  review_status: 'verified',
+  accredited_until: null,
+  ...overrides
+});
+
+test('a startup is business verified once its identifiers pass and it is reviewed', () => {
+  assert.equal(kycLevel(startup(), NOW), 'business_verified');
+  assert.equal(kycLevel(startup({ registration_status: 'not_applicable' }), NOW), 'business_verified');
+  assert.equal(kycLevel(startup({ gstin_status: 'failed' }), NOW), 'identity_verified');
+  assert.equal(kycLevel(startup({ review_status: 'pending' }), NOW), 'identity_verified');
+  // Each level needs the ones below it.
+  assert.equal(kycLevel(startup({ aadhaar_verified: false }), NOW), 'unverified');
+  // Accreditation is for investors only.
+  assert.equal(kycLevel(startup({ accredited_until: '2027-01-01' }), NOW), 'business_verified');
+});
+
+test('an investor is accredited until the accreditation lapses', () => {
+  assert.equal(kycLevel(investor({ review_status: 'pending' }), NOW), 'identity_verified');
+  assert.equal(kycLevel(investor(), NOW), 'business_verified');
+  assert.equal(kycLevel(investor({ accredited_until: '2026-06-01' }), NOW), 'accredited');
+  assert.equal(kycLevel(investor({ accredited_until: '2026-05-31' }), NOW), 'business_verified');
+  assert.deepEqual(
+    kycSteps(investor(), NOW).map(s => s.step),
+    ['aadhaar', 'review', 'accreditation']
+  );
+});
+
+test('blocks list only the steps the action needs', () => {
+  assert.equal(kycBlockFor('campaign.submit', startup({ review_status: 'pending' }), NOW), null);
+  assert.deepEqual(kycBlockFor('campaign.activate', startup({ pan_status: 'failed', review_status: 'pending' }), NOW), {
+    action: 'campaign.activate',
+    required: 'business_verified',
+    missing: ['pan', 'review']
+  });
+  assert.deepEqual(kycBlockFor('investment.confirm', investor({ aadhaar_verified: false }), NOW)?.missing, ['aadhaar']);
+  // No record yet counts as unverified.
+  assert.deepEqual(kycBlockFor('campaign.submit', null, NOW)?.missing, ['aadhaar']);
+});
+
+test('block messages tell the user what to do, or the admin what is missing', () => {
+  const block = kycBlockFor('investment.confirm', investor({ aadhaar_verified: false, review_status: 'pending' }), NOW)!;
+  assert.equal(
+    kycBlockMessage(block),
+    'To confirm an investment you need to be business verified. Still to do: verify your Aadhaar; have your profile reviewed by an admin.'
+  );
+  const startupBlock = kycBlockFor('campaign.activate', startup({ review_status: 'pending' }), NOW)!;
+  assert.equal(
+    kycBlockMessage(startupBlock, 'startup'),
+    'The startup must be business verified before it can put a campaign live (1 step left).'
+  );
+});
@@ -0,0 +1,143 @@
+/*
+ * utils/kyc.util.ts
+ *
+ * Purpose: KYC levels and the policy that gates actions by level.
+ *
+ *   unverified          nothing checked yet
+ *   identity_verified   Aadhaar verified by OTP
+ *   business_verified   startups: PAN and CIN/LLPIN passed, GSTIN not
+ *                       failing, and an admin has reviewed the profile;
+ *                       investors: an admin has reviewed the profile
+ *   accredited          investors only: accreditation confirmed by an
+ *                       admin and not yet expired
+ *
+ * Each level needs everything below it. The level is worked out from a
+ * kyc_records row (server/kyc.ts keeps those up to date); screens use the
+ * same functions to list what is left to do.
+ */
+
+import type { IdentifierCheckStatus, KycLevel, KycRecordRow } from '../services/data/database.types';
+
+export const KYC_LEVELS: KycLevel[] = ['unverified', 'identity_verified', 'business_verified', 'accredited'];
+
+export const KYC_LEVEL_LABELS: Record<KycLevel, string> = {
+  unverified: 'Not verified',
+  identity_verified: 'Identity verified',
+  business_verified: 'Business verified',
+  accredited: 'Accredited'
+};
+
+// Actions that need a minimum level.
+export type KycAction = 'campaign.submit' | 'campaign.activate' | 'investment.confirm';
+
+export const KYC_POLICY: Record<KycAction, KycLevel> = {
+  'campaign.submit': 'identity_verified',
+  'campaign.activate': 'business_verified',
+  'investment.confirm': 'business_verified'
+};
+
+const ACTION_LABELS: Record<KycAction, string> = {
+  'campaign.submit': 'submit a campaign for review',
+  'campaign.activate': 'put a campaign live',
+  'investment.confirm': 'confirm an investment'
+};
+
+export type KycStep = 'aadhaar' | 'pan' | 'registration' | 'gstin' | 'review' | 'accreditation';
+
+export const KYC_STEP_LABELS: Record<KycStep, string> = {
+  aadhaar: 'Verify your Aadhaar',
+  pan: 'Add a valid PAN to your profile',
+  registration: 'Add a valid CIN or LLPIN to your profile',
+  gstin: 'Fix the GSTIN on your profile, or remove it',
+  review: 'Have your profile reviewed by an admin',
+  accreditation: 'Get your accreditation confirmed by an admin'
+};
+
+// The columns of a kyc_records row the level depends on.
+export type KycFacts = Pick<
+  KycRecordRow,
+  'subject_type' | 'aadhaar_verified' | 'pan_status' | 'registration_status' | 'gstin_status' | 'review_status' | 'accredited_until'
+>;
+
+// What stops an action: the level it needs and the steps still missing.
+export type KycBlock = {
+  action: KycAction;
+  required: KycLevel;
+  missing: KycStep[];
+};
+
+function rank(level: KycLevel | null | undefined): number {
+  return Math.max(0, KYC_LEVELS.indexOf(level ?? 'unverified'));
+}
+
+const passed = (status: IdentifierCheckStatus | null, alsoOk: IdentifierCheckStatus[] = []) =>
+  status === 'passed' || (status !== null && alsoOk.includes(status));
+
+/*
+ * kycSteps(facts, now)
+ * - Every step that applies to the subject, with the level it belongs to
+ *   and whether it is done, lowest level first.
+ */
+export function kycSteps(facts: KycFacts, now: Date = new Date()): { step: KycStep; level: KycLevel; done: boolean }[] {
+  const steps: { step: KycStep; level: KycLevel; done: boolean }[] = [
+    { step: 'aadhaar', level: 'identity_verified', done: Boolean(facts.aadhaar_verified) }
+  ];
+  if (facts.subject_type === 'startup') {
+    steps.push(
+      { step: 'pan', level: 'business_verified', done: passed(facts.pan_status) },
+      { step: 'registration', level: 'business_verified', done: passed(facts.registration_status, ['not_applicable']) },
+      // GST registration is only required above a turnover threshold.
+      { step: 'gstin', level: 'business_verified', done: passed(facts.gstin_status, ['missing']) }
+    );
+  }
+  steps.push({ step: 'review', level: 'business_verified', done: facts.review_status === 'verified' });
+  if (facts.subject_type === 'investor') {
+    const accredited = Boolean(facts.accredited_until) && facts.accredited_until >= now.toISOString().slice(0, 10);
+    steps.push({ step: 'accreditation', level: 'accredited', done: accredited });
+  }
+  return steps;
+}
+
+// The highest level whose steps, and all lower levels' steps, are done.
+export function kycLevel(facts: KycFacts, now: Date = new Date()): KycLevel {
+  const steps = kycSteps(facts, now);
+  let level: KycLevel = 'unverified';
+  for (const candidate of KYC_LEVELS.slice(1)) {
+    const needed = steps.filter(s => rank(s.level) <= rank(candidate));
+    if (!needed.some(s => s.level === candidate) || needed.some(s => !s.done)) break;
+    level = candidate;
+  }
+  return level;
+}
+
+export function meetsLevel(level: KycLevel | null | undefined, required: KycLevel): boolean {
+  return rank(level) >= rank(required);
+}
+
+/*
+ * kycBlockFor(action, facts, now)
+ * - Null when the subject may take the action; otherwise the steps left
+ *   to reach the level it needs. A missing record counts as unverified.
+ */
+export function kycBlockFor(action: KycAction, facts: KycFacts | null, now: Date = new Date()): KycBlock | null {
+  const required = KYC_POLICY[action];
+  if (facts && meetsLevel(kycLevel(facts, now), required)) return null;
+  const missing = facts
+    ? kycSteps(facts, now).filter(s => !s.done && rank(s.level) <= rank(required)).map(s => s.step)
+    : (['aadhaar'] as KycStep[]);
+  return { action, required, missing };
+}
+
+// e.g. "To confirm an investment you need to be business verified. Still
+// to do: verify your Aadhaar; have your profile reviewed by an admin."
+// With `subject` 'startup' it is worded for the admin approving the
+// startup's campaign.
+export function kycBlockMessage(block: KycBlock, subject: 'you' | 'startup' = 'you'): string {
+  const level = KYC_LEVEL_LABELS[block.required].toLowerCase();
+  if (subject === 'startup') {
+    return `The startup must be ${level} before it can ${ACTION_LABELS[block.action]} (${block.missing.length} ${block.missing.length === 1 ? 'step' : 'steps'} left).`;
+  }
+  const steps = block.missing.map(step => KYC_STEP_LABELS[step].charAt(0).toLowerCase() + KYC_STEP_LABELS[step].slice(1));
+  const todo = steps.length > 0 ? ` Still to do: ${steps.join('; ')}.` : '';
+  return `To ${ACTION_LABELS[block.action]} you need to be ${level}.${todo}`;
+}
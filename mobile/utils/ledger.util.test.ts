@@ -0,0 +1,132 @@
+/*
+ * utils/ledger.util.test.ts
+ *
+ * Purpose: ledger postings balance, commitments held in escrow, and
+ * reconciliation against payments, investments and campaign totals. Run
+ * with `npm test`.
+ */
+
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  accountKey,
+  campaignDisbursable,
+  commitmentHeld,
+  commitmentPostings,
+  disbursementPostings,
+  escrow,
+  findLedgerIssues,
+  isBalanced,
+  LedgerFact,
+  LedgerPosting,
+  paymentPostings,
+  platformFee,
+  refundPostings,
+  wallet
+} from './ledger.util';
+import type { LedgerEntryKind } from '../services/data/database.types';
+
+// Facts for one entry, with each account's key standing in for its id.
+function entry(id: string, kind: LedgerEntryKind, postings: LedgerPosting[], refs: Partial<LedgerFact> = {}): LedgerFact[] {
+  return postings.map(({ account, amount }) => ({
+    entry_id: id,
+    entry_kind: kind,
+    investment_id: null,
+    payment_id: null,
+    campaign_id: null,
+    ...refs,
+    account_id: accountKey(account),
+    account_kind: account.kind,
+    account_key: accountKey(account),
+    amount
+  }));
+}
+
+test('every kind of posting balances', () => {
+  assert.equal(isBalanced(commitmentPostings('inv', 'camp', 300000000)), true);
+  assert.equal(isBalanced(paymentPostings('inv', 300000000)), true);
+  assert.equal(isBalanced(refundPostings('inv', 2500)), true);
+  assert.equal(isBalanced(disbursementPostings('camp', 'st', 300000000)), true);
+
+  assert.equal(isBalanced([{ amount: 100 }, { amount: -99 }]), false);
+  assert.equal(isBalanced([{ amount: 0 }, { amount: 0 }]), false);
+  assert.equal(isBalanced([{ amount: 0.5 }, { amount: -0.5 }]), false);
+});
+
+test('disbursements keep the platform fee', () => {
+  assert.equal(platformFee(300000000), 6000000);
+  assert.deepEqual(
+    disbursementPostings('camp', 'st', 10000).map(p => [accountKey(p.account), p.amount]),
+    [
+      ['campaign_escrow:camp', 10000],
+      ['startup_payout:st', -9800],
+      ['platform_fees', -200]
+    ]
+  );
+  // A fee that rounds to nothing gets no line.
+  assert.equal(disbursementPostings('camp', 'st', 20).length, 2);
+});
+
+test('a reversed and re-posted commitment is held in its new campaign', () => {
+  const refs = { investment_id: 'i1' };
+  const facts = [
+    ...entry('e1', 'commitment', commitmentPostings('inv', 'campA', 5000), { ...refs, campaign_id: 'campA' }),
+    ...entry('e2', 'commitment_reversal', commitmentPostings('inv', 'campA', -5000), { ...refs, campaign_id: 'campA' }),
+    ...entry('e3', 'commitment', commitmentPostings('inv', 'campB', 7000), { ...refs, campaign_id: 'campB' })
+  ];
+  assert.deepEqual(commitmentHeld(facts, 'i1'), { campaignId: 'campB', amount: 7000 });
+  assert.equal(commitmentHeld(facts.slice(0, 4), 'i1'), null);
+  assert.equal(commitmentHeld(facts, 'other'), null);
+});
+
+test('disbursable is paid in, less refunds and earlier disbursements', () => {
+  const facts = [
+    ...entry('p1', 'payment', paymentPostings('inv', 10000), { payment_id: 'pay1', campaign_id: 'camp' }),
+    ...entry('r1', 'refund', refundPostings('inv', 2000), { payment_id: 'pay1', campaign_id: 'camp' }),
+    ...entry('d1', 'disbursement', disbursementPostings('camp', 'st', 3000), { campaign_id: 'camp' }),
+    ...entry('p2', 'payment', paymentPostings('inv', 500), { payment_id: 'pay2', campaign_id: 'other' })
+  ];
+  assert.equal(campaignDisbursable(facts, 'camp'), 5000);
+  assert.equal(campaignDisbursable(facts, 'other'), 500);
+});
+
+test('a ledger that matches its records has no issues', () => {
+  const facts = [
+    ...entry('c1', 'commitment', commitmentPostings('inv', 'camp', 300000000), { investment_id: 'i1', campaign_id: 'camp' }),
+    ...entry('p1', 'payment', paymentPostings('inv', 300000000), { payment_id: 'pay1', investment_id: 'i1', campaign_id: 'camp' }),
+    ...entry('r1', 'refund', refundPostings('inv', 1000), { payment_id: 'pay1', investment_id: 'i1', campaign_id: 'camp' })
+  ];
+  const issues = findLedgerIssues(facts, {
+    payments: [{ id: 'pay1', amount: 300000000, status: 'partially_refunded', amount_refunded: 1000 }],
+    investments: [{ id: 'i1', amount: 3000000, status: 'committed', campaign_id: 'camp' }],
+    campaigns: [{ id: 'camp', funding_raised: 3000000 }]
+  });
+  assert.deepEqual(issues, []);
+});
+
+test('reconciliation reports what the ledger is missing or gets wrong', () => {
+  const facts = [
+    ...entry('c1', 'commitment', commitmentPostings('inv', 'camp', 100000), { investment_id: 'i1', campaign_id: 'camp' }),
+    ...entry('p9', 'payment', paymentPostings('inv', 500), { payment_id: 'gone' }),
+    ...entry('bad', 'payment', [{ account: escrow('camp'), amount: 10 }, { account: wallet('inv'), amount: -5 }])
+  ];
+  const issues = findLedgerIssues(facts, {
+    payments: [{ id: 'pay1', amount: 200000, status: 'captured', amount_refunded: 0 }],
+    investments: [
+      { id: 'i1', amount: 2000, status: 'committed', campaign_id: 'camp' },
+      { id: 'i2', amount: 500, status: 'rejected', campaign_id: 'camp' }
+    ],
+    campaigns: [{ id: 'camp', funding_raised: 2000 }]
+  });
+
+  assert.deepEqual(
+    issues.map(i => [i.subject, i.id, i.message, i.expected, i.recorded]),
+    [
+      ['payment', 'pay1', 'Captured amount differs', 200000, 0],
+      ['payment', 'gone', 'No such payment', 0, 500],
+      ['investment', 'i1', 'Committed amount differs', 200000, 100000],
+      ['campaign', 'camp', 'funding_raised differs from the ledger', 100000, 200000],
+      ['entry', 'bad', 'Entry does not balance', 0, 5]
+    ]
+  );
+});
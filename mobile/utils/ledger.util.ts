@@ -0,0 +1,293 @@
+/*
+ * utils/ledger.util.ts
+ *
+ * Purpose: the pure parts of the money ledger (db/ledger.sql): which
+ * accounts each kind of journal entry moves money between, balance sums
+ * and reconciliation against payments, investments and campaign totals.
+ *
+ * Amounts are in paise. A line's amount is positive for a debit and
+ * negative for a credit, and every entry's lines add up to zero. The
+ * accounts the platform holds money for (wallets, escrow, payouts, fees)
+ * therefore carry credit (negative) balances; `heldAmount` flips the sign
+ * for display.
+ *
+ * | Entry               | Debit                 | Credit                        |
+ * |---------------------|-----------------------|-------------------------------|
+ * | commitment          | investor wallet       | campaign escrow               |
+ * | commitment_reversal | the reverse of what the investment's commitments hold |
+ * | payment             | payment gateway       | investor wallet               |
+ * | refund              | investor wallet       | payment gateway               |
+ * | disbursement        | campaign escrow       | startup payout, platform fees |
+ *
+ * A commitment leaves the investor's wallet owing the amount; their
+ * payment settles it. A campaign's `funding_raised` is what its escrow
+ * holds from commitments; what it may disburse is what has been paid in,
+ * less refunds and earlier disbursements.
+ */
+
+import type {
+  CampaignRow,
+  InvestmentRow,
+  LedgerAccountKind,
+  LedgerEntryKind,
+  PaymentRow,
+  PaymentStatus
+} from '../services/data/database.types';
+import { toPaise } from './payment.util';
+
+// The platform's cut of each disbursement, in basis points (1/100 %).
+export const PLATFORM_FEE_BPS = 200;
+
+export const LEDGER_ACCOUNT_LABELS: Record<LedgerAccountKind, string> = {
+  investor_wallet: 'Investor wallet',
+  campaign_escrow: 'Campaign escrow',
+  startup_payout: 'Startup payout',
+  platform_fees: 'Platform fees',
+  payment_gateway: 'Payment gateway'
+};
+
+export const COMMITMENT_KINDS: LedgerEntryKind[] = ['commitment', 'commitment_reversal'];
+
+// Payment statuses in which the money was taken.
+const CAPTURED: PaymentStatus[] = ['captured', 'partially_refunded', 'refunded'];
+
+// An account by what it is for. Platform accounts have no owner.
+export type LedgerAccountRef = { kind: LedgerAccountKind; ownerId?: string | null };
+
+export type LedgerPosting = { account: LedgerAccountRef; amount: number };
+
+// One ledger line with what the journal knows about it, as reconciliation
+// and the balance helpers read it.
+export type LedgerFact = {
+  entry_id: string;
+  entry_kind: LedgerEntryKind;
+  investment_id: string | null;
+  payment_id: string | null;
+  campaign_id: string | null;
+  account_id: string;
+  account_kind: LedgerAccountKind;
+  account_key: string;
+  amount: number;
+};
+
+export type LedgerIssue = {
+  subject: 'payment' | 'investment' | 'campaign' | 'entry';
+  id: string;
+  message: string;
+  expected: number;
+  recorded: number;
+};
+
+export function accountKey({ kind, ownerId }: LedgerAccountRef): string {
+  return ownerId ? `${kind}:${ownerId}` : kind;
+}
+
+export const wallet = (investorId: string): LedgerAccountRef => ({ kind: 'investor_wallet', ownerId: investorId });
+export const escrow = (campaignId: string): LedgerAccountRef => ({ kind: 'campaign_escrow', ownerId: campaignId });
+export const payout = (startupId: string): LedgerAccountRef => ({ kind: 'startup_payout', ownerId: startupId });
+export const PLATFORM_FEES: LedgerAccountRef = { kind: 'platform_fees' };
+export const PAYMENT_GATEWAY: LedgerAccountRef = { kind: 'payment_gateway' };
+
+export function commitmentPostings(investorId: string, campaignId: string, amount: number): LedgerPosting[] {
+  return [
+    { account: wallet(investorId), amount },
+    { account: escrow(campaignId), amount: -amount }
+  ];
+}
+
+export function paymentPostings(investorId: string, amount: number): LedgerPosting[] {
+  return [
+    { account: PAYMENT_GATEWAY, amount },
+    { account: wallet(investorId), amount: -amount }
+  ];
+}
+
+export function refundPostings(investorId: string, amount: number): LedgerPosting[] {
+  return [
+    { account: wallet(investorId), amount },
+    { account: PAYMENT_GATEWAY, amount: -amount }
+  ];
+}
+
+export function platformFee(amount: number, feeBps = PLATFORM_FEE_BPS): number {
+  return Math.round((amount * feeBps) / 10000);
+}
+
+// The fee line is left out when the fee rounds to nothing.
+export function disbursementPostings(campaignId: string, startupId: string, amount: number, feeBps = PLATFORM_FEE_BPS): LedgerPosting[] {
+  const fee = platformFee(amount, feeBps);
+  const postings: LedgerPosting[] = [
+    { account: escrow(campaignId), amount },
+    { account: payout(startupId), amount: -(amount - fee) }
+  ];
+  if (fee > 0) postings.push({ account: PLATFORM_FEES, amount: -fee });
+  return postings;
+}
+
+export function isBalanced(postings: { amount: number }[]): boolean {
+  return (
+    postings.length >= 2 &&
+    postings.every(p => Number.isInteger(p.amount) && p.amount !== 0) &&
+    postings.reduce((sum, p) => sum + p.amount, 0) === 0
+  );
+}
+
+export function balanceOf(lines: { amount: number }[]): number {
+  return lines.reduce((sum, l) => sum + Number(l.amount), 0);
+}
+
+// What the platform holds for an account with a credit balance.
+export function heldAmount(balance: number): number {
+  return balance === 0 ? 0 : -balance;
+}
+
+// Net amount per account over some lines, without accounts that net to zero.
+export function netByAccount(lines: Pick<LedgerFact, 'account_id' | 'amount'>[]): Map<string, number> {
+  const net = new Map<string, number>();
+  for (const line of lines) net.set(line.account_id, (net.get(line.account_id) ?? 0) + Number(line.amount));
+  for (const [account, amount] of net) if (amount === 0) net.delete(account);
+  return net;
+}
+
+/*
+ * commitmentHeld(facts, investmentId)
+ * - What the ledger holds in escrow for one investment's commitment:
+ *   the campaign and the amount, or null when nothing is held.
+ */
+export function commitmentHeld(facts: LedgerFact[], investmentId: string): { campaignId: string; amount: number } | null {
+  const escrowLines = facts.filter(
+    f => f.investment_id === investmentId && COMMITMENT_KINDS.includes(f.entry_kind) && f.account_kind === 'campaign_escrow'
+  );
+  const byCampaign = new Map<string, number>();
+  for (const line of escrowLines) {
+    const campaign = line.account_key.slice('campaign_escrow:'.length);
+    byCampaign.set(campaign, (byCampaign.get(campaign) ?? 0) - Number(line.amount));
+  }
+  const held = [...byCampaign].filter(([, amount]) => amount !== 0);
+  if (held.length !== 1) return null;
+  return { campaignId: held[0][0], amount: held[0][1] };
+}
+
+// What an investment should have in escrow: its amount in its campaign
+// while committed.
+export function commitmentTarget(
+  investment: Pick<InvestmentRow, 'amount' | 'status' | 'campaign_id'>
+): { campaignId: string; amount: number } | null {
+  const amount = toPaise(Number(investment.amount) || 0);
+  if (investment.status !== 'committed' || !investment.campaign_id || amount <= 0) return null;
+  return { campaignId: investment.campaign_id, amount };
+}
+
+export function sameCommitment(a: { campaignId: string; amount: number } | null, b: { campaignId: string; amount: number } | null): boolean {
+  return a?.campaignId === b?.campaignId && a?.amount === b?.amount;
+}
+
+// What a payment should have put through the gateway, and taken back out.
+export function paymentTargets(payment: Pick<PaymentRow, 'amount' | 'status' | 'amount_refunded'>): { paid: number; refunded: number } {
+  return {
+    paid: CAPTURED.includes(payment.status) ? payment.amount : 0,
+    refunded: CAPTURED.includes(payment.status) ? payment.amount_refunded : 0
+  };
+}
+
+// What the ledger has recorded through the gateway for one payment.
+export function paymentRecorded(facts: LedgerFact[], paymentId: string): { paid: number; refunded: number } {
+  const gateway = facts.filter(f => f.payment_id === paymentId && f.account_kind === 'payment_gateway');
+  return {
+    paid: balanceOf(gateway.filter(f => f.entry_kind === 'payment')),
+    refunded: -balanceOf(gateway.filter(f => f.entry_kind === 'refund'))
+  };
+}
+
+// A campaign's committed total in paise, as its escrow records it.
+export function campaignCommitted(facts: LedgerFact[], campaignId: string): number {
+  return -balanceOf(
+    facts.filter(f => f.account_key === accountKey(escrow(campaignId)) && COMMITMENT_KINDS.includes(f.entry_kind))
+  );
+}
+
+/*
+ * campaignDisbursable(facts, campaignId)
+ * - Money paid in for the campaign's investments, less refunds and what
+ *   has already been disbursed.
+ */
+export function campaignDisbursable(facts: LedgerFact[], campaignId: string): number {
+  const paidIn = balanceOf(facts.filter(f => f.campaign_id === campaignId && f.account_kind === 'payment_gateway'));
+  const disbursed = balanceOf(
+    facts.filter(f => f.entry_kind === 'disbursement' && f.account_key === accountKey(escrow(campaignId)))
+  );
+  return paidIn - disbursed;
+}
+
+/*
+ * findLedgerIssues(facts, records)
+ * - Every way the ledger disagrees with the tables it records: payments
+ *   whose captured or refunded amount differs, committed investments it
+ *   holds the wrong amount for, campaigns whose `funding_raised` is not
+ *   their escrowed commitments, and entries that do not balance.
+ */
+export function findLedgerIssues(
+  facts: LedgerFact[],
+  records: {
+    payments: Pick<PaymentRow, 'id' | 'amount' | 'status' | 'amount_refunded'>[];
+    investments: Pick<InvestmentRow, 'id' | 'amount' | 'status' | 'campaign_id'>[];
+    campaigns: Pick<CampaignRow, 'id' | 'funding_raised'>[];
+  }
+): LedgerIssue[] {
+  const issues: LedgerIssue[] = [];
+
+  for (const payment of records.payments) {
+    const expected = paymentTargets(payment);
+    const recorded = paymentRecorded(facts, payment.id);
+    if (expected.paid !== recorded.paid) {
+      issues.push({ subject: 'payment', id: payment.id, message: 'Captured amount differs', expected: expected.paid, recorded: recorded.paid });
+    }
+    if (expected.refunded !== recorded.refunded) {
+      issues.push({
+        subject: 'payment',
+        id: payment.id,
+        message: 'Refunded amount differs',
+        expected: expected.refunded,
+        recorded: recorded.refunded
+      });
+    }
+  }
+
+  const knownPayments = new Set(records.payments.map(p => p.id));
+  for (const paymentId of new Set(facts.map(f => f.payment_id).filter((id): id is string => Boolean(id)))) {
+    if (!knownPayments.has(paymentId)) {
+      const recorded = paymentRecorded(facts, paymentId);
+      issues.push({ subject: 'payment', id: paymentId, message: 'No such payment', expected: 0, recorded: recorded.paid - recorded.refunded });
+    }
+  }
+
+  for (const investment of records.investments) {
+    const target = commitmentTarget(investment);
+    const held = commitmentHeld(facts, investment.id);
+    if (!sameCommitment(target, held)) {
+      issues.push({
+        subject: 'investment',
+        id: investment.id,
+        message: target && held && target.campaignId !== held.campaignId ? 'Held in another campaign' : 'Committed amount differs',
+        expected: target?.amount ?? 0,
+        recorded: held?.amount ?? 0
+      });
+    }
+  }
+
+  for (const campaign of records.campaigns) {
+    const expected = campaignCommitted(facts, campaign.id);
+    const recorded = toPaise(Number(campaign.funding_raised) || 0);
+    if (expected !== recorded) {
+      issues.push({ subject: 'campaign', id: campaign.id, message: 'funding_raised differs from the ledger', expected, recorded });
+    }
+  }
+
+  const byEntry = new Map<string, number>();
+  for (const fact of facts) byEntry.set(fact.entry_id, (byEntry.get(fact.entry_id) ?? 0) + Number(fact.amount));
+  for (const [entryId, sum] of byEntry) {
+    if (sum !== 0) issues.push({ subject: 'entry', id: entryId, message: 'Entry does not balance', expected: 0, recorded: sum });
+  }
+
+  return issues;
+}
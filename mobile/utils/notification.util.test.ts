@@ -0,0 +1,109 @@
+/*
+ * utils/notification.util.test.ts
+ *
+ * Purpose: notification wording, channel selection from preferences and
+ * digest timing. Run with `npm test`.
+ */
+
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  channelsFor,
+  chunk,
+  composeDigest,
+  DEFAULT_PREFERENCES,
+  digestDue,
+  renderNotification
+} from './notification.util';
+
+test('interest notifications name the investor, campaign and amount', () => {
+  const rendered = renderNotification({
+    type: 'interest.submitted',
+    investorName: 'Meera Iyer',
+    campaignTitle: 'Seed Round',
+    amount: 500000
+  });
+  assert.equal(rendered.title, 'New investor interest');
+  assert.equal(rendered.body, 'Meera Iyer is interested in Seed Round and proposed ₹5,00,000.');
+
+  const noAmount = renderNotification({ type: 'interest.submitted', investorName: 'A', campaignTitle: 'B', amount: null });
+  assert.equal(noAmount.body, 'A is interested in B.');
+});
+
+test('campaign changes read differently for owners, admins and investors', () => {
+  const base = { type: 'campaign.status_changed' as const, campaignTitle: 'Seed Round' };
+  assert.equal(
+    renderNotification({ ...base, from: 'pending_review', to: 'active', audience: 'owner' }).title,
+    'Campaign approved'
+  );
+  assert.equal(
+    renderNotification({ ...base, from: 'pending_review', to: 'rejected', audience: 'owner', note: ' Add financials ' }).body,
+    'Seed Round was not approved. Note: Add financials'
+  );
+  assert.equal(
+    renderNotification({ ...base, from: 'draft', to: 'pending_review', audience: 'admin' }).title,
+    'Campaign to review'
+  );
+  assert.equal(
+    renderNotification({ ...base, from: 'active', to: 'paused', audience: 'investor' }).body,
+    'Seed Round was paused.'
+  );
+  assert.equal(
+    renderNotification({ ...base, from: 'paused', to: 'active', audience: 'investor' }).body,
+    'Seed Round is raising again.'
+  );
+});
+
+test('update notifications name the startup, campaign and update', () => {
+  const rendered = renderNotification({
+    type: 'campaign.update_posted',
+    companyName: 'GreenRoots',
+    campaignTitle: 'Seed round',
+    updateTitle: 'Nashik site signed'
+  });
+  assert.equal(rendered.title, 'Update from GreenRoots');
+  assert.equal(rendered.body, 'Seed round: Nashik site signed');
+});
+
+test('role changes cover removal', () => {
+  assert.equal(renderNotification({ type: 'user.role_changed', role: 'admin' }).body, 'You are now an admin.');
+  assert.equal(renderNotification({ type: 'user.role_changed', role: null }).body, 'Your role was removed.');
+});
+
+test('muted types go nowhere and channel switches are respected', () => {
+  assert.deepEqual(channelsFor(DEFAULT_PREFERENCES, 'interest.submitted'), {
+    inApp: true,
+    push: true,
+    email: 'immediate'
+  });
+  const prefs = { ...DEFAULT_PREFERENCES, push: false, email_frequency: 'weekly' as const, muted_types: ['user.role_changed' as const] };
+  assert.equal(channelsFor(prefs, 'user.role_changed'), null);
+  assert.deepEqual(channelsFor(prefs, 'startup.verification'), { inApp: true, push: false, email: 'weekly' });
+  assert.equal(channelsFor({ ...prefs, email: false }, 'startup.verification')?.email, null);
+});
+
+test('digests are due once per period, with an hour of slack', () => {
+  const now = new Date('2026-03-10T09:00:00Z');
+  assert.equal(digestDue('daily', null, now), true);
+  assert.equal(digestDue('daily', '2026-03-09T09:30:00Z', now), true);
+  assert.equal(digestDue('daily', '2026-03-09T12:00:00Z', now), false);
+  assert.equal(digestDue('weekly', '2026-03-05T09:00:00Z', now), false);
+  assert.equal(digestDue('weekly', '2026-03-03T09:00:00Z', now), true);
+});
+
+test('digests list items oldest first', () => {
+  const digest = composeDigest(
+    [
+      { title: 'Second', body: 'b', created_at: '2026-03-02T00:00:00Z' },
+      { title: 'First', body: 'a', created_at: '2026-03-01T00:00:00Z' }
+    ],
+    'daily'
+  );
+  assert.equal(digest.subject, 'Your daily Incubs digest: 2 notifications');
+  assert.ok(digest.text.indexOf('First') < digest.text.indexOf('Second'));
+});
+
+test('chunk splits into batches', () => {
+  assert.deepEqual(chunk([1, 2, 3, 4, 5], 2), [[1, 2], [3, 4], [5]]);
+  assert.deepEqual(chunk([], 100), []);
+});
@@ -0,0 +1,203 @@
+/*
+ * utils/notification.util.ts
+ *
+ * Purpose: the pure parts of notifications: the wording of each event,
+ * which channels a user's preferences allow, when a digest is due and
+ * what it says. The server functions (server/notifyEvent.ts,
+ * server/sendNotificationDigests.ts) and the settings screen share these,
+ * and they are tested without a database.
+ */
+
+import type {
+  CampaignStatus,
+  EmailFrequency,
+  NotificationPreferencesRow,
+  NotificationType,
+  VerificationStatus
+} from '../services/data/database.types';
+import type { Role } from '../services/roles';
+
+export const NOTIFICATION_TYPES: NotificationType[] = [
+  'interest.submitted',
+  'startup.verification',
+  'campaign.status_changed',
+  'campaign.update_posted',
+  'user.role_changed'
+];
+
+// Shown next to the per-type mute switches in Settings.
+export const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
+  'interest.submitted': 'New investor interest',
+  'startup.verification': 'Verification decisions',
+  'campaign.status_changed': 'Campaign status changes',
+  'campaign.update_posted': 'Updates from campaigns I follow',
+  'user.role_changed': 'Account role changes'
+};
+
+export const EMAIL_FREQUENCY_LABELS: Record<EmailFrequency, string> = {
+  immediate: 'Immediately',
+  daily: 'Daily digest',
+  weekly: 'Weekly digest'
+};
+
+export type NotificationPreferences = Pick<
+  NotificationPreferencesRow,
+  'in_app' | 'push' | 'email' | 'email_frequency' | 'muted_types'
+>;
+
+// What a user without a preferences row gets; matches the column
+// defaults in db/notifications.sql.
+export const DEFAULT_PREFERENCES: NotificationPreferences = {
+  in_app: true,
+  push: true,
+  email: true,
+  email_frequency: 'immediate',
+  muted_types: []
+};
+
+// The details each event is worded from, looked up by the server so
+// clients cannot put words in someone else's inbox.
+export type NotificationFacts =
+  | { type: 'interest.submitted'; investorName: string; campaignTitle: string; amount: number | null }
+  | { type: 'startup.verification'; companyName: string; status: VerificationStatus }
+  | {
+      type: 'campaign.status_changed';
+      campaignTitle: string;
+      from: CampaignStatus;
+      to: CampaignStatus;
+      // Who is being told: the owner, the admins reviewing it, or the
+      // investors following it. Each reads the change differently.
+      audience: 'owner' | 'admin' | 'investor';
+      note?: string | null;
+    }
+  | { type: 'campaign.update_posted'; companyName: string; campaignTitle: string; updateTitle: string }
+  | { type: 'user.role_changed'; role: Role | null };
+
+export type RenderedNotification = { title: string; body: string };
+
+const statusText = (status: CampaignStatus) => status.replace(/_/g, ' ');
+
+const ROLE_NAMES: Record<Role, string> = {
+  startup: 'a startup',
+  investor: 'an investor',
+  admin: 'an admin',
+  super_admin: 'a super admin'
+};
+
+export function renderNotification(facts: NotificationFacts): RenderedNotification {
+  switch (facts.type) {
+    case 'interest.submitted': {
+      const amount = facts.amount ? ` and proposed ₹${Number(facts.amount).toLocaleString('en-IN')}` : '';
+      return {
+        title: 'New investor interest',
+        body: `${facts.investorName} is interested in ${facts.campaignTitle}${amount}.`
+      };
+    }
+    case 'startup.verification':
+      if (facts.status === 'verified') {
+        return { title: 'Startup verified', body: `${facts.companyName} is now verified.` };
+      }
+      if (facts.status === 'rejected') {
+        return { title: 'Verification declined', body: `${facts.companyName} could not be verified.` };
+      }
+      return {
+        title: 'Verification withdrawn',
+        body: `${facts.companyName} is no longer marked as verified.`
+      };
+    case 'campaign.status_changed': {
+      const note = facts.note?.trim() ? ` Note: ${facts.note.trim()}` : '';
+      if (facts.audience === 'admin') {
+        return { title: 'Campaign to review', body: `${facts.campaignTitle} was submitted for review.` };
+      }
+      if (facts.audience === 'investor') {
+        const verb = facts.to === 'active' ? 'is raising again' : `was ${statusText(facts.to)}`;
+        return { title: 'Campaign update', body: `${facts.campaignTitle} ${verb}.` };
+      }
+      if (facts.to === 'active' && facts.from === 'pending_review') {
+        return { title: 'Campaign approved', body: `${facts.campaignTitle} is now live.${note}` };
+      }
+      if (facts.to === 'rejected') {
+        return { title: 'Campaign rejected', body: `${facts.campaignTitle} was not approved.${note}` };
+      }
+      return {
+        title: 'Campaign status changed',
+        body: `${facts.campaignTitle} moved from ${statusText(facts.from)} to ${statusText(facts.to)}.${note}`
+      };
+    }
+    case 'campaign.update_posted':
+      return {
+        title: `Update from ${facts.companyName}`,
+        body: `${facts.campaignTitle}: ${facts.updateTitle}`
+      };
+    case 'user.role_changed':
+      return {
+        title: 'Your role changed',
+        body: facts.role ? `You are now ${ROLE_NAMES[facts.role]}.` : 'Your role was removed.'
+      };
+  }
+}
+
+export type ChannelPlan = {
+  inApp: boolean;
+  push: boolean;
+  // When to email, or null for no email.
+  email: EmailFrequency | null;
+};
+
+/*
+ * channelsFor
+ * - Which channels a notification of `type` goes out on for a user with
+ *   `preferences`. Null when the type is muted: nothing is stored.
+ */
+export function channelsFor(preferences: NotificationPreferences, type: NotificationType): ChannelPlan | null {
+  if ((preferences.muted_types || []).includes(type)) return null;
+  return {
+    inApp: preferences.in_app,
+    push: preferences.push,
+    email: preferences.email ? preferences.email_frequency : null
+  };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A scheduled run that starts a little early still sends the digest.
+const DIGEST_SLACK_MS = 60 * 60 * 1000;
+
+/*
+ * digestDue
+ * - Whether a daily or weekly digest should go out at `now`, given when
+ *   the last one did. The first digest is always due.
+ */
+export function digestDue(frequency: EmailFrequency, lastSentAt: string | null, now: Date): boolean {
+  if (frequency === 'immediate') return true;
+  if (!lastSentAt) return true;
+  const period = frequency === 'weekly' ? 7 * DAY_MS : DAY_MS;
+  return now.getTime() - new Date(lastSentAt).getTime() >= period - DIGEST_SLACK_MS;
+}
+
+export type DigestItem = RenderedNotification & { created_at: string };
+
+/*
+ * composeDigest
+ * - One plain-text email for every notification in `items`, oldest
+ *   first so it reads in order.
+ */
+export function composeDigest(items: DigestItem[], frequency: EmailFrequency): { subject: string; text: string } {
+  const period = frequency === 'weekly' ? 'weekly' : 'daily';
+  const count = items.length === 1 ? '1 notification' : `${items.length} notifications`;
+  const lines = [...items]
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .map(item => `• ${item.title}\n  ${item.body}`);
+  return {
+    subject: `Your ${period} Incubs digest: ${count}`,
+    text: `${lines.join('\n\n')}\n\nChange how often you get these in Settings → Notifications.`
+  };
+}
+
+// Split `items` into batches of at most `size`; Expo takes 100 push
+// messages per request.
+export function chunk<T>(items: T[], size: number): T[][] {
+  const batches: T[][] = [];
+  for (let i = 0; i < items.length; i += size) batches.push(items.slice(i, i + size));
+  return batches;
+}
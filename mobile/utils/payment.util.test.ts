@@ -0,0 +1,69 @@
+/*
+ * utils/payment.util.test.ts
+ *
+ * Purpose: checkout and webhook signatures, payment status moves and
+ * paise amounts. Run with `npm test`.
+ */
+
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { createHmac } from 'node:crypto';
+import {
+  checkoutSignature,
+  nextPaymentStatus,
+  refundStatus,
+  toPaise,
+  verifyCheckoutSignature,
+  verifyWebhookSignature
+} from './payment.util';
+
+const KEY_SECRET = 'key_secret';
+const WEBHOOK_SECRET = 'webhook_secret';
+
+test('checkout signature is HMAC-SHA256 of order id|payment id', () => {
+  const expected = createHmac('sha256', KEY_SECRET).update('order_1|pay_1').digest('hex');
+  assert.equal(checkoutSignature('order_1', 'pay_1', KEY_SECRET), expected);
+  assert.equal(verifyCheckoutSignature('order_1', 'pay_1', expected, KEY_SECRET), true);
+  assert.equal(verifyCheckoutSignature('order_1', 'pay_1', expected.toUpperCase(), KEY_SECRET), true);
+});
+
+test('checkout signature rejects another order, payment or secret', () => {
+  const signature = checkoutSignature('order_1', 'pay_1', KEY_SECRET);
+  assert.equal(verifyCheckoutSignature('order_2', 'pay_1', signature, KEY_SECRET), false);
+  assert.equal(verifyCheckoutSignature('order_1', 'pay_2', signature, KEY_SECRET), false);
+  assert.equal(verifyCheckoutSignature('order_1', 'pay_1', signature, 'other'), false);
+  assert.equal(verifyCheckoutSignature('order_1', 'pay_1', null, KEY_SECRET), false);
+  assert.equal(verifyCheckoutSignature('order_1', 'pay_1', '', KEY_SECRET), false);
+});
+
+test('webhook signature covers the raw body exactly', () => {
+  const rawBody = '{"event":"payment.captured","payload":{}}';
+  const signature = createHmac('sha256', WEBHOOK_SECRET).update(rawBody).digest('hex');
+  assert.equal(verifyWebhookSignature(rawBody, signature, WEBHOOK_SECRET), true);
+  // Same JSON, different bytes.
+  assert.equal(verifyWebhookSignature('{"event": "payment.captured", "payload": {}}', signature, WEBHOOK_SECRET), false);
+  assert.equal(verifyWebhookSignature(rawBody, signature, 'other'), false);
+  assert.equal(verifyWebhookSignature(rawBody, null, WEBHOOK_SECRET), false);
+});
+
+test('payment status only moves forward', () => {
+  assert.equal(nextPaymentStatus('created', 'authorized'), 'authorized');
+  assert.equal(nextPaymentStatus('authorized', 'captured'), 'captured');
+  assert.equal(nextPaymentStatus('failed', 'captured'), 'captured');
+  assert.equal(nextPaymentStatus('captured', 'refunded'), 'refunded');
+  assert.equal(nextPaymentStatus('partially_refunded', 'partially_refunded'), 'partially_refunded');
+
+  // Repeats and late arrivals are ignored.
+  assert.equal(nextPaymentStatus('captured', 'captured'), null);
+  assert.equal(nextPaymentStatus('captured', 'authorized'), null);
+  assert.equal(nextPaymentStatus('captured', 'failed'), null);
+  assert.equal(nextPaymentStatus('refunded', 'captured'), null);
+  assert.equal(nextPaymentStatus('created', 'refunded'), null);
+});
+
+test('refund status and paise amounts', () => {
+  assert.equal(refundStatus(10000, 2500), 'partially_refunded');
+  assert.equal(refundStatus(10000, 10000), 'refunded');
+  assert.equal(toPaise(2500000), 250000000);
+  assert.equal(toPaise(19.99), 1999);
+});
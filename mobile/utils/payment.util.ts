@@ -0,0 +1,95 @@
+/*
+ * utils/payment.util.ts
+ *
+ * Purpose: the pure parts of taking a payment through a Razorpay-style
+ * gateway: amounts in paise, the two HMAC-SHA256 signatures and the
+ * order in which a payment's status may change.
+ *
+ * - Checkout signs `<order id>|<payment id>` with the key secret; the app
+ *   hands the result to the verify-payment server function.
+ * - Webhooks sign the raw request body with the webhook secret, sent as
+ *   the X-Razorpay-Signature header.
+ *
+ * Both are hex digests compared in constant time. A gateway may deliver
+ * the same event twice or out of order, so status changes only ever move
+ * forward (see `nextPaymentStatus`).
+ */
+
+import { hmac } from '@noble/hashes/hmac';
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+import type { PaymentStatus } from '../services/data/database.types';
+import { constantTimeEqual } from './recovery.util';
+
+export const PAYMENT_CURRENCY = 'INR';
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  created: 'Awaiting payment',
+  authorized: 'Processing',
+  captured: 'Paid',
+  failed: 'Failed',
+  partially_refunded: 'Partly refunded',
+  refunded: 'Refunded'
+};
+
+// Where each status may go next. A failed attempt can be followed by a
+// successful one on the same order.
+const NEXT_STATUSES: Record<PaymentStatus, PaymentStatus[]> = {
+  created: ['authorized', 'captured', 'failed'],
+  authorized: ['captured', 'failed'],
+  failed: ['authorized', 'captured'],
+  captured: ['partially_refunded', 'refunded'],
+  partially_refunded: ['partially_refunded', 'refunded'],
+  refunded: []
+};
+
+// Rupees to paise; gateways take whole paise.
+export function toPaise(rupees: number): number {
+  return Math.round(rupees * 100);
+}
+
+export function formatPaise(paise: number): string {
+  return `₹${(paise / 100).toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+}
+
+export function hmacSha256Hex(secret: string, message: string): string {
+  return bytesToHex(hmac(sha256, utf8ToBytes(secret), utf8ToBytes(message)));
+}
+
+function signatureMatches(expected: string, signature: string | null | undefined): boolean {
+  if (!signature) return false;
+  return constantTimeEqual(utf8ToBytes(expected), utf8ToBytes(signature.trim().toLowerCase()));
+}
+
+export function checkoutSignature(orderId: string, paymentId: string, keySecret: string): string {
+  return hmacSha256Hex(keySecret, `${orderId}|${paymentId}`);
+}
+
+export function verifyCheckoutSignature(
+  orderId: string,
+  paymentId: string,
+  signature: string | null | undefined,
+  keySecret: string
+): boolean {
+  return signatureMatches(checkoutSignature(orderId, paymentId, keySecret), signature);
+}
+
+// `rawBody` must be the body exactly as received; re-serialised JSON
+// will not match.
+export function verifyWebhookSignature(rawBody: string, signature: string | null | undefined, webhookSecret: string): boolean {
+  return signatureMatches(hmacSha256Hex(webhookSecret, rawBody), signature);
+}
+
+/*
+ * nextPaymentStatus(current, proposed)
+ * - The status to store, or null when `proposed` is a repeat or arrives
+ *   after the payment has moved past it, so the caller can ignore it.
+ */
+export function nextPaymentStatus(current: PaymentStatus, proposed: PaymentStatus): PaymentStatus | null {
+  return NEXT_STATUSES[current].includes(proposed) ? proposed : null;
+}
+
+// The status after refunds totalling `refunded` paise.
+export function refundStatus(amount: number, refunded: number): PaymentStatus {
+  return refunded >= amount ? 'refunded' : 'partially_refunded';
+}
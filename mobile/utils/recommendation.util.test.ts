@@ -0,0 +1,122 @@
+/*
+ * utils/recommendation.util.test.ts
+ *
+ * Purpose: scoring and ranking over the marketplace fixture pack, so the
+ * expected orderings can be checked against the same data MOCK mode
+ * shows. Run with `npm test`.
+ */
+
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { MARKETPLACE_SEED } from '../services/local/packs/marketplace';
+import type { CampaignRow, InvestorRow, StartupRow } from '../services/data/database.types';
+import {
+  describeReasons,
+  industryAffinityFromSwipes,
+  normaliseStage,
+  rankByScore,
+  scoreCampaignForInvestor,
+  scoreInvestorForStartup,
+  WEIGHTS
+} from './recommendation.util';
+
+const tables = MARKETPLACE_SEED.tables;
+const startups = (tables.startups || []) as StartupRow[];
+const investors = (tables.investors || []) as InvestorRow[];
+const campaigns = (tables.fundraising_campaigns || []) as CampaignRow[];
+
+const investor = (name: string) => investors.find(i => i.investor_name === name)!;
+const startup = (company: string) => startups.find(s => s.company_name === company)!;
+const campaign = (title: string) => campaigns.find(c => c.title === title)!;
+const startupOf = (c: CampaignRow) => startups.find(s => s.id === c.startup_id)!;
+
+const activeCampaigns = campaigns.filter(c => c.status === 'active');
+
+function rankCampaignsFor(i: InvestorRow, affinity: Record<string, number> = {}) {
+  return rankByScore(activeCampaigns, c =>
+    scoreCampaignForInvestor(i, startupOf(c), c, { industryAffinity: affinity })
+  );
+}
+
+test('an angel sees early-stage campaigns in their industries first', () => {
+  const ranked = rankCampaignsFor(investor('Meera Iyer'));
+  const titles = ranked.map(c => c.title);
+
+  // ClassKit is Series A and VoltCart outside her industries.
+  const last = titles.slice(-2).sort();
+  assert.deepEqual(last, ['Bridge note before Series B', 'Vehicle financing facility']);
+
+  const greenRoots = ranked.find(c => c.title === 'Seed round: 40 new cold rooms')!;
+  assert.deepEqual(greenRoots.recommendation.reasons, ['ticket fits', 'matches your interest in AgriTech', 'Seed stage fits']);
+  assert.equal(greenRoots.recommendation.score, WEIGHTS.ticketFits + WEIGHTS.industryEach + WEIGHTS.stage);
+});
+
+test('swiping right on an industry lifts similar campaigns', () => {
+  const note = campaign('Convertible note for clinic pilot');
+  const affinity = industryAffinityFromSwipes([{ direction: 'right', industry: startupOf(note).industry }]);
+
+  const ranked = rankCampaignsFor(investor('Meera Iyer'), affinity);
+  assert.equal(ranked[0].title, 'Convertible note for clinic pilot');
+  assert.ok(ranked[0].recommendation.reasons.includes('similar to campaigns you swiped right on'));
+});
+
+test('swiping left on an industry lowers it without a reason', () => {
+  const meera = investor('Meera Iyer');
+  const cold = campaign('Seed round: 40 new cold rooms');
+  const before = scoreCampaignForInvestor(meera, startupOf(cold), cold);
+  const after = scoreCampaignForInvestor(meera, startupOf(cold), cold, {
+    industryAffinity: industryAffinityFromSwipes([{ direction: 'left', industry: 'AgriTech' }])
+  });
+
+  assert.equal(after.score, before.score - WEIGHTS.swipedSimilar);
+  assert.deepEqual(after.reasons, before.reasons);
+});
+
+test('a cheque above the round range counts against the campaign', () => {
+  const farhan = investor('Farhan Ali');
+  const cold = campaign('Seed round: 40 new cold rooms');
+
+  const result = scoreCampaignForInvestor(farhan, startupOf(cold), cold);
+  assert.equal(result.score, WEIGHTS.ticketMisses + WEIGHTS.stage);
+  assert.ok(!result.reasons.includes('ticket fits'));
+});
+
+test('a startup sees fitting, already-interested investors first', () => {
+  const classKit = startup('ClassKit');
+  const round = campaign('Bridge note before Series B');
+  const interested = new Set(
+    (tables.campaign_interests || []).filter(i => i.campaign_id === round.id).map(i => i.investor_id)
+  );
+
+  const ranked = rankByScore(investors, i =>
+    scoreInvestorForStartup(classKit, i, round, { interested: interested.has(i.id) })
+  );
+
+  assert.equal(ranked[0].investor_name, 'Farhan Ali');
+  assert.deepEqual(ranked[0].recommendation.reasons, [
+    'ticket fits',
+    'interested in your campaign',
+    'invests in SaaS',
+    'Series A stage fits',
+    'also in Hyderabad'
+  ]);
+  assert.equal(describeReasons(ranked[0].recommendation), 'ticket fits · interested in your campaign · invests in SaaS');
+});
+
+test('without a current round the ticket is not scored', () => {
+  const result = scoreInvestorForStartup(startup('MediQueue'), investor('Farhan Ali'), null);
+  assert.equal(result.score, 2 * WEIGHTS.industryEach);
+  assert.deepEqual(result.reasons, ['invests in 2 of your industries']);
+});
+
+test('ties keep their incoming order', () => {
+  const items = [{ id: 'a' }, { id: 'b' }, { id: 'c' }];
+  const ranked = rankByScore(items, item => ({ score: item.id === 'c' ? 1 : 0, reasons: [] }));
+  assert.deepEqual(ranked.map(i => i.id), ['c', 'a', 'b']);
+});
+
+test('stages are compared loosely', () => {
+  assert.equal(normaliseStage('Pre-seed'), 'preseed');
+  assert.equal(normaliseStage(' Series A '), 'seriesa');
+  assert.equal(normaliseStage(null), '');
+});
@@ -0,0 +1,247 @@
+/*
+ * utils/recommendation.util.ts
+ *
+ * Purpose: score how well an investor and a startup fit each other, with
+ * a short reason for every signal that helped, so the home screens can
+ * rank their lists and say why a card is near the top. Pure functions
+ * over rows; services/match/recommendation.service.ts loads the data.
+ *
+ * Both directions use the same signals: industry overlap, ticket size
+ * against the round's range, the startup's stage against the kind of
+ * investor, location, and what the investor has already done (swipes
+ * and interests).
+ */
+
+import type { CampaignRow, InvestorRow, StartupRow } from '../services/data/database.types';
+
+export type RecommendationInvestor = Pick<
+  InvestorRow,
+  'interested_industries' | 'min_investment' | 'max_investment' | 'location' | 'investor_type'
+>;
+
+export type RecommendationStartup = Pick<StartupRow, 'industry' | 'funding_stage' | 'location'>;
+
+export type RecommendationCampaign = Pick<
+  CampaignRow,
+  'min_investment' | 'max_investment' | 'funding_goal' | 'funding_raised'
+>;
+
+// Who is looking at the list: an investor ranking campaigns, or a
+// startup ranking investors. Only changes the wording of reasons and
+// which history signals apply.
+type Side = 'investor' | 'startup';
+
+// A scored signal. Only signals that helped get a reason to show.
+type Signal = { points: number; reason: string | null };
+
+export type Recommendation = {
+  score: number;
+  // Strongest first.
+  reasons: string[];
+};
+
+// Past behaviour for one investor/startup pair, from the investor's side.
+export type PairHistory = {
+  // Industries of campaigns the investor swiped right (+1 each) or left
+  // (-1 each) on. Only used when ranking campaigns for the investor.
+  industryAffinity?: Record<string, number>;
+  // The investor has expressed interest in one of this startup's campaigns.
+  interested?: boolean;
+};
+
+export const WEIGHTS = {
+  industryEach: 15,
+  industryMax: 30,
+  ticketFits: 25,
+  ticketMisses: -15,
+  stage: 15,
+  sameCity: 10,
+  sameState: 5,
+  swipedSimilar: 10,
+  interested: 20
+};
+
+// Stages each kind of investor usually backs. Keys are normalised with
+// `normaliseStage`; unknown investor types get no stage signal.
+const STAGES_BY_INVESTOR_TYPE: Record<string, string[]> = {
+  angel: ['preseed', 'seed'],
+  individual: ['preseed', 'seed'],
+  vc: ['seed', 'seriesa', 'seriesb'],
+  familyoffice: ['seed', 'seriesa', 'seriesb'],
+  corporate: ['seriesa', 'seriesb', 'seriesc']
+};
+
+// Profiles store industries as a comma-separated list.
+export function splitIndustries(value?: string | null): string[] {
+  return (value || '').split(',').map(i => i.trim()).filter(Boolean);
+}
+
+// "Pre-seed", "pre seed" and "PreSeed" all become "preseed".
+export function normaliseStage(value?: string | null): string {
+  return (value || '').toLowerCase().replace(/[^a-z]/g, '');
+}
+
+// "Pune, Maharashtra" -> { city: 'pune', state: 'maharashtra' }
+function parseLocation(value?: string | null): { city: string; state: string } | null {
+  const parts = (value || '').split(',').map(p => p.trim().toLowerCase()).filter(Boolean);
+  if (parts.length === 0) return null;
+  return { city: parts[0], state: parts.length > 1 ? parts[parts.length - 1] : '' };
+}
+
+function industrySignal(investor: RecommendationInvestor, startup: RecommendationStartup, side: Side): Signal {
+  const wanted = new Set(splitIndustries(investor.interested_industries).map(i => i.toLowerCase()));
+  const shared = splitIndustries(startup.industry).filter(i => wanted.has(i.toLowerCase()));
+  if (shared.length === 0) return { points: 0, reason: null };
+
+  const points = Math.min(shared.length * WEIGHTS.industryEach, WEIGHTS.industryMax);
+  if (side === 'investor') {
+    return {
+      points,
+      reason: shared.length === 1 ? `matches your interest in ${shared[0]}` : `matches ${shared.length} of your industries`
+    };
+  }
+  return {
+    points,
+    reason: shared.length === 1 ? `invests in ${shared[0]}` : `invests in ${shared.length} of your industries`
+  };
+}
+
+// Does the investor's usual cheque overlap what the round will take?
+function ticketSignal(investor: RecommendationInvestor, campaign: RecommendationCampaign | null): Signal {
+  const investorMin = Number(investor.min_investment) || 0;
+  const investorMax = Number(investor.max_investment) || 0;
+  if (!campaign || (!investorMin && !investorMax)) return { points: 0, reason: null };
+
+  const roundMin = Number(campaign.min_investment) || 0;
+  const remaining = Math.max((Number(campaign.funding_goal) || 0) - (Number(campaign.funding_raised) || 0), 0);
+  const caps = [Number(campaign.max_investment) || 0, remaining].filter(n => n > 0);
+  const roundMax = caps.length ? Math.min(...caps) : 0;
+
+  if (investorMax && investorMax < roundMin) return { points: WEIGHTS.ticketMisses, reason: null };
+  if (roundMax && investorMin > roundMax) return { points: WEIGHTS.ticketMisses, reason: null };
+  return { points: WEIGHTS.ticketFits, reason: 'ticket fits' };
+}
+
+function stageSignal(investor: RecommendationInvestor, startup: RecommendationStartup): Signal {
+  const stages = STAGES_BY_INVESTOR_TYPE[normaliseStage(investor.investor_type)];
+  const stage = normaliseStage(startup.funding_stage);
+  if (!stages || !stage || !stages.includes(stage)) return { points: 0, reason: null };
+  return { points: WEIGHTS.stage, reason: `${startup.funding_stage} stage fits` };
+}
+
+function locationSignal(investor: RecommendationInvestor, startup: RecommendationStartup): Signal {
+  const a = parseLocation(investor.location);
+  const b = parseLocation(startup.location);
+  if (!a || !b) return { points: 0, reason: null };
+
+  if (a.city === b.city) {
+    return { points: WEIGHTS.sameCity, reason: `also in ${investor.location!.split(',')[0].trim()}` };
+  }
+  if (a.state && a.state === b.state) {
+    return { points: WEIGHTS.sameState, reason: 'same state' };
+  }
+  return { points: 0, reason: null };
+}
+
+function historySignals(startup: RecommendationStartup, history: PairHistory, side: Side): Signal[] {
+  const signals: Signal[] = [];
+
+  if (side === 'investor' && history.industryAffinity) {
+    const net = splitIndustries(startup.industry).reduce(
+      (sum, industry) => sum + (history.industryAffinity![industry.toLowerCase()] || 0),
+      0
+    );
+    if (net > 0) signals.push({ points: WEIGHTS.swipedSimilar, reason: 'similar to campaigns you swiped right on' });
+    if (net < 0) signals.push({ points: -WEIGHTS.swipedSimilar, reason: null });
+  }
+
+  if (side === 'startup' && history.interested) {
+    signals.push({ points: WEIGHTS.interested, reason: 'interested in your campaign' });
+  }
+  return signals;
+}
+
+function combine(signals: Signal[]): Recommendation {
+  const helpful = signals.filter(s => s.points > 0 && s.reason).sort((a, b) => b.points - a.points);
+  return {
+    score: signals.reduce((sum, s) => sum + s.points, 0),
+    reasons: helpful.map(s => s.reason as string)
+  };
+}
+
+/*
+ * scoreCampaignForInvestor
+ * - How well a campaign (and the startup behind it) suits the investor.
+ * - `history.industryAffinity` nudges industries the investor has been
+ *   swiping right (or left) on.
+ */
+export function scoreCampaignForInvestor(
+  investor: RecommendationInvestor,
+  startup: RecommendationStartup,
+  campaign: RecommendationCampaign,
+  history: PairHistory = {}
+): Recommendation {
+  return combine([
+    industrySignal(investor, startup, 'investor'),
+    ticketSignal(investor, campaign),
+    stageSignal(investor, startup),
+    locationSignal(investor, startup),
+    ...historySignals(startup, history, 'investor')
+  ]);
+}
+
+/*
+ * scoreInvestorForStartup
+ * - The same signals from the startup's side. `campaign` is the round
+ *   the startup is raising now (null when it has none, which drops the
+ *   ticket signal).
+ */
+export function scoreInvestorForStartup(
+  startup: RecommendationStartup,
+  investor: RecommendationInvestor,
+  campaign: RecommendationCampaign | null,
+  history: PairHistory = {}
+): Recommendation {
+  return combine([
+    industrySignal(investor, startup, 'startup'),
+    ticketSignal(investor, campaign),
+    stageSignal(investor, startup),
+    locationSignal(investor, startup),
+    ...historySignals(startup, history, 'startup')
+  ]);
+}
+
+/*
+ * industryAffinityFromSwipes
+ * - Net right-minus-left swipe count per industry (lower-cased), from
+ *   the industries of the startups behind the swiped campaigns.
+ */
+export function industryAffinityFromSwipes(
+  swipes: Array<{ direction: 'left' | 'right'; industry: string | null | undefined }>
+): Record<string, number> {
+  const affinity: Record<string, number> = {};
+  for (const swipe of swipes) {
+    for (const industry of splitIndustries(swipe.industry)) {
+      const key = industry.toLowerCase();
+      affinity[key] = (affinity[key] || 0) + (swipe.direction === 'right' ? 1 : -1);
+    }
+  }
+  return affinity;
+}
+
+/*
+ * rankByScore
+ * - Highest score first. Ties keep their incoming order, which is newest
+ *   first for every list this is used on.
+ */
+export function rankByScore<T>(items: T[], score: (item: T) => Recommendation): Array<T & { recommendation: Recommendation }> {
+  return items
+    .map((item, index) => ({ item: { ...item, recommendation: score(item) }, index }))
+    .sort((a, b) => b.item.recommendation.score - a.item.recommendation.score || a.index - b.index)
+    .map(entry => entry.item);
+}
+
+// The reasons shown on a card, e.g. "matches 2 of your industries · ticket fits".
+export function describeReasons(recommendation: Recommendation, limit = 3): string {
+  return recommendation.reasons.slice(0, limit).join(' · ');
+}
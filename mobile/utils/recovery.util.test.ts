@@ -0,0 +1,91 @@
+/*
+ * utils/recovery.util.test.ts
+ *
+ * Purpose: recovery key hashing and verification, legacy hashes and
+ * rehash detection. Run with `npm test`.
+ */
+
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  constantTimeEqual,
+  generateRecoveryKey,
+  hashRecoveryKey,
+  legacyHashRecoveryKey,
+  needsRehash,
+  RECOVERY_HASH_ITERATIONS,
+  validateRecoveryKey,
+  verifyRecoveryKey
+} from './recovery.util';
+
+const KEY = '8391-2044-7712-0093-5581-9920';
+const OTHER_KEY = '8391-2044-7712-0093-5581-9921';
+
+test('generated keys are 24 digits in groups of 4', () => {
+  const key = generateRecoveryKey();
+  assert.match(key, /^\d{4}(-\d{4}){5}$/);
+  assert.equal(validateRecoveryKey(key), true);
+  assert.notEqual(generateRecoveryKey(), key);
+});
+
+test('a v1 hash verifies its key, however it was typed', async () => {
+  const hash = await hashRecoveryKey(KEY);
+  const [version, algorithm, iterations, salt, derived] = hash.split('$');
+  assert.equal(version, 'v1');
+  assert.equal(algorithm, 'pbkdf2-sha256');
+  assert.equal(Number(iterations), RECOVERY_HASH_ITERATIONS);
+  assert.match(salt, /^[0-9a-f]{32}$/);
+  assert.match(derived, /^[0-9a-f]{64}$/);
+
+  assert.equal(await verifyRecoveryKey(KEY, hash), true);
+  assert.equal(await verifyRecoveryKey(KEY.replace(/-/g, ''), hash), true);
+  // Salted: the same key hashes differently each time.
+  assert.notEqual(await hashRecoveryKey(KEY), hash);
+});
+
+test('a wrong key does not verify', async () => {
+  const hash = await hashRecoveryKey(KEY);
+  assert.equal(await verifyRecoveryKey(OTHER_KEY, hash), false);
+  assert.equal(await verifyRecoveryKey('', hash), false);
+});
+
+test('legacy 8-hex-digit hashes still verify', async () => {
+  const legacy = legacyHashRecoveryKey(KEY);
+  assert.match(legacy, /^[0-9a-f]{8}$/);
+  assert.equal(await verifyRecoveryKey(KEY, legacy), true);
+  assert.equal(await verifyRecoveryKey(OTHER_KEY, legacy), false);
+});
+
+test('malformed stored hashes never match', async () => {
+  const hash = await hashRecoveryKey(KEY);
+  const parts = hash.split('$');
+  const malformed = [
+    '',
+    'not a hash',
+    parts.slice(0, 4).join('$'),
+    ['v2', ...parts.slice(1)].join('$'),
+    [parts[0], 'pbkdf2-sha1', ...parts.slice(2)].join('$'),
+    [...parts.slice(0, 2), '0', ...parts.slice(3)].join('$'),
+    [...parts.slice(0, 2), 'many', ...parts.slice(3)].join('$'),
+    [...parts.slice(0, 3), 'zz', parts[4]].join('$'),
+    [...parts.slice(0, 4), parts[4].slice(0, 62)].join('$')
+  ];
+  for (const stored of malformed) {
+    assert.equal(await verifyRecoveryKey(KEY, stored), false, stored);
+  }
+});
+
+test('legacy, weaker and malformed hashes need a rehash', async () => {
+  const hash = await hashRecoveryKey(KEY);
+  assert.equal(needsRehash(hash), false);
+  assert.equal(needsRehash(legacyHashRecoveryKey(KEY)), true);
+  assert.equal(needsRehash(hash.replace(`$${RECOVERY_HASH_ITERATIONS}$`, '$1000$')), true);
+  assert.equal(needsRehash('garbage'), true);
+});
+
+test('constant-time comparison checks length and every byte', () => {
+  assert.equal(constantTimeEqual(new Uint8Array([1, 2, 3]), new Uint8Array([1, 2, 3])), true);
+  assert.equal(constantTimeEqual(new Uint8Array([1, 2, 3]), new Uint8Array([1, 2, 4])), false);
+  assert.equal(constantTimeEqual(new Uint8Array([1, 2]), new Uint8Array([1, 2, 0])), false);
+  assert.equal(constantTimeEqual(new Uint8Array([]), new Uint8Array([])), true);
+});
@@ -3,71 +3,161 @@
  *
  * Purpose: Generate a recovery key and hash it before storage.
  * The recovery key is shown to the user once after signup.
- * 
- * Note: This uses a simple hash function for React Native compatibility.
- * For production, consider moving hashing to your backend server.
+ *
+ * Stored hashes are versioned strings so the algorithm and cost can
+ * change without breaking existing rows:
+ *
+ *   v1$pbkdf2-sha256$<iterations>$<salt hex>$<hash hex>
+ *
+ * Hashes written before v1 are 8 hex digits (a 32-bit String.hashCode).
+ * They still verify, and `needsRehash` flags them so the next successful
+ * recovery replaces them (see server/recoverWithKey.ts).
+ *
+ * Randomness comes from `crypto.getRandomValues` (Node, Deno, browsers;
+ * App.tsx installs the polyfill for React Native). There is deliberately
+ * no Math.random fallback.
  */
 
+import { pbkdf2Async } from '@noble/hashes/pbkdf2';
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, hexToBytes, randomBytes, utf8ToBytes } from '@noble/hashes/utils';
+
+const HASH_VERSION = 'v1';
+const HASH_ALGORITHM = 'pbkdf2-sha256';
+const SALT_BYTES = 16;
+const KEY_BYTES = 32;
+
+// Recovery keys carry ~80 bits of randomness, so the work factor only has
+// to make offline guessing expensive, not protect a weak secret. This
+// count keeps signup under a second on a phone running pure-JS PBKDF2.
+// Raising it later is safe: the count is stored with each hash.
+export const RECOVERY_HASH_ITERATIONS = 50000;
+
+const LEGACY_HASH_PATTERN = /^[0-9a-f]{8}$/;
+
 /**
  * generateRecoveryKey
  * - Creates a 24-digit recovery key (6 groups of 4 digits)
  * - Format: XXXX-XXXX-XXXX-XXXX-XXXX-XXXX
  * - Example: 8391-2044-7712-0093-5581-9920
  * - Total: 24 digits, NUMBERS ONLY
+ * - Digits come from a CSPRNG; bytes >= 250 are discarded so every
+ *   digit is equally likely
  */
 export function generateRecoveryKey(): string {
-  const parts: string[] = [];
-  
-  // Generate 6 groups of 4 digits each = 24 digits total
-  for (let i = 0; i < 6; i++) {
-    // Random number between 0-9999, padded to 4 digits
-    const group = Math.floor(Math.random() * 10000)
-      .toString()
-      .padStart(4, '0');
-    parts.push(group);
+  const digits: number[] = [];
+
+  while (digits.length < 24) {
+    for (const byte of randomBytes(32)) {
+      if (byte < 250 && digits.length < 24) digits.push(byte % 10);
+    }
   }
-  
+
   // Join with dashes: XXXX-XXXX-XXXX-XXXX-XXXX-XXXX
-  return parts.join('-');
+  return formatRecoveryKeyInput(digits.join(''));
 }
 
 /**
  * hashRecoveryKey
  * - Hash the recovery key before storing in database
- * - Uses a simple hash function compatible with React Native
- * - For production: Move this to your backend for better security
- * 
+ * - Salted PBKDF2-SHA256; the result is a self-describing v1 string
+ * - Async so the app can keep rendering while the KDF runs
+ *
  * @param key - The recovery key to hash (e.g., "1234-5678-9012-3456-7890-1234")
- * @returns Hex string hash (e.g., "a1b2c3d4")
+ * @returns e.g. "v1$pbkdf2-sha256$50000$<salt>$<hash>"
  */
-export function hashRecoveryKey(key: string): string {
-  let hash = 0;
-  
-  // Simple but effective hash function (Java's String.hashCode() algorithm)
-  for (let i = 0; i < key.length; i++) {
-    const char = key.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash; // Convert to 32-bit integer
-  }
-  
-  // Return as hex string, always 8 characters
-  return Math.abs(hash).toString(16).padStart(8, '0');
+export async function hashRecoveryKey(key: string): Promise<string> {
+  const salt = randomBytes(SALT_BYTES);
+  const derived = await derive(key, salt, RECOVERY_HASH_ITERATIONS);
+  return [HASH_VERSION, HASH_ALGORITHM, RECOVERY_HASH_ITERATIONS, bytesToHex(salt), bytesToHex(derived)].join('$');
 }
 
 /**
  * verifyRecoveryKey
  * - Check if provided recovery key matches stored hash
- * 
+ * - Accepts v1 hashes and legacy 8-hex-digit hashes
+ * - Compares in constant time; malformed hashes never match
+ *
  * @param providedKey - Key entered by user
  * @param storedHash - Hash stored in database
  * @returns true if match, false otherwise
  */
-export function verifyRecoveryKey(
+export async function verifyRecoveryKey(
   providedKey: string,
   storedHash: string
-): boolean {
-  const providedHash = hashRecoveryKey(providedKey);
-  return providedHash === storedHash;
+): Promise<boolean> {
+  const key = normalizeKey(providedKey);
+
+  if (LEGACY_HASH_PATTERN.test(storedHash || '')) {
+    return constantTimeEqual(utf8ToBytes(legacyHashRecoveryKey(key)), utf8ToBytes(storedHash));
+  }
+
+  const parsed = parseHash(storedHash);
+  if (!parsed) return false;
+
+  const derived = await derive(key, parsed.salt, parsed.iterations);
+  return constantTimeEqual(derived, parsed.hash);
+}
+
+/**
+ * needsRehash
+ * - True when a stored hash is legacy or uses older parameters, so the
+ *   caller should store a fresh `hashRecoveryKey` result after verifying
+ */
+export function needsRehash(storedHash: string): boolean {
+  const parsed = parseHash(storedHash);
+  return !parsed || parsed.iterations < RECOVERY_HASH_ITERATIONS;
+}
+
+/**
+ * legacyHashRecoveryKey
+ * - The pre-v1 hash (Java's String.hashCode as 8 hex digits)
+ * - Only for verifying old rows and for fixtures; never store new values
+ */
+export function legacyHashRecoveryKey(key: string): string {
+  let hash = 0;
+
+  for (let i = 0; i < key.length; i++) {
+    const char = key.charCodeAt(i);
+    hash = ((hash << 5) - hash) + char;
+    hash = hash & hash; // Convert to 32-bit integer
+  }
+
+  // Return as hex string, always 8 characters
+  return Math.abs(hash).toString(16).padStart(8, '0');
+}
+
+// Keys are hashed in their dashed form, whatever the user typed.
+function normalizeKey(key: string): string {
+  return formatRecoveryKeyInput(String(key || ''));
+}
+
+function derive(key: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+  return pbkdf2Async(sha256, utf8ToBytes(normalizeKey(key)), salt, { c: iterations, dkLen: KEY_BYTES });
+}
+
+function parseHash(storedHash: string): { iterations: number; salt: Uint8Array; hash: Uint8Array } | null {
+  const parts = String(storedHash || '').split('$');
+  if (parts.length !== 5 || parts[0] !== HASH_VERSION || parts[1] !== HASH_ALGORITHM) return null;
+
+  const iterations = Number(parts[2]);
+  if (!Number.isInteger(iterations) || iterations < 1) return null;
+
+  try {
+    return { iterations, salt: hexToBytes(parts[3]), hash: hexToBytes(parts[4]) };
+  } catch {
+    return null;
+  }
+}
+
+// Compare without returning early, so timing does not reveal how many
+// leading bytes matched.
+export function constantTimeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    diff |= (a[i] ?? 0) ^ (b[i] ?? 0);
+  }
+  return diff === 0;
 }
 
 /**
@@ -134,12 +224,12 @@ export function stripDashes(key: string): string {
  * console.log(key); // "8391-2044-7712-0093-5581-9920"
  * 
  * // Hash key for storage
- * const hash = hashRecoveryKey(key);
- * console.log(hash); // "a1b2c3d4"
+ * const hash = await hashRecoveryKey(key);
+ * console.log(hash); // "v1$pbkdf2-sha256$50000$9f2c...$4be1..."
  * 
  * // Later, verify user's input
  * const userInput = "8391-2044-7712-0093-5581-9920";
- * const isValid = verifyRecoveryKey(userInput, hash);
+ * const isValid = await verifyRecoveryKey(userInput, hash);
  * console.log(isValid); // true
  * 
  * // Format as user types
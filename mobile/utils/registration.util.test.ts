@@ -0,0 +1,82 @@
+/*
+ * utils/registration.util.test.ts
+ *
+ * Purpose: PAN holder types, CIN/LLPIN structure and the combined
+ * identifier checks recorded for admins. Run with `npm test`.
+ */
+
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { checkStartupIdentifiers, panError, parseCin, registrationNumberError } from './registration.util';
+
+const NOW = new Date('2026-06-01T00:00:00Z');
+const CIN = 'U72900KA2015PTC082988';
+
+test('a PAN must be well formed and fit the company type', () => {
+  assert.equal(panError('aagcg1234k', 'Private Limited'), null);
+  assert.equal(panError('AAGFG1234K', 'LLP'), null);
+  assert.equal(panError('ABCPK1234Q', 'Proprietorship'), null);
+  assert.equal(panError('ABCPK1234Q', null), null);
+  assert.match(panError('AAGCG1234', 'LLP')!, /5 letters, 4 digits/);
+  assert.match(panError('AAGXG1234K', null)!, /cannot be X/);
+  assert.match(panError('ABCPK1234Q', 'Private Limited')!, /PAN of an individual, but a Private Limited startup needs the PAN of a company/);
+});
+
+test('a CIN carries listing status, state, year and ownership', () => {
+  assert.deepEqual(parseCin(CIN), {
+    listed: false,
+    industryCode: '72900',
+    stateCode: 'KA',
+    incorporationYear: 2015,
+    ownership: 'PTC'
+  });
+  assert.equal(parseCin('U72900KA2015PTC08298'), null);
+});
+
+test('a CIN must be consistent with the company type and founding year', () => {
+  const error = (cin: string, type = 'Private Limited', founded: number | null = 2014) =>
+    registrationNumberError(cin, type, founded, NOW);
+  assert.equal(error(CIN), null);
+  assert.equal(error('L72900MH2010PLC123456', 'Public Limited', 2009), null);
+  assert.match(error('U72900KA2015PT082988')!, /21 characters/);
+  assert.match(error('U72900ZZ2015PTC082988')!, /ZZ is not a Registrar/);
+  assert.match(error('U72900KA2015PLC082988')!, /PLC in this CIN does not match a Private Limited/);
+  assert.match(error('L72900KA2015PTC082988')!, /cannot be listed/);
+  assert.match(error('U72900KA2030PTC082988')!, /2030 is not a valid year/);
+  assert.match(error(CIN, 'Private Limited', 2018)!, /issued in 2015, before the company was founded in 2018/);
+});
+
+test('LLPs have an LLPIN and other types have nothing to check', () => {
+  assert.equal(registrationNumberError('aab-1234', 'LLP'), null);
+  assert.match(registrationNumberError('AAB1234', 'LLP')!, /LLPIN must be/);
+  assert.equal(registrationNumberError('anything', 'Partnership'), null);
+});
+
+test('the recorded checks cover every identifier', () => {
+  const startup = {
+    company_type: 'Private Limited',
+    registered: true,
+    registration_number: CIN,
+    pan_number: 'AAGCG1234K',
+    gst_number: '29AAGCG1234K1ZJ',
+    founded_year: 2015
+  };
+  assert.deepEqual(checkStartupIdentifiers(startup, NOW), {
+    pan: { status: 'passed' },
+    registration: { status: 'passed', kind: 'cin' },
+    gstin: { status: 'passed' }
+  });
+
+  const incomplete = checkStartupIdentifiers({ ...startup, registration_number: '', pan_number: 'AAHCP5678M', gst_number: null }, NOW);
+  assert.equal(incomplete.registration.status, 'missing');
+  assert.equal(incomplete.gstin.status, 'missing');
+  assert.equal(incomplete.pan.status, 'passed');
+
+  const mismatched = checkStartupIdentifiers({ ...startup, pan_number: 'AAHCP5678M' }, NOW);
+  assert.equal(mismatched.gstin.status, 'failed');
+  assert.match(mismatched.gstin.error!, /belongs to PAN AAGCG1234K/);
+
+  const partnership = checkStartupIdentifiers({ ...startup, company_type: 'Partnership' }, NOW);
+  assert.deepEqual(partnership.registration, { status: 'not_applicable', kind: null });
+  assert.equal(partnership.pan.status, 'failed');
+});
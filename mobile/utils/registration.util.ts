@@ -0,0 +1,203 @@
+/*
+ * utils/registration.util.ts
+ *
+ * Purpose: check a startup's legal identifiers without a network call,
+ * and against the rest of its profile:
+ *
+ * - PAN: AAAPL1234C, where the fourth letter says what kind of holder it
+ *   belongs to, which must fit `company_type`,
+ * - CIN (companies): U72900KA2015PTC082988, i.e. listing status, industry
+ *   code, state, year of incorporation, ownership and a serial, where the
+ *   year must not come before `founded_year`,
+ * - LLPIN (LLPs): AAB-1234.
+ *
+ * Partnerships and proprietorships have no MCA registration number, so
+ * theirs is not checked. Shared by the profile form and the
+ * check-startup-identifiers server function, which records the results.
+ */
+
+import type { IdentifierCheck, StartupIdentifierChecks } from '../services/data/database.types';
+import { checkGstin, gstinPanMismatch } from './gst.util';
+
+// The fourth character of a PAN.
+export const PAN_HOLDER_TYPES: Record<string, string> = {
+  P: 'individual',
+  C: 'company',
+  H: 'Hindu undivided family',
+  F: 'firm or LLP',
+  A: 'association of persons',
+  T: 'trust',
+  B: 'body of individuals',
+  L: 'local authority',
+  J: 'artificial juridical person',
+  G: 'government agency'
+};
+
+// The PAN holder type each company type files under. A proprietorship
+// uses the proprietor's own PAN.
+const COMPANY_TYPE_PAN_HOLDER: Record<string, string> = {
+  'Private Limited': 'C',
+  'Public Limited': 'C',
+  LLP: 'F',
+  Partnership: 'F',
+  Proprietorship: 'P'
+};
+
+// Ownership codes a CIN may carry for each company type.
+const COMPANY_TYPE_CIN_OWNERSHIP: Record<string, string[]> = {
+  'Private Limited': ['PTC', 'OPC', 'FTC'],
+  'Public Limited': ['PLC', 'FLC', 'GOI', 'SGC']
+};
+
+// Registrar of Companies state codes used in CINs.
+const CIN_STATE_CODES = new Set([
+  'AN', 'AP', 'AR', 'AS', 'BR', 'CH', 'CT', 'DD', 'DL', 'DN', 'GA', 'GJ', 'HP', 'HR', 'JH', 'JK', 'KA', 'KL',
+  'LA', 'LD', 'MH', 'ML', 'MN', 'MP', 'MZ', 'NL', 'OR', 'PB', 'PY', 'RJ', 'SK', 'TG', 'TN', 'TR', 'UP', 'UR',
+  'WB'
+]);
+
+// The first CINs were issued to companies registered under the 1850 Act.
+const EARLIEST_INCORPORATION_YEAR = 1850;
+
+const PAN_PATTERN = /^[A-Z]{5}[0-9]{4}[A-Z]$/;
+const CIN_PATTERN = /^([LU])([0-9]{5})([A-Z]{2})([0-9]{4})([A-Z]{3})([0-9]{6})$/;
+const LLPIN_PATTERN = /^[A-Z]{3}-[0-9]{4}$/;
+
+export type RegistrationKind = 'cin' | 'llpin';
+
+export type CinParts = {
+  listed: boolean;
+  industryCode: string;
+  stateCode: string;
+  incorporationYear: number;
+  ownership: string;
+};
+
+// The profile fields the checks read.
+export type StartupIdentifiers = {
+  company_type: string | null;
+  registered: boolean | null;
+  registration_number: string | null;
+  pan_number: string | null;
+  gst_number: string | null;
+  founded_year: number | null;
+};
+
+// Upper-cased, with spaces removed.
+export function normalizeIdentifier(input: string | null | undefined): string {
+  return String(input ?? '').replace(/\s+/g, '').toUpperCase();
+}
+
+/*
+ * panError(pan, companyType)
+ * - Null when the PAN is well formed and its holder type fits the
+ *   company type (or the company type is unknown).
+ */
+export function panError(pan: string | null | undefined, companyType: string | null | undefined): string | null {
+  const value = normalizeIdentifier(pan);
+  if (!PAN_PATTERN.test(value)) return 'PAN must be 5 letters, 4 digits and a letter, e.g. AAACG1234K.';
+  if (!(value[3] in PAN_HOLDER_TYPES)) return `The 4th character of a PAN cannot be ${value[3]}.`;
+
+  const expected = companyType ? COMPANY_TYPE_PAN_HOLDER[companyType] : undefined;
+  if (expected && value[3] !== expected) {
+    return `This is the PAN of ${withArticle(PAN_HOLDER_TYPES[value[3]])}, but a ${companyType} startup needs the PAN of ${withArticle(PAN_HOLDER_TYPES[expected])} (4th character ${expected}).`;
+  }
+  return null;
+}
+
+// Which registration number a company type has, if any.
+export function registrationKind(companyType: string | null | undefined): RegistrationKind | null {
+  if (companyType === 'LLP') return 'llpin';
+  return companyType && COMPANY_TYPE_CIN_OWNERSHIP[companyType] ? 'cin' : null;
+}
+
+export function parseCin(cin: string): CinParts | null {
+  const match = CIN_PATTERN.exec(cin);
+  if (!match) return null;
+  return {
+    listed: match[1] === 'L',
+    industryCode: match[2],
+    stateCode: match[3],
+    incorporationYear: Number(match[4]),
+    ownership: match[5]
+  };
+}
+
+/*
+ * registrationNumberError(number, companyType, foundedYear, now)
+ * - For a company, the CIN's listing status and ownership must fit the
+ *   company type (a private company cannot be listed), and the year of
+ *   incorporation must be real and not before `foundedYear`.
+ * - For an LLP, the LLPIN format only; it carries nothing else to check.
+ * - Null for company types without a registration number.
+ */
+export function registrationNumberError(
+  number: string | null | undefined,
+  companyType: string | null | undefined,
+  foundedYear?: number | null,
+  now: Date = new Date()
+): string | null {
+  const value = normalizeIdentifier(number);
+  const kind = registrationKind(companyType);
+
+  if (kind === 'llpin') {
+    return LLPIN_PATTERN.test(value) ? null : 'LLPIN must be 3 letters, a dash and 4 digits, e.g. AAB-1234.';
+  }
+  if (kind !== 'cin') return null;
+
+  const cin = parseCin(value);
+  if (!cin) return 'CIN must be 21 characters, e.g. U72900KA2015PTC082988.';
+  if (!CIN_STATE_CODES.has(cin.stateCode)) return `${cin.stateCode} is not a Registrar of Companies state code.`;
+  if (!COMPANY_TYPE_CIN_OWNERSHIP[companyType].includes(cin.ownership)) {
+    return `${cin.ownership} in this CIN does not match a ${companyType} company.`;
+  }
+  if (cin.listed && companyType === 'Private Limited') {
+    return 'A private limited company cannot be listed; its CIN starts with U.';
+  }
+  if (cin.incorporationYear < EARLIEST_INCORPORATION_YEAR || cin.incorporationYear > now.getFullYear()) {
+    return `${cin.incorporationYear} is not a valid year of incorporation.`;
+  }
+  if (foundedYear && cin.incorporationYear < foundedYear) {
+    return `This CIN was issued in ${cin.incorporationYear}, before the company was founded in ${foundedYear}.`;
+  }
+  return null;
+}
+
+/*
+ * checkStartupIdentifiers(startup, now)
+ * - One result per identifier. A missing PAN or GSTIN is `missing`; so is
+ *   a missing registration number once the startup says it is
+ *   registered. Types without a registration number are
+ *   `not_applicable`.
+ */
+export function checkStartupIdentifiers(startup: StartupIdentifiers, now: Date = new Date()): StartupIdentifierChecks {
+  const pan = normalizeIdentifier(startup.pan_number);
+  const registration = normalizeIdentifier(startup.registration_number);
+  const kind = registrationKind(startup.company_type);
+
+  let registrationCheck: IdentifierCheck;
+  if (!kind || startup.registered === false) registrationCheck = { status: 'not_applicable' };
+  else if (!registration) registrationCheck = { status: 'missing' };
+  else registrationCheck = result(registrationNumberError(registration, startup.company_type, startup.founded_year, now));
+
+  let gstinCheck: IdentifierCheck = { status: 'missing' };
+  if (normalizeIdentifier(startup.gst_number)) {
+    const gstin = checkGstin(startup.gst_number);
+    if (gstin.valid === false) gstinCheck = result(gstin.error);
+    else gstinCheck = result(gstinPanMismatch(gstin.gstin, pan));
+  }
+
+  return {
+    pan: pan ? result(panError(pan, startup.company_type)) : { status: 'missing' },
+    registration: { ...registrationCheck, kind },
+    gstin: gstinCheck
+  };
+}
+
+function result(error: string | null): IdentifierCheck {
+  return error ? { status: 'failed', error } : { status: 'passed' };
+}
+
+function withArticle(noun: string): string {
+  return /^[aeiou]/i.test(noun) ? `an ${noun}` : `a ${noun}`;
+}
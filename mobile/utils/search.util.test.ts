@@ -0,0 +1,66 @@
+/*
+ * utils/search.util.test.ts
+ *
+ * Purpose: full-text query building, facet counting and the list and
+ * LIKE patterns facet filters use. Run with `npm test`.
+ */
+
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  activeFacetCount,
+  countFacet,
+  escapeLike,
+  findSort,
+  listItemPattern,
+  pageRange,
+  splitList,
+  STARTUP_SORTS,
+  toTextQuery
+} from './search.util';
+
+test('every typed word must match, as a prefix', () => {
+  assert.equal(toTextQuery('Cold room'), 'cold:* & room:*');
+  assert.equal(toTextQuery('  agri-tech!  '), 'agri:* & tech:*');
+  assert.equal(toTextQuery("it's & | ! :*"), 'it:* & s:*');
+  assert.equal(toTextQuery('  ,;  '), null);
+  assert.equal(toTextQuery('a b c d e f g h i j').split(' & ').length, 8);
+});
+
+test('facet values are counted once per row, ignoring case', () => {
+  const rows = [
+    { industry: 'Fintech, AI' },
+    { industry: 'fintech' },
+    { industry: 'AgriTech, ai, AI' },
+    { industry: null }
+  ];
+  assert.deepEqual(countFacet(rows, r => splitList(r.industry)), [
+    { value: 'AI', count: 2 },
+    { value: 'Fintech', count: 2 },
+    { value: 'AgriTech', count: 1 }
+  ]);
+});
+
+test('an industry matches a whole list item', () => {
+  const pattern = new RegExp(listItemPattern('AI'), 'i');
+  assert.ok(pattern.test('Fintech, AI'));
+  assert.ok(pattern.test('ai'));
+  assert.ok(pattern.test('AI ,Retail'));
+  assert.ok(!pattern.test('Retail'));
+  assert.ok(!pattern.test('AI/ML'));
+  assert.ok(new RegExp(listItemPattern('C++'), 'i').test('Dev tools, C++'));
+});
+
+test('LIKE wildcards in facet values are matched literally', () => {
+  assert.equal(escapeLike('100%_sure\\'), '100\\%\\_sure\\\\');
+  assert.equal(escapeLike('Bengaluru'), 'Bengaluru');
+});
+
+test('pages, sorts and facet counts', () => {
+  assert.deepEqual(pageRange(0), [0, 19]);
+  assert.deepEqual(pageRange(2, 10), [20, 29]);
+  assert.deepEqual(pageRange(-1, 10), [0, 9]);
+  assert.equal(findSort(STARTUP_SORTS, 'name').column, 'company_name');
+  assert.equal(findSort(STARTUP_SORTS, 'unknown').key, 'newest');
+  assert.equal(activeFacetCount({ industry: 'AI', stage: null, location: '' }), 1);
+});
@@ -0,0 +1,161 @@
+/*
+ * utils/search.util.ts
+ *
+ * Purpose: the pure parts of search on the browse screens: turning what
+ * the user typed into a full-text query, the facet and sort choices for
+ * startups, investors and campaigns, and counting facet values.
+ *
+ * Queries themselves live in services/data/search.repository.ts.
+ */
+
+import { CampaignType, VerificationStatus } from '../services/data/database.types';
+
+export const SEARCH_PAGE_SIZE = 20;
+
+export type SearchEntity = 'startups' | 'investors' | 'campaigns';
+
+/*
+ * toTextQuery
+ * - A `to_tsquery` string in which every word the user typed must match,
+ *   each as a prefix so results narrow while typing: "cold room" becomes
+ *   `cold:* & room:*`.
+ * - Punctuation is dropped rather than escaped, so no input can produce a
+ *   query Postgres rejects. Returns null when nothing searchable is left.
+ */
+export function toTextQuery(input: string): string | null {
+  const terms = input
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+    .slice(0, 8);
+  return terms.length > 0 ? terms.map(term => `${term}:*`).join(' & ') : null;
+}
+
+// A band of amounts in rupees; `max` null means no upper bound.
+export type AmountRange = { key: string; label: string; min: number; max: number | null };
+
+// Ticket sizes, matched against an investor's or a round's
+// min_investment..max_investment.
+export const TICKET_RANGES: AmountRange[] = [
+  { key: 'under_5l', label: 'Under ₹5L', min: 0, max: 500000 },
+  { key: '5l_25l', label: '₹5L–25L', min: 500000, max: 2500000 },
+  { key: '25l_1cr', label: '₹25L–1Cr', min: 2500000, max: 10000000 },
+  { key: 'over_1cr', label: '₹1Cr+', min: 10000000, max: null }
+];
+
+// How much of its goal a campaign has raised, in percent.
+export const RAISED_BANDS: AmountRange[] = [
+  { key: 'under_25', label: 'Under 25%', min: 0, max: 25 },
+  { key: '25_75', label: '25–75%', min: 25, max: 75 },
+  { key: '75_100', label: '75–100%', min: 75, max: 100 },
+  { key: 'funded', label: 'Fully funded', min: 100, max: null }
+];
+
+export const VERIFICATION_LABELS: Record<VerificationStatus, string> = {
+  pending: 'Pending',
+  verified: 'Verified',
+  rejected: 'Rejected'
+};
+
+// The facets a search can be narrowed by. Each screen uses the ones that
+// apply to what it lists; unset facets do not filter.
+export type SearchFacets = {
+  industry?: string | null;
+  stage?: string | null;
+  location?: string | null;
+  investorType?: string | null;
+  ticket?: string | null;
+  raised?: string | null;
+  verification?: VerificationStatus | null;
+  campaignType?: CampaignType | null;
+};
+
+export function activeFacetCount(facets: SearchFacets): number {
+  return Object.values(facets).filter(v => v !== null && v !== undefined && v !== '').length;
+}
+
+export function findRange(ranges: AmountRange[], key: string | null | undefined): AmountRange | null {
+  return ranges.find(r => r.key === key) ?? null;
+}
+
+export type SortOption = { key: string; label: string; column: string; ascending: boolean };
+
+export const STARTUP_SORTS: SortOption[] = [
+  { key: 'newest', label: 'Newest', column: 'created_at', ascending: false },
+  { key: 'name', label: 'Name A–Z', column: 'company_name', ascending: true },
+  { key: 'founded', label: 'Recently founded', column: 'founded_year', ascending: false },
+  { key: 'team', label: 'Largest team', column: 'team_size', ascending: false }
+];
+
+export const INVESTOR_SORTS: SortOption[] = [
+  { key: 'newest', label: 'Newest', column: 'created_at', ascending: false },
+  { key: 'name', label: 'Name A–Z', column: 'investor_name', ascending: true },
+  { key: 'ticket_high', label: 'Largest ticket', column: 'max_investment', ascending: false },
+  { key: 'ticket_low', label: 'Smallest ticket', column: 'min_investment', ascending: true }
+];
+
+export const CAMPAIGN_SORTS: SortOption[] = [
+  { key: 'newest', label: 'Newest', column: 'created_at', ascending: false },
+  { key: 'closing', label: 'Closing soon', column: 'end_date', ascending: true },
+  { key: 'raised', label: 'Most funded', column: 'funded_percent', ascending: false },
+  { key: 'goal_high', label: 'Largest goal', column: 'funding_goal', ascending: false },
+  { key: 'goal_low', label: 'Smallest goal', column: 'funding_goal', ascending: true }
+];
+
+export function findSort(options: SortOption[], key: string | null | undefined): SortOption {
+  return options.find(o => o.key === key) ?? options[0];
+}
+
+// Rows `from`..`to` (inclusive) of a zero-based page.
+export function pageRange(page: number, size: number = SEARCH_PAGE_SIZE): [number, number] {
+  const from = Math.max(0, page) * size;
+  return [from, from + size - 1];
+}
+
+export type FacetCount = { value: string; count: number };
+
+/*
+ * countFacet
+ * - How many rows carry each value, most common first, then by name.
+ *   `values` returns a row's values, e.g. every industry in a
+ *   comma-separated list. Values are matched case-insensitively and
+ *   shown as first written.
+ */
+export function countFacet<T>(rows: T[], values: (row: T) => Array<string | null | undefined>): FacetCount[] {
+  const counts = new Map<string, FacetCount>();
+  for (const row of rows) {
+    const seen = new Set<string>();
+    for (const raw of values(row)) {
+      const value = (raw || '').trim();
+      const key = value.toLowerCase();
+      if (!value || seen.has(key)) continue;
+      seen.add(key);
+      const entry = counts.get(key);
+      if (entry) entry.count++;
+      else counts.set(key, { value, count: 1 });
+    }
+  }
+  return [...counts.values()].sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+}
+
+// Profiles store industries as a comma-separated list.
+export function splitList(value: string | null | undefined): string[] {
+  return (value || '').split(',').map(v => v.trim()).filter(Boolean);
+}
+
+/*
+ * listItemPattern
+ * - A case-insensitive regular expression (for regexIMatch) matching
+ *   `value` as one whole item of a comma-separated list, so "AI" finds
+ *   "Fintech, AI" but not "Retail".
+ */
+export function listItemPattern(value: string): string {
+  const escaped = value.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return `(^|,)\\s*${escaped}\\s*(,|$)`;
+}
+
+// `value` with LIKE's wildcards escaped, to match it literally (ilike
+// makes facet values case-insensitive, as countFacet counts them).
+export function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, c => `\\${c}`);
+}
@@ -0,0 +1,155 @@
+/*
+ * utils/timezone.util.ts
+ *
+ * Purpose: convert between wall-clock times in a named IANA time zone
+ * ('Asia/Kolkata', 'America/New_York') and absolute instants, using only
+ * `Intl`. Meeting slots are picked as a date and time in the proposer's
+ * zone and stored as UTC; these helpers do both directions, including
+ * across daylight-saving changes.
+ */
+
+export type WallTime = {
+  // 'YYYY-MM-DD'
+  date: string;
+  // 'HH:MM', 24-hour
+  time: string;
+};
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const TIME_PATTERN = /^(\d{1,2}):(\d{2})$/;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function partsFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function zonedParts(instant: Date, timeZone: string): Record<string, number> {
+  const parts: Record<string, number> = {};
+  for (const part of partsFormatter(timeZone).formatToParts(instant)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return parts;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  if (!timeZone) return false;
+  try {
+    partsFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// The device's zone, or UTC when the runtime does not report one.
+export function deviceTimeZone(): string {
+  try {
+    const zone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    return zone && isValidTimeZone(zone) ? zone : 'UTC';
+  } catch {
+    return 'UTC';
+  }
+}
+
+/*
+ * timeZoneOffsetMinutes
+ * - How far `timeZone` is ahead of UTC at `instant`, in minutes
+ *   (330 for Asia/Kolkata, -240 for New York in summer).
+ */
+export function timeZoneOffsetMinutes(instant: Date, timeZone: string): number {
+  const p = zonedParts(instant, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  const whole = Math.floor(instant.getTime() / 1000) * 1000;
+  return Math.round((asUtc - whole) / 60000);
+}
+
+/*
+ * zonedTimeToUtc
+ * - The instant at which clocks in `timeZone` show `wall`. Returns null
+ *   for a malformed date or time, or an unknown zone.
+ * - A time skipped by a spring-forward change resolves to the same
+ *   number of minutes after the change; a time repeated by a fall-back
+ *   change resolves to its first occurrence.
+ */
+export function zonedTimeToUtc(wall: WallTime, timeZone: string): Date | null {
+  const d = DATE_PATTERN.exec(wall.date.trim());
+  const t = TIME_PATTERN.exec(wall.time.trim());
+  if (!d || !t || !isValidTimeZone(timeZone)) return null;
+
+  const [year, month, day] = [Number(d[1]), Number(d[2]), Number(d[3])];
+  const [hour, minute] = [Number(t[1]), Number(t[2])];
+  if (month < 1 || month > 12 || hour > 23 || minute > 59) return null;
+  const guess = Date.UTC(year, month - 1, day, hour, minute);
+  // Reject 2025-02-30 and friends rather than rolling them over.
+  if (new Date(guess).getUTCDate() !== day) return null;
+
+  // Offsets either side of the guess differ only near a transition; try
+  // each and keep the earliest candidate that reads back as `wall`.
+  const offsets = new Set([
+    timeZoneOffsetMinutes(new Date(guess - 86400000), timeZone),
+    timeZoneOffsetMinutes(new Date(guess), timeZone),
+    timeZoneOffsetMinutes(new Date(guess + 86400000), timeZone)
+  ]);
+  const candidates = [...offsets].map(offset => guess - offset * 60000).sort((a, b) => a - b);
+  for (const candidate of candidates) {
+    const back = utcToZonedTime(new Date(candidate), timeZone);
+    if (back.date === wall.date.trim() && back.time === formatHhMm(hour, minute)) {
+      return new Date(candidate);
+    }
+  }
+  // Skipped wall time: apply the offset in force before the change.
+  return new Date(guess - timeZoneOffsetMinutes(new Date(guess - 86400000), timeZone) * 60000);
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+function formatHhMm(hour: number, minute: number): string {
+  return `${pad(hour)}:${pad(minute)}`;
+}
+
+// The wall-clock date and time in `timeZone` at `instant`.
+export function utcToZonedTime(instant: Date, timeZone: string): WallTime {
+  const p = zonedParts(instant, timeZone);
+  return {
+    date: `${p.year}-${pad(p.month)}-${pad(p.day)}`,
+    time: formatHhMm(p.hour, p.minute)
+  };
+}
+
+/*
+ * formatInTimeZone
+ * - A readable date and time in `timeZone`, e.g. "Tue, 4 Nov 2025,
+ *   10:30 GMT+5:30". The zone name is always shown, so two people in
+ *   different zones can tell which clock a time is on.
+ */
+export function formatInTimeZone(instant: Date | string, timeZone: string): string {
+  const date = typeof instant === 'string' ? new Date(instant) : instant;
+  return new Intl.DateTimeFormat('en-GB', {
+    timeZone,
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+    timeZoneName: 'short'
+  }).format(date);
+}
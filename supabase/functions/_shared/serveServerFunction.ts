@@ -0,0 +1,57 @@
+/*
+ * supabase/functions/_shared/serveServerFunction.ts
+ *
+ * Purpose: the HTTP wrapper every Edge Function in this folder shares.
+ * It serves one handler from mobile/server with:
+ * - CORS for the app's `supabase.functions.invoke` calls,
+ * - a service-role client (SUPABASE_SERVICE_ROLE_KEY is set by Supabase
+ *   for every Edge Function; it is never shipped to clients),
+ * - the caller resolved from the request's Authorization header, so
+ *   handlers see the same `ServerCaller` as on the local backend.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import type { ServerFunction } from '../../../mobile/server/index.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type'
+};
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+}
+
+export function serveServerFunction(handler: ServerFunction): void {
+  Deno.serve(async (req: Request) => {
+    if (req.method === 'OPTIONS') {
+      return new Response('ok', { headers: corsHeaders });
+    }
+    if (req.method !== 'POST') {
+      return new Response('Method not allowed', { status: 405, headers: corsHeaders });
+    }
+
+    const admin = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+      auth: { persistSession: false, autoRefreshToken: false }
+    });
+
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      return json({ success: false, error: 'Invalid JSON body' }, 400);
+    }
+
+    // Signed-out calls carry the anon key, which resolves to no user.
+    const token = (req.headers.get('Authorization') || '').replace(/^Bearer\s+/i, '');
+    const { data } = token ? await admin.auth.getUser(token) : { data: { user: null } };
+    const caller = { userId: data.user?.id ?? null };
+
+    // Expected failures are 200s with `success: false`, matching what the
+    // local backend returns.
+    return json(await handler(admin as any, body, caller));
+  });
+}
@@ -0,0 +1,16 @@
+/*
+ * supabase/functions/accept-meeting-slot/index.ts
+ *
+ * Purpose: deploy mobile/server/acceptMeetingSlot.ts as a Supabase Edge
+ * Function so investors on the hosted app can accept a proposed meeting
+ * time.
+ *
+ * Deploy with `supabase functions deploy accept-meeting-slot`. The caller
+ * comes from the Authorization header that `functions.invoke` sends with
+ * the signed-in session (see _shared).
+ */
+
+import { acceptMeetingSlot } from '../../../mobile/server/acceptMeetingSlot.ts';
+import { serveServerFunction } from '../_shared/serveServerFunction.ts';
+
+serveServerFunction(acceptMeetingSlot);
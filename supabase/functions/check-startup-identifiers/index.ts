@@ -0,0 +1,14 @@
+/*
+ * supabase/functions/check-startup-identifiers/index.ts
+ *
+ * Purpose: deploy mobile/server/checkStartupIdentifiers.ts as a Supabase
+ * Edge Function: checks the caller's startup's PAN, CIN/LLPIN and GSTIN
+ * and records the results for admins.
+ *
+ * Deploy with `supabase functions deploy check-startup-identifiers`.
+ */
+
+import { checkStartupIdentifiers } from '../../../mobile/server/checkStartupIdentifiers.ts';
+import { serveServerFunction } from '../_shared/serveServerFunction.ts';
+
+serveServerFunction(checkStartupIdentifiers);
@@ -0,0 +1,15 @@
+/*
+ * supabase/functions/commit-investment/index.ts
+ *
+ * Purpose: deploy mobile/server/commitInvestment.ts as a Supabase Edge
+ * Function so investors on the hosted app can confirm an investment.
+ *
+ * Deploy with `supabase functions deploy commit-investment`. The caller
+ * comes from the Authorization header that `functions.invoke` sends with
+ * the signed-in session (see _shared).
+ */
+
+import { commitInvestment } from '../../../mobile/server/commitInvestment.ts';
+import { serveServerFunction } from '../_shared/serveServerFunction.ts';
+
+serveServerFunction(commitInvestment);
@@ -0,0 +1,15 @@
+/*
+ * supabase/functions/create-payment-order/index.ts
+ *
+ * Purpose: deploy `createPaymentOrder` from mobile/server/payments.ts as
+ * a Supabase Edge Function: opens (or reopens) a gateway order for one
+ * of the caller's confirmed investments and returns the checkout
+ * details.
+ *
+ * Deploy with `supabase functions deploy create-payment-order`.
+ */
+
+import { createPaymentOrder } from '../../../mobile/server/payments.ts';
+import { serveServerFunction } from '../_shared/serveServerFunction.ts';
+
+serveServerFunction(createPaymentOrder);
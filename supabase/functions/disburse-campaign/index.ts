@@ -0,0 +1,14 @@
+/*
+ * supabase/functions/disburse-campaign/index.ts
+ *
+ * Purpose: deploy `disburseCampaign` from mobile/server/ledger.ts as a
+ * Supabase Edge Function: lets an admin pay a campaign's paid-in money
+ * out to its startup, less the platform fee.
+ *
+ * Deploy with `supabase functions deploy disburse-campaign`.
+ */
+
+import { disburseCampaign } from '../../../mobile/server/ledger.ts';
+import { serveServerFunction } from '../_shared/serveServerFunction.ts';
+
+serveServerFunction(disburseCampaign);
@@ -0,0 +1,15 @@
+/*
+ * supabase/functions/fake-payment-checkout/index.ts
+ *
+ * Purpose: deploy `fakePaymentCheckout` from mobile/server/payments.ts
+ * as a Supabase Edge Function: simulates checkout against the fake
+ * gateway. It refuses to run unless PAYMENT_PROVIDER=fake, so only
+ * deploy it to a staging project.
+ *
+ * Deploy with `supabase functions deploy fake-payment-checkout`.
+ */
+
+import { fakePaymentCheckout } from '../../../mobile/server/payments.ts';
+import { serveServerFunction } from '../_shared/serveServerFunction.ts';
+
+serveServerFunction(fakePaymentCheckout);
@@ -0,0 +1,14 @@
+/*
+ * supabase/functions/ledger-balances/index.ts
+ *
+ * Purpose: deploy `ledgerBalances` from mobile/server/ledger.ts as a
+ * Supabase Edge Function: lists ledger account balances and each
+ * campaign's escrow for admins.
+ *
+ * Deploy with `supabase functions deploy ledger-balances`.
+ */
+
+import { ledgerBalances } from '../../../mobile/server/ledger.ts';
+import { serveServerFunction } from '../_shared/serveServerFunction.ts';
+
+serveServerFunction(ledgerBalances);
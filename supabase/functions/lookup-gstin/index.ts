@@ -0,0 +1,15 @@
+/*
+ * supabase/functions/lookup-gstin/index.ts
+ *
+ * Purpose: deploy mobile/server/lookupGstin.ts as a Supabase Edge
+ * Function: checks a GSTIN and returns its legal name and status from
+ * the GST register.
+ *
+ * Deploy with `supabase functions deploy lookup-gstin` and set
+ * GST_PROVIDER (and the provider's credentials) as function secrets.
+ */
+
+import { lookupGstin } from '../../../mobile/server/lookupGstin.ts';
+import { serveServerFunction } from '../_shared/serveServerFunction.ts';
+
+serveServerFunction(lookupGstin);
@@ -0,0 +1,15 @@
+/*
+ * supabase/functions/match-contacts/index.ts
+ *
+ * Purpose: deploy mobile/server/matchContacts.ts as a Supabase Edge
+ * Function so matched startups and investors can see each other's
+ * contact details on the hosted app.
+ *
+ * Deploy with `supabase functions deploy match-contacts`. The caller
+ * comes from the Authorization header (see _shared).
+ */
+
+import { matchContacts } from '../../../mobile/server/matchContacts.ts';
+import { serveServerFunction } from '../_shared/serveServerFunction.ts';
+
+serveServerFunction(matchContacts);
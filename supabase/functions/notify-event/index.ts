@@ -0,0 +1,15 @@
+/*
+ * supabase/functions/notify-event/index.ts
+ *
+ * Purpose: deploy mobile/server/notifyEvent.ts as a Supabase Edge
+ * Function so the hosted app can notify the people an event affects.
+ *
+ * Deploy with `supabase functions deploy notify-event`. Push and email
+ * stay stubbed until NOTIFICATION_TRANSPORT=live is set as a function
+ * secret (see mobile/server/notificationTransports.ts).
+ */
+
+import { notifyEvent } from '../../../mobile/server/notifyEvent.ts';
+import { serveServerFunction } from '../_shared/serveServerFunction.ts';
+
+serveServerFunction(notifyEvent);
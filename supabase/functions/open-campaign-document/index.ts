@@ -0,0 +1,16 @@
+/*
+ * supabase/functions/open-campaign-document/index.ts
+ *
+ * Purpose: deploy mobile/server/openCampaignDocument.ts as a Supabase
+ * Edge Function so the hosted app can open data room documents through
+ * short-lived, watermarked links.
+ *
+ * Deploy with `supabase functions deploy open-campaign-document`. The
+ * caller comes from the Authorization header that `functions.invoke`
+ * sends with the signed-in session (see _shared).
+ */
+
+import { openCampaignDocument } from '../../../mobile/server/openCampaignDocument.ts';
+import { serveServerFunction } from '../_shared/serveServerFunction.ts';
+
+serveServerFunction(openCampaignDocument);
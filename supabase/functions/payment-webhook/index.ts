@@ -0,0 +1,39 @@
+/*
+ * supabase/functions/payment-webhook/index.ts
+ *
+ * Purpose: receive the payment gateway's webhooks and hand them to
+ * `handlePaymentWebhook` (mobile/server/payments.ts).
+ *
+ * Unlike the other functions this one is called by the gateway, not the
+ * app: it has no user session and its signature covers the raw body, so
+ * it reads the body as text instead of going through
+ * serveServerFunction. Deploy with
+ * `supabase functions deploy payment-webhook --no-verify-jwt` and point
+ * the gateway's webhook at its URL, with RAZORPAY_WEBHOOK_SECRET set to
+ * the secret entered there.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { handlePaymentWebhook } from '../../../mobile/server/payments.ts';
+
+Deno.serve(async (req: Request) => {
+  if (req.method !== 'POST') {
+    return new Response('Method not allowed', { status: 405 });
+  }
+
+  const admin = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+    auth: { persistSession: false, autoRefreshToken: false }
+  });
+
+  const result = await handlePaymentWebhook(admin as any, {
+    rawBody: await req.text(),
+    signature: req.headers.get('X-Razorpay-Signature'),
+    eventId: req.headers.get('X-Razorpay-Event-Id')
+  });
+
+  // Anything but a 2xx makes the gateway retry later.
+  return new Response(JSON.stringify(result), {
+    status: result.success ? 200 : result.status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+});
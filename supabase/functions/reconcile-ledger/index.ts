@@ -0,0 +1,14 @@
+/*
+ * supabase/functions/reconcile-ledger/index.ts
+ *
+ * Purpose: deploy `reconcileLedger` from mobile/server/ledger.ts as a
+ * Supabase Edge Function: checks the ledger against payments,
+ * investments and campaign totals, and optionally repairs it.
+ *
+ * Deploy with `supabase functions deploy reconcile-ledger`.
+ */
+
+import { reconcileLedger } from '../../../mobile/server/ledger.ts';
+import { serveServerFunction } from '../_shared/serveServerFunction.ts';
+
+serveServerFunction(reconcileLedger);
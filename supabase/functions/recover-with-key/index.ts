@@ -0,0 +1,18 @@
+/*
+ * supabase/functions/recover-with-key/index.ts
+ *
+ * Purpose: deploy mobile/server/recoverWithKey.ts as a Supabase Edge
+ * Function so the hosted app can reset a password with a recovery key.
+ *
+ * Deploy with `supabase functions deploy recover-with-key`. The HTTP
+ * handling is shared with the other functions (see _shared).
+ *
+ * deno.json maps `@supabase/supabase-js` and `@noble/hashes` (recovery key
+ * hashing) to npm and enables sloppy imports, so the shared handler's
+ * extensionless imports resolve under Deno.
+ */
+
+import { recoverWithKey } from '../../../mobile/server/recoverWithKey.ts';
+import { serveServerFunction } from '../_shared/serveServerFunction.ts';
+
+serveServerFunction(recoverWithKey);
@@ -0,0 +1,14 @@
+/*
+ * supabase/functions/refresh-kyc/index.ts
+ *
+ * Purpose: deploy `refreshKyc` from mobile/server/kyc.ts as a Supabase
+ * Edge Function: rebuilds a user's KYC record from their Aadhaar, profile
+ * checks and reviews, and returns it.
+ *
+ * Deploy with `supabase functions deploy refresh-kyc`.
+ */
+
+import { refreshKyc } from '../../../mobile/server/kyc.ts';
+import { serveServerFunction } from '../_shared/serveServerFunction.ts';
+
+serveServerFunction(refreshKyc);
@@ -0,0 +1,14 @@
+/*
+ * supabase/functions/refund-payment/index.ts
+ *
+ * Purpose: deploy `refundPayment` from mobile/server/payments.ts as a
+ * Supabase Edge Function: lets an admin refund some or all of a captured
+ * payment.
+ *
+ * Deploy with `supabase functions deploy refund-payment`.
+ */
+
+import { refundPayment } from '../../../mobile/server/payments.ts';
+import { serveServerFunction } from '../_shared/serveServerFunction.ts';
+
+serveServerFunction(refundPayment);
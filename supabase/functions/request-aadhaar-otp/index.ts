@@ -0,0 +1,19 @@
+/*
+ * supabase/functions/request-aadhaar-otp/index.ts
+ *
+ * Purpose: deploy `requestAadhaarOtp` from mobile/server/aadhaarOtp.ts as
+ * a Supabase Edge Function, the first step of Aadhaar verification.
+ *
+ * Deploy with `supabase functions deploy request-aadhaar-otp`. It needs
+ * AADHAAR_ENCRYPTION_KEY and AADHAAR_PROVIDER set as function secrets
+ * (see server/aadhaarProviders.ts); without a provider it reports
+ * verification as unavailable.
+ *
+ * deno.json maps `@noble/ciphers` (number encryption) and `@noble/hashes`
+ * to npm.
+ */
+
+import { requestAadhaarOtp } from '../../../mobile/server/aadhaarOtp.ts';
+import { serveServerFunction } from '../_shared/serveServerFunction.ts';
+
+serveServerFunction(requestAadhaarOtp);
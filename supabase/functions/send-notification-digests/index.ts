@@ -0,0 +1,15 @@
+/*
+ * supabase/functions/send-notification-digests/index.ts
+ *
+ * Purpose: deploy mobile/server/sendNotificationDigests.ts as a Supabase
+ * Edge Function that sends daily and weekly digest emails.
+ *
+ * Deploy with `supabase functions deploy send-notification-digests` and
+ * call it hourly from a scheduler with `{ "secret": ... }` matching the
+ * NOTIFICATION_CRON_SECRET function secret.
+ */
+
+import { sendNotificationDigests } from '../../../mobile/server/sendNotificationDigests.ts';
+import { serveServerFunction } from '../_shared/serveServerFunction.ts';
+
+serveServerFunction(sendNotificationDigests);
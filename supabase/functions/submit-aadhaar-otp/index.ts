@@ -0,0 +1,15 @@
+/*
+ * supabase/functions/submit-aadhaar-otp/index.ts
+ *
+ * Purpose: deploy `submitAadhaarOtp` from mobile/server/aadhaarOtp.ts as
+ * a Supabase Edge Function: checks the OTP and marks the caller's
+ * Aadhaar verified.
+ *
+ * Deploy with `supabase functions deploy submit-aadhaar-otp`, with the
+ * same AADHAAR_PROVIDER as request-aadhaar-otp.
+ */
+
+import { submitAadhaarOtp } from '../../../mobile/server/aadhaarOtp.ts';
+import { serveServerFunction } from '../_shared/serveServerFunction.ts';
+
+serveServerFunction(submitAadhaarOtp);
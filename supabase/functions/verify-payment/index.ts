@@ -0,0 +1,14 @@
+/*
+ * supabase/functions/verify-payment/index.ts
+ *
+ * Purpose: deploy `verifyPayment` from mobile/server/payments.ts as a
+ * Supabase Edge Function: checks a checkout response's signature and
+ * captures the payment.
+ *
+ * Deploy with `supabase functions deploy verify-payment`.
+ */
+
+import { verifyPayment } from '../../../mobile/server/payments.ts';
+import { serveServerFunction } from '../_shared/serveServerFunction.ts';
+
+serveServerFunction(verifyPayment);